@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+/* eslint-env node */
+// Generates worker/utils/usGeographyCounties.ts from the GeoNames US postal code
+// file (https://download.geonames.org/export/zip/US.zip, CC BY 4.0; the same file
+// ships as data/US.txt in the zipcodes-us npm package).
+//
+// Usage: npm run generate:geography -- path/to/US.txt
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const ROOT_PATH = fileURLToPath(new URL('..', import.meta.url));
+const OUTPUT_PATH = path.join(ROOT_PATH, 'worker', 'utils', 'usGeographyCounties.ts');
+
+// Freely associated states the GeoNames file lists; their ZIPs stay state-only like the territories
+const SKIPPED_STATES = new Set(['FM', 'MH', 'PW']);
+
+const log = (message) => {
+  process.stdout.write(`${message}\n`);
+};
+
+const fail = (message) => {
+  process.stderr.write(`${message}\n`);
+  process.exit(1);
+};
+
+/**
+ * GeoNames county names -> the dataset's convention: plain ASCII, no "County"/
+ * "Parish"/"Borough"/"Census Area" suffix, independent cities flagged.
+ */
+function parseCounty(raw) {
+  // "Doña Ana" -> "Dona Ana", "Saint Johns" -> "St. Johns"
+  const name = raw.trim().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/^Saint /, 'St. ');
+  const independent = name.match(/^City of (.+)$/) ?? name.match(/^(.+?) \(city\)?$/);
+  if (independent) {
+    return { name: independent[1], independent: true };
+  }
+  return {
+    name: name
+      .replace(/^City and (?:County|Borough) of /, '')
+      .replace(/ \(CA\)$/, '')
+      .replace(/ (?:County|Parish|Borough|Census Area|Municipality|City and Borough)$/, ''),
+    independent: false
+  };
+}
+
+function toBase36(value) {
+  return value.toString(36);
+}
+
+async function main() {
+  const inputPath = process.argv[2];
+  if (!inputPath) {
+    fail('Usage: node scripts/generate-us-geography.mjs path/to/US.txt');
+  }
+
+  const lines = (await fs.readFile(inputPath, 'utf8')).split('\n').filter(Boolean);
+  // state -> zip -> { county, city }
+  const states = new Map();
+  const independentByState = new Map();
+
+  for (const line of lines) {
+    const [country, zip, city, , state, county] = line.split('\t');
+    // Military APO/FPO codes have no state or county
+    if (country !== 'US' || !state || SKIPPED_STATES.has(state) || !county || !/^\d{5}$/.test(zip)) continue;
+
+    const parsed = parseCounty(county);
+    if (parsed.independent) {
+      independentByState.set(state, (independentByState.get(state) ?? new Set()).add(parsed.name));
+    }
+    const zips = states.get(state) ?? new Map();
+    if (!zips.has(zip)) {
+      zips.set(zip, { county: parsed.name, independent: parsed.independent, city });
+    }
+    states.set(state, zips);
+  }
+
+  // Independent cities sharing a name with a county of their state ("Baltimore") become "Baltimore City"
+  for (const [state, zips] of states) {
+    const counties = new Set([...zips.values()].filter(entry => !entry.independent).map(entry => entry.county));
+    for (const entry of zips.values()) {
+      if (entry.independent && counties.has(entry.county)) {
+        const renamed = `${entry.county} City`;
+        independentByState.get(state).delete(entry.county);
+        independentByState.get(state).add(renamed);
+        entry.county = renamed;
+      }
+    }
+  }
+
+  const stateEntries = [];
+
+  for (const state of [...states.keys()].sort()) {
+    const zips = states.get(state);
+    const counties = [...new Set([...zips.values()].map(entry => entry.county))].sort();
+    const countyIndex = new Map(counties.map((county, index) => [county, index]));
+
+    let previousZip = 0;
+    let previousCounty = -1;
+    const zipTokens = [];
+    for (const zip of [...zips.keys()].sort()) {
+      const county = countyIndex.get(zips.get(zip).county);
+      const value = Number(zip);
+      zipTokens.push(`${toBase36(value - previousZip)}${county === previousCounty ? '' : `:${toBase36(county)}`}`);
+      previousZip = value;
+      previousCounty = county;
+    }
+
+    // City -> the county holding most of its ZIPs (ties go to the lowest ZIP)
+    const cityCounties = new Map();
+    for (const zip of [...zips.keys()].sort()) {
+      const { city, county } = zips.get(zip);
+      const counts = cityCounties.get(city) ?? new Map();
+      counts.set(county, (counts.get(county) ?? 0) + 1);
+      cityCounties.set(city, counts);
+    }
+    const cityTokens = [];
+    for (const city of [...cityCounties.keys()].sort()) {
+      const counts = cityCounties.get(city);
+      let best = null;
+      for (const [county, count] of counts) {
+        if (!best || count > best.count) best = { county, count };
+      }
+      cityTokens.push(`${city}=${toBase36(countyIndex.get(best.county))}`);
+    }
+
+    stateEntries.push({ state, counties, zips: zipTokens.join(','), cities: cityTokens.join('|') });
+  }
+
+  const quote = (value) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  const output = `// Generated by scripts/generate-us-geography.mjs from the GeoNames US postal code
+// file (https://www.geonames.org, CC BY 4.0). Do not edit by hand; re-run the script.
+
+/**
+ * Per state: \`counties\` is a '|'-separated county list. \`zips\` holds one
+ * token per ZIP in ascending order: the base-36 difference from the previous
+ * ZIP, plus \`:<county index>\` in base 36 when the county changes. \`cities\`
+ * holds \`<city>=<county index>\` pairs separated by '|', each city under the
+ * county holding most of its ZIPs.
+ */
+export const STATE_GEOGRAPHY: Readonly<Record<string, { readonly counties: string; readonly zips: string; readonly cities: string }>> = {
+${stateEntries.map(entry => `  ${entry.state}: {
+    counties: ${quote(entry.counties.join('|'))},
+    zips: ${quote(entry.zips)},
+    cities: ${quote(entry.cities)}
+  }`).join(',\n')}
+};
+
+/**
+ * County-equivalents that are independent cities, not counties, by state.
+ */
+export const INDEPENDENT_CITIES: Readonly<Record<string, readonly string[]>> = {
+${[...independentByState.keys()].sort().map(state => `  ${state}: [${[...independentByState.get(state)].sort().map(quote).join(', ')}]`).join(',\n')}
+};
+`;
+
+  await fs.writeFile(OUTPUT_PATH, output);
+  const zipCount = [...states.values()].reduce((sum, zips) => sum + zips.size, 0);
+  log(`Wrote ${zipCount} ZIPs in ${states.size} states to ${path.relative(ROOT_PATH, OUTPUT_PATH)}`);
+}
+
+main().catch(error => fail(error instanceof Error ? error.stack ?? error.message : String(error)));
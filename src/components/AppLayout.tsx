@@ -29,6 +29,7 @@ const messages = {
 interface AppLayoutProps {
   organizationNotFound: boolean;
   organizationId: string;
+  sessionId?: string;
   onRetryOrganizationConfig: () => void;
   currentTab: 'chats' | 'matter';
   onTabChange: (tab: 'chats' | 'matter') => void;
@@ -50,6 +51,7 @@ interface AppLayoutProps {
 const AppLayout: FunctionComponent<AppLayoutProps> = ({
   organizationNotFound,
   organizationId,
+  sessionId,
   onRetryOrganizationConfig,
   currentTab,
   onTabChange,
@@ -293,6 +295,8 @@ const AppLayout: FunctionComponent<AppLayoutProps> = ({
               <MatterTab
                 matter={matter}
                 status={matterStatus}
+                organizationId={organizationId}
+                sessionId={sessionId}
                 onStartChat={handleGoToChats}
                 onViewInChat={handleContinueInChat}
                 onPayNow={() => {/* TODO: Implement payment flow */}}
@@ -7,6 +7,7 @@ import { FileAttachment } from '../../worker/types';
 import { ContactData } from './ContactForm';
 import { createKeyPressHandler } from '../utils/keyboard';
 import type { UploadingFile } from '../hooks/useFileUpload';
+import type { SessionTakeoverState } from '../hooks/useMessageHandling';
 
 interface ChatContainerProps {
   messages: ChatMessageUI[];
@@ -22,6 +23,8 @@ interface ChatContainerProps {
   sessionId?: string;
   organizationId?: string;
   onFeedbackSubmit?: (feedback: unknown) => void;
+  // Set while a staff member has taken the conversation over from the AI
+  takeover?: SessionTakeoverState | null;
 
   // File handling props
   previewFiles: FileAttachment[];
@@ -50,6 +53,7 @@ const ChatContainer: FunctionComponent<ChatContainerProps> = ({
   sessionId,
   organizationId,
   onFeedbackSubmit,
+  takeover,
   previewFiles,
   uploadingFiles,
   removePreviewFile,
@@ -149,7 +153,15 @@ const ChatContainer: FunctionComponent<ChatContainerProps> = ({
           organizationId={organizationId}
           onFeedbackSubmit={onFeedbackSubmit}
         />
-        
+
+        {takeover && (
+          <div className="flex justify-center px-4 py-2" role="status" data-testid="takeover-banner">
+            <span className="px-3 py-1 rounded-full bg-accent-500/10 text-gray-700 dark:text-gray-200 text-xs sm:text-sm">
+              You&apos;re chatting with {takeover.staffName}. Replies now come from them, not the AI assistant.
+            </span>
+          </div>
+        )}
+
         <MessageComposer
           inputValue={inputValue}
           setInputValue={setInputValue}
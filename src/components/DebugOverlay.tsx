@@ -15,9 +15,44 @@ interface ToolCall {
   data: Record<string, unknown>;
 }
 
+interface MiddlewareTrace {
+  name: string;
+  durationMs: number;
+  outcome: 'continued' | 'responded' | 'stopped' | 'error';
+  changedFields: string[];
+  error?: string;
+}
+
+interface PipelineTrace {
+  durationMs: number;
+  respondedBy: string | null;
+  steps: MiddlewareTrace[];
+}
+
+const STEP_OUTCOME_CLASSES: Record<MiddlewareTrace['outcome'], string> = {
+  continued: 'text-gray-300',
+  responded: 'text-yellow-300',
+  stopped: 'text-yellow-300',
+  error: 'text-red-400'
+};
+
+function isMiddlewareTrace(value: unknown): value is MiddlewareTrace {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const step = value as Record<string, unknown>;
+  return typeof step.name === 'string' &&
+    typeof step.durationMs === 'number' &&
+    typeof step.outcome === 'string' &&
+    step.outcome in STEP_OUTCOME_CLASSES &&
+    Array.isArray(step.changedFields);
+}
+
 export const DebugOverlay: FunctionComponent<DebugOverlayProps> = ({ isVisible = false }) => {
   const [toolCalls, setToolCalls] = useState<ToolCall[]>([]);
   const [conversationState, setConversationState] = useState<string>('unknown');
+  const [pipelineTrace, setPipelineTrace] = useState<PipelineTrace | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isExpanded, setIsExpanded] = useState<boolean>(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
@@ -85,6 +120,25 @@ export const DebugOverlay: FunctionComponent<DebugOverlayProps> = ({ isVisible =
     return 'unknown';
   }, [logMessage]);
 
+  const validatePipelineTrace = useCallback((data: unknown): PipelineTrace | null => {
+    // No trace until the first message is sent with worker debug mode on
+    if (data === undefined) {
+      return null;
+    }
+
+    const trace = typeof data === 'object' && data !== null ? data as Record<string, unknown> : null;
+    if (!trace || typeof trace.durationMs !== 'number' || !Array.isArray(trace.steps) || !trace.steps.every(isMiddlewareTrace)) {
+      logMessage('pipeline-trace', 'warn', 'Invalid __pipelineTrace structure', data);
+      return null;
+    }
+
+    return {
+      durationMs: trace.durationMs,
+      respondedBy: typeof trace.respondedBy === 'string' ? trace.respondedBy : null,
+      steps: trace.steps
+    };
+  }, [logMessage]);
+
   const updateToolCalls = useCallback((): boolean => {
     try {
       const rawCalls = getWindowProperty('__toolCalls');
@@ -129,12 +183,13 @@ export const DebugOverlay: FunctionComponent<DebugOverlayProps> = ({ isVisible =
 
     const toolCallsSuccess = updateToolCalls();
     const conversationStateSuccess = updateConversationState();
+    setPipelineTrace(validatePipelineTrace(getWindowProperty('__pipelineTrace')));
 
     if (toolCallsSuccess && conversationStateSuccess) {
       setError(null);
       setLastUpdated(new Date());
     }
-  }, [shouldRender, updateToolCalls, updateConversationState]);
+  }, [shouldRender, updateToolCalls, updateConversationState, validatePipelineTrace, getWindowProperty]);
 
   useEffect(() => {
     if (!shouldRender || typeof window === 'undefined') {
@@ -232,6 +287,31 @@ export const DebugOverlay: FunctionComponent<DebugOverlayProps> = ({ isVisible =
         )}
       </div>
       
+      <div className="mb-2">
+        <div>
+          <strong>Pipeline:</strong>{' '}
+          {pipelineTrace
+            ? `${pipelineTrace.durationMs}ms, ${pipelineTrace.respondedBy ? `answered by ${pipelineTrace.respondedBy}` : 'handed to AI'}`
+            : <span className="text-gray-400">No trace yet</span>}
+        </div>
+        {pipelineTrace && (
+          <div className="max-h-40 overflow-y-auto" role="list" aria-label="Pipeline middleware steps">
+            {pipelineTrace.steps.map((step, index) => (
+              <div
+                key={`${step.name}-${index}`}
+                className={STEP_OUTCOME_CLASSES[step.outcome]}
+                role="listitem"
+                aria-label={`${step.name} ${step.outcome} in ${step.durationMs} milliseconds`}
+              >
+                {step.name} {step.durationMs}ms {step.outcome}
+                {step.changedFields.length > 0 && ` [${step.changedFields.join(', ')}]`}
+                {step.error && <div className="text-red-300">{step.error}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       <div className="text-xs text-gray-400" aria-label={lastUpdated ? `Last updated at ${lastUpdated.toLocaleTimeString()}` : 'No successful updates yet'}>
         Last updated: {lastUpdated ? lastUpdated.toLocaleTimeString() : 'Never'}
       </div>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'preact/hooks';
+import { useState, useEffect, useCallback } from 'preact/hooks';
 import { features } from '../config/features';
 import { XMarkIcon, ExclamationTriangleIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
 
@@ -19,26 +19,34 @@ interface MatterProgressData {
   metadata?: Record<string, unknown>;
 }
 
+interface QuestionnaireProgressData {
+  service: string;
+  questions: Array<{ id: string; question: string; required: boolean }>;
+  answers: Array<{ questionId: string; question: string }>;
+  answeredCount: number;
+  totalCount: number;
+  complete: boolean;
+}
+
 interface MatterProgressProps {
   organizationId: string;
-  matterId: string;
+  matterId?: string;
+  sessionId?: string;
   visible?: boolean;
   onClose?: () => void;
 }
 
-export function MatterProgress({ organizationId, matterId, visible = false, onClose }: MatterProgressProps) {
+export function MatterProgress({ organizationId, matterId, sessionId, visible = false, onClose }: MatterProgressProps) {
   const [progressData, setProgressData] = useState<MatterProgressData | null>(null);
+  const [questionnaire, setQuestionnaire] = useState<QuestionnaireProgressData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const enabled = visible;
 
-  // Don't render if paralegal agent is disabled
-  if (!features.enableParalegalAgent || !visible) {
-    return null;
-  }
-
-  const fetchProgress = async () => {
-    if (!organizationId || !matterId) return;
+  const fetchProgress = useCallback(async () => {
+    // The formation checklist comes from the paralegal agent; without it only the questionnaire is shown
+    if (!features.enableParalegalAgent || !organizationId || !matterId) return;
 
     setLoading(true);
     setError(null);
@@ -64,17 +72,45 @@ export function MatterProgress({ organizationId, matterId, visible = false, onCl
     } finally {
       setLoading(false);
     }
-  };
+  }, [organizationId, matterId]);
+
+  const fetchQuestionnaire = useCallback(async () => {
+    if (!sessionId) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/questionnaire`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch questionnaire: ${response.statusText}`);
+      }
+
+      const body = await response.json() as { data?: { questionnaire?: QuestionnaireProgressData | null } };
+      setQuestionnaire(body.data?.questionnaire ?? null);
+    } catch (err) {
+      // The questionnaire is supplementary; keep showing the rest of the progress
+      console.error('Failed to fetch intake questionnaire:', err);
+    }
+  }, [sessionId]);
+
+  const refresh = useCallback(() => {
+    fetchProgress();
+    fetchQuestionnaire();
+  }, [fetchProgress, fetchQuestionnaire]);
 
   // Poll for updates every 10 seconds when visible
   useEffect(() => {
-    if (!visible) return;
+    if (!enabled) return;
 
-    fetchProgress(); // Initial fetch
+    refresh(); // Initial fetch
 
-    const interval = setInterval(fetchProgress, 10000); // Poll every 10 seconds
+    const interval = setInterval(refresh, 10000); // Poll every 10 seconds
     return () => clearInterval(interval);
-  }, [organizationId, matterId, visible]);
+  }, [enabled, refresh]);
 
   const getStageDisplayName = (stage: string): string => {
     const stageNames: Record<string, string> = {
@@ -98,13 +134,18 @@ export function MatterProgress({ organizationId, matterId, visible = false, onCl
     }
   };
 
+  const getQuestionnairePercentage = (): number => {
+    if (!questionnaire || questionnaire.totalCount === 0) return 0;
+    return Math.round((questionnaire.answeredCount / questionnaire.totalCount) * 100);
+  };
+
   const getProgressPercentage = (): number => {
     if (!progressData?.checklist) return 0;
     const completed = progressData.checklist.filter(item => item.status === 'completed').length;
     return Math.round((completed / progressData.checklist.length) * 100);
   };
 
-  if (!visible) return null;
+  if (!enabled) return null;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -113,7 +154,7 @@ export function MatterProgress({ organizationId, matterId, visible = false, onCl
         <div className="bg-blue-600 text-white px-6 py-4 flex justify-between items-center">
           <div>
             <h2 className="text-xl font-semibold">Matter Formation Progress</h2>
-            <p className="text-blue-100 text-sm">Matter ID: {matterId}</p>
+            {matterId && <p className="text-blue-100 text-sm">Matter ID: {matterId}</p>}
           </div>
           <button
             onClick={onClose}
@@ -148,6 +189,42 @@ export function MatterProgress({ organizationId, matterId, visible = false, onCl
             </div>
           )}
 
+          {/* Intake Questionnaire */}
+          {questionnaire && (
+            <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4 mb-6">
+              <h3 className="font-semibold text-indigo-900 mb-2">Intake Questionnaire</h3>
+              <p className="text-indigo-800">{questionnaire.service}</p>
+
+              <div className="mt-3">
+                <div className="flex justify-between text-sm text-indigo-700 mb-1">
+                  <span>{questionnaire.answeredCount} of {questionnaire.totalCount} answered</span>
+                  <span>{getQuestionnairePercentage()}%</span>
+                </div>
+                <div className="w-full bg-indigo-200 rounded-full h-2">
+                  <div
+                    className="bg-indigo-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${getQuestionnairePercentage()}%` }}
+                  />
+                </div>
+              </div>
+
+              <div className="mt-3 space-y-2">
+                {questionnaire.questions.map((question) => {
+                  const answered = questionnaire.answers.some(answer => answer.questionId === question.id);
+                  return (
+                    <div key={question.id} className="flex items-start space-x-3">
+                      <span className="text-lg">{getStatusIcon(answered ? 'completed' : 'pending')}</span>
+                      <p className={answered ? 'text-green-700 line-through' : 'text-gray-700'}>
+                        {question.question}
+                        {question.required && <span className="text-red-500 ml-1">*</span>}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {progressData && (
             <div className="space-y-6">
               {/* Current Stage */}
@@ -249,7 +326,7 @@ export function MatterProgress({ organizationId, matterId, visible = false, onCl
         {/* Footer */}
         <div className="bg-gray-50 px-6 py-4 flex justify-between items-center">
           <button
-            onClick={fetchProgress}
+            onClick={refresh}
             disabled={loading}
             className="text-blue-600 hover:text-blue-800 text-sm font-medium disabled:opacity-50"
           >
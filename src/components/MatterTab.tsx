@@ -1,5 +1,5 @@
 import { FunctionComponent } from 'preact';
-import { useRef } from 'preact/hooks';
+import { useRef, useState } from 'preact/hooks';
 import { analyzeMissingInfo } from '../utils/matterAnalysis';
 import {
   DocumentIcon,
@@ -10,10 +10,13 @@ import {
 import { MatterData, MatterStatus } from '../types/matter';
 import { getDefaultDocumentSuggestions } from '../hooks/useMatterState';
 import { DocumentIconAttachment } from '../../worker/types';
+import { MatterProgress } from './MatterProgress';
 
 interface MatterTabProps {
   matter: MatterData | null;
   status: MatterStatus;
+  organizationId?: string;
+  sessionId?: string;
   onStartChat?: () => void;
   onViewInChat?: () => void;
   onPayNow?: () => void;
@@ -25,6 +28,8 @@ interface MatterTabProps {
 const MatterTab: FunctionComponent<MatterTabProps> = ({
   matter,
   status,
+  organizationId,
+  sessionId,
   onStartChat,
   onViewInChat,
   onPayNow,
@@ -34,6 +39,7 @@ const MatterTab: FunctionComponent<MatterTabProps> = ({
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const pendingUploadDocId = useRef<string | null>(null);
+  const [showProgress, setShowProgress] = useState(false);
 
   // Handle file upload
   const handleDocumentIconUpload = async (event: Event) => {
@@ -213,8 +219,23 @@ const MatterTab: FunctionComponent<MatterTabProps> = ({
         <button onClick={onViewInChat}>
           View in Chat
         </button>
+        {organizationId && (sessionId || matter.matterId) && (
+          <button onClick={() => setShowProgress(true)}>
+            View Progress
+          </button>
+        )}
       </div>
 
+      {organizationId && (
+        <MatterProgress
+          organizationId={organizationId}
+          matterId={matter.matterId}
+          sessionId={sessionId}
+          visible={showProgress}
+          onClose={() => setShowProgress(false)}
+        />
+      )}
+
       {/* Hidden file input for document uploads */}
       <input
         ref={fileInputRef}
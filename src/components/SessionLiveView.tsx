@@ -0,0 +1,121 @@
+import { useState } from 'preact/hooks';
+import { FunctionComponent } from 'preact';
+import { useTranslation } from 'react-i18next';
+import { Button } from './ui/Button';
+import { Textarea } from './ui/input/Textarea';
+import { useSessionTakeover } from '../hooks/useSessionTakeover';
+import { cn } from '../utils/cn';
+
+interface SessionLiveViewProps {
+  organizationId: string;
+  sessionId: string;
+  currentUserId?: string;
+  className?: string;
+}
+
+/**
+ * Live transcript of an intake session for staff, with the controls to take
+ * the conversation over from the AI, reply to the client, and hand it back.
+ */
+const SessionLiveView: FunctionComponent<SessionLiveViewProps> = ({
+  organizationId,
+  sessionId,
+  currentUserId,
+  className = ''
+}) => {
+  const { t } = useTranslation('settings');
+  const { messages, takeover, loading, error, startTakeover, endTakeover, sendMessage } = useSessionTakeover({
+    organizationId,
+    sessionId
+  });
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const isMine = Boolean(takeover && currentUserId && takeover.userId === currentUserId);
+
+  const handleSend = async () => {
+    if (!draft.trim()) return;
+    setIsSending(true);
+    const sent = await sendMessage(draft);
+    if (sent) {
+      setDraft('');
+    }
+    setIsSending(false);
+  };
+
+  return (
+    <div className={cn('flex flex-col min-h-0', className)} data-testid="session-live-view">
+      <div className="flex items-center justify-between py-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400" role="status">
+          {takeover
+            ? isMine ? t('sessions.live.statusMine') : t('sessions.live.statusOther', { name: takeover.staffName })
+            : t('sessions.live.statusAi')}
+        </p>
+        {takeover ? (
+          isMine && (
+            <Button size="sm" variant="secondary" onClick={endTakeover}>
+              {t('sessions.live.handBack')}
+            </Button>
+          )
+        ) : (
+          <Button size="sm" onClick={startTakeover}>
+            {t('sessions.live.takeOver')}
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      <div className="flex-1 overflow-y-auto space-y-2 py-2" aria-live="polite">
+        {loading && messages.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('sessions.live.loading')}</p>
+        ) : messages.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('sessions.live.empty')}</p>
+        ) : messages.map(message => message.role === 'system' ? (
+          <p key={message.id} className="text-center text-xs text-gray-500 dark:text-gray-400">
+            {message.content}
+          </p>
+        ) : (
+          <div
+            key={message.id}
+            className={cn(
+              'max-w-[80%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap',
+              message.role === 'user'
+                ? 'mr-auto bg-gray-100 dark:bg-dark-card-bg text-gray-900 dark:text-gray-100'
+                : 'ml-auto bg-accent-500/10 text-gray-900 dark:text-gray-100'
+            )}
+          >
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+              {message.role === 'user'
+                ? t('sessions.live.client')
+                : message.metadata?.type === 'staff_message'
+                  ? String(message.metadata.staffName ?? t('sessions.live.staff'))
+                  : t('sessions.live.assistant')}
+            </p>
+            {message.content}
+          </div>
+        ))}
+      </div>
+
+      {isMine && (
+        <div className="space-y-2 pt-2">
+          <Textarea
+            value={draft}
+            onChange={setDraft}
+            placeholder={t('sessions.live.replyPlaceholder')}
+            rows={3}
+            maxLength={4000}
+            disabled={isSending}
+          />
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleSend} disabled={isSending || !draft.trim()}>
+              {t('sessions.live.send')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionLiveView;
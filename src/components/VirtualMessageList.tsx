@@ -153,7 +153,13 @@ const VirtualMessageList: FunctionComponent<VirtualMessageListProps> = ({
                 </div>
             )}
             <ErrorBoundary>
-                {visibleMessages.map((message, index) => (
+                {visibleMessages.map((message, index) => message.role === 'system' && typeof message.metadata?.type === 'string' && message.metadata.type.startsWith('takeover_') ? (
+                    <div key={message.id} className="flex justify-center py-3" role="status">
+                        <span className="px-3 py-1 rounded-full bg-gray-100 dark:bg-dark-card-bg text-gray-600 dark:text-gray-300 text-xs sm:text-sm">
+                            {message.content}
+                        </span>
+                    </div>
+                ) : (
                     <Message
                         key={message.id}
                         content={message.content}
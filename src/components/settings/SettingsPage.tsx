@@ -6,6 +6,7 @@ import { SecurityPage } from './pages/SecurityPage';
 import { MFAEnrollmentPage } from './pages/MFAEnrollmentPage';
 import { HelpPage } from './pages/HelpPage';
 import { OrganizationPage } from './pages/OrganizationPage';
+import { LiveSessionsPage } from './pages/LiveSessionsPage';
 import { SidebarNavigation, SidebarNavigationItem } from '../ui/SidebarNavigation';
 import { 
   UserIcon, 
@@ -16,7 +17,8 @@ import {
   ArrowRightOnRectangleIcon,
   QuestionMarkCircleIcon,
   ArrowLeftIcon,
-  BuildingOfficeIcon
+  BuildingOfficeIcon,
+  ChatBubbleLeftRightIcon
 } from '@heroicons/react/24/outline';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useNavigation } from '../../utils/navigation';
@@ -88,6 +90,7 @@ export const SettingsPage = ({
     { id: 'notifications', label: t('settings:navigation.items.notifications'), icon: BellIcon },
     { id: 'account', label: t('settings:navigation.items.account'), icon: UserIcon },
     { id: 'organization', label: t('settings:navigation.items.organization'), icon: BuildingOfficeIcon },
+    { id: 'sessions', label: t('settings:navigation.items.sessions'), icon: ChatBubbleLeftRightIcon },
     { id: 'security', label: t('settings:navigation.items.security'), icon: ShieldCheckIcon },
     { id: 'help', label: t('settings:navigation.items.help'), icon: QuestionMarkCircleIcon },
     { id: 'signout', label: t('settings:navigation.items.signOut'), icon: ArrowRightOnRectangleIcon, isAction: true, onClick: handleSignOut, variant: 'danger' }
@@ -105,6 +108,8 @@ export const SettingsPage = ({
         return <AccountPage isMobile={isMobile} onClose={onClose} className="h-full" />;
       case 'organization':
         return <OrganizationPage className="h-full" />;
+      case 'sessions':
+        return <LiveSessionsPage className="h-full" />;
       case 'security':
         return <SecurityPage isMobile={isMobile} onClose={onClose} className="h-full" />;
       case 'help':
@@ -0,0 +1,102 @@
+import { useState, useEffect } from 'preact/hooks';
+import { useTranslation } from 'react-i18next';
+import { ArrowLeftIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { useOrganizationManagement } from '../../../hooks/useOrganizationManagement';
+import { useSession } from '../../../contexts/AuthContext';
+import { Button } from '../../ui/Button';
+import SessionLiveView from '../../SessionLiveView';
+import { formatDate } from '../../../utils/dateTime';
+
+interface WorkspaceSession {
+  id: string;
+  state: string;
+  lastActive: string | null;
+  takeoverUserName: string | null;
+}
+
+export interface LiveSessionsPageProps {
+  className?: string;
+}
+
+export const LiveSessionsPage = ({ className = '' }: LiveSessionsPageProps) => {
+  const { t } = useTranslation('settings');
+  const { data: session } = useSession();
+  const { currentOrganization, getWorkspaceData, fetchWorkspaceData, error } = useOrganizationManagement();
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+
+  const organizationId = currentOrganization?.id;
+  const sessions = (organizationId ? getWorkspaceData(organizationId, 'sessions') : [])
+    .filter((item: WorkspaceSession) => item.state === 'active') as WorkspaceSession[];
+
+  useEffect(() => {
+    if (organizationId) {
+      fetchWorkspaceData(organizationId, 'sessions');
+    }
+  }, [organizationId, fetchWorkspaceData]);
+
+  if (!organizationId) {
+    return (
+      <div className={`h-full flex items-center justify-center ${className}`}>
+        <p className="text-sm text-gray-500">{t('sessions.noOrganization')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`h-full flex flex-col ${className}`}>
+      <div className="px-6 py-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {t('sessions.title')}
+          </h1>
+          {selectedSessionId ? (
+            <Button size="sm" variant="ghost" onClick={() => setSelectedSessionId(null)}>
+              <ArrowLeftIcon className="w-4 h-4 mr-2" />
+              {t('sessions.allSessions')}
+            </Button>
+          ) : (
+            <Button size="sm" variant="ghost" onClick={() => fetchWorkspaceData(organizationId, 'sessions')}>
+              <ArrowPathIcon className="w-4 h-4 mr-2" />
+              {t('sessions.refresh')}
+            </Button>
+          )}
+        </div>
+        <div className="border-t border-gray-200 dark:border-dark-border mt-4" />
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto px-6 flex flex-col">
+        {selectedSessionId ? (
+          <SessionLiveView
+            organizationId={organizationId}
+            sessionId={selectedSessionId}
+            currentUserId={session?.user?.id}
+            className="flex-1"
+          />
+        ) : error ? (
+          <p className="text-sm text-red-600 py-3">{error}</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400 py-3">{t('sessions.empty')}</p>
+        ) : (
+          <div className="space-y-3 py-3">
+            {sessions.map(item => (
+              <div key={item.id} className="flex items-center justify-between py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {t('sessions.sessionLabel', { id: item.id.slice(0, 8) })}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {item.lastActive ? t('sessions.lastActive', { date: formatDate(item.lastActive) }) : t('sessions.noActivity')}
+                    {item.takeoverUserName ? ` • ${t('sessions.staffChatting', { name: item.takeoverUserName })}` : ''}
+                  </p>
+                </div>
+                <Button size="sm" variant="secondary" onClick={() => setSelectedSessionId(item.id)}>
+                  {t('sessions.watch')}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -44,3 +44,7 @@ export const getSubscriptionSyncEndpoint = () => join('/api/subscription/sync');
 export const getOrganizationWorkspaceEndpoint = (orgId: string, resource: string) => {
   return join(`/api/organizations/${encodeURIComponent(orgId)}/workspace/${encodeURIComponent(resource)}`);
 };
+
+export const getWorkspaceSessionEndpoint = (orgId: string, sessionId: string, action: 'messages' | 'takeover') => {
+  return join(`/api/organizations/${encodeURIComponent(orgId)}/workspace/sessions/${encodeURIComponent(sessionId)}/${action}`);
+};
@@ -81,6 +81,12 @@ interface FeatureFlags {
      */
     enableMultipleOrganizations: boolean;
 
+    /**
+     * Enable the paralegal matter formation checklist
+     * When false, matter progress only shows the intake questionnaire
+     */
+    enableParalegalAgent: boolean;
+
 }
 
 // Immutable base configuration
@@ -97,6 +103,7 @@ const baseFeatureConfig: FeatureFlags = {
     enablePaymentIframe: false, // Disable payment iframe/drawer - only show "Open in Browser" button
     enableLeadQualification: true, // Enable lead qualification flow - AI asks questions before contact form
     enableMultipleOrganizations: true, // Enable multiple organizations feature
+    enableParalegalAgent: false, // The worker does not serve paralegal status yet
 };
 
 // DEV-only overrides (computed via spread, no mutation)
@@ -2,13 +2,15 @@ import { useState, useCallback, useRef, useEffect } from 'preact/hooks';
 import { ChatMessageUI, FileAttachment } from '../../worker/types';
 import { ContactData } from '../components/ContactForm';
 import { useOrganizationId } from '../contexts/OrganizationContext.js';
+import { getFormsEndpoint } from '../config/api';
 
 // Tool name to user-friendly message mapping
 const TOOL_LOADING_MESSAGES: Record<string, string> = {
   'show_contact_form': 'Preparing contact form...',
   'create_matter': 'Creating your case file...',
   'request_lawyer_review': 'Requesting lawyer review...',
-  'create_payment_invoice': 'Creating payment invoice...'
+  'create_payment_invoice': 'Creating payment invoice...',
+  'schedule_consultation': 'Checking lawyer availability...'
 };
 // Global interface for window API base override and debug properties
 declare global {
@@ -20,6 +22,7 @@ declare global {
     __DEBUG_CONTACT_FORM__?: (contactData: ContactData | Record<string, boolean>, message: string) => void;
     __toolCalls?: unknown[];
     __conversationState?: unknown;
+    __pipelineTrace?: unknown;
   }
 }
 
@@ -48,10 +51,18 @@ const getAgentStreamEndpoint = (): string => {
 
 // Define proper types for message history
 interface ChatMessageHistoryEntry {
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'system';
   content: string;
 }
 
+// Server-sent events written while a staff member has taken over the session
+const TAKEOVER_EVENT_TYPES = ['takeover_started', 'staff_message', 'takeover_ended'] as const;
+type TakeoverEventType = typeof TAKEOVER_EVENT_TYPES[number];
+
+export interface SessionTakeoverState {
+  staffName: string;
+}
+
 interface UseMessageHandlingOptions {
   organizationId?: string;
   sessionId?: string;
@@ -73,6 +84,7 @@ export const useMessageHandlingWithContext = ({ sessionId, onError }: Omit<UseMe
  */
 export const useMessageHandling = ({ organizationId, sessionId, onError }: UseMessageHandlingOptions) => {
   const [messages, setMessages] = useState<ChatMessageUI[]>([]);
+  const [takeover, setTakeover] = useState<SessionTakeoverState | null>(null);
   const abortControllerRef = useRef<globalThis.AbortController | null>(null);
   
   // Debug hooks for test environment (development only)
@@ -101,10 +113,13 @@ export const useMessageHandling = ({ organizationId, sessionId, onError }: UseMe
 
   // Create message history from existing messages
   const createMessageHistory = useCallback((messages: ChatMessageUI[], currentMessage?: string): ChatMessageHistoryEntry[] => {
-    const history = messages.map(msg => ({
-      role: (msg.isUser ? 'user' : 'assistant') as 'user' | 'assistant',
-      content: msg.content
-    }));
+    // Takeover markers stay in the history so the agent knows a lawyer was chatting
+    const history: ChatMessageHistoryEntry[] = messages
+      .filter(msg => !(msg.role === 'system' && !msg.content))
+      .map(msg => ({
+        role: msg.isUser ? 'user' : msg.role,
+        content: msg.content
+      }));
     
     if (currentMessage) {
       history.push({
@@ -417,6 +432,22 @@ ${matterData.opposing_party ? `- Opposing Party: ${matterData.opposing_party}` :
                     });
                     break;
                     
+                  case 'pipeline_trace':
+                    // Sent only when the worker runs in debug mode; shown in DebugOverlay
+                    if (typeof window !== 'undefined') {
+                      window.__pipelineTrace = data.data;
+                      window.dispatchEvent(new Event('blawby:debug-update'));
+                    }
+                    break;
+
+                  case 'takeover':
+                    // A staff member is chatting instead of the AI; their replies arrive over the session event stream
+                    if (data.data?.staffName) {
+                      setTakeover({ staffName: data.data.staffName });
+                    }
+                    setMessages(prev => prev.filter(msg => msg.id !== placeholderId));
+                    break;
+
                   case 'complete':
                     // Stream completed
                     updateAIMessage(placeholderId, { 
@@ -571,13 +602,34 @@ Location: ${contactData.location ? '[PROVIDED]' : '[NOT PROVIDED]'}${contactData
         window.__DEBUG_CONTACT_FORM__(sanitizedContactData, redactedContactMessage);
       }
 
+      // Save the submission first; the agent only moves past the contact form once it is on record
+      const matterDetails = messages
+        .filter(msg => msg.isUser && msg.content)
+        .map(msg => msg.content)
+        .join('\n\n');
+      const response = await fetch(getFormsEndpoint(), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          organizationId,
+          sessionId,
+          name: contactData.name,
+          email: contactData.email,
+          phoneNumber: contactData.phone,
+          matterDetails: matterDetails || contactMessage
+        })
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save contact information');
+      }
+
       // Send the contact information as a user message
       await sendMessage(contactMessage);
     } catch (error) {
       console.error('Error submitting contact form:', error);
       onError?.(error instanceof Error ? error.message : 'Failed to submit contact information');
     }
-  }, [sendMessage, onError]);
+  }, [messages, organizationId, sessionId, sendMessage, onError]);
 
   // Add message to the list
   const addMessage = useCallback((message: ChatMessageUI) => {
@@ -603,6 +655,56 @@ Location: ${contactData.location ? '[PROVIDED]' : '[NOT PROVIDED]'}${contactData
     }
   }, []);
 
+  // Subscribe to the session event stream for live lawyer takeover messages
+  useEffect(() => {
+    const effectiveOrganizationId = (organizationId ?? '').trim();
+    const effectiveSessionId = (sessionId ?? '').trim();
+    if (!effectiveOrganizationId || !effectiveSessionId || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    const params = new URLSearchParams({ sessionId: effectiveSessionId, organizationId: effectiveOrganizationId });
+    const eventSource = new EventSource(`${getAgentStreamEndpoint()}?${params.toString()}`, { withCredentials: true });
+
+    eventSource.onmessage = (event: MessageEvent) => {
+      let data: { type?: unknown; data?: { id?: string; content?: string; staffName?: string; active?: boolean; createdAt?: string } };
+      try {
+        data = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+
+      if (data.type === 'takeover' && data.data?.active && data.data.staffName) {
+        setTakeover({ staffName: data.data.staffName });
+        return;
+      }
+
+      if (!TAKEOVER_EVENT_TYPES.includes(data.type as TakeoverEventType) || !data.data?.id) {
+        return;
+      }
+
+      const type = data.type as TakeoverEventType;
+      const { id, content = '', staffName = '', createdAt } = data.data;
+      const timestamp = createdAt ? Date.parse(createdAt) : Date.now();
+      const metadata = { type, staffName };
+      const message: ChatMessageUI = type === 'staff_message'
+        ? { id, content, isUser: false, role: 'assistant', timestamp, metadata }
+        : { id, content, isUser: false, role: 'system', timestamp, metadata };
+
+      if (type === 'takeover_started') {
+        setTakeover({ staffName });
+      } else if (type === 'takeover_ended') {
+        setTakeover(null);
+      }
+
+      setMessages(prev => prev.some(msg => msg.id === id) ? prev : [...prev, message]);
+    };
+
+    return () => {
+      eventSource.close();
+    };
+  }, [organizationId, sessionId]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -614,6 +716,7 @@ Location: ${contactData.location ? '[PROVIDED]' : '[NOT PROVIDED]'}${contactData
 
   return {
     messages,
+    takeover,
     sendMessage,
     handleContactFormSubmit,
     addMessage,
@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback, useRef } from 'preact/hooks';
+import { getWorkspaceSessionEndpoint } from '../config/api';
+
+export interface SessionTranscriptMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface ActiveSessionTakeover {
+  userId: string;
+  staffName: string;
+  startedAt: string;
+}
+
+export interface UseSessionTakeoverOptions {
+  organizationId?: string;
+  sessionId?: string;
+  pollInterval?: number; // milliseconds
+}
+
+export interface UseSessionTakeoverResult {
+  messages: SessionTranscriptMessage[];
+  takeover: ActiveSessionTakeover | null;
+  loading: boolean;
+  error: string | null;
+  // Each action resolves to false when the request failed; `error` then holds the reason
+  startTakeover: () => Promise<boolean>;
+  endTakeover: () => Promise<boolean>;
+  sendMessage: (content: string) => Promise<boolean>;
+}
+
+async function requestWorkspaceSession<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json', ...init.headers }
+  });
+  const body = await response.json().catch(() => null) as { success?: boolean; data?: T; error?: string } | null;
+  if (!response.ok || !body?.success) {
+    throw new Error(body?.error || `HTTP ${response.status}`);
+  }
+  return body.data as T;
+}
+
+/**
+ * Staff view of a live intake session: polls the transcript with `?after=` so
+ * only new messages are fetched, and lets the viewer take the session over
+ * from the AI, reply as themselves, and hand it back.
+ */
+export function useSessionTakeover(options: UseSessionTakeoverOptions): UseSessionTakeoverResult {
+  const { organizationId, sessionId, pollInterval = 3000 } = options;
+
+  const [messages, setMessages] = useState<SessionTranscriptMessage[]>([]);
+  const [takeover, setTakeover] = useState<ActiveSessionTakeover | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const lastCreatedAtRef = useRef<string | null>(null);
+
+  const appendMessages = useCallback((incoming: SessionTranscriptMessage[]) => {
+    if (incoming.length === 0) return;
+    lastCreatedAtRef.current = incoming[incoming.length - 1].createdAt;
+    setMessages(prev => {
+      const seen = new Set(prev.map(message => message.id));
+      return [...prev, ...incoming.filter(message => !seen.has(message.id))];
+    });
+  }, []);
+
+  const poll = useCallback(async () => {
+    if (!organizationId || !sessionId) return;
+
+    const url = new URL(getWorkspaceSessionEndpoint(organizationId, sessionId, 'messages'));
+    if (lastCreatedAtRef.current) {
+      url.searchParams.set('after', lastCreatedAtRef.current);
+    }
+
+    try {
+      const data = await requestWorkspaceSession<{ messages: SessionTranscriptMessage[]; takeover: ActiveSessionTakeover | null }>(url.toString());
+      appendMessages(data.messages);
+      setTakeover(data.takeover);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load session');
+    }
+  }, [organizationId, sessionId, appendMessages]);
+
+  // Reload from the start whenever a different session is opened
+  useEffect(() => {
+    lastCreatedAtRef.current = null;
+    setMessages([]);
+    setTakeover(null);
+    setError(null);
+    if (!organizationId || !sessionId) return;
+
+    setLoading(true);
+    poll().finally(() => setLoading(false));
+    const interval = setInterval(poll, pollInterval);
+    return () => clearInterval(interval);
+  }, [organizationId, sessionId, pollInterval, poll]);
+
+  const runAction = useCallback(async (action: () => Promise<void>): Promise<boolean> => {
+    try {
+      await action();
+      setError(null);
+      await poll();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return false;
+    }
+  }, [poll]);
+
+  const startTakeover = useCallback(() => runAction(async () => {
+    if (!organizationId || !sessionId) return;
+    const data = await requestWorkspaceSession<{ takeover: ActiveSessionTakeover }>(
+      getWorkspaceSessionEndpoint(organizationId, sessionId, 'takeover'),
+      { method: 'POST' }
+    );
+    setTakeover(data.takeover);
+  }), [organizationId, sessionId, runAction]);
+
+  const endTakeover = useCallback(() => runAction(async () => {
+    if (!organizationId || !sessionId) return;
+    await requestWorkspaceSession(getWorkspaceSessionEndpoint(organizationId, sessionId, 'takeover'), { method: 'DELETE' });
+    setTakeover(null);
+  }), [organizationId, sessionId, runAction]);
+
+  const sendMessage = useCallback(async (content: string) => {
+    if (!organizationId || !sessionId || !content.trim()) return false;
+    return runAction(async () => {
+      // The reply shows up through the poll that follows, so client messages sent meanwhile are not skipped
+      await requestWorkspaceSession(
+        getWorkspaceSessionEndpoint(organizationId, sessionId, 'messages'),
+        { method: 'POST', body: JSON.stringify({ content: content.trim() }) }
+      );
+    });
+  }, [organizationId, sessionId, runAction]);
+
+  return { messages, takeover, loading, error, startTakeover, endTakeover, sendMessage };
+}
@@ -69,7 +69,7 @@ function MainApp() {
 		error: sessionError
 	} = useChatSessionWithContext();
 
-	const { messages, sendMessage, handleContactFormSubmit, addMessage } = useMessageHandlingWithContext({
+	const { messages, takeover, sendMessage, handleContactFormSubmit, addMessage } = useMessageHandlingWithContext({
 		sessionId,
 		onError: (error) => {
 			// Handle message handling error
@@ -409,6 +409,7 @@ function MainApp() {
 			<AppLayout
 				organizationNotFound={organizationNotFound}
 				organizationId={organizationId}
+				sessionId={sessionId}
 				onRetryOrganizationConfig={handleRetryOrganizationConfig}
 				currentTab={currentTab}
 				onTabChange={setCurrentTab}
@@ -441,6 +442,7 @@ function MainApp() {
 						sessionId={sessionId}
 						organizationId={organizationId}
 						onFeedbackSubmit={handleFeedbackSubmit}
+						takeover={takeover}
 						previewFiles={previewFiles}
 						uploadingFiles={uploadingFiles}
 						removePreviewFile={removePreviewFile}
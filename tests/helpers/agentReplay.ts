@@ -0,0 +1,448 @@
+import { readFileSync, writeFileSync, readdirSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { Ai } from '@cloudflare/workers-types';
+import { runLegalIntakeAgentStream, TOOL_HANDLERS } from '../../worker/agents/legal-intake/index.js';
+import type { Env, AgentMessage, FileAttachment } from '../../worker/types.js';
+import type { OrganizationConfig } from '../../worker/services/OrganizationService.js';
+import { ConversationContextManager } from '../../worker/middleware/conversationContextManager.js';
+import { IntakeStateMachine, type ConversationState } from '../../worker/agents/legal-intake/intakeStateMachine.js';
+
+/**
+ * Record/replay harness for runLegalIntakeAgentStream.
+ *
+ * Fixtures live in tests/fixtures/agent/*.json. Each one holds the conversation
+ * that was sent to the agent, every model call it made (inputs plus raw JSON or
+ * streamed chunks) and the SSE outcome observed while recording. Replaying a
+ * fixture swaps env.AI for a deterministic binding that answers from the
+ * recording, so prompt and middleware changes can be regression-tested offline.
+ */
+
+export const AGENT_FIXTURE_DIR = resolve(__dirname, '../fixtures/agent');
+
+export type RecordedAIResponse =
+  | { type: 'json'; body: unknown }
+  | { type: 'stream'; chunks: string[] };
+
+export interface RecordedAIInteraction {
+  model: string;
+  payload: Record<string, unknown>;
+  response: RecordedAIResponse;
+}
+
+export interface AgentFixtureExpectations {
+  events: string[];
+  toolCalls: string[];
+  finalText?: string;
+}
+
+export interface AgentFixture {
+  name: string;
+  description?: string;
+  recordedAt?: string;
+  request: {
+    messages: AgentMessage[];
+    organizationId?: string;
+    sessionId?: string;
+    attachments?: FileAttachment[];
+    overrides?: { provider?: string; model?: string };
+  };
+  organization?: {
+    id: string;
+    name: string;
+    slug?: string;
+    config: Partial<OrganizationConfig>;
+  };
+  /**
+   * Server-side session facts the turn starts from: the persisted intake state
+   * and D1 rows keyed by table (e.g. a saved `contact_forms` submission).
+   */
+  session?: {
+    intakeState?: ConversationState;
+    rows?: Record<string, Array<Record<string, unknown>>>;
+  };
+  interactions: RecordedAIInteraction[];
+  expected?: AgentFixtureExpectations;
+}
+
+export interface AgentSSEEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface AgentRunResult {
+  events: AgentSSEEvent[];
+  eventTypes: string[];
+  toolCalls: string[];
+  text: string;
+  finalText?: string;
+  aiCalls: Array<{ model: string; payload: Record<string, unknown> }>;
+}
+
+export type ToolHandlerOverrides = Partial<Record<keyof typeof TOOL_HANDLERS, (typeof TOOL_HANDLERS)[keyof typeof TOOL_HANDLERS]>>;
+
+export class AgentReplayMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentReplayMismatchError';
+  }
+}
+
+// ============================================================================
+// FIXTURE FILES
+// ============================================================================
+
+export function listAgentFixtures(): string[] {
+  return readdirSync(AGENT_FIXTURE_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.replace(/\.json$/, ''))
+    .sort();
+}
+
+export function loadAgentFixture(name: string): AgentFixture {
+  return JSON.parse(readFileSync(resolve(AGENT_FIXTURE_DIR, `${name}.json`), 'utf8')) as AgentFixture;
+}
+
+export function saveAgentFixture(fixture: AgentFixture): void {
+  writeFileSync(resolve(AGENT_FIXTURE_DIR, `${fixture.name}.json`), `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+// ============================================================================
+// AI BINDINGS
+// ============================================================================
+
+function chunksToStream(chunks: readonly string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    }
+  });
+}
+
+async function streamToChunks(stream: ReadableStream<Uint8Array>): Promise<string[]> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    chunks.push(decoder.decode(value, { stream: true }));
+  }
+  const tail = decoder.decode();
+  if (tail) chunks.push(tail);
+  return chunks;
+}
+
+function toReadableStream(value: unknown): ReadableStream<Uint8Array> | undefined {
+  if (value instanceof ReadableStream) {
+    return value as ReadableStream<Uint8Array>;
+  }
+  if (value instanceof Response && value.body) {
+    return value.body as ReadableStream<Uint8Array>;
+  }
+  return undefined;
+}
+
+/**
+ * Deterministic `Ai` binding that answers each call with the next recorded
+ * interaction. Models must match the recording; payloads are captured for
+ * assertions but only compared when `strictPayload` is set, since prompt
+ * changes are exactly what replays are meant to exercise.
+ */
+export function createReplayAi(
+  interactions: readonly RecordedAIInteraction[],
+  options: { strictPayload?: boolean } = {}
+): { ai: Ai; calls: AgentRunResult['aiCalls']; remaining: () => number } {
+  const queue = [...interactions];
+  const calls: AgentRunResult['aiCalls'] = [];
+
+  const ai = {
+    async run(model: string, payload: Record<string, unknown>) {
+      calls.push({ model, payload });
+      const next = queue.shift();
+      if (!next) {
+        throw new AgentReplayMismatchError(`Unexpected AI call to ${model}: fixture has no interactions left`);
+      }
+      if (next.model !== model) {
+        throw new AgentReplayMismatchError(`Expected AI call to ${next.model} but agent called ${model}`);
+      }
+      if (options.strictPayload && JSON.stringify(next.payload) !== JSON.stringify(payload)) {
+        throw new AgentReplayMismatchError(`Payload for ${model} differs from the recording`);
+      }
+
+      return next.response.type === 'stream'
+        ? chunksToStream(next.response.chunks)
+        : structuredClone(next.response.body);
+    }
+  };
+
+  return { ai: ai as unknown as Ai, calls, remaining: () => queue.length };
+}
+
+/**
+ * Wraps a live `Ai` binding and captures every call. Streamed responses are
+ * drained into chunks and handed back to the agent as an equivalent stream.
+ */
+export function createRecordingAi(liveAi: Pick<Ai, 'run'>): { ai: Ai; interactions: RecordedAIInteraction[] } {
+  const interactions: RecordedAIInteraction[] = [];
+  const runLive = liveAi.run.bind(liveAi) as (model: string, payload: Record<string, unknown>) => Promise<unknown>;
+
+  const ai = {
+    async run(model: string, payload: Record<string, unknown>) {
+      const result = await runLive(model, payload);
+      const stream = toReadableStream(result);
+
+      if (stream) {
+        const chunks = await streamToChunks(stream);
+        interactions.push({ model, payload: structuredClone(payload), response: { type: 'stream', chunks } });
+        return chunksToStream(chunks);
+      }
+
+      interactions.push({ model, payload: structuredClone(payload), response: { type: 'json', body: structuredClone(result) } });
+      return result;
+    }
+  };
+
+  return { ai: ai as unknown as Ai, interactions };
+}
+
+/**
+ * Minimal `Ai` binding backed by the Workers AI REST API, so fixtures can be
+ * recorded from Node without running wrangler.
+ */
+export function createWorkersAiRestBinding(accountId: string, apiToken: string): Pick<Ai, 'run'> {
+  return {
+    async run(model: string, payload: Record<string, unknown>) {
+      const response = await fetch(`https://api.cloudflare.com/client/v4/accounts/${accountId}/ai/run/${model}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(payload)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Workers AI request failed with ${response.status}: ${await response.text()}`);
+      }
+
+      if (payload.stream === true) {
+        return response.body;
+      }
+
+      const body = await response.json() as { result?: unknown };
+      return body.result ?? body;
+    }
+  } as Pick<Ai, 'run'>;
+}
+
+// ============================================================================
+// AGENT RUNNER
+// ============================================================================
+
+function createFixtureEnv(ai: Ai, fixture: AgentFixture): Env {
+  const kvStore = new Map<string, string>();
+  const organizationRow = fixture.organization
+    ? {
+        id: fixture.organization.id,
+        name: fixture.organization.name,
+        slug: fixture.organization.slug ?? fixture.organization.id,
+        domain: null,
+        config: JSON.stringify(fixture.organization.config),
+        stripe_customer_id: null,
+        subscription_tier: 'free',
+        seats: 1,
+        is_personal: 0,
+        created_at: '2025-01-01T00:00:00.000Z',
+        updated_at: '2025-01-01T00:00:00.000Z'
+      }
+    : null;
+
+  const rowsFor = (sql: string) => Object.entries(fixture.session?.rows ?? {})
+    .find(([table]) => sql.includes(`FROM ${table}`))?.[1] ?? [];
+
+  const db = {
+    prepare(sql: string) {
+      const statement = {
+        bind: () => statement,
+        first: async () => (sql.includes('FROM organizations') ? organizationRow : rowsFor(sql)[0] ?? null),
+        all: async () => ({ results: rowsFor(sql), success: true }),
+        run: async () => ({ success: true, meta: { changes: 0 } })
+      };
+      return statement;
+    }
+  };
+
+  const kv = {
+    get: async (key: string, type?: string) => {
+      const value = kvStore.get(key);
+      if (value === undefined) return null;
+      return type === 'json' ? JSON.parse(value) : value;
+    },
+    put: async (key: string, value: string) => {
+      kvStore.set(key, value);
+    },
+    delete: async (key: string) => {
+      kvStore.delete(key);
+    }
+  };
+
+  return {
+    AI: ai,
+    DB: db,
+    CHAT_SESSIONS: kv,
+    NODE_ENV: 'test'
+  } as unknown as Env;
+}
+
+function parseSSEEvents(body: string): AgentSSEEvent[] {
+  return body
+    .split('\n\n')
+    .map(block => block.trim())
+    .filter(block => block.startsWith('data:'))
+    .map(block => JSON.parse(block.slice(5).trim()) as AgentSSEEvent);
+}
+
+/**
+ * Runs the agent for a fixture's request against the given `Ai` binding and
+ * collects the SSE events it emits. Tool handlers can be overridden so tool
+ * choice is observable without touching payments, email or D1.
+ */
+export async function runAgentWithAi(
+  ai: Ai,
+  fixture: AgentFixture,
+  toolHandlers: ToolHandlerOverrides = {}
+): Promise<Omit<AgentRunResult, 'aiCalls'>> {
+  const env = createFixtureEnv(ai, fixture);
+  const { request } = fixture;
+  const organizationId = fixture.organization?.id ?? request.organizationId;
+  if (fixture.session?.intakeState && request.sessionId && organizationId) {
+    const context = await ConversationContextManager.load(request.sessionId, organizationId, env);
+    context.intakeState = IntakeStateMachine.createRecord(fixture.session.intakeState);
+    await ConversationContextManager.save(context, env);
+  }
+
+  const handlerTable = TOOL_HANDLERS as Record<string, unknown>;
+  const originalHandlers = new Map<string, unknown>();
+
+  for (const [name, handler] of Object.entries(toolHandlers)) {
+    originalHandlers.set(name, handlerTable[name]);
+    handlerTable[name] = handler;
+  }
+
+  try {
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    const stream = new ReadableStream<Uint8Array>({
+      start(streamController) {
+        controller = streamController;
+      }
+    });
+
+    const [body] = await Promise.all([
+      new Response(stream).text(),
+      runLegalIntakeAgentStream(
+        env,
+        request.messages,
+        organizationId,
+        request.sessionId,
+        undefined,
+        controller,
+        request.attachments ?? [],
+        request.overrides ?? {}
+      )
+    ]);
+
+    const events = parseSSEEvents(body);
+    const finalEvent = [...events].reverse().find(event => event.type === 'final');
+
+    return {
+      events,
+      eventTypes: events.map(event => event.type),
+      toolCalls: events.filter(event => event.type === 'tool_call').map(event => String(event.name)),
+      text: events.filter(event => event.type === 'text').map(event => String(event.text)).join(''),
+      finalText: typeof finalEvent?.response === 'string' ? finalEvent.response : undefined
+    };
+  } finally {
+    for (const [name, handler] of originalHandlers) {
+      handlerTable[name] = handler;
+    }
+  }
+}
+
+/**
+ * Replays a fixture and fails if the agent makes more, fewer or different
+ * model calls than were recorded.
+ */
+export async function replayAgentFixture(
+  fixture: AgentFixture,
+  options: { toolHandlers?: ToolHandlerOverrides; strictPayload?: boolean } = {}
+): Promise<AgentRunResult> {
+  const replay = createReplayAi(fixture.interactions, { strictPayload: options.strictPayload });
+  const result = await runAgentWithAi(replay.ai, fixture, options.toolHandlers);
+
+  if (replay.remaining() > 0) {
+    throw new AgentReplayMismatchError(
+      `Agent made ${replay.calls.length} AI call(s) but fixture "${fixture.name}" recorded ${fixture.interactions.length}`
+    );
+  }
+
+  return { ...result, aiCalls: replay.calls };
+}
+
+/**
+ * Records a fresh run of a fixture's request against a live binding and
+ * returns the updated fixture (interactions + observed expectations).
+ */
+export async function recordAgentFixture(
+  liveAi: Pick<Ai, 'run'>,
+  fixture: AgentFixture,
+  toolHandlers: ToolHandlerOverrides = {}
+): Promise<AgentFixture> {
+  const recorder = createRecordingAi(liveAi);
+  const result = await runAgentWithAi(recorder.ai, fixture, toolHandlers);
+
+  return {
+    ...fixture,
+    recordedAt: new Date().toISOString(),
+    interactions: recorder.interactions,
+    expected: summarizeAgentRun(result)
+  };
+}
+
+export function summarizeAgentRun(result: Pick<AgentRunResult, 'eventTypes' | 'toolCalls' | 'finalText'>): AgentFixtureExpectations {
+  return {
+    // Collapse streamed text deltas so chunking changes don't churn fixtures
+    events: result.eventTypes.filter((type, index, all) => type !== 'text' || all[index - 1] !== 'text'),
+    toolCalls: result.toolCalls,
+    finalText: result.finalText
+  };
+}
+
+/**
+ * Tool handler stand-ins used by both recording and replay, so fixtures do not
+ * depend on payments, notifications or D1.
+ */
+export const FIXTURE_TOOL_HANDLERS: ToolHandlerOverrides = {
+  create_matter: async (parameters: unknown) => ({
+    success: true,
+    data: {
+      ...(parameters as Record<string, unknown>),
+      message: 'Your matter has been created. A lawyer will review it shortly.'
+    }
+  }),
+  request_lawyer_review: async () => ({
+    success: true,
+    data: { message: 'A lawyer has been asked to review your matter.' }
+  }),
+  create_payment_invoice: async () => ({
+    success: true,
+    data: { message: 'Your consultation invoice is ready.' }
+  }),
+  schedule_consultation: async () => ({
+    success: true,
+    data: { message: 'You are booked for a consultation.' }
+  })
+};
@@ -0,0 +1,75 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { Miniflare } from 'miniflare';
+import type { D1Database } from '@cloudflare/workers-types';
+
+const SCHEMA_PATH = resolve(__dirname, '../../worker/schema.sql');
+
+/**
+ * Splits worker/schema.sql into single statements. D1's exec() takes one
+ * statement per line, so multi-line tables and triggers are prepared one by one.
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current: string[] = [];
+  let inTrigger = false;
+
+  for (const rawLine of sql.split('\n')) {
+    const line = rawLine.replace(/--.*$/, '').trimEnd();
+    if (!line.trim()) continue;
+
+    if (current.length === 0 && /^\s*CREATE\s+TRIGGER/i.test(line)) {
+      inTrigger = true;
+    }
+    current.push(line);
+
+    const ends = inTrigger ? /^\s*END;$/i.test(line) : line.endsWith(';');
+    if (ends) {
+      statements.push(current.join('\n'));
+      current = [];
+      inTrigger = false;
+    }
+  }
+
+  return statements;
+}
+
+const schemaStatements = splitSqlStatements(readFileSync(SCHEMA_PATH, 'utf8'));
+
+export interface TestD1 {
+  db: D1Database;
+  /** Deletes every row, keeping the schema, so each test starts empty. */
+  reset(): Promise<void>;
+  dispose(): Promise<void>;
+}
+
+/**
+ * A real D1 database (SQLite via Miniflare) loaded from worker/schema.sql.
+ * Create one per test file in beforeAll and reset it in beforeEach.
+ */
+export async function createTestD1(): Promise<TestD1> {
+  const miniflare = new Miniflare({
+    modules: true,
+    script: 'export default { fetch() { return new Response(null, { status: 404 }); } }',
+    d1Databases: ['DB']
+  });
+  const db = await miniflare.getD1Database('DB') as unknown as D1Database;
+
+  await db.batch(schemaStatements.map(statement => db.prepare(statement)));
+
+  const tables = await db.prepare(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%'"
+  ).all<{ name: string }>();
+  const tableNames = (tables.results ?? []).map(row => row.name);
+
+  return {
+    db,
+    async reset() {
+      await db.batch([
+        db.prepare('PRAGMA defer_foreign_keys = ON'),
+        ...tableNames.map(name => db.prepare(`DELETE FROM "${name}"`))
+      ]);
+    },
+    dispose: () => miniflare.dispose()
+  };
+}
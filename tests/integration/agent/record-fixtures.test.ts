@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  listAgentFixtures,
+  loadAgentFixture,
+  saveAgentFixture,
+  recordAgentFixture,
+  createWorkersAiRestBinding,
+  FIXTURE_TOOL_HANDLERS
+} from '../../helpers/agentReplay';
+
+/**
+ * Re-records tests/fixtures/agent/*.json against live Workers AI.
+ *
+ * Opt-in only: RECORD_AGENT_FIXTURES=1 CLOUDFLARE_ACCOUNT_ID=... CLOUDFLARE_API_TOKEN=... npm run test:record-agent
+ * Review the fixture diff before committing; replays in CI assert the new `expected` block.
+ */
+const shouldRecord = process.env.RECORD_AGENT_FIXTURES === '1';
+
+describe.skipIf(!shouldRecord)('record legal intake agent fixtures', () => {
+  const accountId = process.env.CLOUDFLARE_ACCOUNT_ID ?? '';
+  const apiToken = process.env.CLOUDFLARE_API_TOKEN ?? '';
+
+  for (const name of shouldRecord ? listAgentFixtures() : []) {
+    // Fixtures pinned to non-Workers AI models (e.g. hand-authored OpenAI streams) are kept as-is
+    const pinnedModel = loadAgentFixture(name).request.overrides?.model;
+    it.skipIf(Boolean(pinnedModel && !pinnedModel.startsWith('@cf/')))(`records ${name}`, async () => {
+      expect(accountId && apiToken, 'CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN are required').toBeTruthy();
+
+      const liveAi = createWorkersAiRestBinding(accountId, apiToken);
+      const recorded = await recordAgentFixture(liveAi, loadAgentFixture(name), FIXTURE_TOOL_HANDLERS);
+      saveAgentFixture(recorded);
+
+      expect(recorded.expected?.events).toContain('complete');
+    }, 120000);
+  }
+});
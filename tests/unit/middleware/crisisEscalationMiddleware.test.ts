@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildCrisisResponse,
+  crisisEscalationMiddleware,
+  detectCrisis,
+  selectCrisisResources
+} from '../../../worker/middleware/crisisEscalationMiddleware.js';
+import { contentPolicyFilter } from '../../../worker/middleware/contentPolicyFilter.js';
+import type { ConversationContext } from '../../../worker/middleware/conversationContextManager.js';
+import type { OrganizationConfig } from '../../../worker/services/OrganizationService.js';
+import type { AgentMessage, Env } from '../../../worker/types.js';
+
+const { markUrgent, createEvent, sendCrisisEscalationNotification } = vi.hoisted(() => ({
+  markUrgent: vi.fn(),
+  createEvent: vi.fn(),
+  sendCrisisEscalationNotification: vi.fn()
+}));
+
+vi.mock('../../../worker/services/SessionService.js', () => ({
+  SessionService: { markUrgent }
+}));
+
+vi.mock('../../../worker/services/ActivityService.js', () => ({
+  ActivityService: vi.fn(() => ({ createEvent }))
+}));
+
+vi.mock('../../../worker/services/NotificationService.js', () => ({
+  NotificationService: vi.fn(() => ({ sendCrisisEscalationNotification }))
+}));
+
+vi.mock('../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+const env = {} as Env;
+
+const organizationConfig = {
+  ownerEmail: 'owner@example.com',
+  jurisdiction: { type: 'state', description: 'North Carolina', supportedStates: ['NC'], supportedCountries: ['US'], primaryState: 'NC' },
+  crisis: {
+    onCallEmails: ['oncall@example.com'],
+    resources: [
+      { name: 'Safe Harbor Shelter', phone: '919-555-0100', categories: ['domestic_violence'], states: ['NC'] },
+      { name: 'Tennessee Coalition', phone: '800-555-0199', categories: ['domestic_violence'], states: ['TN'] }
+    ]
+  }
+} as unknown as OrganizationConfig;
+
+function createContext(overrides: Partial<ConversationContext> = {}): ConversationContext {
+  return {
+    sessionId: 'session-1',
+    organizationId: 'org-1',
+    establishedMatters: [],
+    jurisdiction: null,
+    safetyFlags: [],
+    userIntent: { label: 'unclear', confidence: 0, source: 'default', messageCount: 0 },
+    conversationPhase: 'initial',
+    lastUpdated: 0,
+    messageCount: 1,
+    urgencyLevel: null,
+    timeline: null,
+    hasPreviousLawyer: null,
+    contactInfo: {},
+    ...overrides
+  };
+}
+
+function userMessage(content: string): AgentMessage[] {
+  return [{ role: 'user', content }];
+}
+
+describe('crisisEscalationMiddleware', () => {
+  beforeEach(() => {
+    markUrgent.mockReset();
+    createEvent.mockReset();
+    sendCrisisEscalationNotification.mockReset();
+  });
+
+  it('detects self-harm, imminent danger and domestic violence', () => {
+    expect(detectCrisis("I can't go on, I'm thinking about suicide")).toEqual(['self_harm']);
+    expect(detectCrisis('My husband threatened to kill me and he has a gun')).toEqual(['imminent_danger']);
+    expect(detectCrisis('My boyfriend hits me when he drinks')).toEqual(['domestic_violence']);
+    expect(detectCrisis('I need help with a wrongful death claim after my father died')).toEqual([]);
+  });
+
+  it('lists organization resources for the state ahead of national ones', () => {
+    const resources = selectCrisisResources(['domestic_violence'], 'NC', organizationConfig);
+
+    expect(resources.map(resource => resource.name)).toEqual([
+      'Safe Harbor Shelter',
+      'Emergency services',
+      'National Domestic Violence Hotline'
+    ]);
+    expect(selectCrisisResources(['self_harm'], null, { crisis: { includeDefaultResources: false } })).toEqual([]);
+    expect(buildCrisisResponse(['imminent_danger'], resources)).toMatch(/^\*\*If you are in immediate danger, please call 911 now\.\*\*/);
+  });
+
+  it('answers a crisis the content policy filter would refuse, flags the session and notifies on-call staff', async () => {
+    const messages = userMessage('My ex made a threat to kill me, I am not safe');
+    const policy = await contentPolicyFilter.execute(messages, createContext(), organizationConfig, env);
+    expect(policy.response).toContain('I cannot help with that type of request');
+
+    const result = await crisisEscalationMiddleware.execute(messages, createContext(), organizationConfig, env);
+
+    expect(result.shouldStop).toBe(true);
+    expect(result.response).toContain('call 911 now');
+    expect(result.response).toContain('National Domestic Violence Hotline');
+    expect(result.context.crisis?.categories).toEqual(['imminent_danger']);
+    expect(result.context.safetyFlags).toContain('crisis_imminent_danger');
+    expect(markUrgent).toHaveBeenCalledWith(env, 'session-1', 'org-1', 'imminent_danger');
+    expect(createEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'crisis_escalation' }), 'org-1');
+    expect(sendCrisisEscalationNotification).toHaveBeenCalledWith(expect.objectContaining({
+      crisisInfo: expect.objectContaining({ recipients: ['oncall@example.com'], state: 'NC' })
+    }));
+  });
+
+  it('shares domestic violence resources once, then lets intake continue', async () => {
+    const first = await crisisEscalationMiddleware.execute(
+      userMessage('My husband beat me last night'),
+      createContext(),
+      organizationConfig,
+      env
+    );
+    expect(first.response).toContain('Safe Harbor Shelter');
+
+    const second = await crisisEscalationMiddleware.execute(
+      userMessage('He is an abusive husband and I want a protective order'),
+      first.context,
+      organizationConfig,
+      env
+    );
+
+    expect(second.response).toBeUndefined();
+    expect(sendCrisisEscalationNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps answering self-harm but only notifies once', async () => {
+    const first = await crisisEscalationMiddleware.execute(userMessage('I want to die'), createContext(), null as unknown as OrganizationConfig, env);
+    const second = await crisisEscalationMiddleware.execute(userMessage('I still want to die'), first.context, null as unknown as OrganizationConfig, env);
+
+    expect(second.response).toContain('988 Suicide & Crisis Lifeline');
+    expect(markUrgent).toHaveBeenCalledTimes(1);
+    expect(sendCrisisEscalationNotification).toHaveBeenCalledWith(expect.objectContaining({
+      crisisInfo: expect.objectContaining({ recipients: [] })
+    }));
+  });
+
+  it('still replies when escalation fails', async () => {
+    markUrgent.mockRejectedValueOnce(new Error('D1 unavailable'));
+
+    const result = await crisisEscalationMiddleware.execute(userMessage('I am going to kill myself'), createContext(), organizationConfig, env);
+
+    expect(result.response).toContain('988');
+    expect(sendCrisisEscalationNotification).toHaveBeenCalledTimes(1);
+  });
+});
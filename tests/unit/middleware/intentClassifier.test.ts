@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  classifyIntentByKeywords,
+  intentClassifierMiddleware,
+  parseModelIntent
+} from '../../../worker/middleware/intentClassifier.js';
+import { caseDraftMiddleware } from '../../../worker/middleware/caseDraftMiddleware.js';
+import { businessScopeValidator } from '../../../worker/middleware/businessScopeValidator.js';
+import type { ConversationContext } from '../../../worker/middleware/conversationContextManager.js';
+import type { OrganizationConfig } from '../../../worker/services/OrganizationService.js';
+import type { AgentMessage, Env } from '../../../worker/types.js';
+
+vi.mock('../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+function createContext(overrides: Partial<ConversationContext> = {}): ConversationContext {
+  return {
+    sessionId: 'session-1',
+    organizationId: 'org-1',
+    establishedMatters: [],
+    jurisdiction: null,
+    safetyFlags: [],
+    userIntent: { label: 'unclear', confidence: 0, source: 'default', messageCount: 0 },
+    conversationPhase: 'initial',
+    lastUpdated: 0,
+    messageCount: 1,
+    urgencyLevel: null,
+    timeline: null,
+    hasPreviousLawyer: null,
+    contactInfo: {},
+    ...overrides
+  };
+}
+
+function createEnv(run?: (model: string, params: Record<string, unknown>) => Promise<unknown>) {
+  const cache = new Map<string, string>();
+  const put = vi.fn(async (key: string, value: string) => {
+    cache.set(key, value);
+  });
+  const env = {
+    AI: run ? { run: vi.fn(run) } : undefined,
+    CHAT_SESSIONS: { get: vi.fn(async (key: string) => cache.get(key) ?? null), put }
+  } as unknown as Env;
+  return { env, put };
+}
+
+const userMessage = (content: string): AgentMessage => ({ role: 'user', content });
+
+describe('classifyIntentByKeywords', () => {
+  it('ignores requests the user turns down', () => {
+    expect(classifyIntentByKeywords("I don't want to build a case draft, just tell me my options", { establishedMatters: [] }).label)
+      .not.toBe('case_draft');
+    expect(classifyIntentByKeywords('Can you help me put together a case summary?', { establishedMatters: [] }))
+      .toEqual({ label: 'case_draft', confidence: 0.85, source: 'keywords' });
+    expect(classifyIntentByKeywords("I don't need a lawyer yet, but could you help organizing my case?", { establishedMatters: [] }).label)
+      .toBe('case_draft');
+  });
+
+  it('scores direct lawyer requests above other lawyer requests', () => {
+    expect(classifyIntentByKeywords('I need an attorney asap', { establishedMatters: [] }).confidence).toBe(0.95);
+    expect(classifyIntentByKeywords('Could I speak with a lawyer about this?', { establishedMatters: [] }))
+      .toEqual({ label: 'lawyer_contact', confidence: 0.8, source: 'keywords' });
+  });
+
+  it('falls back to intake once a legal matter is established', () => {
+    expect(classifyIntentByKeywords('It happened last Tuesday', { establishedMatters: ['Family Law'] }).label).toBe('intake');
+    expect(classifyIntentByKeywords('It happened last Tuesday', { establishedMatters: [] }).label).toBe('unclear');
+  });
+});
+
+describe('parseModelIntent', () => {
+  it('accepts JSON wrapped in text and rejects unknown labels', () => {
+    expect(parseModelIntent({ response: 'Sure: {"intent": "general_info", "confidence": "0.7"}' }))
+      .toEqual({ label: 'general_info', confidence: 0.7, source: 'model' });
+    expect(parseModelIntent({ response: '{"intent": "billing", "confidence": 0.9}' })).toBeNull();
+    expect(parseModelIntent({ response: 'no idea' })).toBeNull();
+  });
+});
+
+describe('intentClassifierMiddleware', () => {
+  const messages = [userMessage('My landlord kept my deposit'), { role: 'assistant', content: 'I can help.' } as AgentMessage, userMessage('ok do it')];
+
+  it('writes the model classification and caches it by message', async () => {
+    const { env, put } = createEnv(async () => ({ response: '{"intent": "case_draft", "confidence": 0.82}' }));
+
+    const result = await intentClassifierMiddleware.execute(messages, createContext(), env);
+    expect(result.context.userIntent).toEqual({ label: 'case_draft', confidence: 0.82, source: 'model', messageCount: 3 });
+    expect(put).toHaveBeenCalledWith(expect.stringMatching(/^intent:/), expect.any(String), { expirationTtl: 86400 });
+
+    await intentClassifierMiddleware.execute(messages, createContext({ sessionId: 'session-2' }), env);
+    expect((env.AI as unknown as { run: ReturnType<typeof vi.fn> }).run).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the keyword fallback when the model fails or is disabled', async () => {
+    const { env } = createEnv(async () => {
+      throw new Error('model overloaded');
+    });
+    const lawyerRequest = [userMessage('I need a lawyer now')];
+
+    const failed = await intentClassifierMiddleware.execute(lawyerRequest, createContext(), env);
+    expect(failed.context.userIntent).toEqual({ label: 'lawyer_contact', confidence: 0.95, source: 'keywords', messageCount: 1 });
+
+    const disabled = await intentClassifierMiddleware.execute(lawyerRequest, createContext(), { ...env, INTENT_CLASSIFIER_MODEL: 'keywords' });
+    expect(disabled.context.userIntent.source).toBe('keywords');
+  });
+});
+
+describe('caseDraftMiddleware', () => {
+  it('only builds a draft when this turn asks for one', async () => {
+    const messages = [userMessage('Help me build a case draft'), userMessage("Actually I don't want a case draft")];
+    const config = {} as OrganizationConfig;
+
+    const declined = await caseDraftMiddleware.execute(messages, createContext({
+      userIntent: { label: 'unclear', confidence: 0.5, source: 'keywords', messageCount: 2 }
+    }), config, {} as Env);
+    expect(declined.response).toBeUndefined();
+
+    const requested = await caseDraftMiddleware.execute(messages, createContext({
+      userIntent: { label: 'case_draft', confidence: 0.85, source: 'keywords', messageCount: 2 }
+    }), config, {} as Env);
+    expect(requested.context.caseDraft?.status).toBe('draft');
+  });
+});
+
+describe('businessScopeValidator', () => {
+  it('lets problem descriptions through and only answers generic requests', async () => {
+    const config = { availableServices: ['Family Law'] } as OrganizationConfig;
+    const intake = { label: 'intake' as const, confidence: 0.9, source: 'model' as const, messageCount: 1 };
+
+    const described = await businessScopeValidator.execute(
+      [userMessage('My neighbor cut down the tree on my side of the fence')],
+      createContext({ userIntent: intake }), config, {} as Env
+    );
+    expect(described.response).toBeUndefined();
+
+    const generic = await businessScopeValidator.execute(
+      [userMessage('I have a legal question')],
+      createContext({ userIntent: intake }), config, {} as Env
+    );
+    expect(generic.response).toBeDefined();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import { jurisdictionValidator } from '../../../worker/middleware/jurisdictionValidator.js';
+import { JURISDICTION_PRESETS } from '../../../worker/schemas/jurisdictionConfig.js';
+import type { ConversationContext } from '../../../worker/middleware/conversationContextManager.js';
+import type { OrganizationConfig } from '../../../worker/services/OrganizationService.js';
+import type { AgentMessage, Env } from '../../../worker/types.js';
+import { Logger } from '../../../worker/utils/logger.js';
+
+vi.mock('../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+function createContext(overrides: Partial<ConversationContext> = {}): ConversationContext {
+  return {
+    sessionId: 'session-1',
+    organizationId: 'org-1',
+    establishedMatters: [],
+    jurisdiction: null,
+    safetyFlags: [],
+    userIntent: { label: 'unclear', confidence: 0, source: 'default', messageCount: 0 },
+    conversationPhase: 'initial',
+    lastUpdated: 0,
+    messageCount: 1,
+    urgencyLevel: null,
+    timeline: null,
+    hasPreviousLawyer: null,
+    contactInfo: {},
+    ...overrides
+  };
+}
+
+const config = { jurisdiction: JURISDICTION_PRESETS.MECKLENBURG_COUNTY } as unknown as OrganizationConfig;
+const userMessage = (content: string): AgentMessage => ({ role: 'user', content });
+const run = (messages: AgentMessage[], context = createContext()) =>
+  jurisdictionValidator.execute(messages, context, config, {} as Env);
+
+describe('jurisdictionValidator with a county jurisdiction', () => {
+  it('accepts cities and ZIP codes inside the county', async () => {
+    const city = await run([userMessage('I live in Charlotte, NC')]);
+    expect(city.response).toBeUndefined();
+    expect(city.context.location).toMatchObject({ county: 'Mecklenburg', state: 'NC' });
+
+    const zip = await run([userMessage('28078')]);
+    expect(zip.response).toBeUndefined();
+    expect(zip.context.safetyFlags).toEqual([]);
+  });
+
+  it('warns about other counties in the same state', async () => {
+    const result = await run([userMessage("I'm in Raleigh, North Carolina")]);
+    expect(result.response).toContain('Raleigh, Wake County, NC');
+    expect(result.context.safetyFlags).toEqual(['out_of_jurisdiction']);
+    expect(result.context.jurisdiction).toBe('Raleigh, Wake County, NC');
+
+    const town = await run([userMessage('I live in Shelby, North Carolina')]);
+    expect(town.response).toContain('Shelby, Cleveland County, NC');
+    expect(town.context.safetyFlags).toEqual(['out_of_jurisdiction']);
+  });
+
+  it('asks for a location when only the state is known', async () => {
+    const result = await run([userMessage('I live in North Carolina')]);
+    expect(result.response).toBeUndefined();
+    expect(result.context.safetyFlags).toEqual(['location_required']);
+
+    const withCity = await run([userMessage('I live in North Carolina'), userMessage('in Matthews')], result.context);
+    expect(withCity.context.safetyFlags).toEqual([]);
+  });
+
+  it('never turns a user away on the request location alone', async () => {
+    const requestLocation = { city: 'Austin', county: 'Travis', state: 'TX', country: 'US', precision: 'city' as const, source: 'cloudflare' as const };
+    const result = await run([userMessage('My landlord kept my deposit')], createContext({ requestLocation }));
+    expect(result.response).toBeUndefined();
+    expect(result.context.safetyFlags).toEqual(['location_required']);
+
+    const confirmed = await run([userMessage('My landlord kept my deposit'), userMessage('I live in Austin, TX')], result.context);
+    expect(confirmed.response).toContain('Austin, Travis County, TX');
+  });
+
+  it('lets locations the dataset does not cover through', async () => {
+    const result = await run([userMessage('My zip code is 28298')]);
+    expect(result.response).toBeUndefined();
+    expect(result.context.safetyFlags).toEqual(['location_required']);
+    expect(Logger.info).toHaveBeenCalledWith('Location not covered by the offline geography dataset', expect.objectContaining({
+      state: 'NC',
+      zipPrefix: '282'
+    }));
+  });
+});
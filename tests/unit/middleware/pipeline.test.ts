@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import { runPipeline, type AnyMiddleware } from '../../../worker/middleware/pipeline.js';
+import type { ConversationContext } from '../../../worker/middleware/conversationContextManager.js';
+import type { OrganizationConfig } from '../../../worker/services/OrganizationService.js';
+import type { AgentMessage, Env } from '../../../worker/types.js';
+
+vi.mock('../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+function createContext(overrides: Partial<ConversationContext> = {}): ConversationContext {
+  return {
+    sessionId: 'session-1',
+    organizationId: 'org-1',
+    establishedMatters: [],
+    jurisdiction: null,
+    safetyFlags: [],
+    userIntent: { label: 'unclear', confidence: 0, source: 'default', messageCount: 0 },
+    conversationPhase: 'initial',
+    lastUpdated: 0,
+    messageCount: 1,
+    urgencyLevel: null,
+    timeline: null,
+    hasPreviousLawyer: null,
+    contactInfo: {},
+    ...overrides
+  };
+}
+
+const messages: AgentMessage[] = [{ role: 'user', content: 'My landlord kept my deposit' }];
+const env = {} as Env;
+const config = {} as OrganizationConfig;
+
+const classifier: AnyMiddleware = {
+  kind: 'standard',
+  name: 'classifier',
+  execute: async (_messages, context) => ({
+    context: { ...context, establishedMatters: ['Tenant Rights Law'], lastUpdated: Date.now() }
+  })
+};
+
+// Mutates the context it was given instead of returning a copy
+const flagger: AnyMiddleware = {
+  kind: 'simple',
+  name: 'flagger',
+  execute: async (_messages, context) => {
+    context.safetyFlags.push('reviewed');
+    return { context };
+  }
+};
+
+const failing: AnyMiddleware = {
+  kind: 'standard',
+  name: 'failing',
+  execute: async () => {
+    throw new Error('lookup failed');
+  }
+};
+
+const responder: AnyMiddleware = {
+  kind: 'standard',
+  name: 'responder',
+  execute: async (_messages, context) => ({ context: { ...context, conversationPhase: 'gathering_info' }, response: 'Canned reply' })
+};
+
+const unreachable: AnyMiddleware = {
+  kind: 'standard',
+  name: 'unreachable',
+  execute: vi.fn(async (_messages, context) => ({ context }))
+};
+
+describe('runPipeline tracing', () => {
+  it('records duration, outcome and changed context fields for each middleware', async () => {
+    const result = await runPipeline(messages, createContext(), config, [classifier, flagger, failing, responder, unreachable], env);
+
+    expect(result.response).toBe('Canned reply');
+    expect(result.middlewareUsed).toEqual(['classifier', 'flagger', 'responder']);
+    expect(result.trace.respondedBy).toBe('responder');
+    expect(result.trace.steps.map(({ name, outcome, changedFields, error }) => ({ name, outcome, changedFields, error }))).toEqual([
+      { name: 'classifier', outcome: 'continued', changedFields: ['establishedMatters'], error: undefined },
+      { name: 'flagger', outcome: 'continued', changedFields: ['safetyFlags'], error: undefined },
+      { name: 'failing', outcome: 'error', changedFields: [], error: 'lookup failed' },
+      { name: 'responder', outcome: 'responded', changedFields: ['conversationPhase'], error: undefined }
+    ]);
+    expect(result.trace.steps.every(step => step.durationMs >= 0)).toBe(true);
+    expect(unreachable.execute).not.toHaveBeenCalled();
+  });
+
+  it('hands off to the AI with no responder when every middleware continues', async () => {
+    const result = await runPipeline(messages, createContext(), config, [classifier], env);
+
+    expect(result.response).toBe('AI_HANDLE');
+    expect(result.trace.respondedBy).toBeNull();
+    expect(Date.parse(result.trace.startedAt)).not.toBeNaN();
+  });
+
+  it('marks middlewares that stop the pipeline without a response', async () => {
+    const stopper: AnyMiddleware = {
+      kind: 'standard',
+      name: 'stopper',
+      execute: async (_messages, context) => ({ context, shouldStop: true })
+    };
+
+    const result = await runPipeline(messages, createContext(), config, [stopper, classifier], env);
+
+    expect(result.trace.steps).toEqual([expect.objectContaining({ name: 'stopper', outcome: 'stopped', changedFields: [] })]);
+  });
+});
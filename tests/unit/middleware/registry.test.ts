@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_PIPELINE,
+  getMiddlewareOptions,
+  resolvePipelineSteps
+} from '../../../worker/middleware/registry.js';
+import { organizationConfigSchema } from '../../../worker/schemas/validation.js';
+
+vi.mock('../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+describe('resolvePipelineSteps', () => {
+  it('uses the default pipeline when the organization has none', () => {
+    expect(resolvePipelineSteps(undefined).map(step => step.name)).toEqual([...DEFAULT_PIPELINE]);
+    expect(resolvePipelineSteps({}).find(step => step.name === 'skipToLawyerMiddleware')?.options).toEqual({ lawyerSearch: true });
+  });
+
+  it('follows the configured order and drops disabled or unknown middlewares', () => {
+    const steps = resolvePipelineSteps({
+      pipeline: [
+        { name: 'jurisdictionValidator' },
+        { name: 'contentPolicyFilter' },
+        { name: 'caseDraftMiddleware', enabled: false },
+        { name: 'retiredMiddleware' },
+        { name: 'skipToLawyerMiddleware', options: { lawyerSearch: false } }
+      ]
+    });
+
+    expect(steps).toEqual([
+      { name: 'crisisEscalationMiddleware', options: {} },
+      { name: 'intentClassifierMiddleware', options: {} },
+      { name: 'jurisdictionValidator', options: {} },
+      { name: 'contentPolicyFilter', options: {} },
+      { name: 'skipToLawyerMiddleware', options: { lawyerSearch: false } }
+    ]);
+  });
+
+  it('keeps crisis escalation and intent classification first even when configured later', () => {
+    const steps = resolvePipelineSteps({
+      pipeline: [{ name: 'contentPolicyFilter' }, { name: 'crisisEscalationMiddleware', enabled: false }]
+    });
+
+    expect(steps.map(step => step.name)).toEqual(['crisisEscalationMiddleware', 'intentClassifierMiddleware', 'contentPolicyFilter']);
+  });
+
+  it('falls back to default options when stored options are invalid', () => {
+    const config = { pipeline: [{ name: 'skipToLawyerMiddleware', options: { lawyerSearch: 'no' } }] };
+
+    expect(getMiddlewareOptions(config, 'skipToLawyerMiddleware')).toEqual({ lawyerSearch: true });
+    expect(getMiddlewareOptions(null, 'skipToLawyerMiddleware')).toEqual({ lawyerSearch: true });
+  });
+});
+
+describe('pipeline validation', () => {
+  const pipeline = organizationConfigSchema.shape.pipeline;
+
+  it('accepts known middlewares with valid options', () => {
+    expect(pipeline.safeParse([
+      { name: 'crisisEscalationMiddleware' },
+      { name: 'skipToLawyerMiddleware', options: { lawyerSearch: false } },
+      { name: 'caseDraftMiddleware', enabled: false }
+    ]).success).toBe(true);
+  });
+
+  it('rejects unknown, duplicate, required-but-disabled and misconfigured middlewares', () => {
+    expect(pipeline.safeParse([{ name: 'lawyerFinder' }]).success).toBe(false);
+    expect(pipeline.safeParse([{ name: 'contentPolicyFilter' }, { name: 'contentPolicyFilter' }]).success).toBe(false);
+    expect(pipeline.safeParse([{ name: 'crisisEscalationMiddleware', enabled: false }]).success).toBe(false);
+    expect(pipeline.safeParse([{ name: 'skipToLawyerMiddleware', options: { lawyerSearch: 'no' } }]).success).toBe(false);
+    expect(pipeline.safeParse([{ name: 'skipToLawyerMiddleware', options: { radiusMiles: 10 } }]).success).toBe(false);
+    expect(pipeline.safeParse([{ name: 'caseDraftMiddleware', options: { enabled: true } }]).success).toBe(false);
+  });
+});
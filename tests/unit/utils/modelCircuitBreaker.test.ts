@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  ModelCircuitBreaker,
+  resolveCircuitBreakerOptions
+} from '../../../worker/utils/modelCircuitBreaker.js';
+import type { Env } from '../../../worker/types.js';
+
+vi.mock('../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+function createEnv() {
+  const store = new Map<string, string>();
+  const env = {
+    CHAT_SESSIONS: {
+      get: vi.fn(async (key: string) => store.get(key) ?? null),
+      put: vi.fn(async (key: string, value: string) => {
+        store.set(key, value);
+      }),
+      list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+        keys: [...store.keys()].filter(key => key.startsWith(prefix)).map(name => ({ name }))
+      }))
+    }
+  } as unknown as Env;
+  return { env, store };
+}
+
+const MODEL = '@cf/openai/gpt-oss-20b';
+const NOW = 1_760_000_000_000;
+
+describe('ModelCircuitBreaker', () => {
+  it('opens after repeated failures and routes around the model until the cooldown passes', async () => {
+    const { env } = createEnv();
+    const breaker = new ModelCircuitBreaker(env);
+
+    await breaker.recordFailure(MODEL, new Error('timeout'), NOW);
+    await breaker.recordFailure(MODEL, new Error('timeout'), NOW + 1_000);
+    expect(await breaker.canAttempt(MODEL, NOW + 1_500)).toBe(true);
+
+    await breaker.recordFailure(MODEL, new Error('timeout'), NOW + 2_000);
+    expect(await breaker.canAttempt(MODEL, NOW + 3_000)).toBe(false);
+    expect(await breaker.getStatus(MODEL)).toMatchObject({
+      state: 'open',
+      failures: 3,
+      lastError: 'timeout',
+      retryAt: NOW + 2_000 + DEFAULT_CIRCUIT_BREAKER_OPTIONS.cooldownMs
+    });
+  });
+
+  it('lets one probe through when half-open and closes on success', async () => {
+    const { env } = createEnv();
+    const breaker = new ModelCircuitBreaker(env, { failureThreshold: 1 });
+    await breaker.recordFailure(MODEL, new Error('503'), NOW);
+
+    const afterCooldown = NOW + DEFAULT_CIRCUIT_BREAKER_OPTIONS.cooldownMs;
+    expect(await breaker.canAttempt(MODEL, afterCooldown)).toBe(true);
+    expect((await breaker.getStatus(MODEL)).state).toBe('half_open');
+    expect(await breaker.canAttempt(MODEL, afterCooldown + 100)).toBe(false);
+
+    await breaker.recordSuccess(MODEL, afterCooldown + 500);
+    expect(await breaker.getStatus(MODEL)).toMatchObject({ state: 'closed', failures: 0 });
+    expect(await breaker.canAttempt(MODEL, afterCooldown + 600)).toBe(true);
+  });
+
+  it('re-opens when the probe fails', async () => {
+    const { env } = createEnv();
+    const breaker = new ModelCircuitBreaker(env, { failureThreshold: 1 });
+    await breaker.recordFailure(MODEL, new Error('503'), NOW);
+
+    const probeAt = NOW + DEFAULT_CIRCUIT_BREAKER_OPTIONS.cooldownMs;
+    await breaker.canAttempt(MODEL, probeAt);
+    await breaker.recordFailure(MODEL, new Error('503'), probeAt + 200);
+
+    expect(await breaker.getStatus(MODEL)).toMatchObject({ state: 'open', openedAt: probeAt + 200 });
+    expect(await breaker.canAttempt(MODEL, probeAt + 1_000)).toBe(false);
+  });
+
+  it('forgets failures outside the window', async () => {
+    const { env } = createEnv();
+    const breaker = new ModelCircuitBreaker(env);
+    const spacing = DEFAULT_CIRCUIT_BREAKER_OPTIONS.failureWindowMs + 1;
+
+    for (let i = 0; i < 3; i += 1) {
+      await breaker.recordFailure(MODEL, new Error('timeout'), NOW + i * spacing);
+    }
+
+    expect(await breaker.getStatus(MODEL)).toMatchObject({ state: 'closed', failures: 1 });
+  });
+
+  it('lists configured models alongside tracked circuits and fails open without KV', async () => {
+    const { env } = createEnv();
+    const breaker = new ModelCircuitBreaker(env, { failureThreshold: 1 });
+    await breaker.recordFailure('@cf/meta/llama-3.1-8b-instruct', new Error('503'), NOW);
+
+    const statuses = await breaker.listStatuses([MODEL]);
+    expect(statuses.map(status => [status.model, status.state])).toEqual([
+      [MODEL, 'closed'],
+      ['@cf/meta/llama-3.1-8b-instruct', 'open']
+    ]);
+
+    const broken = new ModelCircuitBreaker({
+      CHAT_SESSIONS: { get: vi.fn().mockRejectedValue(new Error('KV down')), put: vi.fn() }
+    } as unknown as Env);
+    expect(await broken.canAttempt(MODEL, NOW)).toBe(true);
+  });
+
+  it('reads thresholds from the environment', () => {
+    expect(resolveCircuitBreakerOptions({ MODEL_CIRCUIT_FAILURE_THRESHOLD: '5', MODEL_CIRCUIT_COOLDOWN_SECONDS: '90' })).toMatchObject({
+      failureThreshold: 5,
+      cooldownMs: 90_000
+    });
+    expect(resolveCircuitBreakerOptions({ MODEL_CIRCUIT_FAILURE_THRESHOLD: 'nope' })).toEqual(DEFAULT_CIRCUIT_BREAKER_OPTIONS);
+  });
+});
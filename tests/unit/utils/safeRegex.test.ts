@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_PATTERN_LENGTH, compileSafePattern, findUnsafePatternReason } from '../../../worker/utils/safeRegex.js';
+import { DEFAULT_COMPLIANCE_RULES } from '../../../worker/agents/legal-intake/compliance.js';
+
+describe('findUnsafePatternReason', () => {
+  it('accepts the built-in compliance rules and ordinary field patterns', () => {
+    for (const rule of DEFAULT_COMPLIANCE_RULES) {
+      expect(findUnsafePatternReason(rule.pattern, 'i')).toBeNull();
+    }
+    expect(findUnsafePatternReason('^[A-Z]{2}-\\d{4,}$')).toBeNull();
+    expect(findUnsafePatternReason('^(?:\\+?1[-. ]?)?\\d{3}[-. ]?\\d{4}$')).toBeNull();
+  });
+
+  it('rejects repeated groups that repeat internally', () => {
+    expect(findUnsafePatternReason('^(a+)+$')).toMatch(/repeat/);
+    expect(findUnsafePatternReason('^((?:\\w+\\s?)*x)+$')).toMatch(/repeat/);
+    expect(findUnsafePatternReason('(\\d{2,})*')).toMatch(/repeat/);
+    expect(findUnsafePatternReason('([+*])+')).toBeNull();
+  });
+
+  it('rejects backreferences, invalid syntax and overlong patterns', () => {
+    expect(findUnsafePatternReason('(a)\\1')).toMatch(/backreferences/);
+    expect(findUnsafePatternReason('(unclosed')).toMatch(/valid regular expression/);
+    expect(findUnsafePatternReason('a'.repeat(MAX_PATTERN_LENGTH + 1))).toMatch(/at most/);
+  });
+
+  it('only compiles safe patterns', () => {
+    expect(compileSafePattern('\\bsettle\\b', 'i')?.test('They SETTLE often')).toBe(true);
+    expect(compileSafePattern('(x+x+)+y')).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatResolvedLocation,
+  lookupCity,
+  mergeLocations,
+  resolveCloudflareLocation,
+  resolveLocationFromText
+} from '../../../worker/utils/usGeography.js';
+
+describe('resolveLocationFromText', () => {
+  it('maps ZIP codes and cities to their county', () => {
+    expect(resolveLocationFromText('My zip code is 28078')).toMatchObject({ zip: '28078', county: 'Mecklenburg', state: 'NC', precision: 'zip' });
+    expect(resolveLocationFromText('I live in Charlotte, NC')).toMatchObject({ city: 'Charlotte', county: 'Mecklenburg', state: 'NC' });
+    expect(resolveLocationFromText('We moved to raleigh, north carolina last year')).toMatchObject({ county: 'Wake', state: 'NC' });
+  });
+
+  it('covers ZIP codes and towns outside the curated cities', () => {
+    expect(resolveLocationFromText('My zip is 59001')).toMatchObject({ county: 'Stillwater', state: 'MT', precision: 'zip' });
+    expect(resolveLocationFromText('I live in Klamath Falls, OR')).toMatchObject({ city: 'Klamath Falls', county: 'Klamath', state: 'OR' });
+    expect(formatResolvedLocation(resolveLocationFromText('zip code 24450')!)).toBe('Lexington, VA');
+  });
+
+  it('places a bare county in its state only when the name is unique', () => {
+    expect(resolveLocationFromText('I am in Buncombe County')).toMatchObject({ county: 'Buncombe', state: 'NC', precision: 'county' });
+    // Virginia has a Mecklenburg County too
+    expect(resolveLocationFromText('I am in Mecklenburg County')).toEqual({ county: 'Mecklenburg', precision: 'county', source: 'user' });
+  });
+
+  it('ignores words that only look like places', () => {
+    expect(resolveLocationFromText('Sure, ok')).toBeNull();
+    expect(resolveLocationFromText('They owe me 12000 dollars')).toBeNull();
+  });
+
+  it('does not guess between cities that share a name', () => {
+    expect(lookupCity('Portland')).toBeNull();
+    expect(lookupCity('Portland', 'OR')).toMatchObject({ county: 'Multnomah' });
+    expect(resolveLocationFromText('I live in Portland')).toBeNull();
+  });
+});
+
+describe('resolveCloudflareLocation', () => {
+  it('normalizes US request locations and keeps only the country elsewhere', () => {
+    expect(resolveCloudflareLocation({ isValid: true, country: 'US', state: 'NC', city: 'Charlotte', postalCode: '28202' }))
+      .toMatchObject({ county: 'Mecklenburg', state: 'NC', source: 'cloudflare' });
+    expect(resolveCloudflareLocation({ isValid: true, country: 'CA', state: 'ON', city: 'Toronto' }))
+      .toEqual({ country: 'CA', precision: 'country', source: 'cloudflare' });
+    expect(resolveCloudflareLocation({ isValid: false })).toBeNull();
+  });
+});
+
+describe('mergeLocations', () => {
+  it('adds detail from consistent locations and replaces contradicting ones', () => {
+    const state = resolveLocationFromText('North Carolina');
+    const city = resolveLocationFromText('in Charlotte');
+    const merged = mergeLocations(state, city);
+    expect(merged).toMatchObject({ city: 'Charlotte', county: 'Mecklenburg', state: 'NC', precision: 'city' });
+    expect(formatResolvedLocation(merged!)).toBe('Charlotte, Mecklenburg County, NC');
+
+    expect(mergeLocations(merged, resolveLocationFromText('Austin, TX'))).toMatchObject({ city: 'Austin', state: 'TX' });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  listAgentFixtures,
+  loadAgentFixture,
+  replayAgentFixture,
+  summarizeAgentRun,
+  AgentReplayMismatchError,
+  FIXTURE_TOOL_HANDLERS
+} from '../../helpers/agentReplay';
+import { ModelCircuitBreaker } from '../../../worker/utils/modelCircuitBreaker.js';
+import { SessionService } from '../../../worker/services/SessionService.js';
+
+describe('legal intake agent replay fixtures', () => {
+  for (const name of listAgentFixtures()) {
+    it(`replays ${name} with the recorded outcome`, async () => {
+      const fixture = loadAgentFixture(name);
+      const result = await replayAgentFixture(fixture, { toolHandlers: FIXTURE_TOOL_HANDLERS });
+
+      expect(summarizeAgentRun(result)).toEqual(fixture.expected);
+    });
+  }
+
+  it('parses streamed create_matter arguments into the matter canvas', async () => {
+    const result = await replayAgentFixture(loadAgentFixture('streamed-create-matter'), {
+      toolHandlers: FIXTURE_TOOL_HANDLERS
+    });
+
+    const canvas = result.events.find(event => event.type === 'matter_canvas');
+    expect(canvas?.data).toMatchObject({
+      service: 'Family Law',
+      answers: { name: 'Jordan Alvarez', email: 'jordan.alvarez@fastmail.com', location: 'Nashville, TN' }
+    });
+    expect(result.text).toBe("Thanks, Jordan. I'll create your matter now.");
+    expect(result.aiCalls.map(call => call.model)).toEqual(['openai:gpt-4o-mini']);
+  });
+
+  it('fails when recorded model calls are left unused', async () => {
+    const fixture = loadAgentFixture('explicit-lawyer-request');
+    const extraCall = loadAgentFixture('employment-question-workers-ai').interactions[0];
+
+    await expect(replayAgentFixture(
+      { ...fixture, interactions: [extraCall] },
+      { toolHandlers: FIXTURE_TOOL_HANDLERS }
+    )).rejects.toBeInstanceOf(AgentReplayMismatchError);
+  });
+
+  it('does not claim a fallback probe slot when the primary model answers', async () => {
+    const fixture = loadAgentFixture('employment-question-workers-ai');
+    const primary = fixture.interactions[0].model;
+    // Every fallback has cooled down, so checking it would flip it to half-open
+    const canAttempt = vi.spyOn(ModelCircuitBreaker.prototype, 'canAttempt').mockResolvedValue(true);
+
+    try {
+      await replayAgentFixture(fixture, { toolHandlers: FIXTURE_TOOL_HANDLERS });
+      expect(canAttempt.mock.calls.map(([model]) => model)).toEqual([primary]);
+    } finally {
+      canAttempt.mockRestore();
+    }
+  });
+
+  it('persists the reply the client received as the assistant message', async () => {
+    const fixture = structuredClone(loadAgentFixture('employment-question-workers-ai'));
+    fixture.request.sessionId = 'session-1';
+    fixture.request.organizationId = 'org-1';
+    const persistMessage = vi.spyOn(SessionService, 'persistMessage').mockResolvedValue('message-1');
+
+    try {
+      const result = await replayAgentFixture(fixture, { toolHandlers: FIXTURE_TOOL_HANDLERS });
+      expect(persistMessage).toHaveBeenCalledTimes(1);
+      expect(persistMessage).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        sessionId: 'session-1',
+        organizationId: 'org-1',
+        role: 'assistant',
+        content: result.finalText,
+        metadata: expect.objectContaining({ type: 'ai_response', model: '@cf/openai/gpt-oss-20b' })
+      }));
+    } finally {
+      persistMessage.mockRestore();
+    }
+  });
+
+  it('blocks tool calls on an upload turn whatever text the client sent with it', async () => {
+    const fixture = structuredClone(loadAgentFixture('streamed-create-matter'));
+    fixture.request.attachments = [{
+      id: 'file-1',
+      name: 'intake-notes.pdf',
+      size: 2048,
+      type: 'application/pdf',
+      url: '/api/files/file-1'
+    }];
+
+    const result = await replayAgentFixture(fixture, { toolHandlers: FIXTURE_TOOL_HANDLERS });
+
+    expect(result.toolCalls).toEqual([]);
+    expect(result.finalText).toMatch(/^I've received your document/);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { aiProviderRegistry, type ProviderBasePayload } from '../../../worker/agents/legal-intake/providers.js';
+import type { Env } from '../../../worker/types.js';
+import type { OrganizationConfig } from '../../../worker/services/OrganizationService.js';
+import { organizationAIProviderSchema } from '../../../worker/schemas/validation.js';
+
+const basePayload: ProviderBasePayload = {
+  messages: [
+    { role: 'system', content: 'You are a legal intake assistant.' },
+    { role: 'user', content: 'I need help with my lease.' }
+  ],
+  tools: [{ name: 'show_contact_form', description: 'Show the contact form', parameters: { type: 'object', properties: {} } }],
+  max_tokens: 500,
+  temperature: 0.1,
+  stream: true
+};
+
+function createEnv(run = vi.fn().mockResolvedValue({ response: 'from workers ai' })): Env {
+  return { AI: { run } } as unknown as Env;
+}
+
+describe('aiProviderRegistry', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('deriveProviderForModel', () => {
+    it('keeps the legacy prefix routing', () => {
+      expect(aiProviderRegistry.deriveProviderForModel('@cf/openai/gpt-oss-20b', 'local')).toBe('workers-ai');
+      expect(aiProviderRegistry.deriveProviderForModel('openai:gpt-4o-mini', 'workers-ai')).toBe('gateway-openai');
+      expect(aiProviderRegistry.deriveProviderForModel('@cf/meta/llama-3.1-8b-instruct', 'workers-ai')).toBe('workers-ai');
+    });
+
+    it('routes organization-defined prefixes to the organization provider', () => {
+      const config = { aiProviders: { acme: { type: 'openai-compatible', baseUrl: 'https://llm.acme.test/v1' } } } as unknown as OrganizationConfig;
+      expect(aiProviderRegistry.deriveProviderForModel('acme:gpt-4o', 'workers-ai', config)).toBe('acme');
+    });
+  });
+
+  it('uses the Workers AI binding with the input format when a system prompt is present', async () => {
+    const run = vi.fn().mockResolvedValue({ response: 'ok' });
+    const provider = aiProviderRegistry.resolve(createEnv(run), 'workers-ai');
+    const payload = provider.buildPayload(basePayload);
+
+    expect(payload).toMatchObject({ stream: false, max_tokens: 500 });
+    expect(payload.input).toContain('You are a legal intake assistant.');
+
+    await provider.run('@cf/openai/gpt-oss-20b', payload);
+    expect(run).toHaveBeenCalledWith('@cf/openai/gpt-oss-20b', payload);
+  });
+
+  it('picks the payload format from the provider type, not its name', () => {
+    const config = { aiProviders: { 'firm-cf': { type: 'workers-ai' } } } as unknown as OrganizationConfig;
+    const orgProvider = aiProviderRegistry.resolve(createEnv(), 'firm-cf', config);
+    expect(orgProvider.buildPayload(basePayload).input).toContain('You are a legal intake assistant.');
+
+    const gateway = aiProviderRegistry.resolve(createEnv(), 'gateway-openai');
+    expect(gateway.buildPayload(basePayload)).toMatchObject({ messages: basePayload.messages, tool_choice: 'auto' });
+  });
+
+  it('lets a custom-named Workers AI provider choose the chat format', () => {
+    const config = { aiProviders: { 'firm-cf': { type: 'workers-ai', format: 'chat' } } } as unknown as OrganizationConfig;
+    const provider = aiProviderRegistry.resolve(createEnv(), 'firm-cf', config);
+
+    expect(provider.name).toBe('firm-cf');
+    expect(provider.buildPayload(basePayload)).toMatchObject({
+      messages: basePayload.messages,
+      tools: [{ type: 'function', function: { name: 'show_contact_form' } }]
+    });
+  });
+
+  it('keeps the built-in registration when organization credentials reuse its name', () => {
+    const config = { aiProviders: { 'gateway-openai': { type: 'workers-ai' } } } as unknown as OrganizationConfig;
+    const provider = aiProviderRegistry.resolve(createEnv(), 'gateway-openai', config);
+
+    expect(provider.buildPayload(basePayload)).toMatchObject({ messages: basePayload.messages, tool_choice: 'auto' });
+  });
+
+  it('falls back to Workers AI for unknown provider names', () => {
+    const provider = aiProviderRegistry.resolve(createEnv(), 'does-not-exist');
+    expect(provider.name).toBe('workers-ai');
+  });
+
+  it('returns a deterministic response from the local provider', async () => {
+    const config = { aiProviders: { local: { type: 'local', responseText: 'canned reply' } } } as unknown as OrganizationConfig;
+    const provider = aiProviderRegistry.resolve(createEnv(), 'local', config);
+
+    await expect(provider.run('local:fake', provider.buildPayload({ ...basePayload, stream: false }))).resolves.toEqual({ response: 'canned reply' });
+  });
+
+  it('replays scripted local replies per user turn, streamed or not', async () => {
+    const config = {
+      aiProviders: {
+        local: {
+          type: 'local',
+          script: [
+            { text: 'What happened?' },
+            { text: 'Let me save that.', toolCalls: [{ name: 'create_matter', arguments: { matter_type: 'Family Law' } }] }
+          ]
+        }
+      }
+    } as unknown as OrganizationConfig;
+    const provider = aiProviderRegistry.resolve(createEnv(), 'local', config);
+
+    await expect(provider.run('local:fake', provider.buildPayload({ ...basePayload, stream: false })))
+      .resolves.toEqual({ response: 'What happened?' });
+
+    const secondTurn = {
+      ...basePayload,
+      messages: [...basePayload.messages, { role: 'assistant' as const, content: 'What happened?' }, { role: 'user' as const, content: 'A divorce.' }]
+    };
+    const stream = await provider.run('local:fake', provider.buildPayload(secondTurn)) as ReadableStream<Uint8Array>;
+    const body = await new Response(stream).text();
+    const events = body.split('\n\n').filter(Boolean).map(event => event.slice('data: '.length));
+
+    expect(events.at(-1)).toBe('[DONE]');
+    const deltas = events.slice(0, -1).map(event => JSON.parse(event).choices[0].delta);
+    expect(deltas.map(delta => delta.content ?? '').join('')).toBe('Let me save that.');
+    expect(deltas.at(-1).tool_calls[0].function).toEqual({ name: 'create_matter', arguments: '{"matter_type":"Family Law"}' });
+  });
+
+  it('calls OpenAI-compatible endpoints with organization credentials', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      choices: [{ message: { content: 'hello from acme' } }]
+    }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const config = {
+      aiProviders: { acme: { type: 'openai-compatible', baseUrl: 'https://llm.acme.test/v1/', apiKey: 'sk-test' } }
+    } as unknown as OrganizationConfig;
+    const provider = aiProviderRegistry.resolve(createEnv(), 'acme', config);
+    const result = await provider.run('acme:gpt-4o', provider.buildPayload({ ...basePayload, stream: false }));
+
+    expect(result).toEqual({ response: 'hello from acme' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://llm.acme.test/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'gpt-4o', tool_choice: 'auto' });
+  });
+
+  it('surfaces non-2xx responses as errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('overloaded', { status: 503 })));
+
+    const config = { aiProviders: { acme: { baseUrl: 'https://llm.acme.test/v1' } } } as unknown as OrganizationConfig;
+    const provider = aiProviderRegistry.resolve(createEnv(), 'acme', config);
+
+    await expect(provider.run('gpt-4o', provider.buildPayload(basePayload))).rejects.toThrow('503');
+  });
+
+  it('accepts plain-HTTP base URLs only for private-network hosts and rejects other schemes', async () => {
+    const selfHosted = { type: 'openai-compatible', baseUrl: 'http://10.0.0.12:8000/v1' };
+    expect(organizationAIProviderSchema.safeParse(selfHosted).success).toBe(true);
+    expect(organizationAIProviderSchema.safeParse({ ...selfHosted, baseUrl: 'http://localhost:11434/v1' }).success).toBe(true);
+    expect(organizationAIProviderSchema.safeParse({ ...selfHosted, baseUrl: 'http://[::1]:8000/v1' }).success).toBe(true);
+    expect(organizationAIProviderSchema.safeParse({ ...selfHosted, baseUrl: 'http://llm.example.com/v1' }).success).toBe(false);
+    expect(organizationAIProviderSchema.safeParse({ ...selfHosted, baseUrl: 'http://172.32.0.1/v1' }).success).toBe(false);
+    expect(organizationAIProviderSchema.safeParse({ ...selfHosted, baseUrl: 'ftp://10.0.0.12/v1' }).success).toBe(false);
+
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      choices: [{ message: { content: 'hello from the lab' } }]
+    }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const config = { aiProviders: { lab: selfHosted } } as unknown as OrganizationConfig;
+    const provider = aiProviderRegistry.resolve(createEnv(), 'lab', config);
+    await provider.run('lab:llama-3.1-8b', provider.buildPayload({ ...basePayload, stream: false }));
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://10.0.0.12:8000/v1/chat/completions');
+  });
+
+  it('does not send the API key to a public plain-HTTP host', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const config = {
+      aiProviders: { acme: { type: 'openai-compatible', baseUrl: 'http://llm.acme.test/v1', apiKey: 'sk-test' } }
+    } as unknown as OrganizationConfig;
+    const provider = aiProviderRegistry.resolve(createEnv(), 'acme', config);
+
+    await expect(provider.run('gpt-4o', provider.buildPayload(basePayload))).rejects.toThrow('must use HTTPS');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_COMPLIANCE_DISCLAIMER,
+  resolveComplianceJurisdiction,
+  reviewResponseCompliance,
+  toComplianceMetadata
+} from '../../../worker/agents/legal-intake/compliance.js';
+import type { Organization, OrganizationComplianceConfig } from '../../../worker/services/OrganizationService.js';
+import { complianceRuleSchema } from '../../../worker/schemas/validation.js';
+import {
+  FIXTURE_TOOL_HANDLERS,
+  loadAgentFixture,
+  replayAgentFixture
+} from '../../helpers/agentReplay.js';
+
+describe('reviewResponseCompliance', () => {
+  it('rewrites outcome predictions and appends the disclaimer', () => {
+    const review = reviewResponseCompliance(
+      'Thanks for the details. You will definitely win this case. You have a strong case against your landlord. Can you share the lease?',
+      undefined,
+      'NC'
+    );
+
+    expect(review.response).toBe(
+      "Thanks for the details. I can't predict how your matter will turn out; an attorney can assess your options after reviewing the details. Can you share the lease?" +
+      `\n\n_${DEFAULT_COMPLIANCE_DISCLAIMER}_`
+    );
+    expect(review.changed).toBe(true);
+    expect(review.flagged).toBe(true);
+    expect(review.findings.map(finding => finding.ruleId)).toEqual(['default-win-lose', 'default-strong-case', 'disclaimer']);
+  });
+
+  it('keeps flagged legal conclusions but requires the disclaimer', () => {
+    const review = reviewResponseCompliance('Based on what you describe, this is clearly wrongful termination.', undefined, null);
+
+    expect(review.response.startsWith('Based on what you describe, this is clearly wrongful termination.')).toBe(true);
+    expect(review.disclaimerAdded).toBe(true);
+    expect(review.findings[0]).toMatchObject({ ruleId: 'default-constitutes', category: 'legal_conclusion', action: 'flag' });
+  });
+
+  it('adds the disclaimer to legal information and leaves intake questions alone', () => {
+    const information = reviewResponseCompliance('Under the law, tenants may be entitled to a return of their deposit within 30 days.', undefined, null);
+    expect(information.disclaimerAdded).toBe(true);
+    expect(information.flagged).toBe(false);
+
+    const question = reviewResponseCompliance('When did you move out, and did you receive anything in writing?', undefined, null);
+    expect(question).toMatchObject({ changed: false, findings: [] });
+    expect(toComplianceMetadata(question)).toBeUndefined();
+  });
+
+  it('does not add a second disclaimer', () => {
+    const review = reviewResponseCompliance('Under the law you may have a claim. This is not legal advice.', undefined, null);
+
+    expect(review.changed).toBe(false);
+    expect(review.disclaimerAdded).toBe(false);
+  });
+
+  it('applies organization rules and disclaimers for the jurisdiction', () => {
+    const config: OrganizationComplianceConfig = {
+      disclaimer: 'General information only.',
+      jurisdictionDisclaimers: { CA: 'California: this is not legal advice from a licensed attorney.' },
+      disclaimerMode: 'when_flagged',
+      rules: [{
+        id: 'ca-settlement',
+        category: 'outcome_prediction',
+        pattern: '\\bsettle\\s+for\\b',
+        replacement: 'Settlement values depend on facts an attorney needs to review.',
+        states: ['CA']
+      }]
+    };
+    const reply = 'Cases like yours usually settle for about $20,000.';
+
+    const california = reviewResponseCompliance(reply, config, 'CA');
+    expect(california.response).toBe(
+      'Settlement values depend on facts an attorney needs to review.\n\n_California: this is not legal advice from a licensed attorney._'
+    );
+
+    const texas = reviewResponseCompliance(reply, config, 'TX');
+    expect(texas.changed).toBe(false);
+  });
+
+  it('skips stored rules whose pattern is unsafe', () => {
+    const review = reviewResponseCompliance('aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!', {
+      disclaimerMode: 'when_flagged',
+      includeDefaultRules: false,
+      rules: [{ id: 'nested', category: 'outcome_prediction', pattern: '^(a+)+$' }]
+    }, null);
+
+    expect(review.changed).toBe(false);
+  });
+
+  it('refuses unsafe rule patterns when the policy is saved', () => {
+    const rule = { id: 'nested', category: 'outcome_prediction', pattern: '^(a+)+$' };
+
+    expect(complianceRuleSchema.safeParse(rule).success).toBe(false);
+    expect(complianceRuleSchema.safeParse({ ...rule, pattern: '\\bsettle\\s+for\\b' }).success).toBe(true);
+  });
+
+  it('can be switched off per organization', () => {
+    const review = reviewResponseCompliance('You will win.', { enabled: false }, null);
+
+    expect(review).toMatchObject({ response: 'You will win.', changed: false, findings: [] });
+  });
+});
+
+describe('compliance review in the agent', () => {
+  it('sends no streamed text until the whole reply has been reviewed', async () => {
+    const fixture = structuredClone(loadAgentFixture('employment-question-workers-ai'));
+    fixture.interactions[0].response = {
+      type: 'stream',
+      chunks: [
+        'data: {"response":"You will definitely"}\n\n',
+        'data: {"response":" win this case. Which state do you work in?"}\n\n',
+        'data: [DONE]\n\n'
+      ]
+    };
+
+    const result = await replayAgentFixture(fixture, { toolHandlers: FIXTURE_TOOL_HANDLERS });
+
+    expect(result.text).not.toContain('definitely');
+    expect(result.text.startsWith("I can't predict how your matter will turn out")).toBe(true);
+    expect(result.finalText).not.toContain('definitely');
+  });
+});
+
+describe('resolveComplianceJurisdiction', () => {
+  const organization = {
+    config: { jurisdiction: { type: 'state', description: 'North Carolina', supportedStates: ['NC'], supportedCountries: ['US'], primaryState: 'NC' } }
+  } as unknown as Pick<Organization, 'config'>;
+
+  it('prefers the client location over the firm jurisdiction', () => {
+    expect(resolveComplianceJurisdiction(organization, 'California')).toBe('CA');
+    expect(resolveComplianceJurisdiction(organization, undefined)).toBe('NC');
+    expect(resolveComplianceJurisdiction(null, undefined)).toBeNull();
+  });
+});
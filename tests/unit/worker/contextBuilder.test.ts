@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildPromptContext, estimateTokens } from '../../../worker/agents/legal-intake/contextBuilder.js';
+import { aiProviderRegistry } from '../../../worker/agents/legal-intake/providers.js';
+import type { AgentMessage, Env } from '../../../worker/types.js';
+
+interface SummaryRow {
+  id: string;
+  session_id: string;
+  summary: string;
+  token_count: number;
+  message_count: number;
+  created_at: string;
+}
+
+function createEnv(initial: SummaryRow[] = []) {
+  const rows = [...initial];
+
+  const env = {
+    DB: {
+      prepare: vi.fn((sql: string) => ({
+        bind: (...args: unknown[]) => ({
+          first: async () => rows.filter(row => row.session_id === args[0]).at(-1) ?? null,
+          run: async () => {
+            if (sql.includes('INSERT INTO session_summaries')) {
+              const [id, sessionId, summary, tokenCount, messageCount, createdAt] = args as [string, string, string, number, number, string];
+              rows.push({ id, session_id: sessionId, summary, token_count: tokenCount, message_count: messageCount, created_at: createdAt });
+            }
+            return { success: true };
+          }
+        })
+      }))
+    }
+  } as unknown as Env;
+
+  return { env, rows };
+}
+
+function conversation(turns: number, filler = ''): AgentMessage[] {
+  return Array.from({ length: turns }, (_, i) => ({
+    role: i % 2 === 0 ? 'user' as const : 'assistant' as const,
+    content: `message ${i + 1}${filler}`
+  }));
+}
+
+describe('buildPromptContext', () => {
+  it('sends the full history when it fits', async () => {
+    const { env } = createEnv();
+    const summarize = vi.fn();
+
+    const context = await buildPromptContext({
+      env,
+      sessionId: 'session-1',
+      systemPrompt: 'You are an intake assistant.',
+      messages: conversation(4),
+      summarize
+    });
+
+    expect(summarize).not.toHaveBeenCalled();
+    expect(context.messages.map(message => message.content)).toEqual([
+      'You are an intake assistant.',
+      'message 1',
+      'message 2',
+      'message 3',
+      'message 4'
+    ]);
+    expect(context.summary).toBeNull();
+  });
+
+  it('folds older turns into a persisted summary and keeps the recent ones', async () => {
+    const { env, rows } = createEnv();
+    const summarize = vi.fn().mockResolvedValue('Client Sam was fired after reporting unpaid overtime.');
+
+    const context = await buildPromptContext({
+      env,
+      sessionId: 'session-1',
+      systemPrompt: 'You are an intake assistant.',
+      messages: conversation(12),
+      summarize,
+      budget: { recentMessages: 4, summarizeAfterMessages: 10 }
+    });
+
+    const [request] = summarize.mock.calls[0];
+    expect(request[1].content).toContain('message 8');
+    expect(request[1].content).not.toContain('message 9');
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ session_id: 'session-1', message_count: 8 });
+
+    expect(context.summarizedMessages).toBe(8);
+    expect(context.messages[0].content).toContain('Client Sam was fired');
+    expect(context.messages.slice(1).map(message => message.content)).toEqual([
+      'message 9',
+      'message 10',
+      'message 11',
+      'message 12'
+    ]);
+  });
+
+  it('reuses the stored summary on later turns', async () => {
+    const { env } = createEnv([{
+      id: 'summary-1',
+      session_id: 'session-1',
+      summary: 'Earlier: tenant dispute in Austin.',
+      token_count: 8,
+      message_count: 8,
+      created_at: '2026-10-01T00:00:00.000Z'
+    }]);
+    const summarize = vi.fn();
+
+    const context = await buildPromptContext({
+      env,
+      sessionId: 'session-1',
+      systemPrompt: 'System',
+      messages: conversation(10),
+      summarize
+    });
+
+    expect(summarize).not.toHaveBeenCalled();
+    expect(context.messages.map(message => message.content)).toEqual([
+      'System\n\nSummary of the earlier conversation:\nEarlier: tenant dispute in Austin.',
+      'message 9',
+      'message 10'
+    ]);
+  });
+
+  it('keeps the summary in the payload sent to Workers AI', async () => {
+    const { env } = createEnv([{
+      id: 'summary-1',
+      session_id: 'session-1',
+      summary: 'Earlier: tenant dispute in Austin.',
+      token_count: 8,
+      message_count: 8,
+      created_at: '2026-10-01T00:00:00.000Z'
+    }]);
+    const run = vi.fn().mockResolvedValue({ response: 'ok' });
+    const provider = aiProviderRegistry.resolve({ ...env, AI: { run } } as unknown as Env, 'workers-ai');
+
+    const context = await buildPromptContext({ env, sessionId: 'session-1', systemPrompt: 'System', messages: conversation(10) });
+    const payload = provider.buildPayload({ messages: context.messages, tools: [], max_tokens: 100, temperature: 0, stream: true });
+    await provider.run('@cf/openai/gpt-oss-20b', payload);
+
+    const [, sent] = run.mock.calls[0];
+    expect(sent.input).toContain('Earlier: tenant dispute in Austin.');
+    expect(sent.input).toContain('user: message 9');
+  });
+
+  it('drops the oldest messages when summarization fails', async () => {
+    const { env, rows } = createEnv();
+    const filler = ' '.repeat(400);
+
+    const context = await buildPromptContext({
+      env,
+      sessionId: 'session-1',
+      systemPrompt: 'System',
+      messages: conversation(10, filler),
+      summarize: vi.fn().mockRejectedValue(new Error('model unavailable')),
+      budget: { maxInputTokens: 500, recentMessages: 2 }
+    });
+
+    expect(rows).toHaveLength(0);
+    expect(context.droppedMessages).toBeGreaterThan(0);
+    expect(context.estimatedTokens).toBeLessThanOrEqual(500);
+    expect(context.messages.at(-1)?.content).toBe(`message 10${filler}`);
+  });
+
+  it('estimates roughly four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcdefgh')).toBe(2);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TOOL_HANDLERS } from '../../../worker/agents/legal-intake/index.js';
+import type { Organization } from '../../../worker/services/OrganizationService.js';
+import type { Env } from '../../../worker/types.js';
+
+const { createMatterRecord, processPayment, finalizeSubmission, estimateForIntake } = vi.hoisted(() => ({
+  createMatterRecord: vi.fn(),
+  processPayment: vi.fn(),
+  finalizeSubmission: vi.fn(),
+  estimateForIntake: vi.fn()
+}));
+
+vi.mock('../../../worker/utils.js', () => ({ createMatterRecord }));
+
+vi.mock('../../../worker/services/PaymentServiceFactory.js', () => ({
+  PaymentServiceFactory: { processPayment }
+}));
+
+vi.mock('../../../worker/services/ContactIntakeOrchestrator.js', () => ({
+  ContactIntakeOrchestrator: { finalizeSubmission }
+}));
+
+vi.mock('../../../worker/services/DeadlineService.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../../worker/services/DeadlineService.js')>(),
+  DeadlineService: vi.fn(() => ({ estimateForIntake }))
+}));
+
+const organization = {
+  id: 'org-1',
+  name: 'Test Firm',
+  config: { requiresPayment: true, consultationFee: 75 }
+} as unknown as Organization;
+
+const parameters = {
+  matter_type: 'Family Law',
+  description: 'Need help with a custody schedule after the divorce',
+  urgency: 'normal',
+  name: 'Jordan Blake',
+  email: 'jordan.blake@gmail.com',
+  phone: '',
+  location: 'Raleigh, NC'
+};
+
+describe('create_matter', () => {
+  beforeEach(() => {
+    createMatterRecord.mockReset();
+    processPayment.mockReset().mockResolvedValue({ invoiceUrl: 'https://pay.example.com/inv-1', paymentId: 'pay-1' });
+    finalizeSubmission.mockReset().mockResolvedValue({});
+    estimateForIntake.mockReset().mockResolvedValue(null);
+  });
+
+  it('creates no invoice when the matter cannot be saved, so a retry bills only once', async () => {
+    const env = {} as Env;
+    createMatterRecord
+      .mockRejectedValueOnce(new Error('D1 unavailable'))
+      .mockResolvedValueOnce('matter-1');
+
+    const failed = await TOOL_HANDLERS.create_matter(parameters, env, organization, 'corr-1', 'session-1', 'org-1');
+    expect(failed).toMatchObject({ success: false, error: { message: 'Failed to save intake matter' } });
+    expect(processPayment).not.toHaveBeenCalled();
+
+    const retried = await TOOL_HANDLERS.create_matter(parameters, env, organization, 'corr-2', 'session-1', 'org-1');
+    expect(retried.success).toBe(true);
+    expect(retried.data).toMatchObject({ matter_id: 'matter-1', payment_link: 'https://pay.example.com/inv-1' });
+    expect(processPayment).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ConversationState,
+  IntakeStateMachine,
+  findTransitionPath,
+  isLegalTransition,
+  INTAKE_STATE_AUDIT_EVENT
+} from '../../../worker/agents/legal-intake/intakeStateMachine.js';
+import { ToolAuditService } from '../../../worker/services/ToolAuditService.js';
+import type { Env } from '../../../worker/types.js';
+import {
+  FIXTURE_TOOL_HANDLERS,
+  createReplayAi,
+  loadAgentFixture,
+  runAgentWithAi
+} from '../../helpers/agentReplay.js';
+
+function createEnv() {
+  const kv = new Map<string, string>();
+  const auditInserts: unknown[][] = [];
+
+  const env = {
+    CHAT_SESSIONS: {
+      get: vi.fn(async (key: string) => kv.get(key) ?? null),
+      put: vi.fn(async (key: string, value: string) => {
+        kv.set(key, value);
+      })
+    },
+    DB: {
+      prepare: vi.fn((sql: string) => ({
+        bind: (...args: unknown[]) => ({
+          run: async () => {
+            if (sql.includes('INSERT INTO session_audit_events')) {
+              auditInserts.push(args);
+            }
+            return { success: true };
+          }
+        })
+      }))
+    }
+  } as unknown as Env;
+
+  return { env, kv, auditInserts };
+}
+
+const sessionOptions = { correlationId: 'corr-1', sessionId: 'session-1', organizationId: 'org-1' };
+
+describe('intake state machine', () => {
+  it('only allows the documented transitions', () => {
+    expect(isLegalTransition(ConversationState.GATHERING_INFORMATION, ConversationState.QUALIFYING_LEAD)).toBe(true);
+    expect(isLegalTransition(ConversationState.QUALIFYING_LEAD, ConversationState.GATHERING_INFORMATION)).toBe(false);
+    expect(isLegalTransition(ConversationState.COMPLETED, ConversationState.GATHERING_INFORMATION)).toBe(false);
+  });
+
+  it('finds the shortest legal path and refuses to move backwards', () => {
+    expect(findTransitionPath(ConversationState.INITIAL, ConversationState.READY_TO_CREATE_MATTER)).toEqual([
+      ConversationState.GATHERING_INFORMATION,
+      ConversationState.QUALIFYING_LEAD,
+      ConversationState.READY_TO_CREATE_MATTER
+    ]);
+    expect(findTransitionPath(ConversationState.SHOWING_CONTACT_FORM, ConversationState.QUALIFYING_LEAD)).toBeNull();
+  });
+
+  it('runs in memory without a session', async () => {
+    const { env } = createEnv();
+    const machine = await IntakeStateMachine.load(env, { correlationId: 'corr-1' });
+
+    await machine.advanceTo(ConversationState.QUALIFYING_LEAD, 'signals');
+    await machine.save();
+
+    expect(machine.state).toBe(ConversationState.QUALIFYING_LEAD);
+    expect(env.CHAT_SESSIONS.put).not.toHaveBeenCalled();
+    expect(env.DB.prepare).not.toHaveBeenCalled();
+  });
+
+  it('audits each hop and persists the state across loads', async () => {
+    const { env, auditInserts } = createEnv();
+    const machine = await IntakeStateMachine.load(env, sessionOptions);
+
+    await machine.advanceTo(ConversationState.QUALIFYING_LEAD, 'conversation_signals');
+    await machine.save();
+
+    expect(auditInserts).toHaveLength(2);
+    expect(auditInserts[0][1]).toBe('session-1');
+    expect(auditInserts[0][2]).toBe(INTAKE_STATE_AUDIT_EVENT);
+    expect(JSON.parse(auditInserts[1][5] as string)).toMatchObject({
+      from: ConversationState.GATHERING_INFORMATION,
+      to: ConversationState.QUALIFYING_LEAD,
+      trigger: 'conversation_signals'
+    });
+
+    const reloaded = await IntakeStateMachine.load(env, sessionOptions);
+    expect(reloaded.state).toBe(ConversationState.QUALIFYING_LEAD);
+    expect(reloaded.history).toHaveLength(2);
+  });
+
+  it('ignores illegal transitions', async () => {
+    const { env, auditInserts } = createEnv();
+    const machine = await IntakeStateMachine.load(env, sessionOptions);
+
+    await expect(machine.transition(ConversationState.COMPLETED, 'tool:create_matter:success')).resolves.toBe(false);
+    expect(machine.state).toBe(ConversationState.INITIAL);
+    expect(auditInserts).toHaveLength(0);
+  });
+});
+
+describe('intake state transitions in the agent', () => {
+  async function runWithContactForm(saved: boolean, clientMetadata?: Record<string, unknown>) {
+    const fixture = structuredClone(loadAgentFixture('streamed-create-matter'));
+    if (!saved) {
+      // A fresh session: no contact form was shown or saved
+      fixture.session = {};
+    }
+    if (clientMetadata) {
+      fixture.request.messages = fixture.request.messages.map(message => ({ ...message, metadata: clientMetadata }));
+    }
+
+    const replay = createReplayAi(fixture.interactions);
+    const result = await runAgentWithAi(replay.ai, fixture, FIXTURE_TOOL_HANDLERS);
+    const tools = replay.calls[0].payload.tools as Array<{ function: { name: string } }>;
+    return { result, offered: tools.map(tool => tool.function.name) };
+  }
+
+  it('moves to matter creation on a saved contact form, not on client metadata', async () => {
+    expect((await runWithContactForm(true)).offered).toContain('create_matter');
+    expect((await runWithContactForm(false, { type: 'contact_form_submission', toolName: 'create_matter' })).offered)
+      .not.toContain('create_matter');
+  });
+
+  it('treats a session whose matter was saved as complete', async () => {
+    const fixture = structuredClone(loadAgentFixture('streamed-create-matter'));
+    fixture.session = { rows: { matters: [{ id: 'matter-1', matter_type: 'Family Law', client_name: 'Jordan Alvarez' }] } };
+
+    const replay = createReplayAi(fixture.interactions);
+    const result = await runAgentWithAi(replay.ai, fixture, FIXTURE_TOOL_HANDLERS);
+
+    expect(replay.calls).toHaveLength(0);
+    expect(result.finalText).toContain("I've already helped you create a matter");
+  });
+
+  it('refuses and audits tool calls that are not offered in the current state', async () => {
+    const record = vi.spyOn(ToolAuditService.prototype, 'record').mockResolvedValue();
+
+    try {
+      const { result } = await runWithContactForm(false);
+
+      expect(result.toolCalls).toEqual([]);
+      expect(result.eventTypes).not.toContain('matter_canvas');
+      expect(record).toHaveBeenCalledWith(expect.objectContaining({
+        toolName: 'create_matter',
+        outcome: 'blocked',
+        errorMessage: `Not available in state ${ConversationState.GATHERING_INFORMATION}`
+      }));
+    } finally {
+      record.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFirmInstructionsSection,
+  buildPromptTemplateVariables,
+  findUnknownTemplateVariables,
+  renderPromptTemplate
+} from '../../../worker/agents/legal-intake/promptTemplates.js';
+import { previewSystemPrompt } from '../../../worker/agents/legal-intake/index.js';
+import { PromptTemplateService } from '../../../worker/services/PromptTemplateService.js';
+import type { Organization } from '../../../worker/services/OrganizationService.js';
+import type { Env } from '../../../worker/types.js';
+
+const organization = {
+  id: 'org-1',
+  slug: 'north-carolina-legal',
+  name: 'North Carolina Legal Services',
+  config: {
+    availableServices: ['Family Law', 'Employment Law'],
+    consultationFee: 75,
+    jurisdiction: { type: 'state', description: 'North Carolina', supportedStates: ['NC'], supportedCountries: ['US'] }
+  }
+} as unknown as Organization;
+
+interface TemplateRow {
+  id: string;
+  organization_id: string;
+  version: number;
+  content: string;
+  note: string | null;
+  rolled_back_from: number | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+function createEnv() {
+  const rows: TemplateRow[] = [];
+  const forOrg = (organizationId: unknown) =>
+    rows.filter(row => row.organization_id === organizationId).sort((a, b) => b.version - a.version);
+
+  const env = {
+    DB: {
+      prepare: (sql: string) => ({
+        bind: (...args: unknown[]) => ({
+          first: async () => {
+            if (sql.includes('MAX(version)')) {
+              return { version: forOrg(args[0])[0]?.version ?? null };
+            }
+            if (sql.includes('version = ?')) {
+              return forOrg(args[0]).find(row => row.version === args[1]) ?? null;
+            }
+            return forOrg(args[0])[0] ?? null;
+          },
+          all: async () => ({ results: forOrg(args[0]) }),
+          run: async () => {
+            const [id, organizationId, version, content, note, rolledBackFrom, createdBy, createdAt] = args as [
+              string, string, number, string, string | null, number | null, string | null, string
+            ];
+            rows.push({
+              id,
+              organization_id: organizationId,
+              version,
+              content,
+              note,
+              rolled_back_from: rolledBackFrom,
+              created_by: createdBy,
+              created_at: createdAt
+            });
+            return { success: true };
+          }
+        })
+      })
+    }
+  } as unknown as Env;
+
+  return { env, rows };
+}
+
+describe('prompt template rendering', () => {
+  it('fills variables from the organization config', () => {
+    const variables = buildPromptTemplateVariables(organization);
+
+    expect(variables).toEqual({
+      firmName: 'North Carolina Legal Services',
+      jurisdiction: 'North Carolina',
+      services: 'Family Law, Employment Law',
+      consultationFee: '$75'
+    });
+    expect(renderPromptTemplate('Welcome to {{ firmName }} in {{jurisdiction}}.', variables))
+      .toBe('Welcome to North Carolina Legal Services in North Carolina.');
+  });
+
+  it('reports unknown variables', () => {
+    expect(findUnknownTemplateVariables({
+      tone: 'Friendly, on behalf of {{firmName}}.',
+      requiredQuestions: ['Ask for the {{caseNumber}}', 'Confirm {{ clientDob }}']
+    })).toEqual(['caseNumber', 'clientDob']);
+  });
+
+  it('builds the firm instructions block and skips empty templates', () => {
+    const variables = buildPromptTemplateVariables(organization);
+    const section = buildFirmInstructionsSection({
+      tone: 'Warm and plain-spoken.',
+      requiredQuestions: ['Which county in {{jurisdiction}} is the case in?', '  '],
+      disclaimers: '{{firmName}} does not provide legal advice through this chat.'
+    }, variables);
+
+    expect(section).toContain('FIRM INSTRUCTIONS (set by North Carolina Legal Services');
+    expect(section).toContain('- Which county in North Carolina is the case in?');
+    expect(section).toContain('North Carolina Legal Services does not provide legal advice through this chat.');
+    expect(section).not.toContain('- \n');
+
+    expect(buildFirmInstructionsSection({ tone: '   ' }, variables)).toBe('');
+    expect(buildFirmInstructionsSection(null, variables)).toBe('');
+  });
+});
+
+describe('previewSystemPrompt', () => {
+  it('renders the final prompt for a sample conversation', () => {
+    const preview = previewSystemPrompt(organization, {
+      practiceInstructions: 'We only handle {{services}}.'
+    }, [{ role: 'user', content: 'I was fired after reporting unpaid overtime.', isUser: true }]);
+
+    expect(preview.prompt).toContain('We only handle Family Law, Employment Law.');
+    expect(preview.prompt.indexOf('FIRM INSTRUCTIONS')).toBeLessThan(preview.prompt.indexOf('Tool calling format:'));
+    expect(preview.state).toBeTruthy();
+  });
+
+  it('leaves the default prompt unchanged without a template', () => {
+    const preview = previewSystemPrompt(organization, null, [{ role: 'user', content: 'Hello', isUser: true }]);
+
+    expect(preview.prompt).not.toContain('FIRM INSTRUCTIONS');
+  });
+});
+
+describe('PromptTemplateService', () => {
+  it('appends versions and rolls back by copying an older one', async () => {
+    const { env, rows } = createEnv();
+    const service = new PromptTemplateService(env);
+
+    await service.saveVersion('org-1', { tone: 'Formal.' }, { createdBy: 'user-1' });
+    await service.saveVersion('org-1', { tone: 'Casual.' }, { createdBy: 'user-1' });
+    const restored = await service.rollback('org-1', 1, 'user-2');
+
+    expect(restored).toMatchObject({ version: 3, rolledBackFrom: 1, content: { tone: 'Formal.' } });
+    expect(rows.map(row => row.version)).toEqual([1, 2, 3]);
+    expect((await service.getActive('org-1'))?.content).toEqual({ tone: 'Formal.' });
+    expect(await service.rollback('org-1', 9)).toBeNull();
+  });
+});
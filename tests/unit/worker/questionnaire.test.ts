@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildQuestionnaireProgress,
+  buildQuestionnaireSection,
+  detectAnswers,
+  IntakeQuestionnaire,
+  parseIntakeForm,
+  type IntakeQuestion
+} from '../../../worker/agents/legal-intake/questionnaire.js';
+import type { Organization } from '../../../worker/services/OrganizationService.js';
+import type { AgentMessage, Env } from '../../../worker/types.js';
+import {
+  FIXTURE_TOOL_HANDLERS,
+  createReplayAi,
+  loadAgentFixture,
+  runAgentWithAi,
+  type AgentFixture
+} from '../../helpers/agentReplay.js';
+
+const questions: IntakeQuestion[] = [
+  { id: 'orders', question: 'Are there any existing custody orders?', required: true },
+  { id: 'children', question: 'How old are the children?', required: true },
+  { id: 'mediation', question: 'Have you tried mediation?', required: false }
+];
+
+const organization = {
+  id: 'org-1',
+  name: 'Harbor Family Law',
+  config: {
+    serviceQuestions: {
+      'Family Law': ['Are there any existing custody orders?', 'How old are the children?']
+    }
+  }
+} as unknown as Organization;
+
+function createEnv(intakeForm: unknown = null) {
+  const kv = new Map<string, string>();
+  const inserted: unknown[][] = [];
+
+  const env = {
+    DB: {
+      prepare: (sql: string) => ({
+        bind: (...args: unknown[]) => ({
+          first: async () => (sql.includes('FROM services') && intakeForm
+            ? { name: 'Family Law', intake_form: JSON.stringify(intakeForm) }
+            : null),
+          all: async () => ({ results: [] }),
+          run: async () => {
+            if (sql.includes('INSERT OR IGNORE INTO matter_questions')) {
+              inserted.push(args);
+            }
+            return { success: true, meta: { changes: 1 } };
+          }
+        })
+      })
+    },
+    CHAT_SESSIONS: {
+      get: async (key: string) => kv.get(key) ?? null,
+      put: async (key: string, value: string) => {
+        kv.set(key, value);
+      }
+    }
+  } as unknown as Env;
+
+  return { env, kv, inserted };
+}
+
+describe('service questionnaires', () => {
+  it('parses the supported intake_form shapes', () => {
+    expect(parseIntakeForm(['When did this happen?'])).toEqual([
+      { id: 'q1', question: 'When did this happen?', required: true }
+    ]);
+    expect(parseIntakeForm(JSON.stringify({
+      questions: [{ id: 'employer', label: 'Who is your employer?' }, { text: 'Any witnesses?', required: false }, { foo: 1 }]
+    }))).toEqual([
+      { id: 'employer', question: 'Who is your employer?', required: true },
+      { id: 'q2', question: 'Any witnesses?', required: false }
+    ]);
+    expect(parseIntakeForm('not json')).toEqual([]);
+  });
+
+  it('treats a user reply to an asked question as its answer', () => {
+    const messages: AgentMessage[] = [
+      { role: 'user', content: 'I need help with custody.' },
+      { role: 'assistant', content: "I'm sorry to hear that. Are there existing custody orders in place?" },
+      { role: 'user', content: 'No, nothing has been filed.' },
+      { role: 'assistant', content: 'Thanks. Where do you live?' },
+      { role: 'user', content: 'Nashville.' }
+    ];
+
+    expect(detectAnswers(questions, messages)).toEqual([
+      { questionId: 'orders', question: 'Are there any existing custody orders?', answer: 'No, nothing has been filed.' }
+    ]);
+    expect(detectAnswers(questions, messages, new Set(['orders']))).toEqual([]);
+  });
+
+  it('lists only the remaining required questions in the prompt', () => {
+    const progress = buildQuestionnaireProgress({
+      service: 'Family Law',
+      source: 'organization_config',
+      questions,
+      answers: [{ questionId: 'orders', question: questions[0].question, answer: 'No' }],
+      updatedAt: '2026-10-18T00:00:00.000Z'
+    });
+
+    expect(progress).toMatchObject({ answeredCount: 1, totalCount: 3, complete: false });
+    const section = buildQuestionnaireSection(progress);
+    expect(section).toContain('- How old are the children?');
+    expect(section).not.toContain('custody orders');
+    expect(section).not.toContain('mediation');
+    expect(buildQuestionnaireSection({ ...progress, remainingRequired: [], complete: true })).toBe('');
+  });
+
+  it('prefers the service intake form and persists new answers', async () => {
+    const { env, kv, inserted } = createEnv({ questions: [{ id: 'orders', question: 'Are there any existing custody orders?' }] });
+    const options = { correlationId: 'corr-1', sessionId: 'session-1', organizationId: 'org-1' };
+
+    const tracker = await IntakeQuestionnaire.load(env, options, organization, 'family law');
+    expect(tracker.progress?.questions.map(question => question.id)).toEqual(['orders']);
+    expect(tracker.complete).toBe(false);
+
+    await tracker.update([
+      { role: 'assistant', content: 'Are there any existing custody orders?' },
+      { role: 'user', content: 'Yes, a temporary order from March.' }
+    ]);
+    await tracker.save();
+
+    expect(tracker.complete).toBe(true);
+    expect(inserted).toHaveLength(1);
+    expect(inserted[0]).toEqual(expect.arrayContaining(['session-1', 'Family Law', 'orders', 'Yes, a temporary order from March.']));
+
+    // The detected service stays fixed on later turns
+    const reloaded = await IntakeQuestionnaire.load(env, options, organization, 'Employment Law');
+    expect(reloaded.progress).toMatchObject({ service: 'Family Law', complete: true });
+    expect([...kv.keys()]).toHaveLength(1);
+  });
+
+  it('has nothing to gate when the service has no questionnaire', async () => {
+    const { env } = createEnv();
+    const tracker = await IntakeQuestionnaire.load(env, { correlationId: 'corr-1' }, organization, 'Employment Law');
+
+    expect(tracker.progress).toBeNull();
+    expect(tracker.complete).toBe(true);
+  });
+});
+
+describe('questionnaire gating', () => {
+  function withQuestionnaire(messages?: AgentMessage[]): AgentFixture {
+    const fixture = structuredClone(loadAgentFixture('streamed-create-matter'));
+    fixture.organization = {
+      id: 'org-family',
+      name: 'Harbor Family Law',
+      config: { serviceQuestions: { 'Family Law': ['Are there any existing custody orders?'] } }
+    };
+    if (messages) {
+      fixture.request.messages = messages;
+    }
+    return fixture;
+  }
+
+  it('asks the remaining required question instead of creating the matter', async () => {
+    const fixture = withQuestionnaire();
+    const replay = createReplayAi(fixture.interactions);
+
+    const result = await runAgentWithAi(replay.ai, fixture, FIXTURE_TOOL_HANDLERS);
+
+    expect(result.toolCalls).toEqual([]);
+    expect(result.finalText).toContain('Are there any existing custody orders?');
+  });
+
+  it('creates the matter once the questionnaire is answered', async () => {
+    const base = loadAgentFixture('streamed-create-matter').request.messages;
+    const fixture = withQuestionnaire([
+      base[0],
+      { role: 'assistant', isUser: false, content: 'Are there any existing custody orders?' },
+      { role: 'user', isUser: true, content: 'No, nothing has been filed yet.' },
+      ...base.slice(1)
+    ]);
+    const replay = createReplayAi(fixture.interactions);
+
+    const result = await runAgentWithAi(replay.ai, fixture, FIXTURE_TOOL_HANDLERS);
+
+    expect(result.toolCalls).toEqual(['create_matter']);
+  });
+});
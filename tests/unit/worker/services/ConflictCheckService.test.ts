@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ConflictCheckService,
+  bestMentionSimilarity,
+  normalizePartyName,
+  partyNameSimilarity
+} from '../../../../worker/services/ConflictCheckService.js';
+import type { Env } from '../../../../worker/types.js';
+
+vi.mock('../../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+function createEnv(tables: { matters?: unknown[]; contactForms?: unknown[] }, fail = false) {
+  return {
+    DB: {
+      prepare: vi.fn((sql: string) => ({
+        bind: () => ({
+          all: async () => {
+            if (fail) throw new Error('D1 unavailable');
+            return { results: sql.includes('FROM matters') ? tables.matters ?? [] : tables.contactForms ?? [] };
+          }
+        })
+      }))
+    }
+  } as unknown as Env;
+}
+
+describe('ConflictCheckService', () => {
+  describe('name matching', () => {
+    it('normalizes order, punctuation, initials and entity suffixes', () => {
+      expect(normalizePartyName('Smith, John A.')).toBe(normalizePartyName('john smith'));
+      expect(normalizePartyName('Acme Holdings, LLC')).toBe('acme holdings');
+      expect(normalizePartyName('José Núñez')).toBe('jose nunez');
+    });
+
+    it('scores close spellings above the default threshold and different people below it', () => {
+      expect(partyNameSimilarity('Jon Smith', 'John Smith')).toBeGreaterThanOrEqual(0.85);
+      expect(partyNameSimilarity('Acme Corp', 'ACME Corporation')).toBe(1);
+      expect(partyNameSimilarity('John Smith', 'Jane Doe')).toBeLessThan(0.5);
+      expect(partyNameSimilarity('Al', 'Al')).toBe(0);
+    });
+
+    it('finds a party mentioned inside free text', () => {
+      expect(bestMentionSimilarity('Maria Lopez', 'My landlord Maria Lopes refuses to return the deposit')).toBeGreaterThanOrEqual(0.85);
+      expect(bestMentionSimilarity('Maria Lopez', 'My employer cut my hours')).toBeLessThan(0.85);
+    });
+  });
+
+  describe('check', () => {
+    it('flags a new opposing party who is an existing client', async () => {
+      const env = createEnv({
+        matters: [
+          { id: 'm-1', matter_number: 'MAT-2026-001', client_name: 'Robert Chen', opposing_party: 'Northwind LLC' },
+          { id: 'm-2', matter_number: 'MAT-2026-002', client_name: 'Dana Whitfield', opposing_party: null }
+        ]
+      });
+
+      const result = await new ConflictCheckService(env).check({
+        organizationId: 'org-1',
+        clientName: 'Dana Whitfield',
+        opposingParty: 'Chen, Robert'
+      });
+
+      expect(result.status).toBe('potential_conflict');
+      expect(result.hits[0]).toMatchObject({
+        source: 'matter',
+        recordId: 'm-1',
+        role: 'opposing_party',
+        matchedField: 'client_name',
+        severity: 'high'
+      });
+      expect(result.hits.find(hit => hit.recordId === 'm-2')).toMatchObject({ role: 'client', severity: 'low' });
+    });
+
+    it('treats a returning client as clear', async () => {
+      const env = createEnv({
+        matters: [{ id: 'm-2', matter_number: 'MAT-2026-002', client_name: 'Dana Whitfield', opposing_party: 'Acme Corp' }]
+      });
+
+      const result = await new ConflictCheckService(env).check({ organizationId: 'org-1', clientName: 'Dana Whitfield' });
+
+      expect(result.status).toBe('clear');
+      expect(result.hits).toHaveLength(1);
+    });
+
+    it('flags a new client named in a prospective client contact form', async () => {
+      const env = createEnv({
+        contactForms: [{
+          id: 'cf-1',
+          matter_details: 'My business partner Priya Raman took the client list when she left.',
+          notes: JSON.stringify({ name: 'Luis Ortega' })
+        }]
+      });
+
+      const result = await new ConflictCheckService(env).check(
+        { organizationId: 'org-1', clientName: 'Priya Raman', opposingParty: 'Luis Ortega' },
+        { similarityThreshold: 0.9 }
+      );
+
+      expect(result.status).toBe('potential_conflict');
+      expect(result.threshold).toBe(0.9);
+      expect(result.hits.map(hit => [hit.matchedField, hit.severity])).toEqual([
+        ['contact_name', 'high'],
+        ['matter_details', 'high']
+      ]);
+    });
+
+    it('reports skipped when the lookup fails', async () => {
+      const result = await new ConflictCheckService(createEnv({}, true)).check({ organizationId: 'org-1', clientName: 'Dana Whitfield' });
+      expect(result).toMatchObject({ status: 'skipped', hits: [] });
+    });
+
+    it('only blocks auto-acceptance when configured and conflicted', () => {
+      const conflicted = { status: 'potential_conflict' as const, checkedAt: '', threshold: 0.85, hits: [] };
+      expect(ConflictCheckService.shouldBlockAutoAcceptance({ blockAutoAcceptance: true }, conflicted)).toBe(true);
+      expect(ConflictCheckService.shouldBlockAutoAcceptance(undefined, conflicted)).toBe(false);
+      expect(ConflictCheckService.shouldBlockAutoAcceptance({ blockAutoAcceptance: true }, { ...conflicted, status: 'clear' })).toBe(false);
+      expect(ConflictCheckService.isEnabled(undefined)).toBe(true);
+      expect(ConflictCheckService.isEnabled({ enabled: false })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DeadlineService,
+  estimateDeadline,
+  extractIncidentDate,
+  resolveLimitationPeriod,
+  resolveState
+} from '../../../../worker/services/DeadlineService.js';
+import { organizationConfigSchema } from '../../../../worker/schemas/validation.js';
+import { generateCompleteMatterMessage } from '../../../../worker/utils/messageTemplates.js';
+import type { Organization } from '../../../../worker/services/OrganizationService.js';
+import type { Env } from '../../../../worker/types.js';
+
+vi.mock('../../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    initialize: vi.fn()
+  }
+}));
+
+const now = new Date('2026-10-18T15:00:00.000Z');
+
+const organization = {
+  id: 'org-1',
+  name: 'Piedmont Injury Law',
+  config: {
+    jurisdiction: { type: 'state', description: 'North Carolina', supportedStates: ['NC'], supportedCountries: ['US'] }
+  }
+} as unknown as Organization;
+
+function createEnv(options: { timeline?: string; messages?: string[] } = {}) {
+  const context = options.timeline !== undefined
+    ? JSON.stringify({ sessionId: 'session-1', organizationId: 'org-1', caseDraft: { timeline: options.timeline } })
+    : null;
+
+  return {
+    DB: {
+      prepare: vi.fn((sql: string) => ({
+        bind: () => ({
+          all: async () => ({
+            results: sql.includes('FROM chat_messages') ? (options.messages ?? []).map(content => ({ content })) : []
+          })
+        })
+      }))
+    },
+    CHAT_SESSIONS: {
+      get: async () => context,
+      put: async () => undefined
+    }
+  } as unknown as Env;
+}
+
+describe('DeadlineService', () => {
+  describe('extractIncidentDate', () => {
+    it('reads written, numeric and relative dates', () => {
+      expect(extractIncidentDate('The crash was on March 3rd, 2025 near Raleigh.', now)?.date).toBe('2025-03-03');
+      expect(extractIncidentDate('It happened 4/12/2024.', now)?.date).toBe('2024-04-12');
+      expect(extractIncidentDate('Since 2023-11-30 my back hurts.', now)?.date).toBe('2023-11-30');
+      expect(extractIncidentDate('I slipped two weeks ago.', now)?.date).toBe('2026-10-04');
+      expect(extractIncidentDate('I was hurt in July.', now)?.date).toBe('2026-07-01');
+      expect(extractIncidentDate('I was hurt in November.', now)?.date).toBe('2025-11-01');
+    });
+
+    it('ignores future dates and keeps the earliest past one', () => {
+      expect(extractIncidentDate('Accident on June 2, 2024; my hearing is January 5, 2027 and I saw a doctor in August 2024.', now))
+        .toEqual({ date: '2024-06-02', text: 'June 2, 2024' });
+      expect(extractIncidentDate('My court date is December 1, 2026.', now)).toBeNull();
+      expect(extractIncidentDate('Please help, it was bad.', now)).toBeNull();
+    });
+  });
+
+  describe('rules', () => {
+    it('uses the built-in table, preferring state periods over "*"', () => {
+      expect(resolveLimitationPeriod('personal injury', 'nc')).toMatchObject({ years: 3 });
+      expect(resolveLimitationPeriod('Employment Law', 'CA')).toMatchObject({ days: 300 });
+      expect(resolveLimitationPeriod('Employment Law', 'NC')).toMatchObject({ days: 180 });
+      expect(resolveLimitationPeriod('Family Law', 'NC')).toBeNull();
+    });
+
+    it('lets organization rules override and extend the defaults', () => {
+      const overrides = {
+        'Personal Injury': { NC: { years: 2, description: 'Firm policy' } },
+        'Property Law': { '*': { years: 10, description: 'Adverse possession' } }
+      };
+
+      expect(resolveLimitationPeriod('Personal Injury', 'NC', overrides)?.description).toBe('Firm policy');
+      expect(resolveLimitationPeriod('Personal Injury', 'TN', overrides)).toMatchObject({ years: 1 });
+      expect(resolveLimitationPeriod('Property Law', 'GA', overrides)).toMatchObject({ years: 10 });
+    });
+
+    it('resolves the state from codes, names and locations', () => {
+      expect(resolveState([undefined, 'Charlotte, NC'])).toBe('NC');
+      expect(resolveState(['somewhere', 'Tennessee'])).toBe('TN');
+      expect(resolveState(['', null])).toBeNull();
+    });
+  });
+
+  describe('estimateDeadline', () => {
+    it('adds the period to the incident date and grades how close it is', () => {
+      const base = { matterType: 'Personal Injury', state: 'NC', incidentSource: 'messages' as const, now };
+
+      expect(estimateDeadline({ ...base, incidentDate: '2025-03-03' })).toMatchObject({
+        deadline: '2028-03-03',
+        status: 'ok'
+      });
+      expect(estimateDeadline({ ...base, incidentDate: '2023-12-01' })).toMatchObject({
+        deadline: '2026-12-01',
+        daysRemaining: 44,
+        status: 'near'
+      });
+      expect(estimateDeadline({ ...base, incidentDate: '2023-10-30' })).toMatchObject({ daysRemaining: 12, status: 'urgent' });
+      expect(estimateDeadline({ ...base, incidentDate: '2023-01-05' })?.status).toBe('expired');
+      expect(estimateDeadline({ ...base, state: 'TN', incidentDate: '2024-02-29' })?.deadline).toBe('2025-02-28');
+      expect(estimateDeadline({ ...base, matterType: 'Family Law', incidentDate: '2025-03-03' })).toBeNull();
+    });
+
+    it('uses the organization warning window', () => {
+      expect(estimateDeadline({
+        matterType: 'Personal Injury',
+        state: 'NC',
+        incidentDate: '2023-12-01',
+        incidentSource: 'messages',
+        config: { warningDays: 30, urgentDays: 10 },
+        now
+      })?.status).toBe('ok');
+    });
+  });
+
+  describe('estimateForIntake', () => {
+    it('prefers the case draft timeline over the messages', async () => {
+      const env = createEnv({ timeline: 'Rear-ended on 11/20/2023', messages: ['It was back in 2020, March 1, 2020 actually'] });
+
+      const estimate = await new DeadlineService(env).estimateForIntake({
+        organization,
+        organizationId: 'org-1',
+        sessionId: 'session-1',
+        matterType: 'Personal Injury',
+        now
+      });
+
+      expect(estimate).toMatchObject({
+        state: 'NC',
+        incidentDate: '2023-11-20',
+        incidentSource: 'case_draft',
+        deadline: '2026-11-20',
+        status: 'near'
+      });
+    });
+
+    it('falls back to the client messages and the client location', async () => {
+      const env = createEnv({ messages: ['I got hurt at work', 'The fall was on May 4, 2026'] });
+
+      const estimate = await new DeadlineService(env).estimateForIntake({
+        organization,
+        organizationId: 'org-1',
+        sessionId: 'session-1',
+        matterType: 'Personal Injury',
+        location: 'Memphis, TN',
+        now
+      });
+
+      expect(estimate).toMatchObject({ state: 'TN', incidentSource: 'messages', deadline: '2027-05-04', status: 'ok' });
+    });
+
+    it('skips matters without a rule or when disabled', async () => {
+      const env = createEnv({ messages: ['Married on June 1, 2010'] });
+      const service = new DeadlineService(env);
+
+      expect(await service.estimateForIntake({ organization, organizationId: 'org-1', sessionId: 'session-1', matterType: 'Family Law', now })).toBeNull();
+      expect(await service.estimateForIntake({
+        organization: { ...organization, config: { ...organization.config, deadlines: { enabled: false } } },
+        organizationId: 'org-1',
+        sessionId: 'session-1',
+        matterType: 'Personal Injury',
+        description: 'Hit by a car on June 1, 2025',
+        now
+      })).toBeNull();
+    });
+  });
+
+  it('warns the client in the matter summary', () => {
+    const message = generateCompleteMatterMessage({
+      name: 'Dana Whitfield',
+      email: 'dana@example.com',
+      phone: 'Not provided',
+      location: 'Durham, NC',
+      matterType: 'Personal Injury',
+      description: 'Car accident',
+      urgency: 'unknown',
+      requiresPayment: false,
+      deadlineWarning: { deadline: '2026-12-01', daysRemaining: 44 }
+    });
+
+    expect(message).toContain('may be as soon as December 1, 2026 (about 44 days from now)');
+  });
+
+  it('validates organization deadline rules', () => {
+    const deadlines = organizationConfigSchema.shape.deadlines;
+
+    expect(deadlines.safeParse({ limitationRules: { 'Personal Injury': { NC: { years: 3, description: 'PI' } } } }).success).toBe(true);
+    expect(deadlines.safeParse({ limitationRules: { 'Personal Injury': { 'North Carolina': { years: 3, description: 'PI' } } } }).success).toBe(false);
+    expect(deadlines.safeParse({ limitationRules: { 'Personal Injury': { NC: { description: 'None' } } } }).success).toBe(false);
+    expect(deadlines.safeParse({ warningDays: 20, urgentDays: 30 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  ExperimentService,
+  pickExperimentArm,
+  type ExperimentArm,
+  type IntakeExperiment
+} from '../../../../worker/services/ExperimentService.js';
+import { experimentCreateSchema } from '../../../../worker/schemas/validation.js';
+import type { Env } from '../../../../worker/types.js';
+import { createTestD1, type TestD1 } from '../../../helpers/d1';
+
+vi.mock('../../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+const arms: ExperimentArm[] = [
+  { key: 'control', weight: 50 },
+  { key: 'concise', weight: 50, promptTemplateVersion: 4 }
+];
+
+const experiment: IntakeExperiment = {
+  id: 'exp-1',
+  organizationId: 'org-1',
+  name: 'Concise tone',
+  status: 'running',
+  arms,
+  createdBy: 'user-1',
+  startedAt: '2026-10-01T00:00:00.000Z',
+  stoppedAt: null
+};
+
+let d1: TestD1;
+
+beforeAll(async () => {
+  d1 = await createTestD1();
+});
+
+afterAll(async () => {
+  await d1?.dispose();
+});
+
+beforeEach(async () => {
+  await d1.reset();
+  await d1.db.prepare(`
+    INSERT INTO intake_experiments (id, organization_id, name, status, arms, created_by, started_at)
+    VALUES (?, 'org-1', ?, 'running', ?, 'user-1', ?)
+  `).bind(experiment.id, experiment.name, JSON.stringify(arms), experiment.startedAt).run();
+});
+
+function createEnv(): Env {
+  return { DB: d1.db } as unknown as Env;
+}
+
+async function insertSession(id: string, createdAt: string, assignment: { experimentId: string; arm: string } | null = null, organizationId = 'org-1'): Promise<void> {
+  await d1.db.prepare(`
+    INSERT INTO chat_sessions (id, organization_id, created_at, experiment_id, experiment_arm)
+    VALUES (?, ?, ?, ?, ?)
+  `).bind(id, organizationId, createdAt, assignment?.experimentId ?? null, assignment?.arm ?? null).run();
+}
+
+async function getSessionArm(id: string): Promise<string | null> {
+  const row = await d1.db.prepare('SELECT experiment_arm FROM chat_sessions WHERE id = ?').bind(id).first<{ experiment_arm: string | null }>();
+  return row?.experiment_arm ?? null;
+}
+
+describe('ExperimentService', () => {
+  describe('pickExperimentArm', () => {
+    it('assigns a session to the same arm every time', () => {
+      const first = pickExperimentArm('exp-1', 'session-42', arms);
+      expect(pickExperimentArm('exp-1', 'session-42', arms)).toBe(first);
+    });
+
+    it('splits sessions roughly by weight', () => {
+      const counts = { control: 0, concise: 0 };
+      for (let i = 0; i < 2000; i++) {
+        const arm = pickExperimentArm('exp-1', `session-${i}`, [{ key: 'control', weight: 80 }, { key: 'concise', weight: 20 }]);
+        counts[arm?.key as keyof typeof counts]++;
+      }
+      expect(counts.control / 2000).toBeGreaterThan(0.74);
+      expect(counts.control / 2000).toBeLessThan(0.86);
+    });
+
+    it('returns null when no arm has weight', () => {
+      expect(pickExperimentArm('exp-1', 'session-1', [{ key: 'a', weight: 0 }])).toBeNull();
+    });
+  });
+
+  describe('assignSession', () => {
+    it('records the arm on a session created during the experiment', async () => {
+      await insertSession('session-1', '2026-10-05T12:00:00.000Z');
+
+      const assignment = await new ExperimentService(createEnv()).assignSession('org-1', 'session-1');
+
+      expect(assignment?.experimentId).toBe('exp-1');
+      expect(await getSessionArm('session-1')).toBe(assignment?.arm.key);
+    });
+
+    it('reuses the recorded arm on later turns', async () => {
+      await insertSession('session-1', '2026-10-05T12:00:00.000Z', { experimentId: 'exp-1', arm: 'concise' });
+
+      const assignment = await new ExperimentService(createEnv()).assignSession('org-1', 'session-1');
+
+      expect(assignment?.arm).toEqual(arms[1]);
+      expect(await getSessionArm('session-1')).toBe('concise');
+    });
+
+    it('leaves sessions that started before the experiment unassigned', async () => {
+      await insertSession('session-1', '2026-09-30T12:00:00.000Z');
+
+      expect(await new ExperimentService(createEnv()).assignSession('org-1', 'session-1')).toBeNull();
+      expect(await getSessionArm('session-1')).toBeNull();
+    });
+
+    it('does not assign sessions of another organization', async () => {
+      await insertSession('session-1', '2026-10-05T12:00:00.000Z', null, 'org-2');
+
+      expect(await new ExperimentService(createEnv()).assignSession('org-1', 'session-1')).toBeNull();
+      expect(await getSessionArm('session-1')).toBeNull();
+    });
+  });
+
+  describe('getMetrics', () => {
+    it('reports outcomes and feedback per arm, including arms without sessions', async () => {
+      const control = { experimentId: 'exp-1', arm: 'control' };
+      for (const id of ['session-1', 'session-2', 'session-3', 'session-4']) {
+        await insertSession(id, '2026-10-05T12:00:00.000Z', control);
+      }
+      // Sessions outside the experiment are not counted
+      await insertSession('session-other', '2026-10-05T12:00:00.000Z', { experimentId: 'exp-0', arm: 'control' });
+
+      for (const sessionId of ['session-1', 'session-2']) {
+        await d1.db.prepare(`
+          INSERT INTO session_audit_events (id, session_id, event_type, actor_type, payload)
+          VALUES (?, ?, 'intake_state_transition', 'system', '{"to":"SHOWING_CONTACT_FORM"}')
+        `).bind(`event-${sessionId}`, sessionId).run();
+      }
+      await d1.db.prepare(`
+        INSERT INTO matters (id, organization_id, client_name, matter_type, title, custom_fields)
+        VALUES ('matter-1', 'org-1', 'Jane Smith', 'Family Law', 'Custody', '{"sessionId":"session-1"}')
+      `).run();
+      await d1.db.prepare(`
+        INSERT INTO payment_history (id, payment_id, organization_id, customer_email, amount, status, event_type, metadata)
+        VALUES ('payment-1', 'pay-1', 'org-1', 'jane@example.com', 5000, 'completed', 'payment.completed', '{"sessionId":"session-1"}')
+      `).run();
+      for (const id of ['message-1', 'message-2']) {
+        await d1.db.prepare(`
+          INSERT INTO chat_messages (id, session_id, organization_id, role, content) VALUES (?, 'session-1', 'org-1', 'user', 'Hello')
+        `).bind(id).run();
+      }
+      await d1.db.prepare(`
+        INSERT INTO ai_feedback (id, session_id, organization_id, rating, thumbs_up)
+        VALUES ('feedback-1', 'session-1', 'org-1', 4, 1), ('feedback-2', 'session-2', 'org-1', 5, 0)
+      `).run();
+
+      const metrics = await new ExperimentService(createEnv()).getMetrics(experiment);
+
+      expect(metrics[0]).toEqual({
+        arm: 'control',
+        sessions: 4,
+        contactFormShown: 2,
+        contactFormRate: 0.5,
+        mattersCreated: 1,
+        matterRate: 0.25,
+        invoicesPaid: 1,
+        paidRate: 0.25,
+        feedbackCount: 2,
+        averageRating: 4.5,
+        thumbsUp: 1,
+        thumbsDown: 1,
+        averageTurns: 0.5
+      });
+      expect(metrics[1]).toMatchObject({ arm: 'concise', sessions: 0, contactFormRate: 0, averageRating: null });
+    });
+  });
+
+  describe('experimentCreateSchema', () => {
+    it('requires two distinct arms', () => {
+      expect(experimentCreateSchema.safeParse({ name: 'Same', arms: [{ key: 'a' }, { key: 'b' }] }).success).toBe(false);
+      expect(experimentCreateSchema.safeParse({ name: 'Dup', arms: [{ key: 'a' }, { key: 'a', model: 'gpt-4o' }] }).success).toBe(false);
+      expect(experimentCreateSchema.safeParse({ name: 'One', arms: [{ key: 'a' }] }).success).toBe(false);
+
+      const parsed = experimentCreateSchema.parse({ name: 'Models', arms: [{ key: 'a' }, { key: 'b', model: 'gpt-4o' }] });
+      expect(parsed.arms[0].weight).toBe(50);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  KNOWLEDGE_LIMITS,
+  KnowledgeBaseService,
+  KnowledgeLimitError,
+  LocalEmbedder,
+  chunkText,
+  cosineSimilarity
+} from '../../../../worker/services/KnowledgeBaseService.js';
+import { buildCitationFooter, buildKnowledgeSection, collectCitations } from '../../../../worker/agents/legal-intake/knowledge.js';
+import type { Env } from '../../../../worker/types.js';
+import { createTestD1, type TestD1 } from '../../../helpers/d1';
+
+vi.mock('../../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+let d1: TestD1;
+
+beforeAll(async () => {
+  d1 = await createTestD1();
+});
+
+afterAll(async () => {
+  await d1?.dispose();
+});
+
+beforeEach(async () => {
+  await d1.reset();
+});
+
+function createEnv(): Env {
+  return { KNOWLEDGE_EMBEDDER: 'local', DB: d1.db } as unknown as Env;
+}
+
+async function listChunks(): Promise<Array<{ document_id: string; embedding_model: string }>> {
+  const rows = await d1.db.prepare('SELECT document_id, embedding_model FROM knowledge_chunks').all<{ document_id: string; embedding_model: string }>();
+  return rows.results ?? [];
+}
+
+const feesFaq = `Consultation fees
+
+Initial consultations cost $150 for 30 minutes and are credited toward your retainer if you hire us.
+
+Office hours
+
+Our office is open Monday through Friday, 8:30am to 5:30pm. We are closed on federal holidays.`;
+
+const documentsFaq = `What to bring to your consultation
+
+Please bring photo identification, any court papers you have received, and a list of questions for the attorney.`;
+
+describe('KnowledgeBaseService', () => {
+  it('chunks along paragraph boundaries with overlap', () => {
+    const paragraph = 'Sentence about the retainer agreement and billing. '.repeat(8).trim();
+    const chunks = chunkText([paragraph, paragraph, paragraph].join('\n\n'), 500, 80);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.length <= 500)).toBe(true);
+    expect(chunks[1].startsWith(paragraph)).toBe(false);
+    expect(chunks[1]).toContain(paragraph);
+    expect(chunkText('  \n\n  ')).toEqual([]);
+  });
+
+  it('embeds related wording closer than unrelated text', async () => {
+    const [query, fees, hours] = await new LocalEmbedder().embed([
+      'How much are your fees for a consultation?',
+      'Initial consultations cost $150; the fee is credited toward the retainer.',
+      'The office is closed on federal holidays.'
+    ]);
+
+    expect(cosineSimilarity(query, fees)).toBeGreaterThan(cosineSimilarity(query, hours));
+    expect(cosineSimilarity([], [])).toBe(0);
+  });
+
+  it('retrieves the most relevant passages from the organization\'s documents', async () => {
+    const service = new KnowledgeBaseService(createEnv());
+
+    const document = await service.addDocument({ organizationId: 'org-1', title: 'Fees and hours', content: feesFaq, sourceType: 'faq' });
+    await service.addDocument({ organizationId: 'org-1', title: 'Consultation checklist', content: documentsFaq, sourceType: 'faq' });
+
+    expect(document.chunkCount).toBe(1);
+    expect((await listChunks()).map(chunk => chunk.embedding_model)).toEqual(['local-hash-256', 'local-hash-256']);
+
+    const passages = await service.search('org-1', 'What documents should I bring to the consultation?');
+    expect(passages[0]).toMatchObject({ title: 'Consultation checklist' });
+
+    expect(await service.search('org-1', 'Do you handle patent litigation?')).toEqual([]);
+  });
+
+  it('never returns another organization\'s content', async () => {
+    const service = new KnowledgeBaseService(createEnv());
+
+    await service.addDocument({ organizationId: 'org-2', title: 'Other firm fees', content: feesFaq, sourceType: 'faq' });
+
+    expect(await service.search('org-1', 'How much does a consultation cost?')).toEqual([]);
+    expect(await service.search('org-2', 'How much does a consultation cost?')).toHaveLength(1);
+  });
+
+  it('deletes a document together with its chunks', async () => {
+    const service = new KnowledgeBaseService(createEnv());
+
+    const document = await service.addDocument({ organizationId: 'org-1', title: 'Fees and hours', content: feesFaq, sourceType: 'faq' });
+
+    expect(await service.deleteDocument('org-2', document.id)).toBe(false);
+    expect(await listChunks()).toHaveLength(1);
+    expect(await service.deleteDocument('org-1', document.id)).toBe(true);
+    expect(await listChunks()).toHaveLength(0);
+    expect(await service.listDocuments('org-1')).toEqual([]);
+  });
+
+  it('rejects documents that are too large', async () => {
+    const service = new KnowledgeBaseService(createEnv());
+    const longParagraphs = Array.from({ length: KNOWLEDGE_LIMITS.documentChunks + 1 }, (_, index) => `Question ${index}. ${'Answer text. '.repeat(45)}`);
+
+    const oversized = service.addDocument({
+      organizationId: 'org-1',
+      title: 'Huge upload',
+      content: 'a'.repeat(KNOWLEDGE_LIMITS.documentChars + 1),
+      sourceType: 'document'
+    });
+    await expect(oversized).rejects.toBeInstanceOf(KnowledgeLimitError);
+    await expect(oversized).rejects.toMatchObject({ limit: 'documentChars' });
+    await expect(service.addDocument({
+      organizationId: 'org-1',
+      title: 'Many passages',
+      content: longParagraphs.join('\n\n'),
+      sourceType: 'document'
+    })).rejects.toMatchObject({ limit: 'documentChunks' });
+
+    expect(await service.listDocuments('org-1')).toEqual([]);
+    expect(await listChunks()).toEqual([]);
+  });
+
+  it('enforces the organization document and passage quotas', async () => {
+    const service = new KnowledgeBaseService(createEnv());
+    await d1.db.prepare(`
+      INSERT INTO knowledge_documents (id, organization_id, title, content, chunk_count) VALUES ('doc-big', 'org-1', 'Manual', 'Text', ?)
+    `).bind(KNOWLEDGE_LIMITS.organizationChunks).run();
+
+    await expect(service.addDocument({ organizationId: 'org-1', title: 'Fees', content: feesFaq, sourceType: 'faq' }))
+      .rejects.toMatchObject({ limit: 'organizationChunks' });
+    expect(await service.addDocument({ organizationId: 'org-2', title: 'Fees', content: feesFaq, sourceType: 'faq' }))
+      .toMatchObject({ chunkCount: 1 });
+
+    await d1.db.prepare(`
+      WITH RECURSIVE seq(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM seq WHERE n < ?)
+      INSERT INTO knowledge_documents (id, organization_id, title, content) SELECT 'doc-' || n, 'org-2', 'FAQ', 'Text' FROM seq
+    `).bind(KNOWLEDGE_LIMITS.organizationDocuments - 1).run();
+
+    await expect(service.addDocument({ organizationId: 'org-2', title: 'Checklist', content: documentsFaq, sourceType: 'faq' }))
+      .rejects.toMatchObject({ limit: 'organizationDocuments' });
+    expect(await service.getUsage('org-2')).toEqual({ documents: KNOWLEDGE_LIMITS.organizationDocuments, chunks: 1 });
+  });
+
+  it('grounds the prompt in retrieved passages and lists cited sources', () => {
+    const passages = [
+      { chunkId: 'c1', documentId: 'd1', title: 'Fees and hours', content: 'Initial consultations cost $150.', score: 0.8 },
+      { chunkId: 'c2', documentId: 'd2', title: 'Consultation checklist', content: 'Bring photo ID.', score: 0.5 }
+    ];
+
+    const section = buildKnowledgeSection(passages);
+    expect(section).toContain('[1] Fees and hours\nInitial consultations cost $150.');
+    expect(section).toContain('[2] Consultation checklist');
+    expect(buildKnowledgeSection([])).toBe('');
+
+    const citations = collectCitations('A consultation is $150 [1]. See [1] and [7].', passages);
+    expect(citations).toEqual([{ index: 1, documentId: 'd1', title: 'Fees and hours' }]);
+    expect(buildCitationFooter(citations)).toBe('\n\nSources:\n[1] Fees and hours');
+    expect(buildCitationFooter([])).toBe('');
+  });
+});
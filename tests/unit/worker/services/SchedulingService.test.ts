@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  SchedulingService,
+  buildSlotId,
+  generateOpenSlots,
+  isSchedulingRequest,
+  isSlotConfirmation,
+  parseSlotId,
+  resolveSlotChoice,
+  zonedTimeToUtc,
+  type LawyerAvailability
+} from '../../../../worker/services/SchedulingService.js';
+import { buildIcsEvent } from '../../../../worker/utils/ics.js';
+import { lawyerAvailabilitySchema } from '../../../../worker/schemas/validation.js';
+import type { Env } from '../../../../worker/types.js';
+import { createTestD1, type TestD1 } from '../../../helpers/d1';
+
+// Sunday, Oct 18 2026, 11:00 in New York
+const now = new Date('2026-10-18T15:00:00.000Z');
+
+const availability: LawyerAvailability = {
+  lawyerId: 'lawyer-1',
+  organizationId: 'org-1',
+  timezone: 'America/New_York',
+  workingHours: {
+    mon: [{ start: '09:00', end: '10:30' }],
+    tue: [{ start: '14:00', end: '15:00' }]
+  },
+  blackoutDates: [],
+  slotMinutes: 30,
+  minNoticeHours: 12
+};
+
+let d1: TestD1;
+
+beforeAll(async () => {
+  d1 = await createTestD1();
+});
+
+afterAll(async () => {
+  await d1?.dispose();
+});
+
+/**
+ * Runs `beforeMeetingInsert` right before the service writes a meeting, to
+ * land a competing booking between its open-slot check and its insert.
+ */
+function createEnv(beforeMeetingInsert?: () => Promise<void>): Env {
+  const db = d1.db;
+  if (!beforeMeetingInsert) {
+    return { DB: db } as unknown as Env;
+  }
+
+  return {
+    DB: {
+      prepare: (sql: string) => {
+        const statement = db.prepare(sql);
+        if (!sql.includes('INSERT INTO matter_events')) {
+          return statement;
+        }
+        return {
+          bind: (...values: unknown[]) => ({
+            run: async () => {
+              await beforeMeetingInsert();
+              return statement.bind(...values).run();
+            }
+          })
+        };
+      }
+    }
+  } as unknown as Env;
+}
+
+async function insertMeeting(id: string, start: string, endsAt: string | null): Promise<void> {
+  await d1.db.prepare(`
+    INSERT INTO matter_events (id, matter_id, event_type, title, event_date, created_by_lawyer_id, metadata)
+    VALUES (?, 'matter-0', 'meeting', 'Existing meeting', ?, 'lawyer-1', ?)
+  `).bind(id, start, JSON.stringify(endsAt ? { endsAt } : {})).run();
+}
+
+async function listMeetings(): Promise<Array<{ id: string; matter_id: string; event_date: string; created_by_lawyer_id: string; metadata: string }>> {
+  const rows = await d1.db.prepare(`
+    SELECT id, matter_id, event_date, created_by_lawyer_id, metadata
+    FROM matter_events WHERE event_type = 'meeting' ORDER BY event_date
+  `).all<{ id: string; matter_id: string; event_date: string; created_by_lawyer_id: string; metadata: string }>();
+  return rows.results ?? [];
+}
+
+describe('SchedulingService', () => {
+  beforeEach(async () => {
+    await d1.reset();
+    await d1.db.prepare(`
+      INSERT INTO lawyers (id, organization_id, name, email, specialties)
+      VALUES ('lawyer-1', 'org-1', 'Jordan Blake', 'jordan@example.com', '["Family Law"]')
+    `).run();
+    await d1.db.prepare(`
+      INSERT INTO lawyer_availability (lawyer_id, organization_id, timezone, working_hours, blackout_dates, slot_minutes, min_notice_hours)
+      VALUES ('lawyer-1', 'org-1', ?, ?, '[]', 30, ?)
+    `).bind(availability.timezone, JSON.stringify(availability.workingHours), availability.minNoticeHours).run();
+  });
+
+  it('converts local working hours to UTC across daylight saving changes', () => {
+    expect(new Date(zonedTimeToUtc('2026-10-19', '09:00', 'America/New_York')).toISOString()).toBe('2026-10-19T13:00:00.000Z');
+    expect(new Date(zonedTimeToUtc('2026-11-02', '09:00', 'America/New_York')).toISOString()).toBe('2026-11-02T14:00:00.000Z');
+    expect(new Date(zonedTimeToUtc('2026-10-19', '09:00', 'America/Los_Angeles')).toISOString()).toBe('2026-10-19T16:00:00.000Z');
+  });
+
+  it('offers slots inside working hours after the notice period, skipping blackouts and meetings', () => {
+    const slots = generateOpenSlots(availability, [], { now, days: 3 });
+    expect(slots.map(slot => slot.start)).toEqual([
+      '2026-10-19T13:00:00.000Z',
+      '2026-10-19T13:30:00.000Z',
+      '2026-10-19T14:00:00.000Z',
+      '2026-10-20T18:00:00.000Z',
+      '2026-10-20T18:30:00.000Z'
+    ]);
+
+    const busy = [{ start: '2026-10-19T13:15:00.000Z', end: '2026-10-19T13:45:00.000Z' }];
+    expect(generateOpenSlots({ ...availability, blackoutDates: ['2026-10-20'] }, busy, { now, days: 3 }).map(slot => slot.start))
+      .toEqual(['2026-10-19T14:00:00.000Z']);
+    expect(generateOpenSlots({ ...availability, minNoticeHours: 24 }, busy, { now, days: 3 }).map(slot => slot.start))
+      .toEqual(['2026-10-20T18:00:00.000Z', '2026-10-20T18:30:00.000Z']);
+  });
+
+  it('round-trips slot IDs', () => {
+    const slotId = buildSlotId('org-1|lawyer', '2026-10-19T15:00:00.000Z');
+    expect(parseSlotId(slotId)).toEqual({ lawyerId: 'org-1|lawyer', start: '2026-10-19T15:00:00.000Z' });
+    expect(parseSlotId('no-separator')).toBeNull();
+    expect(parseSlotId('lawyer-1|tomorrow')).toBeNull();
+  });
+
+  it('recognizes scheduling requests and slot picks', () => {
+    expect(isSchedulingRequest('When can I talk to someone?')).toBe(true);
+    expect(isSchedulingRequest('Can I book a consultation for next week?')).toBe(true);
+    expect(isSchedulingRequest('Thanks, that is all')).toBe(false);
+
+    const offered = ['lawyer-1|2026-10-19T13:00:00.000Z', 'lawyer-1|2026-10-19T13:30:00.000Z'];
+    expect(resolveSlotChoice('2', offered)).toBe(offered[1]);
+    expect(resolveSlotChoice('Option 1 please', offered)).toBe(offered[0]);
+    expect(resolveSlotChoice('The second one works', offered)).toBe(offered[1]);
+    expect(resolveSlotChoice('3', offered)).toBeNull();
+    expect(resolveSlotChoice('I have 2 kids', [])).toBeNull();
+  });
+
+  it('only takes a slot pick that is the whole message', () => {
+    const offered = ['lawyer-1|2026-10-19T13:00:00.000Z', 'lawyer-1|2026-10-19T13:30:00.000Z'];
+    expect(resolveSlotChoice('#1.', offered)).toBe(offered[0]);
+    expect(resolveSlotChoice("I'll take the first one", offered)).toBe(offered[0]);
+    expect(resolveSlotChoice('I have 2 kids', offered)).toBeNull();
+    expect(resolveSlotChoice('2 of my coworkers were fired too', offered)).toBeNull();
+    expect(resolveSlotChoice('My first concern is custody', offered)).toBeNull();
+
+    expect(isSlotConfirmation('Yes, please!')).toBe(true);
+    expect(isSlotConfirmation('that works')).toBe(true);
+    expect(isSlotConfirmation('yes but can we do later?')).toBe(false);
+  });
+
+  it('builds RFC 5545 invites with escaped, folded lines', () => {
+    const ics = buildIcsEvent({
+      uid: 'abc@blawby.com',
+      start: '2026-10-19T15:00:00.000Z',
+      end: '2026-10-19T15:30:00.000Z',
+      summary: 'Consultation: Smith, Jane; custody',
+      description: 'A long description that certainly needs to be folded because it runs past seventy-five octets.',
+      organizer: { name: 'Jordan Blake', email: 'jordan@example.com' },
+      attendees: [{ name: 'Jane Smith', email: 'jane@example.com' }],
+      createdAt: '2026-10-18T15:00:00.000Z'
+    });
+
+    expect(ics).toContain('DTSTART:20261019T150000Z\r\n');
+    expect(ics).toContain('SUMMARY:Consultation: Smith\\, Jane\\; custody\r\n');
+    expect(ics).toContain('ATTENDEE;CN="Jane Smith"');
+    expect(ics.split('\r\n').every(line => line.length <= 75)).toBe(true);
+    expect(ics).toContain('\r\n  runs past seventy-five');
+  });
+
+  it('books an open slot as a meeting on the matter', async () => {
+    const service = new SchedulingService(createEnv());
+    const slots = await service.findOpenSlots('org-1', { matterType: 'family law', now, days: 2 });
+
+    const booking = await service.bookConsultation({
+      organizationId: 'org-1',
+      matterId: 'matter-1',
+      slotId: slots[0].slotId,
+      client: { name: 'Jane Smith', email: 'jane@example.com' },
+      matterType: 'Family Law',
+      now
+    });
+
+    expect(booking?.slot).toMatchObject({ lawyerName: 'Jordan Blake', start: '2026-10-19T13:00:00.000Z' });
+    const [meeting] = await listMeetings();
+    expect(meeting).toMatchObject({ id: booking?.eventId, matter_id: 'matter-1', event_date: '2026-10-19T13:00:00.000Z', created_by_lawyer_id: 'lawyer-1' });
+    expect(JSON.parse(meeting.metadata)).toMatchObject({ matterId: 'matter-1', endsAt: '2026-10-19T13:30:00.000Z' });
+    expect(booking?.clientIcs).toContain('mailto:jane@example.com');
+    expect(booking?.lawyerIcs).toContain('Matter ID: matter-1');
+
+    // The booked time is busy for later searches
+    const remaining = await service.findOpenSlots('org-1', { now, days: 2 });
+    expect(remaining.map(slot => slot.start)).not.toContain('2026-10-19T13:00:00.000Z');
+  });
+
+  it('refuses slots that were taken in the meantime', async () => {
+    await insertMeeting('meeting-0', '2026-10-19T13:00:00.000Z', '2026-10-19T13:30:00.000Z');
+    const service = new SchedulingService(createEnv());
+
+    const booking = await service.bookConsultation({
+      organizationId: 'org-1',
+      matterId: 'matter-1',
+      slotId: buildSlotId('lawyer-1', '2026-10-19T13:00:00.000Z'),
+      client: { name: 'Jane Smith' },
+      now
+    });
+
+    expect(booking).toBeNull();
+    expect((await listMeetings()).map(meeting => meeting.id)).toEqual(['meeting-0']);
+  });
+
+  it('rejects a double booking of the same slot', async () => {
+    const slotId = buildSlotId('lawyer-1', '2026-10-19T13:00:00.000Z');
+    const book = (matterId: string) => new SchedulingService(createEnv()).bookConsultation({
+      organizationId: 'org-1',
+      matterId,
+      slotId,
+      client: { name: 'Jane Smith' },
+      now
+    });
+
+    const bookings = await Promise.all([book('matter-1'), book('matter-2')]);
+
+    expect(bookings.filter(Boolean)).toHaveLength(1);
+    expect(await listMeetings()).toHaveLength(1);
+  });
+
+  it('refuses a slot another booking took between the check and the insert', async () => {
+    const service = new SchedulingService(createEnv(() =>
+      insertMeeting('meeting-race', '2026-10-19T13:15:00.000Z', '2026-10-19T13:45:00.000Z')
+    ));
+
+    const booking = await service.bookConsultation({
+      organizationId: 'org-1',
+      matterId: 'matter-1',
+      slotId: buildSlotId('lawyer-1', '2026-10-19T13:00:00.000Z'),
+      client: { name: 'Jane Smith' },
+      now
+    });
+
+    expect(booking).toBeNull();
+    expect((await listMeetings()).map(meeting => meeting.id)).toEqual(['meeting-race']);
+  });
+
+  it('looks up an offered slot only while it is still open', async () => {
+    const slotId = buildSlotId('lawyer-1', '2026-10-19T13:00:00.000Z');
+    const service = new SchedulingService(createEnv());
+    expect(await service.findSlot('org-1', slotId, now))
+      .toMatchObject({ slotId, lawyerName: 'Jordan Blake', end: '2026-10-19T13:30:00.000Z' });
+
+    // Meetings logged without an end time block an hour
+    await insertMeeting('meeting-0', '2026-10-19T12:45:00.000Z', null);
+    expect(await service.findSlot('org-1', slotId, now)).toBeNull();
+  });
+
+  it('validates availability settings', () => {
+    expect(lawyerAvailabilitySchema.safeParse({ timezone: 'America/Chicago', workingHours: { mon: [{ start: '09:00', end: '17:00' }] } }).success).toBe(true);
+    expect(lawyerAvailabilitySchema.safeParse({ timezone: 'Mars/Olympus', workingHours: {} }).success).toBe(false);
+    expect(lawyerAvailabilitySchema.safeParse({ timezone: 'UTC', workingHours: { mon: [{ start: '17:00', end: '09:00' }] } }).success).toBe(false);
+    expect(lawyerAvailabilitySchema.safeParse({ timezone: 'UTC', workingHours: { monday: [] } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { SessionTakeoverService } from '../../../../worker/services/SessionTakeoverService.js';
+import type { Env } from '../../../../worker/types.js';
+import { createTestD1, type TestD1 } from '../../../helpers/d1';
+
+const { createEvent } = vi.hoisted(() => ({
+  createEvent: vi.fn()
+}));
+
+vi.mock('../../../../worker/services/ActivityService.js', () => ({
+  ActivityService: vi.fn(() => ({ createEvent }))
+}));
+
+vi.mock('../../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+let d1: TestD1;
+
+function createEnv(): Env {
+  return { DB: d1.db } as unknown as Env;
+}
+
+async function insertMessage(id: string, role: string, content: string, metadata: string | null, createdAt: string): Promise<void> {
+  await d1.db.prepare(`
+    INSERT INTO chat_messages (id, session_id, organization_id, role, content, metadata, created_at)
+    VALUES (?, 'session-1', 'org-1', ?, ?, ?, ?)
+  `).bind(id, role, content, metadata, createdAt).run();
+}
+
+async function listStoredMessages(): Promise<Array<{ id: string; role: string; content: string; metadata: string | null }>> {
+  const rows = await d1.db.prepare(`
+    SELECT id, role, content, metadata FROM chat_messages WHERE session_id = 'session-1' ORDER BY created_at ASC, rowid ASC
+  `).all<{ id: string; role: string; content: string; metadata: string | null }>();
+  return rows.results ?? [];
+}
+
+async function getTakeoverColumns() {
+  return d1.db.prepare(`
+    SELECT takeover_user_id, takeover_user_name, takeover_started_at FROM chat_sessions WHERE id = 'session-1'
+  `).first<{ takeover_user_id: string | null; takeover_user_name: string | null; takeover_started_at: string | null }>();
+}
+
+const lawyer = { id: 'user-1', name: 'Alex Rivera' };
+const paralegal = { id: 'user-2', name: 'Sam Lee' };
+
+describe('SessionTakeoverService', () => {
+  beforeAll(async () => {
+    d1 = await createTestD1();
+  });
+
+  afterAll(async () => {
+    await d1?.dispose();
+  });
+
+  beforeEach(async () => {
+    createEvent.mockReset();
+    await d1.reset();
+    await d1.db.prepare(`INSERT INTO chat_sessions (id, organization_id) VALUES ('session-1', 'org-1')`).run();
+  });
+
+  it('starts a takeover with a visible marker for the client', async () => {
+    const service = new SessionTakeoverService(createEnv());
+
+    const takeover = await service.start('org-1', 'session-1', lawyer);
+
+    expect(takeover).toMatchObject({ userId: 'user-1', staffName: 'Alex Rivera' });
+    expect(await service.getActive('org-1', 'session-1')).toMatchObject({ userId: 'user-1' });
+    expect(await service.getActive('org-2', 'session-1')).toBeNull();
+    expect(await getTakeoverColumns()).toMatchObject({ takeover_user_id: 'user-1', takeover_user_name: 'Alex Rivera' });
+
+    const stored = await listStoredMessages();
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ role: 'system', content: "You're now chatting with Alex Rivera." });
+    expect(JSON.parse(stored[0].metadata ?? '{}')).toMatchObject({ type: 'takeover_started' });
+    expect(createEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'takeover_started', actorId: 'user-1' }), 'org-1');
+  });
+
+  it('keeps the first staff member when someone else tries to take over', async () => {
+    const service = new SessionTakeoverService(createEnv());
+
+    await service.start('org-1', 'session-1', lawyer);
+    const second = await service.start('org-1', 'session-1', paralegal);
+
+    expect(second?.userId).toBe('user-1');
+    expect(await getTakeoverColumns()).toMatchObject({ takeover_user_id: 'user-1' });
+    expect(await listStoredMessages()).toHaveLength(1);
+  });
+
+  it('does not take over a session belonging to another organization', async () => {
+    const service = new SessionTakeoverService(createEnv());
+
+    expect(await service.start('org-2', 'session-1', lawyer)).toBeNull();
+    expect(await getTakeoverColumns()).toMatchObject({ takeover_user_id: null });
+    expect(await listStoredMessages()).toHaveLength(0);
+  });
+
+  it('only stores messages from the staff member holding the session', async () => {
+    const service = new SessionTakeoverService(createEnv());
+
+    expect(await service.sendMessage('org-1', 'session-1', lawyer, 'Hello')).toBeNull();
+
+    await service.start('org-1', 'session-1', lawyer);
+    expect(await service.sendMessage('org-1', 'session-1', paralegal, 'Hi')).toBeNull();
+
+    const message = await service.sendMessage('org-1', 'session-1', lawyer, 'I can help with that.');
+    expect(message).toMatchObject({ role: 'assistant', metadata: { type: 'staff_message', staffName: 'Alex Rivera' } });
+
+    const stored = await listStoredMessages();
+    expect(stored.map(row => row.content)).toEqual(["You're now chatting with Alex Rivera.", 'I can help with that.']);
+    expect(stored[1]).toMatchObject({ id: message?.id, role: 'assistant' });
+  });
+
+  it('hands the session back to the AI', async () => {
+    const service = new SessionTakeoverService(createEnv());
+
+    expect(await service.end('org-1', 'session-1', lawyer)).toBe(false);
+
+    await service.start('org-1', 'session-1', lawyer);
+    expect(await service.end('org-1', 'session-1', lawyer)).toBe(true);
+
+    expect(await getTakeoverColumns()).toEqual({ takeover_user_id: null, takeover_user_name: null, takeover_started_at: null });
+    const stored = await listStoredMessages();
+    expect(stored[stored.length - 1]).toMatchObject({
+      role: 'system',
+      content: 'Alex Rivera handed the conversation back to the AI assistant.'
+    });
+    expect(JSON.parse(stored[stored.length - 1].metadata ?? '{}')).toMatchObject({ type: 'takeover_ended' });
+  });
+
+  it('relays only takeover messages to the client stream', async () => {
+    await insertMessage('m1', 'assistant', 'AI reply', null, '2026-10-18T10:00:01.000Z');
+    await insertMessage('m2', 'system', "You're now chatting with Alex Rivera.", '{"type":"takeover_started","staffName":"Alex Rivera"}', '2026-10-18T10:00:02.000Z');
+    await insertMessage('m3', 'assistant', 'Hi, this is Alex.', '{"type":"staff_message","staffName":"Alex Rivera"}', '2026-10-18T10:00:03.000Z');
+    const service = new SessionTakeoverService(createEnv());
+
+    const events = await service.getClientEventsSince('org-1', 'session-1', '2026-10-18T10:00:00.000Z');
+    expect(events.map(event => event.id)).toEqual(['m2', 'm3']);
+
+    const transcript = await service.listMessages('org-1', 'session-1', '2026-10-18T10:00:02.000Z');
+    expect(transcript.map(message => message.id)).toEqual(['m3']);
+    expect(await service.listMessages('org-2', 'session-1')).toEqual([]);
+    expect(await service.getClientEventsSince('org-2', 'session-1', '2026-10-18T10:00:00.000Z')).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { ToolAuditService, evaluateToolUsage } from '../../../../worker/services/ToolAuditService.js';
+import type { Env } from '../../../../worker/types.js';
+import { createTestD1, type TestD1 } from '../../../helpers/d1';
+
+const { warn } = vi.hoisted(() => ({ warn: vi.fn() }));
+
+vi.mock('../../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn,
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+let d1: TestD1;
+
+beforeAll(async () => {
+  d1 = await createTestD1();
+});
+
+afterAll(async () => {
+  await d1?.dispose();
+});
+
+beforeEach(async () => {
+  await d1.reset();
+});
+
+function createEnv(): Env {
+  return { DB: d1.db } as unknown as Env;
+}
+
+async function insertAuditRow(id: string, createdAt: string, overrides: Record<string, unknown> = {}): Promise<void> {
+  const row = {
+    organization_id: 'org-1',
+    tool_name: 'create_matter',
+    outcome: 'success',
+    ...overrides
+  };
+  await d1.db.prepare(`
+    INSERT INTO tool_call_audit (id, organization_id, tool_name, arguments, outcome, created_at)
+    VALUES (?, ?, ?, '{}', ?, ?)
+  `).bind(id, row.organization_id, row.tool_name, row.outcome, createdAt).run();
+}
+
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+
+describe('ToolAuditService', () => {
+  it('persists invocations with sensitive arguments redacted', async () => {
+    const service = new ToolAuditService(createEnv());
+
+    await service.record({
+      organizationId: 'org-1',
+      sessionId: 'session-1',
+      correlationId: 'corr-1',
+      toolName: 'create_matter',
+      arguments: { matter_type: 'Family Law', api_key: 'sk-live-123', nested: { password: 'hunter2' } },
+      outcome: 'success',
+      latencyMs: 41.6,
+      model: '@cf/openai/gpt-oss-20b'
+    });
+
+    const [entry] = await service.list('org-1');
+    expect(entry).toMatchObject({
+      sessionId: 'session-1',
+      toolName: 'create_matter',
+      outcome: 'success',
+      errorMessage: null,
+      latencyMs: 42,
+      model: '@cf/openai/gpt-oss-20b'
+    });
+    const storedArguments = JSON.stringify(entry.arguments);
+    expect(storedArguments).toContain('Family Law');
+    expect(storedArguments).not.toContain('sk-live-123');
+    expect(storedArguments).not.toContain('hunter2');
+  });
+
+  it('never throws when the audit write fails', async () => {
+    const env = { DB: { prepare: () => { throw new Error('D1 unavailable'); } } } as unknown as Env;
+    warn.mockClear();
+
+    await expect(new ToolAuditService(env).record({ toolName: 'show_contact_form', outcome: 'error' })).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalledWith('Failed to record tool call audit entry', expect.objectContaining({ error: 'D1 unavailable' }));
+  });
+
+  it('scopes queries to the organization and applies filters', async () => {
+    await insertAuditRow('audit-1', '2026-10-18T10:00:00.000Z');
+    await insertAuditRow('audit-2', '2026-10-18T10:30:00.000Z', { organization_id: 'org-2' });
+    await insertAuditRow('audit-3', '2026-10-18T10:45:00.000Z', { outcome: 'failure' });
+    await insertAuditRow('audit-4', '2026-10-18T10:50:00.000Z', { tool_name: 'show_contact_form' });
+    await insertAuditRow('audit-5', '2026-10-18T11:30:00.000Z');
+
+    const entries = await new ToolAuditService(createEnv()).list('org-1', {
+      toolName: 'create_matter',
+      outcome: 'success',
+      before: '2026-10-18T11:00:00.000Z',
+      limit: 500
+    });
+
+    expect(entries.map(entry => entry.id)).toEqual(['audit-1']);
+  });
+
+  it('pages through entries sharing a timestamp without duplicates or gaps', async () => {
+    const ids = ['audit-1', 'audit-2', 'audit-3', 'audit-4', 'audit-5'];
+    for (const id of ids) {
+      await insertAuditRow(id, '2026-10-18T11:00:00.000Z');
+    }
+    await insertAuditRow('audit-0', '2026-10-18T10:00:00.000Z');
+
+    const service = new ToolAuditService(createEnv());
+    const seen: string[] = [];
+    let cursor: { before?: string; beforeId?: string } = {};
+    for (let page = 0; page < 10; page++) {
+      const entries = await service.list('org-1', { ...cursor, limit: 2 });
+      seen.push(...entries.map(entry => entry.id));
+      if (entries.length < 2) break;
+      const last = entries[entries.length - 1];
+      cursor = { before: last.createdAt, beforeId: last.id };
+    }
+
+    expect(seen).toEqual(['audit-5', 'audit-4', 'audit-3', 'audit-2', 'audit-1', 'audit-0']);
+  });
+
+  describe('evaluateToolUsage', () => {
+    it('flags critical tools that were never used or have gone stale', () => {
+      const alerts = evaluateToolUsage([], new Map([['create_matter', '2026-10-16T12:00:00.000Z']]), NOW);
+
+      expect(alerts).toEqual([
+        { toolName: 'show_contact_form', issue: 'never_used', lastUsedAt: null },
+        { toolName: 'create_matter', issue: 'stale', lastUsedAt: '2026-10-16T12:00:00.000Z', hoursSinceLastUse: 48 }
+      ]);
+    });
+
+    it('flags high error rates only once enough calls were made', () => {
+      const lastUsed = new Map([
+        ['show_contact_form', '2026-10-18T11:00:00.000Z'],
+        ['create_matter', '2026-10-18T11:30:00.000Z']
+      ]);
+
+      const alerts = evaluateToolUsage([
+        { toolName: 'show_contact_form', calls: 5, errors: 5, lastUsedAt: '2026-10-18T11:00:00.000Z' },
+        { toolName: 'create_matter', calls: 12, errors: 7, lastUsedAt: '2026-10-18T11:30:00.000Z' }
+      ], lastUsed, NOW);
+
+      expect(alerts).toEqual([
+        expect.objectContaining({ toolName: 'create_matter', issue: 'high_error_rate', calls: 12, errors: 7 })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  TIER_QUOTAS,
+  UsageService,
+  findExceededLimit,
+  monthStart,
+  resolveSubscriptionTier
+} from '../../../../worker/services/UsageService.js';
+import type { Env } from '../../../../worker/types.js';
+import { createTestD1, type TestD1 } from '../../../helpers/d1';
+
+vi.mock('../../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+let d1: TestD1;
+
+beforeAll(async () => {
+  d1 = await createTestD1();
+});
+
+afterAll(async () => {
+  await d1?.dispose();
+});
+
+beforeEach(async () => {
+  await d1.reset();
+});
+
+function createEnv(): Env {
+  return { DB: d1.db } as unknown as Env;
+}
+
+const NOW = new Date('2026-10-18T15:30:00.000Z');
+
+describe('UsageService', () => {
+  it('rolls turns up into daily usage and counts each conversation once a month', async () => {
+    const service = new UsageService(createEnv());
+
+    await service.recordTurn({ organizationId: 'org-1', sessionId: 'session-1', model: 'model-a', promptTokens: 1200, completionTokens: 150, latencyMs: 800 }, NOW);
+    await service.recordTurn({ organizationId: 'org-1', sessionId: 'session-1', model: 'model-a', promptTokens: 1400, completionTokens: 90, latencyMs: 600 }, NOW);
+    await service.recordTurn({ organizationId: 'org-1', sessionId: 'session-2', model: 'model-a', promptTokens: 900, completionTokens: 60, latencyMs: 700 }, NOW);
+
+    expect(await service.listDaily('org-1', '2026-10-01', '2026-10-31')).toEqual([{
+      date: '2026-10-18',
+      conversations: 2,
+      turns: 3,
+      promptTokens: 3500,
+      completionTokens: 300,
+      averageLatencyMs: 700
+    }]);
+    expect(await service.getMonthToDate('org-1', NOW)).toEqual({ conversations: 2, turns: 3, tokens: 3800 });
+  });
+
+  it('lets conversations already under way finish once the free conversation limit is reached', async () => {
+    const service = new UsageService(createEnv());
+    await service.recordTurn({ organizationId: 'org-1', sessionId: 'session-1', model: 'model-a', promptTokens: 100, completionTokens: 10, latencyMs: 100 }, NOW);
+    await d1.db.prepare(`
+      UPDATE organization_usage_daily SET conversations = ? WHERE organization_id = 'org-1'
+    `).bind(TIER_QUOTAS.free.monthlyConversations ?? 0).run();
+
+    const organization = { id: 'org-1', subscriptionTier: 'free' as const };
+    expect(await service.checkQuota(organization, 'session-new', NOW)).toMatchObject({
+      tier: 'free',
+      exceeded: true,
+      exceededLimit: 'conversations',
+      periodStart: '2026-10-01'
+    });
+    expect((await service.checkQuota(organization, 'session-1', NOW)).exceeded).toBe(false);
+    expect((await service.checkQuota({ id: 'org-1', subscriptionTier: 'enterprise' }, 'session-new', NOW)).exceeded).toBe(false);
+  });
+
+  it('applies token limits to every conversation', () => {
+    const usage = { conversations: 1, turns: 10, tokens: TIER_QUOTAS.plus.monthlyTokens ?? 0 };
+
+    expect(findExceededLimit(TIER_QUOTAS.plus, usage, true)).toBe('tokens');
+    expect(findExceededLimit(TIER_QUOTAS.business, usage, false)).toBeUndefined();
+  });
+
+  it('treats unknown or missing tiers as free', () => {
+    expect(resolveSubscriptionTier(null)).toBe('free');
+    expect(resolveSubscriptionTier(undefined)).toBe('free');
+    expect(resolveSubscriptionTier('business')).toBe('business');
+    expect(monthStart(NOW)).toBe('2026-10-01');
+  });
+});
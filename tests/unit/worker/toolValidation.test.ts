@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildInvalidArgumentsMessage,
+  buildToolRepairPrompt,
+  validateToolArguments
+} from '../../../worker/agents/legal-intake/toolValidation.js';
+import type { ToolDefinition } from '../../../worker/agents/legal-intake/index.js';
+import {
+  FIXTURE_TOOL_HANDLERS,
+  createReplayAi,
+  loadAgentFixture,
+  runAgentWithAi,
+  type AgentFixture
+} from '../../helpers/agentReplay.js';
+
+const parameters: ToolDefinition['parameters'] = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Client full name', minLength: 2, maxLength: 100 },
+    email: { type: 'string', description: 'Client email address', pattern: '^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\\.[a-zA-Z]{2,}$' },
+    urgency: { type: 'string', description: 'Urgency', enum: ['low', 'high'] },
+    amount: { type: 'number', description: 'Amount in cents', minimum: 100 },
+    recipient: {
+      type: 'object',
+      description: 'Recipient',
+      properties: { name: { type: 'string', description: 'Recipient name', minLength: 1 } }
+    }
+  },
+  required: ['name'],
+  additionalProperties: false
+};
+
+describe('tool argument validation', () => {
+  it('trims strings, drops blank optional values and undeclared properties', () => {
+    const result = validateToolArguments(parameters, {
+      name: '  Jordan Alvarez ',
+      email: '',
+      urgency: null,
+      ssn: '123-45-6789'
+    });
+
+    expect(result).toEqual({ valid: true, value: { name: 'Jordan Alvarez' }, errors: [], issues: [] });
+  });
+
+  it('rejects blank required fields and malformed values', () => {
+    const result = validateToolArguments(parameters, {
+      name: '   ',
+      email: 'jordan@fastmail',
+      urgency: 'asap',
+      amount: '7500',
+      recipient: { name: 42 }
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      { field: 'name', message: 'name is required' },
+      { field: 'email', message: 'email has an invalid format' },
+      { field: 'urgency', message: 'urgency must be one of: low, high' },
+      { field: 'amount', message: 'amount must be a number' },
+      { field: 'recipient.name', message: 'recipient.name must be a string' }
+    ]);
+  });
+
+  it('builds a structured repair prompt and a user-facing fallback', () => {
+    const issues = [{ field: 'email', message: 'email has an invalid format' }];
+
+    expect(buildToolRepairPrompt('create_matter', issues)).toContain('- field email invalid: email has an invalid format');
+    expect(buildInvalidArgumentsMessage([
+      { field: 'opposing_party', message: 'opposing_party must be a string' }
+    ])).toContain('check your opposing party');
+  });
+});
+
+describe('tool argument repair', () => {
+  function withMalformedEmail(): AgentFixture {
+    const fixture = structuredClone(loadAgentFixture('streamed-create-matter'));
+    const [streamed] = fixture.interactions;
+    if (streamed.response.type !== 'stream') {
+      throw new Error('Expected a streamed fixture');
+    }
+    streamed.response.chunks = streamed.response.chunks.map(chunk =>
+      chunk.replace('jordan.alvarez@fastmail.com', 'jordan.alvarez@fastmail')
+    );
+    return fixture;
+  }
+
+  it('re-prompts once and executes the repaired call', async () => {
+    const fixture = withMalformedEmail();
+    fixture.interactions.push({
+      model: 'openai:gpt-4o-mini',
+      payload: {},
+      response: {
+        type: 'json',
+        body: {
+          tool_calls: [{
+            name: 'create_matter',
+            arguments: {
+              matter_type: 'Family Law',
+              description: 'Seeking custody arrangement after separation; two children ages 6 and 9.',
+              name: 'Jordan Alvarez',
+              email: 'jordan.alvarez@fastmail.com',
+              phone: '615-555-0142',
+              location: 'Nashville, TN'
+            }
+          }]
+        }
+      }
+    });
+
+    const replay = createReplayAi(fixture.interactions);
+    const result = await runAgentWithAi(replay.ai, fixture, FIXTURE_TOOL_HANDLERS);
+
+    expect(replay.remaining()).toBe(0);
+    const repairMessages = replay.calls[1].payload.messages as Array<{ role: string; content: string }>;
+    expect(repairMessages.at(-1)?.content).toContain('field email invalid');
+    expect(result.toolCalls).toEqual(['create_matter']);
+    const toolCall = result.events.find(event => event.type === 'tool_call');
+    expect(toolCall?.parameters).toMatchObject({ email: 'jordan.alvarez@fastmail.com' });
+  });
+
+  it('gives up after one failed repair without creating a matter', async () => {
+    const fixture = withMalformedEmail();
+    fixture.interactions.push({
+      model: 'openai:gpt-4o-mini',
+      payload: {},
+      response: {
+        type: 'json',
+        body: { tool_calls: [{ name: 'create_matter', arguments: { matter_type: 'Family Law', description: 'Custody', name: '' } }] }
+      }
+    });
+
+    const replay = createReplayAi(fixture.interactions);
+    const result = await runAgentWithAi(replay.ai, fixture, FIXTURE_TOOL_HANDLERS);
+
+    expect(replay.remaining()).toBe(0);
+    expect(result.toolCalls).toEqual([]);
+    expect(result.finalText).toContain('Could you please check your name');
+  });
+
+  it('repairs text-format tool calls on Workers AI with the repair prompt kept in the input', async () => {
+    const fixture = structuredClone(loadAgentFixture('streamed-create-matter'));
+    fixture.request.overrides = { provider: 'workers-ai', model: '@cf/openai/gpt-oss-20b' };
+    const matterArguments = {
+      matter_type: 'Family Law',
+      description: 'Seeking custody arrangement after separation; two children ages 6 and 9.',
+      name: 'Jordan Alvarez',
+      email: 'jordan.alvarez@fastmail',
+      phone: '615-555-0142',
+      location: 'Nashville, TN'
+    };
+    const reply = (text: string) => ({
+      model: '@cf/openai/gpt-oss-20b',
+      payload: {},
+      response: {
+        type: 'json' as const,
+        body: { output: [{ type: 'message', role: 'assistant', content: [{ type: 'output_text', text }] }] }
+      }
+    });
+    fixture.interactions = [
+      reply(`TOOL_CALL: create_matter\nPARAMETERS: ${JSON.stringify(matterArguments)}`),
+      reply(`TOOL_CALL: create_matter\nPARAMETERS: ${JSON.stringify({ ...matterArguments, email: 'jordan.alvarez@fastmail.com' })}`)
+    ];
+
+    const replay = createReplayAi(fixture.interactions);
+    const result = await runAgentWithAi(replay.ai, fixture, FIXTURE_TOOL_HANDLERS);
+
+    expect(replay.remaining()).toBe(0);
+    const repairInput = replay.calls[1].payload.input as string;
+    expect(repairInput).toContain('user: Your call to create_matter was rejected');
+    expect(repairInput).toContain('field email invalid');
+    expect(result.toolCalls).toEqual(['create_matter']);
+    const toolCall = result.events.find(event => event.type === 'tool_call');
+    expect(toolCall?.parameters).toMatchObject({ email: 'jordan.alvarez@fastmail.com' });
+  });
+});
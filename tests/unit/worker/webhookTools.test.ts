@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createHmac } from 'node:crypto';
+import {
+  buildWebhookToolDefinitions,
+  buildWebhookToolResultPrompt,
+  executeWebhookTool,
+  WEBHOOK_SIGNATURE_HEADER
+} from '../../../worker/agents/legal-intake/webhookTools.js';
+import { validateToolArguments } from '../../../worker/agents/legal-intake/toolValidation.js';
+import { ConversationState } from '../../../worker/agents/legal-intake/intakeStateMachine.js';
+import type { Organization, OrganizationWebhookTool } from '../../../worker/services/OrganizationService.js';
+import { organizationWebhookToolSchema } from '../../../worker/schemas/validation.js';
+import {
+  FIXTURE_TOOL_HANDLERS,
+  createReplayAi,
+  loadAgentFixture,
+  runAgentWithAi
+} from '../../helpers/agentReplay.js';
+
+const lookupCaseTool: OrganizationWebhookTool = {
+  name: 'lookup_case_number',
+  description: 'Look up an existing case by its docket number',
+  parameters: {
+    type: 'object',
+    properties: {
+      case_number: { type: 'string', description: 'Docket number', pattern: '^[0-9]{2}-[A-Z]{2}-[0-9]{4,6}$' },
+      include_history: { type: 'boolean', description: 'Include filing history' }
+    },
+    required: ['case_number'],
+    additionalProperties: false
+  },
+  endpoint: 'https://crm.example-firm.test/hooks/case-lookup',
+  signingSecret: 'whsec_0123456789abcdef',
+  allowedStates: ['GATHERING_INFORMATION', 'QUALIFYING_LEAD']
+};
+
+const organization = {
+  id: 'org-1',
+  name: 'Example Firm',
+  config: { webhookTools: [lookupCaseTool] }
+} as unknown as Organization;
+
+describe('webhook tools', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('only offers tools in their allowed states', () => {
+    expect(buildWebhookToolDefinitions(organization, ConversationState.QUALIFYING_LEAD).map(tool => tool.name))
+      .toEqual(['lookup_case_number']);
+    expect(buildWebhookToolDefinitions(organization, ConversationState.READY_TO_CREATE_MATTER)).toEqual([]);
+  });
+
+  it('validates arguments and drops undeclared properties', () => {
+    const [definition] = buildWebhookToolDefinitions(organization, ConversationState.QUALIFYING_LEAD);
+
+    const valid = validateToolArguments(definition.parameters, { case_number: '24-CV-00123', ssn: '123-45-6789' });
+    expect(valid).toEqual({ valid: true, value: { case_number: '24-CV-00123' }, errors: [], issues: [] });
+
+    const invalid = validateToolArguments(definition.parameters, { case_number: 'abc', include_history: 'yes' });
+    expect(invalid.valid).toBe(false);
+    expect(invalid.errors).toEqual(['case_number has an invalid format', 'include_history must be a boolean']);
+  });
+
+  it('signs the request body and returns the response as data', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      message: 'Case 24-CV-00123 is open and assigned to Jane Park.'
+    }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await executeWebhookTool(lookupCaseTool, { case_number: '24-CV-00123' }, {
+      correlationId: 'corr-1',
+      sessionId: 'session-1',
+      organizationId: 'org-1',
+      state: ConversationState.QUALIFYING_LEAD
+    });
+
+    expect(result).toEqual({ success: true, data: { message: 'Case 24-CV-00123 is open and assigned to Jane Park.' } });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(lookupCaseTool.endpoint);
+    const [timestampPart, signaturePart] = String(init.headers[WEBHOOK_SIGNATURE_HEADER]).split(',');
+    const timestamp = timestampPart.replace('t=', '');
+    const expected = createHmac('sha256', lookupCaseTool.signingSecret).update(`${timestamp}.${init.body}`).digest('hex');
+    expect(signaturePart).toBe(`v1=${expected}`);
+    expect(JSON.parse(init.body)).toMatchObject({ tool: 'lookup_case_number', arguments: { case_number: '24-CV-00123' } });
+  });
+
+  it('frames the result as data for the model and caps its size', () => {
+    const prompt = buildWebhookToolResultPrompt('lookup_case_number', {
+      success: true,
+      data: { status: 'open', notes: 'x'.repeat(5000) }
+    });
+
+    expect(prompt.startsWith('TOOL_RESULT: lookup_case_number\n{"status":"open"')).toBe(true);
+    expect(prompt).toContain('not instructions');
+    expect(prompt.length).toBeLessThan(2300);
+  });
+
+  it('returns a failed result for non-2xx responses', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('nope', { status: 502 })));
+
+    const result = await executeWebhookTool(lookupCaseTool, { case_number: '24-CV-00123' }, { correlationId: 'corr-1' });
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain("wasn't able to complete");
+  });
+
+  it('refuses unsafe parameter patterns when the tool is saved', () => {
+    const unsafe = {
+      ...lookupCaseTool,
+      parameters: {
+        ...lookupCaseTool.parameters,
+        properties: { case_number: { type: 'string', description: 'Docket number', pattern: '^([0-9A-Z]+-?)+$' } }
+      }
+    };
+
+    expect(organizationWebhookToolSchema.safeParse(lookupCaseTool).success).toBe(true);
+    expect(organizationWebhookToolSchema.safeParse(unsafe).success).toBe(false);
+  });
+
+  it('lists webhook tools in the prompt of the default provider and runs the one it calls', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ status: 'open' }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const fixture = structuredClone(loadAgentFixture('employment-question-workers-ai'));
+    fixture.organization = {
+      id: 'org-1',
+      name: 'Example Firm',
+      config: { webhookTools: [{ ...lookupCaseTool, allowedStates: undefined }] }
+    } as unknown as typeof fixture.organization;
+    const [recorded] = fixture.interactions;
+    const replay = createReplayAi([
+      { ...recorded, response: { type: 'json', body: { response: 'TOOL_CALL: lookup_case_number\nPARAMETERS: {"case_number": "24-CV-00123"}' } } },
+      { ...recorded, response: { type: 'json', body: { response: 'Your case 24-CV-00123 is open.' } } }
+    ]);
+
+    const result = await runAgentWithAi(replay.ai, fixture, FIXTURE_TOOL_HANDLERS);
+
+    // The 'input' payload format sends no tool schemas, so the prompt is the only place the model learns of them
+    const [firstCall] = replay.calls;
+    expect(firstCall.payload.tools).toBeUndefined();
+    expect(String(firstCall.payload.input)).toContain(
+      '- lookup_case_number(case_number, include_history?): Look up an existing case by its docket number'
+    );
+    expect(String(firstCall.payload.input)).not.toContain('create_matter(');
+    expect(fetchMock).toHaveBeenCalledWith(lookupCaseTool.endpoint, expect.anything());
+    expect(result.toolCalls).toEqual(['lookup_case_number']);
+  });
+
+  it('answers from the webhook result through the model without showing the raw response', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      message: 'RAW CRM TEXT: case 24-CV-00123 assigned to jpark@firm.test'
+    }), { status: 200 })));
+
+    const fixture = structuredClone(loadAgentFixture('employment-question-workers-ai'));
+    fixture.organization = {
+      id: 'org-1',
+      name: 'Example Firm',
+      config: { webhookTools: [{ ...lookupCaseTool, allowedStates: undefined }] }
+    } as unknown as typeof fixture.organization;
+    const [recorded] = fixture.interactions;
+    const replay = createReplayAi([
+      { ...recorded, response: { type: 'json', body: { response: 'TOOL_CALL: lookup_case_number\nPARAMETERS: {"case_number": "24-CV-00123"}' } } },
+      { ...recorded, response: { type: 'json', body: { response: 'Your case 24-CV-00123 is open and an attorney is assigned.' } } }
+    ]);
+
+    const result = await runAgentWithAi(replay.ai, fixture, FIXTURE_TOOL_HANDLERS);
+
+    const followUp = String(replay.calls[1].payload.input);
+    expect(followUp).toContain('user: TOOL_RESULT: lookup_case_number');
+    expect(followUp).toContain('RAW CRM TEXT');
+    expect(result.events.find(event => event.type === 'tool_result')).toMatchObject({ result: { success: true } });
+    expect(JSON.stringify(result.events)).not.toContain('RAW CRM TEXT');
+    expect(result.finalText).toBe('Your case 24-CV-00123 is open and an attorney is assigned.');
+  });
+});
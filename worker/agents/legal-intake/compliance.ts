@@ -0,0 +1,226 @@
+import type {
+  ComplianceCategory,
+  Organization,
+  OrganizationComplianceConfig,
+  OrganizationComplianceRule
+} from '../../services/OrganizationService.js';
+import { resolveState } from '../../services/DeadlineService.js';
+import { Logger } from '../../utils/logger.js';
+import { compileSafePattern } from '../../utils/safeRegex.js';
+
+export type ComplianceAction = 'rewrite' | 'flag';
+
+export interface ComplianceFinding {
+  ruleId: string;
+  category: ComplianceCategory | 'missing_disclaimer';
+  action: ComplianceAction | 'append';
+  excerpt: string;
+}
+
+/**
+ * Outcome of reviewing one reply. `response` is the text to send; the summary
+ * fields are stored on the message metadata for compliance review.
+ */
+export interface ComplianceReview {
+  response: string;
+  changed: boolean;
+  flagged: boolean;
+  disclaimerAdded: boolean;
+  jurisdiction: string | null;
+  findings: ComplianceFinding[];
+}
+
+export const DEFAULT_COMPLIANCE_DISCLAIMER =
+  'This is general legal information, not legal advice, and no attorney-client relationship has been formed. An attorney will need to review the details of your situation.';
+
+const DEFAULT_REPLACEMENTS: Record<ComplianceCategory, string> = {
+  outcome_prediction: "I can't predict how your matter will turn out; an attorney can assess your options after reviewing the details.",
+  legal_conclusion: 'Whether that applies to your situation is something an attorney will need to evaluate.'
+};
+
+/**
+ * Built-in patterns for the advice firms most often worry about: predicting
+ * outcomes and stating legal conclusions about the user's own situation.
+ */
+export const DEFAULT_COMPLIANCE_RULES: readonly OrganizationComplianceRule[] = [
+  { id: 'default-win-lose', category: 'outcome_prediction', pattern: "\\byou(?:'ll| will)\\s+(?:almost\\s+)?(?:definitely|certainly|surely|likely|probably)?\\s*(?:win|lose|prevail)\\b" },
+  { id: 'default-award', category: 'outcome_prediction', pattern: "\\byou(?:'ll| will)\\s+(?:definitely|certainly|likely|probably)?\\s*(?:get|receive|recover|be awarded)\\s+(?:\\$|full|custody|damages|compensation|your deposit)" },
+  { id: 'default-strong-case', category: 'outcome_prediction', pattern: '\\byou\\s+have\\s+(?:a|an)\\s+(?:strong|solid|great|good|winning|airtight|open-and-shut)\\s+case\\b' },
+  { id: 'default-guarantee', category: 'outcome_prediction', pattern: '\\b(?:guarantee[ds]?|no\\s+doubt)\\b.*\\b(?:win|case|outcome|court|judge|settle)' },
+  { id: 'default-odds', category: 'outcome_prediction', pattern: '\\b(?:\\d{1,3}\\s*%|good|high|excellent)\\s+(?:chance|odds|likelihood)\\s+(?:of\\s+)?(?:winning|success|prevailing)' },
+  { id: 'default-entitled', category: 'legal_conclusion', pattern: '\\byou\\s+are\\s+(?:definitely\\s+|clearly\\s+)?(?:legally\\s+)?(?:entitled|liable|guilty|not\\s+liable|not\\s+guilty|owed)\\b' },
+  { id: 'default-constitutes', category: 'legal_conclusion', pattern: '\\b(?:this|that|it|what\\s+they\\s+did)\\s+(?:is|was|constitutes|amounts\\s+to)\\s+(?:clearly\\s+|definitely\\s+)?(?:illegal|unlawful|fraud|wrongful\\s+termination|discrimination|negligence|malpractice|harassment|a\\s+breach\\s+of\\s+contract)\\b' },
+  { id: 'default-directive', category: 'legal_conclusion', pattern: '\\byou\\s+(?:should|must|need\\s+to)\\s+(?:sue|file\\s+(?:a\\s+)?(?:lawsuit|suit|claim)|plead\\s+(?:guilty|not\\s+guilty)|sign\\s+the\\s+(?:agreement|settlement|contract))\\b' }
+];
+
+// Wording that shows the reply already carries a disclaimer
+const EXISTING_DISCLAIMER_PATTERN = /\bnot\s+(?:intended\s+as\s+|to\s+be\s+)?legal\s+advice\b|\battorney-client\s+relationship\b/i;
+
+// Replies that explain the law, as opposed to intake questions
+const LEGAL_INFORMATION_PATTERN = /\b(?:under\s+(?:the\s+)?(?:law|statute)|statute\s+of\s+limitations|you\s+(?:may|might|could)\s+(?:have\s+a\s+(?:claim|case|right)|be\s+able\s+to\s+(?:sue|recover|file))|you\s+(?:have|may\s+have)\s+(?:a|the)\s+right|legally|liable|entitled\s+to|the\s+law\s+(?:says|requires|allows|provides|protects))\b/i;
+
+const MAX_EXCERPT_LENGTH = 160;
+
+interface CompiledRule {
+  rule: OrganizationComplianceRule;
+  pattern: RegExp;
+}
+
+// Rule objects live on the cached organization config, so each is compiled once per isolate
+const compiledPatterns = new WeakMap<OrganizationComplianceRule, RegExp | null>();
+
+function compileRulePattern(rule: OrganizationComplianceRule): RegExp | null {
+  if (compiledPatterns.has(rule)) {
+    return compiledPatterns.get(rule) ?? null;
+  }
+
+  // Configs saved before patterns were vetted may still hold an unsafe one
+  const pattern = compileSafePattern(rule.pattern, 'i');
+  if (!pattern) {
+    Logger.warn('Skipping unsafe or invalid compliance rule pattern', { ruleId: rule.id });
+  }
+  compiledPatterns.set(rule, pattern);
+  return pattern;
+}
+
+function toExcerpt(text: string): string {
+  const compact = text.replace(/\s+/g, ' ').trim();
+  return compact.length > MAX_EXCERPT_LENGTH ? `${compact.slice(0, MAX_EXCERPT_LENGTH)}...` : compact;
+}
+
+// Sentences, keeping line breaks as their own boundaries so markdown lists survive a rewrite
+function splitSentences(text: string): string[] {
+  return text.split(/(\n+)/).flatMap(part =>
+    part.startsWith('\n') ? [part] : part.split(/(?<=[.!?]["')\]]*\s)(?=\S)/)
+  );
+}
+
+function compileRules(config: OrganizationComplianceConfig | undefined, jurisdiction: string | null): CompiledRule[] {
+  const rules = [
+    ...(config?.rules ?? []),
+    ...(config?.includeDefaultRules === false ? [] : DEFAULT_COMPLIANCE_RULES)
+  ];
+
+  return rules
+    .filter(rule => !rule.states || (jurisdiction !== null && rule.states.includes(jurisdiction)))
+    .flatMap(rule => {
+      const pattern = compileRulePattern(rule);
+      return pattern ? [{ rule, pattern }] : [];
+    });
+}
+
+/**
+ * State whose rules and disclaimer apply: the client's location, then the
+ * organization's jurisdiction.
+ */
+export function resolveComplianceJurisdiction(
+  organization: Pick<Organization, 'config'> | null | undefined,
+  clientRegion?: string | null
+): string | null {
+  const jurisdiction = organization?.config?.jurisdiction;
+  const supportedStates = (jurisdiction?.supportedStates ?? []).filter(state => state !== 'all');
+  return resolveState([
+    clientRegion,
+    jurisdiction?.primaryState,
+    supportedStates.length === 1 ? supportedStates[0] : undefined
+  ]);
+}
+
+export function resolveDisclaimer(config: OrganizationComplianceConfig | undefined, jurisdiction: string | null): string {
+  return (jurisdiction ? config?.jurisdictionDisclaimers?.[jurisdiction] : undefined)
+    ?? config?.disclaimer
+    ?? DEFAULT_COMPLIANCE_DISCLAIMER;
+}
+
+/**
+ * Reviews an AI reply for unauthorized-practice-of-law risks: rewrites or flags
+ * outcome predictions and legal conclusions, and appends the disclaimer when the
+ * reply needs one and lacks it.
+ */
+export function reviewResponseCompliance(
+  response: string,
+  config: OrganizationComplianceConfig | undefined,
+  jurisdiction: string | null
+): ComplianceReview {
+  const unchanged: ComplianceReview = {
+    response,
+    changed: false,
+    flagged: false,
+    disclaimerAdded: false,
+    jurisdiction,
+    findings: []
+  };
+  if (config?.enabled === false || !response.trim()) {
+    return unchanged;
+  }
+
+  const rules = compileRules(config, jurisdiction);
+  const findings: ComplianceFinding[] = [];
+  let previousReplacement: string | null = null;
+  const rewritten = splitSentences(response).map(sentence => {
+    const match = sentence.trim() ? rules.find(({ pattern }) => pattern.test(sentence)) : undefined;
+    if (!match) {
+      if (sentence.trim()) {
+        previousReplacement = null;
+      }
+      return sentence;
+    }
+
+    const { rule } = match;
+    const action: ComplianceAction = rule.action ?? (rule.category === 'outcome_prediction' ? 'rewrite' : 'flag');
+    findings.push({ ruleId: rule.id, category: rule.category, action, excerpt: toExcerpt(sentence) });
+    if (action === 'flag') {
+      previousReplacement = null;
+      return sentence;
+    }
+
+    // Back-to-back predictions collapse into one replacement sentence
+    const replacement = rule.replacement ?? DEFAULT_REPLACEMENTS[rule.category];
+    if (replacement === previousReplacement) {
+      return '';
+    }
+    previousReplacement = replacement;
+    const trailing = sentence.match(/\s*$/)?.[0] ?? '';
+    return `${replacement}${trailing}`;
+  });
+
+  let text = findings.some(finding => finding.action === 'rewrite') ? rewritten.join('') : response;
+
+  const disclaimer = resolveDisclaimer(config, jurisdiction);
+  const mode = config?.disclaimerMode ?? 'legal_information';
+  const needsDisclaimer = findings.length > 0
+    || mode === 'always'
+    || (mode === 'legal_information' && LEGAL_INFORMATION_PATTERN.test(text));
+  const hasDisclaimer = text.includes(disclaimer) || EXISTING_DISCLAIMER_PATTERN.test(text);
+  const disclaimerAdded = needsDisclaimer && !hasDisclaimer;
+
+  if (disclaimerAdded) {
+    findings.push({ ruleId: 'disclaimer', category: 'missing_disclaimer', action: 'append', excerpt: toExcerpt(disclaimer) });
+    text = `${text.trimEnd()}\n\n_${disclaimer}_`;
+  }
+
+  return {
+    response: text,
+    changed: text !== response,
+    flagged: findings.some(finding => finding.category !== 'missing_disclaimer'),
+    disclaimerAdded,
+    jurisdiction,
+    findings
+  };
+}
+
+/**
+ * Metadata tag for a reviewed reply, or undefined when nothing was found.
+ */
+export function toComplianceMetadata(review: ComplianceReview): Record<string, unknown> | undefined {
+  if (review.findings.length === 0) {
+    return undefined;
+  }
+  return {
+    changed: review.changed,
+    flagged: review.flagged,
+    disclaimerAdded: review.disclaimerAdded,
+    jurisdiction: review.jurisdiction,
+    findings: review.findings
+  };
+}
@@ -0,0 +1,271 @@
+import type { Env, AgentMessage } from '../../types.js';
+import { Logger } from '../../utils/logger.js';
+import { isDocumentAnalysisMessage, sanitizeDocumentText, wrapDocumentData } from '../../utils/documentQuarantine.js';
+import type { ProviderMessage } from './providers.js';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CHARS_PER_TOKEN = 4;
+const MAX_SUMMARY_SOURCE_CHARS_PER_MESSAGE = 1500;
+
+export const SUMMARY_MAX_TOKENS = 400;
+
+/**
+ * Input budget for a single intake turn. The summary replaces everything but the
+ * last `recentMessages` once the history no longer fits or grows past
+ * `summarizeAfterMessages` unsummarized messages.
+ */
+export interface ContextBudget {
+  maxInputTokens: number;
+  recentMessages: number;
+  summarizeAfterMessages: number;
+}
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudget = {
+  maxInputTokens: 6000,
+  recentMessages: 8,
+  summarizeAfterMessages: 24
+};
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a legal intake conversation between a prospective client and a law firm's intake assistant.
+Merge the previous summary with the new messages. Keep every concrete fact: the client's name and contact details, location, the legal issue, parties involved, dates, amounts, urgency, documents mentioned, and what the assistant has already asked or promised.
+Write plain prose in under 200 words. Do not add advice or facts that were not stated.`;
+
+// ============================================================================
+// TOKEN ESTIMATION
+// ============================================================================
+
+/**
+ * Rough token estimate (~4 characters per token). Good enough for budgeting
+ * across providers without shipping a tokenizer to the worker.
+ */
+export function estimateTokens(text: string | null | undefined): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+export function estimateMessagesTokens(messages: readonly ProviderMessage[]): number {
+  // A few tokens of per-message overhead for role markers
+  return messages.reduce((total, message) => total + estimateTokens(message.content) + 4, 0);
+}
+
+export function buildPromptMessages(messages: readonly AgentMessage[]): ProviderMessage[] {
+  return messages.map(msg => {
+    const role = msg.role || (msg.isUser ? 'user' : 'assistant');
+    const content = msg.content || '';
+    // Document analyses relay text from uploaded files; history comes from the client, so re-sanitize it too
+    return role === 'assistant' && isDocumentAnalysisMessage(content)
+      ? { role, content: wrapDocumentData('document analysis', sanitizeDocumentText(content).text) }
+      : { role, content };
+  });
+}
+
+// ============================================================================
+// SUMMARY STORE
+// ============================================================================
+
+export interface SessionSummaryRecord {
+  id: string;
+  summary: string;
+  tokenCount: number;
+  messageCount: number;
+  createdAt: string;
+}
+
+export class SessionSummaryStore {
+  static async latest(env: Env, sessionId: string): Promise<SessionSummaryRecord | null> {
+    try {
+      const row = await env.DB.prepare(`
+        SELECT id, summary, token_count, message_count, created_at
+        FROM session_summaries
+        WHERE session_id = ?
+        ORDER BY created_at DESC
+        LIMIT 1
+      `).bind(sessionId).first<{
+        id: string;
+        summary: string;
+        token_count: number | null;
+        message_count: number | null;
+        created_at: string;
+      }>();
+
+      if (!row) {
+        return null;
+      }
+
+      return {
+        id: row.id,
+        summary: row.summary,
+        tokenCount: row.token_count ?? estimateTokens(row.summary),
+        messageCount: row.message_count ?? 0,
+        createdAt: row.created_at
+      };
+    } catch (error) {
+      Logger.warn('Failed to load session summary', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Appends a new summary row; the newest row per session is the active one.
+   */
+  static async save(env: Env, sessionId: string, summary: string, messageCount: number): Promise<SessionSummaryRecord> {
+    const record: SessionSummaryRecord = {
+      id: crypto.randomUUID(),
+      summary,
+      tokenCount: estimateTokens(summary),
+      messageCount,
+      createdAt: new Date().toISOString()
+    };
+
+    try {
+      await env.DB.prepare(`
+        INSERT INTO session_summaries (id, session_id, summary, token_count, message_count, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).bind(record.id, sessionId, record.summary, record.tokenCount, record.messageCount, record.createdAt).run();
+    } catch (error) {
+      Logger.warn('Failed to persist session summary', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    return record;
+  }
+}
+
+// ============================================================================
+// CONTEXT BUILDER
+// ============================================================================
+
+export type SummarizeFn = (messages: ProviderMessage[]) => Promise<string>;
+
+export interface BuildPromptContextOptions {
+  env: Env;
+  sessionId?: string;
+  correlationId?: string;
+  systemPrompt: string;
+  messages: readonly AgentMessage[];
+  summarize?: SummarizeFn;
+  reservedTokens?: number;  // e.g. tool definitions and the output allowance
+  budget?: Partial<ContextBudget>;
+}
+
+export interface PromptContext {
+  messages: ProviderMessage[];
+  summary: SessionSummaryRecord | null;
+  summarizedMessages: number;
+  droppedMessages: number;
+  estimatedTokens: number;
+}
+
+function buildSummaryRequest(previousSummary: string | undefined, messages: readonly ProviderMessage[]): ProviderMessage[] {
+  const transcript = messages
+    .map(message => `${message.role}: ${message.content.slice(0, MAX_SUMMARY_SOURCE_CHARS_PER_MESSAGE)}`)
+    .join('\n');
+
+  return [
+    { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `Previous summary:\n${previousSummary?.trim() || '(none)'}\n\nNew messages:\n${transcript}`
+    }
+  ];
+}
+
+// One system message: some providers keep only the first, which would drop a separate summary
+function buildSystemMessage(systemPrompt: string, summary: SessionSummaryRecord | null): ProviderMessage {
+  return {
+    role: 'system',
+    content: summary
+      ? `${systemPrompt}\n\nSummary of the earlier conversation:\n${summary.summary}`
+      : systemPrompt
+  };
+}
+
+/**
+ * Builds the model input for a turn as system prompt (with the rolling summary) + the most
+ * recent messages, keeping it inside the input budget. Older turns are folded into
+ * `session_summaries` when the history outgrows the budget or the summarize interval;
+ * if summarization is unavailable the oldest unsummarized messages are dropped instead.
+ */
+export async function buildPromptContext(options: BuildPromptContextOptions): Promise<PromptContext> {
+  const { env, sessionId, systemPrompt, summarize } = options;
+  const budget: ContextBudget = { ...DEFAULT_CONTEXT_BUDGET, ...options.budget };
+  const history = buildPromptMessages(options.messages);
+  const fixedTokens = estimateTokens(systemPrompt) + (options.reservedTokens ?? 0);
+
+  let summary = sessionId ? await SessionSummaryStore.latest(env, sessionId) : null;
+  if (summary && summary.messageCount > history.length) {
+    // The client sent a shorter history than the summary covers (e.g. a reset); start over
+    summary = null;
+  }
+
+  let covered = summary?.messageCount ?? 0;
+  let pending = history.slice(covered);
+
+  const totalTokens = () =>
+    fixedTokens + (summary ? estimateTokens(summary.summary) + 4 : 0) + estimateMessagesTokens(pending);
+
+  const overBudget = totalTokens() > budget.maxInputTokens;
+  const overdue = pending.length > budget.summarizeAfterMessages;
+
+  if ((overBudget || overdue) && summarize && pending.length > budget.recentMessages) {
+    const toFold = pending.slice(0, pending.length - budget.recentMessages);
+    try {
+      const text = (await summarize(buildSummaryRequest(summary?.summary, toFold))).trim();
+      if (text.length > 0) {
+        covered += toFold.length;
+        summary = sessionId
+          ? await SessionSummaryStore.save(env, sessionId, text, covered)
+          : { id: 'ephemeral', summary: text, tokenCount: estimateTokens(text), messageCount: covered, createdAt: new Date().toISOString() };
+        pending = history.slice(covered);
+
+        Logger.info('Summarized earlier conversation turns', {
+          correlationId: options.correlationId,
+          sessionId,
+          foldedMessages: toFold.length,
+          summarizedMessages: covered,
+          summaryTokens: summary.tokenCount
+        });
+      }
+    } catch (error) {
+      Logger.warn('Conversation summarization failed, truncating history instead', {
+        correlationId: options.correlationId,
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // Hard cap: drop the oldest remaining messages, always keeping the latest one
+  let droppedMessages = 0;
+  while (pending.length > 1 && totalTokens() > budget.maxInputTokens) {
+    pending = pending.slice(1);
+    droppedMessages++;
+  }
+
+  if (droppedMessages > 0) {
+    Logger.warn('Dropped conversation history to fit the context budget', {
+      correlationId: options.correlationId,
+      sessionId,
+      droppedMessages,
+      maxInputTokens: budget.maxInputTokens
+    });
+  }
+
+  return {
+    messages: [
+      buildSystemMessage(systemPrompt, summary),
+      ...pending
+    ],
+    summary,
+    summarizedMessages: covered,
+    droppedMessages,
+    estimatedTokens: totalTokens()
+  };
+}
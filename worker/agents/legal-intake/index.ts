@@ -1,18 +1,51 @@
 import type { Env, AgentMessage, AgentResponse, FileAttachment } from '../../types.js';
-import { OrganizationService, type Organization, buildDefaultOrganizationConfig } from '../../services/OrganizationService.js';
-import { ConversationContextManager } from '../../middleware/conversationContextManager.js';
+import { OrganizationService, type Organization, type OrganizationWebhookTool, buildDefaultOrganizationConfig } from '../../services/OrganizationService.js';
+import { ConversationContextManager, type UserIntent } from '../../middleware/conversationContextManager.js';
+import { hasIntent } from '../../middleware/intentClassifier.js';
 import { Logger } from '../../utils/logger.js';
 import { ToolCallParser } from '../../utils/toolCallParser.js';
 import { withAIRetry } from '../../utils/retry.js';
-import { ToolUsageMonitor } from '../../utils/toolUsageMonitor.js';
+import { ModelCircuitBreaker } from '../../utils/modelCircuitBreaker.js';
 import { safeIncludes } from '../../utils/safeStringUtils.js';
 import { ValidationService } from '../../services/ValidationService.js';
 import { PaymentServiceFactory } from '../../services/PaymentServiceFactory.js';
 import { ContactIntakeOrchestrator } from '../../services/ContactIntakeOrchestrator.js';
+import { ConflictCheckService, CONFLICT_TAG, type ConflictCheckResult } from '../../services/ConflictCheckService.js';
+import { DeadlineService, DEADLINE_TAG, isDeadlineNear, type DeadlineEstimate } from '../../services/DeadlineService.js';
+import { SchedulingService, formatSlot, isSchedulingRequest, isSlotConfirmation, resolveSlotChoice } from '../../services/SchedulingService.js';
+import { KnowledgeBaseService, type KnowledgePassage } from '../../services/KnowledgeBaseService.js';
+import { ToolAuditService, type ToolCallOutcome } from '../../services/ToolAuditService.js';
+import { UsageService } from '../../services/UsageService.js';
+import { SessionService } from '../../services/SessionService.js';
+import { createMatterRecord } from '../../utils.js';
+import { getStateName } from '../../utils/locationValidator.js';
 import { createValidationError, createSuccessResponse } from '../../utils/responseUtils.js';
-import { chunkResponseText } from '../../utils/streaming.js';
+import { isDocumentTurn, UNTRUSTED_DOCUMENT_NOTICE } from '../../utils/documentQuarantine.js';
 import { createSuccessResult, createErrorResult, ValidationError } from './errors.js';
 import { LegalIntakeLogger, LegalIntakeOperation } from './legalIntakeLogger.js';
+import { aiProviderRegistry, type ProviderBasePayload } from './providers.js';
+import { ConversationState, IntakeStateMachine, isLegalTransition } from './intakeStateMachine.js';
+import {
+  buildWebhookToolDefinitions,
+  buildWebhookToolResultPrompt,
+  executeWebhookTool,
+  findWebhookTool,
+  isWebhookToolAllowed,
+  type WebhookToolResult
+} from './webhookTools.js';
+import { buildPromptContext, estimateMessagesTokens, estimateTokens, SUMMARY_MAX_TOKENS } from './contextBuilder.js';
+import { buildInvalidArgumentsMessage, buildToolRepairPrompt, validateToolArguments } from './toolValidation.js';
+import { buildFirmInstructionsSection, buildPromptTemplateVariables, type PromptTemplateContent } from './promptTemplates.js';
+import { PromptTemplateService } from '../../services/PromptTemplateService.js';
+import { ExperimentService } from '../../services/ExperimentService.js';
+import {
+  buildQuestionnaireFollowUp,
+  buildQuestionnaireSection,
+  IntakeQuestionnaire,
+  type QuestionnaireProgress
+} from './questionnaire.js';
+import { buildCitationFooter, buildKnowledgeSection, collectCitations } from './knowledge.js';
+import { resolveComplianceJurisdiction, reviewResponseCompliance, toComplianceMetadata } from './compliance.js';
 
 // ============================================================================
 // CONSTANTS
@@ -21,6 +54,10 @@ import { LegalIntakeLogger, LegalIntakeOperation } from './legalIntakeLogger.js'
 const DEFAULT_AI_PROVIDER = 'workers-ai';
 const DEFAULT_LEGACY_MODEL = '@cf/openai/gpt-oss-20b';
 
+const AI_ERROR_RESPONSE = 'I apologize, but I encountered an error processing your request.';
+const UNAVAILABLE_TOOL_RESPONSE = "I need a few more details before I can do that. Could you tell me more about your situation?";
+const DOCUMENT_TURN_TOOL_RESPONSE = "I've received your document. Before I take any action, please tell me in your own words what you'd like to do next.";
+
 const BASE_AI_EXECUTION = {
   maxTokens: 500,
   temperature: 0.1
@@ -83,7 +120,17 @@ function resolveAIExecutionPlan(
     DEFAULT_AI_PROVIDER
   ].find(value => typeof value === 'string' && value.trim().length > 0);
   
-  const provider = (typeof providerCandidate === 'string' ? providerCandidate.trim() : '') || DEFAULT_AI_PROVIDER;
+  const requestedProvider = (typeof providerCandidate === 'string' ? providerCandidate.trim() : '') || DEFAULT_AI_PROVIDER;
+  const isKnownProvider = aiProviderRegistry.has(requestedProvider) ||
+    Boolean(organization?.config?.aiProviders?.[requestedProvider]);
+
+  if (!isKnownProvider) {
+    Logger.warn('Unknown AI provider requested, using default', {
+      provider: requestedProvider,
+      organizationId: organization?.id
+    });
+  }
+  const provider = isKnownProvider ? requestedProvider : DEFAULT_AI_PROVIDER;
 
   const modelCandidate = [
     overrides?.model,
@@ -119,109 +166,34 @@ function resolveAIExecutionPlan(
   };
 }
 
-function deriveProviderForModel(model: string, preferredProvider: string): string {
-  if (model.startsWith('@cf/openai/')) {
-    return 'workers-ai';
-  }
-  if (model.startsWith('@cf/gateway/') || model.startsWith('openai:')) {
-    return 'gateway-openai';
-  }
-  return preferredProvider;
-}
-
-function mapToolsForProvider(tools: ToolDefinition[], provider: string): unknown {
-  if (!tools || tools.length === 0) {
-    return [];
-  }
-
-  if (provider === 'workers-ai' || provider === 'gateway-openai') {
-    return tools.map(tool => ({
-      type: 'function',
-      function: {
-        name: tool.name,
-        description: tool.description,
-        parameters: tool.parameters
-      }
-    }));
-  }
-
-  return tools;
-}
-
-function buildProviderPayload(
-  basePayload: {
-    messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
-    tools: ToolDefinition[];
-    max_tokens: number;
-    temperature: number;
-    stream: boolean;
-  },
-  provider: string
-): Record<string, unknown> {
-  const { messages, tools, max_tokens, temperature, stream } = basePayload;
-  
-  // For gpt-oss-20b, use the input format instead of messages format
-  if (provider === 'workers-ai' && messages.some(msg => msg.role === 'system')) {
-    // Convert messages to input format for gpt-oss-20b
-    const systemMessage = messages.find(msg => msg.role === 'system');
-    const userMessages = messages.filter(msg => msg.role !== 'system');
-    const conversationText = userMessages.map(msg => `${msg.role}: ${msg.content}`).join('\n');
-    const input = systemMessage ? `${systemMessage.content}\n\n${conversationText}` : conversationText;
-    
-    return {
-      input,
-      max_tokens,
-      temperature,
-      stream: false // gpt-oss-20b streaming format requires different handling
-    };
-  }
-  
-  if (provider === 'workers-ai' || provider === 'gateway-openai') {
-    return {
-      messages,
-      tools: mapToolsForProvider(tools, provider),
-      tool_choice: 'auto',
-      stream,
-      stream_options: { include_usage: true },
-      max_tokens,
-      temperature
-    };
-  }
-
-  return {
-    messages,
-    tools: mapToolsForProvider(tools, provider),
-    stream,
-    max_tokens,
-    temperature
-  };
-}
-
 async function executeModelWithFallback<T>(
   env: Env,
-  basePayload: {
-    messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
-    tools: ToolDefinition[];
-    max_tokens: number;
-    temperature: number;
-    stream: boolean;
-  },
-  executionPlan: AIExecutionPlan
+  basePayload: ProviderBasePayload,
+  executionPlan: AIExecutionPlan,
+  organization?: Organization | null
 ): Promise<AIExecutionResult<T>> {
   const candidates = [executionPlan.model, ...executionPlan.fallback];
+  const organizationConfig = organization?.config ?? null;
+  const circuitBreaker = new ModelCircuitBreaker(env);
   let lastError: unknown;
 
-  const runModel = env.AI.run.bind(env.AI) as (model: string, payload: Record<string, unknown>) => Promise<unknown>;
-
-  for (const candidate of candidates) {
-    const providerForModel = deriveProviderForModel(candidate, executionPlan.provider);
-    const payloadForProvider = buildProviderPayload(basePayload, providerForModel);
+  const attempt = async (candidate: string): Promise<AIExecutionResult<T> | undefined> => {
+    const providerForModel = aiProviderRegistry.deriveProviderForModel(candidate, executionPlan.provider, organizationConfig);
 
     try {
-      const result = await withAIRetry(
-        () => runModel(candidate, payloadForProvider) as Promise<T>,
-        { attempts: 4, baseDelay: 400, operationName: `Legal Intake AI Call (${candidate})` }
-      );
+      const provider = aiProviderRegistry.resolve(env, providerForModel, organizationConfig);
+      const payloadForProvider = provider.buildPayload(basePayload);
+      let result: T;
+      try {
+        result = await withAIRetry(
+          () => provider.run(candidate, payloadForProvider) as Promise<T>,
+          { attempts: 4, baseDelay: 400, operationName: `Legal Intake AI Call (${candidate})` }
+        );
+      } catch (error) {
+        await circuitBreaker.recordFailure(candidate, error);
+        throw error;
+      }
+      await circuitBreaker.recordSuccess(candidate);
 
       return { model: candidate, provider: providerForModel, result };
     } catch (error) {
@@ -231,6 +203,32 @@ async function executeModelWithFallback<T>(
         provider: providerForModel,
         error: error instanceof Error ? error.message : String(error)
       });
+      return undefined;
+    }
+  };
+
+  // Check each circuit only when its model is next in line, so a success never
+  // claims the half-open probe slot of a fallback it didn't need
+  const skipped: string[] = [];
+  for (const candidate of candidates) {
+    if (!(await circuitBreaker.canAttempt(candidate))) {
+      Logger.info('Skipping model with open circuit', { model: candidate });
+      skipped.push(candidate);
+      continue;
+    }
+    const execution = await attempt(candidate);
+    if (execution) {
+      return execution;
+    }
+  }
+
+  // Every circuit is open; try the models anyway rather than fail the turn
+  if (skipped.length === candidates.length) {
+    for (const candidate of skipped) {
+      const execution = await attempt(candidate);
+      if (execution) {
+        return execution;
+      }
     }
   }
 
@@ -407,16 +405,6 @@ export enum Currency {
 
 export type ISODateString = string & { __isoDate: true };
 
-export enum ConversationState {
-  INITIAL = 'INITIAL',
-  GATHERING_INFORMATION = 'GATHERING_INFORMATION',
-  QUALIFYING_LEAD = 'QUALIFYING_LEAD',
-  SHOWING_CONTACT_FORM = 'SHOWING_CONTACT_FORM',
-  READY_TO_CREATE_MATTER = 'READY_TO_CREATE_MATTER',
-  CREATING_MATTER = 'CREATING_MATTER',
-  COMPLETED = 'COMPLETED'
-}
-
 export interface Recipient {
   readonly email: string;
   readonly name: string;
@@ -485,7 +473,7 @@ export interface ConversationContext {
   hasPreviousLawyer: boolean | null;
   isQualifiedLead: boolean;
   safetyFlags?: string[];
-  userIntent?: 'intake' | 'lawyer_contact' | 'general_info' | 'unclear' | 'skip_to_lawyer';
+  userIntent?: UserIntent;  // classified once per turn by the intake pipeline
   conversationPhase?: 'initial' | 'gathering_info' | 'qualifying' | 'contact_collection' | 'completed' | 'showing_contact_form';
   confidence?: number;
   contactInfo?: {
@@ -649,7 +637,7 @@ const createPaymentInvoice: ToolDefinition = {
       invoice_id: { type: 'string', description: 'Unique identifier for the invoice', pattern: '^[a-zA-Z0-9\\-_]+$', minLength: 1, maxLength: 50 },
       amount: { type: 'number', description: 'Invoice amount in cents (e.g., 7500 for $75.00)', minimum: 100, maximum: 1000000 },
       currency: { type: 'string', description: 'Currency code for the invoice', enum: Object.values(Currency), default: Currency.USD },
-      recipient: { type: 'object', description: 'Recipient information for the invoice', properties: { email: { type: 'string', description: 'Recipient email address', maxLength: 255 }, name: { type: 'string', description: 'Recipient full name', minLength: 1, maxLength: 255 } } },
+      recipient: { type: 'object', description: 'Recipient information for the invoice', properties: { email: { type: 'string', description: 'Recipient email address', maxLength: 255, pattern: '^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\\.[a-zA-Z]{2,}$' }, name: { type: 'string', description: 'Recipient full name', minLength: 1, maxLength: 255 } } },
       due_date: { type: 'string', description: 'Invoice due date in ISO 8601 format (YYYY-MM-DD)', pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
       description: { type: 'string', description: 'Description of services or consultation', minLength: 1, maxLength: 500 }
     },
@@ -766,7 +754,11 @@ class ContextDetector {
     return null;
   }
 
-  static detectContext(conversationText: string): ConversationContext {
+  /**
+   * Signals read from the transcript for prompting and tool choice. The intake state is
+   * passed in: it only changes on tool calls and structured events, never on these signals.
+   */
+  static detectContext(conversationText: string, state: ConversationState): ConversationContext {
     const lowerText = conversationText.toLowerCase();
     const wordCount = lowerText.split(/\s+/).length;
     
@@ -842,15 +834,6 @@ class ContextDetector {
     );
     
     const hasContactInfo = !!(contactInfo.name && (contactInfo.email || contactInfo.phone));
-    let state = ConversationState.GATHERING_INFORMATION;
-    
-    if (legalIssueType) {
-      if (hasContactInfo) {
-        state = ConversationState.READY_TO_CREATE_MATTER;
-      } else {
-        state = ConversationState.QUALIFYING_LEAD;
-      }
-    }
     
     return {
       hasLegalIssue: !!legalIssueType,
@@ -884,9 +867,39 @@ class ContextDetector {
 // PROMPT BUILDER
 // ============================================================================
 
+/**
+ * Lists the tools offered this turn, with their parameters (`?` marks optional
+ * ones), so models whose payload carries no tool schemas still know them.
+ */
+function buildAvailableToolsSection(tools: readonly ToolDefinition[]): string {
+  if (tools.length === 0) {
+    return 'Available tools: none right now; answer conversationally.';
+  }
+
+  const lines = tools.map(tool => {
+    const { properties, required } = tool.parameters;
+    const parameters = Object.keys(properties)
+      .map(name => (required.includes(name) ? name : `${name}?`))
+      .join(', ');
+    return `- ${tool.name}(${parameters}): ${tool.description}`;
+  });
+  return `Available tools:\n${lines.join('\n')}`;
+}
+
 class PromptBuilder {
-  static build(context: ConversationContext, organization: Organization | null, _organizationId?: string | null): string {
+  static build(
+    context: ConversationContext,
+    organization: Organization | null,
+    _organizationId?: string | null,
+    promptTemplate?: PromptTemplateContent | null,
+    questionnaire?: QuestionnaireProgress | null,
+    knowledge: readonly KnowledgePassage[] = [],
+    tools: readonly ToolDefinition[] = []
+  ): string {
     const organizationName = organization?.name || 'our law firm';
+    const firmInstructions = buildFirmInstructionsSection(promptTemplate, buildPromptTemplateVariables(organization));
+    const questionnaireSection = buildQuestionnaireSection(questionnaire ?? null);
+    const knowledgeSection = buildKnowledgeSection(knowledge);
     const publicMode = isPublicMode(organization);
     const requiresLocation = organization?.config?.jurisdiction?.type === 'state';
     
@@ -897,7 +910,7 @@ class PromptBuilder {
     const locationFlagMessage = hasLocationFlag ? 
       `\nURGENT: The user's location is required before proceeding. Ask for their city and state immediately.` : '';
     
-    const isSkipToLawyer = context.userIntent === 'skip_to_lawyer' || 
+    const isSkipToLawyer = hasIntent(context, 'lawyer_contact') || 
                            context.conversationPhase === 'showing_contact_form';
     const skipToLawyerMessage = isSkipToLawyer ? 
       `\nURGENT: The user wants to skip the intake process and contact the legal organization directly. You MUST immediately show the contact form using the show_contact_form tool.` : '';
@@ -912,7 +925,7 @@ class PromptBuilder {
     
     return `You are a legal intake specialist for ${organizationName}.
 Current situation: ${context.legalIssueType ? `Client has ${context.legalIssueType} issue` : 'Gathering information'}${locationRequirement}${locationFlagMessage}${skipToLawyerMessage}
-Available tools: create_matter, show_contact_form, request_lawyer_review, create_payment_invoice
+${buildAvailableToolsSection(tools)}
 
 Rules:
 - CRITICAL: Use create_matter ONLY when you have ACTUAL values for: name + legal issue + contact info${requiresLocation ? ' + location' : ''}
@@ -923,6 +936,8 @@ Rules:
 - Only use tools when the user is ready to take action (create matter, contact form, etc.)
 - DO NOT use tools for general questions about legal processes, consultations, or explanations
 - Answer informational questions conversationally without calling any tools
+- If the client asks to book a consultation before the matter is created, tell them open consultation times are offered as soon as their matter is created; never promise a specific time
+- ${UNTRUSTED_DOCUMENT_NOTICE}
 
 DECISION TREE:
 1. Do you have the user's actual name (not "Client Name")? If NO → use show_contact_form
@@ -938,7 +953,7 @@ DECISION TREE:
 - When you don't yet have contact information, collect at least two concrete qualifiers (e.g., reason, timeline, urgency) before moving on.
 
 ${styleGuidance}
-
+${firmInstructions ? `\n${firmInstructions}\n` : ''}${questionnaireSection ? `\n${questionnaireSection}\n` : ''}${knowledgeSection ? `\n${knowledgeSection}\n` : ''}
 Tool calling format:
 TOOL_CALL: tool_name
 PARAMETERS: {valid JSON}
@@ -1058,9 +1073,10 @@ class ToolCallDetector {
 // SSE STREAMING UTILITIES
 // ============================================================================
 
-const STREAM_TOKEN_DELAY_MS = 15;
-
 class SSEController {
+  /** Reply and metadata of the last final event sent to the client. */
+  lastFinal?: { response: string; metadata?: Record<string, unknown> };
+
   constructor(
     private controller?: ReadableStreamDefaultController<Uint8Array>
   ) {}
@@ -1114,8 +1130,13 @@ class SSEController {
   async final(response: string, extra: Record<string, unknown> = {}): Promise<void> {
     const safeResponse = typeof response === 'string' && response.trim().length > 0
       ? response
-      : 'I apologize, but I encountered an error processing your request.';
+      : AI_ERROR_RESPONSE;
 
+    const metadata = extra.metadata;
+    this.lastFinal = {
+      response: safeResponse,
+      ...(metadata && typeof metadata === 'object' ? { metadata: metadata as Record<string, unknown> } : {})
+    };
     await this.emit({
       type: 'final',
       response: safeResponse,
@@ -1350,10 +1371,41 @@ function extractTextFromPayload(payload: unknown): string {
   return '';
 }
 
+interface ModelTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Provider-reported token usage (OpenAI-style `usage`), when the payload has it.
+ */
+function extractTokenUsage(payload: unknown): ModelTokenUsage | undefined {
+  if (!payload || typeof payload !== 'object') {
+    return undefined;
+  }
+
+  const payloadObj = payload as Record<string, unknown>;
+  const response = payloadObj.response as Record<string, unknown> | undefined;
+  const usage = (payloadObj.usage ?? (typeof response === 'object' ? response?.usage : undefined)) as Record<string, unknown> | undefined;
+  if (!usage || typeof usage !== 'object') {
+    return undefined;
+  }
+
+  const promptTokens = Number(usage.prompt_tokens ?? usage.input_tokens);
+  const completionTokens = Number(usage.completion_tokens ?? usage.output_tokens);
+  if (!Number.isFinite(promptTokens) || !Number.isFinite(completionTokens)) {
+    return undefined;
+  }
+  return { promptTokens, completionTokens };
+}
+
+/**
+ * Reads a streamed model reply. Nothing is forwarded to the client here: the
+ * text is only sent once the whole reply has passed compliance review.
+ */
 async function consumeAIStream(
-  stream: ReadableStream<Uint8Array>,
-  sse: SSEController
-): Promise<{ text: string; toolCalls: ToolCall[] }> {
+  stream: ReadableStream<Uint8Array>
+): Promise<{ text: string; toolCalls: ToolCall[]; usage?: ModelTokenUsage }> {
   const reader = stream.getReader();
   const decoder = new TextDecoder();
   const accumulator: ToolCallAccumulator = new Map();
@@ -1361,6 +1413,7 @@ async function consumeAIStream(
   let buffer = '';
   let fullText = '';
   let toolCalls: ToolCall[] = [];
+  let usage: ModelTokenUsage | undefined;
 
   try {
     while (true) {
@@ -1394,9 +1447,8 @@ async function consumeAIStream(
         const textDelta = extractTextFromPayload(payload);
         if (textDelta) {
           fullText += textDelta;
-          await sse.text(textDelta);
-          await sleep(STREAM_TOKEN_DELAY_MS);
         }
+        usage = extractTokenUsage(payload) ?? usage;
 
         const directCalls = extractDirectToolCalls(payload);
         if (directCalls.length > 0) {
@@ -1416,8 +1468,8 @@ async function consumeAIStream(
       const textDelta = extractTextFromPayload(payload);
       if (textDelta) {
         fullText += textDelta;
-        await sse.text(textDelta);
       }
+      usage = extractTokenUsage(payload) ?? usage;
 
       const directCalls = extractDirectToolCalls(payload);
       if (directCalls.length > 0) {
@@ -1434,7 +1486,7 @@ async function consumeAIStream(
     toolCalls = finalizeAccumulatedToolCalls(accumulator);
   }
 
-  return { text: fullText, toolCalls };
+  return { text: fullText, toolCalls, usage };
 }
 
 // ============================================================================
@@ -1442,15 +1494,42 @@ async function consumeAIStream(
 // ============================================================================
 
 class ToolExecutor {
+  private conversation?: { options: ToolCallResolutionOptions; complianceJurisdiction: string | null };
+
   constructor(
     private env: Env,
     private organization: Organization | null,
     private sse: SSEController,
     private correlationId: string,
     private sessionId?: string,
-    private organizationId?: string
+    private organizationId?: string,
+    private stateMachine?: IntakeStateMachine,
+    private questionnaire?: IntakeQuestionnaire,
+    private model?: string
   ) {}
 
+  /**
+   * Model that requested subsequent tool calls; set once fallback has picked one.
+   */
+  useModel(model: string): void {
+    this.model = model;
+  }
+
+  /**
+   * Prompt the current turn was answered from, so webhook results can go back
+   * to the model, and the jurisdiction its replies are reviewed for.
+   */
+  useConversation(options: ToolCallResolutionOptions, complianceJurisdiction: string | null): void {
+    this.conversation = { options, complianceJurisdiction };
+  }
+
+  /**
+   * Audits a call that was refused before reaching the executor.
+   */
+  async recordBlocked(toolCall: ToolCall, reason: string): Promise<void> {
+    await this.audit(toolCall.name, toolCall.arguments, 'blocked', undefined, reason);
+  }
+
   async execute(toolCall: ToolCall): Promise<void> {
     // Pre-flight check for placeholder values
     if (toolCall.name === 'create_matter') {
@@ -1466,6 +1545,23 @@ class ToolExecutor {
       }
     }
 
+    // Required questionnaire questions gate matter creation
+    if (toolCall.name === 'create_matter' && typeof toolCall.arguments?.matter_type === 'string') {
+      await this.questionnaire?.selectService(toolCall.arguments.matter_type);
+    }
+    const questionnaireProgress = this.questionnaire?.progress;
+    if (toolCall.name === 'create_matter' && questionnaireProgress && !questionnaireProgress.complete) {
+      Logger.info('Deferring create_matter until the intake questionnaire is complete', {
+        correlationId: this.correlationId,
+        sessionId: this.sessionId,
+        service: questionnaireProgress.service,
+        remainingRequired: questionnaireProgress.remainingRequired.map(question => question.id)
+      });
+      await this.audit(toolCall.name, toolCall.arguments, 'blocked', undefined, 'Intake questionnaire incomplete');
+      await this.sse.final(buildQuestionnaireFollowUp(questionnaireProgress));
+      return;
+    }
+
     await this.sse.emit({
       type: 'tool_call',
       name: toolCall.name,
@@ -1473,6 +1569,12 @@ class ToolExecutor {
     });
 
     const handler = TOOL_HANDLERS[toolCall.name as keyof typeof TOOL_HANDLERS];
+    const webhookTool = handler ? undefined : findWebhookTool(this.organization, toolCall.name);
+    if (webhookTool) {
+      await this.executeWebhookTool(webhookTool, toolCall);
+      return;
+    }
+
     if (!handler) {
       Logger.warn(`Unknown tool: ${toolCall.name}`);
       LegalIntakeLogger.logToolCall(
@@ -1485,6 +1587,7 @@ class ToolExecutor {
         undefined,
         new Error(`Unknown tool: ${toolCall.name}`)
       );
+      await this.audit(toolCall.name, toolCall.arguments, 'error', undefined, `Unknown tool: ${toolCall.name}`);
       await this.sse.error(`Unknown tool: ${toolCall.name}`, this.correlationId);
       return;
     }
@@ -1498,6 +1601,11 @@ class ToolExecutor {
       toolCall.arguments
     );
 
+    if (toolCall.name === 'create_matter') {
+      await this.stateMachine?.transition(ConversationState.CREATING_MATTER, 'tool:create_matter');
+    }
+
+    const startedAt = Date.now();
     try {
       const toolResult = await handler(
         toolCall.arguments,
@@ -1508,7 +1616,13 @@ class ToolExecutor {
         this.organizationId
       );
 
-      ToolUsageMonitor.recordToolUsage(toolCall.name, toolResult.success);
+      await this.audit(
+        toolCall.name,
+        toolCall.arguments,
+        toolResult.success ? 'success' : 'failure',
+        startedAt,
+        toolResult.success ? undefined : toolResult.error?.message ?? toolResult.message
+      );
       LegalIntakeLogger.logToolCall(
         this.correlationId,
         this.sessionId,
@@ -1525,6 +1639,8 @@ class ToolExecutor {
         result: toolResult
       });
 
+      await this.recordToolStateChange(toolCall.name, toolResult.success);
+
       // Special handling for contact form
       if (toolCall.name === 'show_contact_form' && toolResult.success) {
         await this.handleContactForm(toolResult);
@@ -1533,6 +1649,10 @@ class ToolExecutor {
 
       // Special handling for matter creation
       if (toolCall.name === 'create_matter' && toolResult.success) {
+        const createdMatterId = (toolResult.data as { matter_id?: unknown } | undefined)?.matter_id;
+        if (typeof createdMatterId === 'string') {
+          await this.questionnaire?.attachToMatter(createdMatterId);
+        }
         await this.handleMatterCreation(toolResult);
         return;
       }
@@ -1552,7 +1672,13 @@ class ToolExecutor {
       await this.sse.final(finalResponse);
     } catch (error) {
       Logger.error('Tool execution failed:', error);
-      ToolUsageMonitor.recordToolUsage(toolCall.name, false);
+      await this.audit(
+        toolCall.name,
+        toolCall.arguments,
+        'error',
+        startedAt,
+        error instanceof Error ? error.message : String(error)
+      );
       LegalIntakeLogger.logToolCall(
         this.correlationId,
         this.sessionId,
@@ -1563,10 +1689,146 @@ class ToolExecutor {
         undefined,
         error instanceof Error ? error : new Error(String(error))
       );
+      await this.recordToolStateChange(toolCall.name, false);
       await this.sse.error('Tool execution failed. Please try again.', this.correlationId);
     }
   }
 
+  private async executeWebhookTool(tool: OrganizationWebhookTool, toolCall: ToolCall): Promise<void> {
+    const state = this.stateMachine?.state;
+    if (state && !isWebhookToolAllowed(tool, state)) {
+      Logger.warn('Webhook tool not allowed in current state', {
+        tool: tool.name,
+        state,
+        correlationId: this.correlationId
+      });
+      await this.audit(tool.name, toolCall.arguments, 'blocked', undefined, `Not available in state ${state}`);
+      await this.sse.error(`Tool ${tool.name} is not available right now.`, this.correlationId);
+      return;
+    }
+
+    const [definition] = buildWebhookToolDefinitions(this.organization, state ?? ConversationState.GATHERING_INFORMATION)
+      .filter(candidate => candidate.name === tool.name);
+    const validation = validateToolArguments(
+      definition?.parameters ?? { type: 'object', properties: {}, required: [] },
+      toolCall.arguments
+    );
+
+    if (!validation.valid) {
+      await this.audit(tool.name, toolCall.arguments, 'failure', undefined, `Invalid arguments: ${validation.errors.join('; ')}`);
+      LegalIntakeLogger.logToolCall(
+        this.correlationId,
+        this.sessionId,
+        this.organizationId,
+        LegalIntakeOperation.TOOL_CALL_FAILED,
+        tool.name,
+        toolCall.arguments,
+        undefined,
+        new Error(`Invalid arguments: ${validation.errors.join('; ')}`)
+      );
+      await this.sse.emit({
+        type: 'tool_result',
+        name: tool.name,
+        result: { success: false, error: { message: validation.errors.join('; ') } }
+      });
+      await this.sse.final(`I need a bit more information before I can look that up: ${validation.errors.join('; ')}.`);
+      return;
+    }
+
+    LegalIntakeLogger.logToolCall(
+      this.correlationId,
+      this.sessionId,
+      this.organizationId,
+      LegalIntakeOperation.TOOL_CALL_START,
+      tool.name,
+      validation.value
+    );
+
+    const startedAt = Date.now();
+    const toolResult = await executeWebhookTool(tool, validation.value, {
+      correlationId: this.correlationId,
+      sessionId: this.sessionId,
+      organizationId: this.organizationId,
+      state
+    });
+
+    await this.audit(
+      tool.name,
+      validation.value,
+      toolResult.success ? 'success' : 'failure',
+      startedAt,
+      toolResult.success ? undefined : toolResult.error?.message ?? 'Webhook tool failed'
+    );
+    LegalIntakeLogger.logToolCall(
+      this.correlationId,
+      this.sessionId,
+      this.organizationId,
+      toolResult.success ? LegalIntakeOperation.TOOL_CALL_SUCCESS : LegalIntakeOperation.TOOL_CALL_FAILED,
+      tool.name,
+      validation.value,
+      toolResult.success ? toolResult : undefined,
+      toolResult.success ? undefined : new Error(toolResult.error?.message ?? 'Webhook tool failed')
+    );
+
+    // The client only learns whether the call worked; what the webhook returned goes to the model
+    await this.sse.emit({
+      type: 'tool_result',
+      name: tool.name,
+      result: { success: toolResult.success }
+    });
+    if (!toolResult.success) {
+      await this.sse.final(toolResult.error?.message ?? AI_ERROR_RESPONSE);
+      return;
+    }
+
+    const answer = this.conversation
+      ? await answerFromWebhookResult({ name: tool.name, arguments: validation.value }, toolResult, this.conversation.options)
+      : null;
+    const compliance = reviewResponseCompliance(
+      answer ?? `I've completed the ${tool.name.replace(/_/g, ' ')} request.`,
+      this.organization?.config?.compliance,
+      this.conversation?.complianceJurisdiction ?? null
+    );
+    const complianceMetadata = toComplianceMetadata(compliance);
+    await this.sse.text(compliance.response);
+    await this.sse.final(compliance.response, complianceMetadata ? { metadata: { compliance: complianceMetadata } } : {});
+  }
+
+  private async audit(
+    toolName: string,
+    args: unknown,
+    outcome: ToolCallOutcome,
+    startedAt?: number,
+    errorMessage?: string
+  ): Promise<void> {
+    await new ToolAuditService(this.env).record({
+      organizationId: this.organizationId,
+      sessionId: this.sessionId,
+      correlationId: this.correlationId,
+      toolName,
+      arguments: args,
+      outcome,
+      errorMessage,
+      latencyMs: startedAt === undefined ? undefined : Date.now() - startedAt,
+      model: this.model
+    });
+  }
+
+  private async recordToolStateChange(toolName: string, succeeded: boolean): Promise<void> {
+    if (!this.stateMachine) {
+      return;
+    }
+
+    if (toolName === 'show_contact_form' && succeeded) {
+      await this.stateMachine.transition(ConversationState.SHOWING_CONTACT_FORM, 'tool:show_contact_form');
+    } else if (toolName === 'create_matter') {
+      await this.stateMachine.transition(
+        succeeded ? ConversationState.COMPLETED : ConversationState.READY_TO_CREATE_MATTER,
+        succeeded ? 'tool:create_matter:success' : 'tool:create_matter:failed'
+      );
+    }
+  }
+
   private hasPlaceholders(params: Record<string, unknown>): boolean {
     const { name, email, phone, location } = params;
     
@@ -1807,7 +2069,7 @@ async function handleCreateMatter(
 
   const finalUrgency = urgency || 'unknown';
   
-  // Process payment
+  // Invoice request, sent only once the matter has been saved
   const paymentRequest = {
     customerInfo: {
       name: name as string,
@@ -1829,11 +2091,88 @@ async function handleCreateMatter(
     throw new Error('Organization ID not configured - cannot process payment');
   }
 
-  const { invoiceUrl, paymentId } = await PaymentServiceFactory.processPayment(
-    env, 
-    paymentRequest, 
-    organization
-  );
+  // Screen for conflicts before anything is accepted or billed
+  const conflictConfig = organization?.config?.conflictCheck;
+  const conflictCheck = ConflictCheckService.isEnabled(conflictConfig)
+    ? await new ConflictCheckService(env).check({
+        organizationId: paymentRequest.organizationId,
+        clientName: name as string,
+        opposingParty: (opposing_party as string) || null
+      }, conflictConfig)
+    : null;
+  const holdForReview = conflictCheck !== null && ConflictCheckService.shouldBlockAutoAcceptance(conflictConfig, conflictCheck);
+
+  // Estimate the filing deadline from the incident date mentioned during intake
+  const deadlineEstimate = await new DeadlineService(env).estimateForIntake({
+    organization,
+    organizationId,
+    sessionId,
+    matterType: matter_type as string,
+    location: (location as string) || undefined,
+    description: description as string
+  });
+  const deadlineNear = isDeadlineNear(deadlineEstimate);
+
+  const matterId = await saveIntakeMatter(env, {
+    organizationId: paymentRequest.organizationId,
+    sessionId: paymentRequest.sessionId,
+    matterType: matter_type as string,
+    description: description as string,
+    urgency: finalUrgency,
+    name: name as string,
+    email: (email as string) || null,
+    phone: (phone as string) || null,
+    opposingParty: (opposing_party as string) || null,
+    conflictCheck,
+    holdForReview,
+    deadlineEstimate
+  });
+
+  // Without a matter row the intake is not complete; fail so the client can retry
+  if (!matterId) {
+    return {
+      success: false,
+      error: {
+        message: 'Failed to save intake matter',
+        toUserResponse: () => "I wasn't able to save your matter just now. Please try submitting again in a moment."
+      }
+    };
+  }
+
+  // Bill only after the save succeeded, so a retry after a failed save does not create a second invoice
+  const { invoiceUrl, paymentId } = holdForReview
+    ? { invoiceUrl: null, paymentId: null }
+    : await PaymentServiceFactory.processPayment(
+      env, 
+      paymentRequest, 
+      organization
+    );
+
+  if (deadlineEstimate && deadlineNear) {
+    const { NotificationService } = await import('../../services/NotificationService.js');
+    await new NotificationService(env).sendDeadlineWarningNotification({
+      type: 'deadline_warning',
+      organizationConfig: organization,
+      matterInfo: {
+        type: matter_type as string,
+        urgency: finalUrgency,
+        description: description as string
+      },
+      clientInfo: {
+        name: name as string,
+        email: (email as string) || undefined,
+        phone: (phone as string) || undefined
+      },
+      deadlineInfo: {
+        deadline: deadlineEstimate.deadline,
+        daysRemaining: deadlineEstimate.daysRemaining,
+        incidentDate: deadlineEstimate.incidentDate,
+        state: deadlineEstimate.state,
+        rule: deadlineEstimate.period.description,
+        matterId
+      }
+    });
+  }
 
   const orchestrationResult = await ContactIntakeOrchestrator.finalizeSubmission({
     env,
@@ -1853,7 +2192,7 @@ async function handleCreateMatter(
     }
   });
 
-  const requiresPayment = organization?.config?.requiresPayment || false;
+  const requiresPayment = !holdForReview && (organization?.config?.requiresPayment || false);
   const consultationFee = organization?.config?.consultationFee || 0;
 
   const { generateCompleteMatterMessage } = await import('../../utils/messageTemplates');
@@ -1880,14 +2219,19 @@ async function handleCreateMatter(
     urgency: finalUrgency,
     requiresPayment: requiresPayment && consultationFee > 0,
     consultationFee,
-    paymentLink: invoiceUrl || organization?.config?.paymentLink,
+    paymentLink: holdForReview ? undefined : invoiceUrl || organization?.config?.paymentLink,
     pdfFilename: orchestrationResult.pdf?.filename,
-    missingInfo
+    pendingReview: holdForReview,
+    missingInfo,
+    deadlineWarning: deadlineEstimate && deadlineNear
+      ? { deadline: deadlineEstimate.deadline, daysRemaining: deadlineEstimate.daysRemaining }
+      : undefined
   };
 
   const summaryMessage = generateCompleteMatterMessage(matterData);
 
   return createSuccessResponse(summaryMessage, {
+    matter_id: matterId,
     matter_type: matter_type as string,
     description: description as string,
     urgency: finalUrgency,
@@ -1898,7 +2242,8 @@ async function handleCreateMatter(
     opposing_party: opposing_party as string,
     requires_payment: requiresPayment,
     consultation_fee: consultationFee,
-    payment_link: invoiceUrl || organization?.config?.paymentLink,
+    payment_link: holdForReview ? null : invoiceUrl || organization?.config?.paymentLink,
+    pending_review: holdForReview,
     payment_embed: invoiceUrl ? {
       paymentUrl: invoiceUrl,
       amount: consultationFee,
@@ -1910,6 +2255,80 @@ async function handleCreateMatter(
   });
 }
 
+interface IntakeMatterInput {
+  organizationId: string;
+  sessionId: string;
+  matterType: string;
+  description: string;
+  urgency: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  opposingParty: string | null;
+  conflictCheck: ConflictCheckResult | null;
+  holdForReview: boolean;
+  deadlineEstimate: DeadlineEstimate | null;
+}
+
+/**
+ * Saves the intake lead. Potential conflicts are tagged and stored on the matter so they
+ * show up in the review queue; when the organization blocks auto-acceptance the matter is
+ * saved as pending_review. Conflict details stay server-side and are never sent to the client.
+ * An estimated filing deadline fills statute_of_limitations, and a near one raises the priority.
+ * Returns null when the matter could not be written.
+ */
+async function saveIntakeMatter(env: Env, input: IntakeMatterInput): Promise<string | null> {
+  const flagged = input.conflictCheck?.status === 'potential_conflict';
+  const deadline = input.deadlineEstimate;
+  const deadlineNear = isDeadlineNear(deadline);
+  const tags = [...(flagged ? [CONFLICT_TAG] : []), ...(deadlineNear ? [DEADLINE_TAG] : [])];
+
+  try {
+    const matterId = await createMatterRecord(
+      env,
+      input.organizationId,
+      input.sessionId,
+      input.matterType,
+      input.description,
+      input.urgency,
+      undefined,
+      {
+        clientName: input.name,
+        clientEmail: input.email,
+        clientPhone: input.phone,
+        opposingParty: input.opposingParty,
+        status: input.holdForReview ? 'pending_review' : 'lead',
+        priority: deadlineNear ? 'high' : undefined,
+        statuteOfLimitations: deadline?.deadline ?? null,
+        courtJurisdiction: deadline ? getStateName(deadline.state) ?? deadline.state : null,
+        tags,
+        customFields: {
+          ...(input.conflictCheck ? { conflictCheck: input.conflictCheck } : {}),
+          ...(deadline ? { deadlineEstimate: deadline } : {})
+        }
+      }
+    );
+
+    if (flagged) {
+      Logger.warn('Potential conflict of interest flagged on intake matter', {
+        matterId,
+        organizationId: input.organizationId,
+        hits: input.conflictCheck?.hits.length ?? 0,
+        heldForReview: input.holdForReview
+      });
+    }
+
+    return matterId;
+  } catch (error) {
+    Logger.warn('Failed to save intake matter', {
+      organizationId: input.organizationId,
+      sessionId: input.sessionId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
 async function handleRequestLawyerReview(
   parameters: Record<string, unknown>,
   env: Env,
@@ -2211,11 +2630,194 @@ async function handleShowContactForm(
   }
 }
 
+async function updateSchedulingContext(
+  env: Env,
+  sessionId: string,
+  organizationId: string,
+  patch: { consultationSlots?: string[]; pendingConsultationSlot?: string }
+): Promise<void> {
+  const context = await ConversationContextManager.load(sessionId, organizationId, env);
+  await ConversationContextManager.save({ ...context, ...patch }, env);
+}
+
+/**
+ * Picks the schedule_consultation call for a completed intake: reading back
+ * the slot the client picked from the list offered last turn, booking it when
+ * they confirm that read-back, and listing when they ask to talk to someone.
+ * Returns null for anything else.
+ */
+async function resolveSchedulingToolCall(
+  env: Env,
+  sessionId: string,
+  organizationId: string,
+  messages: readonly AgentMessage[]
+): Promise<ToolCall | null> {
+  const latest = messages.filter(msg => msg.role === 'user' || msg.isUser).pop()?.content ?? '';
+  if (!latest.trim()) {
+    return null;
+  }
+
+  const context = await ConversationContextManager.load(sessionId, organizationId, env);
+  const offeredSlots = context.consultationSlots ?? [];
+  const pendingSlot = context.pendingConsultationSlot;
+
+  if (pendingSlot && isSlotConfirmation(latest)) {
+    await updateSchedulingContext(env, sessionId, organizationId, { consultationSlots: [] });
+    return { name: 'schedule_consultation', arguments: { slot_id: pendingSlot } };
+  }
+
+  // A slot list or read-back only answers the turn right after it was shown
+  if (offeredSlots.length > 0 || pendingSlot) {
+    await updateSchedulingContext(env, sessionId, organizationId, { consultationSlots: [], pendingConsultationSlot: undefined });
+  }
+
+  const chosenSlot = resolveSlotChoice(latest, offeredSlots);
+  if (chosenSlot) {
+    return { name: 'schedule_consultation', arguments: { slot_id: chosenSlot } };
+  }
+
+  return isSchedulingRequest(latest) ? { name: 'schedule_consultation', arguments: {} } : null;
+}
+
+/**
+ * Lists open consultation slots for the session's matter, or books the chosen one.
+ * A slot is first read back for the client to confirm and only booked when the
+ * same slot_id comes back after that. Bookings become 'meeting' matter_events
+ * and both sides receive an ICS invite.
+ */
+async function handleScheduleConsultation(
+  parameters: Record<string, unknown>,
+  env: Env,
+  organization: Organization | null,
+  correlationId?: string,
+  sessionId?: string,
+  organizationId?: string
+): Promise<ToolResult> {
+  const { slot_id, preferred_date } = parameters as { slot_id?: string; preferred_date?: string };
+  const effectiveOrganizationId = organization?.id || organizationId;
+
+  if (!effectiveOrganizationId || !sessionId) {
+    return createValidationError("I couldn't find your case file for this conversation. Let's create your matter first.");
+  }
+
+  const schedulingService = new SchedulingService(env);
+
+  try {
+    const matter = await schedulingService.findMatterForSession(effectiveOrganizationId, sessionId);
+    if (!matter) {
+      return createValidationError("Let's finish creating your matter first, then I can find a time for you to talk with a lawyer.");
+    }
+
+    if (slot_id) {
+      const context = await ConversationContextManager.load(sessionId, effectiveOrganizationId, env);
+      if (context.pendingConsultationSlot !== slot_id) {
+        const slot = await schedulingService.findSlot(effectiveOrganizationId, slot_id);
+        if (!slot) {
+          return createValidationError('That time is no longer available. Would you like me to look for other open times?');
+        }
+
+        await updateSchedulingContext(env, sessionId, effectiveOrganizationId, { pendingConsultationSlot: slot_id });
+        return createSuccessResponse(`Just to confirm: a consultation with ${slot.lawyerName} on ${formatSlot(slot)}. Reply "yes" and I'll book it.`, {
+          matter_id: matter.id,
+          pending_slot_id: slot_id
+        });
+      }
+
+      await updateSchedulingContext(env, sessionId, effectiveOrganizationId, { pendingConsultationSlot: undefined });
+      const booking = await schedulingService.bookConsultation({
+        organizationId: effectiveOrganizationId,
+        matterId: matter.id,
+        slotId: slot_id,
+        client: { name: matter.clientName, email: matter.clientEmail },
+        matterType: matter.matterType,
+        sessionId
+      });
+
+      if (!booking) {
+        return createValidationError('That time is no longer available. Would you like me to look for other open times?');
+      }
+
+      const when = formatSlot(booking.slot);
+      const { NotificationService } = await import('../../services/NotificationService.js');
+      await new NotificationService(env).sendConsultationBookedNotification({
+        type: 'consultation_booked',
+        organizationConfig: organization,
+        matterInfo: { type: matter.matterType },
+        clientInfo: {
+          name: matter.clientName,
+          email: matter.clientEmail ?? undefined,
+          phone: matter.clientPhone ?? undefined
+        },
+        consultationInfo: {
+          matterId: matter.id,
+          lawyerName: booking.slot.lawyerName,
+          lawyerEmail: booking.lawyerEmail,
+          when,
+          clientIcs: booking.clientIcs,
+          lawyerIcs: booking.lawyerIcs
+        }
+      });
+
+      const inviteNote = matter.clientEmail
+        ? ` A calendar invite is on its way to ${matter.clientEmail}.`
+        : '';
+      return createSuccessResponse(`You're booked with ${booking.slot.lawyerName} on ${when}.${inviteNote}`, {
+        matter_id: matter.id,
+        event_id: booking.eventId,
+        lawyer_name: booking.slot.lawyerName,
+        start: booking.slot.start,
+        end: booking.slot.end,
+        timezone: booking.slot.timezone
+      });
+    }
+
+    const from = preferred_date && !Number.isNaN(Date.parse(preferred_date)) ? new Date(`${preferred_date}T00:00:00Z`) : undefined;
+    const slots = await schedulingService.findOpenSlots(effectiveOrganizationId, {
+      matterType: matter.matterType,
+      from
+    });
+
+    if (slots.length === 0) {
+      return createSuccessResponse(
+        "I don't see any open consultation times in the next two weeks. A member of our team will reach out to schedule with you directly.",
+        { matter_id: matter.id, slots: [] }
+      );
+    }
+
+    await updateSchedulingContext(env, sessionId, effectiveOrganizationId, { consultationSlots: slots.map(slot => slot.slotId) });
+    const options = slots.map((slot, index) => `${index + 1}. ${formatSlot(slot)} with ${slot.lawyerName}`);
+    return createSuccessResponse(`Here are the next open consultation times:\n${options.join('\n')}\n\nReply with the number of the time that works best for you.`, {
+      matter_id: matter.id,
+      slots: slots.map(slot => ({
+        slot_id: slot.slotId,
+        lawyer_name: slot.lawyerName,
+        start: slot.start,
+        end: slot.end,
+        timezone: slot.timezone
+      }))
+    });
+  } catch (error) {
+    Logger.error('[handleScheduleConsultation] Unexpected error:', error);
+    const validationError = new ValidationError(
+      "I couldn't reach the scheduling calendar just now. Please try again in a moment.",
+      {
+        originalError: error instanceof Error ? error.message : String(error),
+        method: 'handleScheduleConsultation',
+        correlationId,
+        sessionId,
+        organizationId
+      }
+    );
+    return createErrorResult(validationError);
+  }
+}
+
 const TOOL_HANDLERS = {
   show_contact_form: handleShowContactForm,
   create_matter: handleCreateMatter,
   request_lawyer_review: handleRequestLawyerReview,
-  create_payment_invoice: handleCreatePaymentInvoice
+  create_payment_invoice: handleCreatePaymentInvoice,
+  schedule_consultation: handleScheduleConsultation
 } as const;
 
 // ============================================================================
@@ -2231,7 +2833,18 @@ const TOOL_HANDLERS = {
 // MAIN AGENT ORCHESTRATOR
 // ============================================================================
 
-function getAvailableTools(state: ConversationState, context: ConversationContext, attachments: readonly FileAttachment[] = []): ToolDefinition[] {
+function getAvailableTools(
+  state: ConversationState,
+  attachments: readonly FileAttachment[] = [],
+  organization: Organization | null = null,
+  questionnaireComplete = true
+): ToolDefinition[] {
+  const builtInTools = getBuiltInTools(state, attachments)
+    .filter(tool => questionnaireComplete || tool.name !== createMatter.name);
+  return [...builtInTools, ...buildWebhookToolDefinitions(organization, state)];
+}
+
+function getBuiltInTools(state: ConversationState, attachments: readonly FileAttachment[] = []): ToolDefinition[] {
   const _hasAttachments = Array.isArray(attachments) && attachments.length > 0;
   
   // Document analysis is now handled automatically by fileAnalysisMiddleware in the pipeline
@@ -2246,24 +2859,39 @@ function getAvailableTools(state: ConversationState, context: ConversationContex
     case ConversationState.GATHERING_INFORMATION:
       return analysisTools;
     case ConversationState.QUALIFYING_LEAD:
-      return context.isQualifiedLead ? [...analysisTools, showContactForm] : analysisTools;
     case ConversationState.SHOWING_CONTACT_FORM:
       return [...analysisTools, showContactForm];
     case ConversationState.READY_TO_CREATE_MATTER:
     case ConversationState.CREATING_MATTER:
       return [...analysisTools, createMatter, showContactForm];
-    case ConversationState.COMPLETED:
-      return [...analysisTools, createMatter, showContactForm, requestLawyerReview, createPaymentInvoice];
     default:
       return analysisTools;
   }
 }
 
-function buildPromptMessages(messages: readonly AgentMessage[]): Array<{ role: 'user' | 'assistant' | 'system'; content: string }> {
-  return messages.map(msg => ({
-    role: msg.role || (msg.isUser ? 'user' : 'assistant'),
-    content: msg.content || ''
-  }));
+/**
+ * Folds older turns into a rolling summary with a non-streaming call on the
+ * session's execution plan.
+ */
+async function summarizeConversation(
+  env: Env,
+  messages: ProviderBasePayload['messages'],
+  executionPlan: AIExecutionPlan,
+  organization: Organization | null
+): Promise<string> {
+  const execution = await executeModelWithFallback<unknown>(env, {
+    messages,
+    tools: [],
+    max_tokens: SUMMARY_MAX_TOKENS,
+    temperature: 0,
+    stream: false
+  }, executionPlan, organization);
+
+  const summary = extractAIResponse(execution.result);
+  if (summary === AI_ERROR_RESPONSE) {
+    throw new Error('Summarization returned no text');
+  }
+  return summary;
 }
 
 function extractAIResponse(aiResult: unknown): string {
@@ -2273,7 +2901,7 @@ function extractAIResponse(aiResult: unknown): string {
   }
   
   if (!aiResult || typeof aiResult !== 'object') {
-    return 'I apologize, but I encountered an error processing your request.';
+    return AI_ERROR_RESPONSE;
   }
 
   const result = aiResult as Record<string, unknown>;
@@ -2301,7 +2929,7 @@ function extractAIResponse(aiResult: unknown): string {
         
         if (outputText && typeof outputText === 'object' && 'text' in outputText) {
           const text = (outputText as Record<string, unknown>).text;
-          return typeof text === 'string' ? text : 'I apologize, but I encountered an error processing your request.';
+          return typeof text === 'string' ? text : AI_ERROR_RESPONSE;
         }
       }
     }
@@ -2320,7 +2948,217 @@ function extractAIResponse(aiResult: unknown): string {
     return result.text;
   }
   
-  return 'I apologize, but I encountered an error processing your request.';
+  return AI_ERROR_RESPONSE;
+}
+
+interface ToolCallResolutionOptions {
+  env: Env;
+  organization: Organization | null;
+  executionPlan: AIExecutionPlan;
+  availableTools: readonly ToolDefinition[];
+  promptMessages: ProviderBasePayload['messages'];
+  correlationId: string;
+  sessionId?: string;
+  organizationId?: string;
+}
+
+/**
+ * Validates a model tool call against its compiled parameter schema. Invalid arguments get
+ * one structured repair prompt; if the model answers in text (e.g. asking the user for a
+ * missing value) or still cannot produce valid arguments, `response` is returned instead.
+ */
+async function resolveToolCall(
+  toolCall: ToolCall,
+  options: ToolCallResolutionOptions
+): Promise<{ toolCall?: ToolCall; response?: string }> {
+  const { correlationId, sessionId, organizationId } = options;
+  const definition = options.availableTools.find(tool => tool.name === toolCall.name);
+  if (!definition) {
+    // Callers only resolve tools offered in this state
+    return { toolCall };
+  }
+
+  const validation = validateToolArguments(definition.parameters, toolCall.arguments);
+  if (validation.valid) {
+    return { toolCall: { name: toolCall.name, arguments: validation.value } };
+  }
+
+  LegalIntakeLogger.logToolValidation(
+    correlationId,
+    sessionId,
+    organizationId,
+    LegalIntakeOperation.VALIDATION_FAILED,
+    toolCall.name,
+    1,
+    validation.issues
+  );
+  LegalIntakeLogger.logToolValidation(
+    correlationId,
+    sessionId,
+    organizationId,
+    LegalIntakeOperation.TOOL_ARGUMENT_REPAIR,
+    toolCall.name,
+    2,
+    validation.issues
+  );
+
+  let repairedCall: ToolCall | null = null;
+  try {
+    const repair = await executeModelWithFallback<unknown>(options.env, {
+      messages: [
+        ...options.promptMessages,
+        { role: 'assistant', content: `TOOL_CALL: ${toolCall.name}\nPARAMETERS: ${JSON.stringify(toolCall.arguments ?? {})}` },
+        // A user turn, since the Workers AI input format only keeps the leading system prompt
+        { role: 'user', content: buildToolRepairPrompt(toolCall.name, validation.issues) }
+      ],
+      tools: [definition],
+      max_tokens: options.executionPlan.maxTokens,
+      temperature: 0,
+      stream: false
+    }, options.executionPlan, options.organization);
+
+    // Same parsing as the main turn: native tool calls, then the text TOOL_CALL format
+    const text = extractAIResponse(repair.result);
+    repairedCall = extractDirectToolCalls(repair.result)[0] ?? ToolCallDetector.detect(text);
+    if (!repairedCall && text.trim() && text !== AI_ERROR_RESPONSE) {
+      return { response: text };
+    }
+  } catch (error) {
+    Logger.warn('Tool argument repair call failed', {
+      tool: toolCall.name,
+      correlationId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  if (repairedCall && repairedCall.name === toolCall.name) {
+    const repaired = validateToolArguments(definition.parameters, repairedCall.arguments);
+    if (repaired.valid) {
+      LegalIntakeLogger.logToolValidation(
+        correlationId,
+        sessionId,
+        organizationId,
+        LegalIntakeOperation.VALIDATION_SUCCESS,
+        toolCall.name,
+        2
+      );
+      return { toolCall: { name: toolCall.name, arguments: repaired.value } };
+    }
+
+    LegalIntakeLogger.logToolValidation(
+      correlationId,
+      sessionId,
+      organizationId,
+      LegalIntakeOperation.VALIDATION_FAILED,
+      toolCall.name,
+      2,
+      repaired.issues
+    );
+    return { response: buildInvalidArgumentsMessage(repaired.issues) };
+  }
+
+  return { response: buildInvalidArgumentsMessage(validation.issues) };
+}
+
+/**
+ * Hands a webhook result back to the model as the tool's output and returns the
+ * model's answer, or null when it fails or only tries to call another tool.
+ */
+async function answerFromWebhookResult(
+  toolCall: ToolCall,
+  result: WebhookToolResult,
+  options: ToolCallResolutionOptions
+): Promise<string | null> {
+  try {
+    const followUp = await executeModelWithFallback<unknown>(options.env, {
+      messages: [
+        ...options.promptMessages,
+        { role: 'assistant', content: `TOOL_CALL: ${toolCall.name}\nPARAMETERS: ${JSON.stringify(toolCall.arguments ?? {})}` },
+        // A user turn, since the Workers AI input format only keeps the leading system prompt
+        { role: 'user', content: buildWebhookToolResultPrompt(toolCall.name, result) }
+      ],
+      tools: [],
+      max_tokens: options.executionPlan.maxTokens,
+      temperature: options.executionPlan.temperature,
+      stream: false
+    }, options.executionPlan, options.organization);
+
+    const text = extractAIResponse(followUp.result);
+    if (!text.trim() || text === AI_ERROR_RESPONSE || ToolCallDetector.detect(text)) {
+      return null;
+    }
+    return text;
+  } catch (error) {
+    Logger.warn('Webhook tool follow-up call failed', {
+      tool: toolCall.name,
+      correlationId: options.correlationId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+/**
+ * Whether the organization has used up its monthly tier quota. Quota lookups
+ * fail open: a metering outage must not take the chat down.
+ */
+async function isUsageQuotaExceeded(
+  env: Env,
+  organization: Organization,
+  correlationId: string,
+  sessionId?: string
+): Promise<boolean> {
+  try {
+    const status = await new UsageService(env).checkQuota(organization, sessionId);
+    if (status.exceeded) {
+      Logger.warn('Organization usage quota exceeded; degrading to contact form', {
+        correlationId,
+        sessionId,
+        organizationId: organization.id,
+        tier: status.tier,
+        exceededLimit: status.exceededLimit,
+        monthToDate: status.monthToDate
+      });
+    }
+    return status.exceeded;
+  } catch (error) {
+    Logger.warn('Usage quota check failed', {
+      correlationId,
+      sessionId,
+      organizationId: organization.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return false;
+  }
+}
+
+/**
+ * Knowledge base passages relevant to the latest user message. Retrieval is best
+ * effort: on failure the agent answers without firm-specific grounding.
+ */
+async function retrieveKnowledge(
+  env: Env,
+  organizationId: string,
+  messages: readonly AgentMessage[],
+  correlationId: string,
+  sessionId?: string
+): Promise<KnowledgePassage[]> {
+  const latest = messages.filter(msg => msg.role === 'user' || msg.isUser).pop()?.content ?? '';
+  if (!latest.trim()) {
+    return [];
+  }
+
+  try {
+    return await new KnowledgeBaseService(env).search(organizationId, latest);
+  } catch (error) {
+    Logger.warn('Knowledge base retrieval failed', {
+      correlationId,
+      sessionId,
+      organizationId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return [];
+  }
 }
 
 function hasToolCalls(aiResult: unknown): aiResult is { tool_calls: ToolCall[] } {
@@ -2331,6 +3169,54 @@ function hasToolCalls(aiResult: unknown): aiResult is { tool_calls: ToolCall[] }
          ((aiResult as Record<string, unknown>).tool_calls as unknown[]).length > 0;
 }
 
+/**
+ * Whether the session's contact form was saved through /api/forms.
+ */
+async function hasSubmittedContactForm(env: Env, sessionId: string, organizationId: string): Promise<boolean> {
+  try {
+    const row = await env.DB.prepare(
+      'SELECT id FROM contact_forms WHERE organization_id = ? AND conversation_id = ? LIMIT 1'
+    ).bind(organizationId, sessionId).first();
+    return row !== null;
+  } catch (error) {
+    Logger.warn('Failed to look up contact form submission', {
+      sessionId,
+      organizationId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return false;
+  }
+}
+
+/**
+ * Saves the assistant reply of a model turn to chat_messages. A failed write
+ * only costs the transcript entry, so it is logged rather than surfaced.
+ */
+async function persistAssistantReply(
+  env: Env,
+  sessionId: string,
+  organizationId: string,
+  model: string,
+  reply: NonNullable<SSEController['lastFinal']>
+): Promise<void> {
+  try {
+    await SessionService.persistMessage(env, {
+      sessionId,
+      organizationId,
+      role: 'assistant',
+      content: reply.response,
+      metadata: { ...reply.metadata, type: 'ai_response', model },
+      tokenCount: estimateTokens(reply.response)
+    });
+  } catch (error) {
+    Logger.warn('Failed to persist assistant reply', {
+      sessionId,
+      organizationId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
 export async function runLegalIntakeAgentStream(
   env: Env,
   messages: readonly AgentMessage[],
@@ -2339,19 +3225,29 @@ export async function runLegalIntakeAgentStream(
   cloudflareLocation?: CloudflareLocation,
   controller?: ReadableStreamDefaultController<Uint8Array>,
   attachments: readonly FileAttachment[] = [],
-  executionOverrides: AIExecutionOverrides = {}
+  executionOverrides: AIExecutionOverrides = {},
+  userIntent?: UserIntent
 ): Promise<AgentResponse | void> {
   Logger.initialize({ DEBUG: env.DEBUG, NODE_ENV: env.NODE_ENV });
   
   const correlationId = LegalIntakeLogger.generateCorrelationId();
   const sse = new SSEController(controller);
+  let stateMachine: IntakeStateMachine | undefined;
+  let questionnaire: IntakeQuestionnaire | undefined;
 
   try {
     await sse.emit({ type: 'connected' });
 
     const organization = organizationId ? await organizationCache.get(organizationId, env) : null;
-    const executionPlan = resolveAIExecutionPlan(env, organization, executionOverrides);
-    const executor = new ToolExecutor(env, organization, sse, correlationId, sessionId, organizationId);
+    const experiment = organizationId && sessionId
+      ? await new ExperimentService(env).assignSession(organizationId, sessionId)
+      : null;
+    // Explicit request overrides win over the experiment arm
+    const executionPlan = resolveAIExecutionPlan(env, organization, {
+      provider: executionOverrides.provider ?? experiment?.arm.provider,
+      model: executionOverrides.model ?? experiment?.arm.model
+    });
+    stateMachine = await IntakeStateMachine.load(env, { correlationId, sessionId, organizationId });
 
     LegalIntakeLogger.logAgentStart(
       correlationId,
@@ -2368,18 +3264,25 @@ export async function runLegalIntakeAgentStream(
       .map(msg => `${msg.role || (msg.isUser ? 'user' : 'assistant')}: ${msg.content || ''}`)
       .join('\n');
 
-    // Check for completion state
-    const hasCompletionCues = 
-      safeIncludes(conversationText.toLowerCase(), 'matter created') ||
-      safeIncludes(conversationText.toLowerCase(), 'consultation fee') ||
-      safeIncludes(conversationText.toLowerCase(), 'already helped you create a matter');
+    // Check for completion state; the matter row create_matter wrote is the record, not the client's history
+    const hasCreatedMatter = stateMachine.state !== ConversationState.COMPLETED && sessionId && organizationId
+      ? await new SchedulingService(env).findMatterForSession(organizationId, sessionId) !== null
+      : false;
+    if (hasCreatedMatter) {
+      // A turn that stopped between the insert and saving the state
+      await stateMachine.transition(ConversationState.COMPLETED, 'history:create_matter');
+    }
 
-    const hasToolInvocation = messages.some(msg =>
-      msg.metadata?.toolName === 'create_matter' ||
-      (msg.content && safeIncludes(msg.content, 'TOOL_CALL: create_matter'))
-    );
+    if (stateMachine.state === ConversationState.COMPLETED || hasCreatedMatter) {
+      // Once the matter exists, scheduling requests and slot picks go straight to schedule_consultation
+      const schedulingCall = controller && sessionId && organizationId
+        ? await resolveSchedulingToolCall(env, sessionId, organizationId, messages)
+        : null;
+      if (schedulingCall) {
+        await new ToolExecutor(env, organization, sse, correlationId, sessionId, organizationId, stateMachine).execute(schedulingCall);
+        return;
+      }
 
-    if (hasCompletionCues || hasToolInvocation) {
       const completionMessage = 
         "I've already helped you create a matter for your case. A lawyer will contact you within 24 hours to discuss your situation further. Is there anything else I can help you with?";
 
@@ -2401,8 +3304,41 @@ export async function runLegalIntakeAgentStream(
       return;
     }
 
-    // Detect context
-    const context = ContextDetector.detectContext(conversationText);
+    // Only server-side facts move the persisted state forward: the conversation starting,
+    // the pipeline's classified intent and a saved contact form. Tools drive the rest.
+    await stateMachine.advanceTo(ConversationState.GATHERING_INFORMATION, 'conversation_started');
+    if (hasIntent({ userIntent }, 'intake')) {
+      await stateMachine.advanceTo(ConversationState.QUALIFYING_LEAD, 'intent:intake');
+    }
+    if (
+      sessionId && organizationId
+      && isLegalTransition(stateMachine.state, ConversationState.READY_TO_CREATE_MATTER)
+      && await hasSubmittedContactForm(env, sessionId, organizationId)
+    ) {
+      await stateMachine.transition(ConversationState.READY_TO_CREATE_MATTER, 'event:contact_form_submitted');
+    }
+
+    const context = ContextDetector.detectContext(conversationText, stateMachine.state);
+    context.userIntent = userIntent;
+
+    questionnaire = await IntakeQuestionnaire.load(
+      env,
+      { correlationId, sessionId, organizationId },
+      organization,
+      context.legalIssueType
+    );
+    await questionnaire.update(messages);
+    const executor = new ToolExecutor(
+      env,
+      organization,
+      sse,
+      correlationId,
+      sessionId,
+      organizationId,
+      stateMachine,
+      questionnaire,
+      executionPlan.model
+    );
 
     // Get available tools and build prompt
     if (shouldShowContactFormPreemptively(context, organization, messages)) {
@@ -2411,8 +3347,28 @@ export async function runLegalIntakeAgentStream(
       return;
     }
 
-    const availableTools = getAvailableTools(context.state, context, attachments);
-    const systemPrompt = PromptBuilder.build(context, organization, organizationId);
+    if (organization && await isUsageQuotaExceeded(env, organization, correlationId, sessionId)) {
+      // Out of quota: collect contact details instead of calling the model
+      await executor.execute({ name: 'show_contact_form', arguments: {} });
+      return;
+    }
+
+    const availableTools = getAvailableTools(context.state, attachments, organization, questionnaire.complete);
+    const promptTemplate = organizationId
+      ? await new PromptTemplateService(env).getContent(organizationId, experiment?.arm.promptTemplateVersion)
+      : null;
+    const knowledge = organizationId
+      ? await retrieveKnowledge(env, organizationId, messages, correlationId, sessionId)
+      : [];
+    const systemPrompt = PromptBuilder.build(
+      context,
+      organization,
+      organizationId,
+      promptTemplate,
+      questionnaire.progress,
+      knowledge,
+      availableTools
+    );
 
     Logger.info('Conversation State:', {
       correlationId,
@@ -2423,7 +3379,12 @@ export async function runLegalIntakeAgentStream(
       hasLegalIssue: Boolean(context.legalIssueType),
       hasDescription: Boolean(context.description),
       isQualifiedLead: context.isQualifiedLead,
-      availableTools: availableTools.map(tool => tool.name)
+      availableTools: availableTools.map(tool => tool.name),
+      experimentId: experiment?.experimentId,
+      experimentArm: experiment?.arm.key,
+      questionnaireService: questionnaire.progress?.service,
+      questionnaireRemaining: questionnaire.progress?.remainingRequired.length,
+      knowledgePassages: knowledge.length
     });
 
     // Single AI call
@@ -2441,11 +3402,18 @@ export async function runLegalIntakeAgentStream(
       executionPlan.fallback
     );
 
+    const promptContext = await buildPromptContext({
+      env,
+      sessionId,
+      correlationId,
+      systemPrompt,
+      messages,
+      reservedTokens: estimateTokens(JSON.stringify(availableTools)) + executionPlan.maxTokens,
+      summarize: summaryRequest => summarizeConversation(env, summaryRequest, executionPlan, organization)
+    });
+
     const aiPayload = {
-      messages: [
-        { role: 'system' as const, content: systemPrompt },
-        ...buildPromptMessages(messages)
-      ],
+      messages: promptContext.messages,
       tools: availableTools,
       max_tokens: executionPlan.maxTokens,
       temperature: executionPlan.temperature,
@@ -2455,15 +3423,18 @@ export async function runLegalIntakeAgentStream(
     const aiExecution = await executeModelWithFallback<ReadableStream<Uint8Array> | Response | Record<string, unknown>>(
       env,
       aiPayload,
-      executionPlan
+      executionPlan,
+      organization
     );
 
     const aiResult = aiExecution.result;
     const activeModel = aiExecution.model;
     const activeProvider = aiExecution.provider;
+    executor.useModel(activeModel);
 
     let finalResponse = '';
     let streamToolCalls: ToolCall[] = [];
+    let reportedUsage: ModelTokenUsage | undefined;
     let handled = false;
 
     const possibleStream = isReadableStream(aiResult)
@@ -2473,25 +3444,17 @@ export async function runLegalIntakeAgentStream(
         : undefined;
 
     if (possibleStream) {
-      const streamResult = await consumeAIStream(possibleStream, sse);
+      const streamResult = await consumeAIStream(possibleStream);
       finalResponse = streamResult.text;
       streamToolCalls = streamResult.toolCalls;
+      reportedUsage = streamResult.usage;
       handled = true;
     }
 
     if (!handled) {
       const response = extractAIResponse(aiResult);
       finalResponse = response;
-
-      const responseChunks = chunkResponseText(response);
-      if (responseChunks.length === 0) {
-        await sse.text(response);
-      } else {
-        for (const chunk of responseChunks) {
-          await sse.text(chunk);
-          await sleep(STREAM_TOKEN_DELAY_MS);
-        }
-      }
+      reportedUsage = extractTokenUsage(aiResult);
     }
 
     const processingTime = Date.now() - aiCallStartTime;
@@ -2510,10 +3473,90 @@ export async function runLegalIntakeAgentStream(
     );
 
     const effectiveToolCalls = streamToolCalls.length > 0 ? streamToolCalls : (hasToolCalls(aiResult) ? aiResult.tool_calls : []);
+
+    // UPL safeguards for the reply text; tool calls are resolved from the raw response
+    const complianceJurisdiction = resolveComplianceJurisdiction(organization, cloudflareLocation?.region);
+    const compliance = reviewResponseCompliance(finalResponse, organization?.config?.compliance, complianceJurisdiction);
+    const complianceMetadata = toComplianceMetadata(compliance);
+    if (complianceMetadata) {
+      Logger.info('Compliance review adjusted AI response', {
+        correlationId,
+        sessionId,
+        organizationId,
+        ...complianceMetadata,
+        findings: compliance.findings.map(finding => finding.ruleId)
+      });
+    }
+
+    // Only the reviewed reply reaches the client, sent whole once the review is done
+    await sse.text(compliance.response);
+
+    if (organizationId) {
+      // Providers that do not report usage are metered by estimate
+      await new UsageService(env).recordTurn({
+        organizationId,
+        sessionId,
+        model: activeModel,
+        promptTokens: reportedUsage?.promptTokens
+          ?? estimateMessagesTokens(aiPayload.messages) + estimateTokens(JSON.stringify(availableTools)),
+        completionTokens: reportedUsage?.completionTokens
+          ?? estimateTokens(finalResponse) + estimateTokens(effectiveToolCalls.length > 0 ? JSON.stringify(effectiveToolCalls) : ''),
+        latencyMs: processingTime
+      });
+    }
     
     // If tool calls were made during streaming, don't run fallback logic
+    const toolCallOptions: ToolCallResolutionOptions = {
+      env,
+      organization,
+      executionPlan,
+      availableTools,
+      promptMessages: [
+        ...aiPayload.messages,
+        ...(finalResponse.trim() ? [{ role: 'assistant' as const, content: finalResponse }] : [])
+      ],
+      correlationId,
+      sessionId,
+      organizationId
+    };
+    executor.useConversation(toolCallOptions, complianceJurisdiction);
+    const documentTurn = isDocumentTurn(attachments);
+    const executeModelToolCall = async (toolCall: ToolCall) => {
+      if (documentTurn) {
+        // Document content must not trigger actions; the user can ask again without the upload
+        Logger.warn('Blocked tool call on a turn that uploads documents', {
+          correlationId,
+          sessionId,
+          organizationId,
+          toolName: toolCall.name
+        });
+        await executor.recordBlocked(toolCall, 'Document upload turn');
+        await sse.final(DOCUMENT_TURN_TOOL_RESPONSE);
+        return;
+      }
+      if (!availableTools.some(tool => tool.name === toolCall.name)) {
+        // Tools not offered in this state never run, however the model came to call them
+        Logger.warn('Blocked tool call not available in the current intake state', {
+          correlationId,
+          sessionId,
+          organizationId,
+          toolName: toolCall.name,
+          state: stateMachine.state
+        });
+        await executor.recordBlocked(toolCall, `Not available in state ${stateMachine.state}`);
+        await sse.final(UNAVAILABLE_TOOL_RESPONSE);
+        return;
+      }
+      const resolved = await resolveToolCall(toolCall, toolCallOptions);
+      if (resolved.toolCall) {
+        await executor.execute(resolved.toolCall);
+      } else {
+        await sse.final(resolved.response ?? AI_ERROR_RESPONSE);
+      }
+    };
+
     if (streamToolCalls.length > 0) {
-      await executor.execute(effectiveToolCalls[0]);
+      await executeModelToolCall(effectiveToolCalls[0]);
     } else {
       const fallbackToContactForm = shouldFallbackToContactForm(
         context,
@@ -2527,16 +3570,27 @@ export async function runLegalIntakeAgentStream(
         await executor.execute({ name: 'show_contact_form', arguments: {} });
         // Note: The show_contact_form tool already provides its own message, so we don't need to add another one
       } else if (effectiveToolCalls.length > 0) {
-        await executor.execute(effectiveToolCalls[0]);
+        await executeModelToolCall(effectiveToolCalls[0]);
       } else {
         const detectedToolCall = ToolCallDetector.detect(finalResponse);
         if (detectedToolCall) {
-          await executor.execute(detectedToolCall);
+          await executeModelToolCall(detectedToolCall);
         } else {
-          await sse.final(finalResponse);
+          const citations = collectCitations(compliance.response, knowledge);
+          const footer = buildCitationFooter(citations);
+          await sse.text(footer);
+          await sse.final(`${compliance.response}${footer}`, {
+            ...(citations.length > 0 ? { citations } : {}),
+            ...(complianceMetadata ? { metadata: { compliance: complianceMetadata } } : {})
+          });
         }
       }
     }
+
+    // Store the reply exactly as the client received it, whichever path produced it
+    if (sessionId && organizationId && sse.lastFinal) {
+      await persistAssistantReply(env, sessionId, organizationId, activeModel, sse.lastFinal);
+    }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     Logger.error('Agent error occurred', {
@@ -2569,14 +3623,47 @@ export async function runLegalIntakeAgentStream(
       };
     }
   } finally {
+    await stateMachine?.save();
+    await questionnaire?.save();
     await sse.complete();
   }
 }
 
+/**
+ * Renders the system prompt the agent would send for a sample conversation,
+ * using the given template instead of the organization's active one, as it reads while
+ * the agent is still gathering information.
+ */
+export function previewSystemPrompt(
+  organization: Organization,
+  promptTemplate: PromptTemplateContent | null,
+  messages: readonly AgentMessage[]
+): { prompt: string; state: ConversationState } {
+  const conversationText = messages
+    .map(msg => `${msg.role || (msg.isUser ? 'user' : 'assistant')}: ${msg.content || ''}`)
+    .join('\n');
+  const context = ContextDetector.detectContext(conversationText, ConversationState.GATHERING_INFORMATION);
+
+  return {
+    prompt: PromptBuilder.build(
+      context,
+      organization,
+      organization.id,
+      promptTemplate,
+      null,
+      [],
+      getAvailableTools(context.state, [], organization)
+    ),
+    state: context.state
+  };
+}
+
 // ============================================================================
 // EXPORTS
 // ============================================================================
 
+export { ConversationState };
+
 export {
   createMatter,
   showContactForm,
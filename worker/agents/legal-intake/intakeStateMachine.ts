@@ -0,0 +1,264 @@
+import type { Env } from '../../types.js';
+import { ConversationContextManager } from '../../middleware/conversationContextManager.js';
+import { ActivityService } from '../../services/ActivityService.js';
+import { Logger } from '../../utils/logger.js';
+import { LegalIntakeLogger } from './legalIntakeLogger.js';
+
+// ============================================================================
+// STATES & TRANSITIONS
+// ============================================================================
+
+export enum ConversationState {
+  INITIAL = 'INITIAL',
+  GATHERING_INFORMATION = 'GATHERING_INFORMATION',
+  QUALIFYING_LEAD = 'QUALIFYING_LEAD',
+  SHOWING_CONTACT_FORM = 'SHOWING_CONTACT_FORM',
+  READY_TO_CREATE_MATTER = 'READY_TO_CREATE_MATTER',
+  CREATING_MATTER = 'CREATING_MATTER',
+  COMPLETED = 'COMPLETED'
+}
+
+/**
+ * Legal intake transitions. The happy path is
+ * GATHERING_INFORMATION → QUALIFYING_LEAD → SHOWING_CONTACT_FORM → READY_TO_CREATE_MATTER → COMPLETED;
+ * the only backward edges recover from a rejected contact form or a failed matter creation.
+ */
+export const INTAKE_STATE_TRANSITIONS: Readonly<Record<ConversationState, readonly ConversationState[]>> = {
+  [ConversationState.INITIAL]: [ConversationState.GATHERING_INFORMATION],
+  [ConversationState.GATHERING_INFORMATION]: [
+    ConversationState.QUALIFYING_LEAD,
+    ConversationState.SHOWING_CONTACT_FORM
+  ],
+  [ConversationState.QUALIFYING_LEAD]: [
+    ConversationState.SHOWING_CONTACT_FORM,
+    ConversationState.READY_TO_CREATE_MATTER
+  ],
+  [ConversationState.SHOWING_CONTACT_FORM]: [ConversationState.READY_TO_CREATE_MATTER],
+  [ConversationState.READY_TO_CREATE_MATTER]: [
+    ConversationState.CREATING_MATTER,
+    ConversationState.SHOWING_CONTACT_FORM
+  ],
+  [ConversationState.CREATING_MATTER]: [
+    ConversationState.COMPLETED,
+    ConversationState.READY_TO_CREATE_MATTER
+  ],
+  [ConversationState.COMPLETED]: []
+};
+
+const MAX_TRANSITION_HISTORY = 20;
+
+export const INTAKE_STATE_AUDIT_EVENT = 'intake_state_transition';
+
+export interface IntakeStateTransition {
+  from: ConversationState;
+  to: ConversationState;
+  trigger: string;
+  at: string;
+}
+
+/**
+ * Persisted on ConversationContext.intakeState (KV) so state survives across turns.
+ */
+export interface IntakeStateRecord {
+  state: ConversationState;
+  updatedAt: string;
+  history: IntakeStateTransition[];
+}
+
+export function isIntakeState(value: unknown): value is ConversationState {
+  return typeof value === 'string' && Object.values(ConversationState).includes(value as ConversationState);
+}
+
+export function isLegalTransition(from: ConversationState, to: ConversationState): boolean {
+  return INTAKE_STATE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Shortest chain of legal hops from `from` to `to` (excluding `from`), or null if unreachable.
+ */
+export function findTransitionPath(from: ConversationState, to: ConversationState): ConversationState[] | null {
+  if (from === to) {
+    return [];
+  }
+
+  const previous = new Map<ConversationState, ConversationState>();
+  const queue: ConversationState[] = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of INTAKE_STATE_TRANSITIONS[current]) {
+      if (next === from || previous.has(next)) continue;
+      previous.set(next, current);
+      if (next === to) {
+        const path: ConversationState[] = [to];
+        let cursor = current;
+        while (cursor !== from) {
+          path.unshift(cursor);
+          cursor = previous.get(cursor)!;
+        }
+        return path;
+      }
+      queue.push(next);
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// STATE MACHINE
+// ============================================================================
+
+interface IntakeStateMachineOptions {
+  correlationId: string;
+  sessionId?: string;
+  organizationId?: string;
+}
+
+/**
+ * Explicit, persisted intake state for a chat session. Without a session it runs
+ * in memory only, which keeps one-off and test invocations side-effect free.
+ */
+export class IntakeStateMachine {
+  private dirty = false;
+
+  private constructor(
+    private readonly env: Env,
+    private readonly options: IntakeStateMachineOptions,
+    private record: IntakeStateRecord
+  ) {}
+
+  static createRecord(state: ConversationState = ConversationState.INITIAL): IntakeStateRecord {
+    return { state, updatedAt: new Date().toISOString(), history: [] };
+  }
+
+  static async load(env: Env, options: IntakeStateMachineOptions): Promise<IntakeStateMachine> {
+    const { sessionId, organizationId } = options;
+    if (!sessionId || !organizationId) {
+      return new IntakeStateMachine(env, options, this.createRecord());
+    }
+
+    const context = await ConversationContextManager.load(sessionId, organizationId, env);
+    const stored = context.intakeState;
+    const record = stored && isIntakeState(stored.state)
+      ? { ...stored, history: Array.isArray(stored.history) ? stored.history : [] }
+      : this.createRecord();
+
+    return new IntakeStateMachine(env, options, record);
+  }
+
+  get state(): ConversationState {
+    return this.record.state;
+  }
+
+  get history(): readonly IntakeStateTransition[] {
+    return this.record.history;
+  }
+
+  /**
+   * Applies a single transition. Illegal transitions are logged and ignored.
+   */
+  async transition(to: ConversationState, trigger: string): Promise<boolean> {
+    const from = this.record.state;
+    if (from === to) {
+      return false;
+    }
+
+    if (!isLegalTransition(from, to)) {
+      Logger.warn('Ignoring illegal intake state transition', {
+        from,
+        to,
+        trigger,
+        sessionId: this.options.sessionId
+      });
+      return false;
+    }
+
+    const entry: IntakeStateTransition = { from, to, trigger, at: new Date().toISOString() };
+    this.record = {
+      state: to,
+      updatedAt: entry.at,
+      history: [...this.record.history, entry].slice(-MAX_TRANSITION_HISTORY)
+    };
+    this.dirty = true;
+
+    LegalIntakeLogger.logStateTransition(
+      this.options.correlationId,
+      this.options.sessionId,
+      this.options.organizationId,
+      from,
+      to,
+      trigger,
+      { state: to }
+    );
+    await this.audit(entry);
+
+    return true;
+  }
+
+  /**
+   * Walks the legal path towards `target`, auditing every hop. Unreachable
+   * targets (e.g. moving backwards on weaker signals) leave the state untouched.
+   */
+  async advanceTo(target: ConversationState, trigger: string): Promise<boolean> {
+    const path = findTransitionPath(this.record.state, target);
+    if (!path || path.length === 0) {
+      return false;
+    }
+
+    for (const next of path) {
+      await this.transition(next, trigger);
+    }
+    return true;
+  }
+
+  /**
+   * Writes the state back to the session's conversation context when it changed.
+   */
+  async save(): Promise<void> {
+    const { sessionId, organizationId } = this.options;
+    if (!this.dirty || !sessionId || !organizationId) {
+      return;
+    }
+
+    try {
+      // Re-load so middleware updates made during this turn are preserved
+      const context = await ConversationContextManager.load(sessionId, organizationId, this.env);
+      context.intakeState = this.record;
+      await ConversationContextManager.save(context, this.env);
+      this.dirty = false;
+    } catch (error) {
+      Logger.warn('Failed to persist intake state', {
+        sessionId,
+        organizationId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async audit(entry: IntakeStateTransition): Promise<void> {
+    const { sessionId, organizationId, correlationId } = this.options;
+    if (!sessionId || !organizationId) {
+      return;
+    }
+
+    try {
+      await new ActivityService(this.env).createEvent({
+        type: 'session_event',
+        eventType: INTAKE_STATE_AUDIT_EVENT,
+        title: 'Intake state transition',
+        description: JSON.stringify({ ...entry, correlationId }),
+        eventDate: entry.at,
+        actorType: 'system',
+        metadata: { sessionId }
+      }, organizationId);
+    } catch (error) {
+      Logger.warn('Failed to audit intake state transition', {
+        sessionId,
+        from: entry.from,
+        to: entry.to,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import type { KnowledgePassage } from '../../services/KnowledgeBaseService.js';
+
+export interface KnowledgeCitation {
+  index: number;
+  documentId: string;
+  title: string;
+}
+
+const CITATION_PATTERN = /\[(\d{1,2})\]/g;
+
+/**
+ * Renders retrieved knowledge base passages into a block appended to the intake
+ * system prompt. Returns an empty string when nothing relevant was retrieved.
+ */
+export function buildKnowledgeSection(passages: readonly KnowledgePassage[]): string {
+  if (passages.length === 0) {
+    return '';
+  }
+
+  const sources = passages
+    .map((passage, index) => `[${index + 1}] ${passage.title}\n${passage.content}`)
+    .join('\n\n');
+
+  return `FIRM KNOWLEDGE BASE:
+The passages below come from this firm's own FAQ and documents. When the user's question is about the firm (fees, office hours, what to bring, how the process works), answer from these passages and cite them inline as [1], [2], etc.
+Do not state firm-specific facts that are not in these passages; if they do not answer the question, say so and offer to connect the user with the firm.
+
+${sources}`;
+}
+
+/**
+ * Passages the reply actually cites, in citation order, deduplicated.
+ */
+export function collectCitations(response: string, passages: readonly KnowledgePassage[]): KnowledgeCitation[] {
+  const citations: KnowledgeCitation[] = [];
+  for (const match of response.matchAll(CITATION_PATTERN)) {
+    const index = Number(match[1]);
+    const passage = passages[index - 1];
+    if (passage && !citations.some(citation => citation.index === index)) {
+      citations.push({ index, documentId: passage.documentId, title: passage.title });
+    }
+  }
+  return citations;
+}
+
+/**
+ * Footer naming the cited sources, appended to the reply so the client can see
+ * where firm-specific answers came from.
+ */
+export function buildCitationFooter(citations: readonly KnowledgeCitation[]): string {
+  if (citations.length === 0) {
+    return '';
+  }
+
+  return `\n\nSources:\n${citations.map(citation => `[${citation.index}] ${citation.title}`).join('\n')}`;
+}
@@ -1,6 +1,6 @@
 import { Logger } from '../../utils/logger.ts';
 import type { ConversationContext } from './index.js';
-import { ConversationState } from './index.js';
+import { ConversationState } from './intakeStateMachine.js';
 
 // Re-export the canonical types for backward compatibility
 export type { ConversationContext };
@@ -24,6 +24,7 @@ export enum LegalIntakeOperation {
   VALIDATION_START = 'validation_start',
   VALIDATION_SUCCESS = 'validation_success',
   VALIDATION_FAILED = 'validation_failed',
+  TOOL_ARGUMENT_REPAIR = 'tool_argument_repair',
   AI_MODEL_CALL = 'ai_model_call',
   AI_MODEL_RESPONSE = 'ai_model_response',
   CONVERSATION_ANALYSIS = 'conversation_analysis',
@@ -142,6 +143,16 @@ export interface ToolCallLogEntry extends LegalIntakeLogEntry {
   };
 }
 
+export interface ToolValidationLogEntry extends LegalIntakeLogEntry {
+  operation: LegalIntakeOperation.VALIDATION_SUCCESS | LegalIntakeOperation.VALIDATION_FAILED | LegalIntakeOperation.TOOL_ARGUMENT_REPAIR;
+  metadata: {
+    toolName: string;
+    attempt: number;
+    invalidFields: string[];
+    errors: string[];
+  };
+}
+
 export interface AIModelLogEntry extends LegalIntakeLogEntry {
   operation: LegalIntakeOperation.AI_MODEL_CALL | LegalIntakeOperation.AI_MODEL_RESPONSE;
   metadata: {
@@ -380,6 +391,38 @@ export class LegalIntakeLogger {
     this.logStructured(logEntry);
   }
 
+  /**
+   * Logs tool argument validation and repair attempts. Only field names and
+   * validation messages are recorded, never the argument values.
+   */
+  static logToolValidation(
+    correlationId: string,
+    sessionId: string | undefined,
+    organizationId: string | undefined,
+    operation: LegalIntakeOperation.VALIDATION_SUCCESS | LegalIntakeOperation.VALIDATION_FAILED | LegalIntakeOperation.TOOL_ARGUMENT_REPAIR,
+    toolName: string,
+    attempt: number,
+    issues: ReadonlyArray<{ field: string; message: string }> = []
+  ): void {
+    const logEntry: ToolValidationLogEntry = {
+      correlationId,
+      operation,
+      level: operation === LegalIntakeOperation.VALIDATION_FAILED ? LegalIntakeLogLevel.WARN : LegalIntakeLogLevel.AUDIT,
+      timestamp: new Date().toISOString(),
+      sessionId,
+      organizationId,
+      message: `Tool arguments ${operation.replace(/_/g, ' ')}: ${toolName}`,
+      metadata: {
+        toolName,
+        attempt,
+        invalidFields: issues.map(issue => issue.field),
+        errors: issues.map(issue => issue.message)
+      }
+    };
+
+    this.logStructured(logEntry);
+  }
+
   /**
    * Logs AI model interactions
    */
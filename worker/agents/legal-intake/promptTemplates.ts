@@ -398,3 +398,124 @@ export function buildSystemPrompt(
     .replace('{CONTEXT_SECTION}', contextSection)
     .replace('{RULES_SECTION}', rulesSection);
 }
+
+// ============================================================================
+// ORGANIZATION PROMPT TEMPLATES
+// ============================================================================
+
+/**
+ * Firm-editable sections of the intake system prompt. The tool-calling rules
+ * stay fixed; these sections are layered on top of them.
+ */
+export interface PromptTemplateContent {
+  tone?: string;
+  requiredQuestions?: string[];
+  disclaimers?: string;
+  practiceInstructions?: string;
+}
+
+export const PROMPT_TEMPLATE_VARIABLES = ['firmName', 'jurisdiction', 'services', 'consultationFee'] as const;
+
+export type PromptTemplateVariable = typeof PROMPT_TEMPLATE_VARIABLES[number];
+
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+
+interface PromptTemplateOrganization {
+  name?: string;
+  config?: {
+    availableServices?: string[];
+    consultationFee?: number;
+    jurisdiction?: {
+      description?: string;
+      primaryState?: string;
+      supportedStates?: string[];
+    };
+  };
+}
+
+export function buildPromptTemplateVariables(
+  organization: PromptTemplateOrganization | null | undefined
+): Record<PromptTemplateVariable, string> {
+  const jurisdiction = organization?.config?.jurisdiction;
+  const fee = organization?.config?.consultationFee ?? 0;
+
+  return {
+    firmName: organization?.name || 'our law firm',
+    jurisdiction: jurisdiction?.description
+      || jurisdiction?.primaryState
+      || (jurisdiction?.supportedStates ?? []).join(', ')
+      || 'your area',
+    services: (organization?.config?.availableServices ?? []).join(', ') || 'general legal services',
+    consultationFee: fee > 0 ? `$${fee}` : 'free'
+  };
+}
+
+function templateStrings(content: PromptTemplateContent): string[] {
+  return [
+    content.tone,
+    content.disclaimers,
+    content.practiceInstructions,
+    ...(content.requiredQuestions ?? [])
+  ].filter((value): value is string => typeof value === 'string');
+}
+
+/**
+ * Variables referenced in the template that are not in PROMPT_TEMPLATE_VARIABLES.
+ */
+export function findUnknownTemplateVariables(content: PromptTemplateContent): string[] {
+  const unknown = new Set<string>();
+  for (const text of templateStrings(content)) {
+    for (const match of text.matchAll(TEMPLATE_VARIABLE_PATTERN)) {
+      if (!(PROMPT_TEMPLATE_VARIABLES as readonly string[]).includes(match[1])) {
+        unknown.add(match[1]);
+      }
+    }
+  }
+  return [...unknown];
+}
+
+export function renderPromptTemplate(text: string, variables: Record<string, string>): string {
+  return text.replace(TEMPLATE_VARIABLE_PATTERN, (placeholder, name: string) => variables[name] ?? placeholder);
+}
+
+/**
+ * Renders the firm's sections into a block appended to the intake system prompt.
+ * Returns an empty string when the template has no content.
+ */
+export function buildFirmInstructionsSection(
+  content: PromptTemplateContent | null | undefined,
+  variables: Record<string, string>
+): string {
+  if (!content) {
+    return '';
+  }
+
+  const render = (text: string | undefined) => (text?.trim() ? renderPromptTemplate(text.trim(), variables) : '');
+  const sections: string[] = [];
+
+  const tone = render(content.tone);
+  if (tone) {
+    sections.push(`Tone:\n${tone}`);
+  }
+
+  const questions = (content.requiredQuestions ?? []).map(question => render(question)).filter(Boolean);
+  if (questions.length > 0) {
+    sections.push(`Before showing the contact form, make sure these questions have been answered:\n${questions.map(question => `- ${question}`).join('\n')}`);
+  }
+
+  const practice = render(content.practiceInstructions);
+  if (practice) {
+    sections.push(`Practice-specific instructions:\n${practice}`);
+  }
+
+  const disclaimers = render(content.disclaimers);
+  if (disclaimers) {
+    sections.push(`Disclaimers (include when giving legal information):\n${disclaimers}`);
+  }
+
+  if (sections.length === 0) {
+    return '';
+  }
+
+  return `FIRM INSTRUCTIONS (set by ${variables.firmName}; follow them unless they conflict with the tool rules above):\n${sections.join('\n\n')}`;
+}
@@ -0,0 +1,367 @@
+import type { Env } from '../../types.js';
+import type {
+  OrganizationConfig,
+  OrganizationAIProviderConfig,
+  OrganizationAIProviderType,
+  OrganizationLocalProviderStep,
+  OrganizationWorkersAIFormat
+} from '../../services/OrganizationService.js';
+import { isTrustedTransportUrl } from '../../utils/domain.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ProviderMessage = { role: 'user' | 'assistant' | 'system'; content: string };
+
+export interface ProviderToolDefinition {
+  name: string;
+  description: string;
+  parameters: unknown;
+}
+
+export interface ProviderBasePayload {
+  messages: ProviderMessage[];
+  tools: ProviderToolDefinition[];
+  max_tokens: number;
+  temperature: number;
+  stream: boolean;
+}
+
+export type AIProviderCredentials = OrganizationAIProviderConfig;
+export type AIProviderType = OrganizationAIProviderType;
+
+/**
+ * A single model backend. `buildPayload` shapes the provider-neutral payload
+ * and `run` executes it, returning either a stream/Response or a JSON body
+ * that consumeAIStream / extractAIResponse already understand.
+ */
+export interface AIProvider {
+  readonly name: string;
+  buildPayload(basePayload: ProviderBasePayload): Record<string, unknown>;
+  run(model: string, payload: Record<string, unknown>): Promise<unknown>;
+}
+
+type AIProviderFactory = (env: Env, name: string, credentials?: AIProviderCredentials) => AIProvider;
+
+interface ProviderRegistration {
+  readonly type: AIProviderType;
+  readonly factory: AIProviderFactory;
+  readonly modelPrefixes: readonly string[];
+}
+
+// ============================================================================
+// PAYLOAD HELPERS
+// ============================================================================
+
+function mapToolsToOpenAIFunctions(tools: ProviderToolDefinition[]): unknown[] {
+  if (!tools || tools.length === 0) {
+    return [];
+  }
+
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters
+    }
+  }));
+}
+
+function buildOpenAIChatPayload(basePayload: ProviderBasePayload): Record<string, unknown> {
+  const { messages, tools, max_tokens, temperature, stream } = basePayload;
+  return {
+    messages,
+    tools: mapToolsToOpenAIFunctions(tools),
+    tool_choice: 'auto',
+    stream,
+    stream_options: { include_usage: true },
+    max_tokens,
+    temperature
+  };
+}
+
+function stripModelPrefix(model: string, prefixes: readonly string[]): string {
+  const prefix = prefixes.find(candidate => candidate.endsWith(':') && model.startsWith(candidate));
+  return prefix ? model.slice(prefix.length) : model;
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+/**
+ * Cloudflare Workers AI binding. Also serves the legacy `gateway-openai`
+ * provider name, which is routed through the same binding with the chat format.
+ */
+class WorkersAIProvider implements AIProvider {
+  constructor(
+    private readonly env: Env,
+    readonly name: string,
+    private readonly format: OrganizationWorkersAIFormat
+  ) {}
+
+  buildPayload(basePayload: ProviderBasePayload): Record<string, unknown> {
+    const { messages, max_tokens, temperature } = basePayload;
+
+    // For gpt-oss-20b, use the input format instead of messages format
+    if (this.format === 'input' && messages.some(msg => msg.role === 'system')) {
+      // Keep every system message; dropping all but the first loses prompt context
+      const systemText = messages.filter(msg => msg.role === 'system').map(msg => msg.content).join('\n\n');
+      const conversationText = messages
+        .filter(msg => msg.role !== 'system')
+        .map(msg => `${msg.role}: ${msg.content}`)
+        .join('\n');
+      const input = `${systemText}\n\n${conversationText}`;
+
+      return {
+        input,
+        max_tokens,
+        temperature,
+        stream: false // gpt-oss-20b streaming format requires different handling
+      };
+    }
+
+    return buildOpenAIChatPayload(basePayload);
+  }
+
+  async run(model: string, payload: Record<string, unknown>): Promise<unknown> {
+    const runModel = this.env.AI.run.bind(this.env.AI) as (model: string, payload: Record<string, unknown>) => Promise<unknown>;
+    return runModel(model, payload);
+  }
+}
+
+/**
+ * Any HTTP endpoint implementing the OpenAI `/chat/completions` contract.
+ * Streaming responses are returned as-is so consumeAIStream can parse the SSE body.
+ */
+class OpenAICompatibleProvider implements AIProvider {
+  constructor(readonly name: string, private readonly credentials: AIProviderCredentials) {}
+
+  buildPayload(basePayload: ProviderBasePayload): Record<string, unknown> {
+    return buildOpenAIChatPayload(basePayload);
+  }
+
+  async run(model: string, payload: Record<string, unknown>): Promise<unknown> {
+    const baseUrl = this.credentials.baseUrl?.trim().replace(/\/+$/, '');
+    if (!baseUrl) {
+      throw new Error(`AI provider "${this.name}" is missing a baseUrl`);
+    }
+    if (!isTrustedTransportUrl(baseUrl)) {
+      throw new Error(`AI provider "${this.name}" must use HTTPS unless it runs on a private network`);
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...(this.credentials.headers ?? {})
+    };
+    if (this.credentials.apiKey) {
+      headers.Authorization = `Bearer ${this.credentials.apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        ...payload,
+        model: stripModelPrefix(model, [`${this.name}:`, 'openai:'])
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`AI provider "${this.name}" returned ${response.status}: ${errorText.slice(0, 200)}`);
+    }
+
+    if (payload.stream === true) {
+      return response;
+    }
+
+    const body = await response.json() as {
+      choices?: Array<{ message?: { content?: string | null; tool_calls?: unknown[] } }>;
+    };
+    const message = body.choices?.[0]?.message;
+    return {
+      response: message?.content ?? '',
+      ...(Array.isArray(message?.tool_calls) && message.tool_calls.length > 0
+        ? { tool_calls: message.tool_calls }
+        : {})
+    };
+  }
+}
+
+/**
+ * Deterministic offline provider for local development and tests.
+ * Never touches the network. With a `script`, the Nth user turn gets the Nth step
+ * (the last step repeats), including tool calls; otherwise it answers with the
+ * configured text. Streaming payloads get the same reply as OpenAI-style SSE deltas.
+ */
+class LocalFakeProvider implements AIProvider {
+  static readonly DEFAULT_RESPONSE = 'Thanks for reaching out. Can you tell me a bit more about your legal situation?';
+
+  constructor(readonly name: string, private readonly credentials?: AIProviderCredentials) {}
+
+  buildPayload(basePayload: ProviderBasePayload): Record<string, unknown> {
+    const { messages, tools, max_tokens, temperature, stream } = basePayload;
+    return { messages, tools, max_tokens, temperature, stream };
+  }
+
+  async run(_model: string, payload: Record<string, unknown>): Promise<unknown> {
+    const step = this.scriptedStep(payload.messages);
+    const text = step.text ?? '';
+    const toolCalls = step.toolCalls ?? [];
+
+    if (payload.stream === true) {
+      return LocalFakeProvider.toStream(text, toolCalls);
+    }
+    return {
+      response: text,
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+    };
+  }
+
+  private scriptedStep(messages: unknown): OrganizationLocalProviderStep {
+    const script = this.credentials?.script;
+    if (!script || script.length === 0) {
+      return { text: this.credentials?.responseText ?? LocalFakeProvider.DEFAULT_RESPONSE };
+    }
+    const userTurns = Array.isArray(messages)
+      ? (messages as ProviderMessage[]).filter(message => message.role === 'user').length
+      : 1;
+    return script[Math.min(Math.max(userTurns, 1), script.length) - 1];
+  }
+
+  private static toStream(text: string, toolCalls: NonNullable<OrganizationLocalProviderStep['toolCalls']>): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const events = [
+      // Word-sized deltas, like a real model stream
+      ...(text.match(/\S+\s*|\s+/g) ?? []).map(content => ({ choices: [{ delta: { content } }] })),
+      ...toolCalls.map((call, index) => ({
+        choices: [{
+          delta: {
+            tool_calls: [{
+              index,
+              id: `call_local_${index}`,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+            }]
+          }
+        }]
+      }))
+    ];
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const event of events) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      }
+    });
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+class AIProviderRegistry {
+  private readonly providers = new Map<string, ProviderRegistration>();
+
+  register(name: string, registration: ProviderRegistration): void {
+    this.providers.set(name, registration);
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Picks the provider for a fallback model based on its prefix, so a plan can
+   * mix e.g. `@cf/...` and `openai:...` models. Organization-defined providers
+   * can be targeted with a `<providerName>:` prefix.
+   */
+  deriveProviderForModel(model: string, preferredProvider: string, config?: OrganizationConfig | null): string {
+    const customProviders = Object.keys(config?.aiProviders ?? {});
+    const customMatch = customProviders.find(name => model.startsWith(`${name}:`));
+    if (customMatch) {
+      return customMatch;
+    }
+
+    for (const [name, registration] of this.providers) {
+      if (registration.modelPrefixes.some(prefix => model.startsWith(prefix))) {
+        return name;
+      }
+    }
+
+    return preferredProvider;
+  }
+
+  /**
+   * Resolves a provider instance. Organization credentials take precedence over
+   * built-in registrations with the same name; unknown names fall back to Workers AI.
+   * Credentials for a built-in name keep that registration when the type matches,
+   * and a `format` in 'workers-ai' credentials picks the payload shape.
+   */
+  resolve(env: Env, name: string, config?: OrganizationConfig | null): AIProvider {
+    const credentials = config?.aiProviders?.[name];
+    if (credentials) {
+      const type = credentials.type ?? this.providers.get(name)?.type ?? 'openai-compatible';
+      const named = this.providers.get(name);
+      const registration = named?.type === type ? named : this.findByType(type);
+      if (!registration) {
+        throw new Error(`Unsupported AI provider type "${type}" for provider "${name}"`);
+      }
+      return registration.factory(env, name, credentials);
+    }
+
+    const registration = this.providers.get(name) ?? this.providers.get('workers-ai');
+    if (!registration) {
+      throw new Error(`AI provider "${name}" is not registered`);
+    }
+    return registration.factory(env, this.providers.has(name) ? name : 'workers-ai');
+  }
+
+  private findByType(type: AIProviderType): ProviderRegistration | undefined {
+    for (const registration of this.providers.values()) {
+      if (registration.type === type) {
+        return registration;
+      }
+    }
+    return undefined;
+  }
+}
+
+export const AI_PROVIDER_TYPES: readonly AIProviderType[] = ['workers-ai', 'openai-compatible', 'local'];
+
+export const aiProviderRegistry = new AIProviderRegistry();
+
+aiProviderRegistry.register('workers-ai', {
+  type: 'workers-ai',
+  factory: (env, name, credentials) => new WorkersAIProvider(env, name, credentials?.format ?? 'input'),
+  modelPrefixes: ['@cf/openai/']
+});
+
+aiProviderRegistry.register('gateway-openai', {
+  type: 'workers-ai',
+  factory: (env, name, credentials) => new WorkersAIProvider(env, name, credentials?.format ?? 'chat'),
+  modelPrefixes: ['@cf/gateway/', 'openai:']
+});
+
+aiProviderRegistry.register('openai-compatible', {
+  type: 'openai-compatible',
+  factory: (_env, name, credentials) => new OpenAICompatibleProvider(name, credentials ?? {}),
+  modelPrefixes: []
+});
+
+aiProviderRegistry.register('local', {
+  type: 'local',
+  factory: (_env, name, credentials) => new LocalFakeProvider(name, credentials),
+  modelPrefixes: ['local:']
+});
@@ -0,0 +1,495 @@
+import type { Env, AgentMessage } from '../../types.js';
+import type { Organization } from '../../services/OrganizationService.js';
+import { ConversationContextManager } from '../../middleware/conversationContextManager.js';
+import { Logger } from '../../utils/logger.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IntakeQuestion {
+  id: string;
+  question: string;
+  required: boolean;
+}
+
+export interface QuestionnaireAnswer {
+  questionId: string;
+  question: string;
+  answer: string;
+}
+
+export interface QuestionnaireProgress {
+  service: string;
+  questions: IntakeQuestion[];
+  answers: QuestionnaireAnswer[];
+  remainingRequired: IntakeQuestion[];
+  answeredCount: number;
+  totalCount: number;
+  complete: boolean;
+}
+
+/**
+ * Persisted on ConversationContext.questionnaire (KV) so the service stays fixed
+ * once detected and progress survives across turns.
+ */
+export interface QuestionnaireRecord {
+  service: string;
+  source: 'service_intake_form' | 'organization_config';
+  questions: IntakeQuestion[];
+  answers: QuestionnaireAnswer[];
+  updatedAt: string;
+}
+
+// ============================================================================
+// QUESTIONNAIRE SOURCES
+// ============================================================================
+
+const MAX_ANSWER_LENGTH = 2000;
+const QUESTION_MATCH_THRESHOLD = 0.6;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'any', 'as', 'at', 'be', 'can', 'could', 'did', 'do', 'does', 'for', 'from',
+  'have', 'has', 'how', 'i', 'if', 'in', 'is', 'it', 'me', 'of', 'on', 'or', 'please', 'tell', 'that',
+  'the', 'this', 'to', 'was', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'would',
+  'you', 'your'
+]);
+
+function questionId(index: number): string {
+  return `q${index + 1}`;
+}
+
+/**
+ * Parses `services.intake_form`. Accepts a list of question strings, a list of
+ * `{ id?, question | label | text, required? }` objects, or `{ questions: [...] }`.
+ * Questions are required unless marked otherwise.
+ */
+export function parseIntakeForm(raw: unknown): IntakeQuestion[] {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    value = (value as { questions?: unknown }).questions;
+  }
+
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const questions: IntakeQuestion[] = [];
+  value.forEach((entry, index) => {
+    if (typeof entry === 'string' && entry.trim()) {
+      questions.push({ id: questionId(index), question: entry.trim(), required: true });
+      return;
+    }
+    if (entry && typeof entry === 'object') {
+      const item = entry as Record<string, unknown>;
+      const text = [item.question, item.label, item.text].find(
+        (candidate): candidate is string => typeof candidate === 'string' && candidate.trim().length > 0
+      );
+      if (text) {
+        questions.push({
+          id: typeof item.id === 'string' && item.id.trim() ? item.id.trim() : questionId(index),
+          question: text.trim(),
+          required: item.required !== false
+        });
+      }
+    }
+  });
+
+  return questions;
+}
+
+function matchServiceName(candidates: readonly string[], service: string): string | undefined {
+  const normalized = service.trim().toLowerCase();
+  return candidates.find(candidate => candidate.trim().toLowerCase() === normalized);
+}
+
+/**
+ * Loads the questionnaire for a service: the active `services.intake_form` first,
+ * then `OrganizationConfig.serviceQuestions`.
+ */
+export async function loadServiceQuestionnaire(
+  env: Env,
+  organization: Organization | null,
+  service: string
+): Promise<Omit<QuestionnaireRecord, 'answers' | 'updatedAt'> | null> {
+  if (!organization) {
+    return null;
+  }
+
+  try {
+    const row = await env.DB.prepare(`
+      SELECT name, intake_form FROM services
+      WHERE organization_id = ? AND LOWER(name) = LOWER(?) AND active = 1 AND intake_form IS NOT NULL
+      LIMIT 1
+    `).bind(organization.id, service.trim()).first<{ name: string; intake_form: string }>();
+
+    const questions = row ? parseIntakeForm(row.intake_form) : [];
+    if (row && questions.length > 0) {
+      return { service: row.name, source: 'service_intake_form', questions };
+    }
+  } catch (error) {
+    Logger.warn('Failed to load service intake form', {
+      organizationId: organization.id,
+      service,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  const serviceQuestions = organization.config?.serviceQuestions ?? {};
+  const configured = matchServiceName(Object.keys(serviceQuestions), service);
+  const questions = configured ? parseIntakeForm(serviceQuestions[configured]) : [];
+
+  return configured && questions.length > 0
+    ? { service: configured, source: 'organization_config', questions }
+    : null;
+}
+
+// ============================================================================
+// ANSWER DETECTION
+// ============================================================================
+
+function contentTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Share of the question's content words that appear in the assistant message.
+ */
+export function questionCoverage(question: string, message: string): number {
+  const questionTokens = new Set(contentTokens(question));
+  if (questionTokens.size === 0) {
+    return 0;
+  }
+  const messageTokens = new Set(contentTokens(message));
+  let shared = 0;
+  for (const token of questionTokens) {
+    if (messageTokens.has(token)) shared++;
+  }
+  return shared / questionTokens.size;
+}
+
+function messageRole(message: AgentMessage): string {
+  return message.role || (message.isUser ? 'user' : 'assistant');
+}
+
+/**
+ * A question counts as answered when an assistant message asked it and the user
+ * replied in the next message.
+ */
+export function detectAnswers(
+  questions: readonly IntakeQuestion[],
+  messages: readonly AgentMessage[],
+  alreadyAnswered: ReadonlySet<string> = new Set()
+): QuestionnaireAnswer[] {
+  const answered = new Set(alreadyAnswered);
+  const answers: QuestionnaireAnswer[] = [];
+
+  for (let i = 0; i < messages.length - 1; i++) {
+    const asked = messages[i];
+    const reply = messages[i + 1];
+    if (messageRole(asked) !== 'assistant' || messageRole(reply) !== 'user' || !asked.content || !reply.content?.trim()) {
+      continue;
+    }
+
+    for (const question of questions) {
+      if (answered.has(question.id) || questionCoverage(question.question, asked.content) < QUESTION_MATCH_THRESHOLD) {
+        continue;
+      }
+      answered.add(question.id);
+      answers.push({
+        questionId: question.id,
+        question: question.question,
+        answer: reply.content.trim().slice(0, MAX_ANSWER_LENGTH)
+      });
+    }
+  }
+
+  return answers;
+}
+
+export function buildQuestionnaireProgress(record: QuestionnaireRecord): QuestionnaireProgress {
+  const answeredIds = new Set(record.answers.map(answer => answer.questionId));
+  const remainingRequired = record.questions.filter(question => question.required && !answeredIds.has(question.id));
+
+  return {
+    service: record.service,
+    questions: record.questions,
+    answers: record.answers,
+    remainingRequired,
+    answeredCount: record.questions.filter(question => answeredIds.has(question.id)).length,
+    totalCount: record.questions.length,
+    complete: remainingRequired.length === 0
+  };
+}
+
+/**
+ * Prompt block listing the questionnaire questions that still need an answer.
+ */
+export function buildQuestionnaireSection(progress: QuestionnaireProgress | null): string {
+  if (!progress || progress.complete) {
+    return '';
+  }
+
+  const questions = progress.remainingRequired.map(question => `- ${question.question}`).join('\n');
+  return `INTAKE QUESTIONNAIRE (${progress.service}; ${progress.answeredCount} of ${progress.totalCount} answered):
+Ask these remaining questions one at a time, using the question wording below, before calling create_matter:
+${questions}`;
+}
+
+export function buildQuestionnaireFollowUp(progress: QuestionnaireProgress): string {
+  const [next] = progress.remainingRequired;
+  return next
+    ? `Before I create your matter, I need a bit more information. ${next.question}`
+    : 'Before I create your matter, I need a bit more information.';
+}
+
+// ============================================================================
+// TRACKER
+// ============================================================================
+
+interface QuestionnaireTrackerOptions {
+  correlationId: string;
+  sessionId?: string;
+  organizationId?: string;
+}
+
+/**
+ * Tracks the detected service's questionnaire for a chat session. Answers are
+ * persisted to `matter_questions` as they are detected and attached to the matter
+ * once it is created.
+ */
+export class IntakeQuestionnaire {
+  private dirty = false;
+  private messages: readonly AgentMessage[] = [];
+
+  private constructor(
+    private readonly env: Env,
+    private readonly options: QuestionnaireTrackerOptions,
+    private readonly organization: Organization | null,
+    private record: QuestionnaireRecord | null
+  ) {}
+
+  static async load(
+    env: Env,
+    options: QuestionnaireTrackerOptions,
+    organization: Organization | null,
+    detectedService: string | null
+  ): Promise<IntakeQuestionnaire> {
+    const { sessionId, organizationId } = options;
+    const stored = sessionId && organizationId
+      ? (await ConversationContextManager.load(sessionId, organizationId, env)).questionnaire
+      : undefined;
+
+    if (stored && Array.isArray(stored.questions) && Array.isArray(stored.answers)) {
+      return new IntakeQuestionnaire(env, options, organization, stored);
+    }
+
+    const tracker = new IntakeQuestionnaire(env, options, organization, null);
+    if (detectedService) {
+      await tracker.selectService(detectedService);
+    }
+    return tracker;
+  }
+
+  /**
+   * Progress for a session outside the agent: the live KV record, or the answers
+   * persisted in `matter_questions` once that has expired.
+   */
+  static async loadProgress(
+    env: Env,
+    organization: Organization,
+    sessionId: string
+  ): Promise<QuestionnaireProgress | null> {
+    const context = await ConversationContextManager.load(sessionId, organization.id, env);
+    if (context.questionnaire) {
+      return buildQuestionnaireProgress(context.questionnaire);
+    }
+
+    const rows = await env.DB.prepare(`
+      SELECT service, question_id, question, answer
+      FROM matter_questions
+      WHERE session_id = ? AND organization_id = ? AND question_id IS NOT NULL
+      ORDER BY created_at ASC
+    `).bind(sessionId, organization.id).all<{ service: string; question_id: string; question: string; answer: string }>();
+
+    const answered = rows.results ?? [];
+    if (answered.length === 0) {
+      return null;
+    }
+
+    const service = answered[answered.length - 1].service;
+    const loaded = await loadServiceQuestionnaire(env, organization, service);
+    return buildQuestionnaireProgress({
+      service,
+      source: loaded?.source ?? 'organization_config',
+      questions: loaded?.questions ?? answered.map(row => ({ id: row.question_id, question: row.question, required: true })),
+      answers: answered
+        .filter(row => row.service === service)
+        .map(row => ({ questionId: row.question_id, question: row.question, answer: row.answer })),
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Starts tracking the questionnaire for `service` unless one is already tracked,
+   * e.g. when the service is only known from the create_matter arguments.
+   */
+  async selectService(service: string): Promise<void> {
+    if (this.record || !service.trim()) {
+      return;
+    }
+
+    const loaded = await loadServiceQuestionnaire(this.env, this.organization, service);
+    if (!loaded) {
+      return;
+    }
+
+    this.record = { ...loaded, answers: [], updatedAt: new Date().toISOString() };
+    this.dirty = true;
+    await this.update(this.messages);
+  }
+
+  get progress(): QuestionnaireProgress | null {
+    return this.record ? buildQuestionnaireProgress(this.record) : null;
+  }
+
+  /**
+   * True when there is no questionnaire or every required question is answered.
+   */
+  get complete(): boolean {
+    return this.progress?.complete ?? true;
+  }
+
+  /**
+   * Detects newly answered questions in the conversation and persists them.
+   */
+  async update(messages: readonly AgentMessage[]): Promise<QuestionnaireAnswer[]> {
+    this.messages = messages;
+    if (!this.record) {
+      return [];
+    }
+
+    const answered = new Set(this.record.answers.map(answer => answer.questionId));
+    const answers = detectAnswers(this.record.questions, messages, answered);
+    if (answers.length === 0) {
+      return [];
+    }
+
+    this.record = {
+      ...this.record,
+      answers: [...this.record.answers, ...answers],
+      updatedAt: new Date().toISOString()
+    };
+    this.dirty = true;
+    await this.persistAnswers(answers);
+
+    Logger.info('Intake questionnaire answers recorded', {
+      correlationId: this.options.correlationId,
+      sessionId: this.options.sessionId,
+      service: this.record.service,
+      answered: answers.map(answer => answer.questionId),
+      remainingRequired: this.progress?.remainingRequired.length ?? 0
+    });
+
+    return answers;
+  }
+
+  /**
+   * Writes the questionnaire back to the session's conversation context when it changed.
+   */
+  async save(): Promise<void> {
+    const { sessionId, organizationId } = this.options;
+    if (!this.dirty || !this.record || !sessionId || !organizationId) {
+      return;
+    }
+
+    try {
+      const context = await ConversationContextManager.load(sessionId, organizationId, this.env);
+      context.questionnaire = this.record;
+      await ConversationContextManager.save(context, this.env);
+      this.dirty = false;
+    } catch (error) {
+      Logger.warn('Failed to persist intake questionnaire', {
+        sessionId,
+        organizationId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Links the session's Q&A rows to the new matter and copies the answers onto
+   * `matters.custom_fields.answers` for the review queue.
+   */
+  async attachToMatter(matterId: string): Promise<void> {
+    const { sessionId, organizationId } = this.options;
+    if (!this.record || !sessionId || !organizationId) {
+      return;
+    }
+
+    const answers = Object.fromEntries(this.record.answers.map(answer => [answer.question, answer.answer]));
+
+    try {
+      await this.env.DB.prepare(`
+        UPDATE matter_questions SET matter_id = ?
+        WHERE session_id = ? AND organization_id = ? AND matter_id IS NULL
+      `).bind(matterId, sessionId, organizationId).run();
+
+      await this.env.DB.prepare(`
+        UPDATE matters
+        SET custom_fields = json_set(COALESCE(custom_fields, '{}'), '$.answers', json(?))
+        WHERE id = ? AND organization_id = ?
+      `).bind(JSON.stringify(answers), matterId, organizationId).run();
+    } catch (error) {
+      Logger.warn('Failed to attach questionnaire answers to matter', {
+        matterId,
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async persistAnswers(answers: readonly QuestionnaireAnswer[]): Promise<void> {
+    const { sessionId, organizationId } = this.options;
+    if (!this.record || !sessionId || !organizationId) {
+      return;
+    }
+
+    try {
+      for (const answer of answers) {
+        await this.env.DB.prepare(`
+          INSERT OR IGNORE INTO matter_questions (
+            id, organization_id, session_id, service, question_id, question, answer, source, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, 'ai-form', ?)
+        `).bind(
+          crypto.randomUUID(),
+          organizationId,
+          sessionId,
+          this.record.service,
+          answer.questionId,
+          answer.question,
+          answer.answer,
+          new Date().toISOString()
+        ).run();
+      }
+    } catch (error) {
+      Logger.warn('Failed to persist questionnaire answers', {
+        sessionId,
+        organizationId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
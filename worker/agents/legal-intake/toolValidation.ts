@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolParameterProperty } from './index.js';
+import { compileSafePattern } from '../../utils/safeRegex.js';
+import { Logger } from '../../utils/logger.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ToolArgumentIssue {
+  field: string;
+  message: string;
+}
+
+export interface ToolArgumentValidation {
+  valid: boolean;
+  value: Record<string, unknown>;
+  errors: string[];
+  issues: ToolArgumentIssue[];
+}
+
+type ToolParameters = ToolDefinition['parameters'];
+
+// ============================================================================
+// SCHEMA COMPILATION
+// ============================================================================
+
+const compiledSchemas = new WeakMap<ToolParameters, z.ZodType<Record<string, unknown>>>();
+
+function typeError(field: string, type: string) {
+  return (issue: { input?: unknown }) =>
+    issue.input === undefined ? `${field} is required` : `${field} must be a ${type}`;
+}
+
+function compileProperty(field: string, property: ToolParameterProperty, required: boolean): z.ZodType {
+  let schema: z.ZodType;
+
+  switch (property.type) {
+    case 'string': {
+      let str = z.string({ error: typeError(field, 'string') }).trim();
+      if (required) {
+        str = str.min(1, { error: `${field} is required` });
+      }
+      if (property.minLength !== undefined) {
+        str = str.min(property.minLength, { error: `${field} must be at least ${property.minLength} characters` });
+      }
+      if (property.maxLength !== undefined) {
+        str = str.max(property.maxLength, { error: `${field} must be at most ${property.maxLength} characters` });
+      }
+      if (property.pattern) {
+        const pattern = compileSafePattern(property.pattern);
+        if (!pattern) {
+          // Saved before patterns were vetted; refuse values rather than run it
+          Logger.warn('Unsafe or invalid tool parameter pattern', { field });
+        }
+        str = pattern
+          ? str.regex(pattern, { error: `${field} has an invalid format` })
+          : str.refine(() => false, { error: `${field} has an invalid format` });
+      }
+      const allowed = property.enum;
+      schema = allowed
+        ? str.refine(value => allowed.includes(value), { error: `${field} must be one of: ${allowed.join(', ')}` })
+        : str;
+      break;
+    }
+    case 'number': {
+      let num = z.number({ error: typeError(field, 'number') });
+      if (property.minimum !== undefined) {
+        num = num.min(property.minimum, { error: `${field} must be >= ${property.minimum}` });
+      }
+      if (property.maximum !== undefined) {
+        num = num.max(property.maximum, { error: `${field} must be <= ${property.maximum}` });
+      }
+      schema = num;
+      break;
+    }
+    case 'boolean':
+      schema = z.boolean({ error: typeError(field, 'boolean') });
+      break;
+    case 'array':
+      schema = z.array(
+        property.items ? compileProperty(`${field}[]`, property.items, true) : z.unknown(),
+        { error: typeError(field, 'array') }
+      );
+      break;
+    case 'object': {
+      const shape = Object.fromEntries(
+        Object.entries(property.properties ?? {}).map(([key, child]) => [
+          key,
+          compileProperty(`${field}.${key}`, child, false).optional()
+        ])
+      );
+      schema = z.looseObject(shape, { error: typeError(field, 'object') });
+      break;
+    }
+    default:
+      schema = z.unknown();
+  }
+
+  return schema;
+}
+
+/**
+ * Compiles a tool's JSON-schema subset into a zod validator. Compiled schemas are
+ * cached per parameters object, so built-in tool definitions compile once.
+ */
+export function compileToolParameters(parameters: ToolParameters): z.ZodType<Record<string, unknown>> {
+  const cached = compiledSchemas.get(parameters);
+  if (cached) {
+    return cached;
+  }
+
+  const required = new Set(parameters.required ?? []);
+  const shape = Object.fromEntries(
+    Object.entries(parameters.properties).map(([field, property]) => {
+      const schema = compileProperty(field, property, required.has(field));
+      return [field, required.has(field) ? schema : schema.optional()];
+    })
+  );
+
+  const compiled = (parameters.additionalProperties === false
+    ? z.object(shape)
+    : z.looseObject(shape)) as unknown as z.ZodType<Record<string, unknown>>;
+  compiledSchemas.set(parameters, compiled);
+  return compiled;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Optional fields the model left null or blank are treated as absent rather
+ * than failing validation.
+ */
+function dropEmptyOptionalValues(parameters: ToolParameters, args: Record<string, unknown>): Record<string, unknown> {
+  const required = new Set(parameters.required ?? []);
+  return Object.fromEntries(
+    Object.entries(args).filter(([field, value]) => {
+      if (required.has(field)) return true;
+      if (value === null || value === undefined) return false;
+      return !(typeof value === 'string' && value.trim() === '');
+    })
+  );
+}
+
+/**
+ * Validates model-supplied arguments against the tool definition, trimming strings
+ * and dropping undeclared properties when `additionalProperties` is false.
+ */
+export function validateToolArguments(
+  parameters: ToolParameters,
+  args: Record<string, unknown> | undefined
+): ToolArgumentValidation {
+  const input = dropEmptyOptionalValues(parameters, args ?? {});
+  const result = compileToolParameters(parameters).safeParse(input);
+
+  if (result.success) {
+    return { valid: true, value: result.data, errors: [], issues: [] };
+  }
+
+  const issues: ToolArgumentIssue[] = [];
+  for (const issue of result.error.issues) {
+    const field = issue.path.map(String).join('.') || 'arguments';
+    // One issue per field keeps repair prompts short
+    if (!issues.some(existing => existing.field === field)) {
+      issues.push({ field, message: issue.message });
+    }
+  }
+
+  return { valid: false, value: input, errors: issues.map(issue => issue.message), issues };
+}
+
+// ============================================================================
+// REPAIR PROMPTS
+// ============================================================================
+
+/**
+ * Structured feedback sent back to the model after an invalid tool call.
+ */
+export function buildToolRepairPrompt(toolName: string, issues: readonly ToolArgumentIssue[]): string {
+  const lines = issues.map(issue => `- field ${issue.field} invalid: ${issue.message}`);
+  return [
+    `Your call to ${toolName} was rejected because its arguments failed validation:`,
+    ...lines,
+    `Call ${toolName} again with corrected arguments using only information the user actually provided.`,
+    'If the user has not provided a required value, do not call the tool; ask the user for it instead.',
+    'To call the tool, reply with only:',
+    `TOOL_CALL: ${toolName}`,
+    'PARAMETERS: {valid JSON}'
+  ].join('\n');
+}
+
+/**
+ * User-facing message when the arguments are still invalid after the repair attempt.
+ */
+export function buildInvalidArgumentsMessage(issues: readonly ToolArgumentIssue[]): string {
+  const fields = Array.from(new Set(issues.map(issue => issue.field.split(/[.[]/)[0].replace(/_/g, ' '))));
+  return fields.length > 0
+    ? `I need a bit more information before I can continue. Could you please check your ${fields.join(', ')}?`
+    : 'I need a bit more information before I can continue.';
+}
@@ -4,6 +4,15 @@ import { withAIRetry } from '../utils/retry.js';
 import { AdobeDocumentService, type AdobeExtractSuccess } from '../services/AdobeDocumentService.js';
 import { SessionService, type AnalysisResult } from '../services/SessionService.js';
 import { StatusService } from '../services/StatusService.js';
+import {
+  quarantineAnalysis,
+  recordInjectionDetections,
+  sanitizeDocumentText,
+  scanDocumentText,
+  wrapDocumentData,
+  UNTRUSTED_DOCUMENT_NOTICE,
+  type InjectionDetection
+} from '../utils/documentQuarantine.js';
 import type { Env } from '../types.js';
 import type { DocumentEvent, AutoAnalysisEvent } from '../types/events.js';
 
@@ -280,6 +289,8 @@ async function performDocumentAnalysis(
 ): Promise<AnalysisResult> {
   let analysis: AnalysisResult | undefined;
   const adobeEligible = isAdobeEligibleMime(mime);
+  // Document text is untrusted; instruction-like passages are stripped before any prompt sees them
+  const detections: InjectionDetection[] = [];
 
   // Get the createdAt timestamp for this statusId to preserve it across updates
   let statusCreatedAt: number | null = null;
@@ -330,7 +341,9 @@ async function performDocumentAnalysis(
       if (sessionId && organizationId) {
         await SessionService.sendAnalysisStatus(env, sessionId, organizationId, "🔍 Summarizing document...");
       }
-      analysis = await summarizeAdobeResult(env, adobeResult.details, sessionId, organizationId, statusId);
+      const extracted = sanitizeDocumentText(adobeResult.details.text ?? '');
+      detections.push(...extracted.detections);
+      analysis = await summarizeAdobeResult(env, { ...adobeResult.details, text: extracted.text }, detections);
     } else {
       if (statusId && sessionId && organizationId) {
         await StatusService.setStatus(env, {
@@ -387,19 +400,31 @@ async function performDocumentAnalysis(
       if (sessionId && organizationId) {
         await SessionService.sendAnalysisStatus(env, sessionId, organizationId, "🔍 Processing document text...");
       }
-      const text = new TextDecoder().decode(buf);
-      analysis = await summarizeLegal(env, text, sessionId, organizationId, statusId, statusCreatedAt);
+      const extracted = sanitizeDocumentText(new TextDecoder().decode(buf));
+      detections.push(...extracted.detections);
+      analysis = await summarizeLegal(env, extracted.text, sessionId, organizationId, statusId, statusCreatedAt);
     }
   }
 
-  return analysis;
+  // Summaries are generated from the document, so injected instructions can survive into them
+  const quarantined = quarantineAnalysis(analysis);
+  await recordInjectionDetections(env, {
+    sessionId,
+    organizationId,
+    source: 'doc_processor',
+    fileName: key.split('/').pop() ?? key,
+    detections: [...detections, ...quarantined.detections]
+  });
+
+  return quarantined.analysis;
 }
 
 async function summarizeLegal(env: Env, text: string, sessionId?: string, organizationId?: string, statusId?: string, statusCreatedAt?: number) {
   const prompt = [
     "You are a legal intake summarizer. Output JSON with fields:",
     "summary, key_facts[], entities{people[],orgs[],dates[]}, action_items[], confidence(0-1).",
-    "Use only the given text; if unsure, say so."
+    "Use only the given text; if unsure, say so.",
+    UNTRUSTED_DOCUMENT_NOTICE
   ].join("\n");
   
   const truncated = text.length > MAX_TEXT_CHARS ? `${text.slice(0, MAX_TEXT_CHARS)}...` : text;
@@ -419,7 +444,7 @@ async function summarizeLegal(env: Env, text: string, sessionId?: string, organi
   }
   
   const res = await withAIRetry(() => (env.AI as { run: (model: string, params: Record<string, unknown>) => Promise<unknown> }).run("@cf/openai/gpt-oss-20b", {
-    input: `${prompt}\n\n${truncated}`,
+    input: `${prompt}\n\n${wrapDocumentData('uploaded document', truncated)}`,
     max_tokens: 800,
     temperature: 0.1
   }));
@@ -493,7 +518,7 @@ function buildSafeStructuredPayload(tables: Record<string, unknown>[], elements:
   return '[structured data omitted - too large]';
 }
 
-async function summarizeAdobeResult(env: Env, extract: AdobeExtractSuccess, sessionId?: string, organizationId?: string, statusId?: string) {
+async function summarizeAdobeResult(env: Env, extract: AdobeExtractSuccess, detections: InjectionDetection[]) {
   const text = extract.text ?? '';
   const structured = buildSafeStructuredPayload(
     (extract.tables ?? []) as Record<string, unknown>[], 
@@ -506,12 +531,17 @@ async function summarizeAdobeResult(env: Env, extract: AdobeExtractSuccess, sess
     "You are a legal intake summarizer. Output JSON with fields:",
     "summary, key_facts[], entities{people[],orgs[],dates[]}, action_items[], confidence(0-1).",
     "Prioritize parties, deadlines, dollar amounts, obligations, and recommended next steps.",
-    "Use the structured cues provided by Adobe Extract when available."
+    "Use the structured cues provided by Adobe Extract when available.",
+    UNTRUSTED_DOCUMENT_NOTICE
   ].join("\n");
 
+  // Structured elements carry raw document text; leave them out when they contain instruction-like content
+  const structuredScan = scanDocumentText(structured);
+  detections.push(...structuredScan.detections);
+
   const userContent = [
-    truncatedText,
-    structured ? `Structured data:\n${structured}` : ''
+    wrapDocumentData('extracted text', truncatedText),
+    structured && !structuredScan.flagged ? wrapDocumentData('structured data', structured) : ''
   ].filter(Boolean).join('\n\n');
 
   const res = await withAIRetry(() => (env.AI as { run: (model: string, params: Record<string, unknown>) => Promise<unknown> }).run("@cf/openai/gpt-oss-20b", {
@@ -121,25 +121,46 @@ export const handleRequest = withCORS(handleRequestInternal, getCorsConfig);
 
 export default { 
   fetch: handleRequest,
-  queue: docProcessor.queue
+  queue: docProcessor.queue,
+  scheduled
 };
 
-// Scheduled event for cleanup (runs daily)
+// Cron expressions from [triggers] in wrangler.toml
+const DAILY_CRON = '0 0 * * *';
+const HOURLY_CRON = '0 * * * *';
+
+// Scheduled maintenance: status cleanup daily, tool usage alerts hourly
 export async function scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
-  // Import StatusService
-  const { StatusService } = await import('./services/StatusService');
-  
-  // Create cleanup promise with error handling
-  const cleanupPromise = StatusService.cleanupExpiredStatuses(env)
-    .then(count => {
-      console.log(`Scheduled cleanup: removed ${count} expired status entries`);
-    })
-    .catch(error => {
-      console.error('Scheduled cleanup failed:', error);
-    });
-  
-  // Use ctx.waitUntil to ensure cleanup completes after handler returns
-  ctx.waitUntil(cleanupPromise);
+  if (event.cron === DAILY_CRON) {
+    // Import StatusService
+    const { StatusService } = await import('./services/StatusService');
+
+    // Create cleanup promise with error handling
+    const cleanupPromise = StatusService.cleanupExpiredStatuses(env)
+      .then(count => {
+        console.log(`Scheduled cleanup: removed ${count} expired status entries`);
+      })
+      .catch(error => {
+        console.error('Scheduled cleanup failed:', error);
+      });
+
+    // Use ctx.waitUntil to ensure cleanup completes after handler returns
+    ctx.waitUntil(cleanupPromise);
+  }
+
+  if (event.cron === HOURLY_CRON) {
+    // Tool usage alerts run against the persisted audit log, so they cover every isolate
+    const { ToolAuditService } = await import('./services/ToolAuditService');
+    ctx.waitUntil(
+      new ToolAuditService(env).checkAlerts()
+        .then(alerts => {
+          console.log(`Scheduled tool usage check: ${alerts.length} alert(s)`);
+        })
+        .catch(error => {
+          console.error('Scheduled tool usage check failed:', error);
+        })
+    );
+  }
 }
 
 // Export Durable Object classes (none currently)
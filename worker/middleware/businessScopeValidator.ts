@@ -1,6 +1,7 @@
 import type { ConversationContext } from './conversationContextManager.js';
 import type { OrganizationConfig } from '../services/OrganizationService.js';
 import type { PipelineMiddleware } from './pipeline.js';
+import { hasIntent } from './intentClassifier.js';
 import type { Env, AgentMessage } from '../types.js';
 
 // Pre-compiled regex patterns for better performance and accuracy
@@ -92,7 +93,7 @@ export const businessScopeValidator: PipelineMiddleware = {
     }
 
     // Allow contact-collection flows to proceed without blocking on service availability
-    if (context.userIntent === 'lawyer_contact' || context.conversationPhase === 'contact_collection') {
+    if (hasIntent(context, 'lawyer_contact') || context.conversationPhase === 'contact_collection') {
       return { context };
     }
 
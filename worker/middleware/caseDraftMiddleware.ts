@@ -3,6 +3,7 @@ import type { OrganizationConfig } from '../agents/legal-intake/promptTemplates.
 import type { PipelineMiddleware } from './pipeline.js';
 import type { Env, AgentMessage } from '../types.js';
 import { ConversationContextManager } from './conversationContextManager.js';
+import { hasIntent } from './intentClassifier.js';
 
 // Case information extracted from user message
 interface CaseInfo {
@@ -25,41 +26,21 @@ interface MiddlewareResponse {
 
 /**
  * Case Draft Middleware - handles case building and organization requests
- * Detects when users want to build case drafts and provides structured case building
+ * Builds a structured case draft when the user's intent for the turn is case_draft
  */
 export const caseDraftMiddleware: PipelineMiddleware = {
   kind: 'standard',
   name: 'caseDraftMiddleware',
   
   execute: async (messages: AgentMessage[], context: ConversationContext, organizationConfig: OrganizationConfig, env: Env) => {
-    // Build conversation text for context-aware analysis
-    const conversationText = messages.map(msg => msg.content).join(' ');
-    const latestMessage = messages[messages.length - 1];
-    
-    // Check if user is requesting case draft building
-    const caseDraftKeywords = [
-      'build a case draft',
-      'organize my case',
-      'case preparation',
-      'prepare my case',
-      'case file',
-      'case organization',
-      'structure my case',
-      'case building',
-      'organize case information',
-      'help me build a case draft',
-      'can you help me build a case draft',
-      'i need help building a case draft'
-    ];
-
-    const isCaseDraftRequest = caseDraftKeywords.some(keyword => 
-      conversationText.toLowerCase().includes(keyword.toLowerCase())
-    );
-
-    if (!isCaseDraftRequest) {
+    // Only act when this turn asks for a case draft, as classified by
+    // intentClassifierMiddleware; earlier requests in the conversation don't count
+    if (!hasIntent(context, 'case_draft')) {
       return { context };
     }
 
+    const conversationText = messages.map(msg => msg.content).join(' ');
+
     // Extract case information from the full conversation
     const caseInfo = extractCaseInformation(conversationText);
     
@@ -1,5 +1,10 @@
 import type { Env, AgentMessage } from '../types.js';
-import type { OrganizationConfig } from '../services/OrganizationService.js';
+import type {
+  ContentPolicyCategory,
+  ContentPolicySeverity,
+  OrganizationConfig,
+  OrganizationContentPolicyConfig
+} from '../services/OrganizationService.js';
 
 import type { ConversationContext } from './conversationContextManager.js';
 import type { PipelineMiddleware } from './pipeline.js';
@@ -57,19 +62,101 @@ const LEGAL_CONTEXT_KEYWORDS = [
   'criminal', 'civil', 'constitutional', 'administrative', 'federal', 'state', 'local'
 ] as const;
 
+export interface ContentPolicyViolation {
+  category: ContentPolicyCategory;
+  severity: Exclude<ContentPolicySeverity, 'off'>;
+  term?: string;  // the blocked term that matched
+}
+
+export interface ContentPolicyEvaluation {
+  violations: ContentPolicyViolation[];
+  blocked: boolean;
+  response?: string;  // refusal to send when blocked
+}
+
+// Refusal precedence when a message trips several blocking categories
+const CATEGORY_PRIORITY: readonly ContentPolicyCategory[] = [
+  'jailbreak_attempt',
+  'non_legal_request',
+  'abusive_content',
+  'blocked_term',
+  'spam_content'
+];
+
+const DEFAULT_REFUSALS: Record<ContentPolicyCategory, string> = {
+  jailbreak_attempt: "I'm a legal intake specialist and can only help with legal matters. I cannot change my role or provide other types of assistance.",
+  non_legal_request: "I'm a legal intake specialist and can only help with legal matters. I can help you with legal questions, case preparation, and connecting you with attorneys. How can I assist you with your legal needs?",
+  abusive_content: "I cannot help with that type of request. I'm here to assist with legal matters only. If you have a legal question or need help with a legal issue, I'd be happy to help.",
+  blocked_term: "I can't help with that request here. If you have a legal question or need help with a legal issue, I'd be happy to help.",
+  spam_content: "I notice you've sent a very long message. Could you please provide a brief summary of your legal question or situation? I'm here to help with legal matters."
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Allowed phrases are blanked out so the built-in patterns never see them
+function removeAllowedPhrases(message: string, phrases: readonly string[] | undefined): string {
+  return (phrases ?? [])
+    .map(phrase => phrase.trim())
+    .filter(phrase => phrase.length > 0)
+    .reduce((text, phrase) => text.replace(new RegExp(escapeRegExp(phrase), 'gi'), ' '), message);
+}
+
+function findBlockedTerm(message: string, terms: readonly string[] | undefined): string | undefined {
+  const normalized = message.toLowerCase();
+  return (terms ?? []).find(term => term.trim().length > 0 && normalized.includes(term.trim().toLowerCase()));
+}
+
+/**
+ * Checks the latest message against the built-in patterns and the
+ * organization's policy. Pure, so the dry-run endpoint can use it as-is.
+ */
+export function evaluateContentPolicy(
+  messages: AgentMessage[],
+  context: Pick<ConversationContext, 'establishedMatters' | 'messageCount'>,
+  policy?: OrganizationContentPolicyConfig
+): ContentPolicyEvaluation {
+  const latestMessage = messages[messages.length - 1];
+  if (!latestMessage) {
+    return { violations: [], blocked: false };
+  }
+
+  const screenedMessage = removeAllowedPhrases(latestMessage.content, policy?.allowedPhrases);
+  const categories: ContentPolicyCategory[] = checkForViolations(screenedMessage, context, messages);
+  const blockedTerm = findBlockedTerm(latestMessage.content, policy?.blockedTerms);
+  if (blockedTerm) {
+    categories.push('blocked_term');
+  }
+
+  const violations = categories.flatMap((category): ContentPolicyViolation[] => {
+    const severity = policy?.severities?.[category] ?? 'block';
+    if (severity === 'off') {
+      return [];
+    }
+    return [{ category, severity, ...(category === 'blocked_term' ? { term: blockedTerm } : {}) }];
+  });
+
+  const blocking = violations.filter(violation => violation.severity === 'block').map(violation => violation.category);
+  if (blocking.length === 0) {
+    return { violations, blocked: false };
+  }
+
+  return { violations, blocked: true, response: getViolationResponse(blocking, policy?.refusalMessages) };
+}
+
 /**
  * Content Policy Filter - handles safety and security concerns
  * This is the first line of defense against inappropriate content
  * Now conversation-aware: considers full conversation context for better accuracy
+ * Organizations can add blocked terms and allowed phrases, and set each
+ * category to block, flag or off
  */
 export const contentPolicyFilter: PipelineMiddleware = {
   kind: 'standard',
   name: 'contentPolicyFilter',
   
-  execute: async (messages: AgentMessage[], context: ConversationContext, _organizationConfig: OrganizationConfig, _env: Env) => {
-    // Note: organizationConfig parameter is currently unused but kept for interface compatibility
-    // Future enhancement: could use organization-specific content policies
-    
+  execute: async (messages: AgentMessage[], context: ConversationContext, organizationConfig: OrganizationConfig, _env: Env) => {
     // Guard clause: ensure we have at least one message
     if (!messages || messages.length === 0) {
       console.warn('contentPolicyFilter: No messages provided');
@@ -77,7 +164,8 @@ export const contentPolicyFilter: PipelineMiddleware = {
     }
     
     const latestMessage = messages[messages.length - 1];
-    const violations = checkForViolations(latestMessage.content, context, messages);
+    const evaluation = evaluateContentPolicy(messages, context, organizationConfig?.contentPolicy);
+    const violations = evaluation.violations.map(violation => violation.category);
     
     if (violations.length > 0) {
       // Log security violations (privacy-safe)
@@ -85,6 +173,7 @@ export const contentPolicyFilter: PipelineMiddleware = {
         sessionId: context.sessionId,
         organizationId: context.organizationId,
         violations,
+        blocked: evaluation.blocked,
         messageCount: messages.length,
         messageLength: latestMessage.content.length,
         messageHash: latestMessage.content.length > 0 ? globalThis.btoa(latestMessage.content).substring(0, 8) : ''
@@ -96,12 +185,14 @@ export const contentPolicyFilter: PipelineMiddleware = {
         safetyFlags: [...context.safetyFlags, ...violations]
       };
 
-      // Return appropriate response based on violation type
-      const response = getViolationResponse(violations, context);
-      
+      // Flagged-only violations are recorded and the conversation continues
+      if (!evaluation.blocked) {
+        return { context: updatedContext };
+      }
+
       return {
         context: updatedContext,
-        response,
+        response: evaluation.response,
         shouldStop: true
       };
     }
@@ -115,8 +206,12 @@ export const contentPolicyFilter: PipelineMiddleware = {
  * Check for various types of content policy violations
  * Now conversation-aware for better accuracy
  */
-function checkForViolations(message: string, context: ConversationContext, messages: AgentMessage[]): string[] {
-  const violations: string[] = [];
+function checkForViolations(
+  message: string,
+  context: Pick<ConversationContext, 'establishedMatters' | 'messageCount'>,
+  messages: AgentMessage[]
+): ContentPolicyCategory[] {
+  const violations: ContentPolicyCategory[] = [];
 
   // 1. Jailbreak attempts
   if (isJailbreakAttempt(message)) {
@@ -151,7 +246,7 @@ function isJailbreakAttempt(message: string): boolean {
 /**
  * Check for non-legal requests (context-aware with legal whitelisting and conversation history)
  */
-function isNonLegalRequest(message: string, context: ConversationContext, messages: AgentMessage[]): boolean {
+function isNonLegalRequest(message: string, context: Pick<ConversationContext, 'establishedMatters'>, messages: AgentMessage[]): boolean {
   // If we have established legal context, be more permissive
   if (context.establishedMatters.length > 0) {
     return false; // Allow follow-up questions in legal context
@@ -197,7 +292,7 @@ function isAbusiveContent(message: string): boolean {
 /**
  * Check for spam or repetitive content (now conversation-aware)
  */
-function isSpamContent(message: string, context: ConversationContext, messages: AgentMessage[]): boolean {
+function isSpamContent(message: string, context: Pick<ConversationContext, 'messageCount'>, messages: AgentMessage[]): boolean {
   // Extract user messages only for spam detection
   const userMessages = messages.filter(m => m.role === 'user');
   const latestUserMessage = userMessages.at(-1)?.content ?? '';
@@ -237,21 +332,13 @@ function isSpamContent(message: string, context: ConversationContext, messages:
 /**
  * Get appropriate response for violation type
  */
-function getViolationResponse(violations: string[], _context: ConversationContext): string {
-  if (violations.includes('jailbreak_attempt')) {
-    return "I'm a legal intake specialist and can only help with legal matters. I cannot change my role or provide other types of assistance.";
-  }
-
-  if (violations.includes('non_legal_request')) {
-    return "I'm a legal intake specialist and can only help with legal matters. I can help you with legal questions, case preparation, and connecting you with attorneys. How can I assist you with your legal needs?";
-  }
-
-  if (violations.includes('abusive_content')) {
-    return "I cannot help with that type of request. I'm here to assist with legal matters only. If you have a legal question or need help with a legal issue, I'd be happy to help.";
-  }
-
-  if (violations.includes('spam_content')) {
-    return "I notice you've sent a very long message. Could you please provide a brief summary of your legal question or situation? I'm here to help with legal matters.";
+function getViolationResponse(
+  violations: readonly ContentPolicyCategory[],
+  refusalMessages: OrganizationContentPolicyConfig['refusalMessages']
+): string {
+  const category = CATEGORY_PRIORITY.find(candidate => violations.includes(candidate));
+  if (category) {
+    return refusalMessages?.[category] ?? DEFAULT_REFUSALS[category];
   }
 
   // Default response
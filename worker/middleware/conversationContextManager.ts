@@ -1,4 +1,8 @@
 import type { Env, AgentMessage } from '../types.js';
+import type { IntakeStateRecord } from '../agents/legal-intake/intakeStateMachine.js';
+import type { QuestionnaireRecord } from '../agents/legal-intake/questionnaire.js';
+import type { CrisisRecord } from './crisisEscalationMiddleware.js';
+import type { ResolvedLocation } from '../utils/usGeography.js';
 
 export interface CaseDraft {
   matter_type: string;
@@ -57,14 +61,49 @@ export interface LawyerSearchResults {
   total: number;
 }
 
+export type UserIntentLabel = 'intake' | 'lawyer_contact' | 'case_draft' | 'general_info' | 'unclear';
+
+/**
+ * What the user wants from the current turn, written once per turn by
+ * intentClassifierMiddleware. Middlewares branch on this instead of scanning
+ * the conversation text themselves.
+ */
+export interface UserIntent {
+  label: UserIntentLabel;
+  confidence: number;  // 0-1
+  source: 'model' | 'keywords' | 'default';
+  messageCount: number;  // Turn the intent was classified on
+}
+
+export const DEFAULT_USER_INTENT: UserIntent = {
+  label: 'unclear',
+  confidence: 0,
+  source: 'default',
+  messageCount: 0
+};
+
 export interface ConversationContext {
   sessionId: string;
   organizationId: string;
   establishedMatters: string[];
   jurisdiction: string | null;
+  // Location the user gave, normalized to county and state, owned by jurisdictionValidator
+  location?: ResolvedLocation;
+  // Cloudflare's geolocation of the current request
+  requestLocation?: ResolvedLocation;
   safetyFlags: string[];
-  userIntent: 'intake' | 'lawyer_contact' | 'general_info' | 'unclear';
+  userIntent: UserIntent;
   conversationPhase: 'initial' | 'gathering_info' | 'qualifying' | 'contact_collection' | 'completed';
+  // Explicit intake state, owned by the legal intake agent
+  intakeState?: IntakeStateRecord;
+  // Service questionnaire progress, owned by the legal intake agent
+  questionnaire?: QuestionnaireRecord;
+  // Crisis categories detected this session, owned by crisisEscalationMiddleware
+  crisis?: CrisisRecord;
+  // Consultation slot IDs last offered by schedule_consultation, in the order listed
+  consultationSlots?: string[];
+  // Slot the client picked and was asked to confirm; booked only on a yes the next turn
+  pendingConsultationSlot?: string;
   lastUpdated: number;
   messageCount: number;
   // Lead qualification data
@@ -143,6 +182,10 @@ export class ConversationContextManager {
       const stored = await env.CHAT_SESSIONS.get(key);
       if (stored) {
         const context = JSON.parse(stored) as ConversationContext;
+        // Contexts saved before intents were classified hold a bare label
+        if (typeof context.userIntent !== 'object' || context.userIntent === null) {
+          context.userIntent = { ...DEFAULT_USER_INTENT };
+        }
         // Update last accessed time
         context.lastUpdated = Date.now();
         return context;
@@ -182,7 +225,7 @@ export class ConversationContextManager {
       establishedMatters: [],
       jurisdiction: null,
       safetyFlags: [],
-      userIntent: 'unclear',
+      userIntent: { ...DEFAULT_USER_INTENT },
       conversationPhase: 'initial',
       lastUpdated: Date.now(),
       messageCount: 0,
@@ -222,9 +265,6 @@ export class ConversationContextManager {
       }
     });
 
-    // Update user intent based on full conversation context
-    updated.userIntent = this.determineUserIntent(userConversationText, updated);
-
     // Update conversation phase using full conversation context
     updated.conversationPhase = this.determineConversationPhase(updated, conversationText);
 
@@ -271,33 +311,6 @@ export class ConversationContextManager {
     return foundMatters;
   }
 
-  /**
-   * Determine user intent from message content
-   */
-  private static determineUserIntent(message: string, context: ConversationContext): ConversationContext['userIntent'] {
-    // Check for explicit lawyer contact requests
-    if (/(need a lawyer|want a lawyer|talk to a lawyer|speak with attorney|hire an attorney)/i.test(message)) {
-      return 'lawyer_contact';
-    }
-
-    // Check for general information requests
-    if (/(what is|how does|explain|tell me about|information about)/i.test(message)) {
-      return 'general_info';
-    }
-
-    // If we have established legal matters, likely intake
-    if (context.establishedMatters.length > 0) {
-      return 'intake';
-    }
-
-    // Check for legal issue descriptions
-    if (/(help with|need help|problem with|issue with|situation with)/i.test(message)) {
-      return 'intake';
-    }
-
-    return 'unclear';
-  }
-
   /**
    * Determine conversation phase based on context
    */
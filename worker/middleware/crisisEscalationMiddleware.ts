@@ -0,0 +1,257 @@
+import type { ConversationContext } from './conversationContextManager.js';
+import type {
+  CrisisCategory,
+  OrganizationConfig,
+  OrganizationCrisisResource
+} from '../services/OrganizationService.js';
+import type { PipelineMiddleware } from './pipeline.js';
+import { ActivityService } from '../services/ActivityService.js';
+import { NotificationService } from '../services/NotificationService.js';
+import { SessionService } from '../services/SessionService.js';
+import { resolveState } from '../services/DeadlineService.js';
+import { Logger } from '../utils/logger.js';
+import type { Env, AgentMessage } from '../types.js';
+
+export const CRISIS_AUDIT_EVENT = 'crisis_escalation';
+
+const MAX_EXCERPT_LENGTH = 500;
+
+// Listed in the order they are addressed in the reply
+const CRISIS_CATEGORIES: readonly CrisisCategory[] = ['imminent_danger', 'self_harm', 'domestic_violence'];
+
+const CRISIS_PATTERNS: Record<CrisisCategory, readonly RegExp[]> = {
+  self_harm: [
+    /\b(kill(ing)?\s+myself|end(ing)?\s+my\s+(own\s+)?life|take\s+my\s+(own\s+)?life)\b/i,
+    /\b(i('m|\s+am)\s+(feeling\s+)?suicidal|suicide\s+methods?|(thinking\s+about|considering|planning)\s+suicide|commit\s+suicide)\b/i,
+    /\b(want\s+to\s+die|don'?t\s+want\s+to\s+(live|be\s+alive)|hurt(ing)?\s+myself|self[-\s]harm)\b/i
+  ],
+  imminent_danger: [
+    /\b(threat(s|ened)?\s+to\s+kill|(going|gonna)\s+to\s+kill\s+me|said\s+(he|she|they)('d|\s+would|\s+will)\s+kill\s+me)\b/i,
+    /\b(in\s+danger\s+(right\s+)?now|i('m|\s+am)\s+not\s+safe|(afraid|fear(ing)?|scared)\s+for\s+my\s+life)\b/i,
+    /\b(he|she|they)\s+(has|have|is\s+holding)\s+a\s+(gun|knife|weapon)\b/i,
+    /\b(he|she|they)('s|\s+is|\s+are)\s+(outside|at)\s+my\s+(door|house|home|apartment)\b/i
+  ],
+  domestic_violence: [
+    /\b(domestic\s+(violence|abuse)|abusive\s+(husband|wife|partner|boyfriend|girlfriend|spouse|ex|relationship))\b/i,
+    /\b(husband|wife|partner|boyfriend|girlfriend|spouse|ex)\s+(hit|hits|beat|beats|choked|chokes|strangled|attacked|assaulted|abuses|abused|hurts|hurt)\s+me\b/i
+  ]
+};
+
+/**
+ * National resources shown alongside the organization's own.
+ */
+export const DEFAULT_CRISIS_RESOURCES: readonly OrganizationCrisisResource[] = [
+  { name: 'Emergency services', phone: '911', categories: ['imminent_danger', 'self_harm', 'domestic_violence'] },
+  { name: '988 Suicide & Crisis Lifeline', phone: '988', text: 'Text 988', url: 'https://988lifeline.org', categories: ['self_harm'] },
+  {
+    name: 'National Domestic Violence Hotline',
+    phone: '1-800-799-7233',
+    text: 'Text START to 88788',
+    url: 'https://www.thehotline.org',
+    categories: ['domestic_violence', 'imminent_danger']
+  }
+];
+
+/**
+ * Persisted on ConversationContext.crisis so staff are only notified once per
+ * session and category.
+ */
+export interface CrisisRecord {
+  categories: CrisisCategory[];
+  firstDetectedAt: string;
+  lastDetectedAt: string;
+}
+
+export function detectCrisis(message: string): CrisisCategory[] {
+  return CRISIS_CATEGORIES.filter(category => CRISIS_PATTERNS[category].some(pattern => pattern.test(message)));
+}
+
+/**
+ * Organization resources for the categories and state come first, then the national
+ * defaults. Resources limited to certain states are skipped when the state is unknown.
+ */
+export function selectCrisisResources(
+  categories: readonly CrisisCategory[],
+  state: string | null,
+  organizationConfig?: Pick<OrganizationConfig, 'crisis'> | null
+): OrganizationCrisisResource[] {
+  const crisis = organizationConfig?.crisis;
+  const candidates = [
+    ...(crisis?.resources ?? []),
+    ...(crisis?.includeDefaultResources === false ? [] : DEFAULT_CRISIS_RESOURCES)
+  ];
+  const seen = new Set<string>();
+
+  return candidates.filter(resource => {
+    const matchesCategory = !resource.categories || resource.categories.some(category => categories.includes(category));
+    const matchesState = !resource.states || (state !== null && resource.states.includes(state));
+    const key = resource.name.trim().toLowerCase();
+    if (!matchesCategory || !matchesState || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function formatResource(resource: OrganizationCrisisResource): string {
+  const details = [
+    resource.phone ? `call ${resource.phone}` : null,
+    resource.text ?? null,
+    resource.url ?? null
+  ].filter(Boolean);
+  return `• **${resource.name}**: ${details.join(' · ')}`;
+}
+
+export function buildCrisisResponse(categories: readonly CrisisCategory[], resources: readonly OrganizationCrisisResource[]): string {
+  const lines: string[] = [];
+
+  if (categories.includes('imminent_danger')) {
+    lines.push('**If you are in immediate danger, please call 911 now.**');
+  }
+  if (categories.includes('self_harm')) {
+    lines.push("I'm really sorry you're going through this. You don't have to face it alone, and your safety matters more than any legal question right now.");
+  } else if (categories.includes('domestic_violence')) {
+    lines.push("I'm sorry you're dealing with this. What is happening is not your fault, and help is available.");
+  }
+
+  if (resources.length > 0) {
+    lines.push(`**Help is available right now:**\n${resources.map(formatResource).join('\n')}`);
+  }
+
+  lines.push(categories.includes('self_harm')
+    ? "I've let our team know so someone can reach out. Whenever you're ready, I'm still here to help with your legal question."
+    : "I've let our team know so someone can reach out. When you're safe and ready, I can also help with legal options such as a protective order.");
+
+  return lines.join('\n\n');
+}
+
+function resolveOnCallEmails(organizationConfig: OrganizationConfig | null | undefined): string[] {
+  const configured = organizationConfig?.crisis?.onCallEmails?.filter(email => email.trim().length > 0) ?? [];
+  if (configured.length > 0) {
+    return configured;
+  }
+  const ownerEmail = organizationConfig?.ownerEmail?.trim();
+  return ownerEmail ? [ownerEmail] : [];
+}
+
+/**
+ * Flags the session, records an audit event and notifies on-call staff. Each
+ * step is independent; failures are logged and never block the crisis reply.
+ */
+async function escalate(
+  env: Env,
+  context: ConversationContext,
+  organizationConfig: OrganizationConfig | null | undefined,
+  categories: CrisisCategory[],
+  state: string | null,
+  message: string
+): Promise<void> {
+  const reason = categories.join(',');
+  const steps: Array<[string, () => Promise<unknown>]> = [
+    ['flag session', () => SessionService.markUrgent(env, context.sessionId, context.organizationId, reason)],
+    ['audit', () => new ActivityService(env).createEvent({
+      type: 'session_event',
+      eventType: CRISIS_AUDIT_EVENT,
+      title: 'Crisis escalation',
+      description: `Detected: ${reason}`,
+      eventDate: new Date().toISOString(),
+      actorType: 'system',
+      metadata: { sessionId: context.sessionId, categories, state }
+    }, context.organizationId)],
+    ['notify on-call staff', () => new NotificationService(env).sendCrisisEscalationNotification({
+      type: 'crisis_escalation',
+      organizationConfig: null,
+      crisisInfo: {
+        categories,
+        sessionId: context.sessionId,
+        state,
+        excerpt: message.slice(0, MAX_EXCERPT_LENGTH),
+        recipients: resolveOnCallEmails(organizationConfig)
+      }
+    })]
+  ];
+
+  for (const [step, run] of steps) {
+    try {
+      await run();
+    } catch (error) {
+      Logger.warn('Crisis escalation step failed', {
+        step,
+        sessionId: context.sessionId,
+        organizationId: context.organizationId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * Crisis Escalation Middleware - runs before the content policy filter so people
+ * describing self-harm, imminent danger or domestic violence get safety resources
+ * instead of a refusal. Self-harm and imminent danger are answered every time they
+ * come up; domestic violence once per session, after which intake continues.
+ */
+export const crisisEscalationMiddleware: PipelineMiddleware = {
+  kind: 'standard',
+  name: 'crisisEscalationMiddleware',
+
+  execute: async (messages: AgentMessage[], context: ConversationContext, organizationConfig: OrganizationConfig, env: Env) => {
+    if (organizationConfig?.crisis?.enabled === false) {
+      return { context };
+    }
+
+    const latestMessage = messages.filter(message => message.role === 'user').at(-1);
+    if (!latestMessage?.content) {
+      return { context };
+    }
+
+    const categories = detectCrisis(latestMessage.content);
+    if (categories.length === 0) {
+      return { context };
+    }
+
+    const previous = context.crisis?.categories ?? [];
+    const newCategories = categories.filter(category => !previous.includes(category));
+    const mustRespond = categories.some(category => category !== 'domestic_violence') || newCategories.length > 0;
+    const now = new Date().toISOString();
+
+    const updatedContext: ConversationContext = {
+      ...context,
+      safetyFlags: [...new Set([...context.safetyFlags, ...categories.map(category => `crisis_${category}`)])],
+      crisis: {
+        categories: [...previous, ...newCategories],
+        firstDetectedAt: context.crisis?.firstDetectedAt ?? now,
+        lastDetectedAt: now
+      }
+    };
+
+    const state = resolveState([
+      context.contactInfo?.location,
+      context.jurisdiction,
+      organizationConfig?.jurisdiction?.primaryState
+    ]);
+
+    Logger.warn('Crisis detected in intake conversation', {
+      sessionId: context.sessionId,
+      organizationId: context.organizationId,
+      categories,
+      newCategories,
+      state
+    });
+
+    if (newCategories.length > 0) {
+      await escalate(env, updatedContext, organizationConfig, newCategories, state, latestMessage.content);
+    }
+
+    if (!mustRespond) {
+      return { context: updatedContext };
+    }
+
+    return {
+      context: updatedContext,
+      response: buildCrisisResponse(categories, selectCrisisResources(categories, state, organizationConfig)),
+      shouldStop: true
+    };
+  }
+};
@@ -4,6 +4,12 @@ import type { PipelineMiddleware } from './pipeline.js';
 import type { Env, AgentMessage } from '../types.js';
 import { analyzeFile, getAnalysisQuestion } from '../utils/fileAnalysisUtils.js';
 import { Logger } from '../utils/logger.js';
+import {
+  DOCUMENT_ANALYSIS_HEADERS,
+  quarantineAnalysis,
+  recordInjectionDetections,
+  type InjectionDetection
+} from '../utils/documentQuarantine.js';
 
 /**
  * Type adapter for file analysis - contains only the properties needed by analyzeFile
@@ -209,12 +215,25 @@ export const fileAnalysisMiddleware: PipelineMiddleware = {
           
           // Only add results with meaningful confidence (> 0)
           if (analysis && (analysis.confidence as number) > 0) {
+            // Document-derived text is untrusted; strip instruction-like content before it reaches the context
+            const { quarantine: extractionDetections = [], ...rawAnalysis } = analysis as Record<string, unknown> & {
+              quarantine?: InjectionDetection[];
+            };
+            const { analysis: quarantined, detections } = quarantineAnalysis(rawAnalysis as Omit<AnalysisResult, 'fileId' | 'fileName' | 'fileType' | 'analysisType'>);
+            await recordInjectionDetections(env, {
+              sessionId: context.sessionId,
+              organizationId: context.organizationId,
+              source: 'file_analysis',
+              fileName: attachment.name,
+              detections: [...extractionDetections, ...detections]
+            });
+
             analysisResults.push({
               fileId,
               fileName: attachment.name,
               fileType: attachment.type,
               analysisType,
-              ...analysis
+              ...quarantined
             });
 
             Logger.info('File analysis completed successfully', {
@@ -379,7 +398,7 @@ function determineAnalysisType(attachment: AttachmentData): string {
  * Generate response based on analysis results
  */
 function generateAnalysisResponse(analysisResults: AnalysisResult[]): string {
-  let response = "I've analyzed your uploaded document(s) and here's what I found:\n\n";
+  let response = `${DOCUMENT_ANALYSIS_HEADERS[1]} and here's what I found:\n\n`;
 
   for (const result of analysisResults) {
     response += `**${result.fileName}**\n`;
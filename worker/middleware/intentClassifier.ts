@@ -0,0 +1,258 @@
+import { z } from 'zod';
+import type { ConversationContext, UserIntent, UserIntentLabel } from './conversationContextManager.js';
+import type { SimpleMiddleware } from './pipeline.js';
+import { createContentHash } from '../utils/piiSanitizer.js';
+import { Logger } from '../utils/logger.js';
+import type { Env, AgentMessage } from '../types.js';
+
+export const DEFAULT_INTENT_MODEL = '@cf/meta/llama-3.2-3b-instruct';
+
+// Below this, middlewares treat the intent as unknown
+export const INTENT_CONFIDENCE_THRESHOLD = 0.6;
+
+// Explicit, immediate requests ("I need a lawyer now") score at least this
+export const DIRECT_REQUEST_CONFIDENCE = 0.9;
+
+const INTENT_CACHE_PREFIX = 'intent:';
+const INTENT_CACHE_TTL = 86400; // 1 day
+const MODEL_TIMEOUT_MS = 3000;
+const MAX_MESSAGE_CHARS = 1000;
+const MAX_PREVIOUS_REPLY_CHARS = 300;
+
+const INTENT_LABELS = ['intake', 'lawyer_contact', 'case_draft', 'general_info', 'unclear'] as const satisfies readonly UserIntentLabel[];
+
+const modelIntentSchema = z.object({
+  intent: z.enum(INTENT_LABELS),
+  confidence: z.coerce.number().min(0).max(1)
+});
+
+type Classification = Pick<UserIntent, 'label' | 'confidence' | 'source'>;
+
+const INTENT_SYSTEM_PROMPT = `You classify the latest message a user sent to a law firm's intake assistant.
+Reply with JSON only: {"intent": "<intent>", "confidence": <0-1>}
+Intents:
+- lawyer_contact: wants to skip the questions and reach a lawyer or the firm. Use confidence 0.9 or higher only when they ask for a lawyer right now.
+- case_draft: asks to build, organize or prepare a case summary, case draft or case file.
+- general_info: asks a general question about the law or the legal process.
+- intake: describes their own legal problem or asks for help with it.
+- unclear: none of the above.
+A request the user turns down ("I don't want a case draft") is not that intent.`;
+
+// A negation earlier in the same clause turns the request down
+const NEGATION_PATTERN = /\b(don'?t|do not|doesn'?t|does not|didn'?t|won'?t|not|never|no need|rather not|without)\b/i;
+
+const DIRECT_LAWYER_PATTERNS: readonly RegExp[] = [
+  /\bneed\s+(a|an)\s+(lawyer|attorney)\b/i,
+  /\b(lawyer|attorney)\s+(now|asap|immediately|right away)\b/i,
+  /\b(urgent|immediate)\s+(lawyer|attorney)\b/i
+];
+
+const LAWYER_PATTERNS: readonly RegExp[] = [
+  /\bskip\s+(the\s+)?(intake|questions)\b/i,
+  /\b(want|find|get|hire)\s+(me\s+)?(a|an)\s+(lawyer|attorney)\b/i,
+  /\b(go|talk|speak|connect|chat)\s+(directly\s+)?(to|with)\s+(a|an|your|the)\s+(lawyer|attorney)\b/i,
+  /\b(contact|reach|connect with|speak to|talk to)\s+(your|the)\s+(organization|firm|office)\b/i
+];
+
+const CASE_DRAFT_PATTERNS: readonly RegExp[] = [
+  /\b(build(ing)?|creat(e|ing)|mak(e|ing)|draft(ing)?|prepar(e|ing)|start|put together)\b.{0,30}\bcase\s+(draft|summary|file)\b/i,
+  /\b(organi[sz](e|ing)|structur(e|ing)|prepar(e|ing))\s+((my|the)\s+)?case\b/i,
+  /\bcase\s+(preparation|organi[sz]ation|building)\b/i
+];
+
+const GENERAL_INFO_PATTERNS: readonly RegExp[] = [
+  /\b(what is|what are|what happens|how does|how do|explain|tell me about|information about)\b/i
+];
+
+const INTAKE_PATTERNS: readonly RegExp[] = [
+  /\b(help with|need help|problem with|issue with|situation with)\b/i,
+  /\blegal\s+(help|advice|guidance|consultation|problem|issue|situation|matter|question)\b/i
+];
+
+/**
+ * True when a pattern matches a clause of the message without a negation in
+ * front of it, so "I don't want to build a case draft" is not a request.
+ */
+function matchesAffirmative(message: string, patterns: readonly RegExp[]): boolean {
+  const clauses = message.split(/[.!?;\n]+|,\s*|\s+but\s+/i);
+  return clauses.some(clause => patterns.some(pattern => {
+    const match = pattern.exec(clause);
+    return match !== null && !NEGATION_PATTERN.test(clause.slice(0, match.index));
+  }));
+}
+
+/**
+ * Deterministic classification of the latest user message, used when the model
+ * is unavailable or returns something unusable.
+ */
+export function classifyIntentByKeywords(
+  message: string,
+  context: Pick<ConversationContext, 'establishedMatters'>
+): Classification {
+  if (matchesAffirmative(message, DIRECT_LAWYER_PATTERNS)) {
+    return { label: 'lawyer_contact', confidence: 0.95, source: 'keywords' };
+  }
+  if (matchesAffirmative(message, LAWYER_PATTERNS)) {
+    return { label: 'lawyer_contact', confidence: 0.8, source: 'keywords' };
+  }
+  if (matchesAffirmative(message, CASE_DRAFT_PATTERNS)) {
+    return { label: 'case_draft', confidence: 0.85, source: 'keywords' };
+  }
+  if (matchesAffirmative(message, GENERAL_INFO_PATTERNS)) {
+    return { label: 'general_info', confidence: 0.65, source: 'keywords' };
+  }
+  if (matchesAffirmative(message, INTAKE_PATTERNS)) {
+    return { label: 'intake', confidence: 0.7, source: 'keywords' };
+  }
+  if (context.establishedMatters.length > 0) {
+    return { label: 'intake', confidence: 0.6, source: 'keywords' };
+  }
+  return { label: 'unclear', confidence: 0.5, source: 'keywords' };
+}
+
+/**
+ * Pulls the JSON object out of a Workers AI text-generation result.
+ */
+export function parseModelIntent(result: unknown): Classification | null {
+  const text = typeof result === 'string'
+    ? result
+    : (result as { response?: unknown } | null)?.response;
+
+  let candidate: unknown = text;
+  if (typeof text === 'string') {
+    const json = text.match(/\{[\s\S]*\}/);
+    if (!json) {
+      return null;
+    }
+    try {
+      candidate = JSON.parse(json[0]);
+    } catch {
+      return null;
+    }
+  }
+
+  const parsed = modelIntentSchema.safeParse(candidate);
+  return parsed.success
+    ? { label: parsed.data.intent, confidence: parsed.data.confidence, source: 'model' }
+    : null;
+}
+
+function isUserMessage(message: AgentMessage): boolean {
+  return message.role === 'user' || message.isUser === true;
+}
+
+async function classifyWithModel(
+  env: Env,
+  model: string,
+  latestMessage: string,
+  previousReply: string | undefined,
+  context: ConversationContext
+): Promise<Classification | null> {
+  const prompt = [
+    previousReply ? `Assistant's previous reply: ${previousReply.slice(0, MAX_PREVIOUS_REPLY_CHARS)}` : '',
+    context.establishedMatters.length > 0 ? `Legal matters discussed so far: ${context.establishedMatters.join(', ')}` : '',
+    `Latest user message: ${latestMessage.slice(0, MAX_MESSAGE_CHARS)}`
+  ].filter(Boolean).join('\n');
+
+  const cacheKey = `${INTENT_CACHE_PREFIX}${await createContentHash(`${model}\n${prompt}`)}`;
+  try {
+    const cached = await env.CHAT_SESSIONS.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached) as Classification;
+    }
+  } catch (error) {
+    Logger.warn('Failed to read cached intent', { error: error instanceof Error ? error.message : String(error) });
+  }
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error('Intent classification timed out')), MODEL_TIMEOUT_MS);
+  });
+
+  let result: unknown;
+  try {
+    result = await Promise.race([
+      (env.AI as { run: (model: string, params: Record<string, unknown>) => Promise<unknown> }).run(model, {
+        messages: [
+          { role: 'system', content: INTENT_SYSTEM_PROMPT },
+          { role: 'user', content: prompt }
+        ],
+        max_tokens: 40,
+        temperature: 0
+      }),
+      timeout
+    ]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  const classification = parseModelIntent(result);
+  if (!classification) {
+    return null;
+  }
+
+  try {
+    await env.CHAT_SESSIONS.put(cacheKey, JSON.stringify(classification), { expirationTtl: INTENT_CACHE_TTL });
+  } catch (error) {
+    Logger.warn('Failed to cache intent', { error: error instanceof Error ? error.message : String(error) });
+  }
+  return classification;
+}
+
+/**
+ * True when the turn's intent is `label` and confident enough to act on.
+ */
+export function hasIntent(context: { userIntent?: UserIntent }, label: UserIntentLabel): boolean {
+  return context.userIntent?.label === label && context.userIntent.confidence >= INTENT_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Intent Classifier - labels the latest user message once per turn so the
+ * skip-to-lawyer, case draft and scope middlewares read one shared intent.
+ * Asks a small model first (results cached in KV by message); falls back to
+ * keyword rules when the model is disabled, unavailable or unparseable.
+ */
+export const intentClassifierMiddleware: SimpleMiddleware = {
+  kind: 'simple',
+  name: 'intentClassifierMiddleware',
+
+  execute: async (messages: AgentMessage[], context: ConversationContext, env: Env) => {
+    const userMessages = messages.filter(isUserMessage);
+    const latest = userMessages[userMessages.length - 1];
+    if (!latest || typeof latest.content !== 'string' || !latest.content.trim()) {
+      return { context };
+    }
+
+    // Already classified this turn, e.g. a retried request
+    if (context.userIntent?.messageCount === messages.length && context.userIntent.source !== 'default') {
+      return { context };
+    }
+
+    const latestIndex = messages.lastIndexOf(latest);
+    const previousReply = messages.slice(0, latestIndex).reverse().find(message => !isUserMessage(message))?.content;
+    const model = env.INTENT_CLASSIFIER_MODEL || DEFAULT_INTENT_MODEL;
+
+    let classification: Classification | null = null;
+    if (model !== 'keywords' && env.AI) {
+      try {
+        classification = await classifyWithModel(env, model, latest.content, previousReply, context);
+      } catch (error) {
+        Logger.warn('Intent classification model failed, using keyword fallback', {
+          sessionId: context.sessionId,
+          model,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    classification ??= classifyIntentByKeywords(latest.content, context);
+
+    return {
+      context: {
+        ...context,
+        userIntent: { ...classification, messageCount: messages.length },
+        lastUpdated: Date.now()
+      }
+    };
+  }
+};
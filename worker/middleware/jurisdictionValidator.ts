@@ -3,9 +3,13 @@ import type { OrganizationConfig } from '../services/OrganizationService.js';
 import type { PipelineMiddleware } from './pipeline.js';
 import type { Env, AgentMessage } from '../types.js';
 import { JurisdictionValidator as JurisdictionValidatorUtil, type JurisdictionConfig } from '../schemas/jurisdictionConfig.js';
+import { formatResolvedLocation, mergeLocations, resolveLocationFromText, type ResolvedLocation } from '../utils/usGeography.js';
+import { Logger } from '../utils/logger.js';
 
 /**
  * Jurisdiction Validator - handles geographic scope validation
+ * Locations the user mentions are normalized to county and state, so county and
+ * city jurisdictions can be enforced.
  * This provides warnings for out-of-jurisdiction users but doesn't block them
  */
 export const jurisdictionValidator: PipelineMiddleware = {
@@ -27,64 +31,77 @@ export const jurisdictionValidator: PipelineMiddleware = {
       return { context }; // Bypass if config is invalid
     }
 
-    // Get the latest message content
-    const latestMessage = messages[messages.length - 1];
-    const message = latestMessage?.content || '';
-    
-    // Check if user is in supported jurisdiction
-    const userLocation = context.jurisdiction || extractLocationFromMessage(message);
-    
-    if (userLocation) {
-      const isSupported = JurisdictionValidatorUtil.isLocationSupported(userLocation, jurisdiction);
-      
-      if (!isSupported) {
-        // User is outside jurisdiction - provide warning but don't block
-        const warning = JurisdictionValidatorUtil.getJurisdictionWarning(
-          userLocation, 
-          jurisdiction, 
-          'our legal organization'
-        );
-        
-        // Update context with jurisdiction warning
-        const updatedContext = {
-          ...context,
-          jurisdiction: userLocation,
-          safetyFlags: [...(context.safetyFlags || []), 'out_of_jurisdiction']
-        };
+    // Normalize every location the user has given, oldest first, so the latest one wins
+    const userLocation = [
+      resolveLocationFromText(context.jurisdiction),
+      resolveLocationFromText(context.contactInfo?.location),
+      ...messages
+        .filter(message => message.role === 'user')
+        .map(message => resolveLocationFromText(message.content))
+    ].reduce<ResolvedLocation | null>(mergeLocations, context.location ?? null);
+
+    const userStatus = userLocation
+      ? JurisdictionValidatorUtil.checkResolvedLocation(userLocation, jurisdiction)
+      : null;
+    // Clear flags a more precise location has since resolved
+    const safetyFlags = (context.safetyFlags || []).filter(flag =>
+      flag !== 'location_required' && !(userStatus === true && flag === 'out_of_jurisdiction'));
+    const updatedContext: ConversationContext = {
+      ...context,
+      location: userLocation ?? undefined,
+      safetyFlags
+    };
+
+    if (userStatus === false && userLocation) {
+      // User is outside jurisdiction - provide warning but don't block
+      return outOfJurisdiction(updatedContext, userLocation, jurisdiction);
+    }
 
-        // Return warning response but continue pipeline
-        return {
-          context: updatedContext,
-          response: warning
-        };
+    // The request's IP location (context.requestLocation) is never enough to turn a user
+    // away: VPNs, mobile carriers and travel all misplace people
+    if (userStatus === null) {
+      if (userLocation && !userLocation.county && (userLocation.zip || userLocation.city)) {
+        // ZIPs and cities missing from the offline dataset (territories, new ZIPs) fail open
+        Logger.info('Location not covered by the offline geography dataset', {
+          sessionId: context.sessionId,
+          state: userLocation.state,
+          city: userLocation.city,
+          zipPrefix: userLocation.zip?.slice(0, 3)
+        });
+      }
+
+      if (jurisdiction.requireLocation) {
+        // Location required but not precise enough - flag it but don't stop the pipeline;
+        // the skipToLawyerMiddleware can still show contact forms
+        updatedContext.safetyFlags = [...safetyFlags, 'location_required'];
       }
-    } else if (jurisdiction.requireLocation) {
-      // Location required but not provided - add warning to context but don't stop pipeline
-      const updatedContext = {
-        ...context,
-        safetyFlags: [...(context.safetyFlags || []), 'location_required']
-      };
-      
-      // Don't stop the pipeline - let other middleware handle the request
-      // The skipToLawyerMiddleware can still show contact forms
-      return { context: updatedContext };
     }
 
     // No jurisdiction issues - continue pipeline
-    return { context };
+    return { context: updatedContext };
   }
 };
 
 /**
- * Extract location from message content
+ * Flag the context and warn the user once their location falls outside the service area
  */
-function extractLocationFromMessage(message: string): string | null {
-  // Simple state extraction
-  const stateMatch = message.match(/\b(Alabama|Alaska|Arizona|Arkansas|California|Colorado|Connecticut|Delaware|Florida|Georgia|Hawaii|Idaho|Illinois|Indiana|Iowa|Kansas|Kentucky|Louisiana|Maine|Maryland|Massachusetts|Michigan|Minnesota|Mississippi|Missouri|Montana|Nebraska|Nevada|New Hampshire|New Jersey|New Mexico|New York|North Carolina|North Dakota|Ohio|Oklahoma|Oregon|Pennsylvania|Rhode Island|South Carolina|South Dakota|Tennessee|Texas|Utah|Vermont|Virginia|Washington|West Virginia|Wisconsin|Wyoming)\b/i);
-  
-  if (stateMatch) {
-    return stateMatch[1];
-  }
+function outOfJurisdiction(context: ConversationContext, location: ResolvedLocation, jurisdiction: JurisdictionConfig) {
+  const userLocation = formatResolvedLocation(location);
+  const warning = JurisdictionValidatorUtil.getJurisdictionWarning(
+    userLocation,
+    jurisdiction,
+    'our legal organization'
+  );
 
-  return null;
+  return {
+    context: {
+      ...context,
+      jurisdiction: userLocation,
+      safetyFlags: context.safetyFlags.includes('out_of_jurisdiction')
+        ? context.safetyFlags
+        : [...context.safetyFlags, 'out_of_jurisdiction']
+    },
+    // Return warning response
+    response: warning
+  };
 }
@@ -1,6 +1,7 @@
 import type { ConversationContext } from './conversationContextManager.js';
 import type { OrganizationConfig } from '../services/OrganizationService.js';
 import type { Env, AgentMessage } from '../types.js';
+import { Logger } from '../utils/logger.js';
 
 export interface StandardMiddleware {
   kind: 'standard';
@@ -46,10 +47,51 @@ export function isSimpleMiddleware(middleware: AnyMiddleware): middleware is Sim
 // Legacy type alias for backward compatibility
 export type PipelineMiddleware = StandardMiddleware;
 
+export type MiddlewareOutcome = 'continued' | 'responded' | 'stopped' | 'error';
+
+/**
+ * What one middleware did during a run. `changedFields` lists the top-level
+ * ConversationContext fields whose value differs after the middleware ran.
+ */
+export interface MiddlewareTrace {
+  name: string;
+  durationMs: number;
+  outcome: MiddlewareOutcome;
+  changedFields: string[];
+  error?: string;
+}
+
+export interface PipelineTrace {
+  startedAt: string;
+  durationMs: number;
+  steps: MiddlewareTrace[];
+  respondedBy: string | null;  // the middleware whose canned response was sent, null when the AI answered
+}
+
 export interface PipelineResult {
   context: ConversationContext;
   response: string;
   middlewareUsed: string[];
+  trace: PipelineTrace;
+}
+
+// Bookkeeping fields every update touches; they say nothing about what a middleware decided
+const UNTRACED_CONTEXT_FIELDS = new Set(['lastUpdated']);
+
+// Serialized per field so middlewares that mutate the context in place still show up in the diff
+function snapshotContext(context: ConversationContext): Map<string, string> {
+  const snapshot = new Map<string, string>();
+  for (const [field, value] of Object.entries(context)) {
+    if (!UNTRACED_CONTEXT_FIELDS.has(field) && value !== undefined) {
+      snapshot.set(field, JSON.stringify(value) ?? '');
+    }
+  }
+  return snapshot;
+}
+
+export function diffContextFields(before: Map<string, string>, after: Map<string, string>): string[] {
+  const fields = new Set([...before.keys(), ...after.keys()]);
+  return [...fields].filter(field => before.get(field) !== after.get(field)).sort();
 }
 
 /**
@@ -66,9 +108,16 @@ export async function runPipeline(
 ): Promise<PipelineResult> {
   let updatedContext = context;
   let finalResponse = "";
+  let respondedBy: string | null = null;
   const middlewareUsed: string[] = [];
+  const steps: MiddlewareTrace[] = [];
+  const startedAt = new Date();
+  const pipelineStart = Date.now();
 
   for (const middleware of middlewares) {
+    const before = snapshotContext(updatedContext);
+    const stepStart = Date.now();
+
     try {
       let result;
       
@@ -85,10 +134,19 @@ export async function runPipeline(
       // Update context from this middleware
       updatedContext = result.context;
       middlewareUsed.push(middleware.name);
+
+      const outcome: MiddlewareOutcome = result.response ? 'responded' : result.shouldStop ? 'stopped' : 'continued';
+      steps.push({
+        name: middleware.name,
+        durationMs: Date.now() - stepStart,
+        outcome,
+        changedFields: diffContextFields(before, snapshotContext(updatedContext))
+      });
       
       // If middleware provides a response, use it and stop pipeline
       if (result.response) {
         finalResponse = result.response;
+        respondedBy = middleware.name;
         break;
       }
       
@@ -98,7 +156,19 @@ export async function runPipeline(
       }
       
     } catch (error) {
-      console.error(`Pipeline middleware ${middleware.name} failed:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      Logger.error(`Pipeline middleware ${middleware.name} failed`, {
+        sessionId: updatedContext.sessionId,
+        organizationId: updatedContext.organizationId,
+        error: message
+      });
+      steps.push({
+        name: middleware.name,
+        durationMs: Date.now() - stepStart,
+        outcome: 'error',
+        changedFields: diffContextFields(before, snapshotContext(updatedContext)),
+        error: message
+      });
       // Continue to next middleware on error
       continue;
     }
@@ -112,7 +182,13 @@ export async function runPipeline(
   return {
     context: updatedContext,
     response: finalResponse,
-    middlewareUsed
+    middlewareUsed,
+    trace: {
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - pipelineStart,
+      steps,
+      respondedBy
+    }
   };
 }
 
@@ -135,7 +211,7 @@ export function createLoggingMiddleware(): StandardMiddleware {
         latestMessage: safeMessage,
         context: {
           establishedMatters: context.establishedMatters || [],
-          userIntent: context.userIntent || 'unclear',
+          userIntent: context.userIntent?.label || 'unclear',
           sessionId: context.sessionId || 'unknown'
         },
         organizationConfig: {
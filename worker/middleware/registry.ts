@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import type { OrganizationConfig } from '../services/OrganizationService.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Middlewares an organization can place in its intake pipeline, in default run
+ * order. Implementations are bound to these names in the agent route.
+ */
+export const DEFAULT_PIPELINE = [
+  'crisisEscalationMiddleware',
+  'intentClassifierMiddleware',
+  'contentPolicyFilter',
+  'skipToLawyerMiddleware',
+  'businessScopeValidator',
+  'fileAnalysisMiddleware',
+  'jurisdictionValidator',
+  'caseDraftMiddleware',
+  'documentChecklistMiddleware',
+  'pdfGenerationMiddleware'
+] as const;
+
+export type PipelineMiddlewareName = typeof DEFAULT_PIPELINE[number];
+
+export const skipToLawyerOptionsSchema = z.object({
+  // When false, skip requests on the public assistant show the contact form instead of searching for lawyers
+  lawyerSearch: z.boolean().default(true)
+}).strict();
+
+// Middlewares without an entry take no options
+const MIDDLEWARE_OPTION_SCHEMAS = {
+  skipToLawyerMiddleware: skipToLawyerOptionsSchema
+} satisfies Partial<Record<PipelineMiddlewareName, z.ZodType>>;
+
+type ConfigurableMiddlewareName = keyof typeof MIDDLEWARE_OPTION_SCHEMAS;
+
+export type MiddlewareOptions<N extends ConfigurableMiddlewareName> = z.output<typeof MIDDLEWARE_OPTION_SCHEMAS[N]>;
+
+/**
+ * Middlewares that run even when an organization's pipeline leaves them out,
+ * in this order ahead of the rest. Crisis escalation has its own
+ * `crisis.enabled` switch and always runs first; the intent classifier follows
+ * because later middlewares read the intent it writes.
+ */
+export const REQUIRED_MIDDLEWARES: readonly PipelineMiddlewareName[] = ['crisisEscalationMiddleware', 'intentClassifierMiddleware'];
+
+export interface ResolvedPipelineStep {
+  name: PipelineMiddlewareName;
+  options: Record<string, unknown>;
+}
+
+export function isPipelineMiddlewareName(name: string): name is PipelineMiddlewareName {
+  return (DEFAULT_PIPELINE as readonly string[]).includes(name);
+}
+
+export function getMiddlewareOptionsSchema(name: PipelineMiddlewareName): z.ZodType | undefined {
+  return (MIDDLEWARE_OPTION_SCHEMAS as Partial<Record<PipelineMiddlewareName, z.ZodType>>)[name];
+}
+
+function parseOptions(name: PipelineMiddlewareName, options: unknown): Record<string, unknown> {
+  const schema = getMiddlewareOptionsSchema(name);
+  if (!schema) {
+    return {};
+  }
+
+  const parsed = schema.safeParse(options ?? {});
+  if (parsed.success) {
+    return parsed.data as Record<string, unknown>;
+  }
+
+  // Stored config predates the current schema; fall back to the defaults
+  Logger.warn('Ignoring invalid pipeline middleware options', { middleware: name, error: parsed.error.message });
+  return schema.parse({}) as Record<string, unknown>;
+}
+
+/**
+ * The middlewares an organization runs, in order, with their parsed options.
+ * Organizations without a `pipeline` get the default; unknown names left over
+ * from older configs are skipped, and required middlewares are put back first.
+ */
+export function resolvePipelineSteps(config: Pick<OrganizationConfig, 'pipeline'> | null | undefined): ResolvedPipelineStep[] {
+  if (!config?.pipeline) {
+    return DEFAULT_PIPELINE.map(name => ({ name, options: parseOptions(name, undefined) }));
+  }
+
+  const steps: ResolvedPipelineStep[] = [];
+  for (const step of config.pipeline) {
+    if (!isPipelineMiddlewareName(step.name)) {
+      Logger.warn('Skipping unknown pipeline middleware', { middleware: step.name });
+      continue;
+    }
+    const isRequired = REQUIRED_MIDDLEWARES.includes(step.name);
+    if ((step.enabled === false && !isRequired) || steps.some(existing => existing.name === step.name)) {
+      continue;
+    }
+    steps.push({ name: step.name, options: parseOptions(step.name, step.options) });
+  }
+
+  const required = REQUIRED_MIDDLEWARES.map(name => steps.find(step => step.name === name) ?? { name, options: parseOptions(name, undefined) });
+  return [...required, ...steps.filter(step => !REQUIRED_MIDDLEWARES.includes(step.name))];
+}
+
+/**
+ * Options for one middleware from the organization's pipeline, with defaults
+ * applied when the middleware is not configured.
+ */
+export function getMiddlewareOptions<N extends ConfigurableMiddlewareName>(
+  config: Pick<OrganizationConfig, 'pipeline'> | null | undefined,
+  name: N
+): MiddlewareOptions<N> {
+  const step = config?.pipeline?.find(entry => entry.name === name);
+  return parseOptions(name, step?.options) as MiddlewareOptions<N>;
+}
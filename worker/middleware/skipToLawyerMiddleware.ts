@@ -6,6 +6,8 @@ import { OrganizationService } from '../services/OrganizationService.js';
 import type { LawyerSearchResponse } from '../schemas/lawyer';
 import { QuotaExceededError, LawyerSearchError, LawyerSearchTimeoutError } from '../utils/lawyerSearchErrors.js';
 import { Logger } from '../utils/logger.js';
+import { getMiddlewareOptions } from './registry.js';
+import { DIRECT_REQUEST_CONFIDENCE, hasIntent } from './intentClassifier.js';
 import type { Env, AgentMessage } from '../types.js';
 
 // Matter information extracted from user message
@@ -32,13 +34,13 @@ interface MiddlewareResponse {
 /**
  * Skip to Lawyer Middleware - handles requests to skip intake and go directly to lawyers
  * Routes to contact form (organization mode) or lawyer search (public mode)
- * Now conversation-aware: only triggers on explicit skip requests, not casual mentions
+ * Reads the classified user intent, so casual mentions of lawyers do not trigger it
  */
 export const skipToLawyerMiddleware: PipelineMiddleware = {
   kind: 'standard',
   name: 'skipToLawyerMiddleware',
   
-  execute: async (messages: AgentMessage[], context: ConversationContext, _organizationConfig: OrganizationConfig, env: Env) => {
+  execute: async (messages: AgentMessage[], context: ConversationContext, organizationConfig: OrganizationConfig, env: Env) => {
     // Guard against empty messages array
     if (!messages || messages.length === 0) {
       return { context };
@@ -53,59 +55,19 @@ export const skipToLawyerMiddleware: PipelineMiddleware = {
       return { context };
     }
     
-    // Check if user wants to skip intake and go directly to a lawyer
-    // Only trigger on explicit requests, not casual mentions in conversation
-    const skipKeywords = [
-      'skip the intake',
-      'skip intake',
-      'go directly to a lawyer',
-      'find a lawyer',
-      'need a lawyer',
-      'want a lawyer',
-      'connect with a lawyer',
-      'speak to a lawyer',
-      'talk to a lawyer',
-      'get a lawyer',
-      'hire a lawyer',
-      'lawyer now',
-      'urgent lawyer',
-      'immediate lawyer',
-      'contact your organization',
-      'want to contact your organization',
-      'contact the organization',
-      'want to contact the organization',
-      'connect with your organization',
-      'speak to your organization',
-      'talk to your organization'
-    ];
-
-    // Only check the latest message for skip requests to avoid false positives
-    // from earlier conversation context
-    const latestMessageText = latestMessage.content.toLowerCase();
-    const isSkipRequest = skipKeywords.some(keyword => 
-      latestMessageText.includes(keyword.toLowerCase())
-    );
-
-    const forceSkipKeywords = [
-      'need a lawyer',
-      'need a lawyer asap',
-      'lawyer asap',
-      'lawyer now',
-      'urgent lawyer',
-      'immediate lawyer',
-      'need an attorney',
-      'need an attorney asap',
-      'attorney asap',
-      'attorney now'
-    ];
-    const isUrgentDirectRequest = forceSkipKeywords.some(keyword => latestMessageText.includes(keyword));
+    // The turn's intent comes from intentClassifierMiddleware; only explicit
+    // requests to reach a lawyer are classified as lawyer_contact
+    if (!hasIntent(context, 'lawyer_contact')) {
+      return { context };
+    }
+    const isDirectRequest = context.userIntent.confidence >= DIRECT_REQUEST_CONFIDENCE;
 
     // Additional context check: if we're in the middle of a conversation about a legal issue,
     // be more conservative about triggering skip
     const hasEstablishedLegalContext = context.establishedMatters.length > 0 || 
                                      context.conversationPhase !== 'initial';
     
-    const shouldTriggerSkipFlow = isSkipRequest && (!hasEstablishedLegalContext || messages.length <= 3 || isUrgentDirectRequest);
+    const shouldTriggerSkipFlow = !hasEstablishedLegalContext || messages.length <= 3 || isDirectRequest;
 
     if (!shouldTriggerSkipFlow) {
       return { context };
@@ -124,11 +86,11 @@ export const skipToLawyerMiddleware: PipelineMiddleware = {
     // Extract matter type and urgency from conversation context
     const matterInfo = extractMatterInfo(conversationText);
 
-    if (isPublicMode) {
+    if (isPublicMode && getMiddlewareOptions(organizationConfig, 'skipToLawyerMiddleware').lawyerSearch) {
       // Public mode: Trigger lawyer search
       return await handlePublicMode(matterInfo, context, env);
     } else {
-      // Organization mode: Show contact form
+      // Organization mode, or lawyer search turned off: Show contact form
       return handleOrganizationMode(matterInfo, context);
     }
   }
@@ -343,7 +305,7 @@ function handleOrganizationMode(matterInfo: MatterInfo, context: ConversationCon
   // Instead of returning a text response, set a flag in context to trigger contact form
   const updatedContext = {
     ...context,
-    userIntent: 'lawyer_contact' as const,
+    userIntent: { ...context.userIntent, label: 'lawyer_contact' as const },
     conversationPhase: 'contact_collection' as const,
     // Store the matter info for the AI agent to use
     establishedMatters: [matterInfo.matterType],
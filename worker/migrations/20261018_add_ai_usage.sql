@@ -0,0 +1,29 @@
+-- Per-organization AI usage metering for tier quotas
+-- Migration: Add ai_usage_events and organization_usage_daily tables
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS ai_usage_events (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  session_id TEXT,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_org_created ON ai_usage_events(organization_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_session_created ON ai_usage_events(session_id, created_at);
+
+CREATE TABLE IF NOT EXISTS organization_usage_daily (
+  organization_id TEXT NOT NULL,
+  usage_date TEXT NOT NULL,
+  conversations INTEGER NOT NULL DEFAULT 0,
+  turns INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_latency_ms INTEGER NOT NULL DEFAULT 0,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (organization_id, usage_date)
+);
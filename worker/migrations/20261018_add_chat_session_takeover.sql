@@ -0,0 +1,8 @@
+-- Track staff takeovers of live chat sessions
+-- Migration: Add takeover_user_id, takeover_user_name and takeover_started_at to chat_sessions
+-- Date: 2026-10-18
+
+-- While takeover_user_id is set the AI agent is paused and the staff member replies
+ALTER TABLE chat_sessions ADD COLUMN takeover_user_id TEXT;
+ALTER TABLE chat_sessions ADD COLUMN takeover_user_name TEXT;
+ALTER TABLE chat_sessions ADD COLUMN takeover_started_at DATETIME;
@@ -0,0 +1,9 @@
+-- Flag chat sessions that need urgent staff attention
+-- Migration: Add urgent_at and urgent_reason to chat_sessions
+-- Date: 2026-10-18
+
+-- Set by the crisis escalation path (self-harm, imminent danger, domestic violence)
+ALTER TABLE chat_sessions ADD COLUMN urgent_at DATETIME;
+ALTER TABLE chat_sessions ADD COLUMN urgent_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_urgent ON chat_sessions(organization_id, urgent_at);
@@ -0,0 +1,22 @@
+-- Add prompt/model A/B experiments for the intake agent
+-- Migration: Create intake_experiments and record the assigned arm on chat_sessions
+-- Date: 2026-10-18
+
+-- Arms are a JSON array of { key, weight, promptTemplateVersion?, provider?, model? }
+CREATE TABLE IF NOT EXISTS intake_experiments (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running', -- 'running', 'stopped'
+  arms JSON NOT NULL,
+  created_by TEXT,
+  started_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  stopped_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_intake_experiments_org_status ON intake_experiments(organization_id, status);
+
+ALTER TABLE chat_sessions ADD COLUMN experiment_id TEXT;
+ALTER TABLE chat_sessions ADD COLUMN experiment_arm TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_experiment ON chat_sessions(experiment_id, experiment_arm);
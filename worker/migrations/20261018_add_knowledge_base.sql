@@ -0,0 +1,33 @@
+-- Organization knowledge base for retrieval-grounded answers
+-- Migration: Add knowledge_documents and knowledge_chunks tables
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS knowledge_documents (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  source_type TEXT NOT NULL DEFAULT 'faq',
+  file_id TEXT,
+  content TEXT NOT NULL,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  created_by TEXT,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Embeddings are stored as JSON arrays; retrieval scores them in the worker
+CREATE TABLE IF NOT EXISTS knowledge_chunks (
+  id TEXT PRIMARY KEY,
+  document_id TEXT NOT NULL,
+  organization_id TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding JSON NOT NULL,
+  embedding_model TEXT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (document_id) REFERENCES knowledge_documents(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_org ON knowledge_documents(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_org_model ON knowledge_chunks(organization_id, embedding_model);
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_document ON knowledge_chunks(document_id);
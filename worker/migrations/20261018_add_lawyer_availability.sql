@@ -0,0 +1,19 @@
+-- Lawyer availability for consultation scheduling
+-- Migration: Add lawyer_availability table
+-- Date: 2026-10-18
+
+-- One row per lawyer; booked consultations are matter_events of type 'meeting'
+CREATE TABLE IF NOT EXISTS lawyer_availability (
+  lawyer_id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'America/New_York',
+  working_hours JSON NOT NULL,
+  blackout_dates JSON,
+  slot_minutes INTEGER NOT NULL DEFAULT 30,
+  min_notice_hours INTEGER NOT NULL DEFAULT 24,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_lawyer_availability_org ON lawyer_availability(organization_id);
+CREATE INDEX IF NOT EXISTS idx_matter_events_meetings ON matter_events(created_by_lawyer_id, event_type, event_date);
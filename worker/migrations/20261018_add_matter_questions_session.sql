@@ -0,0 +1,11 @@
+-- Track service questionnaire answers per intake session
+-- Migration: Add session_id, service and question_id to matter_questions
+-- Date: 2026-10-18
+
+ALTER TABLE matter_questions ADD COLUMN session_id TEXT;
+ALTER TABLE matter_questions ADD COLUMN service TEXT;
+ALTER TABLE matter_questions ADD COLUMN question_id TEXT;
+
+-- One answer per questionnaire question per session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_matter_questions_session_question ON matter_questions(session_id, question_id);
+CREATE INDEX IF NOT EXISTS idx_matter_questions_matter ON matter_questions(matter_id);
@@ -0,0 +1,18 @@
+-- Add versioned per-organization system prompt templates
+-- Migration: Create organization_prompt_templates
+-- Date: 2026-10-18
+
+-- Each save appends a version; the latest version is the active template
+CREATE TABLE IF NOT EXISTS organization_prompt_templates (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  content JSON NOT NULL,
+  note TEXT,
+  rolled_back_from INTEGER,
+  created_by TEXT,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(organization_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_org_prompt_templates_org_version ON organization_prompt_templates(organization_id, version DESC);
@@ -0,0 +1,17 @@
+-- Per-message traces of the intake middleware pipeline
+-- Migration: Add pipeline_traces table
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS pipeline_traces (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT,
+  session_id TEXT NOT NULL,
+  message_id TEXT,
+  responded_by TEXT,
+  duration_ms INTEGER NOT NULL,
+  steps JSON NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_traces_session ON pipeline_traces(session_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pipeline_traces_message ON pipeline_traces(message_id);
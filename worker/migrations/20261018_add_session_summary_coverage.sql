@@ -0,0 +1,6 @@
+-- Track how much of the conversation each session summary covers
+-- Migration: Add message_count to session_summaries for rolling summarization
+-- Date: 2026-10-18
+
+-- Number of leading conversation messages folded into the summary
+ALTER TABLE session_summaries ADD COLUMN message_count INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,21 @@
+-- Persistent audit log of agent tool invocations
+-- Migration: Add tool_call_audit table
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS tool_call_audit (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT,
+  session_id TEXT,
+  correlation_id TEXT,
+  tool_name TEXT NOT NULL,
+  arguments JSON,
+  outcome TEXT NOT NULL,
+  error_message TEXT,
+  latency_ms INTEGER,
+  model TEXT,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_tool_call_audit_org_created ON tool_call_audit(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tool_call_audit_session ON tool_call_audit(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tool_call_audit_tool_created ON tool_call_audit(tool_name, created_at DESC);
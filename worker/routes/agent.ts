@@ -1,9 +1,11 @@
 import type { Env } from '../types.js';
 import { parseJsonBody } from '../utils.js';
 import { HttpErrors } from '../errorHandler.js';
-import { runPipeline } from '../middleware/pipeline.js';
+import { runPipeline, type AnyMiddleware } from '../middleware/pipeline.js';
 import { ConversationContextManager } from '../middleware/conversationContextManager.js';
 import { contentPolicyFilter } from '../middleware/contentPolicyFilter.js';
+import { crisisEscalationMiddleware } from '../middleware/crisisEscalationMiddleware.js';
+import { intentClassifierMiddleware } from '../middleware/intentClassifier.js';
 import { businessScopeValidator } from '../middleware/businessScopeValidator.js';
 import { jurisdictionValidator } from '../middleware/jurisdictionValidator.js';
 import { createLoggingMiddleware } from '../middleware/pipeline.js';
@@ -12,19 +14,41 @@ import { documentChecklistMiddleware } from '../middleware/documentChecklistMidd
 import { skipToLawyerMiddleware } from '../middleware/skipToLawyerMiddleware.js';
 import { pdfGenerationMiddleware } from '../middleware/pdfGenerationMiddleware.js';
 import { fileAnalysisMiddleware } from '../middleware/fileAnalysisMiddleware.js';
+import { resolvePipelineSteps, type PipelineMiddlewareName } from '../middleware/registry.js';
 import { runLegalIntakeAgentStream } from '../agents/legal-intake/index.js';
+import { estimateTokens } from '../agents/legal-intake/contextBuilder.js';
 import { getCloudflareLocation } from '../utils/cloudflareLocationValidator.js';
+import { resolveCloudflareLocation } from '../utils/usGeography.js';
 import { SessionService } from '../services/SessionService.js';
+import { PipelineTraceService } from '../services/PipelineTraceService.js';
 import { StatusService } from '../services/StatusService.js';
+import { SessionTakeoverService } from '../services/SessionTakeoverService.js';
 import { chunkResponseText } from '../utils/streaming.js';
+import { DOCUMENT_UPLOAD_PLACEHOLDER } from '../utils/documentQuarantine.js';
 import { Logger } from '../utils/logger.js';
+import { parseEnvBool } from '../utils/safeStringUtils.js';
 import { ensureActiveSubscription } from '../middleware/subscription.js';
 
+// Implementations of the middlewares organizations can configure in their pipeline
+const PIPELINE_MIDDLEWARES: Record<PipelineMiddlewareName, AnyMiddleware> = {
+  crisisEscalationMiddleware, // Before the policy filter so crisis messages get resources, not a refusal
+  intentClassifierMiddleware,
+  contentPolicyFilter,
+  skipToLawyerMiddleware,
+  businessScopeValidator,
+  fileAnalysisMiddleware,
+  jurisdictionValidator,
+  caseDraftMiddleware,
+  documentChecklistMiddleware,
+  pdfGenerationMiddleware
+};
+
 // Interface for the request body
 interface RouteBody {
   messages: Array<{
     role: 'user' | 'assistant' | 'system';
     content: string;
+    metadata?: Record<string, unknown>;
   }>;
   organizationId?: string;
   sessionId?: string;
@@ -104,6 +128,8 @@ export async function handleAgentStreamV2(request: Request, env: Env): Promise<R
       async start(controller) {
         const encoder = new TextEncoder();
         let lastSeen = Date.now();
+        let lastMessageAt = new Date(lastSeen).toISOString();
+        const takeoverService = new SessionTakeoverService(env);
         let isActive = true;
         let errorCount = 0;
         let pollTimeoutId: ReturnType<typeof setTimeout> | null = null;
@@ -126,6 +152,16 @@ export async function handleAgentStreamV2(request: Request, env: Env): Promise<R
           timestamp: Date.now()
         });
 
+        // Let a reconnecting client know if a staff member is already chatting
+        try {
+          const activeTakeover = await takeoverService.getActive(organizationId, sessionId);
+          if (activeTakeover) {
+            sendEvent({ type: 'takeover', data: { active: true, staffName: activeTakeover.staffName } });
+          }
+        } catch (error) {
+          console.error('Failed to load session takeover state:', error);
+        }
+
         // Self-scheduling async poll function with exponential backoff
         const pollForUpdates = async () => {
           if (!isActive) return;
@@ -164,6 +200,21 @@ export async function handleAgentStreamV2(request: Request, env: Env): Promise<R
               await StatusService.updateSubscriptionLastSeen(env, sessionId, lastSeen);
             }
 
+            // Relay staff replies and takeover markers written while a lawyer has taken over
+            const takeoverMessages = await takeoverService.getClientEventsSince(organizationId, sessionId, lastMessageAt);
+            for (const message of takeoverMessages) {
+              sendEvent({
+                type: message.metadata?.type,
+                data: {
+                  id: message.id,
+                  content: message.content,
+                  staffName: message.metadata?.staffName,
+                  createdAt: message.createdAt
+                }
+              });
+              lastMessageAt = message.createdAt;
+            }
+
             // Send periodic ping to keep connection alive
             sendEvent({ 
               type: 'ping', 
@@ -281,7 +332,7 @@ export async function handleAgentStreamV2(request: Request, env: Env): Promise<R
           ...latestMessage,
           content: latestMessage?.content?.trim().length
             ? latestMessage.content
-            : 'User uploaded new documents for review.'
+            : DOCUMENT_UPLOAD_PLACEHOLDER
         };
         normalizedMessages[normalizedMessages.length - 1] = latestMessage;
       } else {
@@ -370,6 +421,7 @@ export async function handleAgentStreamV2(request: Request, env: Env): Promise<R
     }
 
     // Persist the latest user message for auditing
+    let persistedMessageId: string | null = null;
     try {
       const metadata = attachments.length > 0
         ? {
@@ -386,18 +438,46 @@ export async function handleAgentStreamV2(request: Request, env: Env): Promise<R
       const messageRecord = latestMessage as { id?: unknown };
       const messageId = typeof messageRecord.id === 'string' ? messageRecord.id : undefined;
 
-      await SessionService.persistMessage(env, {
+      persistedMessageId = await SessionService.persistMessage(env, {
         sessionId: resolvedSessionId,
         organizationId: resolvedOrganizationId,
         role: 'user',
         content: latestMessage.content,
         metadata,
+        tokenCount: estimateTokens(latestMessage.content),
         messageId
       });
     } catch (persistError) {
       console.warn('Failed to persist chat message to D1', persistError);
     }
 
+    // A staff member has taken over this session: the AI stays paused and their
+    // replies reach the client over the GET SSE channel
+    let activeTakeover = null;
+    try {
+      activeTakeover = await new SessionTakeoverService(env).getActive(resolvedOrganizationId, resolvedSessionId);
+    } catch (takeoverError) {
+      console.warn('Failed to check session takeover state', takeoverError);
+    }
+
+    if (activeTakeover) {
+      const staffName = activeTakeover.staffName;
+      const stream = new ReadableStream({
+        start(controller) {
+          const encoder = new TextEncoder();
+          const sendEvent = (event: unknown) => {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+          };
+          sendEvent({ type: 'connected' });
+          sendEvent({ type: 'takeover', data: { active: true, staffName } });
+          sendEvent({ type: 'complete' });
+          controller.close();
+        }
+      });
+
+      return new Response(stream, { headers });
+    }
+
     // Get organization configuration
     let organizationConfig = null;
     if (effectiveOrganizationId) {
@@ -425,6 +505,9 @@ export async function handleAgentStreamV2(request: Request, env: Env): Promise<R
       updatedContext.currentAttachments = attachments;
     }
 
+    // Normalized request location for jurisdiction checks
+    updatedContext.requestLocation = resolveCloudflareLocation(cloudflareLocation) ?? undefined;
+
     // Run through pipeline with full conversation history
     const pipelineResult = await runPipeline(
       normalizedMessages,
@@ -432,18 +515,21 @@ export async function handleAgentStreamV2(request: Request, env: Env): Promise<R
       organizationConfig,
       [
         createLoggingMiddleware(),
-        contentPolicyFilter,
-        skipToLawyerMiddleware,
-        businessScopeValidator,
-        fileAnalysisMiddleware, // Handle file analysis early in pipeline
-        jurisdictionValidator,
-        caseDraftMiddleware,
-        documentChecklistMiddleware,
-        pdfGenerationMiddleware
+        ...resolvePipelineSteps(organizationConfig).map(step => PIPELINE_MIDDLEWARES[step.name])
       ],
       env
     );
 
+    await new PipelineTraceService(env).record({
+      organizationId: resolvedOrganizationId,
+      sessionId: resolvedSessionId,
+      messageId: persistedMessageId,
+      trace: pipelineResult.trace
+    });
+    const debugEvent = parseEnvBool(env.DEBUG)
+      ? { type: 'pipeline_trace', data: pipelineResult.trace }
+      : null;
+
     // Save updated context
     const saveSuccess = await ConversationContextManager.save(pipelineResult.context, env);
     if (!saveSuccess) {
@@ -462,6 +548,9 @@ export async function handleAgentStreamV2(request: Request, env: Env): Promise<R
 
           try {
             sendEvent({ type: 'connected' });
+            if (debugEvent) {
+              sendEvent(debugEvent);
+            }
 
             const responseChunks = chunkResponseText(pipelineResult.response);
             if (responseChunks.length === 0) {
@@ -534,7 +623,7 @@ export async function handleAgentStreamV2(request: Request, env: Env): Promise<R
               middlewareUsed: pipelineResult.middlewareUsed,
               context: {
                 establishedMatters: pipelineResult.context.establishedMatters,
-                userIntent: pipelineResult.context.userIntent,
+                userIntent: pipelineResult.context.userIntent.label,
                 conversationPhase: pipelineResult.context.conversationPhase
               }
             });
@@ -566,6 +655,9 @@ export async function handleAgentStreamV2(request: Request, env: Env): Promise<R
         try {
           // Send initial connection event
           controller.enqueue(new TextEncoder().encode('data: {"type":"connected"}\n\n'));
+          if (debugEvent) {
+            controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(debugEvent)}\n\n`));
+          }
           
           // Convert messages to the format expected by the AI agent
         const formattedMessages = normalizedMessages.map(msg => ({
@@ -610,7 +702,8 @@ export async function handleAgentStreamV2(request: Request, env: Env): Promise<R
             {
               provider: providerOverride,
               model: modelOverride
-            }
+            },
+            pipelineResult.context.userIntent
           );
           
         } catch (error) {
@@ -11,6 +11,13 @@ import {
   logWarning 
 } from '../utils/logging.js';
 import { parseEnvBool } from '../utils/safeStringUtils.js';
+import {
+  sanitizeDocumentText,
+  scanDocumentText,
+  wrapDocumentData,
+  UNTRUSTED_DOCUMENT_NOTICE,
+  type InjectionDetection
+} from '../utils/documentQuarantine.js';
 import { createRateLimitResponse } from '../errorHandler';
 
 // Legal keywords for relevance scoring
@@ -121,6 +128,7 @@ interface ExtendedAnalysisResult extends AnalysisResult {
   extraction_method?: string;
   truncationFailed?: boolean;
   truncationNote?: string;
+  quarantine?: InjectionDetection[]; // Instruction-like passages removed from the document text
   debug?: {
     adobeEnabled: boolean;
     adobeClientIdSet: boolean;
@@ -505,17 +513,22 @@ async function summarizeAdobeExtract(
     });
   }
 
+  // Document text is untrusted: strip instruction-like sentences, and drop structured data that carries any
+  const { text: sanitizedText, detections } = sanitizeDocumentText(truncatedText);
+  const structuredScan = scanDocumentText(structuredPayload);
+
   const systemPrompt = [
     'You are a legal intake analyst receiving structured output from Adobe PDF Services.',
     'Use the provided document text and structured data to answer the intake question.',
     'Return STRICT JSON: { "summary": string, "key_facts": string[], "entities": { "people": string[], "orgs": string[], "dates": string[] }, "action_items": string[], "confidence": number }',
-    'Highlight parties, obligations, important dates, dollar amounts, and recommended next steps.'
+    'Highlight parties, obligations, important dates, dollar amounts, and recommended next steps.',
+    UNTRUSTED_DOCUMENT_NOTICE
   ].join('\n');
 
   const userPrompt = [
     `Intake question: ${question}`,
-    truncatedText ? `Extracted text:\n${truncatedText}` : '',
-    structuredPayload ? `Structured data:\n${structuredPayload}` : ''
+    sanitizedText ? wrapDocumentData('extracted text', sanitizedText) : '',
+    structuredPayload && !structuredScan.flagged ? wrapDocumentData('structured data', structuredPayload) : ''
   ].filter(Boolean).join('\n\n');
 
   // Use the correct format for Cloudflare AI
@@ -538,6 +551,11 @@ async function summarizeAdobeExtract(
   extendedResult.adobeExtractTextLength = rawText.length;
   extendedResult.adobeExtractTextPreview = rawText.substring(0, 200);
   
+  const quarantine = [...detections, ...structuredScan.detections];
+  if (quarantine.length > 0) {
+    extendedResult.quarantine = quarantine;
+  }
+
   // Add truncation failure information if applicable
   if (truncationFailed) {
     extendedResult.truncationFailed = true;
@@ -742,7 +760,7 @@ async function analyzeWithGenericAI(
   question: string,
   env: Env,
   requestId?: string
-): Promise<AnalysisResult> {
+): Promise<ExtendedAnalysisResult> {
   try {
     log('info', 'generic_ai_analysis_start', {
       fileName: file.name,
@@ -752,14 +770,17 @@ async function analyzeWithGenericAI(
     });
 
     let content = '';
+    let quarantine: InjectionDetection[] = [];
     
     if (file.type === 'text/plain') {
       // Check file size before reading into memory
       if (file.size > MAX_ANALYSIS_FILE_SIZE) {
         throw new Error(`File size exceeds maximum limit of ${MAX_ANALYSIS_FILE_SIZE / (1024 * 1024)}MB for analysis`);
       }
-      // Read text content directly
-      content = await file.text();
+      // Read text content directly; it is untrusted, so instruction-like sentences are stripped
+      const sanitized = sanitizeDocumentText(await file.text());
+      content = wrapDocumentData(file.name, sanitized.text);
+      quarantine = sanitized.detections;
     } else {
       // For other types, produce a concise intake description
       content = `Document: ${file.name}\nType: ${file.type}\nSize: ${file.size} bytes\nQuestion: ${question}`;
@@ -768,7 +789,8 @@ async function analyzeWithGenericAI(
     const systemPrompt = [
       'You are a legal intake analyst. Analyze the provided content and answer the intake question.',
       'Return STRICT JSON: { "summary": string, "key_facts": string[], "entities": { "people": string[], "orgs": string[], "dates": string[] }, "action_items": string[], "confidence": number }',
-      'Focus on legal parties, obligations, deadlines, amounts, and recommended next steps.'
+      'Focus on legal parties, obligations, deadlines, amounts, and recommended next steps.',
+      UNTRUSTED_DOCUMENT_NOTICE
     ].join('\n');
 
     const userPrompt = `Intake question: ${question}\n\nContent:\n${content}`;
@@ -796,7 +818,7 @@ async function analyzeWithGenericAI(
       requestId
     });
 
-    return result;
+    return quarantine.length > 0 ? { ...result, quarantine } : result;
   } catch (error) {
     logError('analyze', 'generic_ai_analysis_failed', error as Error, {
       fileName: file.name,
@@ -1,6 +1,22 @@
 import type { Env } from '../types';
 import { createSuccessResponse } from '../errorHandler';
+import { buildDefaultOrganizationConfig } from '../services/OrganizationService.js';
+import { ModelCircuitBreaker } from '../utils/modelCircuitBreaker.js';
+import { Logger } from '../utils/logger.js';
 
 export async function handleHealth(request: Request, env: Env): Promise<Response> {
-  return createSuccessResponse({ status: 'ok' });
-} 
\ No newline at end of file
+  const defaults = buildDefaultOrganizationConfig(env);
+  const defaultModels = [defaults.aiModel, ...(defaults.aiModelFallback ?? [])]
+    .filter((model): model is string => typeof model === 'string');
+
+  try {
+    const models = await new ModelCircuitBreaker(env).listStatuses(defaultModels);
+    const degraded = models.some(circuit => circuit.state !== 'closed');
+    return createSuccessResponse({ status: degraded ? 'degraded' : 'ok', models });
+  } catch (error) {
+    Logger.warn('Failed to read model circuit states', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return createSuccessResponse({ status: 'ok', models: null });
+  }
+}
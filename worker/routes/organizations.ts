@@ -4,7 +4,39 @@ import { ValidationError } from '../utils/validationErrors.js';
 import { requireAuth, requireOrgOwner, requireOrgMember } from '../middleware/auth.js';
 import { handleError, HttpErrors } from '../errorHandler.js';
 import type { Organization } from '../services/OrganizationService.js';
-import { organizationCreateSchema, organizationUpdateSchema } from '../schemas/validation.js';
+import {
+  contentPolicySchema,
+  contentPolicyTestSchema,
+  experimentCreateSchema,
+  knowledgeDocumentCreateSchema,
+  knowledgeSearchSchema,
+  lawyerAvailabilitySchema,
+  organizationCreateSchema,
+  organizationUpdateSchema,
+  pipelineTraceQuerySchema,
+  promptTemplatePreviewSchema,
+  promptTemplateRollbackSchema,
+  promptTemplateUpdateSchema,
+  sessionTakeoverMessageSchema,
+  toolCallAuditQuerySchema,
+  usageQuerySchema
+} from '../schemas/validation.js';
+import { PromptTemplateService } from '../services/PromptTemplateService.js';
+import { SessionService } from '../services/SessionService.js';
+import { SessionTakeoverService } from '../services/SessionTakeoverService.js';
+import { SchedulingService } from '../services/SchedulingService.js';
+import { ExperimentService } from '../services/ExperimentService.js';
+import { KnowledgeBaseService, KnowledgeLimitError } from '../services/KnowledgeBaseService.js';
+import { DEFAULT_AUDIT_PAGE_SIZE, ToolAuditService } from '../services/ToolAuditService.js';
+import { UsageService, monthStart } from '../services/UsageService.js';
+import { PipelineTraceService } from '../services/PipelineTraceService.js';
+import { evaluateContentPolicy } from '../middleware/contentPolicyFilter.js';
+import {
+  findUnknownTemplateVariables,
+  PROMPT_TEMPLATE_VARIABLES,
+  type PromptTemplateContent
+} from '../agents/legal-intake/promptTemplates.js';
+import { previewSystemPrompt } from '../agents/legal-intake/index.js';
 
 /**
  * Helper function to create standardized error responses
@@ -86,6 +118,21 @@ function sanitizeOrganizationResponse(organization: Organization): Organization
             apiUrl: organization.config.blawbyApi.apiUrl,
           }
         : undefined,
+      aiProviders: organization.config?.aiProviders
+        ? Object.fromEntries(
+            Object.entries(organization.config.aiProviders).map(([name, provider]) => [
+              name,
+              { type: provider.type, baseUrl: provider.baseUrl },
+            ])
+          )
+        : undefined,
+      webhookTools: organization.config?.webhookTools?.map(({ signingSecret: _signingSecret, ...tool }) => ({
+        ...tool,
+        signingSecret: '',
+      })),
+      crisis: organization.config?.crisis
+        ? { ...organization.config.crisis, onCallEmails: undefined }
+        : undefined,
     },
   };
 }
@@ -130,6 +177,19 @@ async function recordOrganizationEvent(
   }
 }
 
+const DEFAULT_PROMPT_PREVIEW_MESSAGES = [
+  { role: 'user' as const, content: 'Hi, I was fired last week after I complained about unpaid overtime. Can you help?' }
+];
+
+function assertKnownTemplateVariables(content: PromptTemplateContent): void {
+  const unknown = findUnknownTemplateVariables(content);
+  if (unknown.length > 0) {
+    throw HttpErrors.badRequest(
+      `Unknown template variables: ${unknown.join(', ')}. Supported variables: ${PROMPT_TEMPLATE_VARIABLES.join(', ')}`
+    );
+  }
+}
+
 export async function handleOrganizations(request: Request, env: Env): Promise<Response> {
   try {
     const url = new URL(request.url);
@@ -196,6 +256,417 @@ export async function handleOrganizations(request: Request, env: Env): Promise<R
       });
     }
 
+    if (pathSegments.length >= 2 && pathSegments.length <= 4 && pathSegments[1] === 'experiments') {
+      const organization = await organizationService.getOrganization(pathSegments[0]);
+
+      if (!organization) {
+        throw HttpErrors.notFound('Organization not found');
+      }
+
+      const experimentService = new ExperimentService(env);
+      const [, , experimentId, action] = pathSegments;
+
+      if (!experimentId && request.method === 'GET') {
+        await requireOrgMember(request, env, organization.id, 'admin');
+        const experiments = await experimentService.list(organization.id);
+        return createSuccessResponse({ experiments });
+      }
+
+      if (!experimentId && request.method === 'POST') {
+        const { user } = await requireOrgOwner(request, env, organization.id);
+        const body = experimentCreateSchema.parse(await request.json());
+
+        const running = await experimentService.getRunning(organization.id);
+        if (running) {
+          throw HttpErrors.conflict(`Experiment "${running.name}" is already running; stop it before starting another`);
+        }
+
+        const promptTemplateService = new PromptTemplateService(env);
+        for (const arm of body.arms) {
+          if (arm.promptTemplateVersion !== undefined &&
+              !(await promptTemplateService.getVersion(organization.id, arm.promptTemplateVersion))) {
+            throw HttpErrors.badRequest(`Prompt template version ${arm.promptTemplateVersion} not found`);
+          }
+        }
+
+        const experiment = await experimentService.create(organization.id, body, user.id);
+        await recordOrganizationEvent(env, organization.id, {
+          type: 'experiment_started',
+          actorId: user.id,
+          metadata: { experimentId: experiment.id, arms: experiment.arms.map(arm => arm.key) }
+        });
+
+        return createSuccessResponse({ experiment });
+      }
+
+      if (experimentId) {
+        const experiment = await experimentService.get(organization.id, experimentId);
+        if (!experiment) {
+          throw HttpErrors.notFound('Experiment not found');
+        }
+
+        if (!action && request.method === 'GET') {
+          await requireOrgMember(request, env, organization.id, 'admin');
+          const metrics = await experimentService.getMetrics(experiment);
+          return createSuccessResponse({ experiment, metrics });
+        }
+
+        if (action === 'stop' && request.method === 'POST') {
+          const { user } = await requireOrgOwner(request, env, organization.id);
+          const stopped = await experimentService.stop(organization.id, experiment.id);
+          await recordOrganizationEvent(env, organization.id, {
+            type: 'experiment_stopped',
+            actorId: user.id,
+            metadata: { experimentId: experiment.id }
+          });
+          return createSuccessResponse({ experiment: stopped });
+        }
+      }
+
+      throw HttpErrors.methodNotAllowed('Unsupported experiment operation');
+    }
+
+    if (pathSegments.length >= 2 && pathSegments.length <= 3 && pathSegments[1] === 'prompt-template') {
+      const organization = await organizationService.getOrganization(pathSegments[0]);
+
+      if (!organization) {
+        throw HttpErrors.notFound('Organization not found');
+      }
+
+      const promptTemplateService = new PromptTemplateService(env);
+      const action = pathSegments[2];
+
+      if (!action && request.method === 'GET') {
+        await requireOrgMember(request, env, organization.id, 'admin');
+        const versions = await promptTemplateService.listVersions(organization.id);
+
+        return createSuccessResponse({
+          active: versions[0] ?? null,
+          versions,
+          variables: PROMPT_TEMPLATE_VARIABLES
+        });
+      }
+
+      if (!action && request.method === 'PUT') {
+        const { user } = await requireOrgOwner(request, env, organization.id);
+        const body = promptTemplateUpdateSchema.parse(await request.json());
+        assertKnownTemplateVariables(body.content);
+
+        const saved = await promptTemplateService.saveVersion(organization.id, body.content, {
+          note: body.note,
+          createdBy: user.id
+        });
+        await recordOrganizationEvent(env, organization.id, {
+          type: 'prompt_template_updated',
+          actorId: user.id,
+          metadata: { version: saved.version }
+        });
+
+        return createSuccessResponse({ template: saved });
+      }
+
+      if (action === 'rollback' && request.method === 'POST') {
+        const { user } = await requireOrgOwner(request, env, organization.id);
+        const body = promptTemplateRollbackSchema.parse(await request.json());
+
+        const restored = await promptTemplateService.rollback(organization.id, body.version, user.id);
+        if (!restored) {
+          throw HttpErrors.notFound(`Prompt template version ${body.version} not found`);
+        }
+        await recordOrganizationEvent(env, organization.id, {
+          type: 'prompt_template_rolled_back',
+          actorId: user.id,
+          metadata: { version: restored.version, rolledBackFrom: body.version }
+        });
+
+        return createSuccessResponse({ template: restored });
+      }
+
+      if (action === 'preview' && request.method === 'POST') {
+        await requireOrgMember(request, env, organization.id, 'admin');
+        const body = promptTemplatePreviewSchema.parse(await request.json());
+
+        let content: PromptTemplateContent | null = body.content ?? null;
+        if (!content && body.version) {
+          const version = await promptTemplateService.getVersion(organization.id, body.version);
+          if (!version) {
+            throw HttpErrors.notFound(`Prompt template version ${body.version} not found`);
+          }
+          content = version.content;
+        } else if (!content) {
+          content = (await promptTemplateService.getActive(organization.id))?.content ?? null;
+        }
+        if (content) {
+          assertKnownTemplateVariables(content);
+        }
+
+        const messages = (body.messages ?? DEFAULT_PROMPT_PREVIEW_MESSAGES).map(message => ({
+          role: message.role,
+          content: message.content,
+          isUser: message.role === 'user'
+        }));
+
+        return createSuccessResponse(previewSystemPrompt(organization, content, messages));
+      }
+
+      throw HttpErrors.methodNotAllowed('Unsupported prompt template operation');
+    }
+
+    // Knowledge base: /{org}/knowledge, /{org}/knowledge/search, /{org}/knowledge/{documentId}
+    if (pathSegments.length >= 2 && pathSegments.length <= 3 && pathSegments[1] === 'knowledge') {
+      const organization = await organizationService.getOrganization(pathSegments[0]);
+
+      if (!organization) {
+        throw HttpErrors.notFound('Organization not found');
+      }
+
+      const knowledgeBaseService = new KnowledgeBaseService(env);
+      const documentId = pathSegments[2];
+
+      if (!documentId && request.method === 'GET') {
+        await requireOrgMember(request, env, organization.id, 'attorney');
+        const documents = await knowledgeBaseService.listDocuments(organization.id);
+
+        return createSuccessResponse({ documents });
+      }
+
+      if (!documentId && request.method === 'POST') {
+        const { user } = await requireOrgMember(request, env, organization.id, 'admin');
+        const body = knowledgeDocumentCreateSchema.parse(await request.json());
+
+        let content = body.content;
+        let title = body.title;
+        if (body.fileId) {
+          const file = await knowledgeBaseService.loadFileText(organization.id, body.fileId);
+          if (!file) {
+            throw HttpErrors.unprocessableEntity('No readable text found in that file; upload a text file or paste the content instead');
+          }
+          content = file.text;
+          title = title ?? file.fileName;
+        }
+
+        let document;
+        try {
+          document = await knowledgeBaseService.addDocument({
+            organizationId: organization.id,
+            title: title ?? 'Untitled',
+            content: content ?? '',
+            sourceType: body.fileId ? 'document' : body.sourceType,
+            fileId: body.fileId,
+            createdBy: user.id
+          });
+        } catch (error) {
+          if (error instanceof KnowledgeLimitError) {
+            throw error.limit === 'documentChars' || error.limit === 'documentChunks'
+              ? HttpErrors.payloadTooLarge(`${error.message}; split it into smaller documents`)
+              : HttpErrors.conflict(`${error.message}; remove documents you no longer need first`);
+          }
+          throw error;
+        }
+        await recordOrganizationEvent(env, organization.id, {
+          type: 'knowledge_document_added',
+          actorId: user.id,
+          metadata: { documentId: document.id, title: document.title, chunkCount: document.chunkCount }
+        });
+
+        return createSuccessResponse({ document });
+      }
+
+      if (documentId === 'search' && request.method === 'POST') {
+        await requireOrgMember(request, env, organization.id, 'admin');
+        const body = knowledgeSearchSchema.parse(await request.json());
+        const passages = await knowledgeBaseService.search(organization.id, body.query, { limit: body.limit });
+
+        return createSuccessResponse({ passages });
+      }
+
+      if (documentId && request.method === 'DELETE') {
+        const { user } = await requireOrgMember(request, env, organization.id, 'admin');
+        const deleted = await knowledgeBaseService.deleteDocument(organization.id, documentId);
+        if (!deleted) {
+          throw HttpErrors.notFound('Knowledge document not found');
+        }
+        await recordOrganizationEvent(env, organization.id, {
+          type: 'knowledge_document_removed',
+          actorId: user.id,
+          metadata: { documentId }
+        });
+
+        return createSuccessResponse({ removed: true });
+      }
+
+      throw HttpErrors.methodNotAllowed('Unsupported knowledge base operation');
+    }
+
+    // Tool call audit log: /{org}/tool-calls, /{org}/tool-calls/summary
+    if (pathSegments.length >= 2 && pathSegments.length <= 3 && pathSegments[1] === 'tool-calls') {
+      if (request.method !== 'GET') {
+        throw HttpErrors.methodNotAllowed('Unsupported tool call audit operation');
+      }
+
+      const organization = await organizationService.getOrganization(pathSegments[0]);
+
+      if (!organization) {
+        throw HttpErrors.notFound('Organization not found');
+      }
+
+      await requireOrgMember(request, env, organization.id, 'admin');
+      const query = toolCallAuditQuerySchema.parse(Object.fromEntries(url.searchParams));
+      const toolAuditService = new ToolAuditService(env);
+
+      if (pathSegments[2] === 'summary') {
+        const since = query.since ?? new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+        const tools = await toolAuditService.summarize(since, organization.id);
+
+        return createSuccessResponse({ since, tools });
+      }
+
+      if (pathSegments[2]) {
+        throw HttpErrors.notFound('Endpoint not found');
+      }
+
+      const entries = await toolAuditService.list(organization.id, query);
+      const pageSize = query.limit ?? DEFAULT_AUDIT_PAGE_SIZE;
+
+      const lastEntry = entries.length === pageSize ? entries[entries.length - 1] : null;
+
+      return createSuccessResponse({
+        entries,
+        nextBefore: lastEntry?.createdAt ?? null,
+        nextBeforeId: lastEntry?.id ?? null
+      });
+    }
+
+    // Content policy: /{org}/content-policy, /{org}/content-policy/test (dry run)
+    if (pathSegments.length >= 2 && pathSegments.length <= 3 && pathSegments[1] === 'content-policy') {
+      const organization = await organizationService.getOrganization(pathSegments[0]);
+
+      if (!organization) {
+        throw HttpErrors.notFound('Organization not found');
+      }
+
+      if (pathSegments[2] === 'test') {
+        await requireOrgMember(request, env, organization.id, 'admin');
+
+        if (request.method !== 'POST') {
+          throw HttpErrors.methodNotAllowed('Unsupported content policy test operation');
+        }
+
+        const body = contentPolicyTestSchema.parse(await request.json());
+        const policy = body.policy ?? organization.config.contentPolicy;
+        const results = body.messages.map(message => ({
+          message,
+          ...evaluateContentPolicy([{ role: 'user', content: message }], { establishedMatters: [], messageCount: 1 }, policy)
+        }));
+
+        return createSuccessResponse({ results });
+      }
+
+      if (pathSegments[2]) {
+        throw HttpErrors.notFound('Endpoint not found');
+      }
+
+      if (request.method === 'GET') {
+        await requireOrgMember(request, env, organization.id, 'admin');
+        return createSuccessResponse({ contentPolicy: organization.config.contentPolicy ?? {} });
+      }
+
+      if (request.method === 'PUT') {
+        const { user } = await requireOrgOwner(request, env, organization.id);
+        const contentPolicy = contentPolicySchema.parse(await request.json());
+        await organizationService.patchOrganizationConfig(organization.id, { contentPolicy });
+        await recordOrganizationEvent(env, organization.id, {
+          type: 'content_policy_updated',
+          actorId: user.id,
+          metadata: {
+            blockedTerms: contentPolicy.blockedTerms?.length ?? 0,
+            allowedPhrases: contentPolicy.allowedPhrases?.length ?? 0,
+            severities: contentPolicy.severities ?? {}
+          }
+        });
+
+        return createSuccessResponse({ contentPolicy });
+      }
+
+      throw HttpErrors.methodNotAllowed('Unsupported content policy operation');
+    }
+
+    // Intake pipeline traces for a session: /{org}/pipeline-traces?sessionId=
+    if (pathSegments.length === 2 && pathSegments[1] === 'pipeline-traces') {
+      if (request.method !== 'GET') {
+        throw HttpErrors.methodNotAllowed('Unsupported pipeline trace operation');
+      }
+
+      const organization = await organizationService.getOrganization(pathSegments[0]);
+
+      if (!organization) {
+        throw HttpErrors.notFound('Organization not found');
+      }
+
+      await requireOrgMember(request, env, organization.id, 'admin');
+      const query = pipelineTraceQuerySchema.parse(Object.fromEntries(url.searchParams));
+      const traces = await new PipelineTraceService(env).listForSession(organization.id, query.sessionId, query.limit);
+
+      return createSuccessResponse({ traces });
+    }
+
+    // AI usage and tier quota: /{org}/usage
+    if (pathSegments.length === 2 && pathSegments[1] === 'usage' && request.method === 'GET') {
+      const organization = await organizationService.getOrganization(pathSegments[0]);
+
+      if (!organization) {
+        throw HttpErrors.notFound('Organization not found');
+      }
+
+      await requireOrgMember(request, env, organization.id, 'admin');
+      const query = usageQuerySchema.parse(Object.fromEntries(url.searchParams));
+      const usageService = new UsageService(env);
+      const from = query.from ?? monthStart();
+      const to = query.to ?? new Date().toISOString().slice(0, 10);
+
+      const [quota, daily] = await Promise.all([
+        usageService.checkQuota(organization),
+        usageService.listDaily(organization.id, from, to)
+      ]);
+
+      return createSuccessResponse({ from, to, quota, daily });
+    }
+
+    // AI replies changed or flagged by the compliance review: /{org}/compliance/flags
+    if (pathSegments.length === 3 && pathSegments[1] === 'compliance' && pathSegments[2] === 'flags' && request.method === 'GET') {
+      const organization = await organizationService.getOrganization(pathSegments[0]);
+
+      if (!organization) {
+        throw HttpErrors.notFound('Organization not found');
+      }
+
+      await requireOrgMember(request, env, organization.id, 'admin');
+
+      const limit = parseLimit(url.searchParams.get('limit'), 50);
+      const flaggedOnly = url.searchParams.get('flaggedOnly') === 'true';
+      const rows = await env.DB.prepare(
+        `SELECT id,
+                session_id as sessionId,
+                content,
+                json_extract(metadata, '$.compliance') as compliance,
+                created_at as createdAt
+           FROM chat_messages
+          WHERE organization_id = ?
+            AND role = 'assistant'
+            AND json_extract(metadata, '$.compliance') IS NOT NULL
+            ${flaggedOnly ? "AND json_extract(metadata, '$.compliance.flagged') = 1" : ''}
+          ORDER BY created_at DESC
+          LIMIT ?`
+      ).bind(organization.id, limit).all();
+
+      return createSuccessResponse({
+        responses: rows.results?.map(row => ({
+          ...row,
+          compliance: parseJsonField(row.compliance) ?? row.compliance
+        })) ?? []
+      });
+    }
+
     if (pathSegments.length === 2 && pathSegments[1] === 'member') {
       const organizationIdentifier = pathSegments[0];
       const organization = await organizationService.getOrganization(organizationIdentifier);
@@ -344,6 +815,120 @@ export async function handleOrganizations(request: Request, env: Env): Promise<R
       }
     }
 
+    // Consultation availability: /{org}/lawyers/{lawyerId}/availability
+    if (pathSegments.length === 4 && pathSegments[1] === 'lawyers' && pathSegments[3] === 'availability') {
+      const organization = await organizationService.getOrganization(pathSegments[0]);
+
+      if (!organization) {
+        throw HttpErrors.notFound('Organization not found');
+      }
+
+      const schedulingService = new SchedulingService(env);
+      const lawyerId = pathSegments[2];
+
+      if (request.method === 'GET') {
+        await requireOrgMember(request, env, organization.id, 'attorney');
+        const availability = await schedulingService.getAvailability(organization.id, lawyerId);
+
+        return createSuccessResponse({ availability });
+      }
+
+      if (request.method === 'PUT') {
+        const { user } = await requireOrgMember(request, env, organization.id, 'admin');
+        const body = lawyerAvailabilitySchema.parse(await request.json());
+
+        const saved = await schedulingService.setAvailability(organization.id, lawyerId, body);
+        if (!saved) {
+          throw HttpErrors.notFound('Lawyer not found');
+        }
+        await recordOrganizationEvent(env, organization.id, {
+          type: 'lawyer_availability_updated',
+          actorId: user.id,
+          metadata: { lawyerId }
+        });
+
+        return createSuccessResponse({ availability: await schedulingService.getAvailability(organization.id, lawyerId) });
+      }
+
+      throw HttpErrors.methodNotAllowed('Unsupported availability operation');
+    }
+
+    // Live session view and lawyer takeover: /{org}/workspace/sessions/{sessionId}/(messages|takeover)
+    if (pathSegments.length === 5 && pathSegments[1] === 'workspace' && pathSegments[2] === 'sessions') {
+      const organization = await organizationService.getOrganization(pathSegments[0]);
+
+      if (!organization) {
+        throw HttpErrors.notFound('Organization not found');
+      }
+
+      const { user } = await requireOrgMember(request, env, organization.id, 'attorney');
+      const sessionId = pathSegments[3];
+      const action = pathSegments[4];
+
+      const session = await SessionService.getSessionById(env, sessionId);
+      if (!session || session.organizationId !== organization.id) {
+        throw HttpErrors.notFound('Session not found');
+      }
+
+      const takeoverService = new SessionTakeoverService(env);
+      const staff = { id: user.id, name: user.name?.trim() || user.email };
+
+      if (action === 'messages' && request.method === 'GET') {
+        const [messages, takeover] = await Promise.all([
+          takeoverService.listMessages(organization.id, sessionId, url.searchParams.get('after')),
+          takeoverService.getActive(organization.id, sessionId)
+        ]);
+
+        // Preact usage: poll with ?after=<last createdAt> while a session is open in the workspace.
+        return createSuccessResponse({ session, messages, takeover });
+      }
+
+      if (action === 'messages' && request.method === 'POST') {
+        const body = sessionTakeoverMessageSchema.parse(await request.json());
+
+        const message = await takeoverService.sendMessage(organization.id, sessionId, staff, body.content);
+        if (!message) {
+          throw HttpErrors.conflict('Take over the session before sending messages');
+        }
+
+        return createSuccessResponse({ message });
+      }
+
+      if (action === 'takeover' && request.method === 'POST') {
+        if (session.state !== 'active') {
+          throw HttpErrors.conflict('Only active sessions can be taken over');
+        }
+
+        const takeover = await takeoverService.start(organization.id, sessionId, staff);
+        if (!takeover || takeover.userId !== staff.id) {
+          throw HttpErrors.conflict(`${takeover?.staffName ?? 'Another team member'} has already taken over this session`);
+        }
+        await recordOrganizationEvent(env, organization.id, {
+          type: 'session_takeover_started',
+          actorId: user.id,
+          metadata: { sessionId }
+        });
+
+        return createSuccessResponse({ takeover });
+      }
+
+      if (action === 'takeover' && request.method === 'DELETE') {
+        const ended = await takeoverService.end(organization.id, sessionId, staff);
+        if (!ended) {
+          throw HttpErrors.notFound('Session is not taken over');
+        }
+        await recordOrganizationEvent(env, organization.id, {
+          type: 'session_takeover_ended',
+          actorId: user.id,
+          metadata: { sessionId }
+        });
+
+        return createSuccessResponse({ takeover: null });
+      }
+
+      throw HttpErrors.methodNotAllowed('Unsupported session operation');
+    }
+
     // Organization workspace analytics + data feeds
     if (path.includes('/workspace')) {
       const pathParts = path.split('/').filter(Boolean);
@@ -399,7 +984,10 @@ export async function handleOrganizations(request: Request, env: Env): Promise<R
                    updated_at as updatedAt,
                    last_active as lastActive,
                    closed_at as closedAt,
-                   user_id as userId
+                   user_id as userId,
+                   takeover_user_id as takeoverUserId,
+                   takeover_user_name as takeoverUserName,
+                   takeover_started_at as takeoverStartedAt
               FROM chat_sessions
              WHERE organization_id = ?
              ${stateFilter ? 'AND state = ?' : ''}
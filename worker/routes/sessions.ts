@@ -5,6 +5,8 @@ import { SessionService } from '../services/SessionService.js';
 import { sessionRequestBodySchema } from '../schemas/validation.js';
 import { withOrganizationContext, getOrganizationId } from '../middleware/organizationContext.js';
 import { DEFAULT_ORGANIZATION_ID } from '../../src/utils/constants.js';
+import { OrganizationService } from '../services/OrganizationService.js';
+import { IntakeQuestionnaire } from '../agents/legal-intake/questionnaire.js';
 
 async function normalizeOrganizationId(env: Env, organizationId?: string | null): Promise<string> {
   if (!organizationId) {
@@ -181,5 +183,40 @@ export async function handleSessions(request: Request, env: Env): Promise<Respon
     return createJsonResponse(data);
   }
 
+  // GET /api/sessions/:id/questionnaire
+  if (segments.length === 4 && segments[3] === 'questionnaire' && request.method === 'GET') {
+    const sessionId = segments[2];
+    const requestWithContext = await withOrganizationContext(request, env, {
+      requireOrganization: false,
+      defaultOrganizationId: 'public'
+    });
+
+    const session = await SessionService.getSessionById(env, sessionId);
+    if (!session) {
+      throw HttpErrors.notFound('Session not found');
+    }
+
+    const contextOrganizationId = getOrganizationId(requestWithContext);
+    if (contextOrganizationId !== 'public') {
+      const requestedOrganization = await normalizeOrganizationId(env, contextOrganizationId);
+      if (requestedOrganization !== session.organizationId) {
+        throw HttpErrors.notFound('Session not found for requested organization');
+      }
+    }
+
+    const organization = await new OrganizationService(env).getOrganization(session.organizationId);
+    const progress = organization
+      ? await IntakeQuestionnaire.loadProgress(env, organization, session.id)
+      : null;
+
+    // Completion only; answer text stays server-side
+    return createJsonResponse({
+      sessionId: session.id,
+      questionnaire: progress
+        ? { ...progress, answers: progress.answers.map(({ questionId, question }) => ({ questionId, question })) }
+        : null
+    });
+  }
+
   throw HttpErrors.methodNotAllowed('Unsupported method for sessions endpoint');
 }
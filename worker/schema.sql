@@ -87,6 +87,21 @@ CREATE TABLE IF NOT EXISTS lawyers (
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Consultation availability per lawyer; bookings are matter_events of type 'meeting'
+CREATE TABLE IF NOT EXISTS lawyer_availability (
+  lawyer_id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'America/New_York', -- IANA time zone for working hours
+  working_hours JSON NOT NULL, -- { "mon": [{ "start": "09:00", "end": "17:00" }], ... }
+  blackout_dates JSON, -- Array of YYYY-MM-DD dates with no consultations
+  slot_minutes INTEGER NOT NULL DEFAULT 30,
+  min_notice_hours INTEGER NOT NULL DEFAULT 24,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_lawyer_availability_org ON lawyer_availability(organization_id);
+
 -- Matters table to represent legal matters
 CREATE TABLE IF NOT EXISTS matters (
   id TEXT PRIMARY KEY,
@@ -136,6 +151,8 @@ CREATE TABLE IF NOT EXISTS matter_events (
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+CREATE INDEX IF NOT EXISTS idx_matter_events_meetings ON matter_events(created_by_lawyer_id, event_type, event_date);
+
 -- Files table (replaces uploaded_files) - general-purpose file management
 CREATE TABLE IF NOT EXISTS files (
   id TEXT PRIMARY KEY,
@@ -185,9 +202,15 @@ CREATE TABLE IF NOT EXISTS matter_questions (
   question TEXT NOT NULL,
   answer TEXT NOT NULL,
   source TEXT DEFAULT 'ai-form', -- 'ai-form' | 'human-entry' | 'followup'
+  session_id TEXT, -- Intake session the answer came from (matter_id is set once the matter exists)
+  service TEXT, -- Service whose questionnaire the question belongs to
+  question_id TEXT, -- Question id within the service questionnaire
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+CREATE UNIQUE INDEX IF NOT EXISTS idx_matter_questions_session_question ON matter_questions(session_id, question_id);
+CREATE INDEX IF NOT EXISTS idx_matter_questions_matter ON matter_questions(matter_id);
+
 -- AI generated summaries table for markdown matter summaries
 CREATE TABLE IF NOT EXISTS ai_generated_summaries (
   id TEXT PRIMARY KEY,
@@ -267,6 +290,13 @@ CREATE TABLE IF NOT EXISTS chat_sessions (
   updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   last_active DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   closed_at DATETIME,
+  experiment_id TEXT, -- Intake experiment this session was assigned to
+  experiment_arm TEXT, -- Arm key within the experiment
+  urgent_at DATETIME, -- Set when a crisis (self-harm, imminent danger, domestic violence) is detected
+  urgent_reason TEXT, -- Comma-separated crisis categories
+  takeover_user_id TEXT, -- Staff member currently chatting in place of the AI agent
+  takeover_user_name TEXT, -- Display name shown to the client during a takeover
+  takeover_started_at DATETIME,
   UNIQUE(id, organization_id)
 );
 
@@ -274,6 +304,8 @@ CREATE INDEX IF NOT EXISTS idx_chat_sessions_team_state ON chat_sessions(organiz
 CREATE INDEX IF NOT EXISTS idx_chat_sessions_last_active ON chat_sessions(last_active);
 CREATE INDEX IF NOT EXISTS idx_chat_sessions_token_hash_organization ON chat_sessions(token_hash, organization_id);
 CREATE INDEX IF NOT EXISTS idx_chat_sessions_user ON chat_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_experiment ON chat_sessions(experiment_id, experiment_arm);
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_urgent ON chat_sessions(organization_id, urgent_at);
 
 -- Chat messages table for storing conversation messages
 CREATE TABLE IF NOT EXISTS chat_messages (
@@ -298,6 +330,7 @@ CREATE TABLE IF NOT EXISTS session_summaries (
   session_id TEXT NOT NULL,
   summary TEXT NOT NULL,
   token_count INTEGER,
+  message_count INTEGER NOT NULL DEFAULT 0, -- Leading messages folded into this summary
   created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -522,6 +555,126 @@ CREATE TABLE IF NOT EXISTS organization_events (
   created_at INTEGER DEFAULT (strftime('%s', 'now')) NOT NULL
 );
 
+-- Versioned system prompt templates per organization (latest version is active)
+CREATE TABLE IF NOT EXISTS organization_prompt_templates (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  content JSON NOT NULL, -- tone, requiredQuestions, disclaimers, practiceInstructions
+  note TEXT,
+  rolled_back_from INTEGER, -- Source version when this version is a rollback
+  created_by TEXT,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(organization_id, version)
+);
+
+-- Prompt/model A/B experiments; new chat sessions are split between the arms
+CREATE TABLE IF NOT EXISTS intake_experiments (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running', -- 'running', 'stopped'
+  arms JSON NOT NULL, -- [{ key, weight, promptTemplateVersion?, provider?, model? }]
+  created_by TEXT,
+  started_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  stopped_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_intake_experiments_org_status ON intake_experiments(organization_id, status);
+
+-- Organization knowledge base: FAQ text and uploaded documents the agent cites
+CREATE TABLE IF NOT EXISTS knowledge_documents (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  source_type TEXT NOT NULL DEFAULT 'faq', -- 'faq', 'document'
+  file_id TEXT, -- files.id when the text was extracted from an upload
+  content TEXT NOT NULL,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  created_by TEXT,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Retrieval units of a knowledge document with their embeddings
+CREATE TABLE IF NOT EXISTS knowledge_chunks (
+  id TEXT PRIMARY KEY,
+  document_id TEXT NOT NULL,
+  organization_id TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding JSON NOT NULL, -- Array of numbers
+  embedding_model TEXT NOT NULL, -- Only chunks embedded by the active model are searched
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (document_id) REFERENCES knowledge_documents(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_org ON knowledge_documents(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_org_model ON knowledge_chunks(organization_id, embedding_model);
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_document ON knowledge_chunks(document_id);
+
+-- Every agent tool invocation, with arguments sanitized of sensitive fields
+CREATE TABLE IF NOT EXISTS tool_call_audit (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT,
+  session_id TEXT,
+  correlation_id TEXT,
+  tool_name TEXT NOT NULL,
+  arguments JSON, -- Sanitized tool arguments
+  outcome TEXT NOT NULL, -- 'success', 'failure', 'error', 'blocked'
+  error_message TEXT,
+  latency_ms INTEGER,
+  model TEXT, -- Model that requested the call, when one did
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_tool_call_audit_org_created ON tool_call_audit(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tool_call_audit_session ON tool_call_audit(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tool_call_audit_tool_created ON tool_call_audit(tool_name, created_at DESC);
+
+-- One row per metered model call of the intake agent
+CREATE TABLE IF NOT EXISTS ai_usage_events (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  session_id TEXT,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_org_created ON ai_usage_events(organization_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_session_created ON ai_usage_events(session_id, created_at);
+
+-- Daily per-organization usage rollup; monthly tier quotas are summed from it
+CREATE TABLE IF NOT EXISTS organization_usage_daily (
+  organization_id TEXT NOT NULL,
+  usage_date TEXT NOT NULL, -- YYYY-MM-DD (UTC)
+  conversations INTEGER NOT NULL DEFAULT 0, -- Sessions with their first metered turn of the month on this day
+  turns INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_latency_ms INTEGER NOT NULL DEFAULT 0,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (organization_id, usage_date)
+);
+
+-- Trace of each intake pipeline run, keyed to the user message that triggered it
+CREATE TABLE IF NOT EXISTS pipeline_traces (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT,
+  session_id TEXT NOT NULL,
+  message_id TEXT, -- chat_messages.id of the user message
+  responded_by TEXT, -- Middleware that sent a canned response; NULL when the AI answered
+  duration_ms INTEGER NOT NULL,
+  steps JSON NOT NULL, -- Per-middleware name, duration, outcome, changed context fields and error
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_traces_session ON pipeline_traces(session_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pipeline_traces_message ON pipeline_traces(message_id);
+
 -- Sessions table for Better Auth
 CREATE TABLE IF NOT EXISTS sessions (
   id TEXT PRIMARY KEY,
@@ -585,6 +738,7 @@ CREATE INDEX IF NOT EXISTS idx_member_user ON members(user_id);
 CREATE INDEX IF NOT EXISTS idx_invitations_email ON invitations(email);
 CREATE INDEX IF NOT EXISTS idx_invitations_organization ON invitations(organization_id);
 CREATE INDEX IF NOT EXISTS idx_org_events_org_created ON organization_events(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_org_prompt_templates_org_version ON organization_prompt_templates(organization_id, version DESC);
 
 -- Create indexes for user_id columns
 CREATE INDEX IF NOT EXISTS idx_conversations_user ON conversations(user_id);
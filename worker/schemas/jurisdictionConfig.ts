@@ -3,6 +3,8 @@
  * Defines the geographic scope and service areas for legal organizations
  */
 
+import { isSameCity, isSameCounty, type ResolvedLocation } from '../utils/usGeography.js';
+
 export interface JurisdictionConfig {
   /** Type of jurisdiction coverage */
   type: 'national' | 'state' | 'multi_state' | 'county' | 'city';
@@ -188,6 +190,41 @@ export class JurisdictionValidator {
     return false;
   }
   
+  /**
+   * Check a location normalized through the offline geography dataset. Unlike
+   * isLocationSupported, county and city jurisdictions are held to their counties
+   * and cities, not just their states. Returns null when the location is not
+   * precise enough to tell (e.g. only the state is known for a county jurisdiction).
+   */
+  static checkResolvedLocation(location: ResolvedLocation, config: JurisdictionConfig): boolean | null {
+    if (location.country && config.supportedCountries?.length && !config.supportedCountries.includes(location.country)) {
+      return false;
+    }
+    if (config.type === 'national') {
+      return true;
+    }
+
+    if (!location.state) {
+      return null;
+    }
+    const supportedStates = config.supportedStates?.map(state => state.toUpperCase());
+    if (supportedStates?.length && !supportedStates.includes(location.state)) {
+      return false;
+    }
+
+    if (config.type === 'county') {
+      return location.county
+        ? (config.supportedCounties ?? []).some(county => isSameCounty(county, location.county!))
+        : null;
+    }
+    if (config.type === 'city') {
+      return location.city
+        ? (config.supportedCities ?? []).some(city => isSameCity(city, location.city!))
+        : null;
+    }
+    return supportedStates?.length ? true : null;
+  }
+  
   /**
    * Get jurisdiction warning message
    */
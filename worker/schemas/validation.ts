@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import {
+  REQUIRED_MIDDLEWARES,
+  getMiddlewareOptionsSchema,
+  isPipelineMiddlewareName
+} from '../middleware/registry.js';
+import { findUnsafePatternReason } from '../utils/safeRegex.js';
+import { isTrustedTransportUrl } from '../utils/domain.js';
 
 // Base schemas
 export const idSchema = z.string().min(1);
@@ -60,8 +67,209 @@ export const matterUpdateSchema = z.object({
 });
 
 // Organization schemas
+export const organizationAIProviderSchema = z.object({
+  type: z.enum(['workers-ai', 'openai-compatible', 'local']).optional(),
+  format: z.enum(['input', 'chat']).optional(),
+  // Plain HTTP is allowed only for self-hosted servers on loopback or private networks
+  baseUrl: z.string().url().refine(isTrustedTransportUrl, {
+    message: 'Provider baseUrl must use HTTPS, or HTTP to a localhost or private-network host'
+  }).optional(),
+  apiKey: z.string().min(1).optional().nullable(),
+  headers: z.record(z.string(), z.string()).optional(),
+  responseText: z.string().min(1).optional(),
+  script: z.array(z.object({
+    text: z.string().optional(),
+    toolCalls: z.array(z.object({
+      name: z.string().min(1),
+      arguments: z.record(z.string(), z.unknown())
+    })).optional()
+  })).optional()
+}).refine(provider => provider.type !== 'openai-compatible' || Boolean(provider.baseUrl), {
+  message: 'openai-compatible providers require a baseUrl',
+  path: ['baseUrl']
+});
+
+const RESERVED_TOOL_NAMES = ['create_matter', 'show_contact_form', 'request_lawyer_review', 'create_payment_invoice', 'schedule_consultation'];
+
+const intakeStateSchema = z.enum([
+  'INITIAL',
+  'GATHERING_INFORMATION',
+  'QUALIFYING_LEAD',
+  'SHOWING_CONTACT_FORM',
+  'READY_TO_CREATE_MATTER',
+  'CREATING_MATTER',
+  'COMPLETED'
+]);
+
+// Organization-supplied regular expressions run on every chat turn, so they are vetted on save
+const safePatternSchema = z.string().min(1).superRefine((pattern, ctx) => {
+  const reason = findUnsafePatternReason(pattern, 'i');
+  if (reason) {
+    ctx.addIssue({ code: 'custom', message: reason });
+  }
+});
+
+const toolParameterPropertySchema = z.object({
+  type: z.enum(['string', 'number', 'boolean', 'array', 'object']),
+  description: z.string().min(1),
+  enum: z.array(z.string()).optional(),
+  pattern: safePatternSchema.optional(),
+  minLength: z.number().int().min(0).optional(),
+  maxLength: z.number().int().positive().optional(),
+  minimum: z.number().optional(),
+  maximum: z.number().optional()
+}).passthrough();
+
+export const organizationWebhookToolSchema = z.object({
+  name: z.string()
+    .regex(/^[a-z][a-z0-9_]{2,63}$/, 'Tool names must be snake_case')
+    .refine(name => !RESERVED_TOOL_NAMES.includes(name), { message: 'Tool name is reserved by a built-in tool' }),
+  description: z.string().min(1).max(500),
+  parameters: z.object({
+    type: z.literal('object'),
+    properties: z.record(z.string(), toolParameterPropertySchema),
+    required: z.array(z.string()).optional(),
+    additionalProperties: z.boolean().optional()
+  }).refine(parameters => (parameters.required ?? []).every(field => field in parameters.properties), {
+    message: 'Required fields must be declared in properties'
+  }),
+  endpoint: z.string().url().refine(value => value.startsWith('https://'), {
+    message: 'Webhook tool endpoint must use HTTPS'
+  }),
+  signingSecret: z.string().min(16),
+  allowedStates: z.array(intakeStateSchema).optional(),
+  timeoutMs: z.number().int().min(500).max(15000).optional()
+});
+
+export const limitationPeriodSchema = z.object({
+  years: z.number().int().min(0).max(30).optional(),
+  months: z.number().int().min(0).max(120).optional(),
+  days: z.number().int().min(0).max(3650).optional(),
+  description: z.string().min(1).max(200)
+}).refine(period => (period.years ?? 0) + (period.months ?? 0) + (period.days ?? 0) > 0, {
+  message: 'Limitation period must be longer than zero'
+});
+
+export const crisisResourceSchema = z.object({
+  name: z.string().min(1).max(120),
+  phone: z.string().min(3).max(40).optional(),
+  text: z.string().min(1).max(120).optional(),
+  url: z.string().url().optional(),
+  categories: z.array(z.enum(['self_harm', 'imminent_danger', 'domestic_violence'])).min(1).optional(),
+  states: z.array(z.string().regex(/^[A-Z]{2}$/, 'Use two-letter state codes')).min(1).optional()
+}).refine(resource => Boolean(resource.phone || resource.text || resource.url), {
+  message: 'Crisis resources need a phone number, text line or URL'
+});
+
+const stateCodeSchema = z.string().regex(/^[A-Z]{2}$/, 'Use two-letter state codes');
+
+export const complianceRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]{1,64}$/, 'Rule ids use lowercase letters, digits, - and _'),
+  category: z.enum(['outcome_prediction', 'legal_conclusion']),
+  pattern: safePatternSchema,
+  action: z.enum(['rewrite', 'flag']).optional(),
+  replacement: z.string().min(1).max(500).optional(),
+  states: z.array(stateCodeSchema).min(1).optional()
+});
+
+const contentPolicyCategorySchema = z.enum([
+  'jailbreak_attempt',
+  'non_legal_request',
+  'abusive_content',
+  'spam_content',
+  'blocked_term'
+]);
+
+export const contentPolicySchema = z.object({
+  blockedTerms: z.array(z.string().trim().min(2).max(100)).max(200).optional(),
+  allowedPhrases: z.array(z.string().trim().min(2).max(100)).max(200).optional(),
+  refusalMessages: z.partialRecord(contentPolicyCategorySchema, z.string().trim().min(1).max(1000)).optional(),
+  severities: z.partialRecord(contentPolicyCategorySchema, z.enum(['block', 'flag', 'off'])).optional()
+}).strict();
+
+// Dry run of a content policy (POST /api/organizations/{org}/content-policy/test)
+export const contentPolicyTestSchema = z.object({
+  messages: z.array(z.string().min(1).max(4000)).min(1).max(20),
+  // Policy to test instead of the saved one
+  policy: contentPolicySchema.optional()
+});
+
+export const pipelineStepSchema = z.object({
+  name: z.string().refine(isPipelineMiddlewareName, { message: 'Unknown pipeline middleware' }),
+  enabled: z.boolean().optional(),
+  options: z.record(z.string(), z.unknown()).optional()
+}).superRefine((step, ctx) => {
+  if (!isPipelineMiddlewareName(step.name)) {
+    return;
+  }
+  if (step.enabled === false && REQUIRED_MIDDLEWARES.includes(step.name)) {
+    ctx.addIssue({ code: 'custom', path: ['enabled'], message: `${step.name} cannot be disabled` });
+  }
+  if (step.options === undefined) {
+    return;
+  }
+  const optionsSchema = getMiddlewareOptionsSchema(step.name);
+  if (!optionsSchema) {
+    ctx.addIssue({ code: 'custom', path: ['options'], message: `${step.name} does not take options` });
+    return;
+  }
+  const parsed = optionsSchema.safeParse(step.options);
+  if (!parsed.success) {
+    parsed.error.issues.forEach(issue => {
+      ctx.addIssue({ code: 'custom', path: ['options', ...issue.path.map(String)], message: issue.message });
+    });
+  }
+});
+
 export const organizationConfigSchema = z.object({
   aiModel: z.string().min(1),
+  aiProviders: z.record(z.string().regex(/^[a-z0-9-]+$/), organizationAIProviderSchema).optional(),
+  webhookTools: z.array(organizationWebhookToolSchema).max(20)
+    .refine(tools => new Set(tools.map(tool => tool.name)).size === tools.length, {
+      message: 'Webhook tool names must be unique'
+    })
+    .optional(),
+  conflictCheck: z.object({
+    enabled: z.boolean().optional(),
+    blockAutoAcceptance: z.boolean().optional(),
+    similarityThreshold: z.number().min(0.5).max(1).optional()
+  }).optional(),
+  deadlines: z.object({
+    enabled: z.boolean().optional(),
+    limitationRules: z.record(z.string().min(1), z.record(
+      z.string().regex(/^([A-Z]{2}|\*)$/, 'Use a two-letter state code or *'),
+      limitationPeriodSchema
+    )).optional(),
+    warningDays: z.number().int().min(1).max(3650).optional(),
+    urgentDays: z.number().int().min(1).max(365).optional()
+  }).refine(config => (config.urgentDays ?? 30) <= (config.warningDays ?? 180), {
+    message: 'urgentDays cannot exceed warningDays',
+    path: ['urgentDays']
+  }).optional(),
+  crisis: z.object({
+    enabled: z.boolean().optional(),
+    onCallEmails: z.array(emailSchema).max(10).optional(),
+    resources: z.array(crisisResourceSchema).max(25).optional(),
+    includeDefaultResources: z.boolean().optional()
+  }).optional(),
+  compliance: z.object({
+    enabled: z.boolean().optional(),
+    disclaimer: z.string().min(1).max(1000).optional(),
+    jurisdictionDisclaimers: z.record(stateCodeSchema, z.string().min(1).max(1000)).optional(),
+    disclaimerMode: z.enum(['always', 'legal_information', 'when_flagged']).optional(),
+    rules: z.array(complianceRuleSchema).max(50)
+      .refine(rules => new Set(rules.map(rule => rule.id)).size === rules.length, {
+        message: 'Compliance rule ids must be unique'
+      })
+      .optional(),
+    includeDefaultRules: z.boolean().optional()
+  }).optional(),
+  contentPolicy: contentPolicySchema.optional(),
+  pipeline: z.array(pipelineStepSchema).max(20)
+    .refine(steps => new Set(steps.map(step => step.name)).size === steps.length, {
+      message: 'Pipeline middlewares must be unique'
+    })
+    .optional(),
   consultationFee: z.number().min(0),
   requiresPayment: z.boolean(),
   ownerEmail: emailSchema,
@@ -122,6 +330,140 @@ export const organizationUpdateSchema = z.object({
   seats: seatsSchema.optional()
 });
 
+// Organization prompt template schemas
+export const promptTemplateContentSchema = z.object({
+  tone: z.string().max(1000).optional(),
+  requiredQuestions: z.array(z.string().min(1).max(300)).max(15).optional(),
+  disclaimers: z.string().max(2000).optional(),
+  practiceInstructions: z.string().max(4000).optional()
+}).strict();
+
+export const promptTemplateUpdateSchema = z.object({
+  content: promptTemplateContentSchema,
+  note: z.string().max(200).optional()
+});
+
+export const promptTemplateRollbackSchema = z.object({
+  version: z.number().int().positive()
+});
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, 'Use HH:MM (24-hour) times');
+
+const workingWindowSchema = z.object({
+  start: timeOfDaySchema,
+  end: timeOfDaySchema
+}).refine(window => window.start < window.end, { message: 'Working hours must end after they start', path: ['end'] });
+
+const workingDaySchema = z.array(workingWindowSchema).max(6).optional();
+
+export const lawyerAvailabilitySchema = z.object({
+  timezone: z.string().min(1).refine(timezone => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, { message: 'Unknown time zone' }),
+  workingHours: z.object({
+    sun: workingDaySchema,
+    mon: workingDaySchema,
+    tue: workingDaySchema,
+    wed: workingDaySchema,
+    thu: workingDaySchema,
+    fri: workingDaySchema,
+    sat: workingDaySchema
+  }).strict(),
+  blackoutDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD dates')).max(366).default([]),
+  slotMinutes: z.number().int().min(15).max(240).default(30),
+  minNoticeHours: z.number().int().min(0).max(336).default(24)
+});
+
+export const sessionTakeoverMessageSchema = z.object({
+  content: z.string().trim().min(1, 'Message cannot be empty').max(4000)
+});
+
+// Organization knowledge base schemas
+export const knowledgeDocumentCreateSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  sourceType: z.enum(['faq', 'document']).default('faq'),
+  content: z.string().trim().min(1).max(200000).optional(),
+  fileId: z.string().min(1).optional()
+}).refine(body => Boolean(body.content) !== Boolean(body.fileId), {
+  message: 'Provide either content or fileId',
+  path: ['content']
+}).refine(body => Boolean(body.title) || Boolean(body.fileId), {
+  message: 'Title is required for pasted content',
+  path: ['title']
+});
+
+export const knowledgeSearchSchema = z.object({
+  query: z.string().trim().min(1).max(1000),
+  limit: z.number().int().min(1).max(10).optional()
+});
+
+// Tool call audit query parameters (GET /api/organizations/{org}/tool-calls)
+export const toolCallAuditQuerySchema = z.object({
+  sessionId: z.string().min(1).optional(),
+  toolName: z.string().min(1).max(100).optional(),
+  outcome: z.enum(['success', 'failure', 'error', 'blocked']).optional(),
+  since: z.string().datetime().optional(),
+  until: z.string().datetime().optional(),
+  before: z.string().datetime().optional(),
+  beforeId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional()
+}).refine(query => !query.beforeId || Boolean(query.before), {
+  message: 'beforeId requires before',
+  path: ['beforeId']
+});
+
+// Pipeline trace query parameters (GET /api/organizations/{org}/pipeline-traces)
+export const pipelineTraceQuerySchema = z.object({
+  sessionId: z.string().min(1),
+  limit: z.coerce.number().int().min(1).max(100).optional()
+});
+
+// Usage query parameters (GET /api/organizations/{org}/usage)
+export const usageQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional()
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'from must not be after to',
+  path: ['from']
+});
+
+export const promptTemplatePreviewSchema = z.object({
+  content: promptTemplateContentSchema.optional(),
+  version: z.number().int().positive().optional(),
+  messages: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string().min(1).max(4000)
+  })).max(50).optional()
+});
+
+// Intake experiment schemas
+export const experimentArmSchema = z.object({
+  key: z.string().regex(/^[A-Za-z0-9_-]{1,32}$/, { error: 'Arm key must be 1-32 letters, digits, dashes or underscores' }),
+  weight: z.number().int().min(1).max(100).default(50),
+  promptTemplateVersion: z.number().int().positive().optional(),
+  provider: z.string().min(1).max(100).optional(),
+  model: z.string().min(1).max(200).optional()
+}).strict();
+
+export const experimentCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  arms: z.array(experimentArmSchema).length(2, { error: 'Experiments compare exactly two arms' })
+}).refine(
+  experiment => new Set(experiment.arms.map(arm => arm.key)).size === experiment.arms.length,
+  { error: 'Arm keys must be unique', path: ['arms'] }
+).refine(
+  ({ arms: [first, second] }) => !first || !second ||
+    first.promptTemplateVersion !== second.promptTemplateVersion ||
+    first.provider !== second.provider ||
+    first.model !== second.model,
+  { error: 'Arms must differ in prompt template version or model', path: ['arms'] }
+);
+
 // Form schemas
 export const contactFormSchema = z.object({
   organizationId: idSchema,
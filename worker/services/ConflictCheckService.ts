@@ -0,0 +1,303 @@
+import type { Env } from '../types.js';
+import type { OrganizationConflictCheckConfig } from './OrganizationService.js';
+import { Logger } from '../utils/logger.js';
+
+export const DEFAULT_CONFLICT_SIMILARITY_THRESHOLD = 0.85;
+export const CONFLICT_TAG = 'potential_conflict';
+
+// Only the most recent records are screened; older history belongs in the firm's practice management system
+const MAX_CANDIDATE_ROWS = 500;
+const MIN_NAME_LENGTH = 3;
+
+const IGNORED_NAME_TOKENS = new Set([
+  'mr', 'mrs', 'ms', 'miss', 'dr', 'jr', 'sr', 'ii', 'iii', 'iv', 'esq',
+  'the', 'inc', 'llc', 'llp', 'ltd', 'co', 'corp', 'corporation', 'company', 'pc', 'pllc'
+]);
+
+export type ConflictRole = 'client' | 'opposing_party';
+
+export type ConflictSource = 'matter' | 'contact_form';
+
+/**
+ * A single fuzzy match. `severity` is high when the match puts the new lead
+ * on the other side of someone the firm already represents or has spoken to;
+ * matches on the same side (e.g. a returning client) are kept as low severity.
+ */
+export interface ConflictHit {
+  source: ConflictSource;
+  recordId: string;
+  matterNumber?: string | null;
+  role: ConflictRole;            // which name on the new matter matched
+  matchedField: 'client_name' | 'opposing_party' | 'contact_name' | 'matter_details';
+  matchedName: string;
+  similarity: number;
+  severity: 'high' | 'low';
+}
+
+export interface ConflictCheckResult {
+  status: 'clear' | 'potential_conflict' | 'skipped';
+  checkedAt: string;
+  threshold: number;
+  hits: ConflictHit[];
+}
+
+export interface ConflictCheckInput {
+  organizationId: string;
+  clientName: string;
+  opposingParty?: string | null;
+  excludeMatterId?: string;
+}
+
+// ============================================================================
+// NAME MATCHING
+// ============================================================================
+
+/**
+ * Lowercases, strips punctuation, honorifics and entity suffixes, drops
+ * single-letter initials and sorts tokens so "Smith, John A." equals "John Smith".
+ */
+export function normalizePartyName(name: string | null | undefined): string {
+  if (!name) {
+    return '';
+  }
+
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !IGNORED_NAME_TOKENS.has(token))
+    .sort()
+    .join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity in [0, 1] between two party names after normalization.
+ */
+export function partyNameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizePartyName(a);
+  const right = normalizePartyName(b);
+  if (left.length < MIN_NAME_LENGTH || right.length < MIN_NAME_LENGTH) {
+    return 0;
+  }
+
+  const distance = levenshtein(left, right);
+  return 1 - distance / Math.max(left.length, right.length);
+}
+
+/**
+ * Best similarity between `name` and any run of words in free text of the
+ * same length, so a party mentioned inside matter details can still match.
+ */
+export function bestMentionSimilarity(name: string, text: string | null | undefined): number {
+  const target = normalizePartyName(name);
+  if (!text || target.length < MIN_NAME_LENGTH) {
+    return 0;
+  }
+
+  const size = target.split(' ').length;
+  const words = text.replace(/[^\p{L}\p{N}\s'&.-]/gu, ' ').split(/\s+/).filter(Boolean);
+  let best = 0;
+  for (let i = 0; i + size <= words.length; i++) {
+    best = Math.max(best, partyNameSimilarity(name, words.slice(i, i + size).join(' ')));
+    if (best === 1) break;
+  }
+  return best;
+}
+
+function roundSimilarity(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+interface MatterCandidateRow {
+  id: string;
+  matter_number: string | null;
+  client_name: string | null;
+  opposing_party: string | null;
+}
+
+interface ContactFormCandidateRow {
+  id: string;
+  matter_details: string | null;
+  notes: string | null;
+}
+
+export class ConflictCheckService {
+  constructor(private env: Env) {}
+
+  static isEnabled(config: OrganizationConflictCheckConfig | undefined): boolean {
+    return config?.enabled !== false;
+  }
+
+  static shouldBlockAutoAcceptance(
+    config: OrganizationConflictCheckConfig | undefined,
+    result: ConflictCheckResult
+  ): boolean {
+    return Boolean(config?.blockAutoAcceptance) && result.status === 'potential_conflict';
+  }
+
+  /**
+   * Screens a new lead against existing matters and contact form submissions
+   * in the same organization. Lookup failures are logged and reported as
+   * `skipped` so intake is never blocked by the check itself.
+   */
+  async check(input: ConflictCheckInput, config?: OrganizationConflictCheckConfig): Promise<ConflictCheckResult> {
+    const threshold = config?.similarityThreshold ?? DEFAULT_CONFLICT_SIMILARITY_THRESHOLD;
+    const checkedAt = new Date().toISOString();
+
+    try {
+      const [matters, contactForms] = await Promise.all([
+        this.env.DB.prepare(`
+          SELECT id, matter_number, client_name, opposing_party
+          FROM matters
+          WHERE organization_id = ? AND id != ?
+          ORDER BY created_at DESC
+          LIMIT ?
+        `).bind(input.organizationId, input.excludeMatterId ?? '', MAX_CANDIDATE_ROWS).all<MatterCandidateRow>(),
+        this.env.DB.prepare(`
+          SELECT id, matter_details, notes
+          FROM contact_forms
+          WHERE organization_id = ?
+          ORDER BY created_at DESC
+          LIMIT ?
+        `).bind(input.organizationId, MAX_CANDIDATE_ROWS).all<ContactFormCandidateRow>()
+      ]);
+
+      const hits = [
+        ...this.matchMatters(input, matters.results ?? [], threshold),
+        ...this.matchContactForms(input, contactForms.results ?? [], threshold)
+      ].sort((a, b) => (a.severity === b.severity ? b.similarity - a.similarity : a.severity === 'high' ? -1 : 1));
+
+      return {
+        status: hits.some(hit => hit.severity === 'high') ? 'potential_conflict' : 'clear',
+        checkedAt,
+        threshold,
+        hits
+      };
+    } catch (error) {
+      Logger.warn('Conflict check failed', {
+        organizationId: input.organizationId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return { status: 'skipped', checkedAt, threshold, hits: [] };
+    }
+  }
+
+  private matchMatters(input: ConflictCheckInput, rows: MatterCandidateRow[], threshold: number): ConflictHit[] {
+    const hits: ConflictHit[] = [];
+    const parties: Array<[ConflictRole, string | null | undefined]> = [
+      ['client', input.clientName],
+      ['opposing_party', input.opposingParty]
+    ];
+
+    for (const row of rows) {
+      for (const [role, name] of parties) {
+        if (!name) continue;
+
+        for (const field of ['client_name', 'opposing_party'] as const) {
+          const similarity = partyNameSimilarity(name, row[field]);
+          if (similarity < threshold) continue;
+
+          // Client vs. existing opposing party (or the reverse) is adverse; same-side matches are informational
+          const adverse = (role === 'client') !== (field === 'client_name');
+          hits.push({
+            source: 'matter',
+            recordId: row.id,
+            matterNumber: row.matter_number,
+            role,
+            matchedField: field,
+            matchedName: row[field] as string,
+            similarity: roundSimilarity(similarity),
+            severity: adverse ? 'high' : 'low'
+          });
+        }
+      }
+    }
+
+    return hits;
+  }
+
+  /**
+   * Contact form submitters are prospective clients, so the new opposing party
+   * matching a submitter — or the new client being named in someone's matter
+   * details — is treated as adverse.
+   */
+  private matchContactForms(input: ConflictCheckInput, rows: ContactFormCandidateRow[], threshold: number): ConflictHit[] {
+    const hits: ConflictHit[] = [];
+
+    for (const row of rows) {
+      const submitterName = this.parseSubmitterName(row.notes);
+
+      if (submitterName) {
+        const parties: Array<[ConflictRole, string | null | undefined]> = [
+          ['client', input.clientName],
+          ['opposing_party', input.opposingParty]
+        ];
+        for (const [role, name] of parties) {
+          if (!name) continue;
+          const similarity = partyNameSimilarity(name, submitterName);
+          if (similarity < threshold) continue;
+          hits.push({
+            source: 'contact_form',
+            recordId: row.id,
+            role,
+            matchedField: 'contact_name',
+            matchedName: submitterName,
+            similarity: roundSimilarity(similarity),
+            severity: role === 'opposing_party' ? 'high' : 'low'
+          });
+        }
+      }
+
+      const mentionSimilarity = bestMentionSimilarity(input.clientName, row.matter_details);
+      if (mentionSimilarity >= threshold && partyNameSimilarity(input.clientName, submitterName) < threshold) {
+        hits.push({
+          source: 'contact_form',
+          recordId: row.id,
+          role: 'client',
+          matchedField: 'matter_details',
+          matchedName: input.clientName,
+          similarity: roundSimilarity(mentionSimilarity),
+          severity: 'high'
+        });
+      }
+    }
+
+    return hits;
+  }
+
+  private parseSubmitterName(notes: string | null): string | null {
+    if (!notes) {
+      return null;
+    }
+    try {
+      const parsed = JSON.parse(notes) as { name?: unknown };
+      return typeof parsed?.name === 'string' ? parsed.name : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -107,7 +107,7 @@ export class ContactIntakeOrchestrator {
         location: matter.location || context.contactInfo?.location
       };
       context.conversationPhase = 'completed';
-      context.userIntent = 'intake';
+      context.userIntent = { ...context.userIntent, label: 'intake', confidence: 1 };
     }
 
     const caseDraft = buildFallbackCaseDraft(matter, context);
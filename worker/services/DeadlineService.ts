@@ -0,0 +1,388 @@
+import type { Env } from '../types.js';
+import type { Organization, OrganizationDeadlineConfig } from './OrganizationService.js';
+import { ConversationContextManager } from '../middleware/conversationContextManager.js';
+import { getStateName, validateLocation } from '../utils/locationValidator.js';
+import { Logger } from '../utils/logger.js';
+
+export const DEADLINE_TAG = 'deadline_near';
+export const DEFAULT_DEADLINE_WARNING_DAYS = 180;
+export const DEFAULT_DEADLINE_URGENT_DAYS = 30;
+
+// Rule tables use this key for a period that applies in every state
+const ANY_STATE = '*';
+const MAX_MESSAGES_SCANNED = 50;
+const MAX_INCIDENT_AGE_YEARS = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A limitation period, added to the incident date in the order years, months, days.
+ */
+export interface LimitationPeriod {
+  years?: number;
+  months?: number;
+  days?: number;
+  description: string;
+}
+
+/**
+ * Limitation periods keyed by matter type, then by two-letter state code or "*".
+ */
+export type LimitationRuleTable = Record<string, Record<string, LimitationPeriod>>;
+
+export type DeadlineStatus = 'expired' | 'urgent' | 'near' | 'ok';
+
+export type IncidentDateSource = 'case_draft' | 'messages' | 'description';
+
+export interface IncidentDate {
+  date: string;   // YYYY-MM-DD
+  text: string;   // the phrase the date was read from
+}
+
+export interface DeadlineEstimate {
+  matterType: string;
+  state: string;
+  incidentDate: string;
+  incidentSource: IncidentDateSource;
+  deadline: string;
+  daysRemaining: number;
+  status: DeadlineStatus;
+  period: LimitationPeriod;
+}
+
+export interface DeadlineIntakeInput {
+  organization: Organization | null;
+  organizationId?: string;
+  sessionId?: string;
+  matterType: string;
+  location?: string;
+  description?: string;
+  now?: Date;
+}
+
+/**
+ * General limitation periods used when the organization has not configured its own.
+ * These are starting points for staff review, not legal advice; tolling, discovery
+ * rules and claim-specific periods are left to the reviewing attorney.
+ */
+export const DEFAULT_LIMITATION_RULES: LimitationRuleTable = {
+  'Personal Injury': {
+    NC: { years: 3, description: 'North Carolina personal injury (N.C. Gen. Stat. § 1-52)' },
+    SC: { years: 3, description: 'South Carolina personal injury (S.C. Code § 15-3-530)' },
+    VA: { years: 2, description: 'Virginia personal injury (Va. Code § 8.01-243)' },
+    GA: { years: 2, description: 'Georgia personal injury (O.C.G.A. § 9-3-33)' },
+    TN: { years: 1, description: 'Tennessee personal injury (Tenn. Code § 28-3-104)' },
+    FL: { years: 2, description: 'Florida negligence (Fla. Stat. § 95.11)' },
+    CA: { years: 2, description: 'California personal injury (Cal. Civ. Proc. Code § 335.1)' },
+    TX: { years: 2, description: 'Texas personal injury (Tex. Civ. Prac. & Rem. Code § 16.003)' },
+    NY: { years: 3, description: 'New York personal injury (N.Y. C.P.L.R. § 214)' }
+  },
+  'Employment Law': {
+    [ANY_STATE]: { days: 180, description: 'EEOC discrimination charge' },
+    CA: { days: 300, description: 'EEOC discrimination charge (state agency extension)' },
+    NY: { days: 300, description: 'EEOC discrimination charge (state agency extension)' },
+    TX: { days: 300, description: 'EEOC discrimination charge (state agency extension)' }
+  }
+};
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const ORDINAL = '(?:st|nd|rd|th)?';
+const MONTH_PREFIXES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+};
+
+function monthIndex(name: string): number {
+  return MONTH_PREFIXES.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Builds a UTC date, rejecting impossible ones such as February 30.
+ */
+function utcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month && date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+/**
+ * Adds (or with sign -1, subtracts) a period. Month ends are clamped, so a
+ * February 29 incident plus one year lands on February 28.
+ */
+function shiftDate(date: Date, period: Omit<LimitationPeriod, 'description'>, sign: 1 | -1 = 1): Date {
+  const year = date.getUTCFullYear() + sign * (period.years ?? 0);
+  const month = date.getUTCMonth() + sign * (period.months ?? 0);
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const shifted = new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+  shifted.setUTCDate(shifted.getUTCDate() + sign * (period.days ?? 0));
+  return shifted;
+}
+
+function collectDates(text: string, now: Date): IncidentDate[] {
+  const today = startOfDay(now);
+  const found: IncidentDate[] = [];
+  const add = (date: Date | null, match: string) => {
+    if (date) {
+      found.push({ date: toDateString(date), text: match.trim() });
+    }
+  };
+
+  for (const match of text.matchAll(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g)) {
+    add(utcDate(Number(match[1]), Number(match[2]) - 1, Number(match[3])), match[0]);
+  }
+
+  for (const match of text.matchAll(/\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g)) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    add(utcDate(year, Number(match[1]) - 1, Number(match[2])), match[0]);
+  }
+
+  for (const match of text.matchAll(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})${ORDINAL},?\\s+(\\d{4})\\b`, 'gi'))) {
+    add(utcDate(Number(match[3]), monthIndex(match[1]), Number(match[2])), match[0]);
+  }
+
+  for (const match of text.matchAll(new RegExp(`\\b(\\d{1,2})${ORDINAL}\\s+(?:of\\s+)?${MONTH_PATTERN},?\\s+(\\d{4})\\b`, 'gi'))) {
+    add(utcDate(Number(match[3]), monthIndex(match[2]), Number(match[1])), match[0]);
+  }
+
+  // "March 2024" is read as the first of the month, the earliest it could be
+  for (const match of text.matchAll(new RegExp(`\\b${MONTH_PATTERN},?\\s+(\\d{4})\\b`, 'gi'))) {
+    add(utcDate(Number(match[2]), monthIndex(match[1]), 1), match[0]);
+  }
+
+  // "on March 3" / "in March" without a year is the most recent one that has passed
+  for (const match of text.matchAll(new RegExp(`\\b(?:on|in|since|around)\\s+${MONTH_PATTERN}(?:\\s+(\\d{1,2})${ORDINAL})?\\b`, 'gi'))) {
+    const month = monthIndex(match[1]);
+    const day = match[2] ? Number(match[2]) : 1;
+    const thisYear = utcDate(today.getUTCFullYear(), month, day);
+    add(thisYear && thisYear <= today ? thisYear : utcDate(today.getUTCFullYear() - 1, month, day), match[0]);
+  }
+
+  for (const match of text.matchAll(/\b(\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\s+(day|week|month|year)s?\s+ago\b/gi)) {
+    const amount = NUMBER_WORDS[match[1].toLowerCase()] ?? Number(match[1]);
+    const unit = match[2].toLowerCase();
+    add(shiftDate(today, {
+      years: unit === 'year' ? amount : 0,
+      months: unit === 'month' ? amount : 0,
+      days: unit === 'week' ? amount * 7 : unit === 'day' ? amount : 0
+    }, -1), match[0]);
+  }
+
+  for (const match of text.matchAll(/\blast\s+(week|month|year)\b/gi)) {
+    const unit = match[1].toLowerCase();
+    add(shiftDate(today, {
+      years: unit === 'year' ? 1 : 0,
+      months: unit === 'month' ? 1 : 0,
+      days: unit === 'week' ? 7 : 0
+    }, -1), match[0]);
+  }
+
+  for (const match of text.matchAll(/\byesterday\b/gi)) {
+    add(shiftDate(today, { days: 1 }, -1), match[0]);
+  }
+
+  return found;
+}
+
+/**
+ * Finds the incident date in free text. Future dates (hearings, appointments) and
+ * dates too old to be plausible are ignored; when several remain, the earliest is
+ * used so the estimated deadline errs on the early side.
+ */
+export function extractIncidentDate(text: string | null | undefined, now: Date = new Date()): IncidentDate | null {
+  if (!text) {
+    return null;
+  }
+
+  const today = toDateString(now);
+  const oldest = toDateString(shiftDate(startOfDay(now), { years: MAX_INCIDENT_AGE_YEARS }, -1));
+  const candidates = collectDates(text, now)
+    .filter(candidate => candidate.date <= today && candidate.date >= oldest)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return candidates[0] ?? null;
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+function findRuleTable(rules: LimitationRuleTable | undefined, matterType: string): Record<string, LimitationPeriod> | undefined {
+  if (!rules) {
+    return undefined;
+  }
+  const key = Object.keys(rules).find(candidate => candidate.toLowerCase() === matterType.trim().toLowerCase());
+  return key ? rules[key] : undefined;
+}
+
+/**
+ * Looks up the limitation period for a matter type and state. A state-specific
+ * period (organization first, then the defaults) wins over a "*" period.
+ */
+export function resolveLimitationPeriod(
+  matterType: string,
+  state: string,
+  overrides?: LimitationRuleTable
+): LimitationPeriod | null {
+  const tables = [findRuleTable(overrides, matterType), findRuleTable(DEFAULT_LIMITATION_RULES, matterType)];
+  const code = state.toUpperCase();
+
+  return tables.find(table => table?.[code])?.[code]
+    ?? tables.find(table => table?.[ANY_STATE])?.[ANY_STATE]
+    ?? null;
+}
+
+/**
+ * Returns the first state code found in the candidates, which may be codes,
+ * state names or locations such as "Charlotte, NC".
+ */
+export function resolveState(candidates: ReadonlyArray<string | null | undefined>): string | null {
+  for (const candidate of candidates) {
+    const trimmed = candidate?.trim();
+    if (!trimmed) {
+      continue;
+    }
+    if (/^[a-z]{2}$/i.test(trimmed) && getStateName(trimmed)) {
+      return trimmed.toUpperCase();
+    }
+    const location = validateLocation(trimmed);
+    if (location.state) {
+      return location.state;
+    }
+  }
+  return null;
+}
+
+export function isDeadlineNear(estimate: DeadlineEstimate | null | undefined): boolean {
+  return Boolean(estimate && estimate.status !== 'ok');
+}
+
+export function estimateDeadline(input: {
+  matterType: string;
+  state: string;
+  incidentDate: string;
+  incidentSource: IncidentDateSource;
+  config?: OrganizationDeadlineConfig;
+  now?: Date;
+}): DeadlineEstimate | null {
+  const period = resolveLimitationPeriod(input.matterType, input.state, input.config?.limitationRules);
+  const [year, month, day] = input.incidentDate.split('-').map(Number);
+  const incident = utcDate(year, month - 1, day);
+  if (!period || !incident) {
+    return null;
+  }
+
+  const deadline = shiftDate(incident, period);
+  const daysRemaining = Math.round((deadline.getTime() - startOfDay(input.now ?? new Date()).getTime()) / DAY_MS);
+  const urgentDays = input.config?.urgentDays ?? DEFAULT_DEADLINE_URGENT_DAYS;
+  const warningDays = input.config?.warningDays ?? DEFAULT_DEADLINE_WARNING_DAYS;
+
+  return {
+    matterType: input.matterType,
+    state: input.state.toUpperCase(),
+    incidentDate: input.incidentDate,
+    incidentSource: input.incidentSource,
+    deadline: toDateString(deadline),
+    daysRemaining,
+    status: daysRemaining < 0 ? 'expired'
+      : daysRemaining <= urgentDays ? 'urgent'
+        : daysRemaining <= warningDays ? 'near'
+          : 'ok',
+    period
+  };
+}
+
+/**
+ * Estimates the filing deadline for a matter from the intake conversation. The
+ * incident date comes from the case draft timeline, then the client's messages,
+ * then the matter description; the state from the client's location, then the
+ * organization's jurisdiction.
+ */
+export class DeadlineService {
+  constructor(private env: Env) {}
+
+  async estimateForIntake(input: DeadlineIntakeInput): Promise<DeadlineEstimate | null> {
+    const config = input.organization?.config?.deadlines;
+    if (config?.enabled === false) {
+      return null;
+    }
+
+    try {
+      const now = input.now ?? new Date();
+      const caseDraft = input.sessionId && input.organizationId
+        ? (await ConversationContextManager.load(input.sessionId, input.organizationId, this.env)).caseDraft
+        : undefined;
+
+      const jurisdiction = input.organization?.config?.jurisdiction;
+      const supportedStates = (jurisdiction?.supportedStates ?? []).filter(state => state !== 'all');
+      const state = resolveState([
+        input.location,
+        caseDraft?.jurisdiction,
+        jurisdiction?.primaryState,
+        supportedStates.length === 1 ? supportedStates[0] : undefined
+      ]);
+      if (!state || !resolveLimitationPeriod(input.matterType, state, config?.limitationRules)) {
+        return null;
+      }
+
+      const messages = await this.loadClientMessages(input.sessionId, input.organizationId);
+      const sources: Array<[IncidentDateSource, string | undefined]> = [
+        ['case_draft', caseDraft?.timeline],
+        ['messages', messages.join('\n')],
+        ['description', input.description]
+      ];
+
+      for (const [source, text] of sources) {
+        const incident = extractIncidentDate(text, now);
+        if (incident) {
+          return estimateDeadline({
+            matterType: input.matterType,
+            state,
+            incidentDate: incident.date,
+            incidentSource: source,
+            config,
+            now
+          });
+        }
+      }
+
+      return null;
+    } catch (error) {
+      Logger.warn('Failed to estimate matter deadline', {
+        organizationId: input.organizationId,
+        sessionId: input.sessionId,
+        matterType: input.matterType,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  private async loadClientMessages(sessionId?: string, organizationId?: string): Promise<string[]> {
+    if (!sessionId || !organizationId) {
+      return [];
+    }
+
+    const rows = await this.env.DB.prepare(`
+      SELECT content
+      FROM chat_messages
+      WHERE session_id = ? AND organization_id = ? AND role = 'user'
+      ORDER BY created_at ASC
+      LIMIT ?
+    `).bind(sessionId, organizationId, MAX_MESSAGES_SCANNED).all<{ content: string }>();
+
+    return (rows.results ?? []).map(row => row.content);
+  }
+}
@@ -2,7 +2,13 @@
 export class EmailService {
   constructor(private apiKey: string) {}
   
-  async send(email: { from: string; to: string; subject: string; text: string }) {
+  async send(email: {
+    from: string;
+    to: string;
+    subject: string;
+    text: string;
+    attachments?: Array<{ filename: string; content: string; content_type?: string }>; // content is base64
+  }) {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), 10000); // 10 second timeout
     
@@ -0,0 +1,364 @@
+import type { Env } from '../types.js';
+import { Logger } from '../utils/logger.js';
+import { ConversationState, INTAKE_STATE_AUDIT_EVENT } from '../agents/legal-intake/intakeStateMachine.js';
+
+export type ExperimentStatus = 'running' | 'stopped';
+
+/**
+ * One side of an experiment. Unset fields fall back to the organization's
+ * active prompt template and configured model.
+ */
+export interface ExperimentArm {
+  key: string;
+  weight: number;
+  promptTemplateVersion?: number;
+  provider?: string;
+  model?: string;
+}
+
+export interface IntakeExperiment {
+  id: string;
+  organizationId: string;
+  name: string;
+  status: ExperimentStatus;
+  arms: ExperimentArm[];
+  createdBy: string | null;
+  startedAt: string;
+  stoppedAt: string | null;
+}
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  arm: ExperimentArm;
+}
+
+export interface ExperimentArmMetrics {
+  arm: string;
+  sessions: number;
+  contactFormShown: number;
+  contactFormRate: number;
+  mattersCreated: number;
+  matterRate: number;
+  invoicesPaid: number;
+  paidRate: number;
+  feedbackCount: number;
+  averageRating: number | null;
+  thumbsUp: number;
+  thumbsDown: number;
+  averageTurns: number;
+}
+
+interface ExperimentRow {
+  id: string;
+  organization_id: string;
+  name: string;
+  status: ExperimentStatus;
+  arms: string;
+  created_by: string | null;
+  started_at: string;
+  stopped_at: string | null;
+}
+
+interface OutcomeRow {
+  arm: string;
+  sessions: number;
+  contact_form_shown: number | null;
+  matters_created: number | null;
+  invoices_paid: number | null;
+  average_turns: number | null;
+}
+
+interface FeedbackRow {
+  arm: string;
+  feedback_count: number;
+  average_rating: number | null;
+  thumbs_up: number | null;
+  thumbs_down: number | null;
+}
+
+function parseArms(raw: string): ExperimentArm[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed as ExperimentArm[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function mapRow(row: ExperimentRow): IntakeExperiment {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    name: row.name,
+    status: row.status,
+    arms: parseArms(row.arms),
+    createdBy: row.created_by,
+    startedAt: row.started_at,
+    stoppedAt: row.stopped_at
+  };
+}
+
+function rate(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 1000) / 1000 : 0;
+}
+
+/**
+ * Stable 32-bit FNV-1a hash, so a session always lands in the same arm.
+ */
+function hashKey(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Picks an arm for a session, weighted by `arm.weight`.
+ */
+export function pickExperimentArm(experimentId: string, sessionId: string, arms: readonly ExperimentArm[]): ExperimentArm | null {
+  const totalWeight = arms.reduce((total, arm) => total + Math.max(0, arm.weight), 0);
+  if (totalWeight <= 0) {
+    return null;
+  }
+
+  let bucket = hashKey(`${experimentId}:${sessionId}`) % totalWeight;
+  for (const arm of arms) {
+    const weight = Math.max(0, arm.weight);
+    if (bucket < weight) {
+      return arm;
+    }
+    bucket -= weight;
+  }
+  return null;
+}
+
+/**
+ * Prompt/model A/B experiments for the intake agent. One experiment runs per
+ * organization at a time; sessions created after it started are split between its
+ * arms and the arm is recorded on chat_sessions for outcome reporting.
+ */
+export class ExperimentService {
+  constructor(private env: Env) {}
+
+  async list(organizationId: string): Promise<IntakeExperiment[]> {
+    const rows = await this.env.DB.prepare(`
+      SELECT id, organization_id, name, status, arms, created_by, started_at, stopped_at
+      FROM intake_experiments
+      WHERE organization_id = ?
+      ORDER BY started_at DESC
+    `).bind(organizationId).all<ExperimentRow>();
+
+    return (rows.results ?? []).map(mapRow);
+  }
+
+  async get(organizationId: string, experimentId: string): Promise<IntakeExperiment | null> {
+    const row = await this.env.DB.prepare(`
+      SELECT id, organization_id, name, status, arms, created_by, started_at, stopped_at
+      FROM intake_experiments
+      WHERE organization_id = ? AND id = ?
+    `).bind(organizationId, experimentId).first<ExperimentRow>();
+
+    return row ? mapRow(row) : null;
+  }
+
+  async getRunning(organizationId: string): Promise<IntakeExperiment | null> {
+    const row = await this.env.DB.prepare(`
+      SELECT id, organization_id, name, status, arms, created_by, started_at, stopped_at
+      FROM intake_experiments
+      WHERE organization_id = ? AND status = 'running'
+      ORDER BY started_at DESC
+      LIMIT 1
+    `).bind(organizationId).first<ExperimentRow>();
+
+    return row ? mapRow(row) : null;
+  }
+
+  async create(
+    organizationId: string,
+    input: { name: string; arms: ExperimentArm[] },
+    createdBy?: string | null
+  ): Promise<IntakeExperiment> {
+    const experiment: IntakeExperiment = {
+      id: crypto.randomUUID(),
+      organizationId,
+      name: input.name,
+      status: 'running',
+      arms: input.arms,
+      createdBy: createdBy ?? null,
+      startedAt: new Date().toISOString(),
+      stoppedAt: null
+    };
+
+    await this.env.DB.prepare(`
+      INSERT INTO intake_experiments (id, organization_id, name, status, arms, created_by, started_at)
+      VALUES (?, ?, ?, 'running', ?, ?, ?)
+    `).bind(
+      experiment.id,
+      organizationId,
+      experiment.name,
+      JSON.stringify(experiment.arms),
+      experiment.createdBy,
+      experiment.startedAt
+    ).run();
+
+    return experiment;
+  }
+
+  /**
+   * Stops a running experiment. Sessions keep their arm, so metrics stay stable.
+   */
+  async stop(organizationId: string, experimentId: string): Promise<IntakeExperiment | null> {
+    await this.env.DB.prepare(`
+      UPDATE intake_experiments
+      SET status = 'stopped', stopped_at = ?
+      WHERE organization_id = ? AND id = ? AND status = 'running'
+    `).bind(new Date().toISOString(), organizationId, experimentId).run();
+
+    return this.get(organizationId, experimentId);
+  }
+
+  /**
+   * Returns the session's arm, assigning one if the session is new to the running
+   * experiment. Failures leave the session on the default prompt and model.
+   */
+  async assignSession(organizationId: string, sessionId: string): Promise<ExperimentAssignment | null> {
+    try {
+      const session = await this.env.DB.prepare(`
+        SELECT experiment_id, experiment_arm, created_at
+        FROM chat_sessions
+        WHERE id = ? AND organization_id = ?
+      `).bind(sessionId, organizationId).first<{
+        experiment_id: string | null;
+        experiment_arm: string | null;
+        created_at: string;
+      }>();
+
+      if (!session) {
+        return null;
+      }
+
+      if (session.experiment_id) {
+        const experiment = await this.get(organizationId, session.experiment_id);
+        const arm = experiment?.arms.find(candidate => candidate.key === session.experiment_arm);
+        return experiment && arm ? { experimentId: experiment.id, arm } : null;
+      }
+
+      const experiment = await this.getRunning(organizationId);
+      // Only sessions that started during the experiment are split
+      if (!experiment || session.created_at < experiment.startedAt) {
+        return null;
+      }
+
+      const arm = pickExperimentArm(experiment.id, sessionId, experiment.arms);
+      if (!arm) {
+        return null;
+      }
+
+      const result = await this.env.DB.prepare(`
+        UPDATE chat_sessions
+        SET experiment_id = ?, experiment_arm = ?
+        WHERE id = ? AND organization_id = ? AND experiment_id IS NULL
+      `).bind(experiment.id, arm.key, sessionId, organizationId).run();
+
+      const changes = ((result.meta ?? {}) as { changes?: number }).changes ?? 0;
+      if (changes === 0) {
+        return null;
+      }
+
+      Logger.info('Assigned session to intake experiment arm', {
+        organizationId,
+        sessionId,
+        experimentId: experiment.id,
+        arm: arm.key
+      });
+
+      return { experimentId: experiment.id, arm };
+    } catch (error) {
+      Logger.warn('Failed to resolve intake experiment arm', {
+        organizationId,
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Outcome metrics per arm: contact form shown, matter created, invoice paid,
+   * user feedback and average user turns per session.
+   */
+  async getMetrics(experiment: IntakeExperiment): Promise<ExperimentArmMetrics[]> {
+    const outcomes = await this.env.DB.prepare(`
+      SELECT
+        s.experiment_arm AS arm,
+        COUNT(*) AS sessions,
+        SUM(EXISTS (
+          SELECT 1 FROM session_audit_events e
+          WHERE e.session_id = s.id
+            AND e.event_type = ?
+            AND json_extract(e.payload, '$.to') = ?
+        )) AS contact_form_shown,
+        SUM(EXISTS (
+          SELECT 1 FROM matters m
+          WHERE m.organization_id = s.organization_id
+            AND json_extract(m.custom_fields, '$.sessionId') = s.id
+        )) AS matters_created,
+        SUM(EXISTS (
+          SELECT 1 FROM payment_history p
+          WHERE p.organization_id = s.organization_id
+            AND p.status = 'completed'
+            AND json_extract(p.metadata, '$.sessionId') = s.id
+        )) AS invoices_paid,
+        AVG((
+          SELECT COUNT(*) FROM chat_messages c
+          WHERE c.session_id = s.id AND c.role = 'user'
+        )) AS average_turns
+      FROM chat_sessions s
+      WHERE s.organization_id = ? AND s.experiment_id = ?
+      GROUP BY s.experiment_arm
+    `).bind(INTAKE_STATE_AUDIT_EVENT, ConversationState.SHOWING_CONTACT_FORM, experiment.organizationId, experiment.id).all<OutcomeRow>();
+
+    const feedback = await this.env.DB.prepare(`
+      SELECT
+        s.experiment_arm AS arm,
+        COUNT(f.id) AS feedback_count,
+        AVG(f.rating) AS average_rating,
+        SUM(CASE WHEN f.thumbs_up = 1 THEN 1 ELSE 0 END) AS thumbs_up,
+        SUM(CASE WHEN f.thumbs_up = 0 THEN 1 ELSE 0 END) AS thumbs_down
+      FROM ai_feedback f
+      JOIN chat_sessions s ON s.id = f.session_id
+      WHERE s.organization_id = ? AND s.experiment_id = ?
+      GROUP BY s.experiment_arm
+    `).bind(experiment.organizationId, experiment.id).all<FeedbackRow>();
+
+    const outcomeByArm = new Map((outcomes.results ?? []).map(row => [row.arm, row]));
+    const feedbackByArm = new Map((feedback.results ?? []).map(row => [row.arm, row]));
+
+    return experiment.arms.map(({ key }) => {
+      const outcome = outcomeByArm.get(key);
+      const armFeedback = feedbackByArm.get(key);
+      const sessions = outcome?.sessions ?? 0;
+      const contactFormShown = outcome?.contact_form_shown ?? 0;
+      const mattersCreated = outcome?.matters_created ?? 0;
+      const invoicesPaid = outcome?.invoices_paid ?? 0;
+
+      return {
+        arm: key,
+        sessions,
+        contactFormShown,
+        contactFormRate: rate(contactFormShown, sessions),
+        mattersCreated,
+        matterRate: rate(mattersCreated, sessions),
+        invoicesPaid,
+        paidRate: rate(invoicesPaid, sessions),
+        feedbackCount: armFeedback?.feedback_count ?? 0,
+        averageRating: armFeedback?.average_rating ?? null,
+        thumbsUp: armFeedback?.thumbs_up ?? 0,
+        thumbsDown: armFeedback?.thumbs_down ?? 0,
+        averageTurns: Math.round((outcome?.average_turns ?? 0) * 10) / 10
+      };
+    });
+  }
+}
@@ -0,0 +1,458 @@
+import type { Env } from '../types.js';
+import { AdobeDocumentService, type IAdobeExtractor } from './AdobeDocumentService.js';
+import { Logger } from '../utils/logger.js';
+
+export type KnowledgeSourceType = 'faq' | 'document';
+
+export interface KnowledgeDocument {
+  id: string;
+  organizationId: string;
+  title: string;
+  sourceType: KnowledgeSourceType;
+  fileId: string | null;
+  chunkCount: number;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface KnowledgeDocumentInput {
+  organizationId: string;
+  title: string;
+  content: string;
+  sourceType: KnowledgeSourceType;
+  fileId?: string | null;
+  createdBy?: string | null;
+}
+
+export interface KnowledgePassage {
+  chunkId: string;
+  documentId: string;
+  title: string;
+  content: string;
+  score: number;
+}
+
+/**
+ * Turns text into vectors for retrieval. Chunks are tagged with the embedder's
+ * model, so switching embedders never compares vectors from different spaces.
+ */
+export interface TextEmbedder {
+  readonly model: string;
+  /** Cosine similarity below which a passage is not considered relevant. */
+  readonly minScore: number;
+  embed(texts: readonly string[]): Promise<number[][]>;
+}
+
+interface KnowledgeDocumentRow {
+  id: string;
+  organization_id: string;
+  title: string;
+  source_type: string;
+  file_id: string | null;
+  chunk_count: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface KnowledgeChunkRow {
+  id: string;
+  document_id: string;
+  content: string;
+  embedding: string;
+  title: string;
+}
+
+export const WORKERS_AI_EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+export const LOCAL_EMBEDDING_MODEL = 'local-hash-256';
+export const DEFAULT_PASSAGE_LIMIT = 3;
+
+/**
+ * Size limits of the knowledge base. The organization chunk quota matches the
+ * number of chunks a search scans, so every stored chunk stays searchable.
+ */
+export const KNOWLEDGE_LIMITS = {
+  documentChars: 200000,
+  documentChunks: 250,
+  organizationDocuments: 200,
+  organizationChunks: 2000
+} as const;
+
+export type KnowledgeLimit = keyof typeof KNOWLEDGE_LIMITS;
+
+export class KnowledgeLimitError extends Error {
+  constructor(public readonly limit: KnowledgeLimit, message: string) {
+    super(message);
+    this.name = 'KnowledgeLimitError';
+  }
+}
+
+const CHUNK_MAX_CHARS = 1000;
+const CHUNK_OVERLAP_CHARS = 150;
+const EMBEDDING_BATCH_SIZE = 50;
+const LOCAL_EMBEDDING_DIMENSIONS = 256;
+const MAX_SCANNED_CHUNKS = KNOWLEDGE_LIMITS.organizationChunks;
+const TEXT_MIME_TYPES = ['text/plain', 'text/markdown', 'text/csv', 'text/html'];
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'have',
+  'how', 'i', 'if', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their',
+  'there', 'this', 'to', 'us', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'will', 'with', 'you', 'your'
+]);
+
+function mapDocumentRow(row: KnowledgeDocumentRow): KnowledgeDocument {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    title: row.title,
+    sourceType: row.source_type === 'document' ? 'document' : 'faq',
+    fileId: row.file_id,
+    chunkCount: row.chunk_count,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function parseEmbedding(raw: string): number[] | null {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) && parsed.every(value => typeof value === 'number') ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function splitLongParagraph(paragraph: string, maxChars: number): string[] {
+  const sentences = paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) ?? [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    if (sentence.length > maxChars) {
+      for (let start = 0; start < sentence.length; start += maxChars) {
+        pieces.push(sentence.slice(start, start + maxChars).trim());
+      }
+      continue;
+    }
+    current += sentence;
+  }
+  if (current.trim()) {
+    pieces.push(current.trim());
+  }
+  return pieces;
+}
+
+/**
+ * Splits text into retrieval chunks along paragraph boundaries. Each chunk after
+ * the first starts with the tail of the previous one, so an answer that spans a
+ * boundary is still found in one piece.
+ */
+export function chunkText(text: string, maxChars = CHUNK_MAX_CHARS, overlap = CHUNK_OVERLAP_CHARS): string[] {
+  const paragraphs = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap(paragraph => (paragraph.length > maxChars ? splitLongParagraph(paragraph, maxChars) : [paragraph]));
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      chunks.push(current);
+      const tail = current.slice(-overlap);
+      const boundary = tail.indexOf(' ');
+      current = overlap > 0 && boundary >= 0 ? `${tail.slice(boundary + 1)}\n\n${paragraph}` : paragraph;
+      if (current.length > maxChars) {
+        current = paragraph;
+      }
+      continue;
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+export function cosineSimilarity(a: readonly number[], b: readonly number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashing bag-of-words embedder that runs in the worker. Used in tests and local
+ * development, where Workers AI is not available.
+ */
+export class LocalEmbedder implements TextEmbedder {
+  readonly model = LOCAL_EMBEDDING_MODEL;
+  readonly minScore = 0.2;
+
+  async embed(texts: readonly string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+      const tokens = (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+        .filter(token => !STOP_WORDS.has(token))
+        // Crude stemming so "fee" matches "fees" and "documents" matches "document"
+        .map(token => (token.length > 3 && token.endsWith('s') ? token.slice(0, -1) : token));
+      for (const token of tokens) {
+        vector[fnv1a(token) % LOCAL_EMBEDDING_DIMENSIONS] += 1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+      return norm === 0 ? vector : vector.map(value => value / norm);
+    });
+  }
+}
+
+export class WorkersAIEmbedder implements TextEmbedder {
+  readonly model = WORKERS_AI_EMBEDDING_MODEL;
+  readonly minScore = 0.6;
+
+  constructor(private env: Env) {}
+
+  async embed(texts: readonly string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const result = await (this.env.AI as { run: (model: string, params: Record<string, unknown>) => Promise<unknown> })
+        .run(this.model, { text: batch }) as { data?: number[][] };
+      if (!Array.isArray(result?.data) || result.data.length !== batch.length) {
+        throw new Error(`Embedding model returned ${result?.data?.length ?? 0} vectors for ${batch.length} texts`);
+      }
+      vectors.push(...result.data);
+    }
+    return vectors;
+  }
+}
+
+export function createEmbedder(env: Env): TextEmbedder {
+  return env.KNOWLEDGE_EMBEDDER === 'local' || !env.AI ? new LocalEmbedder() : new WorkersAIEmbedder(env);
+}
+
+/**
+ * Per-organization knowledge base: FAQ text and documents uploaded by admins,
+ * chunked and embedded so the intake agent can ground general answers (fees,
+ * office hours, what to bring) in the firm's own content.
+ */
+export class KnowledgeBaseService {
+  private readonly embedder: TextEmbedder;
+
+  constructor(private env: Env, embedder?: TextEmbedder) {
+    this.embedder = embedder ?? createEmbedder(env);
+  }
+
+  async listDocuments(organizationId: string): Promise<KnowledgeDocument[]> {
+    const rows = await this.env.DB.prepare(`
+      SELECT id, organization_id, title, source_type, file_id, chunk_count, created_by, created_at, updated_at
+      FROM knowledge_documents
+      WHERE organization_id = ?
+      ORDER BY created_at DESC
+    `).bind(organizationId).all<KnowledgeDocumentRow>();
+
+    return (rows.results ?? []).map(mapDocumentRow);
+  }
+
+  /**
+   * Chunks, embeds and stores a document. Throws KnowledgeLimitError when the
+   * document or the organization's knowledge base would exceed KNOWLEDGE_LIMITS.
+   */
+  async addDocument(input: KnowledgeDocumentInput): Promise<KnowledgeDocument> {
+    if (input.content.length > KNOWLEDGE_LIMITS.documentChars) {
+      throw new KnowledgeLimitError('documentChars', `Documents can have at most ${KNOWLEDGE_LIMITS.documentChars} characters of text`);
+    }
+
+    const chunks = chunkText(input.content);
+    if (chunks.length > KNOWLEDGE_LIMITS.documentChunks) {
+      throw new KnowledgeLimitError('documentChunks', `Documents can be split into at most ${KNOWLEDGE_LIMITS.documentChunks} passages`);
+    }
+
+    const usage = await this.getUsage(input.organizationId);
+    if (usage.documents >= KNOWLEDGE_LIMITS.organizationDocuments) {
+      throw new KnowledgeLimitError('organizationDocuments', `The knowledge base can hold at most ${KNOWLEDGE_LIMITS.organizationDocuments} documents`);
+    }
+    if (usage.chunks + chunks.length > KNOWLEDGE_LIMITS.organizationChunks) {
+      throw new KnowledgeLimitError('organizationChunks', `The knowledge base can hold at most ${KNOWLEDGE_LIMITS.organizationChunks} passages`);
+    }
+
+    const embeddings = await this.embedder.embed(chunks);
+    const now = new Date().toISOString();
+    const document: KnowledgeDocument = {
+      id: crypto.randomUUID(),
+      organizationId: input.organizationId,
+      title: input.title,
+      sourceType: input.sourceType,
+      fileId: input.fileId ?? null,
+      chunkCount: chunks.length,
+      createdBy: input.createdBy ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.env.DB.batch([
+      this.env.DB.prepare(`
+        INSERT INTO knowledge_documents (id, organization_id, title, source_type, file_id, content, chunk_count, created_by, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        document.id,
+        document.organizationId,
+        document.title,
+        document.sourceType,
+        document.fileId,
+        input.content,
+        document.chunkCount,
+        document.createdBy,
+        now,
+        now
+      ),
+      ...chunks.map((content, index) => this.env.DB.prepare(`
+        INSERT INTO knowledge_chunks (id, document_id, organization_id, chunk_index, content, embedding, embedding_model, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        crypto.randomUUID(),
+        document.id,
+        document.organizationId,
+        index,
+        content,
+        JSON.stringify(embeddings[index]),
+        this.embedder.model,
+        now
+      ))
+    ]);
+
+    return document;
+  }
+
+  async getUsage(organizationId: string): Promise<{ documents: number; chunks: number }> {
+    const row = await this.env.DB.prepare(`
+      SELECT COUNT(*) AS documents, COALESCE(SUM(chunk_count), 0) AS chunks
+      FROM knowledge_documents
+      WHERE organization_id = ?
+    `).bind(organizationId).first<{ documents: number; chunks: number }>();
+
+    return { documents: row?.documents ?? 0, chunks: row?.chunks ?? 0 };
+  }
+
+  async deleteDocument(organizationId: string, documentId: string): Promise<boolean> {
+    const result = await this.env.DB.prepare(`
+      DELETE FROM knowledge_documents WHERE id = ? AND organization_id = ?
+    `).bind(documentId, organizationId).run();
+
+    const changes = ((result.meta ?? {}) as { changes?: number }).changes ?? 0;
+    if (changes === 0) {
+      return false;
+    }
+
+    await this.env.DB.prepare(`
+      DELETE FROM knowledge_chunks WHERE document_id = ? AND organization_id = ?
+    `).bind(documentId, organizationId).run();
+    return true;
+  }
+
+  /**
+   * Extracts text from an uploaded file of the organization. Text files are read
+   * as-is; other types go through Adobe extraction when it is enabled. Returns
+   * null when the file does not exist or yields no text.
+   */
+  async loadFileText(organizationId: string, fileId: string): Promise<{ text: string; fileName: string } | null> {
+    const file = await this.env.DB.prepare(`
+      SELECT file_path, original_name, mime_type
+      FROM files
+      WHERE id = ? AND organization_id = ? AND is_deleted = FALSE
+    `).bind(fileId, organizationId).first<{ file_path: string | null; original_name: string; mime_type: string | null }>();
+
+    if (!file?.file_path || !this.env.FILES_BUCKET) {
+      return null;
+    }
+
+    const object = await this.env.FILES_BUCKET.get(file.file_path);
+    if (!object) {
+      return null;
+    }
+
+    const mimeType = file.mime_type ?? object.httpMetadata?.contentType ?? 'application/octet-stream';
+    let text: string | undefined;
+    if (TEXT_MIME_TYPES.includes(mimeType)) {
+      text = await object.text();
+      if (mimeType === 'text/html') {
+        text = text.replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]+>/g, ' ');
+      }
+    } else {
+      const extractor: IAdobeExtractor = this.env.ADOBE_EXTRACTOR_SERVICE ?? new AdobeDocumentService(this.env);
+      if (extractor.isEnabled()) {
+        const result = await extractor.extractFromBuffer(file.original_name, mimeType, await object.arrayBuffer());
+        text = result.success ? result.details?.text : undefined;
+      }
+    }
+
+    return text?.trim() ? { text: text.trim(), fileName: file.original_name } : null;
+  }
+
+  /**
+   * Most relevant passages for a query, drawn only from the organization's own
+   * documents. Returns an empty list when nothing clears the relevance threshold.
+   * Chunks are scanned newest document first, in a fixed order.
+   */
+  async search(organizationId: string, query: string, options: { limit?: number } = {}): Promise<KnowledgePassage[]> {
+    if (!query.trim()) {
+      return [];
+    }
+
+    const rows = await this.env.DB.prepare(`
+      SELECT c.id, c.document_id, c.content, c.embedding, d.title
+      FROM knowledge_chunks c
+      JOIN knowledge_documents d ON d.id = c.document_id
+      WHERE c.organization_id = ? AND d.organization_id = ? AND c.embedding_model = ?
+      ORDER BY d.created_at DESC, d.id ASC, c.chunk_index ASC
+      LIMIT ?
+    `).bind(organizationId, organizationId, this.embedder.model, MAX_SCANNED_CHUNKS).all<KnowledgeChunkRow>();
+
+    const chunks = rows.results ?? [];
+    if (chunks.length === 0) {
+      return [];
+    }
+
+    const [queryEmbedding] = await this.embedder.embed([query]);
+    const passages: KnowledgePassage[] = [];
+    for (const chunk of chunks) {
+      const embedding = parseEmbedding(chunk.embedding);
+      if (!embedding) {
+        Logger.warn('Skipping knowledge chunk with unreadable embedding', { organizationId, chunkId: chunk.id });
+        continue;
+      }
+      const score = cosineSimilarity(queryEmbedding, embedding);
+      if (score >= this.embedder.minScore) {
+        passages.push({ chunkId: chunk.id, documentId: chunk.document_id, title: chunk.title, content: chunk.content, score });
+      }
+    }
+
+    return passages
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? DEFAULT_PASSAGE_LIMIT);
+  }
+}
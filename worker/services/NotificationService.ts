@@ -3,7 +3,7 @@ import type { Env } from '../types.js';
 import type { Organization } from './OrganizationService.js';
 
 export interface NotificationRequest {
-  type: 'lawyer_review' | 'matter_created' | 'payment_required';
+  type: 'lawyer_review' | 'matter_created' | 'payment_required' | 'deadline_warning' | 'crisis_escalation' | 'consultation_booked';
   organizationConfig: Organization | null;
   matterInfo?: {
     type: string;
@@ -16,6 +16,29 @@ export interface NotificationRequest {
     email?: string;
     phone?: string;
   };
+  deadlineInfo?: {
+    deadline: string;
+    daysRemaining: number;
+    incidentDate: string;
+    state: string;
+    rule: string;
+    matterId?: string | null;
+  };
+  crisisInfo?: {
+    categories: string[];
+    sessionId: string;
+    state?: string | null;
+    excerpt: string;
+    recipients: string[];
+  };
+  consultationInfo?: {
+    matterId: string;
+    lawyerName: string;
+    lawyerEmail: string;
+    when: string;
+    clientIcs: string;
+    lawyerIcs: string;
+  };
 }
 
 /**
@@ -36,6 +59,15 @@ function extractOwnerEmail(organizationConfig: Organization | null): string | un
   return ownerEmail.trim();
 }
 
+function toIcsAttachment(ics: string) {
+  const bytes = new TextEncoder().encode(ics);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return { filename: 'consultation.ics', content: btoa(binary), content_type: 'text/calendar; method=REQUEST' };
+}
+
 export class NotificationService {
   constructor(private env: Env) {
     // Initialize Logger with environment variables for Cloudflare Workers compatibility
@@ -144,4 +176,136 @@ Payment link has been sent to the client. Please monitor payment status.`
       Logger.warn('Failed to send payment required notification:', error);
     }
   }
+
+  async sendDeadlineWarningNotification(request: NotificationRequest): Promise<void> {
+    const { organizationConfig, matterInfo, clientInfo, deadlineInfo } = request;
+
+    try {
+      const { EmailService } = await import('./EmailService.js');
+      const emailService = new EmailService(this.env.RESEND_API_KEY);
+
+      const ownerEmail = extractOwnerEmail(organizationConfig);
+      if (!ownerEmail || !deadlineInfo) {
+        Logger.info('No owner email configured for organization - skipping deadline warning notification');
+        return;
+      }
+
+      const timing = deadlineInfo.daysRemaining < 0
+        ? `may have passed ${Math.abs(deadlineInfo.daysRemaining)} days ago`
+        : `is in ${deadlineInfo.daysRemaining} days`;
+
+      await emailService.send({
+        from: 'noreply@blawby.com',
+        to: ownerEmail,
+        subject: `Filing Deadline Approaching - ${matterInfo?.type || 'Unknown'} Matter`,
+        text: `A new intake matter has an estimated filing deadline that ${timing}:
+
+Client: ${clientInfo?.name || 'Unknown'}
+Contact: ${clientInfo?.email || 'No email'}, ${clientInfo?.phone || 'No phone'}
+Matter Type: ${matterInfo?.type || 'Unknown'}
+Matter ID: ${deadlineInfo.matterId || 'Not saved'}
+Incident Date: ${deadlineInfo.incidentDate}
+Estimated Deadline: ${deadlineInfo.deadline} (${deadlineInfo.state})
+Rule: ${deadlineInfo.rule}
+
+This estimate was calculated automatically from the intake conversation. Please verify the incident date and applicable limitation period.`
+      });
+
+      Logger.info('Deadline warning notification sent successfully');
+    } catch (error) {
+      Logger.warn('Failed to send deadline warning notification:', error);
+    }
+  }
+
+  /**
+   * Emails every on-call recipient. Each send is independent so one bad address
+   * does not stop the others.
+   */
+  async sendCrisisEscalationNotification(request: NotificationRequest): Promise<void> {
+    const { crisisInfo } = request;
+
+    if (!crisisInfo || crisisInfo.recipients.length === 0) {
+      Logger.info('No on-call recipients configured for organization - skipping crisis escalation notification');
+      return;
+    }
+
+    const { EmailService } = await import('./EmailService.js');
+    const emailService = new EmailService(this.env.RESEND_API_KEY);
+
+    for (const recipient of crisisInfo.recipients) {
+      try {
+        await emailService.send({
+          from: 'noreply@blawby.com',
+          to: recipient,
+          subject: `URGENT: Client Safety Concern - ${crisisInfo.categories.join(', ')}`,
+          text: `The intake assistant detected a possible crisis in a client conversation and shared emergency resources.
+
+Concern: ${crisisInfo.categories.join(', ')}
+Session ID: ${crisisInfo.sessionId}
+State: ${crisisInfo.state || 'Unknown'}
+Client message: "${crisisInfo.excerpt}"
+
+Please review the conversation and reach out to the client as soon as possible.`
+        });
+      } catch (error) {
+        Logger.warn('Failed to send crisis escalation notification:', error);
+      }
+    }
+
+    Logger.info('Crisis escalation notification sent', { recipients: crisisInfo.recipients.length });
+  }
+
+  /**
+   * Sends the calendar invite to the client (when an email is known) and the lawyer.
+   */
+  async sendConsultationBookedNotification(request: NotificationRequest): Promise<void> {
+    const { consultationInfo, clientInfo, matterInfo } = request;
+    if (!consultationInfo) {
+      return;
+    }
+
+    const { EmailService } = await import('./EmailService.js');
+    const emailService = new EmailService(this.env.RESEND_API_KEY);
+    const messages = [
+      ...(clientInfo?.email ? [{
+        to: clientInfo.email,
+        subject: `Your consultation with ${consultationInfo.lawyerName}`,
+        text: `Hi ${clientInfo.name},
+
+Your consultation with ${consultationInfo.lawyerName} is booked for ${consultationInfo.when}.
+
+The attached calendar invite adds it to your calendar. If you need to reschedule, reply to this email.`,
+        ics: consultationInfo.clientIcs
+      }] : []),
+      {
+        to: consultationInfo.lawyerEmail,
+        subject: `New consultation: ${clientInfo?.name || 'Client'} - ${matterInfo?.type || 'Legal matter'}`,
+        text: `A consultation was booked through the intake assistant.
+
+When: ${consultationInfo.when}
+Client: ${clientInfo?.name || 'Unknown'}
+Email: ${clientInfo?.email || 'Not provided'}
+Phone: ${clientInfo?.phone || 'Not provided'}
+Matter type: ${matterInfo?.type || 'Unknown'}
+Matter ID: ${consultationInfo.matterId}`,
+        ics: consultationInfo.lawyerIcs
+      }
+    ];
+
+    for (const message of messages) {
+      try {
+        await emailService.send({
+          from: 'noreply@blawby.com',
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          attachments: [toIcsAttachment(message.ics)]
+        });
+      } catch (error) {
+        Logger.warn('Failed to send consultation booked notification:', error);
+      }
+    }
+
+    Logger.info('Consultation booked notification sent', { matterId: consultationInfo.matterId });
+  }
 }
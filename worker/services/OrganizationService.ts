@@ -2,6 +2,7 @@ import { Env } from '../types.js';
 import { ValidationService } from './ValidationService.js';
 import { ValidationError } from '../utils/validationErrors.js';
 import { getConfiguredDomain } from '../utils/domain.js';
+import type { LimitationRuleTable } from './DeadlineService.js';
 // import { getAuth } from '../auth/index.js'; // Unused import
 
 export type OrganizationVoiceProvider = 'cloudflare' | 'elevenlabs' | 'custom';
@@ -14,6 +15,168 @@ export interface OrganizationVoiceConfig {
   previewUrl?: string;
 }
 
+export type OrganizationAIProviderType = 'workers-ai' | 'openai-compatible' | 'local';
+
+/**
+ * How a 'workers-ai' provider shapes its payload: `input` flattens the conversation
+ * into one prompt string (gpt-oss), `chat` sends OpenAI-style messages and tools.
+ */
+export type OrganizationWorkersAIFormat = 'input' | 'chat';
+
+/**
+ * Per-organization LLM provider credentials, keyed by provider name.
+ * String values support ${VAR_NAME} references so keys can live in worker secrets.
+ */
+export interface OrganizationAIProviderConfig {
+  type?: OrganizationAIProviderType;
+  format?: OrganizationWorkersAIFormat;  // Payload format for 'workers-ai' providers
+  baseUrl?: string;
+  apiKey?: string | null;
+  headers?: Record<string, string>;
+  responseText?: string;  // Canned reply for the 'local' provider
+  script?: OrganizationLocalProviderStep[];  // Scripted replies for the 'local' provider, one per user turn
+}
+
+/**
+ * One scripted 'local' provider reply: text, tool calls, or both.
+ */
+export interface OrganizationLocalProviderStep {
+  text?: string;
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+}
+
+/**
+ * Firm-defined tool the intake agent can call over HTTPS.
+ * `signingSecret` supports ${VAR_NAME} references like other config secrets.
+ */
+export interface OrganizationWebhookTool {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+    additionalProperties?: boolean;
+  };
+  endpoint: string;
+  signingSecret: string;
+  allowedStates?: string[];  // ConversationState values; defaults to every state except COMPLETED
+  timeoutMs?: number;
+}
+
+/**
+ * Conflict-of-interest screening run before the intake agent saves a matter.
+ * Enabled by default; `blockAutoAcceptance` holds flagged matters for review
+ * instead of sending the client straight to payment.
+ */
+export interface OrganizationConflictCheckConfig {
+  enabled?: boolean;
+  blockAutoAcceptance?: boolean;
+  similarityThreshold?: number;  // 0-1, defaults to 0.85
+}
+
+/**
+ * Statute-of-limitations estimates for intake matters. `limitationRules` adds to or
+ * overrides the built-in periods; matters whose estimated deadline is within
+ * `warningDays` are raised to high priority and flagged to the client and staff.
+ */
+export interface OrganizationDeadlineConfig {
+  enabled?: boolean;
+  limitationRules?: LimitationRuleTable;
+  warningDays?: number;  // defaults to 180
+  urgentDays?: number;   // defaults to 30
+}
+
+export type CrisisCategory = 'self_harm' | 'imminent_danger' | 'domestic_violence';
+
+/**
+ * A hotline or shelter shown when a crisis is detected. Resources without
+ * `categories` or `states` apply to every category or state.
+ */
+export interface OrganizationCrisisResource {
+  name: string;
+  phone?: string;
+  text?: string;
+  url?: string;
+  categories?: CrisisCategory[];
+  states?: string[];
+}
+
+/**
+ * Crisis and safety escalation. On-call staff are emailed once per session and
+ * category; `onCallEmails` falls back to the owner email. Organization resources
+ * are listed ahead of the national defaults unless `includeDefaultResources` is false.
+ */
+export interface OrganizationCrisisConfig {
+  enabled?: boolean;
+  onCallEmails?: string[];
+  resources?: OrganizationCrisisResource[];
+  includeDefaultResources?: boolean;
+}
+
+export type ComplianceCategory = 'outcome_prediction' | 'legal_conclusion';
+
+/**
+ * A pattern (case-insensitive regular expression) matched sentence by sentence
+ * against AI replies. `rewrite` replaces the sentence with `replacement`; `flag`
+ * keeps it and requires the disclaimer. Rules without `states` apply everywhere.
+ */
+export interface OrganizationComplianceRule {
+  id: string;
+  category: ComplianceCategory;
+  pattern: string;
+  action?: 'rewrite' | 'flag';  // defaults to rewrite for outcome predictions, flag otherwise
+  replacement?: string;
+  states?: string[];
+}
+
+/**
+ * Unauthorized-practice-of-law safeguards applied to AI replies before they are
+ * sent. Organization rules are checked ahead of the built-in ones unless
+ * `includeDefaultRules` is false; `jurisdictionDisclaimers` overrides the
+ * disclaimer for a two-letter state code.
+ */
+export interface OrganizationComplianceConfig {
+  enabled?: boolean;
+  disclaimer?: string;
+  jurisdictionDisclaimers?: Record<string, string>;
+  disclaimerMode?: 'always' | 'legal_information' | 'when_flagged';  // defaults to legal_information
+  rules?: OrganizationComplianceRule[];
+  includeDefaultRules?: boolean;
+}
+
+export type ContentPolicyCategory = 'jailbreak_attempt' | 'non_legal_request' | 'abusive_content' | 'spam_content' | 'blocked_term';
+
+/**
+ * - block: refuse with the category's refusal message and skip the AI
+ * - flag: record a safety flag and let the conversation continue
+ * - off: ignore the category
+ */
+export type ContentPolicySeverity = 'block' | 'flag' | 'off';
+
+/**
+ * Organization overrides for the content policy filter. `blockedTerms` are
+ * case-insensitive phrases reported as `blocked_term`; `allowedPhrases` are
+ * removed from a message before the built-in patterns are checked, so a firm's
+ * own vocabulary never trips them. Categories default to `block`.
+ */
+export interface OrganizationContentPolicyConfig {
+  blockedTerms?: string[];
+  allowedPhrases?: string[];
+  refusalMessages?: Partial<Record<ContentPolicyCategory, string>>;
+  severities?: Partial<Record<ContentPolicyCategory, ContentPolicySeverity>>;
+}
+
+/**
+ * One entry of the intake middleware pipeline. `name` must be a middleware in the
+ * pipeline registry; `options` are validated against that middleware's schema.
+ */
+export interface OrganizationPipelineStep {
+  name: string;
+  enabled?: boolean;
+  options?: Record<string, unknown>;
+}
+
 export interface Organization {
   id: string;
   name: string;
@@ -33,6 +196,14 @@ export interface OrganizationConfig {
   aiProvider?: string;
   aiModel?: string;
   aiModelFallback?: string[];
+  aiProviders?: Record<string, OrganizationAIProviderConfig>;
+  webhookTools?: OrganizationWebhookTool[];
+  conflictCheck?: OrganizationConflictCheckConfig;
+  deadlines?: OrganizationDeadlineConfig;
+  crisis?: OrganizationCrisisConfig;
+  compliance?: OrganizationComplianceConfig;
+  contentPolicy?: OrganizationContentPolicyConfig;
+  pipeline?: OrganizationPipelineStep[];  // middlewares in run order; the default pipeline when unset
   consultationFee?: number;
   requiresPayment?: boolean;
   ownerEmail?: string;
@@ -761,6 +932,29 @@ export class OrganizationService {
     return updatedOrganization;
   }
 
+  /**
+   * Merges top-level config keys into the stored config without resolving ${VAR} references,
+   * so secrets kept as environment variable placeholders are never written back as plaintext
+   */
+  async patchOrganizationConfig(organizationId: string, patch: Partial<OrganizationConfig>): Promise<Organization | null> {
+    const row = await this.env.DB.prepare(
+      'SELECT config FROM organizations WHERE id = ?'
+    ).bind(organizationId).first<{ config: string | null }>();
+    if (!row) {
+      return null;
+    }
+
+    const rawConfig = row.config ? this.decodeOrganizationConfig(row.config) as OrganizationConfig : {} as OrganizationConfig;
+    const normalizedConfig = this.validateAndNormalizeConfig({ ...rawConfig, ...patch }, true, organizationId);
+
+    await this.env.DB.prepare(
+      'UPDATE organizations SET config = ?, updated_at = ? WHERE id = ?'
+    ).bind(JSON.stringify(normalizedConfig), new Date().getTime(), organizationId).run();
+
+    this.clearCache(organizationId);
+    return this.getOrganization(organizationId);
+  }
+
   async deleteOrganization(organizationId: string): Promise<boolean> {
     console.log('OrganizationService.deleteOrganization called with organizationId:', organizationId);
     
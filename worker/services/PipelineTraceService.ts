@@ -0,0 +1,114 @@
+import type { Env } from '../types.js';
+import type { MiddlewareTrace, PipelineTrace } from '../middleware/pipeline.js';
+import { Logger } from '../utils/logger.js';
+
+export interface PipelineTraceInput {
+  organizationId?: string | null;
+  sessionId: string;
+  messageId?: string | null;
+  trace: PipelineTrace;
+}
+
+export interface PipelineTraceEntry extends PipelineTrace {
+  id: string;
+  organizationId: string | null;
+  sessionId: string;
+  messageId: string | null;
+}
+
+interface PipelineTraceRow {
+  id: string;
+  organization_id: string | null;
+  session_id: string;
+  message_id: string | null;
+  responded_by: string | null;
+  duration_ms: number;
+  steps: string;
+  created_at: string;
+}
+
+export const DEFAULT_TRACE_PAGE_SIZE = 20;
+
+const MAX_ERROR_LENGTH = 500;
+
+function parseSteps(value: string): MiddlewareTrace[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed as MiddlewareTrace[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function mapRow(row: PipelineTraceRow): PipelineTraceEntry {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    sessionId: row.session_id,
+    messageId: row.message_id,
+    startedAt: row.created_at,
+    durationMs: row.duration_ms,
+    steps: parseSteps(row.steps),
+    respondedBy: row.responded_by
+  };
+}
+
+/**
+ * Stores the trace of each intake pipeline run against the user message that
+ * triggered it, so staff can see why a reply came from a middleware instead of
+ * the AI.
+ */
+export class PipelineTraceService {
+  constructor(private env: Env) {}
+
+  /**
+   * Tracing must not break the chat, so failures are logged and swallowed.
+   */
+  async record(input: PipelineTraceInput): Promise<void> {
+    const steps = input.trace.steps.map(step => (
+      step.error ? { ...step, error: step.error.slice(0, MAX_ERROR_LENGTH) } : step
+    ));
+
+    try {
+      await this.env.DB.prepare(`
+        INSERT INTO pipeline_traces (
+          id, organization_id, session_id, message_id, responded_by, duration_ms, steps, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        crypto.randomUUID(),
+        input.organizationId ?? null,
+        input.sessionId,
+        input.messageId ?? null,
+        input.trace.respondedBy,
+        Math.round(input.trace.durationMs),
+        JSON.stringify(steps),
+        input.trace.startedAt
+      ).run();
+    } catch (error) {
+      Logger.warn('Failed to record pipeline trace', {
+        sessionId: input.sessionId,
+        messageId: input.messageId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Traces of one session's pipeline runs, newest first.
+   */
+  async listForSession(
+    organizationId: string,
+    sessionId: string,
+    limit: number = DEFAULT_TRACE_PAGE_SIZE
+  ): Promise<PipelineTraceEntry[]> {
+    const rows = await this.env.DB.prepare(`
+      SELECT id, organization_id, session_id, message_id, responded_by, duration_ms, steps, created_at
+        FROM pipeline_traces
+       WHERE organization_id = ? AND session_id = ?
+       ORDER BY created_at DESC
+       LIMIT ?
+    `).bind(organizationId, sessionId, limit).all<PipelineTraceRow>();
+
+    return (rows.results ?? []).map(mapRow);
+  }
+}
@@ -0,0 +1,166 @@
+import type { Env } from '../types.js';
+import type { PromptTemplateContent } from '../agents/legal-intake/promptTemplates.js';
+import { Logger } from '../utils/logger.js';
+
+export interface PromptTemplateVersion {
+  id: string;
+  organizationId: string;
+  version: number;
+  content: PromptTemplateContent;
+  note: string | null;
+  rolledBackFrom: number | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+interface PromptTemplateRow {
+  id: string;
+  organization_id: string;
+  version: number;
+  content: string;
+  note: string | null;
+  rolled_back_from: number | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+const MAX_LISTED_VERSIONS = 50;
+
+function parseContent(raw: string): PromptTemplateContent {
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed as PromptTemplateContent : {};
+  } catch {
+    return {};
+  }
+}
+
+function mapRow(row: PromptTemplateRow): PromptTemplateVersion {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    version: row.version,
+    content: parseContent(row.content),
+    note: row.note,
+    rolledBackFrom: row.rolled_back_from,
+    createdBy: row.created_by,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Versioned system prompt templates per organization. Versions are append-only:
+ * the newest version is active, and a rollback appends a copy of an older one.
+ */
+export class PromptTemplateService {
+  constructor(private env: Env) {}
+
+  async getActive(organizationId: string): Promise<PromptTemplateVersion | null> {
+    const row = await this.env.DB.prepare(`
+      SELECT id, organization_id, version, content, note, rolled_back_from, created_by, created_at
+      FROM organization_prompt_templates
+      WHERE organization_id = ?
+      ORDER BY version DESC
+      LIMIT 1
+    `).bind(organizationId).first<PromptTemplateRow>();
+
+    return row ? mapRow(row) : null;
+  }
+
+  /**
+   * Template content for the agent: a pinned version (e.g. an experiment arm) or the
+   * active one. Lookup failures fall back to the default prompt.
+   */
+  async getContent(organizationId: string, version?: number): Promise<PromptTemplateContent | null> {
+    try {
+      const template = version !== undefined
+        ? await this.getVersion(organizationId, version)
+        : await this.getActive(organizationId);
+      return template?.content ?? null;
+    } catch (error) {
+      Logger.warn('Failed to load organization prompt template', {
+        organizationId,
+        version,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  async getVersion(organizationId: string, version: number): Promise<PromptTemplateVersion | null> {
+    const row = await this.env.DB.prepare(`
+      SELECT id, organization_id, version, content, note, rolled_back_from, created_by, created_at
+      FROM organization_prompt_templates
+      WHERE organization_id = ? AND version = ?
+    `).bind(organizationId, version).first<PromptTemplateRow>();
+
+    return row ? mapRow(row) : null;
+  }
+
+  async listVersions(organizationId: string): Promise<PromptTemplateVersion[]> {
+    const rows = await this.env.DB.prepare(`
+      SELECT id, organization_id, version, content, note, rolled_back_from, created_by, created_at
+      FROM organization_prompt_templates
+      WHERE organization_id = ?
+      ORDER BY version DESC
+      LIMIT ?
+    `).bind(organizationId, MAX_LISTED_VERSIONS).all<PromptTemplateRow>();
+
+    return (rows.results ?? []).map(mapRow);
+  }
+
+  async saveVersion(
+    organizationId: string,
+    content: PromptTemplateContent,
+    options: { note?: string | null; createdBy?: string | null; rolledBackFrom?: number | null } = {}
+  ): Promise<PromptTemplateVersion> {
+    const latest = await this.env.DB.prepare(`
+      SELECT MAX(version) as version FROM organization_prompt_templates WHERE organization_id = ?
+    `).bind(organizationId).first<{ version: number | null }>();
+
+    const record: PromptTemplateVersion = {
+      id: crypto.randomUUID(),
+      organizationId,
+      version: (latest?.version ?? 0) + 1,
+      content,
+      note: options.note ?? null,
+      rolledBackFrom: options.rolledBackFrom ?? null,
+      createdBy: options.createdBy ?? null,
+      createdAt: new Date().toISOString()
+    };
+
+    await this.env.DB.prepare(`
+      INSERT INTO organization_prompt_templates (
+        id, organization_id, version, content, note, rolled_back_from, created_by, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      record.id,
+      organizationId,
+      record.version,
+      JSON.stringify(content),
+      record.note,
+      record.rolledBackFrom,
+      record.createdBy,
+      record.createdAt
+    ).run();
+
+    return record;
+  }
+
+  /**
+   * Re-activates an older version by appending a copy of it. Returns null when
+   * the version does not exist.
+   */
+  async rollback(organizationId: string, version: number, createdBy?: string | null): Promise<PromptTemplateVersion | null> {
+    const target = await this.getVersion(organizationId, version);
+    if (!target) {
+      return null;
+    }
+
+    return this.saveVersion(organizationId, target.content, {
+      note: `Rollback to version ${version}`,
+      createdBy,
+      rolledBackFrom: version
+    });
+  }
+}
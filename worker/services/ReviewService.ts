@@ -1,5 +1,6 @@
 import type { Env } from '../types';
 import { OrganizationConfig } from './AIService';
+import type { ConflictCheckResult } from './ConflictCheckService';
 
 export interface ReviewMatter {
   id: string;
@@ -17,6 +18,7 @@ export interface ReviewMatter {
   answers?: Record<string, string>;
   aiSummary?: string;
   lawyerNotes?: string;
+  conflictCheck?: ConflictCheckResult;
 }
 
 export class ReviewService {
@@ -42,7 +44,10 @@ export class ReviewService {
         FROM matters m
         LEFT JOIN ai_generated_summaries aigs ON m.id = aigs.matter_id
         WHERE m.organization_id = ? 
-        AND m.status IN ('pending_review', 'approved', 'rejected')
+        AND (
+          m.status IN ('pending_review', 'approved', 'rejected')
+          OR (m.status = 'lead' AND json_extract(m.custom_fields, '$.conflictCheck.status') = 'potential_conflict')
+        )
         ORDER BY m.created_at DESC
       `).bind(organizationId).all();
 
@@ -58,7 +63,8 @@ export class ReviewService {
         contactInfo: matter.contact_info ? JSON.parse(matter.contact_info) : undefined,
         answers: matter.custom_fields ? JSON.parse(matter.custom_fields).answers : undefined,
         aiSummary: matter.ai_summary,
-        lawyerNotes: matter.custom_fields ? JSON.parse(matter.custom_fields).lawyerNotes : undefined
+        lawyerNotes: matter.custom_fields ? JSON.parse(matter.custom_fields).lawyerNotes : undefined,
+        conflictCheck: matter.custom_fields ? JSON.parse(matter.custom_fields as string).conflictCheck : undefined
       })) || [];
     } catch (error) {
       console.error('Failed to get review matters:', error);
@@ -124,28 +130,34 @@ export class ReviewService {
     pending: number;
     approved: number;
     rejected: number;
+    conflicts: number;
   }> {
     try {
       const stats = await this.env.DB.prepare(`
         SELECT 
           COUNT(*) as total,
-          SUM(CASE WHEN status = 'pending_review' THEN 1 ELSE 0 END) as pending,
+          SUM(CASE WHEN status IN ('pending_review', 'lead') THEN 1 ELSE 0 END) as pending,
           SUM(CASE WHEN status = 'approved' THEN 1 ELSE 0 END) as approved,
-          SUM(CASE WHEN status = 'rejected' THEN 1 ELSE 0 END) as rejected
+          SUM(CASE WHEN status = 'rejected' THEN 1 ELSE 0 END) as rejected,
+          SUM(CASE WHEN json_extract(custom_fields, '$.conflictCheck.status') = 'potential_conflict' THEN 1 ELSE 0 END) as conflicts
         FROM matters 
         WHERE organization_id = ? 
-        AND status IN ('pending_review', 'approved', 'rejected')
+        AND (
+          status IN ('pending_review', 'approved', 'rejected')
+          OR (status = 'lead' AND json_extract(custom_fields, '$.conflictCheck.status') = 'potential_conflict')
+        )
       `).bind(organizationId).first();
 
       return {
         total: (stats as { total?: number })?.total || 0,
         pending: (stats as { pending?: number })?.pending || 0,
         approved: (stats as { approved?: number })?.approved || 0,
-        rejected: (stats as { rejected?: number })?.rejected || 0
+        rejected: (stats as { rejected?: number })?.rejected || 0,
+        conflicts: (stats as { conflicts?: number })?.conflicts || 0
       };
     } catch (error) {
       console.error('Failed to get review stats:', error);
-      return { total: 0, pending: 0, approved: 0, rejected: 0 };
+      return { total: 0, pending: 0, approved: 0, rejected: 0, conflicts: 0 };
     }
   }
 
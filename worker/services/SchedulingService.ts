@@ -0,0 +1,539 @@
+import type { Env } from '../types.js';
+import { buildIcsEvent } from '../utils/ics.js';
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface WorkingWindow {
+  start: string; // HH:MM, local to the lawyer's time zone
+  end: string;
+}
+
+export type WorkingHours = Partial<Record<Weekday, WorkingWindow[]>>;
+
+export interface LawyerAvailability {
+  lawyerId: string;
+  organizationId: string;
+  timezone: string;
+  workingHours: WorkingHours;
+  blackoutDates: string[]; // YYYY-MM-DD, local to the lawyer's time zone
+  slotMinutes: number;
+  minNoticeHours: number;
+}
+
+export type LawyerAvailabilityInput = Omit<LawyerAvailability, 'lawyerId' | 'organizationId'>;
+
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+export interface ConsultationSlot {
+  slotId: string;
+  lawyerId: string;
+  lawyerName: string;
+  start: string;
+  end: string;
+  timezone: string;
+}
+
+export interface ConsultationBooking {
+  eventId: string;
+  matterId: string;
+  slot: ConsultationSlot;
+  lawyerEmail: string;
+  clientIcs: string;
+  lawyerIcs: string;
+}
+
+export interface SessionMatter {
+  id: string;
+  matterType: string;
+  clientName: string;
+  clientEmail: string | null;
+  clientPhone: string | null;
+}
+
+interface SchedulableLawyer {
+  id: string;
+  name: string;
+  email: string;
+  specialties: string[];
+  availability: LawyerAvailability;
+}
+
+interface LawyerAvailabilityRow {
+  id: string;
+  organization_id: string;
+  name: string;
+  email: string;
+  specialties: string | null;
+  timezone: string;
+  working_hours: string;
+  blackout_dates: string | null;
+  slot_minutes: number;
+  min_notice_hours: number;
+}
+
+export const DEFAULT_SEARCH_DAYS = 14;
+export const DEFAULT_SLOT_LIMIT = 5;
+const MAX_SEARCH_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseJsonArray<T>(raw: string | null): T[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed as T[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseWorkingHours(raw: string): WorkingHours {
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed as WorkingHours : {};
+  } catch {
+    return {};
+  }
+}
+
+function mapRow(row: LawyerAvailabilityRow): SchedulableLawyer {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    specialties: parseJsonArray<string>(row.specialties),
+    availability: {
+      lawyerId: row.id,
+      organizationId: row.organization_id,
+      timezone: row.timezone,
+      workingHours: parseWorkingHours(row.working_hours),
+      blackoutDates: parseJsonArray<string>(row.blackout_dates),
+      slotMinutes: row.slot_minutes,
+      minNoticeHours: row.min_notice_hours
+    }
+  };
+}
+
+function timeZoneOffsetMinutes(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - instant) / 60000);
+}
+
+/**
+ * Converts a wall-clock date and time in a time zone to a UTC instant.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = timeZoneOffsetMinutes(guess, timeZone);
+  const adjusted = guess - offset * 60000;
+  const correctedOffset = timeZoneOffsetMinutes(adjusted, timeZone);
+  return correctedOffset === offset ? adjusted : guess - correctedOffset * 60000;
+}
+
+function localDate(instant: number, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date(instant));
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function buildSlotId(lawyerId: string, start: string): string {
+  return `${lawyerId}|${start}`;
+}
+
+export function parseSlotId(slotId: string): { lawyerId: string; start: string } | null {
+  const separator = slotId.lastIndexOf('|');
+  if (separator <= 0) return null;
+  const start = slotId.slice(separator + 1);
+  if (Number.isNaN(Date.parse(start))) return null;
+  return { lawyerId: slotId.slice(0, separator), start: new Date(start).toISOString() };
+}
+
+const SCHEDULING_REQUEST_PATTERN = /\b(schedul\w*|appointments?|consultations?|book(ing)?|availab\w*|(talk|speak|meet)\s+(to|with)\s+(a|an|the|someone|somebody)\b|when\s+can\s+i\s+(talk|speak|meet))/i;
+const ORDINAL_CHOICES = ['first', 'second', 'third', 'fourth', 'fifth'];
+const SLOT_CHOICE_PATTERN = new RegExp(
+  `^(?:(?:i'?ll take|let'?s do|i'?d like)\\s+)?(?:the\\s+)?(?:(?:option|number|slot)\\s*|#)?(\\d{1,2}|${ORDINAL_CHOICES.join('|')})` +
+  `(?:\\s+(?:one|option|slot|time))?(?:\\s*,?\\s*(?:please|works|works for me|is good|sounds good))?[.!]*$`
+);
+const SLOT_CONFIRMATION_PATTERN = /^(?:yes|yeah|yep|yup|sure|ok(?:ay)?|confirm(?:ed)?|book it|that works|sounds good|please do)(?:\s*,?\s*(?:please|thanks|thank you|book it))?[.!]*$/;
+
+export function isSchedulingRequest(message: string): boolean {
+  return SCHEDULING_REQUEST_PATTERN.test(message);
+}
+
+/**
+ * Maps a reply like "2", "option 3" or "the first one" to one of the offered
+ * slot IDs. The whole message must be the pick, so "I have 2 kids" is not one.
+ */
+export function resolveSlotChoice(message: string, offeredSlotIds: readonly string[]): string | null {
+  const match = SLOT_CHOICE_PATTERN.exec(message.trim().toLowerCase());
+  if (!match) {
+    return null;
+  }
+  const index = /^\d+$/.test(match[1]) ? Number(match[1]) - 1 : ORDINAL_CHOICES.indexOf(match[1]);
+  return index >= 0 && index < offeredSlotIds.length ? offeredSlotIds[index] : null;
+}
+
+/**
+ * Whether the whole message says yes to the slot read back for confirmation.
+ */
+export function isSlotConfirmation(message: string): boolean {
+  return SLOT_CONFIRMATION_PATTERN.test(message.trim().toLowerCase());
+}
+
+/**
+ * Open slots for one lawyer between `from` and `from + days`, honoring working
+ * hours, blackout dates, minimum notice and existing meetings.
+ */
+export function generateOpenSlots(
+  availability: LawyerAvailability,
+  busy: readonly BusyInterval[],
+  options: { now?: Date; from?: Date; days?: number } = {}
+): Array<{ start: string; end: string }> {
+  const now = (options.now ?? new Date()).getTime();
+  const from = Math.max(options.from?.getTime() ?? now, now);
+  const days = Math.min(options.days ?? DEFAULT_SEARCH_DAYS, MAX_SEARCH_DAYS);
+  const earliest = Math.max(from, now + availability.minNoticeHours * 60 * 60 * 1000);
+  const slotMs = availability.slotMinutes * 60000;
+  const busyRanges = busy.map(interval => [Date.parse(interval.start), Date.parse(interval.end)] as const);
+  const blackout = new Set(availability.blackoutDates);
+  const firstDate = localDate(from, availability.timezone);
+  const slots: Array<{ start: string; end: string }> = [];
+
+  for (let offset = 0; offset < days; offset++) {
+    const date = addDays(firstDate, offset);
+    if (blackout.has(date)) continue;
+
+    const weekday = WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+    for (const window of availability.workingHours[weekday] ?? []) {
+      const windowEnd = zonedTimeToUtc(date, window.end, availability.timezone);
+      for (
+        let start = zonedTimeToUtc(date, window.start, availability.timezone);
+        start + slotMs <= windowEnd;
+        start += slotMs
+      ) {
+        const end = start + slotMs;
+        if (start < earliest) continue;
+        if (busyRanges.some(([busyStart, busyEnd]) => start < busyEnd && end > busyStart)) continue;
+        slots.push({ start: new Date(start).toISOString(), end: new Date(end).toISOString() });
+      }
+    }
+  }
+
+  return slots;
+}
+
+export function formatSlot(slot: Pick<ConsultationSlot, 'start' | 'timezone'>): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: slot.timezone,
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  }).format(new Date(slot.start));
+}
+
+/**
+ * Lawyer availability and consultation booking. Availability lives in
+ * lawyer_availability; bookings are matter_events of type 'meeting' created by
+ * the lawyer, which also count as busy time for later searches.
+ */
+export class SchedulingService {
+  constructor(private env: Env) {}
+
+  async getAvailability(organizationId: string, lawyerId: string): Promise<LawyerAvailability | null> {
+    const lawyer = await this.loadLawyers(organizationId, lawyerId);
+    return lawyer[0]?.availability ?? null;
+  }
+
+  /**
+   * Returns false when the lawyer does not belong to the organization.
+   */
+  async setAvailability(organizationId: string, lawyerId: string, input: LawyerAvailabilityInput): Promise<boolean> {
+    const lawyer = await this.env.DB.prepare(`
+      SELECT id FROM lawyers WHERE id = ? AND organization_id = ?
+    `).bind(lawyerId, organizationId).first<{ id: string }>();
+    if (!lawyer) {
+      return false;
+    }
+
+    const now = new Date().toISOString();
+    await this.env.DB.prepare(`
+      INSERT INTO lawyer_availability (
+        lawyer_id, organization_id, timezone, working_hours, blackout_dates, slot_minutes, min_notice_hours, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(lawyer_id) DO UPDATE SET
+        timezone = excluded.timezone,
+        working_hours = excluded.working_hours,
+        blackout_dates = excluded.blackout_dates,
+        slot_minutes = excluded.slot_minutes,
+        min_notice_hours = excluded.min_notice_hours,
+        updated_at = excluded.updated_at
+    `).bind(
+      lawyerId,
+      organizationId,
+      input.timezone,
+      JSON.stringify(input.workingHours),
+      JSON.stringify(input.blackoutDates),
+      input.slotMinutes,
+      input.minNoticeHours,
+      now,
+      now
+    ).run();
+
+    return true;
+  }
+
+  /**
+   * Earliest open slots across the organization's lawyers. Lawyers whose
+   * specialties match the matter type are preferred when any have openings.
+   */
+  async findOpenSlots(organizationId: string, options: {
+    matterType?: string | null;
+    lawyerId?: string | null;
+    from?: Date;
+    days?: number;
+    limit?: number;
+    now?: Date;
+  } = {}): Promise<ConsultationSlot[]> {
+    const lawyers = await this.loadLawyers(organizationId, options.lawyerId ?? undefined);
+    const matterType = options.matterType?.trim().toLowerCase();
+    const specialists = matterType
+      ? lawyers.filter(lawyer => lawyer.specialties.some(specialty => specialty.toLowerCase() === matterType))
+      : [];
+
+    const search = async (candidates: SchedulableLawyer[]): Promise<ConsultationSlot[]> => {
+      const slots: ConsultationSlot[] = [];
+      for (const lawyer of candidates) {
+        const busy = await this.getBusyIntervals(lawyer.id, options.from ?? options.now ?? new Date(), options.days);
+        for (const slot of generateOpenSlots(lawyer.availability, busy, options)) {
+          slots.push({
+            slotId: buildSlotId(lawyer.id, slot.start),
+            lawyerId: lawyer.id,
+            lawyerName: lawyer.name,
+            start: slot.start,
+            end: slot.end,
+            timezone: lawyer.availability.timezone
+          });
+        }
+      }
+      return slots
+        .sort((a, b) => a.start.localeCompare(b.start))
+        .slice(0, options.limit ?? DEFAULT_SLOT_LIMIT);
+    };
+
+    const preferred = specialists.length > 0 ? await search(specialists) : [];
+    return preferred.length > 0 ? preferred : search(lawyers);
+  }
+
+  /**
+   * The most recent intake matter created from a chat session.
+   */
+  async findMatterForSession(organizationId: string, sessionId: string): Promise<SessionMatter | null> {
+    const row = await this.env.DB.prepare(`
+      SELECT id, matter_type, client_name, client_email, client_phone
+      FROM matters
+      WHERE organization_id = ? AND json_extract(custom_fields, '$.sessionId') = ?
+      ORDER BY created_at DESC
+      LIMIT 1
+    `).bind(organizationId, sessionId).first<{
+      id: string;
+      matter_type: string;
+      client_name: string;
+      client_email: string | null;
+      client_phone: string | null;
+    }>();
+
+    return row
+      ? { id: row.id, matterType: row.matter_type, clientName: row.client_name, clientEmail: row.client_email, clientPhone: row.client_phone }
+      : null;
+  }
+
+  /**
+   * The offered slot if it is still open, with its lawyer, or null.
+   */
+  async findSlot(organizationId: string, slotId: string, now?: Date): Promise<ConsultationSlot | null> {
+    const resolved = await this.resolveOpenSlot(organizationId, slotId, now);
+    return resolved?.slot ?? null;
+  }
+
+  /**
+   * Books a slot against the matter. Returns null when the slot is no longer
+   * open, including when another booking for the lawyer lands first: the
+   * meeting is only inserted if nothing overlaps it at write time.
+   */
+  async bookConsultation(input: {
+    organizationId: string;
+    matterId: string;
+    slotId: string;
+    client: { name: string; email?: string | null };
+    matterType?: string | null;
+    sessionId?: string | null;
+    now?: Date;
+  }): Promise<ConsultationBooking | null> {
+    const resolved = await this.resolveOpenSlot(input.organizationId, input.slotId, input.now);
+    if (!resolved) {
+      return null;
+    }
+
+    const { lawyer, slot } = resolved;
+    const title = `Consultation: ${input.client.name}${input.matterType ? ` (${input.matterType})` : ''}`;
+    const icsUid = `${crypto.randomUUID()}@blawby.com`;
+
+    const eventId = crypto.randomUUID();
+    const createdAt = new Date().toISOString();
+    const metadata = {
+      matterId: input.matterId,
+      kind: 'consultation',
+      endsAt: slot.end,
+      durationMinutes: lawyer.availability.slotMinutes,
+      timezone: slot.timezone,
+      sessionId: input.sessionId ?? null,
+      clientName: input.client.name,
+      clientEmail: input.client.email ?? null,
+      icsUid
+    };
+
+    // A single statement, so two clients picking the same time cannot both pass the overlap check
+    const inserted = await this.env.DB.prepare(`
+      INSERT INTO matter_events (
+        id, matter_id, event_type, title, description, event_date,
+        created_by_lawyer_id, metadata, created_at, updated_at
+      )
+      SELECT ?, ?, 'meeting', ?, ?, ?, ?, ?, ?, ?
+      WHERE NOT EXISTS (
+        SELECT 1 FROM matter_events
+        WHERE created_by_lawyer_id = ? AND event_type = 'meeting' AND event_date < ?
+          AND COALESCE(json_extract(metadata, '$.endsAt'), strftime('%Y-%m-%dT%H:%M:%fZ', event_date, '+60 minutes')) > ?
+      )
+    `).bind(
+      eventId,
+      input.matterId,
+      title,
+      `Consultation with ${lawyer.name} on ${formatSlot(slot)}`,
+      slot.start,
+      lawyer.id,
+      JSON.stringify(metadata),
+      createdAt,
+      createdAt,
+      lawyer.id,
+      slot.end,
+      slot.start
+    ).run();
+    if (!inserted.meta?.changes) {
+      return null;
+    }
+
+    const organizer = { name: lawyer.name, email: lawyer.email };
+    const attendees = input.client.email ? [{ name: input.client.name, email: input.client.email }] : [];
+    const clientIcs = buildIcsEvent({
+      uid: icsUid,
+      start: slot.start,
+      end: slot.end,
+      summary: `Legal consultation with ${lawyer.name}`,
+      description: `Your ${input.matterType ?? 'legal'} consultation with ${lawyer.name}.`,
+      organizer,
+      attendees
+    });
+    const lawyerIcs = buildIcsEvent({
+      uid: icsUid,
+      start: slot.start,
+      end: slot.end,
+      summary: title,
+      description: `Matter ID: ${input.matterId}${input.client.email ? `\nClient email: ${input.client.email}` : ''}`,
+      organizer,
+      attendees
+    });
+
+    return { eventId, matterId: input.matterId, slot, lawyerEmail: lawyer.email, clientIcs, lawyerIcs };
+  }
+
+  private async resolveOpenSlot(
+    organizationId: string,
+    slotId: string,
+    now?: Date
+  ): Promise<{ lawyer: SchedulableLawyer; slot: ConsultationSlot } | null> {
+    const parsed = parseSlotId(slotId);
+    if (!parsed) {
+      return null;
+    }
+
+    const [lawyer] = await this.loadLawyers(organizationId, parsed.lawyerId);
+    if (!lawyer) {
+      return null;
+    }
+
+    const busy = await this.getBusyIntervals(lawyer.id, new Date(parsed.start), 1);
+    const open = generateOpenSlots(lawyer.availability, busy, { now, from: new Date(parsed.start), days: 1 })
+      .find(slot => slot.start === parsed.start);
+    if (!open) {
+      return null;
+    }
+
+    return {
+      lawyer,
+      slot: {
+        slotId,
+        lawyerId: lawyer.id,
+        lawyerName: lawyer.name,
+        start: open.start,
+        end: open.end,
+        timezone: lawyer.availability.timezone
+      }
+    };
+  }
+
+  private async loadLawyers(organizationId: string, lawyerId?: string): Promise<SchedulableLawyer[]> {
+    const rows = await this.env.DB.prepare(`
+      SELECT l.id, l.organization_id, l.name, l.email, l.specialties,
+             a.timezone, a.working_hours, a.blackout_dates, a.slot_minutes, a.min_notice_hours
+      FROM lawyers l
+      JOIN lawyer_availability a ON a.lawyer_id = l.id
+      WHERE l.organization_id = ?
+        AND COALESCE(l.status, 'active') = 'active'
+        ${lawyerId ? 'AND l.id = ?' : ''}
+      ORDER BY l.name ASC
+    `).bind(...(lawyerId ? [organizationId, lawyerId] : [organizationId])).all<LawyerAvailabilityRow>();
+
+    return (rows.results ?? []).map(mapRow);
+  }
+
+  private async getBusyIntervals(lawyerId: string, from: Date, days = DEFAULT_SEARCH_DAYS): Promise<BusyInterval[]> {
+    // Look back a day so meetings that started before the window still block overlapping slots
+    const windowStart = new Date(from.getTime() - DAY_MS).toISOString();
+    const windowEnd = new Date(from.getTime() + (Math.min(days, MAX_SEARCH_DAYS) + 1) * DAY_MS).toISOString();
+
+    const rows = await this.env.DB.prepare(`
+      SELECT event_date, json_extract(metadata, '$.endsAt') as ends_at
+      FROM matter_events
+      WHERE created_by_lawyer_id = ? AND event_type = 'meeting' AND event_date >= ? AND event_date < ?
+    `).bind(lawyerId, windowStart, windowEnd).all<{ event_date: string; ends_at: string | null }>();
+
+    // Meetings logged without an end time are assumed to last an hour
+    return (rows.results ?? []).map(row => ({
+      start: row.event_date,
+      end: row.ends_at ?? new Date(Date.parse(row.event_date) + 60 * 60000).toISOString()
+    }));
+  }
+}
@@ -1,5 +1,6 @@
 import type { Env } from '../types.js';
 import { Logger } from '../utils/logger.js';
+import { DOCUMENT_ANALYSIS_HEADERS } from '../utils/documentQuarantine.js';
 
 export interface AnalysisResult {
   summary: string;
@@ -26,6 +27,8 @@ export interface SessionRecord {
   lastActive: string;
   closedAt?: string | null;
   tokenHash?: string | null;
+  urgentAt?: string | null;
+  urgentReason?: string | null;
 }
 
 export interface SessionResolution {
@@ -90,7 +93,9 @@ function mapSessionRow(row: Record<string, unknown>): SessionRecord {
     updatedAt: String(row.updated_at ?? new Date().toISOString()),
     lastActive: String(row.last_active ?? new Date().toISOString()),
     closedAt: row.closed_at ? String(row.closed_at) : null,
-    tokenHash: row.token_hash ? String(row.token_hash) : null
+    tokenHash: row.token_hash ? String(row.token_hash) : null,
+    urgentAt: row.urgent_at ? String(row.urgent_at) : null,
+    urgentReason: row.urgent_reason ? String(row.urgent_reason) : null
   };
 }
 
@@ -130,7 +135,7 @@ export class SessionService {
   static async getSessionById(env: Env, sessionId: string): Promise<SessionRecord | null> {
     const stmt = env.DB.prepare(`
       SELECT id, organization_id, state, status_reason, retention_horizon_days, is_hold,
-             created_at, updated_at, last_active, closed_at, token_hash
+             created_at, updated_at, last_active, closed_at, token_hash, urgent_at, urgent_reason
         FROM chat_sessions
        WHERE id = ?
        LIMIT 1
@@ -144,7 +149,7 @@ export class SessionService {
     const tokenHashValue = await hashToken(rawToken);
     const stmt = env.DB.prepare(`
       SELECT id, organization_id, state, status_reason, retention_horizon_days, is_hold,
-             created_at, updated_at, last_active, closed_at, token_hash
+             created_at, updated_at, last_active, closed_at, token_hash, urgent_at, urgent_reason
         FROM chat_sessions
        WHERE token_hash = ? AND organization_id = ?
        LIMIT 1
@@ -175,6 +180,20 @@ export class SessionService {
     await stmt.bind(now, now, sessionId).run();
   }
 
+  /**
+   * Flags the session for urgent staff attention. The first flag time is kept;
+   * the reason is replaced with the latest one.
+   */
+  static async markUrgent(env: Env, sessionId: string, organizationId: string, reason: string): Promise<void> {
+    const now = toIsoString();
+    const stmt = env.DB.prepare(`
+      UPDATE chat_sessions
+         SET urgent_at = COALESCE(urgent_at, ?), urgent_reason = ?, updated_at = ?
+       WHERE id = ? AND organization_id = ?
+    `);
+    await stmt.bind(now, reason, now, sessionId, organizationId).run();
+  }
+
   static async createSession(env: Env, options: {
     organizationId: string;
     sessionId?: string;
@@ -410,7 +429,7 @@ export class SessionService {
     }
   }
 
-  static async persistMessage(env: Env, input: PersistedMessageInput): Promise<void> {
+  static async persistMessage(env: Env, input: PersistedMessageInput): Promise<string> {
     const session = await this.getSessionById(env, input.sessionId);
     if (!session || session.organizationId !== input.organizationId) {
       throw new Error('Cannot persist message: session not found or organization mismatch');
@@ -442,6 +461,8 @@ export class SessionService {
       input.tokenCount ?? null,
       createdAt
     ).run();
+
+    return messageId;
   }
 
   /**
@@ -477,7 +498,7 @@ export class SessionService {
     });
 
     try {
-      const formattedContent = `## 📄 Document Analysis Complete
+      const formattedContent = `${DOCUMENT_ANALYSIS_HEADERS[0]}
 
 **Summary:** ${analysis.summary || 'No summary available'}
 
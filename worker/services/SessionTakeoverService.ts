@@ -0,0 +1,241 @@
+import type { Env } from '../types.js';
+import { ActivityService } from './ActivityService.js';
+import { SessionService } from './SessionService.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Metadata types on chat_messages written during a takeover. The client SSE
+ * channel relays exactly these to the browser.
+ */
+export const TAKEOVER_MESSAGE_TYPES = ['takeover_started', 'staff_message', 'takeover_ended'] as const;
+export type TakeoverMessageType = typeof TAKEOVER_MESSAGE_TYPES[number];
+
+export interface SessionTakeover {
+  userId: string;
+  staffName: string;
+  startedAt: string;
+}
+
+export interface TakeoverStaff {
+  id: string;
+  name: string;
+}
+
+export interface TranscriptMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+interface TranscriptRow {
+  id: string;
+  role: string;
+  content: string;
+  metadata: string | null;
+  created_at: string;
+}
+
+const MAX_TRANSCRIPT_MESSAGES = 200;
+
+function parseMetadata(raw: string | null): Record<string, unknown> | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+function mapRow(row: TranscriptRow): TranscriptMessage {
+  return {
+    id: row.id,
+    role: row.role === 'user' || row.role === 'system' ? row.role : 'assistant',
+    content: row.content,
+    metadata: parseMetadata(row.metadata),
+    createdAt: row.created_at
+  };
+}
+
+export function isTakeoverMessage(message: Pick<TranscriptMessage, 'metadata'>): boolean {
+  const type = message.metadata?.type;
+  return typeof type === 'string' && (TAKEOVER_MESSAGE_TYPES as readonly string[]).includes(type);
+}
+
+export function buildTakeoverStartedMessage(staffName: string): string {
+  return `You're now chatting with ${staffName}.`;
+}
+
+export function buildTakeoverEndedMessage(staffName: string): string {
+  return `${staffName} handed the conversation back to the AI assistant.`;
+}
+
+/**
+ * Lets an organization member take over a live intake session. While a takeover
+ * is active the agent route skips the AI, and the staff member's replies are
+ * stored in chat_messages, from where the session's SSE channel relays them.
+ */
+export class SessionTakeoverService {
+  constructor(private env: Env) {}
+
+  async getActive(organizationId: string, sessionId: string): Promise<SessionTakeover | null> {
+    const row = await this.env.DB.prepare(`
+      SELECT takeover_user_id, takeover_user_name, takeover_started_at
+      FROM chat_sessions
+      WHERE id = ? AND organization_id = ?
+    `).bind(sessionId, organizationId).first<{ takeover_user_id: string | null; takeover_user_name: string | null; takeover_started_at: string | null }>();
+
+    if (!row?.takeover_user_id) {
+      return null;
+    }
+
+    return {
+      userId: row.takeover_user_id,
+      staffName: row.takeover_user_name ?? 'a member of our team',
+      startedAt: row.takeover_started_at ?? ''
+    };
+  }
+
+  /**
+   * Starts a takeover unless another staff member already holds the session.
+   * Returns whoever holds it afterwards, so callers can detect the conflict.
+   */
+  async start(organizationId: string, sessionId: string, staff: TakeoverStaff): Promise<SessionTakeover | null> {
+    const startedAt = new Date().toISOString();
+    const result = await this.env.DB.prepare(`
+      UPDATE chat_sessions
+         SET takeover_user_id = ?, takeover_user_name = ?, takeover_started_at = ?, updated_at = ?
+       WHERE id = ? AND organization_id = ? AND takeover_user_id IS NULL
+    `).bind(staff.id, staff.name, startedAt, startedAt, sessionId, organizationId).run();
+
+    const changes = ((result.meta ?? {}) as { changes?: number }).changes ?? 0;
+    if (changes === 0) {
+      return this.getActive(organizationId, sessionId);
+    }
+
+    await SessionService.persistMessage(this.env, {
+      sessionId,
+      organizationId,
+      role: 'system',
+      content: buildTakeoverStartedMessage(staff.name),
+      metadata: { type: 'takeover_started', staffName: staff.name, staffUserId: staff.id }
+    });
+    await this.audit(organizationId, sessionId, 'takeover_started', `${staff.name} took over the conversation`, staff);
+
+    return { userId: staff.id, staffName: staff.name, startedAt };
+  }
+
+  /**
+   * Stores a staff reply. Returns null unless the staff member holds the takeover.
+   */
+  async sendMessage(organizationId: string, sessionId: string, staff: TakeoverStaff, content: string): Promise<TranscriptMessage | null> {
+    const active = await this.getActive(organizationId, sessionId);
+    if (!active || active.userId !== staff.id) {
+      return null;
+    }
+
+    const message: TranscriptMessage = {
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      content,
+      metadata: { type: 'staff_message', staffName: active.staffName, staffUserId: staff.id },
+      createdAt: new Date().toISOString()
+    };
+
+    await SessionService.persistMessage(this.env, {
+      sessionId,
+      organizationId,
+      role: message.role,
+      content: message.content,
+      metadata: message.metadata,
+      messageId: message.id,
+      createdAt: Date.parse(message.createdAt)
+    });
+
+    return message;
+  }
+
+  /**
+   * Hands the session back to the AI. The transcript, including staff replies,
+   * stays in chat_messages so the agent resumes with the full conversation.
+   */
+  async end(organizationId: string, sessionId: string, staff: TakeoverStaff): Promise<boolean> {
+    const active = await this.getActive(organizationId, sessionId);
+    if (!active) {
+      return false;
+    }
+
+    const now = new Date().toISOString();
+    await this.env.DB.prepare(`
+      UPDATE chat_sessions
+         SET takeover_user_id = NULL, takeover_user_name = NULL, takeover_started_at = NULL, updated_at = ?
+       WHERE id = ? AND organization_id = ?
+    `).bind(now, sessionId, organizationId).run();
+
+    await SessionService.persistMessage(this.env, {
+      sessionId,
+      organizationId,
+      role: 'system',
+      content: buildTakeoverEndedMessage(active.staffName),
+      metadata: { type: 'takeover_ended', staffName: active.staffName, staffUserId: active.userId }
+    });
+    await this.audit(organizationId, sessionId, 'takeover_ended', `${staff.name} handed the conversation back to the AI`, staff);
+
+    return true;
+  }
+
+  /**
+   * Transcript for the staff view, oldest first. Pass the last seen createdAt
+   * to poll for new messages only.
+   */
+  async listMessages(organizationId: string, sessionId: string, after?: string | null): Promise<TranscriptMessage[]> {
+    const rows = await this.env.DB.prepare(`
+      SELECT id, role, content, metadata, created_at
+      FROM chat_messages
+      WHERE session_id = ? AND organization_id = ? AND created_at > ?
+      ORDER BY created_at ASC
+      LIMIT ?
+    `).bind(sessionId, organizationId, after ?? '', MAX_TRANSCRIPT_MESSAGES).all<TranscriptRow>();
+
+    return (rows.results ?? []).map(mapRow);
+  }
+
+  /**
+   * Staff replies and takeover markers the client has not seen yet.
+   */
+  async getClientEventsSince(organizationId: string, sessionId: string, after: string): Promise<TranscriptMessage[]> {
+    const rows = await this.env.DB.prepare(`
+      SELECT id, role, content, metadata, created_at
+      FROM chat_messages
+      WHERE session_id = ? AND organization_id = ? AND created_at > ? AND role IN ('assistant', 'system')
+      ORDER BY created_at ASC
+      LIMIT ?
+    `).bind(sessionId, organizationId, after, MAX_TRANSCRIPT_MESSAGES).all<TranscriptRow>();
+
+    return (rows.results ?? []).map(mapRow).filter(isTakeoverMessage);
+  }
+
+  private async audit(organizationId: string, sessionId: string, eventType: string, title: string, staff: TakeoverStaff): Promise<void> {
+    try {
+      await new ActivityService(this.env).createEvent({
+        type: 'session_event',
+        eventType,
+        title,
+        description: title,
+        eventDate: new Date().toISOString(),
+        actorType: 'lawyer',
+        actorId: staff.id,
+        metadata: { sessionId, staffName: staff.name }
+      }, organizationId);
+    } catch (error) {
+      Logger.warn('Failed to record takeover audit event', {
+        sessionId,
+        organizationId,
+        eventType,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
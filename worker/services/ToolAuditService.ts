@@ -0,0 +1,325 @@
+import type { Env } from '../types.js';
+import { ToolCallParser } from '../utils/toolCallParser.js';
+import { ALERT_THRESHOLDS, CRITICAL_TOOLS } from '../utils/toolConfig.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * - success: the tool ran and reported success
+ * - failure: the tool ran and reported failure (invalid arguments, downstream rejection)
+ * - error: the tool threw or does not exist
+ * - blocked: the call was never executed (document-only turn, state gate, questionnaire)
+ */
+export type ToolCallOutcome = 'success' | 'failure' | 'error' | 'blocked';
+
+export interface ToolCallAuditInput {
+  organizationId?: string | null;
+  sessionId?: string | null;
+  correlationId?: string | null;
+  toolName: string;
+  arguments?: unknown;
+  outcome: ToolCallOutcome;
+  errorMessage?: string | null;
+  latencyMs?: number | null;
+  model?: string | null;
+}
+
+export interface ToolCallAuditEntry {
+  id: string;
+  organizationId: string | null;
+  sessionId: string | null;
+  correlationId: string | null;
+  toolName: string;
+  arguments: Record<string, unknown> | null;
+  outcome: ToolCallOutcome;
+  errorMessage: string | null;
+  latencyMs: number | null;
+  model: string | null;
+  createdAt: string;
+}
+
+export interface ToolCallAuditQuery {
+  sessionId?: string;
+  toolName?: string;
+  outcome?: ToolCallOutcome;
+  since?: string;
+  until?: string;
+  /** createdAt of the last entry of the previous page. */
+  before?: string;
+  /** id of the last entry of the previous page; breaks ties between entries sharing `before`. */
+  beforeId?: string;
+  limit?: number;
+}
+
+export interface ToolUsageSummary {
+  toolName: string;
+  calls: number;
+  errors: number;
+  lastUsedAt: string | null;
+}
+
+export type ToolUsageAlertIssue = 'never_used' | 'stale' | 'high_error_rate';
+
+export interface ToolUsageAlert {
+  toolName: string;
+  issue: ToolUsageAlertIssue;
+  lastUsedAt: string | null;
+  hoursSinceLastUse?: number;
+  calls?: number;
+  errors?: number;
+  errorRate?: number;
+}
+
+interface ToolCallAuditRow {
+  id: string;
+  organization_id: string | null;
+  session_id: string | null;
+  correlation_id: string | null;
+  tool_name: string;
+  arguments: string | null;
+  outcome: string;
+  error_message: string | null;
+  latency_ms: number | null;
+  model: string | null;
+  created_at: string;
+}
+
+interface ToolUsageRow {
+  tool_name: string;
+  calls: number;
+  errors: number | null;
+}
+
+interface ToolLastUsedRow {
+  tool_name: string;
+  last_used_at: string | null;
+}
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+const MAX_ERROR_MESSAGE_LENGTH = 500;
+const HOUR_MS = 60 * 60 * 1000;
+
+function parseArguments(value: string | null): Record<string, unknown> | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+function mapRow(row: ToolCallAuditRow): ToolCallAuditEntry {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    sessionId: row.session_id,
+    correlationId: row.correlation_id,
+    toolName: row.tool_name,
+    arguments: parseArguments(row.arguments),
+    outcome: row.outcome as ToolCallOutcome,
+    errorMessage: row.error_message,
+    latencyMs: row.latency_ms,
+    model: row.model,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Applies the ALERT_THRESHOLDS checks to usage of the critical tools. Usage is
+ * counted over the STALE_HOURS window; `lastUsed` carries the latest call ever
+ * recorded for each tool.
+ */
+export function evaluateToolUsage(
+  usage: readonly ToolUsageSummary[],
+  lastUsed: ReadonlyMap<string, string | null>,
+  now: Date = new Date()
+): ToolUsageAlert[] {
+  const alerts: ToolUsageAlert[] = [];
+
+  for (const toolName of CRITICAL_TOOLS) {
+    const lastUsedAt = lastUsed.get(toolName) ?? null;
+    if (!lastUsedAt) {
+      alerts.push({ toolName, issue: 'never_used', lastUsedAt: null });
+      continue;
+    }
+
+    const hoursSinceLastUse = (now.getTime() - new Date(lastUsedAt).getTime()) / HOUR_MS;
+    if (hoursSinceLastUse > ALERT_THRESHOLDS.STALE_HOURS) {
+      alerts.push({ toolName, issue: 'stale', lastUsedAt, hoursSinceLastUse: Math.round(hoursSinceLastUse) });
+    }
+
+    const stats = usage.find(summary => summary.toolName === toolName);
+    if (stats && stats.calls > ALERT_THRESHOLDS.MIN_CALLS_FOR_ERROR_RATE) {
+      const errorRate = stats.errors / stats.calls;
+      if (errorRate > ALERT_THRESHOLDS.ERROR_RATE_THRESHOLD) {
+        alerts.push({ toolName, issue: 'high_error_rate', lastUsedAt, calls: stats.calls, errors: stats.errors, errorRate });
+      }
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * D1-backed audit log of agent tool invocations. Replaces the per-isolate
+ * in-memory counters, so usage and alerts reflect every worker.
+ */
+export class ToolAuditService {
+  constructor(private env: Env) {}
+
+  /**
+   * Persists one invocation. Auditing must never break a tool call, so
+   * failures are logged and swallowed.
+   */
+  async record(input: ToolCallAuditInput): Promise<void> {
+    const sanitizedArguments = input.arguments === undefined
+      ? null
+      : JSON.stringify(ToolCallParser.sanitizeParameters(input.arguments));
+
+    try {
+      await this.env.DB.prepare(`
+        INSERT INTO tool_call_audit (
+          id, organization_id, session_id, correlation_id, tool_name, arguments,
+          outcome, error_message, latency_ms, model, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        crypto.randomUUID(),
+        input.organizationId ?? null,
+        input.sessionId ?? null,
+        input.correlationId ?? null,
+        input.toolName,
+        sanitizedArguments,
+        input.outcome,
+        input.errorMessage ? input.errorMessage.slice(0, MAX_ERROR_MESSAGE_LENGTH) : null,
+        typeof input.latencyMs === 'number' ? Math.round(input.latencyMs) : null,
+        input.model ?? null,
+        new Date().toISOString()
+      ).run();
+    } catch (error) {
+      Logger.warn('Failed to record tool call audit entry', {
+        toolName: input.toolName,
+        outcome: input.outcome,
+        sessionId: input.sessionId,
+        organizationId: input.organizationId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Newest first. Pass the last entry's createdAt and id as `before` and `beforeId` to page back.
+   */
+  async list(organizationId: string, query: ToolCallAuditQuery = {}): Promise<ToolCallAuditEntry[]> {
+    const conditions = ['organization_id = ?'];
+    const params: unknown[] = [organizationId];
+
+    if (query.sessionId) {
+      conditions.push('session_id = ?');
+      params.push(query.sessionId);
+    }
+    if (query.toolName) {
+      conditions.push('tool_name = ?');
+      params.push(query.toolName);
+    }
+    if (query.outcome) {
+      conditions.push('outcome = ?');
+      params.push(query.outcome);
+    }
+    if (query.since) {
+      conditions.push('created_at >= ?');
+      params.push(query.since);
+    }
+    if (query.until) {
+      conditions.push('created_at <= ?');
+      params.push(query.until);
+    }
+    if (query.before && query.beforeId) {
+      conditions.push('(created_at < ? OR (created_at = ? AND id < ?))');
+      params.push(query.before, query.before, query.beforeId);
+    } else if (query.before) {
+      conditions.push('created_at < ?');
+      params.push(query.before);
+    }
+
+    const limit = Math.min(query.limit ?? DEFAULT_AUDIT_PAGE_SIZE, MAX_AUDIT_PAGE_SIZE);
+    const rows = await this.env.DB.prepare(`
+      SELECT id, organization_id, session_id, correlation_id, tool_name, arguments,
+             outcome, error_message, latency_ms, model, created_at
+        FROM tool_call_audit
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ?
+    `).bind(...params, limit).all<ToolCallAuditRow>();
+
+    return (rows.results ?? []).map(mapRow);
+  }
+
+  /**
+   * Per-tool call and error counts since the given time. Blocked calls never
+   * ran, so they count toward neither.
+   */
+  async summarize(since: string, organizationId?: string): Promise<ToolUsageSummary[]> {
+    const rows = await this.env.DB.prepare(`
+      SELECT tool_name,
+             COUNT(*) AS calls,
+             SUM(CASE WHEN outcome IN ('failure', 'error') THEN 1 ELSE 0 END) AS errors
+        FROM tool_call_audit
+       WHERE created_at >= ?
+         AND outcome != 'blocked'
+         ${organizationId ? 'AND organization_id = ?' : ''}
+       GROUP BY tool_name
+       ORDER BY calls DESC
+    `).bind(...(organizationId ? [since, organizationId] : [since])).all<ToolUsageRow>();
+
+    const lastUsed = await this.getLastUsed((rows.results ?? []).map(row => row.tool_name), organizationId);
+    return (rows.results ?? []).map(row => ({
+      toolName: row.tool_name,
+      calls: Number(row.calls) || 0,
+      errors: Number(row.errors) || 0,
+      lastUsedAt: lastUsed.get(row.tool_name) ?? null
+    }));
+  }
+
+  /**
+   * Runs the ALERT_THRESHOLDS checks against the audit log and logs each alert.
+   * Called from the scheduled handler.
+   */
+  async checkAlerts(now: Date = new Date()): Promise<ToolUsageAlert[]> {
+    const since = new Date(now.getTime() - ALERT_THRESHOLDS.STALE_HOURS * HOUR_MS).toISOString();
+    const usage = await this.summarize(since);
+    const lastUsed = await this.getLastUsed(CRITICAL_TOOLS);
+    const alerts = evaluateToolUsage(usage, lastUsed, now);
+
+    for (const alert of alerts) {
+      Logger.warn('🚨 Tool Usage Alert:', {
+        ...alert,
+        errorRate: alert.errorRate === undefined ? undefined : `${Math.round(alert.errorRate * 100)}%`,
+        windowHours: ALERT_THRESHOLDS.STALE_HOURS,
+        timestamp: now.toISOString()
+      });
+    }
+
+    return alerts;
+  }
+
+  private async getLastUsed(toolNames: readonly string[], organizationId?: string): Promise<Map<string, string | null>> {
+    if (toolNames.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.env.DB.prepare(`
+      SELECT tool_name, MAX(created_at) AS last_used_at
+        FROM tool_call_audit
+       WHERE tool_name IN (${toolNames.map(() => '?').join(', ')})
+         AND outcome != 'blocked'
+         ${organizationId ? 'AND organization_id = ?' : ''}
+       GROUP BY tool_name
+    `).bind(...toolNames, ...(organizationId ? [organizationId] : [])).all<ToolLastUsedRow>();
+
+    return new Map((rows.results ?? []).map(row => [row.tool_name, row.last_used_at]));
+  }
+}
@@ -0,0 +1,244 @@
+import type { Env } from '../types.js';
+import type { Organization } from './OrganizationService.js';
+import { Logger } from '../utils/logger.js';
+
+export type SubscriptionTier = 'free' | 'plus' | 'business' | 'enterprise';
+
+/**
+ * Monthly allowance of a subscription tier; null means unlimited.
+ */
+export interface UsageQuota {
+  monthlyConversations: number | null;
+  monthlyTokens: number | null;
+}
+
+export const TIER_QUOTAS: Readonly<Record<SubscriptionTier, UsageQuota>> = {
+  free: { monthlyConversations: 50, monthlyTokens: 500_000 },
+  plus: { monthlyConversations: 1_000, monthlyTokens: 10_000_000 },
+  business: { monthlyConversations: 10_000, monthlyTokens: 100_000_000 },
+  enterprise: { monthlyConversations: null, monthlyTokens: null }
+};
+
+export interface UsageTurnInput {
+  organizationId: string;
+  sessionId?: string | null;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+}
+
+export interface DailyUsage {
+  date: string;
+  conversations: number;
+  turns: number;
+  promptTokens: number;
+  completionTokens: number;
+  averageLatencyMs: number | null;
+}
+
+export interface UsageTotals {
+  conversations: number;
+  turns: number;
+  tokens: number;
+}
+
+export interface QuotaStatus {
+  tier: SubscriptionTier;
+  quota: UsageQuota;
+  monthToDate: UsageTotals;
+  periodStart: string;
+  exceeded: boolean;
+  exceededLimit?: 'conversations' | 'tokens';
+}
+
+interface DailyUsageRow {
+  usage_date: string;
+  conversations: number;
+  turns: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_latency_ms: number;
+}
+
+interface UsageTotalsRow {
+  conversations: number | null;
+  turns: number | null;
+  tokens: number | null;
+}
+
+export function resolveSubscriptionTier(tier: Organization['subscriptionTier']): SubscriptionTier {
+  return tier && tier in TIER_QUOTAS ? tier : 'free';
+}
+
+/**
+ * First day of the UTC month containing `now`, as YYYY-MM-DD.
+ */
+export function monthStart(now: Date = new Date()): string {
+  return `${now.toISOString().slice(0, 7)}-01`;
+}
+
+/**
+ * Which monthly limit, if any, the usage so far has reached. A conversation
+ * already counted this month may continue past the conversation limit.
+ */
+export function findExceededLimit(
+  quota: UsageQuota,
+  usage: UsageTotals,
+  conversationCounted: boolean
+): 'conversations' | 'tokens' | undefined {
+  if (quota.monthlyTokens !== null && usage.tokens >= quota.monthlyTokens) {
+    return 'tokens';
+  }
+  if (!conversationCounted && quota.monthlyConversations !== null && usage.conversations >= quota.monthlyConversations) {
+    return 'conversations';
+  }
+  return undefined;
+}
+
+function mapDailyRow(row: DailyUsageRow): DailyUsage {
+  return {
+    date: row.usage_date,
+    conversations: row.conversations,
+    turns: row.turns,
+    promptTokens: row.prompt_tokens,
+    completionTokens: row.completion_tokens,
+    averageLatencyMs: row.turns > 0 ? Math.round(row.total_latency_ms / row.turns) : null
+  };
+}
+
+/**
+ * Meters the intake agent's model usage per organization and enforces the
+ * monthly quotas of its subscription tier.
+ */
+export class UsageService {
+  constructor(private env: Env) {}
+
+  /**
+   * Records one model turn and folds it into the day's rollup. Metering must
+   * not break the chat, so failures are logged and swallowed.
+   */
+  async recordTurn(input: UsageTurnInput, now: Date = new Date()): Promise<void> {
+    const createdAt = now.toISOString();
+    const usageDate = createdAt.slice(0, 10);
+    const promptTokens = Math.max(0, Math.round(input.promptTokens));
+    const completionTokens = Math.max(0, Math.round(input.completionTokens));
+    const latencyMs = Math.max(0, Math.round(input.latencyMs));
+
+    try {
+      const newConversation = input.sessionId
+        ? !(await this.isConversationCounted(input.sessionId, now))
+        : false;
+
+      await this.env.DB.batch([
+        this.env.DB.prepare(`
+          INSERT INTO ai_usage_events (
+            id, organization_id, session_id, model, prompt_tokens, completion_tokens, latency_ms, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `).bind(
+          crypto.randomUUID(),
+          input.organizationId,
+          input.sessionId ?? null,
+          input.model,
+          promptTokens,
+          completionTokens,
+          latencyMs,
+          createdAt
+        ),
+        this.env.DB.prepare(`
+          INSERT INTO organization_usage_daily (
+            organization_id, usage_date, conversations, turns, prompt_tokens, completion_tokens, total_latency_ms, updated_at
+          ) VALUES (?, ?, ?, 1, ?, ?, ?, ?)
+          ON CONFLICT(organization_id, usage_date) DO UPDATE SET
+            conversations = conversations + excluded.conversations,
+            turns = turns + 1,
+            prompt_tokens = prompt_tokens + excluded.prompt_tokens,
+            completion_tokens = completion_tokens + excluded.completion_tokens,
+            total_latency_ms = total_latency_ms + excluded.total_latency_ms,
+            updated_at = excluded.updated_at
+        `).bind(
+          input.organizationId,
+          usageDate,
+          newConversation ? 1 : 0,
+          promptTokens,
+          completionTokens,
+          latencyMs,
+          createdAt
+        )
+      ]);
+    } catch (error) {
+      Logger.warn('Failed to record AI usage', {
+        organizationId: input.organizationId,
+        sessionId: input.sessionId,
+        model: input.model,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  async getMonthToDate(organizationId: string, now: Date = new Date()): Promise<UsageTotals> {
+    const row = await this.env.DB.prepare(`
+      SELECT SUM(conversations) AS conversations,
+             SUM(turns) AS turns,
+             SUM(prompt_tokens + completion_tokens) AS tokens
+        FROM organization_usage_daily
+       WHERE organization_id = ? AND usage_date >= ?
+    `).bind(organizationId, monthStart(now)).first<UsageTotalsRow>();
+
+    return {
+      conversations: Number(row?.conversations) || 0,
+      turns: Number(row?.turns) || 0,
+      tokens: Number(row?.tokens) || 0
+    };
+  }
+
+  /**
+   * Daily rollups between two YYYY-MM-DD dates, inclusive, oldest first.
+   */
+  async listDaily(organizationId: string, from: string, to: string): Promise<DailyUsage[]> {
+    const rows = await this.env.DB.prepare(`
+      SELECT usage_date, conversations, turns, prompt_tokens, completion_tokens, total_latency_ms
+        FROM organization_usage_daily
+       WHERE organization_id = ? AND usage_date >= ? AND usage_date <= ?
+       ORDER BY usage_date ASC
+    `).bind(organizationId, from, to).all<DailyUsageRow>();
+
+    return (rows.results ?? []).map(mapDailyRow);
+  }
+
+  /**
+   * Month-to-date usage against the organization's tier quota. Pass the
+   * session to let a conversation that already started this month continue.
+   */
+  async checkQuota(
+    organization: Pick<Organization, 'id' | 'subscriptionTier'>,
+    sessionId?: string,
+    now: Date = new Date()
+  ): Promise<QuotaStatus> {
+    const tier = resolveSubscriptionTier(organization.subscriptionTier);
+    const quota = TIER_QUOTAS[tier];
+    const monthToDate = await this.getMonthToDate(organization.id, now);
+    const conversationCounted = sessionId ? await this.isConversationCounted(sessionId, now) : false;
+    const exceededLimit = findExceededLimit(quota, monthToDate, conversationCounted);
+
+    return {
+      tier,
+      quota,
+      monthToDate,
+      periodStart: monthStart(now),
+      exceeded: exceededLimit !== undefined,
+      ...(exceededLimit ? { exceededLimit } : {})
+    };
+  }
+
+  private async isConversationCounted(sessionId: string, now: Date): Promise<boolean> {
+    const row = await this.env.DB.prepare(`
+      SELECT 1 AS counted
+        FROM ai_usage_events
+       WHERE session_id = ? AND created_at >= ?
+       LIMIT 1
+    `).bind(sessionId, monthStart(now)).first<{ counted: number }>();
+
+    return Boolean(row);
+  }
+}
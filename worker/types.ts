@@ -63,6 +63,16 @@ export interface Env {
   AI_MAX_ELEMENTS?: string;
   AI_MAX_STRUCTURED_PAYLOAD_LENGTH?: string;
   
+  // Knowledge base embeddings ('local' selects the in-worker hashing embedder)
+  KNOWLEDGE_EMBEDDER?: string;
+  
+  // Model for the per-turn intent classifier ('keywords' skips the model)
+  INTENT_CLASSIFIER_MODEL?: string;
+  
+  // Model circuit breaker (failed requests before a model is skipped, seconds before it is probed again)
+  MODEL_CIRCUIT_FAILURE_THRESHOLD?: string;
+  MODEL_CIRCUIT_COOLDOWN_SECONDS?: string;
+  
   // Environment flags
   NODE_ENV?: string;
   DEBUG?: string;
@@ -13,6 +13,19 @@ export async function parseJsonBody(request: Request) {
 
 // Agent handles matter questions - no manual storage needed
 
+export interface MatterRecordDetails {
+  clientName?: string;
+  clientEmail?: string | null;
+  clientPhone?: string | null;
+  opposingParty?: string | null;
+  status?: 'lead' | 'pending_review';
+  priority?: 'low' | 'normal' | 'high';  // overrides the priority derived from urgency
+  statuteOfLimitations?: string | null;  // YYYY-MM-DD
+  courtJurisdiction?: string | null;
+  tags?: string[];
+  customFields?: Record<string, unknown>;
+}
+
 export async function createMatterRecord(
   env: Env,
   organizationId: string,
@@ -20,7 +33,8 @@ export async function createMatterRecord(
   service: string,
   description: string,
   urgency: string = 'normal',
-  ctx?: ExecutionContext
+  ctx?: ExecutionContext,
+  details: MatterRecordDetails = {}
 ): Promise<string> {
   try {
     // const matterId = crypto.randomUUID(); // REMOVE THIS LINE
@@ -35,19 +49,27 @@ export async function createMatterRecord(
     const matterNumber = `MAT-${year}-${(count + 1).toString().padStart(3, '0')}`;
     await env.DB.prepare(`
       INSERT INTO matters (
-        id, organization_id, client_name, matter_type, title, description, status, priority, 
-        lead_source, matter_number, custom_fields, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, 'lead', ?, 'website', ?, ?, datetime('now'))
+        id, organization_id, client_name, client_email, client_phone, matter_type, title, description,
+        status, priority, lead_source, opposing_party, matter_number, tags, custom_fields,
+        statute_of_limitations, court_jurisdiction, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'website', ?, ?, ?, ?, ?, ?, datetime('now'))
     `).bind(
       matterId,
       organizationId,
-      'Client (AI Intake)', // Default client name for AI-generated matters
+      details.clientName || 'Client (AI Intake)', // Default client name for AI-generated matters
+      details.clientEmail ?? null,
+      details.clientPhone ?? null,
       service,
       `${service} Matter`,
       description,
-      urgency === 'urgent' ? 'high' : urgency === 'somewhat urgent' ? 'normal' : 'low',
+      details.status ?? 'lead',
+      details.priority ?? (urgency === 'urgent' ? 'high' : urgency === 'somewhat urgent' ? 'normal' : 'low'),
+      details.opposingParty ?? null,
       matterNumber,
-      JSON.stringify({ sessionId, source: 'ai-intake' })
+      details.tags && details.tags.length > 0 ? JSON.stringify(details.tags) : null,
+      JSON.stringify({ ...details.customFields, sessionId, source: 'ai-intake' }),
+      details.statuteOfLimitations ?? null,
+      details.courtJurisdiction ?? null
     ).run();
     
     // Create activity event for matter creation (non-blocking)
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { normalizeDomain, getConfiguredDomain, isValidCookieDomain } from '../domain.js';
+import { normalizeDomain, getConfiguredDomain, isValidCookieDomain, isPrivateNetworkHost, isTrustedTransportUrl } from '../domain.js';
 
 describe('domain utilities', () => {
   describe('normalizeDomain', () => {
@@ -91,4 +91,36 @@ describe('domain utilities', () => {
       expect(isValidCookieDomain(123 as unknown as string)).toBe(false);
     });
   });
+
+  describe('isPrivateNetworkHost', () => {
+    it('should accept loopback and private-network hosts', () => {
+      expect(isPrivateNetworkHost('localhost')).toBe(true);
+      expect(isPrivateNetworkHost('gpu-box.local')).toBe(true);
+      expect(isPrivateNetworkHost('127.0.0.1')).toBe(true);
+      expect(isPrivateNetworkHost('10.0.0.12')).toBe(true);
+      expect(isPrivateNetworkHost('172.16.4.2')).toBe(true);
+      expect(isPrivateNetworkHost('172.31.255.1')).toBe(true);
+      expect(isPrivateNetworkHost('192.168.1.20')).toBe(true);
+      expect(isPrivateNetworkHost('[::1]')).toBe(true);
+      expect(isPrivateNetworkHost('[fd12:3456::1]')).toBe(true);
+    });
+
+    it('should reject public hosts', () => {
+      expect(isPrivateNetworkHost('llm.example.com')).toBe(false);
+      expect(isPrivateNetworkHost('localhost.example.com')).toBe(false);
+      expect(isPrivateNetworkHost('172.32.0.1')).toBe(false);
+      expect(isPrivateNetworkHost('8.8.8.8')).toBe(false);
+      expect(isPrivateNetworkHost('[2001:db8::1]')).toBe(false);
+    });
+  });
+
+  describe('isTrustedTransportUrl', () => {
+    it('should allow HTTPS anywhere and HTTP only to private hosts', () => {
+      expect(isTrustedTransportUrl('https://llm.example.com/v1')).toBe(true);
+      expect(isTrustedTransportUrl('http://192.168.1.20:8000/v1')).toBe(true);
+      expect(isTrustedTransportUrl('http://llm.example.com/v1')).toBe(false);
+      expect(isTrustedTransportUrl('ftp://10.0.0.12/v1')).toBe(false);
+      expect(isTrustedTransportUrl('not a url')).toBe(false);
+    });
+  });
 });
@@ -5,6 +5,7 @@ export interface CloudflareLocationInfo {
   country?: string;
   state?: string;
   city?: string;
+  postalCode?: string;
   continent?: string;
   latitude?: number;
   longitude?: number;
@@ -12,18 +13,29 @@ export interface CloudflareLocationInfo {
   error?: string;
 }
 
+// Geolocation Cloudflare attaches to the request in Workers
+interface RequestCfLocation {
+  country?: string;
+  region?: string;
+  regionCode?: string;
+  city?: string;
+  postalCode?: string;
+}
+
 /**
- * Extracts location information from Cloudflare headers
+ * Extracts location information from the request's `cf` object, falling back to Cloudflare headers
  * @param request - The incoming request object
  * @returns CloudflareLocationInfo with location data
  */
 export function getCloudflareLocation(request: Request): CloudflareLocationInfo {
   try {
     const headers = request.headers;
+    const cf = (request as Request & { cf?: RequestCfLocation }).cf;
     
-    const country = headers.get('CF-IPCountry');
-    const state = headers.get('CF-IPState');
-    const city = headers.get('CF-IPCity');
+    const country = cf?.country || headers.get('CF-IPCountry');
+    const state = cf?.regionCode || cf?.region || headers.get('CF-IPState');
+    const city = cf?.city || headers.get('CF-IPCity');
+    const postalCode = cf?.postalCode || headers.get('CF-IPPostalCode');
     const continent = headers.get('CF-IPContinent');
     const latitude = headers.get('CF-IPLatitude');
     const longitude = headers.get('CF-IPLongitude');
@@ -33,6 +45,7 @@ export function getCloudflareLocation(request: Request): CloudflareLocationInfo
       country,
       state,
       city,
+      postalCode,
       continent,
       latitude,
       longitude,
@@ -45,6 +58,7 @@ export function getCloudflareLocation(request: Request): CloudflareLocationInfo
         country,
         state: state || undefined,
         city: city || undefined,
+        postalCode: postalCode || undefined,
         continent: continent || undefined,
         latitude: latitude ? parseFloat(latitude) : undefined,
         longitude: longitude ? parseFloat(longitude) : undefined,
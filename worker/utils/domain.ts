@@ -74,3 +74,44 @@ export function isValidCookieDomain(domain: string): boolean {
   
   return domainRegex.test(domain);
 }
+
+/**
+ * Checks whether a host is loopback or on a private network, where plain HTTP
+ * does not cross the public internet
+ * @param hostname - Hostname as returned by URL.hostname (IPv6 in brackets)
+ * @returns true for localhost, .local names, and loopback or private IPv4/IPv6 addresses
+ * @example
+ * isPrivateNetworkHost('192.168.1.20') // true
+ * isPrivateNetworkHost('llm.example.com') // false
+ */
+export function isPrivateNetworkHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local')) {
+    return true;
+  }
+
+  const ipv4 = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (ipv4) {
+    const [a, b] = ipv4.slice(1, 3).map(Number);
+    return a === 127 || a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+  }
+
+  // IPv6 loopback and unique local addresses (fc00::/7)
+  return host === '::1' || /^f[cd][0-9a-f]{0,2}:/.test(host);
+}
+
+/**
+ * Checks whether credentials can be sent to a URL: HTTPS to any host, or plain
+ * HTTP to a loopback or private-network host
+ * @param value - Absolute URL
+ * @returns false for other schemes, public plain-HTTP hosts, and unparseable URLs
+ */
+export function isTrustedTransportUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || (url.protocol === 'http:' && isPrivateNetworkHost(url.hostname));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,85 @@
+export interface IcsParticipant {
+  name: string;
+  email: string;
+}
+
+export interface IcsEventInput {
+  uid: string;
+  start: string; // ISO 8601 instant
+  end: string; // ISO 8601 instant
+  summary: string;
+  description?: string;
+  location?: string;
+  organizer: IcsParticipant;
+  attendees: readonly IcsParticipant[];
+  createdAt?: string;
+}
+
+const MAX_LINE_OCTETS = 75;
+
+function formatIcsDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+}
+
+function escapeParam(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Builds a single-event iCalendar invite (METHOD:REQUEST) that calendar clients
+ * can add directly. Times are written in UTC.
+ */
+export function buildIcsEvent(input: IcsEventInput): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Blawby//Consultation Scheduling//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:REQUEST',
+    'BEGIN:VEVENT',
+    `UID:${input.uid}`,
+    `DTSTAMP:${formatIcsDate(input.createdAt ?? new Date().toISOString())}`,
+    `DTSTART:${formatIcsDate(input.start)}`,
+    `DTEND:${formatIcsDate(input.end)}`,
+    `SUMMARY:${escapeText(input.summary)}`,
+    ...(input.description ? [`DESCRIPTION:${escapeText(input.description)}`] : []),
+    ...(input.location ? [`LOCATION:${escapeText(input.location)}`] : []),
+    `ORGANIZER;CN=${escapeParam(input.organizer.name)}:mailto:${input.organizer.email}`,
+    ...input.attendees.map(attendee =>
+      `ATTENDEE;CN=${escapeParam(attendee.name)};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${attendee.email}`
+    ),
+    'STATUS:CONFIRMED',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
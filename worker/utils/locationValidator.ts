@@ -268,6 +268,28 @@ const COUNTRY_NAMES_TO_CODES = Object.entries(COUNTRIES).reduce((acc, [code, nam
   return acc;
 }, {} as Record<string, string>);
 
+/**
+ * Returns the full name for a US state code (e.g. "NC" -> "North Carolina")
+ * @param code - Two-letter state code
+ * @returns State name or undefined if the code is unknown
+ */
+export function getStateName(code: string): string | undefined {
+  return (US_STATES as Record<string, string>)[code.toUpperCase()];
+}
+
+/**
+ * Returns the two-letter code for a US state name or code (e.g. "north carolina" -> "NC")
+ * @param nameOrCode - State name or two-letter code
+ * @returns State code or undefined if it is not a US state or territory
+ */
+export function getStateCode(nameOrCode: string): string | undefined {
+  const trimmed = nameOrCode.trim();
+  if ((US_STATES as Record<string, string>)[trimmed.toUpperCase()]) {
+    return trimmed.toUpperCase();
+  }
+  return STATE_NAMES_TO_CODES[trimmed.toLowerCase()];
+}
+
 /**
  * Validates and parses a location string
  * @param location - The location string to validate
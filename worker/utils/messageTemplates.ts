@@ -35,7 +35,14 @@ export interface MatterSummaryData {
   consultationFee?: number;
   paymentLink?: string;
   pdfFilename?: string;
+  pendingReview?: boolean;
   missingInfo?: string[];
+  deadlineWarning?: DeadlineWarningData;
+}
+
+export interface DeadlineWarningData {
+  deadline: string;       // YYYY-MM-DD
+  daysRemaining: number;
 }
 
 /**
@@ -104,6 +111,13 @@ export function generateNoPaymentMessage(): string {
   return `I'll submit this to our legal organization for review. A lawyer will contact you within 24 hours to discuss your case.`;
 }
 
+/**
+ * Generate message for matters held for staff review before acceptance
+ */
+export function generatePendingReviewMessage(): string {
+  return `Before we can move forward, our team needs to complete a routine review of your matter. A team member will follow up with next steps shortly.`;
+}
+
 /**
  * Generate PDF generation message
  */
@@ -137,14 +151,40 @@ export function generateMissingInfoMessage(missingInfo: string[]): string {
   return message;
 }
 
+/**
+ * Generate estimated filing deadline warning
+ */
+export function generateDeadlineWarningMessage(data: DeadlineWarningData): string {
+  const [year, month, day] = data.deadline.split('-').map(Number);
+  const formatted = new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+
+  if (data.daysRemaining < 0) {
+    return `**Time-Sensitive:** Based on the dates you shared, the usual deadline to file this type of claim may have passed on ${formatted}. Exceptions sometimes apply, so please speak with a lawyer as soon as possible.`;
+  }
+
+  const days = data.daysRemaining === 1 ? '1 day' : `${data.daysRemaining} days`;
+  return `**Time-Sensitive:** Based on the dates you shared, the deadline to file this type of claim may be as soon as ${formatted} (about ${days} from now). This is an estimate, not legal advice. A lawyer will confirm the deadline that applies to you.`;
+}
+
 /**
  * Generate complete matter summary with all sections
  */
 export function generateCompleteMatterMessage(data: MatterSummaryData): string {
   let message = generateMatterSummaryMessage(data);
+
+  if (data.deadlineWarning) {
+    message += `${generateDeadlineWarningMessage(data.deadlineWarning)}\n\n`;
+  }
   
   // Add payment section if required
-  if (data.requiresPayment) {
+  if (data.pendingReview) {
+    message += generatePendingReviewMessage();
+  } else if (data.requiresPayment) {
     message += generatePaymentRequiredMessage(data);
   } else {
     message += generateNoPaymentMessage();
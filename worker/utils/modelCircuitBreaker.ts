@@ -0,0 +1,192 @@
+import type { Env } from '../types.js';
+import { Logger } from './logger.js';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit record persisted per model. A missing record means closed with no
+ * recent failures.
+ */
+export interface ModelCircuitRecord {
+  state: CircuitState;
+  failures: number;
+  lastFailureAt?: number;
+  lastError?: string;
+  openedAt?: number;
+  probeStartedAt?: number;
+  updatedAt: number;
+}
+
+export interface ModelCircuitStatus extends ModelCircuitRecord {
+  model: string;
+  /** When an open circuit next lets a probe request through. */
+  retryAt?: number;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;  // consecutive failed requests within failureWindowMs that open the circuit
+  failureWindowMs: number;
+  cooldownMs: number;        // how long an open circuit routes straight to the fallback
+  probeTimeoutMs: number;    // after this a half-open probe that never reported is presumed lost
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  failureWindowMs: 2 * 60 * 1000,
+  cooldownMs: 30 * 1000,
+  probeTimeoutMs: 60 * 1000
+};
+
+const KEY_PREFIX = 'circuit:model:';
+const RECORD_TTL_SECONDS = 24 * 60 * 60;
+const MAX_ERROR_LENGTH = 200;
+
+function parsePositiveNumber(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Breaker options with the MODEL_CIRCUIT_* environment overrides applied.
+ */
+export function resolveCircuitBreakerOptions(env: Pick<Env, 'MODEL_CIRCUIT_FAILURE_THRESHOLD' | 'MODEL_CIRCUIT_COOLDOWN_SECONDS'>): CircuitBreakerOptions {
+  const threshold = parsePositiveNumber(env.MODEL_CIRCUIT_FAILURE_THRESHOLD);
+  const cooldownSeconds = parsePositiveNumber(env.MODEL_CIRCUIT_COOLDOWN_SECONDS);
+  return {
+    ...DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+    ...(threshold ? { failureThreshold: Math.floor(threshold) } : {}),
+    ...(cooldownSeconds ? { cooldownMs: cooldownSeconds * 1000 } : {})
+  };
+}
+
+/**
+ * Per-model circuit breaker shared across isolates through CHAT_SESSIONS KV.
+ * After `failureThreshold` failed requests a model's circuit opens and callers
+ * skip it; once the cooldown has passed a single request probes the model
+ * (half-open) and its outcome closes or re-opens the circuit.
+ *
+ * KV is eventually consistent, so isolates may briefly disagree and more than
+ * one probe can run at once. That only costs a few extra calls; it never blocks
+ * a request that has no other model to use.
+ */
+export class ModelCircuitBreaker {
+  private readonly options: CircuitBreakerOptions;
+
+  constructor(private env: Env, options?: Partial<CircuitBreakerOptions>) {
+    this.options = { ...resolveCircuitBreakerOptions(env), ...options };
+  }
+
+  /**
+   * Whether a request may call the model now. Claims the probe slot when an
+   * open circuit has cooled down.
+   */
+  async canAttempt(model: string, now: number = Date.now()): Promise<boolean> {
+    const record = await this.read(model);
+    if (!record || record.state === 'closed') {
+      return true;
+    }
+
+    if (record.state === 'open' && now - (record.openedAt ?? 0) < this.options.cooldownMs) {
+      return false;
+    }
+    if (record.state === 'half_open' && now - (record.probeStartedAt ?? 0) < this.options.probeTimeoutMs) {
+      return false;
+    }
+
+    await this.write(model, { ...record, state: 'half_open', probeStartedAt: now, updatedAt: now });
+    Logger.info('Model circuit half-open; probing recovery', { model, failures: record.failures });
+    return true;
+  }
+
+  async recordSuccess(model: string, now: number = Date.now()): Promise<void> {
+    const record = await this.read(model);
+    if (!record || (record.state === 'closed' && record.failures === 0)) {
+      return;
+    }
+
+    if (record.state !== 'closed') {
+      Logger.info('Model circuit closed', { model, failures: record.failures });
+    }
+    await this.write(model, { state: 'closed', failures: 0, updatedAt: now });
+  }
+
+  async recordFailure(model: string, error: unknown, now: number = Date.now()): Promise<void> {
+    const record = await this.read(model);
+    const lastError = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+    const withinWindow = record?.lastFailureAt !== undefined && now - record.lastFailureAt <= this.options.failureWindowMs;
+    const failures = (withinWindow ? record?.failures ?? 0 : 0) + 1;
+    const shouldOpen = record?.state === 'half_open' || failures >= this.options.failureThreshold;
+
+    if (shouldOpen && record?.state !== 'open') {
+      Logger.warn('Model circuit opened; routing to fallback models', {
+        model,
+        failures,
+        cooldownMs: this.options.cooldownMs,
+        error: lastError
+      });
+    }
+
+    await this.write(model, {
+      state: shouldOpen ? 'open' : record?.state === 'open' ? 'open' : 'closed',
+      failures,
+      lastFailureAt: now,
+      lastError,
+      openedAt: shouldOpen ? now : record?.openedAt,
+      updatedAt: now
+    });
+  }
+
+  async getStatus(model: string): Promise<ModelCircuitStatus> {
+    const record = await this.read(model);
+    return this.toStatus(model, record ?? { state: 'closed', failures: 0, updatedAt: 0 });
+  }
+
+  /**
+   * Every circuit with a persisted record, plus the given models as closed when
+   * they have none.
+   */
+  async listStatuses(models: readonly string[] = []): Promise<ModelCircuitStatus[]> {
+    const list = await this.env.CHAT_SESSIONS.list({ prefix: KEY_PREFIX });
+    const tracked = list.keys.map(key => key.name.slice(KEY_PREFIX.length));
+    const names = Array.from(new Set([...models, ...tracked]));
+    return Promise.all(names.map(model => this.getStatus(model)));
+  }
+
+  private toStatus(model: string, record: ModelCircuitRecord): ModelCircuitStatus {
+    return {
+      model,
+      ...record,
+      ...(record.state === 'open' && record.openedAt !== undefined
+        ? { retryAt: record.openedAt + this.options.cooldownMs }
+        : {})
+    };
+  }
+
+  private async read(model: string): Promise<ModelCircuitRecord | null> {
+    try {
+      const stored = await this.env.CHAT_SESSIONS.get(`${KEY_PREFIX}${model}`);
+      return stored ? JSON.parse(stored) as ModelCircuitRecord : null;
+    } catch (error) {
+      // An unreadable breaker must never stop a model call
+      Logger.warn('Failed to read model circuit state', {
+        model,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  private async write(model: string, record: ModelCircuitRecord): Promise<void> {
+    try {
+      await this.env.CHAT_SESSIONS.put(`${KEY_PREFIX}${model}`, JSON.stringify(record), {
+        expirationTtl: RECORD_TTL_SECONDS
+      });
+    } catch (error) {
+      Logger.warn('Failed to persist model circuit state', {
+        model,
+        state: record.state,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
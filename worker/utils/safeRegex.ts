@@ -0,0 +1,95 @@
+export const MAX_PATTERN_LENGTH = 300;
+
+interface GroupScan {
+  quantified: boolean;
+}
+
+function readQuantifier(pattern: string, index: number): { unbounded: boolean; length: number } | null {
+  const char = pattern[index];
+  if (char === '+' || char === '*') {
+    return { unbounded: true, length: 1 };
+  }
+  if (char === '?') {
+    return { unbounded: false, length: 1 };
+  }
+  if (char === '{') {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+    if (match) {
+      return { unbounded: match[2] !== undefined && match[3] === '', length: match[0].length };
+    }
+  }
+  return null;
+}
+
+/**
+ * Why an organization-supplied pattern is refused, or null when it is safe to
+ * run against chat text. Beyond being valid, a pattern must stay short and
+ * avoid the constructs that backtrack catastrophically: backreferences and an
+ * unbounded repeat of a group that already repeats, such as `(a+)+`.
+ */
+export function findUnsafePatternReason(pattern: string, flags?: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Pattern must be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+
+  try {
+    new RegExp(pattern, flags);
+  } catch {
+    return 'Pattern must be a valid regular expression';
+  }
+
+  if (/\\[1-9]|\\k</.test(pattern)) {
+    return 'Pattern must not use backreferences';
+  }
+
+  const groups: GroupScan[] = [{ quantified: false }];
+  let inClass = false;
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === '\\') {
+      index += 1;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== ']';
+      continue;
+    }
+    if (char === '[') {
+      inClass = true;
+      continue;
+    }
+    if (char === '(') {
+      groups.push({ quantified: false });
+      continue;
+    }
+
+    const quantifier = readQuantifier(pattern, index);
+    if (quantifier) {
+      if (quantifier.unbounded) {
+        groups[groups.length - 1].quantified = true;
+      }
+      index += quantifier.length - 1;
+      continue;
+    }
+
+    if (char === ')' && groups.length > 1) {
+      const group = groups.pop()!;
+      const following = readQuantifier(pattern, index + 1);
+      if (following?.unbounded && group.quantified) {
+        return 'Pattern must not repeat a group that itself repeats';
+      }
+      if (group.quantified) {
+        groups[groups.length - 1].quantified = true;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compiles a pattern that passed `findUnsafePatternReason`, or returns null.
+ */
+export function compileSafePattern(pattern: string, flags?: string): RegExp | null {
+  return findUnsafePatternReason(pattern, flags) === null ? new RegExp(pattern, flags) : null;
+}
@@ -0,0 +1,403 @@
+// Offline US geocoding: normalizes ZIP codes, cities, counties and states mentioned in
+// chat (or reported by Cloudflare) to a county and state without an external service
+
+import { CITY_COUNTIES, ZIP_PREFIX_STATES } from './usGeographyData.js';
+import { INDEPENDENT_CITIES, STATE_GEOGRAPHY } from './usGeographyCounties.js';
+import { getStateCode, getStateName } from './locationValidator.js';
+import type { CloudflareLocationInfo } from './cloudflareLocationValidator.js';
+
+export interface ResolvedLocation {
+  city?: string;
+  county?: string;     // Without the "County" suffix, e.g. "Mecklenburg"
+  state?: string;      // Two-letter code
+  zip?: string;
+  country?: string;    // ISO 3166-1 alpha-2
+  precision: 'zip' | 'city' | 'county' | 'state' | 'country';
+  source: 'user' | 'cloudflare';
+}
+
+type LocationParts = Omit<ResolvedLocation, 'precision' | 'source'>;
+
+const PRECISION_RANK: Record<ResolvedLocation['precision'], number> = {
+  country: 0,
+  state: 1,
+  county: 2,
+  city: 3,
+  zip: 4
+};
+
+const STATE_NAMES = [...new Set(ZIP_PREFIX_STATES.map(([, , state]) => state))]
+  .map(code => getStateName(code))
+  .filter((name): name is string => Boolean(name))
+  // Longest first so "West Virginia" wins over "Virginia"
+  .sort((a, b) => b.length - a.length);
+
+const STATE_NAME_PATTERN = new RegExp(`\\b(${STATE_NAMES.map(name => name.replace(/\s+/g, '\\s+')).join('|')})\\b`, 'i');
+
+// Normalized city name -> entries, so "saint paul", "St. Paul" and "st paul" agree
+const CITY_INDEX = new Map<string, Array<{ city: string; county: string; state: string }>>();
+for (const [state, cities] of Object.entries(CITY_COUNTIES)) {
+  for (const [city, county] of Object.entries(cities)) {
+    const key = normalizeName(city);
+    CITY_INDEX.set(key, [...(CITY_INDEX.get(key) ?? []), { city, county, state }]);
+  }
+}
+
+interface GeographyIndex {
+  zips: Map<number, { county: string; state: string }>;
+  // State -> normalized city name -> city and county
+  cities: Map<string, Map<string, { city: string; county: string }>>;
+  // Normalized county name -> states it appears in, to place a bare "Buncombe County"
+  countyStates: Map<string, Set<string>>;
+}
+
+let geographyIndex: GeographyIndex | null = null;
+
+/**
+ * Decodes the generated tables on first use, so requests that never mention a
+ * location don't pay for the ~41k ZIPs.
+ */
+function getGeographyIndex(): GeographyIndex {
+  if (geographyIndex) {
+    return geographyIndex;
+  }
+
+  const index: GeographyIndex = { zips: new Map(), cities: new Map(), countyStates: new Map() };
+  const addCountyState = (county: string, state: string) => {
+    const key = normalizeName(county);
+    index.countyStates.set(key, (index.countyStates.get(key) ?? new Set<string>()).add(state));
+  };
+
+  for (const [state, data] of Object.entries(STATE_GEOGRAPHY)) {
+    const counties = data.counties.split('|');
+    counties.forEach(county => addCountyState(county, state));
+
+    let zip = 0;
+    let county = 0;
+    for (const token of data.zips.split(',')) {
+      const [delta, countyIndex] = token.split(':');
+      zip += parseInt(delta, 36);
+      if (countyIndex !== undefined) {
+        county = parseInt(countyIndex, 36);
+      }
+      index.zips.set(zip, { county: counties[county], state });
+    }
+
+    const cities = new Map<string, { city: string; county: string }>();
+    for (const entry of data.cities.split('|')) {
+      const [city, countyIndex] = entry.split('=');
+      const key = normalizeName(city);
+      if (!cities.has(key)) {
+        cities.set(key, { city, county: counties[parseInt(countyIndex, 36)] });
+      }
+    }
+    index.cities.set(state, cities);
+  }
+
+  for (const [state, cities] of Object.entries(CITY_COUNTIES)) {
+    Object.values(cities).forEach(county => addCountyState(county, state));
+  }
+
+  geographyIndex = index;
+  return index;
+}
+
+const MAX_CITY_WORDS = 4;
+const NAME_WORDS = `[A-Za-z][A-Za-z.'-]*(?:\\s+[A-Za-z][A-Za-z.'-]*){0,${MAX_CITY_WORDS - 1}}`;
+
+// "charlotte, north carolina 28202"
+const CITY_STATE_NAME_PATTERN = new RegExp(`(${NAME_WORDS}),\\s*(${STATE_NAMES.map(name => name.replace(/\s+/g, '\\s+')).join('|')})\\b(?:\\s+(\\d{5})(?:-\\d{4})?\\b)?`, 'gi');
+// "Charlotte, NC"; codes must be uppercase so "so, in" or "sure, ok" don't count
+const CITY_STATE_CODE_PATTERN = new RegExp(`(${NAME_WORDS}),\\s*([A-Z]{2})\\b(?:\\s+(\\d{5})(?:-\\d{4})?\\b)?`, 'g');
+// "Mecklenburg County", "Orleans Parish"
+const COUNTY_PATTERN = /\b([A-Z][A-Za-z.'-]*(?:\s+[A-Z][A-Za-z.'-]*){0,2})\s+(?:County|Parish|Borough)\b/g;
+const LEADING_FILLER_PATTERN = /^((the|in|from|of|near|at|and|live|lives)\s+)+/i;
+// "I live in Charlotte", "we're based in Winston-Salem"; the place must be capitalized
+const CUE_PATTERN = new RegExp(`\\b(?:[Ii]n|[Ff]rom|[Nn]ear|[Aa]round|[Oo]utside(?:\\s+of)?)\\s+([A-Z][A-Za-z.'-]*(?:\\s+[A-Z][A-Za-z.'-]*){0,${MAX_CITY_WORDS - 1}})`, 'g');
+const ZIP_PATTERN = /(?<![\d$.,-])(\d{5})(?:-\d{4})?(?![\d,.]\d)/g;
+// A bare number only counts as a ZIP when something says so
+const ZIP_CUE_PATTERN = /(?:\bzip(?:\s*code)?|\bpostal\s+code|\b(?:in|from|near)|,)\s*(?:is\s*)?[:#]?\s*$/i;
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\bsaint\b/g, 'st')
+    .replace(/[.']/g, '')
+    .replace(/[-\s]+/g, ' ')
+    .trim();
+}
+
+function stripCountySuffix(county: string): string {
+  return county.replace(/\s+(county|parish|borough)$/i, '').trim();
+}
+
+export function isSameCounty(a: string, b: string): boolean {
+  return normalizeName(stripCountySuffix(a)) === normalizeName(stripCountySuffix(b));
+}
+
+export function isSameCity(a: string, b: string): boolean {
+  return normalizeName(a) === normalizeName(b);
+}
+
+/**
+ * State and, where the dataset covers it, county for a five-digit ZIP code.
+ */
+export function lookupZip(zip: string): LocationParts | null {
+  if (!/^\d{5}$/.test(zip)) {
+    return null;
+  }
+
+  const value = Number(zip);
+  const county = getGeographyIndex().zips.get(value);
+  if (county) {
+    return { zip, state: county.state, county: county.county, country: 'US' };
+  }
+
+  const prefix = Math.floor(value / 100);
+  const stateRange = ZIP_PREFIX_STATES.find(([first, last]) => prefix >= first && prefix <= last);
+  if (!stateRange) {
+    return null;
+  }
+  return { zip, state: stateRange[2], country: 'US' };
+}
+
+/**
+ * County and state for a city. Without a state only the curated cities count,
+ * and the city must be unambiguous there (Charlotte is, Portland is not).
+ */
+export function lookupCity(city: string, state?: string): LocationParts | null {
+  const key = normalizeName(city);
+  const entries = CITY_INDEX.get(key) ?? [];
+  const matches = state ? entries.filter(entry => entry.state === state) : entries;
+  if (matches.length === 1) {
+    const [match] = matches;
+    return { city: match.city, county: match.county, state: match.state, country: 'US' };
+  }
+
+  const generated = state && matches.length === 0 ? getGeographyIndex().cities.get(state)?.get(key) : undefined;
+  return generated ? { city: generated.city, county: generated.county, state, country: 'US' } : null;
+}
+
+function toResolved(parts: LocationParts, source: ResolvedLocation['source']): ResolvedLocation | null {
+  const precision: ResolvedLocation['precision'] | null = parts.zip ? 'zip'
+    : parts.city ? 'city'
+      : parts.county ? 'county'
+        : parts.state ? 'state'
+          : parts.country ? 'country'
+            : null;
+  return precision ? { ...parts, precision, source } : null;
+}
+
+/**
+ * Fills in county and state from the dataset. A ZIP outranks a city when they
+ * disagree, and a city outranks a bare state.
+ */
+export function normalizeLocation(parts: LocationParts, source: ResolvedLocation['source'] = 'user'): ResolvedLocation | null {
+  let normalized: LocationParts = { ...parts };
+
+  if (normalized.state) {
+    normalized.state = getStateCode(normalized.state) ?? normalized.state.toUpperCase();
+  }
+
+  if (normalized.zip) {
+    const zip = lookupZip(normalized.zip);
+    if (zip) {
+      const city = normalized.city ? lookupCity(normalized.city, zip.state) : null;
+      normalized = {
+        ...normalized,
+        ...zip,
+        city: city?.city ?? normalized.city,
+        county: zip.county ?? city?.county ?? (!normalized.state || zip.state === normalized.state ? normalized.county : undefined)
+      };
+    } else {
+      delete normalized.zip;
+    }
+  }
+
+  if (normalized.city && !normalized.zip) {
+    const city = lookupCity(normalized.city, normalized.state);
+    if (city) {
+      normalized = { ...normalized, ...city };
+    }
+  }
+
+  if (normalized.county) {
+    normalized.county = stripCountySuffix(normalized.county);
+    const states = getGeographyIndex().countyStates.get(normalizeName(normalized.county));
+    if (!normalized.state && states?.size === 1) {
+      normalized.state = [...states][0];
+    }
+  }
+  if (normalized.state && !normalized.country) {
+    normalized.country = 'US';
+  }
+
+  return toResolved(normalized, source);
+}
+
+/**
+ * The city in "<words>, <state>": the shortest tail of the words that names a
+ * known city, else the trailing capitalized words ("Boone", "Mint Hill").
+ */
+function pickCityBeforeComma(words: string[], state: string): string | undefined {
+  const tails = words.map((_, index) => words.slice(index).join(' '));
+  const known = tails.reverse().find(candidate => lookupCity(candidate, state));
+  if (known) {
+    return known;
+  }
+  const capitalized: string[] = [];
+  for (const word of [...words].reverse()) {
+    if (!/^[A-Z]/.test(word)) {
+      break;
+    }
+    capitalized.unshift(word);
+  }
+  return capitalized.length > 0 ? capitalized.join(' ').replace(LEADING_FILLER_PATTERN, '') || undefined : undefined;
+}
+
+function collectParts(text: string): LocationParts {
+  const parts: LocationParts = {};
+
+  for (const match of text.matchAll(CITY_STATE_NAME_PATTERN)) {
+    const state = getStateCode(match[2].replace(/\s+/g, ' '));
+    if (state) {
+      parts.state = state;
+      parts.city = pickCityBeforeComma(match[1].trim().split(/\s+/), state);
+      parts.zip = match[3] ?? parts.zip;
+    }
+  }
+
+  for (const match of text.matchAll(CITY_STATE_CODE_PATTERN)) {
+    const state = getStateCode(match[2]);
+    const words = match[1].trim().split(/\s+/);
+    // A bare code only counts next to a known city or a ZIP
+    if (state && (match[3] || words.some((_, index) => lookupCity(words.slice(index).join(' '), state)))) {
+      parts.state = state;
+      parts.city = pickCityBeforeComma(words, state);
+      parts.zip = match[3] ?? parts.zip;
+    }
+  }
+
+  for (const match of text.matchAll(ZIP_PATTERN)) {
+    const before = text.slice(0, match.index);
+    const isWholeMessage = text.trim() === match[0];
+    const followsState = /\b[A-Z]{2}\s*$/.test(before) && Boolean(getStateCode(before.trim().slice(-2)));
+    if ((isWholeMessage || followsState || ZIP_CUE_PATTERN.test(before)) && lookupZip(match[1])) {
+      parts.zip = match[1];
+    }
+  }
+
+  for (const match of text.matchAll(COUNTY_PATTERN)) {
+    const county = match[1].replace(LEADING_FILLER_PATTERN, '');
+    if (county) {
+      parts.county = county;
+    }
+  }
+
+  if (!parts.state) {
+    const state = text.match(STATE_NAME_PATTERN);
+    if (state) {
+      parts.state = getStateCode(state[1].replace(/\s+/g, ' '));
+    }
+  }
+
+  if (!parts.city) {
+    for (const match of text.matchAll(CUE_PATTERN)) {
+      const words = match[1].split(/\s+/);
+      // Longest known city name right after the cue word
+      for (let length = words.length; length > 0 && !parts.city; length--) {
+        const candidate = words.slice(0, length).join(' ');
+        if (lookupCity(candidate, parts.state)) {
+          parts.city = candidate;
+        }
+      }
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * The location a message mentions, normalized through the offline dataset, or
+ * null when it mentions none.
+ */
+export function resolveLocationFromText(text: string | null | undefined): ResolvedLocation | null {
+  if (!text || typeof text !== 'string') {
+    return null;
+  }
+  return normalizeLocation(collectParts(text));
+}
+
+/**
+ * Cloudflare's request geolocation, normalized through the offline dataset.
+ */
+export function resolveCloudflareLocation(info: CloudflareLocationInfo | null | undefined): ResolvedLocation | null {
+  if (!info?.isValid || !info.country) {
+    return null;
+  }
+  if (info.country !== 'US') {
+    return { country: info.country, precision: 'country', source: 'cloudflare' };
+  }
+  return normalizeLocation({
+    zip: info.postalCode,
+    city: info.city,
+    state: info.state,
+    country: 'US'
+  }, 'cloudflare');
+}
+
+function isConsistent(previous: ResolvedLocation, next: ResolvedLocation): boolean {
+  return (!previous.country || !next.country || previous.country === next.country)
+    && (!previous.state || !next.state || previous.state === next.state)
+    && (!previous.county || !next.county || isSameCounty(previous.county, next.county))
+    && (!previous.city || !next.city || isSameCity(previous.city, next.city));
+}
+
+/**
+ * Combines an earlier location with a newer one. A newer location that agrees
+ * with the earlier one only adds detail; one that contradicts it replaces it.
+ */
+export function mergeLocations(previous: ResolvedLocation | null | undefined, next: ResolvedLocation | null | undefined): ResolvedLocation | null {
+  if (!previous || !next) {
+    return next ?? previous ?? null;
+  }
+  if (!isConsistent(previous, next)) {
+    return next;
+  }
+
+  const merged: ResolvedLocation = { ...previous };
+  for (const [key, value] of Object.entries(next) as Array<[keyof ResolvedLocation, string | undefined]>) {
+    if (value !== undefined && key !== 'precision') {
+      (merged as unknown as Record<string, string>)[key] = value;
+    }
+  }
+  merged.precision = PRECISION_RANK[next.precision] > PRECISION_RANK[previous.precision] ? next.precision : previous.precision;
+  return merged;
+}
+
+function countySuffix(county: string, state?: string): string {
+  if ((state && INDEPENDENT_CITIES[state]?.includes(county)) || county === 'District of Columbia') {
+    return county;
+  }
+  if (state === 'LA') {
+    return `${county} Parish`;
+  }
+  return state === 'AK' ? `${county} Borough` : `${county} County`;
+}
+
+/**
+ * Human-readable form, e.g. "Charlotte, Mecklenburg County, NC".
+ */
+export function formatResolvedLocation(location: ResolvedLocation): string {
+  if (!location.state) {
+    return location.country ?? 'Unknown location';
+  }
+  if (!location.city && !location.county) {
+    return getStateName(location.state) ?? location.state;
+  }
+  return [
+    location.city,
+    location.county ? countySuffix(location.county, location.state) : undefined,
+    location.state
+  ].filter(Boolean).join(', ');
+}
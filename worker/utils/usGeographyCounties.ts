@@ -0,0 +1,277 @@
+// Generated by scripts/generate-us-geography.mjs from the GeoNames US postal code
+// file (https://www.geonames.org, CC BY 4.0). Do not edit by hand; re-run the script.
+
+/**
+ * Per state: `counties` is a '|'-separated county list. `zips` holds one
+ * token per ZIP in ascending order: the base-36 difference from the previous
+ * ZIP, plus `:<county index>` in base 36 when the county changes. `cities`
+ * holds `<city>=<county index>` pairs separated by '|', each city under the
+ * county holding most of its ZIPs.
+ */
+export const STATE_GEOGRAPHY: Readonly<Record<string, { readonly counties: string; readonly zips: string; readonly cities: string }>> = {
+  AK: {
+    counties: 'Aleutians East|Aleutians West|Anchorage|Bethel|Bristol Bay|Chugach|Copper River|Denali|Dillingham|Fairbanks North Star|Haines|Hoonah-Angoon|Juneau|Kenai Peninsula|Ketchikan Gateway|Kodiak Island|Kusilvak|Lake and Peninsula|Matanuska-Susitna|Nome|North Slope|Northwest Arctic|Petersburg|Prince of Wales-Hyder|Sitka|Skagway|Skagway-Hoonah-Angoon|Southeast Fairbanks|Wrangell|Yukon-Koyukuk',
+    zips: '24rx:2,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,5,1,a,5:3,1:1,1,1:h,1,1:f,1:3,1,1:0,1:g,1:8,1:d,1:3,1:t,1:3,2,2:g,1:h,1,1:6,1:2,1:d,1:8,2:0,1:d,1:6,1:5,1:3,1:8,1:2,1:3,1:h,1:8,1:g,2:0,2:g,1:6,1:2,1:6,1:3,1:t,1:1,8:2,3:t,1:d,1:g,1:d,1:h,1:3,1:f,1:3,1:d,1,1:0,1:4,1:3,1:f,4,1:g,1:3,1,1:i,1:f,1:h,1:3,1:t,1:8,1:i,1:3,1:d,1:g,1:4,1:3,1:d,1:8,1:3,1:1,1:d,1:h,1:3,2:f,1,1:i,2:h,1,1,1:g,1:3,1:i,1:h,1:i,1:3,1,1:g,1,1:j,1:1,1:0,1:g,1:d,1,1:t,1:g,1:i,1:3,1:d,1:4,1:j,1:d,2:i,1:t,1:i,1:5,1:8,1:3,1,1,1:d,1:i,1:j,1:1,1:5,1:i,1,1:q,1:3,1:t,1:1,1:5,1:i,1:2,2:f,4:9,1,1,1:7,1:9,1,1,1,1,1,1,1,2,2,4:t,1:k,1:t,1:k,1:t,1:9,1:t,1:l,2:7,1:t,1:r,1,1:t,1:k,2:l,1:r,1,1:j,1:t,1,1:j,1:7,1,1:t,1,1:k,1:t,1:l,1,1,1,1:j,1:t,1:7,1:t,1,1,1:k,1:t,1:l,1:j,1:l,1:r,1:t,1:k,1:t,1,1:j,1:l,1:j,1,1:l,1:t,1:9,1:r,1:t,1:j,2:r,1:t,1:k,1:j,1,1,1:l,2:t,1:k,1:9,1:k,a:c,1,1,8,1,8:b,1:c,3,1:b,1,1:a,2:b,1:m,2:b,1:m,2:o,1:n,4:p,1:b,9:c,1f:e,2:n,f,1,2,1,1,2,1,1,1:e,1:s,l:e',
+    cities: 'Adak=1|Akiachak=3|Akiak=3|Akutan=0|Alakanuk=g|Aleknagik=8|Allakaket=t|Ambler=l|Anaktuvuk Pass=k|Anchor Point=d|Anchorage=2|Anderson=7|Angoon=b|Aniak=3|Anvik=t|Arctic Village=t|Atka=1|Atqasuk=k|Auke Bay=c|Barrow=k|Beaver=t|Bethel=3|Bettles Field=t|Big Lake=i|Brevig Mission=j|Buckland=l|Cantwell=7|Central=t|Chalkyitsik=t|Chefornak=3|Chevak=g|Chicken=r|Chignik=h|Chignik Lagoon=h|Chignik Lake=h|Chitina=6|Chugiak=2|Circle=t|Clam Gulch=d|Clarks Point=8|Clear=7|Coffman Cove=n|Cold Bay=0|Cooper Landing=d|Copper Center=6|Cordova=5|Craig=n|Crooked Creek=3|Deering=l|Delta Junction=r|Denali National Park=7|Dillingham=8|Douglas=c|Dutch Harbor=1|Eagle=r|Eagle River=2|Eek=3|Egegik=h|Eielson Afb=9|Ekwok=8|Elfin Cove=b|Elim=j|Emmonak=g|Ester=9|Fairbanks=9|False Pass=0|Fort Greely=r|Fort Wainwright=9|Fort Yukon=t|Gakona=6|Galena=t|Gambell=j|Girdwood=2|Glennallen=6|Goodnews Bay=3|Grayling=t|Gustavus=b|Haines=a|Healy=7|Holy Cross=t|Homer=d|Hoonah=b|Hooper Bay=g|Hope=d|Houston=i|Hughes=t|Huslia=t|Hydaburg=n|Hyder=n|Iliamna=h|Indian=2|Jber=2|Juneau=c|Kake=m|Kaktovik=k|Kalskag=3|Kaltag=t|Karluk=f|Kasigluk=3|Kasilof=d|Kenai=d|Ketchikan=e|Kiana=l|King Cove=0|King Salmon=4|Kipnuk=3|Kivalina=l|Klawock=n|Kobuk=l|Kodiak=f|Kongiganak=3|Kotlik=g|Kotzebue=l|Koyuk=j|Koyukuk=t|Kwethluk=3|Kwigillingok=3|Lake Minchumina=t|Larsen Bay=f|Levelock=h|Lower Kalskag=3|Manley Hot Springs=t|Manokotak=8|Marshall=g|Mc Grath=t|Mekoryuk=3|Metlakatla=n|Meyers Chuck=n|Minto=t|Moose Pass=d|Mountain Village=g|Naknek=4|Napakiak=3|Nenana=t|New Stuyahok=8|Nightmute=3|Nikiski=d|Nikolai=t|Nikolski=1|Ninilchik=d|Noatak=l|Nome=j|Nondalton=h|Noorvik=l|North Pole=9|Northway=r|Nuiqsut=k|Nulato=t|Nunam Iqua=g|Nunapitchuk=3|Old Harbor=f|Ouzinkie=f|Palmer=i|Pedro Bay=h|Pelican=b|Perryville=h|Petersburg=m|Pilot Point=h|Pilot Station=g|Platinum=3|Point Baker=n|Point Hope=k|Point Lay=k|Port Alexander=n|Port Alsworth=h|Port Heiden=h|Port Lions=f|Prudhoe Bay=k|Quinhagak=3|Rampart=t|Red Devil=3|Ruby=t|Russian Mission=g|Saint George Island=1|Saint Marys=g|Saint Michael=j|Saint Paul Island=1|Salcha=9|Sand Point=0|Savoonga=j|Scammon Bay=g|Selawik=l|Seldovia=d|Seward=d|Shageluk=t|Shaktoolik=j|Shishmaref=j|Shungnak=l|Sitka=o|Skagway=p|Skwentna=i|Sleetmute=3|Soldotna=d|South Naknek=4|Stebbins=j|Sterling=d|Stevens Village=t|Sutton=i|Takotna=t|Talkeetna=i|Tanacross=r|Tanana=t|Tatitlek=5|Teller=j|Tenakee Springs=b|Thorne Bay=n|Togiak=8|Tok=r|Toksook Bay=3|Trapper Creek=i|Tuluksak=3|Tuntutuliak=3|Tununak=3|Two Rivers=9|Tyonek=d|Unalakleet=j|Unalaska=1|Valdez=5|Venetie=t|Wainwright=k|Wales=j|Ward Cove=e|Wasilla=i|White Mountain=j|Whittier=5|Willow=i|Wrangell=s|Yakutat=q'
+  },
+  AL: {
+    counties: 'Autauga|Baldwin|Barbour|Bibb|Blount|Bullock|Butler|Calhoun|Chambers|Cherokee|Chilton|Choctaw|Clarke|Clay|Cleburne|Coffee|Colbert|Conecuh|Coosa|Covington|Crenshaw|Cullman|Dale|Dallas|DeKalb|Elmore|Escambia|Etowah|Fayette|Franklin|Geneva|Greene|Hale|Henry|Houston|Jackson|Jefferson|Lamar|Lauderdale|Lawrence|Lee|Limestone|Lowndes|Macon|Madison|Marengo|Marion|Marshall|Mobile|Monroe|Montgomery|Morgan|Perry|Pickens|Pike|Randolph|Russell|Shelby|St. Clair|Sumter|Talladega|Tallapoosa|Tuscaloosa|Walker|Washington|Wilcox|Winston',
+    zips: 'r0c:1m,1:10,1,1:1l,3:1p,1,2:4,1:1o,1:10,1:1b,3:l,1:10,1,1,1,8:4,1:1o,1:l,1:3,1,1:10,2:1r,2:1l,2:3,1:1l,1:1o,1:a,1,2:10,1:4,2:1l,1:1m,1:l,1:1m,1:l,1,1,1,2:10,1,1:1r,1,1:10,4,2:l,1:10,1:i,1:10,1:3,3:l,1:1l,1:4,1:1l,2:d,1:l,2:a,2:l,2:i,2:10,3,2:1o,1:4,1:l,d:10,1:1m,2:1l,1,1:10,1,1,1,1:1m,1:4,2:10,1:1l,1:1m,1:10,1,1:1m,2:1r,1:1m,2:4,2:1m,1:i,1:1l,2:10,3,1:1l,1,2:1m,1:1l,1:1r,1:1o,1,1,9,1,a:a,1:10,1,2:1b,1:1l,2,1:l,1:10,1,1:1m,1:i,1:3,1:1l,1,1,1:3,d:10,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,2,1,2,1,1,1,1,1,1,1,4:1l,1:10,1,2,3,4,1,1,4,1,1,5,4,c,1,2,2,1,2,1,1,1,1,1,1,1,1,2v:1q,1,1,1,1,1,1,x,1:w,1:1h,1:v,1:1q,2,1:1h,1:v,1:1q,3,1,3,1,1,1:1n,1,1:1h,1:v,1:1q,1:1n,2:1h,2:1q,1:v,1:1n,1:1h,2:1q,1:w,1:1q,1,1:1n,1:1q,2,1:1h,1:1q,4,1,3,1:v,a:1r,1,1,1,10:1u,1,1:s,1:1a,1:11,1:s,1,2:1a,1:1r,1,1:1u,1:11,1:1u,1:1r,1:s,4,1:1r,3:1a,1,1:1u,5:1a,1:t,1:1u,1:1r,1:11,1:1u,1:11,1:1u,1:1r,1,1,1:t,1,2:1r,1:t,1:11,1:1r,5:11,1:t,1:1a,7:1f,1,1,6,1:12,1:15,1,1,1,1,1:g,1:12,1:13,1:1f,1:15,1:1f,1,8:12,1,1,1,1,6:1f,3:13,2:12,1:g,1:15,1:12,1:15,1:13,1,1:12,1:t,1,6:g,1,1,8:1f,1:15,1:13,1:1f,1:g,3:12,m:1f,14:15,1:z,1:18,1:15,2:z,1,1,1:1b,1:18,1,1,1:z,1,2:1f,1:z,1:18,1,1,1,1,1,1,1,1:z,1,1,1:18,1:z,1,2,1,1:18,1:z,1:1f,1:z,p:18,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,8,1x,1,1,1,1,1,1,2:r,1,1,1,1,1,1,17:1b,1,1:r,1:1m,1:r,2:1b,1,1:z,1:9,1,1:o,1,1,1:1b,2:z,1:o,1,3,1:r,1:9,1:o,1,1:1b,2:o,1:z,1:1b,1:o,2:9,1:o,2,1:1m,1:o,1,1:r,d:0,2:1i,1:0,2,1:k,1:1i,3:1e,2:6,1:2,1,3:p,2,1:1p,1:p,1,1:i,1:2,1:k,1:5,1:6,1:17,1:16,1:6,1:k,1:1i,1:1e,1:6,1:j,1:17,1:16,1:k,1,1:1e,2:p,1:1e,1:16,1:2,1:k,2:0,1:1e,1:5,1:p,3:1e,4:5,1:k,2:1e,1,1:0,1,1,1:1e,2:k,1:2,3:17,3:p,1:1i,1:p,1:1i,1,1:17,4,1,1:5,2:a,1:p,1,8:1e,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,5,1,1,3,5,1,1,z,e,a:7,1,1,1,1,1,1,17,1:d,2:7,1,1:d,1:1p,1:7,1:d,2:7,1:e,1,1:1j,1:e,1:7,1:d,1,1:1o,1:e,2:7,1,1:e,1:1j,1:9,1:1j,1:7,1:1j,1:7,1:1j,l:y,1,1,1,1,5:x,1:m,1:y,1:u,1,2,1:m,1:u,1:y,1,1,1:m,1:f,7,1,9:u,3:y,1:u,1:x,1:f,3:u,1:m,1:f,1:m,1:x,7:m,1,1,8:y,1:m,2:x,1:m,1:u,1:y,p:h,j:j,1:1c,4:1d,1:q,1,2:h,3,3:1t,1:c,3:1d,2:q,1:j,2:1d,1,1:c,3:1d,2:c,2:f,1:h,1:j,1:6,1:1d,1,2,1,6:j,3:1d,1,2:h,1:j,1:h,1:j,1:u,3:1d,1,1:c,1:j,j:q,1,1,1:1c,2:1,2:1c,2:1,1:1c,1:1s,5,3:1c,1,1,1:c,1:1c,1:1,1,1:1c,1:1s,1:1,2,1,2,1,2:1s,1,1:c,1:1c,1:1,1:q,1:1c,1:c,2:1,1:1s,1:1,1,1,2:1s,2:1,1:1s,2,1:1,1:1c,1:1,1,2,3,1:1c,1:1s,2:1c,1,2:1,1:1c,1:1,1,1,1,1,1:1s,1:1c,1:1s,1,1,2:1c,3,b,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,9,5,7,1,3,8,8,3,7,1,4,a,3,1,2,2,2,6:n,1,1,h:1t,2,1,3,1:c,1:1t,4:19,4,2,2:v,1:1t,1:w,2,1:19,3,1:0,1:a,1:1t,1:16,1:1t,1:19,2:1g,2:n,1,2,2:19,1,1:w,1:1t,1:n,1:1t,1,4:n,2,1:w,6:19,1,1:c,1:n,1:1g,4:a,2:3,1,8:14,1,1,1,q,1,1,h,1:1p,1:1k,1:8,1:1p,1:8,1,1:1k,2,1,1,1:1p,1:8,1,2:14,1:17,1:1k,1,1,1,1,1:14,2,1:1k,2:14,2,m:1n,3:b,3:1n,1:b,2,2,1,2,1,3,2,1,3:1n',
+    cities: 'Abbeville=x|Abernant=1q|Adamsville=10|Addison=1u|Adger=10|Akron=w|Alabaster=1l|Alberta=1t|Albertville=1b|Alexander City=1p|Alexandria=7|Aliceville=1h|Allgood=4|Alpine=1o|Alton=10|Altoona=r|Andalusia=j|Anderson=12|Anniston=7|Arab=1b|Ardmore=15|Ariton=m|Arley=1u|Arlington=1t|Ashford=y|Ashland=d|Ashville=1m|Athens=15|Atmore=q|Attalla=r|Auburn=14|Auburn University=14|Autaugaville=0|Axis=1c|Baileyton=l|Banks=1i|Bankston=s|Bay Minette=1|Bayou La Batre=1c|Bear Creek=1a|Beatrice=1d|Beaverton=11|Belk=s|Bellamy=1n|Belle Mina=15|Bellwood=u|Berry=s|Bessemer=10|Billingsley=0|Birmingham=10|Black=u|Blountsville=4|Boaz=1b|Boligee=v|Bon Air=1o|Bon Secour=1|Booth=0|Boykin=1t|Brantley=k|Bremen=l|Brent=3|Brewton=q|Bridgeport=z|Brierfield=3|Brilliant=1a|Brooklyn=h|Brookside=10|Brookwood=1q|Brownsboro=18|Brundidge=1i|Bryant=z|Bucks=1c|Buhl=1q|Burnwell=1r|Butler=b|Bynum=7|Calera=1l|Calvert=1s|Camden=1t|Camp Hill=1p|Campbell=c|Capshaw=15|Carbon Hill=1r|Carrollton=1h|Castleberry=h|Catherine=1t|Cecil=1e|Cedar Bluff=9|Centre=9|Centreville=3|Chancellor=u|Chapman=6|Chatom=1s|Chelsea=1l|Cherokee=g|Childersburg=1o|Choccolocco=7|Chunchula=1c|Citronelle=1c|Clanton=a|Clay=10|Clayton=2|Cleveland=4|Clinton=v|Clio=2|Clopton=m|Cloverdale=12|Coaling=1q|Coden=1c|Coffee Springs=u|Coffeeville=c|Coker=1q|Collinsville=o|Columbia=y|Columbiana=1l|Cook Springs=1m|Coosada=p|Cordova=1r|Cottondale=1q|Cottonton=1k|Cottonwood=y|Courtland=13|Cowarts=y|Coy=1t|Cragford=d|Crane Hill=l|Creola=1c|Cropwell=1m|Crossville=o|Cuba=1n|Cullman=l|Cusseta=8|Dadeville=1p|Daleville=m|Danville=1f|Daphne=1|Dauphin Island=1c|Daviston=1p|Dawson=o|De Armanville=7|Deatsville=p|Decatur=1f|Deer Park=1s|Delmar=1u|Delta=d|Demopolis=19|Detroit=11|Dickinson=c|Dixons Mills=19|Docena=10|Dolomite=10|Dora=1r|Dothan=y|Double Springs=1u|Douglas=1b|Dozier=k|Duncanville=1q|Dutton=z|East Tallassee=1p|Eastaboga=7|Echola=1q|Eclectic=p|Edwardsville=e|Eight Mile=1c|Elba=f|Elberta=1|Eldridge=1r|Elkmont=15|Elmore=p|Elrod=1q|Emelle=1n|Empire=1r|Enterprise=f|Epes=1n|Equality=i|Estillfork=z|Ethelsville=1h|Eufaula=2|Eutaw=v|Eva=1f|Evergreen=h|Excel=1d|Fackler=z|Fairfield=10|Fairhope=1|Falkville=1f|Faunsdale=19|Fayette=s|Fitzpatrick=5|Five Points=8|Flat Rock=z|Flomaton=q|Florala=j|Florence=12|Foley=1|Forest Home=6|Forkland=v|Fort Davis=17|Fort Deposit=16|Fort Mitchell=1k|Fort Payne=o|Fort Rucker=m|Fosters=1q|Franklin=1d|Frankville=1s|Frisco City=1d|Fruitdale=1s|Fruithurst=e|Fulton=c|Fultondale=10|Furman=1t|Fyffe=o|Gadsden=r|Gainestown=c|Gainesville=1n|Gallant=r|Gallion=w|Gantt=j|Garden City=l|Gardendale=10|Gaylesville=9|Geneva=u|Georgiana=6|Geraldine=o|Gilbertown=b|Glen Allen=s|Glenwood=k|Goodsprings=1r|Goodwater=i|Goodway=1d|Gordo=1h|Gordon=y|Goshen=1i|Grady=1e|Graham=1j|Grand Bay=1c|Grant=1b|Graysville=10|Green Pond=3|Greensboro=w|Greenville=6|Grove Hill=c|Groveoak=o|Guin=1a|Gulf Shores=1|Guntersville=1b|Gurley=18|Hackleburg=1a|Haleyville=1u|Hamilton=1a|Hanceville=l|Hardaway=17|Harpersville=1l|Hartford=u|Hartselle=1f|Harvest=18|Hatchechubbee=1k|Hayden=4|Hayneville=16|Hazel Green=18|Headland=x|Heflin=e|Helena=1l|Henagar=o|Higdon=z|Highland Home=k|Hillsboro=13|Hodges=t|Hollins=d|Holly Pond=l|Hollytree=z|Hollywood=z|Holy Trinity=1k|Honoraville=k|Hope Hull=1e|Horton=1b|Houston=1u|Huntsville=18|Hurtsboro=1k|Huxford=q|Ider=o|Irvington=1c|Jachin=b|Jack=f|Jackson=c|Jacksons Gap=1p|Jacksonville=7|Jasper=1r|Jefferson=19|Jemison=a|Jones=0|Joppa=l|Kansas=1r|Kellerman=1q|Kellyton=i|Kennedy=11|Kent=p|Killen=12|Kimberly=10|Kinston=f|Knoxville=v|Laceys Spring=1f|Lafayette=8|Lanett=8|Langston=z|Lapine=1e|Lawley=3|Leeds=10|Leesburg=9|Leighton=g|Lenox=h|Leroy=1s|Lester=15|Letohatchee=16|Lexington=12|Lillian=1|Lincoln=1o|Linden=19|Lineville=d|Lisman=b|Little River=1|Livingston=1n|Loachapoka=14|Lockhart=j|Locust Fork=4|Logan=l|Louisville=2|Lower Peach Tree=1t|Lowndesboro=16|Loxley=1|Luverne=k|Lynn=1u|Madison=18|Magnolia=19|Magnolia Springs=1|Malcolm=1s|Malvern=u|Maplesville=a|Marbury=0|Margaret=1m|Marion=1g|Marion Junction=n|Mathews=1e|Maylene=1l|Mc Calla=10|Mc Intosh=1s|Mc Kenzie=6|Mc Shan=1h|Mc Williams=1t|Megargel=1d|Melvin=b|Mentone=o|Meridianville=18|Mexia=1d|Midland City=m|Midway=5|Millbrook=p|Millerville=d|Millport=11|Millry=1s|Minter=n|Mobile=1c|Monroeville=1d|Montevallo=1l|Montgomery=1e|Montrose=1|Moody=1m|Mooresville=15|Morris=10|Moulton=13|Moundville=w|Mount Hope=13|Mount Meigs=1e|Mount Olive=10|Mount Vernon=1c|Mulga=10|Munford=1o|Muscadine=e|Muscle Shoals=g|Myrtlewood=19|Nanafalia=19|Natural Bridge=1u|Nauvoo=1r|Needham=b|New Brockton=f|New Castle=10|New Hope=18|New Market=18|Newbern=w|Newton=m|Newville=x|Normal=18|Northport=1q|Notasulga=17|Oak Hill=1t|Oakman=1r|Odenville=1m|Ohatchee=7|Oneonta=4|Opelika=14|Opp=j|Orange Beach=1|Orrville=n|Owens Cross Roads=18|Oxford=7|Ozark=m|Paint Rock=z|Palmerdale=10|Panola=1n|Pansey=y|Parrish=1r|Pelham=1l|Pell City=1m|Pennington=b|Perdido=1|Perdue Hill=1d|Perote=5|Peterman=1d|Peterson=1q|Petrey=k|Phenix City=1k|Phil Campbell=t|Piedmont=7|Pike Road=1e|Pinckard=m|Pine Apple=1t|Pine Hill=1t|Pine Level=1e|Pinson=10|Pisgah=z|Pittsview=1k|Plantersville=n|Pleasant Grove=10|Point Clear=1|Prattville=0|Princeton=z|Quinton=1r|Ragland=1m|Rainbow City=r|Rainsville=o|Ralph=1q|Ramer=1e|Ranburne=e|Randolph=3|Range=h|Red Bay=t|Red Level=j|Reform=1h|Remlap=4|Repton=h|River Falls=j|Riverside=1m|Roanoke=1j|Robertsdale=1|Rockford=i|Rogersville=12|Russellville=t|Rutledge=k|Ryland=18|Safford=n|Saginaw=1l|Saint Elmo=1c|Saint Stephens=1s|Salem=14|Samantha=1q|Samson=u|Saraland=1c|Sardis=n|Satsuma=1c|Sawyerville=w|Sayre=10|Scottsboro=z|Seale=1k|Section=z|Selma=n|Seminole=1|Semmes=1c|Shannon=10|Sheffield=g|Shelby=1l|Shorter=17|Shorterville=x|Silas=b|Siluria=1l|Silverhill=1|Sipsey=1r|Skipperville=m|Slocomb=u|Smiths Station=14|Somerville=1f|Spanish Fort=1|Spring Garden=9|Springville=1m|Spruce Pine=t|Stanton=a|Stapleton=1|Steele=1m|Sterrett=1l|Stevenson=z|Stockton=1|Sulligent=11|Sumiton=1r|Summerdale=1|Sunflower=1s|Sweet Water=19|Sycamore=1o|Sylacauga=1o|Sylvania=o|Talladega=1o|Tallassee=p|Tanner=15|Theodore=1c|Thomaston=19|Thomasville=c|Thorsby=a|Tibbie=1s|Titus=p|Toney=18|Town Creek=13|Townley=1r|Toxey=b|Trafford=10|Trenton=z|Trinity=1f|Troy=1i|Trussville=10|Tuscaloosa=1q|Tuscumbia=g|Tuskegee=17|Tuskegee Institute=17|Tyler=n|Union Grove=1b|Union Springs=5|Uniontown=1g|Uriah=1d|Valhermoso Springs=1f|Valley=8|Valley Head=o|Vance=1q|Vandiver=1l|Verbena=a|Vernon=11|Vina=t|Vincent=1l|Vinegar Bend=1s|Vinemont=l|Vredenburgh=1d|Wadley=1j|Wagarville=1s|Walnut Grove=r|Ward=b|Warrior=10|Waterloo=12|Watson=10|Wattsville=1m|Waverly=14|Weaver=7|Webb=y|Wedowee=1j|Wellington=7|Weogufka=i|West Blocton=3|West Greene=v|Westover=1l|Wetumpka=p|Whatley=c|Wilmer=1c|Wilsonville=1l|Wilton=1l|Winfield=1a|Wing=j|Woodland=1j|Woodstock=3|Woodville=z|York=1n'
+  },
+  AR: {
+    counties: 'Arkansas|Ashley|Baxter|Benton|Boone|Bradley|Calhoun|Carroll|Chicot|Clark|Clay|Cleburne|Cleveland|Columbia|Conway|Craighead|Crawford|Crittenden|Cross|Dallas|Desha|Drew|Faulkner|Franklin|Fulton|Garland|Grant|Greene|Hempstead|Hot Spring|Howard|Independence|Izard|Jackson|Jefferson|Johnson|Lafayette|Lawrence|Lee|Lincoln|Little River|Logan|Lonoke|Madison|Marion|Miller|Mississippi|Monroe|Montgomery|Nevada|Newton|Ouachita|Perry|Phillips|Pike|Poinsett|Polk|Pope|Prairie|Pulaski|Randolph|Saline|Scott|Searcy|Sebastian|Sevier|Sharp|St. Francis|Stone|Union|Van Buren|Washington|White|Woodruff|Yell',
+    zips: '1j8x:y,1,1,8,1,1,h:k,1:5,4:1,3:8,1:k,1:8,2:1,1:13,1,2:1,1:5,4,1:c,1:8,1:k,1:l,1,1,1:1,1:y,1:c,1:1,1:k,1:1,2:c,1:k,1:13,3:k,1:5,3:k,1:l,1:1,1:l,1:13,n:1f,a,9,1:9,1:1d,2:1x,1:j,1:1f,2:9,2:1x,1,9:d,2:j,1:9,1:6,1,2:1x,1:j,1:1x,1,1:1f,1:d,1,1,4:1x,1,3,1:j,1:1f,1:1x,1:6,4:d,2:9,t:s,1,i:14,2,1:1t,2:s,1:10,1,1:1d,3:s,1:1t,1:u,1:19,1:1d,1:14,1:19,1:s,1:10,1:19,1:1t,1,3:10,1:1t,1:s,4:u,1,1:14,1:19,1:s,2:1d,1,1:u,1:10,1:d,1:s,2:1d,1:14,1,z:p,1,1,6,1,3,1,6:9,1,1:1i,1:9,6:t,3:1k,1:t,2:1c,2:1k,3:1i,1:t,1,1:1i,1:1k,1,4:p,1:1i,2,1:1k,3:p,1:1c,1:1i,1,1:1c,1,1:9,2:p,1:1c,1,2:p,1:1c,1,1:u,1:1k,1,p:9,1,2:1g,1:1n,1:0,1:y,1:x,1:21,1:16,3:20,1:1p,1:20,1:1y,1:x,1:1p,1:1g,1:1m,1:1p,1:t,1:20,1:1b,1:1p,1:16,1,1:1g,1:0,1:e,1:1y,1:1b,1:e,1:1y,1:m,1,1,1,1:21,1:16,1:0,1:m,1:1m,1,1:0,1:x,1:b,1:20,1:16,1:m,1:0,3:1w,1:20,1:1n,2:0,2:q,1:m,1:21,1:20,1:m,2:e,1:1m,1:1n,1:1m,1:b,1:20,1:1b,1:1g,2:16,1:0,1:21,1:x,1:1n,2,1:y,1:e,1:20,1,1:16,1:q,1:20,1:16,1:p,1:1y,1:1p,a:1n,2:21,1:20,1:1n,1:t,1,1:m,1:e,1:1b,2:e,1:m,1:x,1:1n,1,1,1,1,1,1,1,1:20,1:1p,1:21,1:1n,1:1g,1,1:e,1:q,1,1:b,1,1:y,1,1:1b,1:1n,1:20,1,2,1:0,1:1y,1:1n,1:20,2,4,1:q,2:y,1:1y,3:e,1,1:1p,2:0,4:1n,1:v,1:0,1:1p,1:y,1:x,1:1m,3:m,2:y,1:16,2:20,1:b,1:1n,1:m,1:y,1:1n,7,9,2,1,1,1,1,1,1,2,1,1,1,2,1,1,1,2,2,1,1,2,2,4,o,5:4,z:1n,6:h,2,7:1a,1:12,1:1h,1:1a,2,1,3,1:12,1:1a,1:1v,2:i,1:h,1:1v,1:h,1:1h,1:1a,1,1:h,1,1:1h,2:1v,1,2:1a,1:h,1:1v,1:12,1:1h,4:1v,1:i,1:1v,2:1a,1,1:12,1:1h,1:1j,1:1h,3:1a,1:1v,1:12,4:h,1:1j,1:1h,1,1:12,1:1h,1:1a,2:1v,1:i,1:1h,2:h,1:1j,2:k,4:1h,1:h,2:1j,1:i,2:1h,1,1:1a,1:1v,2,1:1a,1:i,5:f,1,1,1,1,5:11,1:f,1:r,1:1o,1:f,1:11,1:f,1,2,2,1:a,2,1:r,1:1a,1:f,1:1a,1:1j,1:a,1:x,1:1j,1:11,1,1:a,1:r,1:f,1:1a,2:11,1:a,1:1a,1:r,1:1o,1:11,2:f,2:1o,1:r,1,2:a,1,1:1o,1:a,1:11,1,1,1:1o,1:a,1:1o,2:a,1:11,1,1:f,2:11,1:a,1:x,1:1j,1:x,1:r,1:1j,1:11,2:1o,1:1j,3:1u,j:v,2,9:w,1:1u,2:o,2:w,2,1:o,1:1u,1:v,1:b,1:v,1:1u,1:v,1,1:w,1:1u,1:b,1:o,1:1u,1:1w,1:v,2:w,1:2,1:o,1,1:w,2:1u,1:b,1:2,1:b,1,4:v,3,1:o,1:1w,1:w,4:1w,1:w,1:v,2,1:w,1,1:1w,1:v,1:1u,2:v,1:11,1:w,2:v,1:o,1:1u,1:o,1:v,2:b,2:o,1:w,1,2,e:4,1,9,2:7,2:4,1:7,1:2,2:18,4:2,1:1e,2:2,2:1e,1:1y,1:4,1:7,1,1:4,1:18,1:2,1:1r,2:7,1:1r,1:1e,1,1:2,2:4,1:1r,3:1e,2:1r,1:2,2,1,1:1e,2:1w,1:2,1,1:7,1:18,1:4,1:1w,3:1e,2:18,1:1r,1:1e,2:18,3:1r,2:18,2:1l,1:1w,2:4,1:1e,2,1:1r,1:18,e:1z,1,1,1,7:3,1,1,1,1,1,1:1z,1:3,1,2:17,1:3,5:1z,1,1,1,2:3,1,1,1:1z,1:3,1:1z,1:17,1:3,1:17,1:1z,1:17,2:1z,1:3,2,2:1z,2:3,1:17,1:1z,3:3,1,1,2:17,1:3,1:1z,2,1,1,2:3,1:1z,1,3:17,1:1z,2:17,p:1l,1,9,1,8:n,1,2:1l,1:22,2:15,1:22,1,1,1:z,2,1:22,1,1:15,2:1l,1:22,1:z,1,1:1q,1:22,1:1l,2:z,1,1:1l,4:15,1:z,1:22,1:z,1:15,1:1l,1:22,1:1l,2:22,3:15,2,10:1s,1,1,1,1,1,2,5,1,2,1,1,1,2:g,2:1s,3:1q,1:15,1:n,2,2:g,1:n,1:g,1,1:1s,1,1,2,1,2:15,1:1q,1:1s,1:g,1,1,1:n,1:1q,1:15,1:g,3,1,1,1:1q,1:1z',
+    cities: 'Adona=1g|Alexander=1n|Alicia=11|Alix=n|Alleene=14|Alma=g|Almyra=0|Alpena=4|Alpine=9|Altheimer=y|Altus=n|Amagon=x|Amity=9|Antoine=1i|Arkadelphia=9|Arkansas City=k|Armorel=1a|Ash Flat=1u|Ashdown=14|Atkins=1l|Aubrey=12|Augusta=21|Austin=16|Avoca=3|Bald Knob=20|Banks=5|Barling=1s|Barton=1h|Bassett=1a|Batesville=v|Bauxite=1p|Bay=f|Bearden=1f|Beaver=7|Bee Branch=1y|Beebe=20|Beech Grove=r|Beedeville=x|Beirne=9|Bella Vista=3|Belleville=22|Ben Lomond=1t|Benton=1p|Bentonville=3|Bergman=4|Berryville=7|Bexar=o|Big Flat=2|Bigelow=1g|Biggers=1o|Biscoe=1m|Bismarck=t|Black Oak=f|Black Rock=11|Blevins=s|Blue Mountain=15|Bluff City=1d|Bluffton=22|Blytheville=1a|Board Camp=1k|Boles=1q|Bonnerdale=t|Bono=f|Booneville=15|Bradford=20|Bradley=10|Branch=n|Brickeys=12|Briggsville=22|Brinkley=1b|Brockwell=w|Brookland=f|Bryant=1p|Buckner=10|Bull Shoals=18|Burdette=1a|Cabot=16|Caddo Gap=1c|Caldwell=1v|Cale=1d|Calico Rock=w|Calion=1x|Camden=1f|Camp=o|Canehill=1z|Caraway=f|Carlisle=16|Carthage=j|Casa=1g|Cash=f|Casscoe=0|Cave City=1u|Cave Springs=3|Cecil=n|Cedarville=g|Center Ridge=e|Centerton=3|Centerville=22|Charleston=n|Charlotte=v|Cherokee Village=1u|Cherry Valley=i|Chester=g|Chidester=1f|Choctaw=1y|Clarendon=1b|Clarkedale=h|Clarkridge=2|Clarksville=z|Cleveland=e|Clinton=1y|Coal Hill=z|College Station=1n|Colt=1v|Columbus=s|Combs=17|Compton=1e|Concord=b|Conway=m|Cord=v|Corning=a|Cotter=2|Cotton Plant=21|Cove=1k|Coy=16|Crawfordsville=h|Crocketts Bluff=0|Crossett=1|Crumrod=1h|Curtis=9|Cushman=v|Damascus=m|Danville=22|Dardanelle=22|Datto=a|De Queen=1t|De Valls Bluff=1m|De Witt=0|Decatur=3|Deer=1e|Delaplaine=r|Delaware=15|Delight=1i|Dell=1a|Dennard=1y|Dermott=8|Des Arc=1m|Desha=v|Diamond City=4|Diaz=x|Dierks=u|Doddridge=19|Dolph=w|Donaldson=t|Dover=1l|Drasco=b|Driver=1a|Dumas=k|Dyer=g|Dyess=1a|Earle=h|Edgemont=b|Edmondson=h|Egypt=f|El Dorado=1x|El Paso=20|Elaine=1h|Elizabeth=o|Elkins=1z|Elm Springs=1z|Emerson=d|Emmet=1d|England=16|Enola=m|Ethel=0|Etowah=1a|Eudora=8|Eureka Springs=7|Evansville=1z|Evening Shade=1u|Everton=4|Fairfield Bay=1y|Farmington=1z|Fayetteville=1z|Fifty Six=1w|Fisher=1j|Flippin=18|Floral=v|Fordyce=j|Foreman=14|Forrest City=1v|Fort Smith=1s|Fouke=19|Fountain Hill=1|Fox=1w|Franklin=w|Frenchmans Bayou=1a|Friendship=t|Fulton=s|Gamaliel=2|Garfield=3|Garland City=10|Garner=20|Gassville=2|Gateway=3|Genoa=19|Gentry=3|Gepp=o|Gilbert=1r|Gillett=0|Gillham=1t|Gilmore=h|Glencoe=o|Glenwood=1i|Goodwin=1v|Goshen=1z|Gosnell=1a|Gould=13|Grady=13|Grannis=1k|Grapevine=q|Gravelly=22|Gravette=3|Green Forest=7|Greenbrier=m|Greenland=1z|Greenway=a|Greenwood=1s|Gregory=21|Griffithville=20|Grubbs=x|Guion=w|Gurdon=9|Guy=m|Hackett=1s|Hagarville=z|Hamburg=1|Hampton=6|Hardy=1u|Harrell=6|Harriet=1r|Harrisburg=1j|Harrison=4|Hartford=1s|Hartman=z|Harvey=1q|Hasty=1e|Hatfield=1k|Hattieville=e|Havana=22|Haynes=12|Hazen=1m|Heber Springs=b|Hector=1l|Helena=1h|Henderson=2|Hensley=1n|Hermitage=5|Heth=1v|Hickory Plains=1m|Hickory Ridge=i|Higden=b|Higginson=20|Hindsville=17|Hiwasse=3|Holly Grove=1b|Hope=s|Horatio=1t|Horseshoe Bend=w|Hot Springs National Park=p|Hot Springs Village=p|Houston=1g|Hoxie=11|Hughes=1v|Humnoke=16|Humphrey=0|Hunter=21|Huntington=1s|Huntsville=17|Huttig=1x|Ida=b|Imboden=11|Ivan=j|Jacksonport=x|Jacksonville=1n|Jasper=1e|Jefferson=y|Jersey=5|Jerusalem=e|Jessieville=p|Johnson=1z|Joiner=1a|Jones Mill=t|Jonesboro=f|Judsonia=20|Junction City=1x|Keiser=1a|Kensett=20|Keo=16|Kingsland=c|Kingston=17|Kirby=1i|Knobel=a|Knoxville=z|La Grange=12|Lafe=r|Lake City=f|Lake Village=8|Lakeview=2|Lamar=z|Lambrook=1h|Langley=1i|Lavaca=1s|Lawson=1x|Leachville=1a|Lead Hill=4|Leola=q|Lepanto=1j|Leslie=1r|Letona=20|Lewisville=10|Lexa=1h|Lincoln=1z|Little Rock=1n|Little Rock Air Force Base=1n|Lockesburg=1t|Locust Grove=v|London=1l|Lonoke=16|Lonsdale=p|Louann=1f|Lowell=3|Luxora=1a|Lynn=11|Mabelvale=1n|Madison=1v|Magazine=15|Magness=v|Magnolia=d|Malvern=t|Mammoth Spring=o|Manila=1a|Mansfield=1q|Marble Falls=1e|Marcella=1w|Marianna=12|Marion=h|Marked Tree=1j|Marmaduke=r|Marshall=1r|Marvell=1h|Maumelle=1n|Mayflower=m|Maynard=1o|Maysville=3|Mc Caskill=s|Mc Crory=21|Mc Dougal=a|Mc Gehee=k|Mc Neil=d|Mc Rae=20|Melbourne=w|Mellwood=1h|Mena=1k|Menifee=e|Midland=1s|Midway=2|Mineral Springs=u|Minturn=11|Monette=f|Monroe=1b|Monticello=l|Montrose=1|Moro=12|Morrilton=e|Morrow=1z|Moscow=y|Mount Holly=1x|Mount Ida=1c|Mount Judea=1e|Mount Pleasant=w|Mount Vernon=m|Mountain Home=2|Mountain Pine=p|Mountain View=1w|Mountainburg=g|Mulberry=g|Murfreesboro=1i|Nashville=u|Natural Dam=g|New Blaine=15|New Edinburg=c|Newark=v|Newhope=1i|Newport=x|Norfork=2|Norman=1c|Norphlet=1x|North Little Rock=1n|O Kean=1o|Oak Grove=7|Oakland=18|Oark=z|Oden=1c|Ogden=14|Oil Trough=v|Okolona=9|Ola=22|Omaha=4|Oneida=1h|Onia=1w|Osceola=1a|Oxford=w|Ozan=s|Ozark=n|Ozone=z|Palestine=1v|Pangburn=20|Paragould=r|Paris=15|Parkdale=1|Parkin=i|Parks=1q|Paron=1p|Parthenon=1e|Patterson=21|Pea Ridge=3|Peach Orchard=a|Pearcy=p|Peel=18|Pelsor=1l|Pencil Bluff=1c|Perry=1g|Perryville=1g|Pettigrew=17|Pickens=k|Piggott=a|Pindall=1r|Pine Bluff=y|Pineville=w|Plainview=22|Pleasant Grove=1w|Pleasant Plains=v|Plumerville=e|Pocahontas=1o|Pollard=a|Ponca=1e|Poplar Grove=1h|Portia=11|Portland=1|Pottsville=1l|Poughkeepsie=1u|Powhatan=11|Poyen=q|Prairie Grove=1z|Prattsville=q|Prescott=1d|Prim=b|Proctor=h|Pyatt=18|Quitman=b|Ratcliff=15|Ravenden=11|Ravenden Springs=1o|Rector=a|Redfield=y|Reydell=y|Reyno=1o|Rison=c|Rivervale=1j|Roe=1b|Rogers=3|Rohwer=k|Roland=1n|Romance=20|Rose Bud=20|Rosie=v|Rosston=1d|Rover=22|Royal=p|Rudy=g|Russell=20|Russellville=1l|Saffell=11|Sage=w|Saint Charles=0|Saint Francis=a|Saint Joe=1r|Saint Paul=17|Salado=v|Salem=o|Saratoga=u|Scotland=1y|Scott=1n|Scranton=15|Searcy=20|Sedgwick=11|Sheridan=q|Sherrill=y|Sherwood=1n|Shirley=1y|Sidney=1u|Siloam Springs=3|Sims=1c|Smackover=1x|Smithville=11|Snow Lake=k|Solgohachia=e|Sparkman=j|Springdale=1z|Springfield=e|Stamps=10|Star City=13|State University=f|Stephens=1f|Story=1c|Strawberry=11|Strong=1x|Sturkie=o|Stuttgart=0|Subiaco=15|Success=a|Sulphur Rock=v|Sulphur Springs=3|Summers=1z|Summit=18|Sweet Home=1n|Swifton=x|Taylor=d|Texarkana=19|Thida=v|Thornton=6|Tichnor=0|Tillar=k|Tilly=1l|Timbo=1w|Tontitown=1z|Traskwood=1p|Trumann=1j|Tucker=y|Tuckerman=x|Tumbling Shoals=b|Tupelo=x|Turner=1h|Turrell=h|Tyronza=1j|Ulm=1m|Umpire=u|Uniontown=g|Valley Springs=4|Van Buren=g|Vandervoort=1k|Vanndale=i|Vendor=1e|Vilonia=m|Viola=o|Violet Hill=w|Wabash=1h|Wabbaseka=y|Walcott=r|Waldenburg=1j|Waldo=d|Waldron=1q|Walnut Ridge=11|Ward=16|Warm Springs=1o|Warren=5|Washington=s|Watson=k|Weiner=1j|Wesley=17|West Fork=1z|West Helena=1h|West Memphis=h|West Point=20|West Ridge=1a|Western Grove=1e|Wheatley=1v|Whelen Springs=9|White Hall=y|Wickes=1k|Wideman=w|Widener=1v|Wilburn=b|Williford=1u|Willisville=1d|Wilmar=l|Wilmot=1|Wilson=1a|Wilton=14|Winchester=l|Winslow=1z|Winthrop=14|Wiseman=w|Witter=17|Witts Springs=1r|Woodson=1n|Wooster=m|Wright=y|Wrightsville=1n|Wynne=i|Yellville=18|Yorktown=13'
+  },
+  AZ: {
+    counties: 'Apache|Cochise|Coconino|Gila|Graham|Greenlee|La Paz|Maricopa|Mohave|Navajo|Pima|Pinal|Santa Cruz|Yavapai|Yuma',
+    zips: '1tl5:7,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,2,1,2,1,6,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,2,1,2,1,1,a,1,j:b,1,1,1,1,1,1,4:7,1:b,2,1,1,3:3,2:b,1,1,1,1,1:7,1:b,1,1,2,p,1,5,c:7,1:b,1:3,1:b,1,7:7,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,8,1,1,7,1,2,8,2,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,2,3,1,2,3,1,1,1,1,1,1,1,1,7,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,6,2,1:a,1:7,1,1:d,1:6,1:7,1,1:6,1:7,2,1:d,1:e,1:6,1:7,1:e,1:7,1,1,1,1:a,1:7,1,1:6,1:7,1:6,1:e,1:6,1:e,1,1:7,1:e,1:7,1,1,1:e,1:6,1:7,1:6,1:8,1:7,1:d,1:7,1:e,1,1,1,2,2:6,1:7,1,1,1,1,1,1,1,1,1,1,1,2,2,1,2,2,3,1,2x:3,1,s:4,1,1:3,1:5,1,1:4,1,3:3,1:5,1:3,1,1:4,1:3,1,1:4,1:3,1:4,2:3,1:4,1,1:3,1,1b:a,1:1,1,2,1,1,1,1,1,1:c,2:1,1:a,1:1,1,1,1:b,1:a,1:1,1:c,1:a,1:b,1:c,1:1,1,1,1:c,1:a,1:1,1:b,1:1,1:a,1,1:1,1,1:c,1:1,1:a,1:c,1:a,2:1,1,1:c,1,2,2:1,2:a,1,1,1:1,3:b,4:c,8:1,1,u:a,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,i,3i:9,1,9,1,8:0,2:5,1:9,1:0,1,1:9,1:0,1:9,1,1:0,1:2,1:0,1:9,1,1,1:0,1:9,1:0,1:9,1:0,1:9,1,1n:2,1,1,1,1,6,4,1,1,1,2,1:8,1:2,1,1,1:9,3:0,1:9,1,1,1,1,1,1:2,1,2,1:9,1:2,2:9,1,1:2,1,1,1:9,5:2,1,1:9,6v:d,1,1,1,1,7,1,1,1,5,1,1,1,1,1,1,1,2,2,1,1,1,1,1:2,1:d,1,1:2,1:d,1,1,1,8:2,1e:8,1,1,1,1,1,3,2,1,1,d,1,2,1,1,1,1,1,1:2,1:8,1,1,1,1,1,1,1,1,1,1,1k:0,1,1,1,1,1,1,2:9,1:0,1,2,1,5:9,f:0,3,2,4,1,2,9',
+    cities: 'Aguila=7|Ajo=a|Alpine=0|Amado=c|Apache Junction=b|Arivaca=a|Arizona City=b|Arlington=7|Ash Fork=d|Avondale=7|Bagdad=d|Bapchule=b|Bellemont=2|Benson=1|Bisbee=1|Black Canyon City=d|Blue=5|Blue Gap=9|Bouse=6|Bowie=1|Buckeye=7|Bullhead City=8|Bylas=4|Cameron=2|Camp Verde=d|Carefree=7|Casa Grande=b|Cashion=7|Catalina=a|Cave Creek=7|Central=4|Chambers=0|Chandler=7|Chandler Heights=7|Chinle=0|Chino Valley=d|Chloride=8|Cibecue=9|Cibola=6|Clarkdale=d|Clay Springs=9|Claypool=3|Clifton=5|Cochise=1|Colorado City=8|Concho=0|Congress=d|Coolidge=b|Cornville=d|Cortaro=a|Cottonwood=d|Crown King=d|Dateland=e|Dennehotso=0|Dewey=d|Dolan Springs=8|Douglas=1|Dragoon=1|Duncan=5|Eagar=0|Eden=4|Ehrenberg=6|El Mirage=7|Elfrida=1|Elgin=c|Eloy=b|Flagstaff=2|Florence=b|Forest Lakes=2|Fort Apache=9|Fort Defiance=0|Fort Huachuca=1|Fort Mcdowell=7|Fort Mohave=8|Fort Thomas=4|Fountain Hills=7|Fredonia=2|Gadsden=e|Ganado=0|Gila Bend=7|Gilbert=7|Glendale=7|Globe=3|Gold Canyon=b|Golden Valley=8|Goodyear=7|Grand Canyon=2|Gray Mountain=2|Green Valley=a|Greer=0|Hackberry=8|Happy Jack=2|Hayden=3|Heber=9|Hereford=1|Higley=7|Holbrook=9|Hotevilla=9|Houck=0|Huachuca City=1|Hualapai=8|Humboldt=d|Indian Wells=9|Jerome=d|Joseph City=9|Kaibeto=2|Kayenta=9|Keams Canyon=9|Kearny=b|Kingman=8|Kirkland=d|Kykotsmovi Village=9|Lake Havasu City=8|Lake Montezuma=d|Lakeside=9|Laveen=7|Leupp=2|Litchfield Park=7|Littlefield=8|Lukachukai=0|Luke Air Force Base=7|Lukeville=a|Lupton=0|Mammoth=b|Many Farms=0|Marana=a|Marble Canyon=2|Maricopa=b|Mayer=d|Mc Neal=1|Mcnary=0|Meadview=8|Mesa=7|Miami=3|Mohave Valley=8|Morenci=5|Mormon Lake=2|Morristown=7|Mount Lemmon=a|Munds Park=2|Naco=1|Nazlini=0|New River=7|Nogales=c|North Rim=2|Nutrioso=0|Oatman=8|Oracle=b|Overgaard=9|Page=2|Palo Verde=7|Paradise Valley=7|Parker=6|Parks=2|Patagonia=c|Paulden=d|Payson=3|Peach Springs=8|Pearce=1|Peoria=7|Peridot=3|Petrified Forest Natl Pk=0|Phoenix=7|Picacho=b|Pima=4|Pine=3|Pinedale=9|Pinetop=9|Pinon=9|Pirtleville=1|Polacca=9|Pomerene=1|Poston=6|Prescott=d|Prescott Valley=d|Quartzsite=6|Queen Creek=7|Red Rock=b|Red Valley=0|Rillito=a|Rimrock=d|Rio Rico=c|Rio Verde=7|Rock Point=0|Roll=e|Roosevelt=3|Round Rock=0|Sacaton=b|Safford=4|Sahuarita=a|Saint David=1|Saint Johns=0|Saint Michaels=0|Salome=6|San Carlos=3|San Luis=e|San Manuel=b|San Simon=1|San Tan Valley=b|Sanders=0|Sasabe=a|Scottsdale=7|Second Mesa=9|Sedona=2|Seligman=d|Sells=a|Shonto=9|Show Low=9|Sierra Vista=1|Skull Valley=d|Snowflake=9|Solomon=4|Somerton=e|Sonoita=c|Springerville=0|Stanfield=b|Sun City=7|Sun City West=7|Sun Valley=9|Supai=2|Superior=b|Surprise=7|Tacna=e|Taylor=9|Teec Nos Pos=0|Tempe=7|Temple Bar Marina=8|Thatcher=4|Tolleson=7|Tombstone=1|Tonalea=2|Tonopah=7|Tonto Basin=3|Topawa=a|Topock=8|Tortilla Flat=7|Tsaile=0|Tuba City=2|Tubac=c|Tucson=a|Tumacacori=c|Vail=a|Valentine=8|Valley Farms=b|Vernon=0|Waddell=7|Wellton=e|Wenden=6|White Mountain Lake=9|Whiteriver=9|Wickenburg=7|Wikieup=8|Willcox=1|Williams=2|Willow Beach=8|Window Rock=0|Winkelman=3|Winslow=9|Wittmann=7|Woodruff=9|Yarnell=d|Young=3|Youngtown=7|Yucca=8|Yuma=e'
+  },
+  CA: {
+    counties: 'Alameda|Alpine|Amador|Butte|Calaveras|Colusa|Contra Costa|Del Norte|El Dorado|Fresno|Glenn|Humboldt|Imperial|Inyo|Kern|Kings|Lake|Lassen|Los Angeles|Madera|Marin|Mariposa|Mendocino|Merced|Modoc|Mono|Monterey|Napa|Nevada|Orange|Placer|Plumas|Riverside|Sacramento|San Benito|San Bernardino|San Diego|San Francisco|San Joaquin|San Luis Obispo|San Mateo|Santa Barbara|Santa Clara|Santa Cruz|Shasta|Sierra|Siskiyou|Solano|Sonoma|Stanislaus|Sutter|Tehama|Trinity|Tulare|Tuolumne|Ventura|Yolo|Yuba',
+    zips: '1xg1:i,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,2,1,1,1,3,z,1j,c,1,7,1,1,1,1,7,1,1,1,1,6,1,1,1,6,1,1,1,3,2,1,1,1,1,3,1,5,1,1,1,1,1,1,1,3,2,2,1,2,1,2,a,1,1,1,1,1,1,5,1,1,1,1,1,1,1,1,1,1,1,2h,1,1,1,1,1,1,1,1,1,1,2i,1,1,1,1,1,1,1,1,1,2j,1,1,1,1,1,1,1,1,1,a:t,1,1,1,1,6,1,1,1,4:i,1,1,1,a,1,1,8,1,1,8,1,9:t,l:i,1,1,1,2,1,3,1,1,1,1,1,1,1,3:t,1,2:i,8,1,1,1,6:t,2,1,1:i,1,1,1,1,1,6,1a,1,1,1,1,1,1,1,1,1,3,1,1,7,9,1,1,1,1,5,2,2,2,1,1,5,16,4,2u,2,3,1,1,1,1,1,1,4,1,3,1,2,1,1,5,1,9,1,1,1,3,k,b,o,1,1,1,1,1,1,1,1,1,4,1,1,1,1,3,2,1,1,1,3,1h,2,1,3,1,a,2,1,1,1,1,1,1,1,1,1,4,7,1,2,1,1,23,1,1,1,1,1,1,1,1,1,1,2,3,3:1j,1,1:i,1,2,1,1,1,1,1,1,1,2,1,1,2,3,1,1,1,1,1,1,4,1,1,1,1,1,1,1,1:1j,1,1,1,1,2:i,1,2,4,1,4,1:1j,3:i,1,1,1,1,1,1,1,3,2,1,1,1,1,5,1,1,1,1,1,1,1,1,1,1,1,1,3,7,3,a,y,c,d,1,3,2,1,1,1,1,1,1,1,2,b,1,1,3,23,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,2b:z,1:i,4,2:z,1,1,1:i,3,1,1,6,1,1,5:z,1,1:i,1,1,1,1,2:z,2,1:i,1,2:z,1:i,1,1,1,1,1,1,2:w,2:i,1,1,2:z,1:i,2:z,1,1,1,1:i,1,1,1,1,1,1,1,1,2,1,2,2,4:z,1,1,2:i,1,1,1,1,1,8,1,1,1,2k,3,2:10,1,1,2,1,2,1,1,1,1,1,1,1,1,1,4,a,1,1,1,1,6,1,1,1,1,1,2,2,1,b,1,d,1,1,1,1,7,g,1,3,1,1,1,1,2,1,4,1,1,1,1,1,1,1,1,1,1,1,1,3,3,1,1,1,1,6,3,2,1,2,1,1,1,1,1,1,1,3,1,1,1,1,1,1,1,1,2,1,3,1,2,1,1,1,1,1,2,3,1,1,3,5,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,2,1,1,1,1,1,1,2,1,2,2,2,1,2,1,1,1,3,1,1,1,2,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,3,4,1,3,1,1,1,2,1,1,1,1,2:w,1,1,7,1,9,2:c,1:w,2,1,1:c,3:w,1:c,1,1,1:w,1,1,3,1,1,1:z,1:c,1,3:w,1:z,1:c,1,1,1:z,1:w,1,1,1:z,1:c,1:w,1:c,1:w,1,1,1,1,2:c,1:z,1,2:w,3:c,1:w,1:c,1:w,1:z,1,2,1:c,1:w,1:c,1:z,1,1,f,3,1,2,1,1,1,1,1,1,1,1,1,1,1,2:w,1:z,1,1,1,1,2,1:d,1:z,2:c,1:z,1,1,1,1,1,1,1,1,1,1,2,1,1,1,3,2,2,2,1,1,1,4,1,1,1,2,1,2,1,1,1,1,1,1,1,4,2:d,1:z,1,3:d,2:z,1,1,1,1,2,1,1,2,1,1,1,1,1,1,1,2,1,2,2,3,5,4,22:w,1,1,1,1,1,1,1,1,4,1,1,1,1,1,1,2,1,8,1,1,4,3,4,1,1,1,2,1,2,1,1,1,1,1,1,4,1,1,1,3,3,1,1,9,1,1,1,1,1,1,2,1,1,1,1,2,1,3,3:t,1,1,1,1,1,2,1,2,2,1,1,1,1,1,1,3,1,1,1,1,1,1,1,7,9,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,9,1,1,1,1,1,1,1,4,1,1,3,2,1,1,1,1,3,1,3,1,1,1,1,1,1,1,3,1,g,7,19,1,1,h,2,1,1,1,1,1,1,1,1,2,1,2,1,1,1,4,1,1,2,6,1,1,1,1,1,1,1,2,1,1,1,1,1,1,4,6,1,2,1:w,1:t,1,1,1,1,1,1,1,1,1,1,6:w,1,1,1,1,1,1,2:t,1,1,c,2u:1j,1,1,1,1,1,1,2,1,1,1,1:15,1,1:1j,1,4,1,1,1,1,6,1,1,1,1,1,1,4,1,1,1,1,g,1,1,1,1,1,1,1:15,r:1j,5,2:15,1,1,2,1,1,1,1,1,1,5,1,1,2,1,9,a,a,a,u,9,2:1h,1:f,1:e,1:f,1:e,1,1:1h,1,2:9,2:f,3:e,1,2:1h,1,1:e,1:1h,1:e,1:1h,1:e,1,1,1:1h,3:f,2,2:9,1:1h,2,1:e,1:f,1:e,1,1:9,1:e,1:1h,1:f,1,1:1h,2:e,1,1,1,2:15,1:e,1:1h,1,1,2,1,1,1:e,2:1h,1:f,1:1h,1:e,2:1h,1,1,2,1,1:e,1:1h,1,1,1:e,2:1h,1:e,2,1:1h,1:e,3:1h,1,1,9:e,1,1,1,1,1,1,1,1,2,1,1,1,1u,3,1,1,1,1,1,1,1,b:13,1,1,2,1,1,1,1,1,2,8,1,1,1,1,2:q,1:15,1:13,1:15,1:13,2,1,1:15,1:13,1:15,1,1,2,1,1:13,1,1,1,1,1,1,1,1:q,1:13,1,1,1:15,1,1,1,1,2,1:13,2:15,1,1:13,a,8,i:e,1,2,1,5:i,2:p,1:d,1,1,1:e,1:p,1:e,1,3:d,1:e,1,2:d,1:e,1,1:p,1:d,1:e,1:i,2,1,1,3,2:p,1:d,1:i,1,1:d,1:p,3:d,1:i,1,1,1,1:e,1,1,2:z,2:e,1,1:z,1:i,i:e,3:i,2,4,1,1:z,4:e,3:i,2:j,1:9,1:1h,1:j,1:9,1,1,1,1,1:j,1:9,1,1,1:j,1:1h,1:9,2:1h,1,1:n,1:9,1,1:l,1:9,1,1,1,1,2,1,2:1h,1:9,1:n,1,1:j,1,1,1:9,1,1,1:j,1,1,1:9,1:1h,1:9,1,1,1,1,1:j,1:9,2,1,3,1:n,1:9,2,1:n,1:1h,1:9,1,1:j,1:1h,3,2:9,q,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,7,3,1,3,1,2,3,5,5,1,3,1,6,1,1,1,1,1,1,1,1,7,4,1,1,1,1,1e,18,d:q,1,3,1,1,1,4,3,5,1,1,1,1,1,1,1,1,2,2,1,7,2,1,1,6,3,1,1,5,2,14:14,3,5,1,3,1,1,1,1,1,1,1,1:16,1,1,1:14,1,1,1,2,5:16,2:14,1,1:16,1,1,1,1,1:14,g,1,1,1,1,1,1,4,4,6,3,2:16,1,1,1,1,d:11,1,1,1,2,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1:14,1:11,1,1,1,1,1,3,2,1,1,1,1,1,1,1,1,4,7,1,1,1,2,1,8,5,b,f:x,1,1,1,1,1,1,2,i,1,2,2,1,1,1,2,1,4,1,2,1,1,1,2,2,2,1,1,1,2,1,1,4,1,1,2,2,1,3,1,1,1,2,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,2:16,1,1:14,1:16,1,1,3,2k:14,1,1,1,2l,4:0,1,1:r,2:6,1,1,1:r,1:6,1:1b,1:6,1:1b,1:6,1,1:r,1:6,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2:1b,1,1,1:0,1,1,1,1,1,1,1,1,1,1,1:6,1,1,1:0,1,1,1:6,2:0,1:6,1:0,1:r,1,1:0,1:6,1:r,1:6,1,1,1:0,1:r,1:0,1:6,1,1:1b,1:6,1:r,1,1:6,1:r,1:0,1,1,1,1:r,1:6,1,2:1b,1:0,1,1,1:1b,1,1,1,3:6,1,1,1,1:r,2:0,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,p,a,1,1,1,4,z,1,1,1,1,1,1,1,1,1,2,8,29:6,1,1,1,1,1,1,1,c,u,1f:k,2,1,8,1,1,1,5,2:1c,1,1:k,1,1:1c,1,1,1:k,1,1:1c,2:k,4,1,1,1,1,1,3,1,1,1,1,1,1:1c,1,1,1,1,1:k,1,3,3,1,1,1,4,1,1:1c,1:k,1,1:1c,1:k,1,1,1,j,1:1c,2:17,1:16,1:17,1:q,1:17,1,1,1:16,1,1:17,1:16,1:q,1:16,1,1,2:17,1,1,1:16,1,2:y,1,1:16,1,4,1,1,1,2,1,1,1,1:q,2:17,1:16,1:y,1:16,1:y,1:16,4,1,1,1,1,1,1,4:17,1,1,1,1,1,1,1,3:16,1,2:17,2:y,1:17,1,o:16,2,3,2,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,7,2,1,1,1,1,1,1,1,1,1,1,1,3,6,2,1,h,1,1,1,1,2,5:12,1,1,1,1,1,1,1,1,1,1,1,1,1,1,4,1,1:4,1,1,1,1,1,1:12,1:4,1,1:12,1,1:4,1,1:12,2,1,3,1,1,3:4,1,1,1,1,2,1,1:12,1:4,1,2,1:12,9,2,r,1,4:n,2,1:12,1:1i,1:l,1:1d,2:1i,1,1:l,1:n,1:1d,2:n,1:1d,1:n,1:l,1:1d,1:12,1:1i,1:n,1:1d,1:n,1:l,1:1d,1:1i,1:1d,1,1:12,3:n,1,1:1i,1:12,1,1:l,2:n,1,2,1,1:l,1:1i,1,1:n,2:1d,1,1,1,1,1,1,1,1,2,1,2,1:1i,1:n,1:12,1:1d,1,1:n,1:1i,2,1,1:n,1:1i,1:12,1,1,1:1i,1:1d,1,1,1:1i,2:12,1:1d,1,1:n,1:l,2:12,6:1d,4:1c,1,1,1,1,1,1,2,1:m,2:1c,3:m,1:1c,1:m,1,1:1c,1:m,1:1c,1:g,1,1,1:1c,1:g,1:m,1,1,1:1c,1,1:m,1:1c,2:g,1:1c,1:m,2:1c,2,1,1:g,1:1c,1:m,1:1c,2,1:m,1:1c,1:g,1:1c,1:g,1:m,2,1:g,1,1:m,1,1:g,1:1c,1:m,1:g,1:1c,1:m,1:g,1:m,1,1,1:1c,1,1,3,4,1:m,1,3:g,1:1c,1,1:m,2,2:1c,1:g,1:m,3:1c,4:b,1,1,8,3,4,1,2,3,1,1,1:1g,1:b,3:7,1,2:b,2,1,1:7,2:b,2,1:7,2:b,1,1,1:7,1:b,1,1,1:1g,1:b,1,1,1,2,1,1,2,1:1g,1:b,1,2:7,1:1a,1:b,1,1,2,c:m,2,2:b,6:1g,6:2,1:u,1,1,1:1k,1,1,1:x,1,1,1,1:1k,1:8,1,1:x,1:1k,1,1,1:8,1:1b,1:x,2:8,1:x,1:1b,1:x,1:1k,1:x,1:2,1:x,1:u,1:x,1:8,1,1,1,1:1k,1:x,1,1:2,1:x,1:2,2,1:1k,1:1,2:u,2,1:8,1:x,1:1k,1:2,1:x,1:8,2:u,1:1e,1:x,1:u,1:x,1:u,1:8,1:2,1,1:8,1:1e,1:2,1:x,1,1:8,1:x,1:1e,1:2,1:1e,1:u,1,1:1k,1:x,1:u,1:8,1:x,1:8,1:2,1:12,1:1b,1,1:2,1:x,1:1k,1:1l,1:x,1:1k,1,1:1b,1:1k,1,1:2,2:u,2,6:8,3:s,1:u,1,1,2,3:8,1,1:u,2:s,2:8,2:s,7:8,1:u,5:x,1,4:u,1,a:x,1,1,3:8,1:x,2:u,b:1k,m,1,c:x,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,8,1,1,7,4,1,1,1,r,5,2:1l,2,7:19,2:5,1:a,1:3,1:v,1:3,1,1:1l,1,1:a,2:1l,1:v,1:s,1:1l,1:3,1,1,1,1,2:5,2:v,1:1l,1:19,1:1k,1:3,1:a,1:3,1,1,1:a,1:19,1:s,1,1:v,1:3,1:s,1:5,1:a,2:1e,1:3,1:5,1:v,1:1e,1:3,1:s,1,1:1l,1,1:a,2:3,1,1,1,1,1:5,1:v,1:1l,1:3,1,1:s,1:3,1:s,1:3,1:5,1:v,1:1l,1:1e,1:v,1,2:s,1:5,1:a,3:1e,1,1,8:18,1,1,3:o,1:18,1,1:h,1:1g,1:18,2,1:1a,1:o,1:18,1,2,1:v,1:1f,1:18,1:1a,1:1g,1:1a,2,1:18,1:1f,2:1a,1,1:18,1:1a,1:1f,2:1a,1,1,1:18,1:1g,3:1a,2:1g,1:18,1:1g,1:18,1:1a,1:18,1:1g,2:o,1:1f,1:18,1:1a,1,1:1f,2,1:18,1:1f,1:1a,1:18,2:1a,1:h,1:18,1,1,2,1:1f,1,1:18,2:1f,1:18,1:1f,4:18,1:1a,1,1:18,1,1,1:1f,1:1g,1:1f,1:1g,1:1a,1:18,1,1:1a,2:18,2:o,2:v,1:o,1:v,1,1:p,1:o,1:h,1:o,1:s,1:o,1:h,1,1:o,1,1:h,1:19,1:h,1:1,1:h,1:v,1:h,1:19,1,1,1:h,1,1:v,1:h,2,1:p,1:1a,1:v,1:h,1,3:u,1,1:8,1:u,2,1,2,2:8,1,1,2,1,1,1,1,2:s,1,1',
+    cities: 'Acampo=12|Acton=i|Adelanto=z|Adin=o|Agoura Hills=i|Aguanga=w|Ahwahnee=j|Alameda=0|Alamo=6|Albany=0|Albion=m|Alderpoint=b|Alhambra=i|Aliso Viejo=t|Alleghany=19|Alpaugh=1h|Alpine=10|Alta=u|Altadena=i|Altaville=4|Alturas=o|Alviso=16|Amador City=2|Amboy=z|American Canyon=r|Anaheim=t|Anderson=18|Angels Camp=4|Angelus Oaks=z|Angwin=r|Annapolis=1c|Antelope=x|Antioch=6|Anza=w|Apple Valley=z|Applegate=u|Aptos=17|Arbuckle=5|Arcadia=i|Arcata=b|Armona=f|Arnold=4|Aromas=q|Arroyo Grande=13|Artesia=i|Artois=a|Arvin=e|Atascadero=13|Atherton=14|Atwater=n|Atwood=t|Auberry=9|Auburn=u|Avalon=i|Avenal=f|Avery=4|Avila Beach=13|Azusa=i|Badger=1h|Baker=z|Bakersfield=e|Baldwin Park=i|Ballico=n|Bangor=3|Banning=w|Bard=c|Barstow=z|Bass Lake=j|Bayside=b|Beale Afb=1l|Beaumont=w|Beckwourth=v|Belden=v|Bell=i|Bell Gardens=i|Bella Vista=18|Bellflower=i|Belmont=14|Belvedere Tiburon=k|Ben Lomond=17|Benicia=1b|Benton=p|Berkeley=0|Berry Creek=3|Bethel Island=6|Beverly Hills=i|Bieber=h|Big Bar=1g|Big Bear City=z|Big Bear Lake=z|Big Bend=18|Big Creek=9|Big Oak Flat=1i|Big Pine=d|Big Sur=q|Biggs=3|Biola=9|Birds Landing=1b|Bishop=d|Blairsden Graeagle=v|Blocksburg=b|Bloomington=z|Blue Jay=z|Blue Lake=b|Blythe=w|Bodega=1c|Bodega Bay=1c|Bodfish=e|Bolinas=k|Bonita=10|Bonsall=10|Boonville=m|Boron=e|Borrego Springs=10|Boulder Creek=17|Boulevard=10|Boyes Hot Springs=1c|Bradley=q|Brandeis=1j|Branscomb=m|Brawley=c|Brea=t|Brentwood=6|Bridgeport=p|Bridgeville=b|Brisbane=14|Brookdale=17|Brooks=1k|Browns Valley=1l|Brownsville=1l|Bryn Mawr=z|Buellton=15|Buena Park=t|Burbank=i|Burlingame=14|Burney=18|Burnt Ranch=1g|Burrel=9|Burson=4|Butte City=a|Buttonwillow=e|Byron=6|Cabazon=w|Calabasas=i|Calexico=c|Caliente=e|California City=e|California Hot Springs=1h|Calimesa=w|Calipatria=c|Calistoga=r|Callahan=1a|Calpella=m|Calpine=19|Camarillo=1j|Cambria=13|Camino=8|Camp Meeker=1c|Camp Nelson=1h|Camp Pendleton=10|Campbell=16|Campo=10|Campo Seco=4|Camptonville=1l|Canby=o|Canoga Park=i|Cantil=e|Cantua Creek=9|Canyon=6|Canyon Country=i|Canyon Dam=v|Capay=1k|Capistrano Beach=t|Capitola=17|Cardiff By The Sea=10|Carlotta=b|Carlsbad=10|Carmel=q|Carmel By The Sea=q|Carmel Valley=q|Carmichael=x|Carnelian Bay=u|Carpinteria=15|Carson=i|Caruthers=9|Casmalia=15|Caspar=m|Cassel=18|Castaic=i|Castella=18|Castro Valley=0|Castroville=q|Cathedral City=w|Catheys Valley=l|Cayucos=13|Cazadero=1c|Cedar Glen=z|Cedar Ridge=s|Cedarpines Park=z|Cedarville=o|Ceres=1d|Cerritos=i|Challenge=1l|Chatsworth=i|Chester=v|Chicago Park=s|Chico=3|Chilcoot=v|Chinese Camp=1i|Chino=z|Chino Hills=z|Chowchilla=j|Chualar=q|Chula Vista=10|Cima=z|Citrus Heights=x|City Of Industry=i|Claremont=i|Clarksburg=1k|Clayton=6|Clearlake=g|Clearlake Oaks=g|Clearlake Park=g|Clements=12|Clio=v|Clipper Mills=3|Cloverdale=1c|Clovis=9|Coachella=w|Coalinga=9|Coarsegold=j|Cobb=g|Coleville=p|Colfax=u|Coloma=8|Colton=z|Columbia=1i|Colusa=5|Comptche=m|Compton=i|Concord=6|Cool=8|Copperopolis=4|Corcoran=f|Corning=1f|Corona=w|Corona Del Mar=t|Coronado=10|Corte Madera=k|Costa Mesa=t|Cotati=1c|Cottonwood=18|Coulterville=l|Courtland=x|Covelo=m|Covina=i|Coyote=16|Crescent City=7|Crescent Mills=v|Cressey=n|Crestline=z|Creston=13|Crockett=6|Crows Landing=1d|Culver City=i|Cupertino=16|Cutler=1h|Cutten=b|Cypress=t|Daggett=z|Daly City=14|Dana Point=t|Danville=6|Darwin=d|Davenport=17|Davis=1k|Davis Creek=o|Death Valley=d|Deer Park=r|Del Mar=10|Del Rey=9|Delano=e|Delhi=n|Denair=1d|Descanso=10|Desert Center=w|Desert Hot Springs=w|Diablo=6|Diamond Bar=i|Diamond Springs=8|Dillon Beach=k|Dinuba=1h|Discovery Bay=6|Dixon=1b|Dobbins=1l|Dodgertown=i|Dorris=1a|Dos Palos=n|Dos Rios=m|Douglas City=1g|Douglas Flat=4|Downey=i|Downieville=19|Doyle=h|Drytown=2|Duarte=i|Dublin=0|Ducor=1h|Dulzura=10|Duncans Mills=1c|Dunlap=9|Dunnigan=1k|Dunsmuir=1a|Durham=3|Dutch Flat=u|Eagleville=o|Earlimart=1h|Earp=z|East Irvine=t|Echo Lake=8|Edison=e|Edwards=e|El Cajon=10|El Centro=c|El Cerrito=6|El Dorado=8|El Dorado Hills=8|El Granada=14|El Monte=i|El Nido=n|El Portal=l|El Segundo=i|El Sobrante=6|El Toro=t|El Verano=1c|Eldridge=1c|Elk=m|Elk Creek=a|Elk Grove=x|Elmira=1b|Elverta=x|Emeryville=0|Emigrant Gap=u|Empire=1d|Encinitas=10|Encino=i|Escalon=12|Escondido=10|Esparto=1k|Essex=z|Etna=1a|Eureka=b|Exeter=1h|Fair Oaks=x|Fairfax=k|Fairfield=1b|Fall River Mills=18|Fallbrook=10|Farmersville=1h|Farmington=12|Fawnskin=z|Feather Falls=3|Fellows=e|Felton=17|Ferndale=b|Fiddletown=2|Fields Landing=b|Fillmore=1j|Finley=g|Firebaugh=9|Fish Camp=l|Five Points=9|Floriston=s|Flournoy=1f|Folsom=x|Fontana=z|Foothill Ranch=t|Forbestown=3|Forest Falls=z|Forest Knolls=k|Forest Ranch=3|Foresthill=u|Forestville=1c|Forks Of Salmon=1a|Fort Bidwell=o|Fort Bragg=m|Fort Dick=7|Fort Irwin=z|Fort Jones=1a|Fortuna=b|Fountain Valley=t|Fowler=9|Frazier Park=e|Freedom=17|Fremont=0|French Camp=12|French Gulch=18|Fresno=9|Friant=9|Fullerton=t|Fulton=1c|Galt=x|Garberville=b|Garden Grove=t|Garden Valley=8|Gardena=i|Gasquet=7|Gazelle=1a|Georgetown=8|Gerber=1f|Geyserville=1c|Gilroy=16|Glen Ellen=1c|Glencoe=4|Glendale=i|Glendora=i|Glenhaven=g|Glenn=a|Glennville=e|Gold Run=u|Goleta=15|Gonzales=q|Goodyears Bar=19|Goshen=1h|Granada Hills=i|Grand Terrace=z|Granite Bay=u|Grass Valley=s|Graton=1c|Green Valley Lake=z|Greenbrae=k|Greenfield=q|Greenview=1a|Greenville=v|Greenwood=8|Grenada=1a|Gridley=3|Grimes=5|Grizzly Flats=8|Groveland=1i|Grover Beach=13|Guadalupe=15|Gualala=m|Guasti=z|Guatay=10|Guerneville=1c|Guinda=1k|Gustine=n|Hacienda Heights=i|Half Moon Bay=14|Hamilton City=a|Hanford=f|Happy Camp=1a|Harbor City=i|Harmony=13|Hat Creek=18|Hathaway Pines=4|Hawaiian Gardens=i|Hawthorne=i|Hayfork=1g|Hayward=0|Healdsburg=1c|Heber=c|Helendale=z|Helm=9|Hemet=w|Herald=x|Hercules=6|Herlong=h|Hermosa Beach=i|Hesperia=z|Hickman=1d|Hidden Valley Lake=g|Highland=z|Hilmar=n|Hinkley=z|Hollister=y|Holt=12|Holtville=c|Holy City=16|Homeland=w|Homewood=u|Honeydew=b|Hood=x|Hoopa=b|Hopland=m|Hornbrook=1a|Hornitos=l|Hughson=1d|Hume=9|Huntington Beach=t|Huntington Park=i|Huron=9|Hyampom=1g|Hydesville=b|Idyllwild=w|Igo=18|Imperial=c|Imperial Beach=10|Independence=d|Indian Wells=w|Indio=w|Inglewood=i|Inverness=k|Inyokern=e|Ione=2|Irvine=t|Isleton=x|Ivanhoe=1h|Jackson=2|Jacumba=10|Jamestown=1i|Jamul=10|Janesville=h|Jenner=1c|Johannesburg=e|Jolon=q|Joshua Tree=z|Julian=10|Junction City=1g|June Lake=p|Kaweah=1h|Keeler=d|Keene=e|Kelseyville=g|Kentfield=k|Kenwood=1c|Kerman=9|Kernville=e|Kettleman City=f|Keyes=1d|King City=q|Kings Beach=u|Kings Canyon National Pk=1h|Kingsburg=9|Kirkwood=1|Kit Carson=2|Klamath=7|Klamath River=1a|Kneeland=b|Knights Landing=1k|Knightsen=6|Korbel=b|Kyburz=8|La Canada Flintridge=i|La Crescenta=i|La Grange=1d|La Habra=t|La Honda=14|La Jolla=10|La Mesa=10|La Mirada=i|La Palma=t|La Puente=i|La Quinta=w|La Verne=i|Ladera Ranch=t|Lafayette=6|Laguna Beach=t|Laguna Hills=t|Laguna Niguel=t|Laguna Woods=t|Lagunitas=k|Lake Arrowhead=z|Lake City=o|Lake Elsinore=w|Lake Forest=t|Lake Hughes=i|Lake Isabella=e|Lakehead=18|Lakeport=g|Lakeshore=9|Lakeside=10|Lakewood=i|Lamont=e|Lancaster=i|Landers=z|Larkspur=k|Lathrop=12|Laton=9|Lawndale=i|Laytonville=m|Le Grand=n|Lebec=e|Lee Vining=p|Leggett=m|Lemon Cove=1h|Lemon Grove=10|Lemoore=f|Lewiston=1g|Likely=o|Lincoln=u|Linden=12|Lindsay=1h|Litchfield=h|Little Lake=d|Little River=m|Littlerock=i|Live Oak=1e|Livermore=0|Livingston=n|Llano=i|Lockeford=12|Lockwood=q|Lodi=12|Loleta=b|Loma Linda=z|Loma Mar=14|Lomita=i|Lompoc=15|Lone Pine=d|Long Barn=1i|Long Beach=i|Lookout=o|Loomis=u|Los Alamitos=t|Los Alamos=15|Los Altos=16|Los Angeles=i|Los Banos=n|Los Gatos=16|Los Molinos=1f|Los Olivos=15|Los Osos=13|Lost Hills=e|Lotus=8|Lower Lake=g|Loyalton=19|Lucerne=g|Lucerne Valley=z|Ludlow=z|Lynwood=i|Lytle Creek=z|Macdoel=1a|Mad River=1g|Madeline=h|Madera=j|Madison=1k|Magalia=3|Malibu=i|Mammoth Lakes=p|Manchester=m|Manhattan Beach=i|Manteca=12|Manton=1f|March Air Reserve Base=w|Maricopa=e|Marina=q|Marina Del Rey=i|Mariposa=l|Markleeville=1|Marshall=k|Martell=2|Martinez=6|Marysville=1l|Mather=x|Maxwell=5|Maywood=i|Mc Farland=e|Mc Kittrick=e|Mcarthur=18|Mcclellan=x|Mccloud=1a|Mckinleyville=b|Meadow Valley=v|Meadow Vista=u|Mecca=w|Mendocino=m|Mendota=9|Menifee=w|Menlo Park=14|Mentone=z|Merced=n|Meridian=1e|Mi Wuk Village=1i|Middletown=g|Midpines=l|Midway City=t|Milford=h|Mill Creek=1f|Mill Valley=k|Millbrae=14|Millville=18|Milpitas=16|Mineral=1f|Mira Loma=w|Miramonte=9|Miranda=b|Mission Hills=i|Mission Viejo=t|Moccasin=1i|Modesto=1d|Mojave=e|Mokelumne Hill=4|Mono Hot Springs=9|Monrovia=i|Montague=1a|Montara=14|Montclair=z|Monte Rio=1c|Montebello=i|Monterey=q|Monterey Park=i|Montgomery Creek=18|Montrose=i|Moorpark=1j|Moraga=6|Moreno Valley=w|Morgan Hill=16|Morongo Valley=z|Morro Bay=13|Moss Beach=14|Moss Landing=q|Mount Aukum=8|Mount Baldy=i|Mount Hamilton=16|Mount Hermon=17|Mount Laguna=10|Mount Shasta=1a|Mount Wilson=i|Mountain Center=w|Mountain Pass=z|Mountain Ranch=4|Mountain View=16|Murphys=4|Murrieta=w|Myers Flat=b|Napa=r|National City=10|Navarro=m|Needles=z|Nelson=3|Nevada City=s|New Almaden=16|New Cuyama=15|Newark=0|Newberry Springs=z|Newbury Park=1j|Newcastle=u|Newhall=i|Newman=1d|Newport Beach=t|Newport Coast=t|Nicasio=k|Nice=g|Nicolaus=1e|Niland=c|Nipomo=13|Nipton=z|Norco=w|Norden=s|North Fork=j|North Highlands=x|North Hills=i|North Hollywood=i|North Palm Springs=w|North San Juan=s|Northridge=i|Norwalk=i|Novato=k|Nubieber=h|Nuevo=w|O Neals=j|Oak Park=1j|Oak Run=18|Oak View=1j|Oakdale=1d|Oakhurst=j|Oakland=0|Oakley=6|Oakville=r|Obrien=18|Occidental=1c|Oceano=13|Oceanside=10|Ocotillo=c|Ojai=1j|Olancha=d|Old Station=18|Olema=k|Olivehurst=1l|Olympic Valley=u|Ontario=z|Onyx=e|Orange=t|Orange Cove=9|Orangevale=x|Oregon House=1l|Orick=b|Orinda=6|Orland=a|Orleans=b|Oro Grande=z|Orosi=1h|Oroville=3|Oxnard=1j|Pacific Grove=q|Pacific Palisades=i|Pacifica=14|Pacoima=i|Paicines=y|Pala=10|Palermo=3|Palm Desert=w|Palm Springs=w|Palmdale=i|Palo Alto=16|Palo Cedro=18|Palo Verde=c|Palomar Mountain=10|Palos Verdes Peninsula=i|Panorama City=i|Paradise=3|Paramount=i|Parker Dam=z|Parlier=9|Pasadena=i|Paskenta=1f|Paso Robles=13|Patterson=1d|Patton=z|Pauma Valley=10|Paynes Creek=1f|Pearblossom=i|Pebble Beach=q|Penn Valley=s|Penngrove=1c|Penryn=u|Perris=w|Pescadero=14|Petaluma=1c|Petrolia=b|Phelan=z|Phillipsville=b|Philo=m|Pico Rivera=i|Piedmont=0|Piedra=9|Piercy=m|Pilot Hill=8|Pine Grove=2|Pine Mountain Club=e|Pine Valley=10|Pinecrest=1i|Pinole=6|Pinon Hills=z|Pioneer=2|Pioneertown=z|Piru=1j|Pismo Beach=13|Pittsburg=6|Pixley=1h|Placentia=t|Placerville=8|Planada=n|Platina=18|Playa Del Rey=i|Playa Vista=i|Pleasant Grove=1e|Pleasant Hill=6|Pleasanton=0|Plymouth=2|Point Arena=m|Point Mugu Nawc=1j|Point Reyes Station=k|Pollock Pines=8|Pomona=i|Pope Valley=r|Port Costa=6|Port Hueneme=1j|Port Hueneme Cbc Base=1j|Porter Ranch=i|Porterville=1h|Portola=v|Portola Valley=14|Posey=1h|Potrero=10|Potter Valley=m|Poway=10|Prather=9|Princeton=5|Proberta=1f|Quail Valley=w|Quincy=v|Rackerby=1l|Rail Road Flat=4|Raisin City=9|Ramona=10|Ranchita=10|Rancho Cordova=x|Rancho Cucamonga=z|Rancho Mirage=w|Rancho Palos Verdes=i|Rancho Santa Fe=10|Rancho Santa Margarita=t|Randsburg=e|Ravendale=h|Raymond=j|Red Bluff=1f|Red Mountain=z|Redcrest=b|Redding=18|Redlands=z|Redondo Beach=i|Redway=b|Redwood City=14|Redwood Estates=16|Redwood Valley=m|Reedley=9|Represa=x|Rescue=8|Reseda=i|Rialto=z|Richgrove=1h|Richmond=6|Richvale=3|Ridgecrest=e|Rimforest=z|Rio Dell=b|Rio Linda=x|Rio Nido=1c|Rio Oso=1e|Rio Vista=1b|Ripon=12|River Pines=2|Riverbank=1d|Riverdale=9|Riverside=w|Robbins=1e|Rocklin=u|Rodeo=6|Rohnert Park=1c|Rosamond=e|Rosemead=i|Roseville=u|Ross=k|Rough And Ready=s|Round Mountain=18|Rowland Heights=i|Rumsey=1k|Running Springs=z|Rutherford=r|Ryde=x|Sacramento=x|Saint Helena=r|Salida=1d|Salinas=q|Salton City=c|Salyer=1g|Samoa=b|San Andreas=4|San Anselmo=k|San Ardo=q|San Bernardino=z|San Bruno=14|San Carlos=14|San Clemente=t|San Diego=10|San Dimas=i|San Fernando=i|San Francisco=11|San Gabriel=i|San Geronimo=k|San Gregorio=14|San Jacinto=w|San Joaquin=9|San Jose=16|San Juan Bautista=y|San Juan Capistrano=t|San Leandro=0|San Lorenzo=0|San Lucas=q|San Luis Obispo=13|San Luis Rey=10|San Marcos=10|San Marino=i|San Martin=16|San Mateo=14|San Miguel=13|San Pablo=6|San Pedro=i|San Quentin=k|San Rafael=k|San Ramon=6|San Simeon=13|San Ysidro=10|Sanger=9|Santa Ana=t|Santa Barbara=15|Santa Clara=16|Santa Clarita=i|Santa Cruz=17|Santa Fe Springs=i|Santa Margarita=13|Santa Maria=15|Santa Monica=i|Santa Paula=1j|Santa Rita Park=n|Santa Rosa=1c|Santa Ynez=15|Santa Ysabel=10|Santee=10|Saratoga=16|Sausalito=k|Scotia=b|Scott Bar=1a|Scotts Valley=17|Seal Beach=t|Seaside=q|Sebastopol=1c|Seeley=c|Seiad Valley=1a|Selma=9|Sequoia National Park=1h|Shafter=e|Shandon=13|Shasta=18|Shasta Lake=18|Shaver Lake=9|Sheridan=u|Sherman Oaks=i|Shingle Springs=8|Shingletown=18|Shoshone=d|Sierra City=19|Sierra Madre=i|Sierraville=19|Signal Hill=i|Silverado=t|Simi Valley=1j|Skyforest=z|Sloughhouse=x|Smartsville=s|Smith River=7|Snelling=n|Soda Springs=s|Solana Beach=10|Soledad=q|Solvang=15|Somerset=8|Somes Bar=1a|Somis=1j|Sonoma=1c|Sonora=1i|Soquel=17|Soulsbyville=1i|South Dos Palos=n|South El Monte=i|South Gate=i|South Lake Tahoe=8|South Pasadena=i|South San Francisco=14|Spreckels=q|Spring Valley=10|Springville=1h|Standard=1i|Standish=h|Stanford=16|Stanton=t|Stevenson Ranch=i|Stevinson=n|Stewarts Point=1c|Stinson Beach=k|Stirling City=3|Stockton=12|Stonyford=5|Storrie=v|Stratford=f|Strathmore=1h|Strawberry=1i|Strawberry Valley=1l|Studio City=i|Sugarloaf=z|Suisun City=1b|Sultana=1h|Summerland=15|Sun City=w|Sun Valley=i|Sunland=i|Sunnyvale=16|Sunol=0|Sunset Beach=t|Surfside=t|Susanville=h|Sutter=1e|Sutter Creek=2|Sylmar=i|Taft=e|Tahoe City=u|Tahoe Vista=u|Tahoma=8|Talmage=m|Tarzana=i|Taylorsville=v|Tecate=10|Tecopa=d|Tehachapi=e|Tehama=1f|Temecula=w|Temple City=i|Templeton=13|Termo=h|Terra Bella=1h|The Sea Ranch=1c|Thermal=w|Thornton=12|Thousand Oaks=1j|Thousand Palms=w|Three Rivers=1h|Tipton=1h|Tollhouse=9|Toluca Lake=i|Tomales=k|Topanga=i|Topaz=p|Torrance=i|Trabuco Canyon=t|Tracy=12|Tranquillity=9|Traver=1h|Travis Afb=1b|Tres Pinos=y|Trinidad=b|Trinity Center=1g|Trona=z|Truckee=s|Tujunga=i|Tulare=1h|Tulelake=1a|Tuolumne=1i|Tupman=e|Turlock=1d|Tustin=t|Twain=v|Twain Harte=1i|Twentynine Palms=z|Twin Bridges=8|Twin Peaks=z|Ukiah=m|Union City=0|Universal City=i|Upland=z|Upper Lake=g|Vacaville=1b|Valencia=i|Vallecito=4|Vallejo=1b|Valley Center=10|Valley Ford=1c|Valley Springs=4|Valley Village=i|Valyermo=i|Van Nuys=i|Venice=i|Ventura=1j|Verdugo City=i|Vernalis=12|Victor=12|Victorville=z|Vidal=z|Villa Grande=1c|Villa Park=t|Vina=1f|Vineburg=1c|Vinton=v|Visalia=1h|Vista=10|Volcano=2|Wallace=4|Walnut=i|Walnut Creek=6|Walnut Grove=x|Warner Springs=10|Wasco=e|Washington=s|Waterford=1d|Watsonville=17|Waukena=1h|Weaverville=1g|Weed=1a|Weimar=u|Weldon=e|Wendel=h|Weott=b|West Covina=i|West Hills=i|West Hollywood=i|West Point=4|West Sacramento=1k|Westlake Village=1j|Westley=1d|Westminster=t|Westmorland=c|Westport=m|Westwood=h|Wheatland=1l|Whiskeytown=18|Whitethorn=b|Whitewater=w|Whitmore=18|Whittier=i|Wildomar=w|Williams=5|Willits=m|Willow Creek=b|Willows=a|Wilmington=i|Wilseyville=4|Wilton=x|Winchester=w|Windsor=1c|Winnetka=i|Winterhaven=c|Winters=1k|Winton=n|Wishon=j|Witter Springs=g|Wofford Heights=e|Woodacre=k|Woodbridge=12|Woodlake=1h|Woodland=1k|Woodland Hills=i|Woody=e|Wrightwood=z|Yermo=z|Yettem=1h|Yokuts=9|Yolo=1k|Yorba Linda=t|Yorkville=m|Yosemite National Park=l|Yountville=r|Yreka=1a|Yuba City=1e|Yucaipa=z|Yucca Valley=z|Zamora=1k|Zenia=1g'
+  },
+  CO: {
+    counties: 'Adams|Alamosa|Arapahoe|Archuleta|Baca|Bent|Boulder|Broomfield|Chaffee|Cheyenne|Clear Creek|Conejos|Costilla|Crowley|Custer|Delta|Denver|Dolores|Douglas|Eagle|El Paso|Elbert|Fremont|Garfield|Gilpin|Grand|Gunnison|Hinsdale|Huerfano|Jackson|Jefferson|Kiowa|Kit Carson|La Plata|Lake|Larimer|Las Animas|Lincoln|Logan|Mesa|Mineral|Moffat|Montezuma|Montrose|Morgan|Otero|Ouray|Park|Phillips|Pitkin|Prowers|Pueblo|Rio Blanco|Rio Grande|Routt|Saguache|San Juan|San Miguel|Sedgwick|Summit|Teller|Washington|Weld|Yuma',
+    zips: '1pq9:u,1,1,1,1,1,1,3:2,1:0,1:2,1,1,1,1,1,1,1:0,1:6,1:u,1:0,1:7,1:0,1:6,1,1,3:0,1,2:u,1,1:0,1,1,1:6,2:0,1:2,1:0,2:2,1:0,1:2,1,1i:l,1:0,1:2,1:i,1:2,1:l,1,1:i,1,1:2,1,1,1,3:i,1:l,1:i,2:2,1,1,1:u,1:i,1,1,1:u,1,1:i,1,1,1:k,1,1:i,1,1:0,1,1:i,c:2,1,4,5,1,1:u,1:i,2:2,1,z:g,1,1,1,1,1,1,1,1,1,1,1,2:u,1,1:g,1,1,1,1,1:0,1:g,1,1,1:u,1,1:g,1:u,1:0,1:g,1,1:u,1:0,1,1:g,1,1,1,1,2:0,2:g,1,2,1,1,1,1,1,1,4,1,2,1:0,1:g,1,1,1,1,1,5,2,1,7,9,1,2,1,5,2:6,1,1,1,1,1,1,1,1,1,4,2f:u,1,1,g,1:1b,1,1:o,1:j,1:1n,1:u,1:j,1:o,1:1i,1:y,1:t,2:1b,1:u,1:t,1:1n,1:a,1:u,1:a,1:u,1:1b,2:p,1:1n,1:a,2:p,1,1:1b,1,2:p,1:a,1:u,1,1:6,1:1b,1:u,2:p,2:y,2:j,2:u,1:6,1:1i,1:p,1:1i,1:u,1:6,2:t,1:o,1:1b,1:a,1:1i,1:p,1:1i,1:t,1:6,1:p,1:1i,4,1,9:1n,1,3:6,1,1,1:1q,6:6,1:z,1,1,1:1q,1:z,1:1q,1:z,3:1q,1:z,1,1,1,1,1,1,1,2:1q,2:z,1:6,1:1q,1:z,1,1,1,1,1:6,1:z,1:1q,1,1:6,1:z,1:1q,1:z,2,1:1q,1,2:z,1c:0,1,1,7:1q,1,1,2:0,1:1q,5,1,1,1,1,7,1,1,1,4,1,1:0,2:1q,1,1,1,1,2,1:18,1:1q,1,1,1:18,1,1b,4,f:1p,1:1c,1:12,1:18,3:12,1:1r,1:12,1:1q,2:1c,1:1q,1:18,1:1c,1:1r,1:12,1:1m,3:1p,1:12,1:1q,1:1p,1:1m,1:12,1:1c,1:12,2:1m,1:18,1:12,3:1q,1:1r,2:1p,1:1r,1,16:1p,1:9,2:11,1:w,2,1:k,1,1:9,2:1p,1:1o,1,1:w,1:1o,1:k,1:11,1:k,1:1b,1:11,1:1r,1:11,1:1r,1:9,1:11,1:1b,1:11,1:k,1:l,1:k,1,1,1:w,1:l,1:w,4:k,1,j:1o,1:w,1:9,1:1o,1:k,2:1o,z:k,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,2,2,1,2,1,1,9,2,8,7,i,2,4:1f,1,1,1,1,1,1,1,1,1,1,1,7,1:10,1:v,1:1f,1,1:10,1:1f,2:10,2:4,1:19,3:d,1,2:v,2:5,1:19,1:s,1:1e,2,1:5,1:v,1:10,1:1e,2:10,1:19,2:1e,2:5,1:s,2:5,1:19,1:10,3:d,1,1:4,3:19,2:1f,2:v,2:4,3:d,1:19,4:10,1,2:4,3,2:s,1:4,1:10,1:1e,9:1,1,i:b,1:3,1:x,1:c,1:b,1:1j,1:c,2:3,1:b,1:14,1:1j,1:1h,1:c,2:1h,1:1,1:x,1:c,2:b,1,2:1j,1:1h,2:1,1:3,1:b,1:1j,2:b,1:c,2:1h,1:1j,2:3,18:8,9:q,1:8,1:m,3,5:17,1:m,1,1,1:q,1,1:m,1:8,1,2:q,1,1:m,1,2:r,1:8,1:q,2,1:m,1:q,1:8,1:q,1:m,4:1j,3:y,1:e,1,11:m,b:x,1,1,h:h,1:16,2,1:h,1:1l,1:x,1:16,1,1:x,1:16,1,1:h,2:16,1,1u:17,1,1,7:f,1:17,2:f,1,1,1,2,1,1,2:17,1:1l,1:17,1,1:1l,1:1a,1:f,1:17,1:1l,1:17,1:1a,1:1k,1:q,1:1l,1u:13,1,1,1,1,1,1,d,1,1,1,1,1,1,1,22:n,1,8:15,1:1d,1,3,5:j,1,2:n,1:13,1:15,1,4:13,1:j,1,1:15,2:n,1,1:j,1:15,1:1i,1:15,1:1g,1:1d,1:13,2:j,1:13,1:n,1:1g,1:j,1:n,2,1:15,1:1d,1:j,1:1d,1:j,1',
+    cities: 'Agate=l|Aguilar=10|Akron=1p|Alamosa=1|Allenspark=6|Alma=1b|Almont=q|Amherst=1c|Anton=1p|Antonito=b|Arapahoe=9|Arboles=3|Arlington=v|Arriba=11|Arvada=u|Aspen=1d|Atwood=12|Ault=1q|Aurora=2|Austin=f|Avon=j|Avondale=1f|Bailey=1b|Basalt=j|Battlement Mesa=n|Bayfield=x|Bedrock=17|Bellvue=z|Bennett=0|Berthoud=z|Bethune=w|Beulah=1f|Black Hawk=o|Blanca=c|Boncarbo=10|Bond=j|Boone=1f|Boulder=6|Branson=10|Breckenridge=1n|Briggsdale=1q|Brighton=0|Broomfield=6|Brush=18|Buena Vista=8|Buffalo Creek=u|Burlington=w|Burns=j|Byers=2|Cahone=h|Calhan=k|Campo=4|Canon City=m|Capulin=b|Carbondale=n|Carr=1q|Cascade=k|Castle Rock=i|Cedaredge=f|Center=1j|Central City=o|Chama=c|Cheraw=19|Cheyenne Wells=9|Chromo=3|Cimarron=17|Clark=1i|Clifton=13|Climax=y|Coal Creek=m|Coaldale=m|Coalmont=t|Collbran=13|Colorado City=1f|Colorado Springs=k|Commerce City=0|Como=1b|Conejos=b|Conifer=u|Cope=1p|Cortez=16|Cory=f|Cotopaxi=m|Cowdrey=t|Craig=15|Crawford=f|Creede=14|Crested Butte=q|Crestone=1j|Cripple Creek=1o|Crook=12|Crowley=d|Dacono=1q|De Beque=13|Deer Trail=2|Del Norte=1h|Delta=f|Denver=g|Dillon=1n|Dinosaur=15|Divide=1o|Dolores=16|Dove Creek=h|Drake=z|Dumont=a|Dupont=0|Durango=x|Eads=v|Eagle=j|Eastlake=0|Eaton=1q|Eckert=f|Eckley=1r|Edwards=j|Egnar=1l|Elbert=l|Eldorado Springs=6|Elizabeth=l|Empire=a|Englewood=2|Erie=1q|Estes Park=z|Evans=1q|Evergreen=u|Fairplay=1b|Firestone=1q|Flagler=w|Fleming=12|Florence=m|Florissant=1o|Fort Collins=z|Fort Garland=c|Fort Lupton=1q|Fort Lyon=5|Fort Morgan=18|Fountain=k|Fowler=19|Franktown=i|Fraser=p|Frederick=1q|Frisco=1n|Fruita=13|Galeton=1q|Gardner=s|Gateway=13|Genoa=11|Georgetown=a|Gilcrest=1q|Gill=1q|Glade Park=13|Glen Haven=z|Glenwood Springs=n|Golden=u|Granada=1e|Granby=p|Grand Junction=13|Grand Lake=p|Granite=8|Grant=1b|Greeley=1q|Green Mountain Falls=k|Grover=1q|Guffey=1b|Gunnison=q|Gypsum=j|Hamilton=15|Hartman=1e|Hartsel=1b|Hasty=5|Haswell=v|Haxtun=1c|Hayden=1i|Henderson=0|Hereford=1q|Hesperus=x|Hillrose=18|Hillside=m|Hoehne=10|Holly=1e|Holyoke=1c|Homelake=1h|Hooper=1|Hot Sulphur Springs=p|Hotchkiss=f|Howard=m|Hudson=1q|Hugo=11|Hygiene=6|Idaho Springs=a|Idalia=1r|Idledale=u|Ignacio=x|Iliff=12|Indian Hills=u|Jamestown=6|Jaroso=c|Jefferson=1b|Joes=1r|Johnstown=1q|Julesburg=1m|Karval=11|Keenesburg=1q|Kersey=1q|Kim=10|Kiowa=l|Kirk=1r|Kit Carson=9|Kittredge=u|Kremmling=p|La Jara=b|La Junta=19|La Salle=1q|La Veta=s|Lafayette=6|Lake City=r|Lake George=1b|Lamar=1e|Laporte=z|Larkspur=i|Las Animas=5|Lazear=f|Leadville=y|Lewis=16|Limon=11|Lindon=1p|Littleton=2|Livermore=z|Log Lane Village=18|Loma=13|Lone Tree=i|Longmont=6|Louisville=6|Louviers=i|Loveland=z|Lucerne=1q|Lyons=6|Mack=13|Manassa=b|Mancos=16|Manitou Springs=k|Manzanola=19|Marvel=x|Masonville=z|Matheson=l|Maybell=15|Mc Clave=5|Mc Coy=j|Mead=1q|Meeker=1g|Meredith=1d|Merino=12|Mesa=13|Mesa Verde National Park=16|Milliken=1q|Minturn=j|Model=10|Moffat=1j|Molina=13|Monarch=8|Monte Vista=1h|Montrose=17|Monument=k|Morrison=u|Mosca=1|Nathrop=8|Naturita=17|Nederland=6|New Castle=n|New Raymer=1q|Niwot=6|Norwood=1l|Nucla=17|Nunn=1q|Oak Creek=1i|Ohio City=q|Olathe=17|Olney Springs=d|Ophir=1l|Orchard=18|Ordway=d|Otis=1p|Ouray=1a|Ovid=1m|Padroni=12|Pagosa Springs=3|Palisade=13|Palmer Lake=k|Paoli=1c|Paonia=f|Parachute=n|Paradox=17|Parker=i|Parlin=q|Parshall=p|Peetz=12|Penrose=m|Peyton=k|Phippsburg=1i|Pierce=1q|Pine=u|Pinecliffe=6|Pitkin=q|Placerville=1l|Platteville=1q|Pleasant View=16|Poncha Springs=8|Powderhorn=q|Pritchett=4|Pueblo=1f|Ramah=k|Rand=t|Rangely=1g|Red Cliff=j|Red Feather Lakes=z|Redvale=17|Rico=h|Ridgway=1a|Rifle=n|Rockvale=m|Rocky Ford=19|Roggen=1q|Rollinsville=o|Romeo=b|Rush=k|Rye=1f|Saguache=1j|Salida=8|San Luis=c|Sanford=b|Sargents=1j|Sedalia=i|Sedgwick=1m|Seibert=w|Severance=1q|Shawnee=1b|Sheridan Lake=v|Silt=n|Silver Plume=a|Silverthorne=1n|Silverton=1k|Simla=l|Slater=15|Snowmass=1d|Snowmass Village=1d|Snyder=18|Somerset=q|South Fork=1h|Springfield=4|Steamboat Springs=1i|Sterling=12|Stoneham=1q|Strasburg=0|Stratton=w|Sugar City=d|Swink=19|Tabernash=p|Telluride=1l|Thornton=0|Timnath=z|Toponas=1i|Towaoc=16|Trinchera=10|Trinidad=10|Twin Lakes=y|Two Buttes=4|Usaf Academy=k|Vail=j|Vernon=1r|Victor=1o|Vilas=4|Villa Grove=1j|Vona=w|Walden=t|Walsenburg=s|Walsh=4|Ward=6|Watkins=0|Weldona=18|Wellington=z|Westcliffe=e|Westminster=0|Weston=10|Wetmore=e|Wheat Ridge=u|Whitewater=13|Wiggins=18|Wild Horse=9|Wiley=1e|Windsor=1q|Winter Park=p|Wolcott=j|Woodland Park=1o|Woodrow=1p|Woody Creek=1d|Wray=1r|Yampa=1i|Yellow Jacket=16|Yoder=k|Yuma=1r'
+  },
+  CT: {
+    counties: 'Capitol Region|Connecticut Metropolitan|Fairfield|Litchfield|Lower Connecticut River Valley|Middlesex|Naugatuck Valley|New London|Northeastern Connecticut|Northwest Hills|South Central Regional|Southeastern Connecticut|Tolland|Western Connecticut|Windham',
+    zips: '4mp:0,1,4,4:6,1,2:9,3:0,2:9,1:0,1,1:9,1:0,1,1:9,1:0,1,1:9,1:0,1,1,1:9,1:0,1,1,1,2,2:9,1:0,1,1,1,2,5,1,1,1,4:9,1,1:0,1,1:9,1:0,1:9,1:0,1:9,1:c,1:0,1:9,1,1:0,1,1,1,1,1,1,1,1,1:9,1:0,1,1,1,1,1,2,1,1,1,1:9,1:0,1,1:9,1:0,1,2:9,3:0,1,1,1,1,1,1,1,1,1,1,1,2,1,2,1,1,1,3,3,1,1,1,2,1,1,1,3,1,2,1,1,1,1,1,1,1,3,1,1,1,1,1,1,4,1,6,9,4,3,g,r:b,4:8,1:0,1,1:8,1,1,2:0,1,1:8,2,1,1,1,1,1,1,1:0,1:b,1:0,1,3:b,1:e,1:b,2:8,1,1,2,1,1,1:0,1:b,1:8,1:c,1,8:8,1,1:c,1:b,1:8,1,12:b,a,1:8,1,1:7,1,1:b,1,2,1,1,9,1,1,2,1:8,1:b,2,2,1,5,5,1:4,1:b,1:8,1,1:b,1:4,1:8,1:b,1,1,2,1,1:8,1:b,2:8,1:b,1,c:6,2,1:d,1:a,3:6,1:4,1:6,1,1:4,1,1,1:b,1:4,1,1:6,1:4,1:b,2:4,1,1,2,b:a,1:4,1,1:d,1:4,1,1:a,1:0,3,3:a,1,4:4,1,1,2,1:a,1,6:0,1:1,1:4,1:d,1:a,1,1,1:b,1:4,2:a,1:6,1:0,1:4,1:5,1:d,1:6,1,3,1,1:0,2:1,1:a,1,1,1,3:4,3:a,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,3,1,5,1,1,1,1,1,1,1,1,2,1p:1,1,2,1,1,1,1,2,1,1,2,1,1m,q,2:6,1,1,1,1,1,2,2,2,4,4,1,1,1,1,1,1,n,1:9,1:6,1:d,1:9,1,1:d,1:9,1,1,1,3:6,1:9,7:6,6:d,1:3,1:9,1:6,2,1,1:9,1:d,1:9,1:6,1,3:9,1,1,1,1:3,1:6,1:9,2:6,3:d,3,3,3,1,1,1,1,2,1,3,4:1,1,3,1:d,1,1,5,2,2,a,1,1,1,1,1,1,1,1,2,a,5:2,1:d,1,1,1,1,1,2,5,1,1:1,6:d,1,4,1,1,1,1,1,1,3,1,1,1,1,6,1,1,4,1',
+    cities: 'Abington=8|Amston=0|Andover=0|Ansonia=6|Ashford=8|Avon=0|Ballouville=8|Baltic=b|Bantam=9|Barkhamsted=9|Beacon Falls=6|Berlin=0|Bethany=a|Bethel=d|Bethlehem=6|Bloomfield=0|Bolton=0|Botsford=d|Bozrah=7|Branford=a|Bridgeport=1|Bridgewater=d|Bristol=6|Broad Brook=0|Brookfield=d|Brooklyn=8|Burlington=9|Canaan=9|Canterbury=8|Canton=0|Canton Center=0|Centerbrook=4|Central Village=8|Chaplin=8|Cheshire=6|Chester=4|Clinton=4|Cobalt=4|Colchester=b|Colebrook=9|Collinsville=0|Columbia=0|Cornwall=9|Cornwall Bridge=9|Cos Cob=d|Coventry=0|Cromwell=4|Danbury=d|Danielson=8|Darien=d|Dayville=8|Deep River=4|Derby=6|Durham=4|East Berlin=0|East Canaan=9|East Glastonbury=0|East Granby=0|East Haddam=4|East Hampton=4|East Hartford=0|East Hartland=9|East Killingly=8|East Lyme=7|East Windsor=0|East Windsor Hill=0|East Woodstock=8|Eastford=8|Easton=1|Ellington=0|Enfield=0|Essex=4|Fabyan=8|Fairfield=1|Falls Village=9|Farmington=0|Gales Ferry=b|Gaylordsville=d|Georgetown=d|Gilman=b|Glastonbury=0|Goshen=9|Granby=0|Greens Farms=d|Greenwich=d|Grosvenor Dale=8|Groton=b|Guilford=a|Haddam=4|Hadlyme=4|Hamden=a|Hampton=8|Hanover=b|Hartford=0|Harwinton=9|Hawleyville=d|Hebron=0|Higganum=4|Ivoryton=4|Jewett City=b|Kent=9|Killingworth=4|Lakeside=9|Lakeville=9|Lebanon=b|Ledyard=b|Litchfield=9|Madison=a|Manchester=0|Mansfield Center=0|Mansfield Depot=0|Marion=0|Marlborough=0|Mashantucket=b|Meriden=a|Middle Haddam=4|Middlebury=6|Middlefield=4|Middletown=4|Milford=a|Milldale=0|Monroe=1|Montville=b|Moodus=4|Moosup=8|Morris=9|Mystic=b|Naugatuck=6|New Britain=0|New Canaan=d|New Fairfield=d|New Hartford=9|New Haven=a|New London=b|New Milford=d|New Preston Marble Dale=3|Newington=0|Newtown=d|Niantic=b|Norfolk=9|North Branford=a|North Canton=0|North Franklin=b|North Granby=0|North Grosvenordale=e|North Haven=a|North Stonington=b|North Westchester=b|North Windham=b|Northfield=9|Northford=a|Norwalk=d|Norwich=b|Oakdale=b|Oakville=6|Old Greenwich=d|Old Lyme=4|Old Mystic=b|Old Saybrook=4|Oneco=8|Orange=a|Oxford=6|Pawcatuck=b|Pequabuck=6|Pine Meadow=9|Plainfield=8|Plainville=0|Plantsville=0|Plymouth=6|Pomfret=8|Pomfret Center=8|Poquonock=0|Portland=4|Preston=b|Prospect=6|Putnam=8|Quaker Hill=b|Quinebaug=8|Redding=d|Redding Center=2|Redding Ridge=d|Ridgefield=d|Riverside=d|Riverton=9|Rockfall=5|Rocky Hill=0|Rogers=8|Roxbury=9|Salem=b|Salisbury=9|Sandy Hook=d|Scotland=8|Seymour=6|Sharon=9|Shelton=6|Sherman=d|Simsbury=0|Somers=0|Somersville=0|South Britain=6|South Glastonbury=0|South Kent=9|South Lyme=4|South Willington=0|South Windham=b|South Windsor=0|South Woodstock=8|Southbury=6|Southington=0|Southport=1|Stafford=0|Stafford Springs=0|Staffordville=0|Stamford=d|Sterling=8|Stevenson=1|Stonington=b|Storrs Mansfield=c|Stratford=1|Suffield=0|Taconic=9|Taftville=b|Tariffville=0|Terryville=6|Thomaston=6|Thompson=8|Tolland=0|Torrington=9|Trumbull=1|Uncasville=b|Unionville=0|Vernon Rockville=c|Versailles=b|Voluntown=8|Wallingford=a|Washington=9|Washington Depot=3|Waterbury=6|Waterford=b|Watertown=6|Wauregan=8|Weatogue=0|West Cornwall=9|West Granby=0|West Hartford=0|West Hartland=9|West Haven=a|West Mystic=b|West Simsbury=0|West Suffield=0|Westbrook=4|Weston=d|Westport=d|Wethersfield=0|Willimantic=b|Willington=c|Wilton=d|Winchester Center=9|Windham=b|Windsor=0|Windsor Locks=0|Winsted=9|Wolcott=6|Woodbury=6|Woodstock=8|Woodstock Valley=8|Yantic=b'
+  },
+  DC: {
+    counties: 'District of Columbia',
+    zips: 'ffl:0,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,2,2,2,1,2,1,2,1,2,1,1,1,1,1,1,1,1,1,1,2,2,1,2,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,2,1,1,8,1,32,1,1,1,2,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,2,1,2,2,1,1,1,1,1,2,1,5,1,1,2,6,1,1,3,1,2,2,7,c,a,2,2,3,4,4,3,1,1,b,a,a,5,f,2,1,1,1,1,4,8,1,1,1,1,1,1,1,3,3,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,2,1,1,1,1,2,1,1,1,2,3,4,2,3,4,3,5,1,1,2,s,1,1,1,1,1,1,1,1,1,1,1,4,5,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,2,1,1,1,1,2,2,1,5,1,4,1,1,1,2,1,1,1,1,1,1,4,1,4,1,2,1,3,2,s0e,e,5,d,b,s',
+    cities: 'Naval Anacost Annex=0|Washington=0|Washington Navy Yard=0'
+  },
+  DE: {
+    counties: 'Kent|New Castle|Sussex',
+    zips: 'f79:1,1,1,3,1,1,1,1,1,1,1,1,1,1,1,1,2,1,4,1,4,1,1,1,1,1,1,1t,1,1,1,1,1,1,1,1,1,14,u,4,1,1,4,1,1,1,1,1,1,1,1,1,2:0,1,1,1,1,1,o:2,1,2,1:0,2,2,1:2,1,1,2:0,1:2,1,1:0,1:2,3,1,1:0,1,1,1,1:2,2,2,1:0,1,1:2,1:0,2:2,1,1,1,1,1,2,2,2:0,2,1',
+    cities: 'Bear=1|Bethany Beach=2|Bethel=2|Bridgeville=2|Camden Wyoming=0|Cheswold=0|Claymont=1|Clayton=0|Dagsboro=2|Delaware City=1|Delmar=2|Dover=0|Dover Afb=0|Ellendale=2|Felton=0|Fenwick Island=2|Frankford=2|Frederica=0|Georgetown=2|Greenwood=2|Harbeson=2|Harrington=0|Hartly=0|Hockessin=1|Houston=0|Kenton=0|Kirkwood=1|Laurel=2|Lewes=2|Lincoln=2|Little Creek=0|Magnolia=0|Marydel=0|Middletown=1|Milford=2|Millsboro=2|Millville=2|Milton=2|Montchanin=1|Nassau=2|New Castle=1|Newark=1|Ocean View=2|Odessa=1|Port Penn=1|Rehoboth Beach=2|Rockland=1|Saint Georges=1|Seaford=2|Selbyville=2|Smyrna=0|Townsend=1|Viola=0|Wilmington=1|Winterthur=1|Woodside=0|Yorklyn=1'
+  },
+  FL: {
+    counties: 'Alachua|Baker|Bay|Bradford|Brevard|Broward|Calhoun|Charlotte|Citrus|Clay|Collier|Columbia|DeSoto|Dixie|Duval|Escambia|Flagler|Franklin|Gadsden|Gilchrist|Glades|Gulf|Hamilton|Hardee|Hendry|Hernando|Highlands|Hillsborough|Holmes|Indian River|Jackson|Jefferson|Lafayette|Lake|Lee|Leon|Levy|Liberty|Madison|Manatee|Marion|Martin|Miami-Dade|Monroe|Nassau|Okaloosa|Okeechobee|Orange|Osceola|Palm Beach|Pasco|Pinellas|Polk|Putnam|Santa Rosa|Sarasota|Seminole|St. Johns|St. Lucie|Sumter|Suwannee|Taylor|Union|Volusia|Wakulla|Walton|Washington',
+    zips: 'ooz:9,1:1l,2:9,1:1h,1:1o,1:18,2,2:w,b:b,1,1:1q,4:9,3:1l,1:18,1,3:b,2:1,1:18,1:3,1:9,1:3,2:18,4:9,2:m,1,1:1q,1:b,1,2:3,1:12,1:1o,1:b,1:1o,1:1,1:1o,1:9,1:w,1:9,1,3:1o,1:1,1:9,6,1:1l,1,1,1:1q,1:1l,1,1,1:1,4:3,1:1l,2:1o,1:1l,1:m,1:18,2:e,3:x,3:1r,5:g,1:14,1:1h,1:14,1:1r,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1:1h,1:1r,1:14,1,1:g,1,1,1:1h,1,1,1:1r,1:g,1,2:1l,2:1h,1,1,8,1:x,1,1:9,2:1n,1,1:g,4:1r,1,1,3,1,1,1,1:1h,1,1:14,1:1r,1:1h,1:14,1,2:1h,2,2,1:1r,2:14,1:1h,2:14,3:1r,3:e,1,1,1,1,1,1,1,1,1,1,1,2,2,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,3,1,1,1,3,4,1,1,1,1,1:1l,1,6:e,b,o:z,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1:h,2,1:11,1:h,1,1:i,2:1s,1,1:h,1,1:i,1:12,1:i,1,1:11,1,1:v,1,3:12,1,2:i,1:v,1,1:1s,1:1p,1,2:12,1:i,1,1,2:1s,1:1p,1,1:1s,1:1p,1:11,1:v,1:z,x,4,2:2,1,1,1,1,1,1,1,1,1,1,1,1,4,3:u,1:6,1:1t,1:u,1:6,1:s,1:u,1:1u,1,2:6,1:u,1,1:1t,1,1,2:1u,1:2,1:1t,1:u,2,1,1:2,1:u,1,1,1,1:6,3:s,3,1:l,1,2:1t,1:u,1:1t,1:1u,1,1:s,1:l,1:2,z:f,1,1,1,1,1,1,1,1,2,1,1,1,2,4,1,1,1,1,2,4:1i,1:19,2:f,1,1,1:19,1,1:1t,1:19,1,1,1,2,3,1,1,1:1t,9:f,1,1:1i,1,1,1:19,1:1i,1,1:19,1:f,1:19,1:1i,1,1,5:f,1:19,1,1,3:1i,5:19,3:f,a:0,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1:14,1:0,1:j,2:10,1:3,3:10,1,1:0,1:d,3:0,2,1:14,1:0,4:10,1:0,1,2,1:10,4:d,5:0,1,1,1:9,2:0,4,1:14,1,2:1h,1:0,1:10,1:0,b:d,1:14,2:10,3:14,6:d,1:j,1:0,2:10,1:1q,4:1k,1:x,1:1b,1,2:1r,1:1k,1,1:1b,1,2,1:1r,1:1k,1,1,2,1,1:1r,1,1,1,1,1,1:x,1,1:1r,2:1k,2,1,2:x,1,2:1r,1,5,1,1:1k,1,3,1:1b,1:1k,1:v,1:4,2:x,1,2:1r,3:1k,1:1r,1,1:1k,1,1:x,1:1b,3:1k,1,1,1:1r,1:4,1:x,1:1b,1:x,1:1k,1:4,1,2,1:x,5:1b,1,1:1k,1:1b,1,1,1:1k,1:4,2:1b,1:1k,2:1b,1,1,1,1,1,1,1,1,1,1,1,2,1:4,1:1b,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,2,e,1,1,1,1,1,1,1,1,1,5,1,1,3,5,1,7,1,1,4,5,1,2:4,2,1,1,1,1,1,1,1,1,1,1,1,7,1,2,1,1,1,1,1,4,1,2,1,1,1,3,1,7:t,1:4,1,1,1,1,1,1,1,1:t,1,1:4,1:t,1,1,1,1,1,1,1,1,1,1,1,5:4,2:t,n:17,1:16,2:5,4,1,1:16,1,1,1,1,1,1,1,1,1:5,1,1,1,1,1,1,1,1,1,1,1:16,1,1,1,1,1,1:17,1,2:16,1:17,1,1,1,2,5,1,1,2:16,1,1,4:5,1,1,1,1,1,1,1,1,1,1:17,1:5,1,1,1,1,1,1,4,1,1,1,6:16,2,1:5,4,4:16,1,4,3,2,1:1h,2:16,2,3,3,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,7,g,9,2,1,4,1,3,1,2,2,8,1,1,4,4,1,3,b,3,d,3,2:5,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,5,1,2,1,2,4,4,t,6,7:1d,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2:o,1:5,1,1,1:1d,1,1,2,1,5,1:15,3:1d,1,1,1,1,1,1,1,1,1,1,1,1,1:k,1:1d,1,1,1:15,1:1d,1,1,2,1,1,1,1,2,1,1,5,3,1,1,1,4:r,5,1,1,1,2:1n,1,7,2:1e,1,1,1,1:r,3,4,3:1e,1:1n,1:1e,1,1,1,1,1,1,2:r,1,1,1,6,2,1:1e,4:r,1,1,1,1,1,1,1,1,1,1,1:1e,1:r,1:1e,2,1:r,4,1,1:1n,1:r,1,5,1:1e,1:r,1,1,1:1n,1:r,3,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,3,1,1,2,1,1,2,9,1,3,5,5,1,1,1,1,8,1,1,1,2,2,1,1,1,2,1,1,1,1,1,5,7:1f,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,d,1,1,1,1,1,2,1,1,2,1,1,1,1,3,8,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,f:1g,1,1,1,1,1,1,2,1,1,1,1,2,5,3,2:q,1,1:1g,3,1,3:n,1:1g,1,1,1,1,1,1,2,1,1,1,1,1:1c,1:1g,1,1,1:q,1:1g,1,1,1,1:q,1:1g,1,1,2:q,1:1g,2:n,2:1g,1,2:q,1,1,1:n,2:q,1,1:1g,3,1,1,1,1,1,3,2:n,6:1g,1,1,3:y,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,3:7,1:y,1,1:o,1:y,1,3:o,1:y,2:7,6:k,1:y,1:7,1,1,1,1,1,1,1,1,1,1:y,1,3:q,5:y,1,1:1g,3:y,1,1,1:5,1:y,1:o,1:y,4:7,1,1,1,7:y,1,2,1,2z:a,1,1,1,1,1,1,1,1,1,2,1,1,2,1,2,1,d:y,1,1,1,1:a,1,1,1,1,1,1,2,1,1j:13,1,1,1,1,1,1,1,1,1,1,1,3,1,1,1,1,1,1,1,1:1j,1,4:13,1:1j,1,1,1,1,1,1,1,1,1,1,1,1,1,1:13,6:1j,1:13,1,9,4,1:c,1,1,1,1,1:13,2:1j,2,1,1,1,1,2:13,1,1,2:1j,1,1,1,1,1,1,1,1,1,2,3h:14,1,2:8,5,1,1:14,1,1,1:8,1,2,5,1,3,1,1,1,1:10,1:8,1,1,1,7,1,3,1,5:14,1,1,1,1,1,1,1,1,1,1,1,1,1,1:1n,3:8,1:14,1,2,1,6:10,2v:p,1,1,1,1,1,1,1,1,1:1e,1:p,2,1,m,1:1e,1,1,d,1,1,1,1,4:1f,1:p,6:1e,1,1,4,1,3:1f,2:1e,1,1:1f,1,1,1,1,3,1,1:1e,1,1,3:1f,2,1,7:x,6,1,1,1:1g,1:x,e,2,3:1b,2:x,1,2:1c,1:1b,1:1c,1,1,1,1,1,1,1:x,1,4,2,1,2:1c,1:1g,1:1b,1,1:x,7:1c,1,1,1,1,4:1b,1,7:1n,1:1b,1,1:x,1,8,44:1m,1,1,1,1,1,1,1,1,1,2:15,1,1,e:1a,1,1,5:1m,2,1,1,1,1,1,1,1,2:15,1,1,2,1,1,1',
+    cities: 'Alachua=0|Alford=u|Altamonte Springs=1k|Altha=6|Altoona=x|Alturas=1g|Alva=y|Anna Maria=13|Anthony=14|Apalachicola=h|Apollo Beach=r|Apopka=1b|Arcadia=c|Archer=0|Argyle=1t|Aripeka=1e|Astatula=x|Astor=x|Atlantic Beach=e|Auburndale=1g|Avon Park=q|Babson Park=1g|Bagdad=1i|Baker=19|Balm=r|Barberville=1r|Bartow=1g|Bascom=u|Bay Pines=1f|Bell=j|Belle Glade=1d|Belleair Beach=1f|Belleview=14|Beverly Hills=8|Big Pine Key=17|Blountstown=6|Boca Grande=y|Boca Raton=1d|Bokeelia=y|Bonifay=s|Bonita Springs=y|Bostwick=1h|Bowling Green=n|Boynton Beach=1d|Bradenton=13|Bradenton Beach=13|Bradley=1g|Brandon=r|Branford=1o|Bristol=11|Bronson=10|Brooker=3|Brooksville=p|Bryceville=18|Bunnell=g|Bushnell=1n|Callahan=18|Campbellton=u|Canal Point=1d|Candler=14|Cantonment=f|Cape Canaveral=4|Cape Coral=y|Captiva=y|Carrabelle=h|Caryville=1u|Cassadaga=1r|Casselberry=1k|Cedar Key=10|Center Hill=1n|Century=f|Chattahoochee=i|Chiefland=10|Chipley=1u|Chokoloskee=a|Christmas=1b|Citra=14|Clarcona=1b|Clarksville=6|Clearwater=1f|Clearwater Beach=1f|Clermont=x|Clewiston=o|Cocoa=4|Cocoa Beach=4|Coconut Creek=5|Coleman=1n|Copeland=a|Coral Gables=16|Coral Springs=5|Cortez=13|Cottondale=u|Crawfordville=1s|Crescent City=1h|Crestview=19|Cross City=d|Crystal Beach=1f|Crystal River=8|Crystal Springs=1e|Cypress=u|Dade City=1e|Dania=5|Davenport=1g|Day=w|Daytona Beach=1r|De Leon Springs=1r|Debary=1r|Deerfield Beach=5|Defuniak Springs=1t|Deland=1r|Delray Beach=1d|Deltona=1r|Destin=19|Doctors Inlet=9|Dover=r|Dundee=1g|Dunedin=1f|Dunnellon=14|Durant=r|Eagle Lake=1g|Earleton=0|East Palatka=1h|Eastlake Weir=14|Eastpoint=h|Eaton Park=1g|Ebro=1u|Edgewater=1r|Eglin Afb=19|El Jobean=7|Elfers=1e|Elkton=1l|Ellenton=13|Englewood=1j|Estero=y|Eustis=x|Everglades City=a|Evinston=0|Fairfield=14|Felda=o|Fellsmere=t|Fernandina Beach=18|Ferndale=x|Flagler Beach=g|Fleming Island=9|Florahome=1h|Floral City=8|Fort Lauderdale=5|Fort Mc Coy=14|Fort Meade=1g|Fort Myers=y|Fort Myers Beach=y|Fort Ogden=c|Fort Pierce=1m|Fort Walton Beach=19|Fort White=b|Fountain=2|Freeport=1t|Frostproof=1g|Fruitland Park=x|Gainesville=0|Geneva=1k|Georgetown=1h|Gibsonton=r|Glen Saint Mary=1|Glenwood=1r|Goldenrod=1k|Gonzalez=f|Goodland=a|Gotha=1b|Graceville=u|Graham=3|Grand Island=x|Grand Ridge=u|Grandin=1h|Grant=4|Green Cove Springs=9|Greenacres=1d|Greensboro=i|Greenville=12|Greenwood=u|Gretna=i|Groveland=x|Gulf Breeze=1i|Gulf Hammock=10|Haines City=1g|Hallandale=5|Hampton=3|Hastings=1l|Havana=i|Hawthorne=0|Hernando=8|Hialeah=16|High Springs=0|Highland City=1g|Hilliard=18|Hobe Sound=15|Holder=8|Holiday=1e|Hollister=1h|Hollywood=5|Holmes Beach=13|Holt=19|Homeland=1g|Homestead=16|Homosassa=8|Homosassa Springs=8|Horseshoe Beach=d|Hosford=11|Howey In The Hills=x|Hudson=1e|Hurlburt Field=19|Immokalee=a|Indialantic=4|Indian Lake Estates=1g|Indian Rocks Beach=1f|Indiantown=15|Inglis=10|Intercession City=1c|Interlachen=1h|Inverness=8|Islamorada=17|Island Grove=0|Istachatta=p|Jacksonville=e|Jacksonville Beach=e|Jasper=m|Jay=1i|Jennings=m|Jensen Beach=15|Jupiter=1d|Kathleen=1g|Kenansville=1c|Key Biscayne=16|Key Colony Beach=17|Key Largo=17|Key West=17|Keystone Heights=9|Killarney=1b|Kissimmee=1c|La Crosse=0|Labelle=o|Lacoochee=1e|Lady Lake=x|Lake Alfred=1g|Lake Butler=1q|Lake City=b|Lake Como=1h|Lake Geneva=9|Lake Hamilton=1g|Lake Harbor=1d|Lake Helen=1r|Lake Mary=1k|Lake Monroe=1k|Lake Panasoffkee=1n|Lake Placid=q|Lake Wales=1g|Lake Worth=1d|Lakeland=1g|Lakeshore=1g|Lamont=v|Lanark Village=h|Land O Lakes=1e|Largo=1f|Laurel=1j|Laurel Hill=19|Lawtey=3|Lecanto=8|Lee=12|Leesburg=x|Lehigh Acres=y|Lithia=r|Live Oak=1o|Lloyd=v|Lochloosa=0|Long Key=17|Longboat Key=13|Longwood=1k|Lorida=q|Loughman=1g|Lowell=14|Loxahatchee=1d|Lulu=b|Lutz=r|Lynn Haven=2|Macclenny=1|Madison=12|Maitland=1b|Malabar=4|Malone=u|Manasota=13|Mango=r|Marathon=17|Marathon Shores=17|Marco Island=a|Margate=5|Marianna=u|Mary Esther=19|Mascotte=x|Mayo=w|Mc Alpin=1o|Mc David=f|Mc Intosh=14|Melbourne=4|Melbourne Beach=4|Melrose=1h|Merritt Island=4|Mexico Beach=2|Miami=16|Miami Beach=16|Miami Gardens=16|Micanopy=0|Mid Florida=1r|Middleburg=9|Midway=i|Milligan=19|Milton=1i|Mims=4|Minneola=x|Miramar Beach=1t|Molino=f|Monticello=v|Montverde=x|Moore Haven=k|Morriston=10|Mossy Head=1t|Mount Dora=x|Mulberry=1g|Murdock=7|Myakka City=13|Nalcrest=1g|Naples=a|Navarre=1i|Neptune Beach=e|New Port Richey=1e|New Smyrna Beach=1r|Newberry=0|Niceville=19|Nichols=1g|Nobleton=p|Nocatee=c|Nokomis=1j|Noma=s|North Fort Myers=y|North Miami Beach=16|North Palm Beach=1d|North Port=1j|O Brien=1o|Oak Hill=1r|Oakland=1b|Ocala=14|Ochopee=a|Ocklawaha=14|Ocoee=1b|Odessa=r|Okahumpka=x|Okeechobee=1a|Old Town=d|Oldsmar=1f|Olustee=1|Ona=n|Oneco=13|Opa Locka=16|Orange City=1r|Orange Lake=14|Orange Park=9|Orange Springs=14|Orlando=1b|Ormond Beach=1r|Osprey=1j|Osteen=1r|Otter Creek=10|Oviedo=1k|Oxford=1n|Ozona=1f|Pahokee=1d|Paisley=x|Palatka=1h|Palm Bay=4|Palm Beach=1d|Palm Beach Gardens=1d|Palm City=15|Palm Coast=g|Palm Harbor=1f|Palmdale=k|Palmetto=13|Panacea=1s|Panama City=2|Panama City Beach=2|Parrish=13|Patrick Afb=4|Paxton=1t|Pembroke Pines=5|Penney Farms=9|Pensacola=f|Perry=1p|Pierson=1r|Pineland=y|Pinellas Park=1f|Pinetta=12|Placida=7|Plant City=r|Plantation=5|Plymouth=1b|Polk City=1g|Pomona Park=1h|Pompano Beach=5|Ponce De Leon=s|Ponte Vedra=1l|Ponte Vedra Beach=1l|Port Charlotte=7|Port Orange=1r|Port Richey=1e|Port Saint Joe=l|Port Saint Lucie=1m|Port Salerno=15|Punta Gorda=7|Putnam Hall=1h|Quincy=i|Raiford=1q|Reddick=14|River Ranch=1g|Riverview=r|Rockledge=4|Roseland=t|Rosemary Beach=1t|Rotonda West=7|Royal Palm Beach=1d|Ruskin=r|Safety Harbor=1f|Saint Augustine=1l|Saint Cloud=1c|Saint James City=y|Saint Johns=1l|Saint Leo=1e|Saint Marks=1s|Saint Petersburg=1f|Salem=1p|San Antonio=1e|San Mateo=1h|Sanderson=1|Sanford=1k|Sanibel=y|Santa Rosa Beach=1t|Sarasota=1j|Satellite Beach=4|Satsuma=1h|Scottsmoor=4|Sebastian=t|Sebring=q|Seffner=r|Seminole=1f|Seville=1r|Shady Grove=1p|Shalimar=19|Sharpes=4|Silver Springs=14|Sneads=u|Sopchoppy=1s|Sorrento=x|South Bay=1d|Sparr=14|Spring Hill=p|Starke=3|Steinhatchee=1p|Stuart=15|Sumatra=11|Summerfield=14|Summerland Key=17|Sumterville=1n|Sun City=r|Sun City Center=r|Suwannee=d|Sydney=r|Tallahassee=z|Tallevast=13|Tampa=r|Tangerine=1b|Tarpon Springs=1f|Tavares=x|Tavernier=17|Telogia=11|Terra Ceia=13|The Villages=1n|Thonotosassa=r|Titusville=4|Trenton=j|Trilby=1e|Umatilla=x|Valparaiso=19|Valrico=r|Venice=1j|Venus=q|Vernon=1u|Vero Beach=t|Wabasso=t|Wacissa=v|Waldo=0|Wauchula=n|Wausau=1u|Waverly=1g|Webster=1n|Weirsdale=14|Welaka=1h|Wellborn=1o|Wellington=1d|Wesley Chapel=1e|West Palm Beach=1d|Westville=s|Wewahitchka=6|White Springs=m|Wildwood=1n|Williston=10|Wimauma=r|Windermere=1b|Winter Beach=t|Winter Garden=1b|Winter Haven=1g|Winter Park=1b|Winter Springs=1k|Woodville=z|Worthington Springs=1q|Yalaha=x|Yankeetown=10|Youngstown=2|Yulee=18|Zellwood=1b|Zephyrhills=1e|Zolfo Springs=n'
+  },
+  GA: {
+    counties: 'Appling|Atkinson|Bacon|Baker|Baldwin|Banks|Barrow|Bartow|Ben Hill|Berrien|Bibb|Bleckley|Brantley|Brooks|Bryan|Bulloch|Burke|Butts|Calhoun|Camden|Candler|Carroll|Catoosa|Charlton|Chatham|Chattahoochee|Chattooga|Cherokee|Clarke|Clay|Clayton|Clinch|Cobb|Coffee|Colquitt|Columbia|Cook|Coweta|Crawford|Crisp|Dade|Dawson|DeKalb|Decatur|Dodge|Dooly|Dougherty|Douglas|Early|Echols|Effingham|Elbert|Emanuel|Evans|Fannin|Fayette|Floyd|Forsyth|Franklin|Fulton|Gilmer|Glascock|Glynn|Gordon|Grady|Greene|Gwinnett|Habersham|Hall|Hancock|Haralson|Harris|Hart|Heard|Henry|Houston|Irwin|Jackson|Jasper|Jeff Davis|Jefferson|Jenkins|Johnson|Jones|Lamar|Lanier|Laurens|Lee|Liberty|Lincoln|Long|Lowndes|Lumpkin|Macon|Madison|Marion|McDuffie|McIntosh|Meriwether|Miller|Mitchell|Monroe|Montgomery|Morgan|Murray|Muscogee|Newton|Oconee|Oglethorpe|Paulding|Peach|Pickens|Pierce|Pike|Polk|Pulaski|Putnam|Rabun|Richmond|Rockdale|Schley|Screven|Seminole|Spalding|Stephens|Stewart|Sumter|Talbot|Taliaferro|Tattnall|Taylor|Telfair|Terrell|Thomas|Tift|Toombs|Towns|Treutlen|Troup|Turner|Twiggs|Union|Upson|Walker|Walton|Ware|Warren|Washington|Wayne|Webster|Wheeler|White|Whitfield|Wilcox|Wilkes|Wilkinson|Worth',
+    zips: 'n5e:16,1:1u,1:1n,1,1:w,1,1,1:1n,1:1u,1:6,1:3b,1,1:2y,1,1,1:1u,1:40,1:1u,2:16,1:1n,1,1:1u,1:40,1:1u,2:1l,1:1u,1:16,1,1,1,1,1,1,1,1,1:1u,1:1l,1,1:1u,1,1,1,1,1,1,1,3,2:2y,1:26,1:2y,2:16,2:w,1,1,1,1,1,1,1,1,1,1:2y,1:1u,1:16,2,1:1n,1,1,1:1u,1:16,1:w,1,1,1:16,1,1,1,1,1,2:w,1:1u,1,1,1:3b,1:1u,1,1,1,1,2:w,1,1:7,1:36,1:1k,1:w,1:r,1:l,1,1:1y,1:w,1:l,1:1y,1:r,1,1:l,1,1,1,1:7,1,1:1b,1:7,1:1k,1:36,1:w,1,2:1k,3:31,1:1b,1,1,2:7,1:36,1:1r,1:1y,1:31,1:r,1:33,1:w,1:7,1:r,1:1k,1:33,1:1k,1:l,1:r,1:w,1:36,1:1b,2:w,1:31,3:w,1:1k,1,1,1,1,3:w,1:r,1:l,1:7,1:1k,1,2:33,1:1y,1:33,1:7,1:l,1,2:1y,1:r,1:7,1:l,2:1b,1:r,1,f:2c,1:1j,1:35,6:3f,1:1n,1:1j,1,1:h,1:21,1:2q,2:11,2:2q,1:3f,1,4:22,1:11,1:3u,3:h,1,2:u,1,1,2:3u,1,7:22,2:u,1:2q,1:22,1,3:35,1:2c,1:35,1:11,1:u,1:3u,2:11,1,1,1:3f,2:1n,1:1j,1:48,1:11,1:1n,1:u,1,1:11,1,1,4:22,3:3f,1:3y,1,1:u,1,1:11,1:1j,1:1n,1:35,1:2q,1:u,1:35,1:u,1,1,3:1n,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1:16,1:1n,1,1:16,2:1n,1,1,1,1,1:16,2:1n,1,1:16,1:1n,2,1,1,1,1:16,1,1:1n,1,1,1:16,1,2:1n,1,1:16,3:1n,1,1,1:16,1:1n,1,1:16,1,1:1n,1:16,1:1n,1,2:16,2:1n,1,1,1,3,1,2,1,2,4,1,3,4,2,2,2,3:1g,9:2u,1:46,1:2u,1:28,1:1h,1:f,2:1h,3:3l,1,2:1h,1:3d,1:1g,1:g,1:3l,1:46,1:1h,5:28,2:3r,2:3l,1:k,2:g,1:29,3:2u,1:3d,1:1g,1,1:3d,1:f,1:k,1:f,1:3l,1:2e,1:3d,1:g,1:3t,1:f,1,1,1,3:1g,3:3d,3:2u,1:1g,2:2u,1:3r,1,2:28,m:3l,2:1w,1,1,1,2,1,3:1v,1:5,1:3x,1:1i,1:3x,1:1u,1:20,1:25,1:1u,1,1:1m,1,1:1o,1:1v,2:39,2:1w,1:47,1:25,1,1:1v,2:2k,1:15,1:1v,1:1o,1:39,1:3g,1:1o,1,1:1i,1:1w,1,2:47,1:3s,1:5,1:25,1,3:39,1:1m,1:1w,1:1i,2:3g,1:5,1:1i,1,2:39,1:1v,1:1w,1:25,1:1w,1:25,1:39,3:47,1:3x,1:39,2:25,1:39,1:3g,3:1v,1:39,1:3s,f:2k,1:3g,1:25,2:s,1,1,1,1,1,1,1,1,3,7:30,1:6,1:2z,1,1:2v,1:1f,1:2v,2:2m,1,1,1:30,1:3k,2:2m,1:1f,1,3:2z,1:1m,2:40,1:1t,1:20,2:2v,1:2m,1,1:30,2:2v,5:40,1,4:4a,2:1m,1:2v,1:3k,1:1t,1:6,1:30,1:4a,1:1t,2:30,2:4a,4:2z,1:1t,2:6,3:s,i:1r,2,2:2w,2:3z,1:2w,2:48,1:2w,8:48,1,1,1,2:2w,1:3z,1:m,2:3z,2:q,1,1:1r,1,1,1,1:m,2:14,1:3z,1:48,1:3z,1:m,4:1r,1:q,3:3z,1:2w,1:14,1:q,2:48,1,1:14,19:z,1:28,2:3a,1:2o,1:42,1:2o,1:z,1:1p,1:g,1:3a,1:z,1,1:3a,1:g,1:2h,1:28,1:42,1:1p,1:42,1:29,1:28,1:2o,4:42,2:g,3:28,1w:3a,2,1,1,1,1,2,3,2,2,1:z,2:3a,28,2:49,1:1g,1:4b,1:2t,1:23,1:3m,1:19,1:32,1:2e,1:13,1:18,1,1:23,1:b,1:13,1:2t,1:3w,1:43,1:2e,1:3w,1:2e,1,1:18,1:38,1:23,1:38,1:2e,1:23,1:2t,1:32,1:4b,1:2b,1,1:4,1:43,1:37,1:3n,1:26,1:3m,1:2e,1:2l,1:4b,2:3w,1:42,1:2t,1:23,2:2a,1:12,1:19,1:a,2:4b,1:3n,2:2l,1:3m,1:4,1:3n,1:4,1,1:19,1:26,1:2e,1:12,1:43,1:2l,1:23,1:19,1:49,1,3:2e,1:3m,1:18,1:12,1:49,2:3m,1:43,1:3n,1:49,1:26,1:2t,1:1x,1:23,1:43,1:4b,1:19,1,1:23,1:43,1:23,1:2a,1:3y,1:23,1,7:1n,1,c:16,7:1n,5,5,3,2:16,3:w,1:16,1,4:1n,6,d:1j,n:1n,1,2,1,5:a,1,1,1,1,1,1,1,1,1,1,2,3,1,3,1,21,1,1,1,4:2g,1:o,1:1e,1:2p,1,2:1e,1:e,1:2g,1,2:1e,1:2g,1,1,1:2i,2:1e,1:2p,1:2g,1:e,1:o,1:2g,1:e,2:1e,1:2p,1:o,1:1e,2:2p,2:2g,1w:o,1,1,1,1,1,1,1,1,1,1,1,2,1,1,2,1,1,1,28:41,1,1,7:2,2:x,1:0,2,1:34,2,1:x,1:1q,1,1,1,1,1,2,5:27,1:x,1,1,2:n,2:27,3:c,1,1:3n,1:44,1,1:j,1,1:3n,1:41,1:34,1:41,1:c,1:x,1:44,1:34,1,1:j,2:44,1:1q,1:0,1,1:41,1:j,1:c,1:x,1:j,1,t:44,1,2:2j,1,1,1,1,1,e:10,2:9,1:v,1:1,1:d,1:3p,1:10,2:d,1:v,1,1:2j,2:v,1:2d,1:2j,1:10,1:d,1:9,2:2j,1:1,1:d,2:9,2:10,1:1d,1:2d,1:1,1c:2j,1,2:1a,1,1,1,1,1,1,1,1:3i,2,1:13,2:3v,2:2s,3:3i,1:d,1:3,1:y,5:3q,3:2s,3:3q,2:3i,3:3p,1:2s,4:3i,1:y,3,2:9,1:8,3:y,3,1:3p,1,2:24,3:2f,1:3i,1:3p,3:y,1:24,2:y,1:4c,1:3p,1:24,1:3q,1:y,2:3p,1:2s,1:3i,1:4c,1:1a,1:3v,1:2s,3:2f,1:y,1:4c,1:3v,1:4c,1:3p,1:3q,1,1,1:4c,2:24,1:3p,2:3j,2:2n,1:1z,1:p,1:3c,1:1z,1:2x,2:3j,1:1z,1:3j,2:3h,1,1:2q,4:2x,1:3h,1:1z,1,1:45,1:3h,1:1z,1:3j,2:2x,1:2q,1:1z,1:45,1:3u,3:3j,1t:2x,1,1,1,1,1,1,1,1,5,3,24,2,2,1,1,612:z,2:17,2:2r,1:17,1,4:t,1,1:3e,1:3o,1:1s,1:3o,1:1s,3:1c,2,2:t,1:3,3:8,1:3,1:i,3:3,1:t,5,1:17,2:t,5:3e,2,1:3,4:i,1:t,3:3,7:45,8:3o,1:i,b:1s,4:16',
+    cities: 'Abbeville=49|Acworth=w|Adairsville=7|Adel=10|Adrian=1g|Ailey=2u|Alamo=46|Alapaha=9|Albany=1a|Allenhurst=2g|Allentown=4b|Alma=2|Alpharetta=1n|Alston=2u|Alto=1v|Ambrose=x|Americus=3i|Andersonville=3i|Appling=z|Arabi=13|Aragon=36|Argyle=v|Arlington=z|Armuchee=1k|Arnoldsville=30|Ashburn=3v|Athens=s|Atlanta=1n|Attapulgus=17|Auburn=6|Augusta=3a|Austell=w|Avera=28|Avondale Estates=16|Axson=1|Baconton=2s|Bainbridge=17|Baldwin=5|Ball Ground=r|Barnesville=2c|Barney=d|Bartow=28|Barwick=d|Baxley=0|Bellville=1h|Berlin=y|Bethlehem=6|Bishop=2z|Blackshear=34|Blairsville=3x|Blakely=t|Bloomingdale=o|Blue Ridge=1i|Bluffton=t|Blythe=3a|Bogart=2z|Bolingbroke=2t|Bonaire=23|Boneville=2o|Boston=3p|Bostwick=2v|Bowdon=l|Bowdon Junction=l|Bowersville=20|Bowman=1f|Box Springs=3j|Braselton=25|Bremen=1y|Brinson=3e|Bristol=34|Bronwood=3o|Brookfield=3q|Brooklet=f|Brooks=1j|Broxton=x|Brunswick=1q|Buchanan=1y|Buckhead=2v|Buena Vista=2n|Buford=1u|Butler=3m|Byromville=19|Byron=32|Cadwell=2e|Cairo=1s|Calhoun=1r|Calvary=1s|Camak=42|Camilla=2s|Canon=1m|Canton=r|Carlton=2m|Carnesville=1m|Carrollton=l|Cartersville=7|Cassville=7|Cataula=1z|Cave Spring=1k|Cecil=10|Cedar Springs=1c|Cedartown=36|Centerville=23|Chatsworth=2w|Chauncey=18|Cherry Log=1o|Chester=18|Chestnut Mountain=1w|Chickamauga=3z|Chula=3q|Cisco=2w|Clarkdale=w|Clarkesville=1v|Clarkston=16|Claxton=1h|Clayton=39|Clermont=1w|Cleveland=47|Climax=1c|Clinchfield=23|Clyo=1e|Cobb=3i|Cobbtown=3l|Cochran=b|Cohutta=48|Colbert=2m|Coleman=t|Collins=3l|Colquitt=3|Columbus=2x|Comer=2m|Commerce=25|Concord=35|Conley=u|Conyers=3b|Coolidge=3p|Coosa=1k|Cordele=13|Cornelia=1v|Cotton=2s|Covington=2y|Crandall=2w|Crawford=30|Crawfordville=3k|Crescent=2p|Culloden=2t|Cumming=1l|Cusseta=p|Cuthbert=8|Dacula=1u|Dahlonega=2k|Daisy=1h|Dallas=31|Dalton=48|Damascus=3|Danielsville=2m|Danville=3w|Darien=2p|Davisboro=43|Dawson=i|Dawsonville=15|De Soto=3i|Dearing=2o|Decatur=16|Demorest=1v|Denton=27|Dewy Rose=1f|Dexter=2e|Dillard=39|Dixie=d|Doerun=y|Donalsonville=3|Douglas=x|Douglasville=1b|Dover=3d|Dry Branch=3w|Du Pont=v|Dublin=2e|Dudley=2e|Duluth=1u|East Dublin=2e|East Ellijay=1o|Eastanollee=3g|Eastman=18|Eatonton=38|Eden=1e|Edison=t|Elberton=1f|Elko=23|Ellabell=e|Ellaville=3c|Ellenton=y|Ellenwood=u|Ellerslie=1z|Ellijay=1o|Emerson=7|Enigma=9|Epworth=1i|Esom Hill=36|Eton=2w|Evans=z|Experiment=3f|Fairburn=1n|Fairmount=1r|Fargo=v|Farmington=2z|Fayetteville=1j|Felton=1y|Fitzgerald=8|Fleming=2g|Flintstone=3z|Flovilla=h|Flowery Branch=1w|Folkston=n|Forest Park=u|Forsyth=2t|Fort Benning=2x|Fort Gaines=t|Fort Oglethorpe=m|Fort Stewart=2g|Fort Valley=32|Fortson=2x|Fowlstown=17|Franklin=21|Franklin Springs=1m|Funston=y|Gainesville=1w|Garfield=1g|Gay=2q|Geneva=3j|Georgetown=t|Gibson=1p|Gillsville=1w|Girard=g|Glennville=3l|Glenwood=46|Good Hope=40|Gordon=4b|Gough=g|Gracewood=3a|Grantville=11|Gray=2b|Grayson=1u|Graysville=m|Greensboro=1t|Greenville=2q|Griffin=3f|Grovetown=z|Guyton=1e|Haddock=2b|Hagan=1h|Hahira=2j|Hamilton=1z|Hampton=22|Haralson=11|Hardwick=4|Harlem=z|Harrison=43|Hartsfield=y|Hartwell=20|Hawkinsville=37|Hazlehurst=27|Helen=47|Hephzibah=3a|Hiawassee=3s|High Shoals=2v|Hillsboro=26|Hinesville=2g|Hiram=31|Hoboken=c|Hogansville=3u|Holly Springs=r|Homer=5|Homerville=v|Hortense=c|Hoschton=25|Howard=3m|Hull=2m|Ideal=2l|Ila=2m|Iron City=3e|Irwinton=4b|Irwinville=24|Jackson=h|Jacksonville=3n|Jakin=3e|Jasper=33|Jefferson=25|Jeffersonville=3w|Jekyll Island=1q|Jenkinsburg=h|Jersey=40|Jesup=44|Jewell=42|Jonesboro=u|Juliette=2t|Junction City=3j|Kathleen=23|Kennesaw=w|Keysville=g|Kings Bay=j|Kingsland=j|Kingston=7|Kite=2a|Knoxville=12|La Fayette=3z|Lagrange=3u|Lake Park=2j|Lakeland=2d|Lakemont=39|Lavonia=1m|Lawrenceville=1u|Leary=3|Lebanon=r|Leesburg=2f|Lenox=10|Leslie=3i|Lexington=30|Lilburn=1u|Lilly=19|Lincolnton=2h|Lindale=1k|Lithia Springs=1b|Lithonia=16|Lizella=a|Locust Grove=22|Loganville=1u|Lookout Mountain=3z|Louisville=28|Louvale=3h|Lovejoy=u|Ludowici=2i|Lula=1w|Lumber City=3n|Lumpkin=3h|Luthersville=2q|Lyerly=q|Lyons=3r|Mableton=w|Macon=a|Madison=2v|Manassas=3l|Manchester=2q|Manor=41|Mansfield=26|Marble Hill=33|Marietta=w|Marshallville=2l|Martin=3g|Matthews=28|Mauk=3m|Maxeys=30|Maysville=5|Mc Caysville=1i|Mc Intyre=4b|Mc Rae Helena=3n|Mcdonough=22|Meansville=35|Meigs=3p|Meldrim=1e|Menlo=q|Meridian=2p|Mershon=34|Mesena=42|Metter=k|Midland=2x|Midville=g|Midway=2g|Milan=3n|Milledgeville=4|Millen=29|Millwood=41|Milner=2c|Mineral Bluff=1i|Mitchell=1p|Molena=35|Monroe=40|Montezuma=19|Monticello=26|Montrose=2e|Moody Afb=2j|Moreland=11|Morgan=i|Morganton=1i|Morris=t|Morrow=u|Morven=d|Moultrie=y|Mount Airy=1v|Mount Berry=1k|Mount Vernon=2u|Mount Zion=l|Mountain City=39|Murrayville=1w|Musella=12|Mystic=24|Nahunta=c|Nashville=9|Naylor=2j|Nelson=r|Newborn=2y|Newington=3d|Newnan=11|Newton=3|Nicholls=x|Nicholson=25|Norcross=1u|Norman Park=y|Norristown=1g|North Metro=1u|Norwood=42|Nunez=1g|Oakfield=4c|Oakman=1r|Oakwood=1w|Ochlocknee=3p|Ocilla=24|Oconee=43|Odum=44|Offerman=34|Oglethorpe=2l|Oliver=3d|Omaha=3h|Omega=3q|Orchard Hill=3f|Oxford=2y|Palmetto=1n|Parrott=45|Patterson=34|Pavo=3p|Peachtree City=1j|Peachtree Corners=1u|Pearson=1|Pelham=2s|Pembroke=e|Pendergrass=25|Perkins=29|Perry=23|Pine Lake=16|Pine Mountain=1z|Pine Mountain Valley=1z|Pinehurst=19|Pineview=49|Pitts=49|Plains=3i|Plainville=1r|Pooler=o|Port Wentworth=o|Portal=f|Porterdale=2y|Poulan=4c|Powder Springs=w|Preston=45|Pulaski=k|Putney=1a|Quitman=d|Rabun Gap=39|Ranger=1r|Ray City=9|Rayle=4a|Rebecca=3v|Red Oak=1n|Redan=16|Register=f|Reidsville=3l|Rentz=2e|Resaca=1r|Rex=u|Reynolds=3m|Rhine=18|Riceboro=2g|Richland=3h|Richmond Hill=e|Rincon=1e|Ringgold=m|Rising Fawn=14|Riverdale=u|Roberta=12|Rochelle=49|Rock Spring=3z|Rockledge=2e|Rockmart=36|Rocky Face=48|Rocky Ford=3d|Rome=1k|Roopville=l|Rossville=3z|Roswell=1n|Royston=1m|Rupert=3m|Rutledge=2v|Rydal=7|Saint George=0|Saint Marys=j|Saint Simons Island=1q|Sale City=2s|Sandersville=43|Sapelo Island=2p|Sardis=g|Sargent=11|Sasser=3o|Sautee Nacoochee=47|Savannah=o|Scotland=3n|Scottdale=16|Screven=44|Sea Island=1q|Senoia=11|Seville=49|Shady Dale=26|Shannon=1k|Sharon=3k|Sharpsburg=11|Shellman=i|Shiloh=1z|Siloam=1t|Silver Creek=1k|Smarr=2t|Smithville=2f|Smyrna=w|Snellville=1u|Social Circle=40|Soperton=3t|Sparks=10|Sparta=1x|Springfield=1e|Stapleton=28|Statenville=1d|Statesboro=f|Statham=6|Stephens=30|Stillmore=1g|Stockbridge=22|Stockton=2d|Stone Mountain=16|Suches=3x|Sugar Valley=1r|Summerville=q|Sumner=4c|Sunny Side=3f|Surrency=0|Suwanee=1u|Swainsboro=1g|Sycamore=3v|Sylvania=3d|Sylvester=4c|Talbotton=3j|Talking Rock=33|Tallapoosa=1y|Tallulah Falls=39|Talmo=25|Tarrytown=2u|Tate=33|Taylorsville=7|Temple=l|Tennga=2w|Tennille=43|The Rock=3y|Thomaston=3y|Thomasville=3p|Thomson=2o|Tifton=3q|Tiger=39|Tignall=4a|Toccoa=3g|Toccoa Falls=3g|Toomsboro=4b|Townsend=2p|Trenton=14|Trion=q|Tucker=16|Tunnel Hill=48|Turin=11|Turnerville=1v|Twin City=1g|Ty Ty=3q|Tybee Island=o|Tyrone=1j|Unadilla=19|Union City=1n|Union Point=1t|Upatoi=2x|Uvalda=2u|Valdosta=2j|Varnell=48|Vidalia=3r|Vienna=19|Villa Rica=l|Waco=1y|Wadley=28|Waleska=r|Walthourville=2g|Waresboro=41|Warm Springs=2q|Warner Robins=23|Warrenton=42|Warthen=43|Warwick=4c|Washington=4a|Watkinsville=2z|Waverly=j|Waverly Hall=1z|Waycross=41|Waynesboro=g|Waynesville=c|West Green=x|West Point=3u|Weston=45|Whigham=1s|White=7|White Oak=j|White Plains=1t|Whitesburg=l|Wildwood=14|Wiley=39|Willacoochee=1|Williamson=35|Winder=6|Winston=1b|Winterville=s|Woodbine=j|Woodbury=2q|Woodland=3j|Woodstock=r|Wray=24|Wrens=28|Wrightsville=2a|Yatesville=3y|Young Harris=3s|Zebulon=35'
+  },
+  HI: {
+    counties: 'Hawaii|Honolulu|Kauai|Maui',
+    zips: '22m5:1,2:2,1:0,1:2,1:1,1,1:3,1:1,1:0,2:1,1:3,1:2,1,1,1:1,1:0,1,1,1,1:2,3:0,1,1,1,1:3,1:1,1,1:3,1,1:1,3:0,1,1,1,1:2,1:3,1:0,1:1,1:0,1:2,1,1:3,1:0,1,1:2,1,1:3,1:2,1:0,1:2,1:3,2:1,1:0,1:3,1:1,1:3,1:0,1:2,1,1:3,1,1:2,1:3,1:0,1,1,1,2,1,1,1:3,1:0,1,1:1,1:0,1:3,1:0,1:1,2:3,1:1,1:3,1:1,1,1:3,2:1,1:2,1:1,4,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,2,6,1,1,1,1,1,2,1,2,1,1,1,1,3,1,3,1,1,1,1,2,z',
+    cities: 'Aiea=1|Anahola=2|Camp H M Smith=1|Captain Cook=0|Eleele=2|Ewa Beach=1|Fort Shafter=1|Haiku=3|Hakalau=0|Haleiwa=1|Hana=3|Hanalei=2|Hanamaulu=2|Hanapepe=2|Hauula=1|Hawaii National Park=0|Hawi=0|Hilo=0|Holualoa=0|Honaunau=0|Honokaa=0|Honolulu=1|Honomu=0|Hoolehua=3|Jbphh=1|Kaaawa=1|Kahuku=1|Kahului=3|Kailua=1|Kailua Kona=0|Kalaheo=2|Kalaupapa=3|Kamuela=0|Kaneohe=1|Kapaa=2|Kapaau=0|Kapolei=1|Kaumakani=2|Kaunakakai=3|Keaau=0|Kealakekua=0|Kealia=2|Keauhou=0|Kekaha=2|Kihei=3|Kilauea=2|Koloa=2|Kualapuu=3|Kula=3|Kunia=1|Kurtistown=0|Lahaina=3|Laie=1|Lanai City=3|Laupahoehoe=0|Lawai=2|Lihue=2|Makawao=3|Makaweli=2|Maunaloa=3|Mcbh Kaneohe Bay=1|Mililani=1|Mountain View=0|Naalehu=0|Ninole=0|Ocean View=0|Ookala=0|Paauilo=0|Pahala=0|Pahoa=0|Paia=3|Papaaloa=0|Papaikou=0|Pearl City=1|Pepeekeo=0|Princeville=2|Pukalani=3|Puunene=3|Schofield Barracks=1|Tripler Army Medical Center=1|Volcano=0|Wahiawa=1|Waialua=1|Waianae=1|Waikoloa=0|Wailuku=3|Waimanalo=1|Waimea=2|Waipahu=1|Wake Island=1|Wheeler Army Airfield=1'
+  },
+  IA: {
+    counties: 'Adair|Adams|Allamakee|Appanoose|Audubon|Benton|Black Hawk|Boone|Bremer|Buchanan|Buena Vista|Butler|Calhoun|Carroll|Cass|Cedar|Cerro Gordo|Cherokee|Chickasaw|Clarke|Clay|Clayton|Clinton|Crawford|Dallas|Davis|Decatur|Delaware|Des Moines|Dickinson|Dubuque|Emmet|Fayette|Floyd|Franklin|Fremont|Greene|Grundy|Guthrie|Hamilton|Hancock|Hardin|Harrison|Henry|Howard|Humboldt|Ida|Iowa|Jackson|Jasper|Jefferson|Johnson|Jones|Keokuk|Kossuth|Lee|Linn|Louisa|Lucas|Lyon|Madison|Mahaska|Marion|Marshall|Mills|Mitchell|Monona|Monroe|Montgomery|Muscatine|O\'Brien|Osceola|Page|Palo Alto|Plymouth|Pocahontas|Polk|Pottawattamie|Poweshiek|Ringgold|Sac|Scott|Shelby|Sioux|Story|Tama|Taylor|Union|Van Buren|Wapello|Warren|Washington|Wayne|Webster|Winnebago|Winneshiek|Woodbury|Worth|Wright',
+    zips: '12kx:2i,1:0,1:o,2:1r,1:15,1:24,1:2k,1:24,1:2c,1,1,1,1,6:e,1:24,1:e,1:24,2:4,1:12,1:1p,1:1d,1:12,2:7,1:24,1:1o,1:13,1:24,1:7,1,1:o,1,1:7,1:y,1:4,1:15,1:1q,2:2c,1:2i,1:12,1:1m,1:10,1:1r,1:2k,2:1d,1:2c,1,1:1q,1:d,1:10,1:2k,1:2i,1:1q,1:o,1:10,1:q,1:o,1:q,1:1m,1:o,1,1:2q,1:1o,1:24,1:27,1:13,1:4,2:1r,l:7,2:2q,1:15,1:q,1:1h,1:2c,1:1r,1:10,1:q,1:o,1:4,1:24,1:26,3:12,1:1q,1:4,1:2i,1:1q,1:1r,2:15,1:2k,1:2c,1:2i,1:15,1:1d,1:12,1:10,1:13,1:24,1:13,1:27,1:2c,1:1d,1:1h,1:1d,1:1q,1:2i,1:q,1:1r,1,1:1p,1:q,1:2i,1:o,1:2k,1:1r,1:2f,1:1v,1:1m,1:7,1:1d,1:2c,1:1o,1:7,1:26,1:1r,2:2i,1:2c,1:1r,1:1q,1:12,1:2k,1:2i,1:o,1:1d,1:24,1:1d,1:26,2:2d,1:j,r:2c,5:15,1:1p,1:1d,2:2i,1,1:7,1:j,1:1q,2:12,1:10,1:1o,1:1q,1:o,2:1o,1:7,2:1q,1:24,1:y,1:1d,1:2i,1:15,1:13,1:1d,1:o,1:1r,1:10,1:2c,1:24,1:1m,1:1r,1:1o,1:2i,1:26,1:24,1:2c,2:13,1:1r,1:2c,1:13,1:12,1:1d,1:1q,2:2f,1:1h,1:1q,1:1o,1:15,1,2:o,1:q,1:o,1:q,1:24,1,2:1h,1:15,2:13,1:1m,1:1o,1:e,1:j,1:o,1:12,1:2c,n:24,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,3,1,j,1,1,1,1,1,3,1,1,b,1,a,1,1,1,1,1,2,3:g,1,i:y,1:2q,2:14,1:2m,2:1t,1:y,1:g,2:14,1:y,1:14,1:g,1:2p,1:x,1:2m,2:14,1,1:2p,1:y,3:2p,2,1:14,1:2p,1:14,1:2m,1:1i,1:y,1:2m,1:1t,1,1:2p,1:g,1:x,1:2p,1:1t,1,3:g,1:2m,1:18,1:g,1:x,1:g,1:2q,1:x,1:1t,1:2m,2:y,1:1t,1:g,1:2m,1:g,1:1i,1:1t,1:g,1:1i,1:14,h:2l,9:a,1:1i,3:v,1:21,1:2l,1:1i,1:2l,1:19,1,1:2l,1:1i,1:2l,1,1:2q,1,1:21,1,1:19,1:2l,1:v,1:2l,1:2q,2:28,1:21,2:c,1:1i,1:23,1:19,1:2q,1:2l,1,1:19,1:23,2:19,3:c,1,2:23,2:1i,1:2l,1:19,1:1i,1,1:c,1:21,1:c,2:a,1:2l,1:28,1:a,1:2l,1:19,1:23,2,1,1:c,1:a,1:19,1:v,1:c,2:23,1:19,1:28,2:a,1:c,2:a,2:1i,1:19,1:a,1:23,1:2l,1:13,2:21,1:1i,1:2q,2:15,1:b,1:i,1:b,1,1:w,1:9,1:b,1:11,2:b,1:2d,1:6,1,2:x,3:b,1:x,1:11,1:8,1:6,1:11,1:b,1:6,1:15,1:18,1:9,1:i,1:8,1:2d,1:y,1:6,1:2d,1:b,2:11,3:9,1:11,1:6,1:9,1:i,2:8,1:9,1:b,1:9,1:6,1:2d,1:x,1:r,1:w,2:11,1:i,1,1:b,1:i,1:w,2,1:b,1:8,1:6,1:8,1:11,1:b,1:9,1:15,1:11,1:8,1:2d,1:8,1,3:11,1:w,1:9,j:6,1,1,1,3,2m:2f,t,1,2:2e,2:27,1:2e,1:0,2:1,1:2e,1:1,1:2f,1:e,2:27,1:0,1:1w,1:2e,1:0,2:2e,2:e,1:27,3:1,1:0,1:1,1:27,1:2f,1:2e,1:27,1:1w,20:24,4,7,3,u,1,1,1,i:22,1:a,1:2b,1:2o,1:h,1:1a,1:2o,1:22,1:1y,1:1u,1:2b,1:h,2,1:2o,1,2,1,1:1a,2:2b,1,1:22,1:1a,1:2o,1:2b,1:22,1:h,1:2o,1:22,2:a,1:1u,1:h,1:2b,1:h,1:22,1:2o,1:1u,1:2b,3:2o,1:22,1:1y,1:k,1:2o,1:h,1:22,1:1u,1:2o,1:28,1:2o,1,1,2:1y,2:1u,1:h,1:22,1:1u,12:2o,1,1,1,1,1,2,1,2,2i:1y,t:1n,1:1y,1:1z,2:2b,1:1n,2,1:2b,1,1:1n,1,1,1,1:2b,1:1y,1:1n,1:2b,1:1y,1:1z,1:2b,1f:k,u:t,2:k,1:v,4:k,2,1,1:21,1:k,2:1z,1:1y,1:t,3:1z,1:t,3:1z,1:t,2:k,1:21,2:t,3,1,1:v,1:k,z:d,t,1:1a,1:n,1:28,3:d,3:n,1:d,1:n,1,1:d,1,1:1a,1:2a,1,1:n,1:c,1:28,1:d,1,1:c,1:n,1:d,3:28,1:d,1:n,1,1:10,1:d,2:n,1:28,1:n,y:25,1,1,7,a:n,1:25,2:1u,2:25,1,1:2a,1:n,1:16,1:2a,1,1:1w,1:1s,1,1:e,1:25,1:2a,3:1s,1,1:25,1:4,1:e,1:16,1,2:25,1,1:16,1:1s,1:e,1:25,1:1s,1:16,1,1,1:1u,1:25,1,1:1s,1:2a,1:16,1,1:2a,1:1w,4:25,1:1s,1:1u,1:1w,2:25,1,1,1:2a,1:16,c:1w,2:25,8:20,2,r,1,1,4,1,1,1:z,1,5,1:2e,1:20,1:z,1,1,1:20,1:z,1,1,2:20,9l:u,1,1,1,q:1c,1,1:u,1,2:r,1,1:m,1:r,1:u,1,1:r,1:l,1,1,1:u,1,1:l,1,1,1:r,2:l,1:u,1:1c,2:u,1:r,3:1c,4,1:u,1:l,2:u,1:1c,1,1,1:l,1:u,1:1c,1,1:l,1,1:u,1,k,2:2n,v,1,1:18,1:w,1:18,4:2,1:w,1,2:2n,2:2,1:w,2:2n,2:2,3:i,1:18,1:l,1,1,1,1:2,1:2n,1:2,1:18,1:w,1:2n,1:w,2:2n,1:w,1:2,1:w,1:2,3:w,q:2j,1:1k,1:1b,1,1:1g,1:5,1:1c,1:5,1,1:9,1:26,1:1g,1:1k,1,1:2d,1:f,1:2d,1:1k,1,1:1b,1:26,1,1:r,1:2d,1,2:1k,1,1:5,2:1h,1:26,1:1k,2:1f,1:1b,1:r,3:1f,1,1,1,1,1,1,1:2j,1:1h,1:5,2:1b,1:1g,1:1k,1:m,1:f,2:5,18:1b,1:1k,3:1g,1:f,1:1b,1,1:1c,1:1g,2,1:5,1:1k,1:5,1:1b,1:1f,1:5,2:1g,1,1:1f,1:1g,1:1k,1:1b,1:9,1:2j,1:1k,1:9,1:r,2:5,1:1f,1:1b,1:1h,1:1k,1:f,1:1f,1:2d,1:1f,1:1k,1:2d,2:1k,1:5,1,1:1b,1:2d,1:5,2,1:1k,1:2j,1:5,1:1h,1:2j,2:f,1:2j,2:1b,1:1g,13:1k,1,1,1,1,1,1,1,1,1,1,2e,1,1,2:2h,t,1:1v,2:1e,1:1p,1:2g,1:2h,1:p,3:2j,2:2g,1:1p,1:3,4:2h,1:3,1:1h,1:2g,1:p,1:2h,1,1:3,1:1e,1,3:p,1:1p,1:1h,1,2:2g,1:2h,1:1e,1:1h,1:1v,1:2g,1:3,1,1:2g,1:3,2:1h,1:1p,3:1e,1:3,2:2k,1:p,1:1h,1:1p,2:2g,2:2k,1:1h,2:3,1,1:1p,6:s,i:1j,1:2g,1:2j,2:s,1:1j,1,1:2g,1:1j,3:17,1:1j,1,3:1e,2:s,1,1:1j,1:1l,1:17,1,2,1,1:1l,1:17,1:1j,1:17,1:s,1:2g,1:17,1:1l,1:17,1:s,1:1j,1,1,1:17,1:s,15:m,j:1x,1:f,1:29,4,1:m,1:29,1:m,1,1,1,1,1,2,1:1l,1,1:1x,3:m,3:29,1,1:f,1:29,1:1x,1:m,1,1:1l,1:29,1:1l,1:1f,1:29,1:m,1:29,1:1x,1,1,4:29,1:1x,1:29,1,1:1x,2:m,1:f,1:29,1:m,2:1x,1:m,1:1x,n:29,1,1,1,1,1,1,1,1',
+    cities: 'Ackley=15|Ackworth=2i|Adair=0|Adel=o|Afton=2f|Agency=2h|Ainsworth=2j|Akron=22|Albert City=a|Albia=1v|Albion=1r|Alburnett=1k|Alden=15|Alexander=y|Algona=1i|Alleman=24|Allerton=2k|Allison=b|Alta=a|Alta Vista=i|Alton=2b|Altoona=24|Alvord=1n|Amana=1b|Ames=2c|Anamosa=1g|Andover=m|Andrew=1c|Anita=e|Ankeny=24|Anthon=2o|Aplington=b|Arcadia=d|Archer=1y|Aredale=b|Argyle=1j|Arion=n|Arispe=2f|Arlington=w|Armstrong=v|Arnolds Park=t|Arthur=1a|Ashton=1z|Aspinwall=n|Atalissa=1x|Atkins=5|Atlantic=e|Auburn=28|Audubon=4|Aurelia=h|Aurora=9|Austinville=b|Avoca=25|Ayrshire=21|Badger=2l|Bagley=12|Baldwin=1c|Bancroft=1i|Barnes City=1p|Barnum=2l|Batavia=1e|Battle Creek=1a|Baxter=1d|Bayard=12|Beacon=1p|Beaman=11|Beaver=7|Bedford=2e|Belle Plaine=5|Bellevue=1c|Belmond=2q|Bennett=f|Benton=27|Bernard=u|Berwick=24|Bettendorf=29|Bevington=1o|Birmingham=2g|Blairsburg=13|Blairstown=5|Blakesburg=2h|Blanchard=20|Blencoe=1u|Blockton=2e|Bloomfield=p|Blue Grass=29|Bode=19|Bonaparte=2g|Bondurant=24|Boone=7|Booneville=o|Bouton=o|Boxholm=7|Boyden=2b|Braddyville=20|Bradford=y|Bradgate=19|Brandon=9|Brayton=4|Breda=d|Bridgewater=0|Brighton=2j|Bristow=b|Britt=14|Bronson=2o|Brooklyn=26|Brunsville=22|Bryant=m|Buckeye=15|Buckingham=2d|Buffalo=29|Buffalo Center=2m|Burlington=s|Burnside=2l|Burt=1i|Bussey=1q|Calamus=m|Callender=2l|Calmar=2n|Calumet=1y|Camanche=m|Cambridge=2c|Cantril=2g|Carbon=1|Carlisle=2i|Carpenter=1t|Carroll=d|Carson=25|Carter Lake=25|Cascade=u|Casey=12|Castalia=2n|Castana=1u|Cedar=1p|Cedar Falls=6|Cedar Rapids=1k|Center Junction=1g|Center Point=1k|Centerville=3|Central City=1k|Chapin=y|Chariton=1m|Charles City=x|Charlotte=m|Charter Oak=n|Chatsworth=2b|Chelsea=2d|Cherokee=h|Chester=18|Chillicothe=2h|Churdan=10|Cincinnati=3|Clare=2l|Clarence=f|Clarinda=20|Clarion=2q|Clarksville=b|Clear Lake=g|Clearfield=2e|Cleghorn=h|Clemons=1r|Clermont=w|Climbing Hill=2o|Clinton=m|Clio=2k|Clive=24|Clutier=2d|Coggon=1k|Coin=20|Colesburg=r|Colfax=1d|College Springs=20|Collins=2c|Colo=2c|Columbia=1q|Columbus City=1l|Columbus Junction=1l|Colwell=x|Conesville=1x|Conrad=11|Conroy=1b|Coon Rapids=d|Cooper=10|Coralville=1f|Corning=1|Correctionville=2o|Corwith=14|Corydon=2k|Coulter=y|Council Bluffs=25|Crawfordsville=2j|Crescent=25|Cresco=18|Creston=2f|Cromwell=2f|Crystal Lake=14|Cumberland=e|Cumming=2i|Curlew=21|Cushing=2o|Cylinder=21|Dakota City=19|Dallas Center=o|Dana=10|Danbury=2o|Danville=s|Davenport=29|Davis City=q|Dawson=o|Dayton=2l|De Soto=o|De Witt=m|Decatur=q|Decorah=2n|Dedham=d|Deep River=26|Defiance=2a|Delaware=r|Delhi=r|Delmar=m|Deloit=n|Delta=1h|Denison=n|Denmark=1j|Denver=8|Derby=1m|Des Moines=24|Dewar=6|Dexter=o|Diagonal=27|Dickens=k|Dike=11|Dixon=29|Dolliver=v|Donahue=29|Donnellson=1j|Doon=1n|Dorchester=2|Douds=2g|Dougherty=g|Dow City=n|Dows=2q|Drakesville=p|Dubuque=u|Dumont=b|Duncombe=2l|Dundee=r|Dunkerton=6|Dunlap=16|Durango=u|Durant=f|Dyersville=u|Dysart=2d|Eagle Grove=2q|Earlham=1o|Earling=2a|Earlville=r|Early=28|Eddyville=2h|Edgewood=l|Elberon=2d|Eldon=2h|Eldora=15|Eldridge=29|Elgin=w|Elk Horn=2a|Elkader=l|Elkhart=24|Elkport=l|Elliott=1w|Ellston=27|Ellsworth=13|Elma=18|Ely=1k|Emerson=1s|Emmetsburg=21|Epworth=u|Essex=20|Estherville=v|Evansdale=6|Everly=k|Exira=4|Exline=3|Fairbank=9|Fairfax=1k|Fairfield=1e|Farley=u|Farmersburg=l|Farmington=2g|Farnhamville=c|Farragut=z|Fayette=w|Fenton=1i|Ferguson=1r|Fertile=2p|Floris=p|Floyd=x|Fonda=23|Fontanelle=0|Forest City=2m|Fort Atkinson=2n|Fort Dodge=2l|Fort Madison=1j|Fostoria=k|Fredericksburg=i|Frederika=8|Fremont=1p|Fruitland=1x|Galt=2q|Galva=1a|Garber=l|Garden City=15|Garden Grove=q|Garnavillo=l|Garner=14|Garrison=5|Garwin=2d|Geneva=y|George=1n|Gibson=1h|Gifford=15|Gilbert=2c|Gilbertville=6|Gillett Grove=k|Gilman=1r|Gilmore City=19|Gladbrook=2d|Glenwood=1s|Glidden=d|Goldfield=2q|Goodell=14|Goose Lake=m|Gowrie=2l|Graettinger=21|Grafton=2p|Grand Junction=10|Grand Mound=m|Grand River=q|Grandview=1l|Granger=o|Grant=1w|Granville=2b|Gravity=2e|Gray=4|Greeley=r|Greene=b|Greenfield=0|Greenville=k|Grimes=24|Grinnell=26|Griswold=e|Grundy Center=11|Guernsey=26|Guthrie Center=12|Guttenberg=l|Halbur=d|Hamburg=z|Hamilton=1q|Hamlin=4|Hampton=y|Hancock=25|Hanlontown=2p|Harcourt=2l|Hardy=19|Harlan=2a|Harper=1h|Harpers Ferry=2|Harris=1z|Hartford=2i|Hartley=1y|Hartwick=26|Harvey=1q|Hastings=1s|Havelock=23|Haverhill=1r|Hawarden=2b|Hawkeye=w|Hayesville=1h|Hazleton=9|Hedrick=1h|Henderson=1s|Hiawatha=1k|Highlandville=2n|Hills=1f|Hillsboro=17|Hinton=22|Holland=11|Holstein=1a|Holy Cross=u|Homestead=1b|Honey Creek=25|Hopkinton=r|Hornick=2o|Hospers=2b|Houghton=1j|Hubbard=15|Hudson=6|Hull=2b|Humboldt=19|Humeston=2k|Huxley=2c|Ida Grove=1a|Imogene=z|Independence=9|Indianola=2i|Inwood=1n|Ionia=i|Iowa City=1f|Iowa Falls=15|Ira=1d|Ireton=2b|Irwin=2a|Jamaica=12|Janesville=8|Jefferson=10|Jesup=9|Jewell=13|Johnston=24|Joice=2p|Jolley=c|Kalona=2j|Kamrar=13|Kanawha=14|Kellerton=27|Kelley=2c|Kellogg=1d|Kensett=2p|Keokuk=1j|Keosauqua=2g|Keota=1h|Kesley=b|Keswick=1h|Keystone=5|Killduff=1d|Kimballton=4|Kingsley=22|Kirkman=2a|Kirkville=2h|Kiron=n|Klemme=14|Knierim=c|Knoxville=1q|La Motte=1c|La Porte City=6|Lacona=2i|Ladora=1b|Lake City=c|Lake Mills=2m|Lake Park=t|Lake View=28|Lakota=1i|Lamoni=q|Lamont=9|Lanesboro=d|Langworthy=1g|Lansing=2|Larchwood=1n|Larrabee=h|Latimer=y|Laurel=1r|Laurens=23|Lawler=i|Lawton=2o|Le Claire=29|Le Grand=1r|Le Mars=22|Ledyard=1i|Lehigh=2l|Leighton=1p|Leland=2m|Lenox=2e|Leon=q|Lester=1n|Letts=1l|Lewis=e|Liberty Center=2i|Libertyville=1e|Lidderdale=d|Lime Springs=18|Lincoln=2d|Linden=o|Lineville=2k|Linn Grove=a|Lisbon=1k|Liscomb=1r|Little Cedar=1t|Little Rock=1n|Little Sioux=16|Livermore=19|Lockridge=1e|Logan=16|Lohrville=c|Lone Rock=1i|Lone Tree=1f|Long Grove=29|Lorimor=2f|Lost Nation=m|Lovilia=1v|Low Moor=m|Lowden=f|Lu Verne=1i|Luana=l|Lucas=1m|Luther=7|Luxemburg=u|Luzerne=5|Lynnville=1d|Lytton=c|Macedonia=25|Macksburg=1o|Madrid=7|Magnolia=16|Malcom=26|Mallard=21|Malvern=1s|Manchester=r|Manilla=n|Manly=2p|Manning=d|Manson=c|Mapleton=1u|Maquoketa=1c|Marathon=a|Marble Rock=x|Marcus=h|Marengo=1b|Marion=1k|Marne=e|Marquette=l|Marshalltown=1r|Martelle=1g|Martensdale=2i|Martinsburg=1h|Mason City=g|Masonville=r|Massena=e|Matlock=2b|Maurice=2b|Maxwell=2c|Maynard=w|Mc Callsburg=2c|Mc Causland=29|Mc Clelland=25|Mc Gregor=l|Mc Intire=1t|Mechanicsville=f|Mediapolis=s|Melbourne=1r|Melcher Dallas=1q|Melrose=1v|Melvin=1z|Menlo=12|Meriden=h|Merrill=22|Meservey=g|Middle Amana=1b|Middletown=s|Miles=1c|Milford=t|Millersburg=1b|Millerton=2k|Milo=2i|Milton=2g|Minburn=o|Minden=25|Mineola=1s|Mingo=1d|Missouri Valley=16|Mitchellville=24|Modale=16|Mondamin=16|Monmouth=1c|Monona=l|Monroe=1d|Montezuma=26|Monticello=1g|Montour=2d|Montpelier=1x|Montrose=1j|Moorhead=1u|Moorland=2l|Moravia=3|Morley=1g|Morning Sun=1l|Morrison=11|Moscow=1x|Moulton=3|Mount Auburn=5|Mount Ayr=27|Mount Pleasant=17|Mount Sterling=2g|Mount Union=17|Mount Vernon=1k|Moville=2o|Murray=j|Muscatine=1x|Mystic=3|Nashua=i|Nemaha=28|Neola=25|Nevada=2c|New Albin=2|New Hampton=i|New Hartford=b|New Liberty=29|New London=17|New Market=2e|New Providence=15|New Sharon=1p|New Vienna=u|New Virginia=2i|Newell=a|Newhall=5|Newton=1d|Nichols=1x|Nodaway=1|Nora Springs=x|North Buena Vista=l|North English=1b|North Liberty=1f|North Washington=i|Northboro=20|Northwood=2p|Norwalk=2i|Norway=5|Oakland=25|Oakville=1l|Ocheyedan=1z|Odebolt=28|Oelwein=w|Ogden=7|Okoboji=t|Olds=17|Olin=1g|Ollie=1h|Onawa=1u|Onslow=1g|Oran=w|Orange City=2b|Orchard=1t|Orient=0|Osage=1t|Osceola=j|Oskaloosa=1p|Ossian=2n|Otho=2l|Otley=1q|Oto=2o|Ottosen=19|Ottumwa=2h|Oxford=1f|Oxford Junction=1g|Oyens=22|Pacific Junction=1s|Packwood=1e|Palmer=23|Palo=1k|Panama=2a|Panora=12|Parkersburg=b|Parnell=1b|Paton=10|Patterson=1o|Paullina=1y|Pella=1q|Peosta=u|Percival=z|Perry=o|Persia=16|Peru=1o|Peterson=k|Pierson=2o|Pilot Grove=1j|Pilot Mound=7|Pisgah=16|Plainfield=8|Plano=3|Pleasant Hill=24|Pleasant Valley=29|Pleasantville=1q|Plover=23|Plymouth=g|Pocahontas=23|Polk City=24|Pomeroy=c|Popejoy=y|Portsmouth=2a|Postville=2|Prairie City=1d|Prairieburg=1k|Prescott=1|Preston=1c|Primghar=1y|Princeton=29|Prole=2i|Promise City=2k|Protivin=18|Pulaski=p|Quasqueton=9|Quimby=h|Radcliffe=15|Rake=2m|Ralston=d|Randalia=w|Randall=13|Randolph=z|Raymond=6|Readlyn=8|Reasnor=1d|Red Oak=1w|Redding=27|Redfield=o|Reinbeck=11|Rembrandt=a|Remsen=22|Renwick=19|Rhodes=1r|Riceville=18|Richland=1h|Ricketts=n|Ridgeway=2n|Ringsted=v|Rippey=10|Riverside=2j|Riverton=z|Robins=1k|Rock Falls=g|Rock Rapids=1n|Rock Valley=2b|Rockford=x|Rockwell=g|Rockwell City=c|Rodney=1u|Roland=2c|Rolfe=23|Rome=17|Rose Hill=1p|Rowan=2q|Rowley=9|Royal=k|Rudd=x|Runnells=24|Russell=1m|Ruthven=21|Rutland=19|Ryan=r|Sabula=1c|Sac City=28|Saint Ansgar=1t|Saint Anthony=1r|Saint Charles=1o|Saint Donatus=1c|Saint Lucas=w|Saint Marys=2i|Saint Olaf=l|Saint Paul=1j|Salem=17|Salix=2o|Sanborn=1y|Scarville=2m|Schaller=28|Schleswig=n|Scranton=10|Searsboro=26|Selma=2g|Sergeant Bluff=2o|Seymour=2k|Shambaugh=20|Shannon City=2f|Sharpsburg=2e|Sheffield=y|Shelby=25|Sheldahl=24|Sheldon=1y|Shell Rock=b|Shellsburg=5|Shenandoah=20|Sherrill=u|Sibley=1z|Sidney=z|Sigourney=1h|Silver City=1s|Sioux Center=2b|Sioux City=2o|Sioux Rapids=a|Slater=2c|Sloan=2o|Smithland=2o|Soldier=1u|Solon=1f|Somers=c|South Amana=1b|South English=1h|Spencer=k|Sperry=s|Spillville=2n|Spirit Lake=t|Spragueville=1c|Springbrook=1c|Springville=1k|Stacyville=1t|Stanhope=13|Stanley=9|Stanton=1w|Stanwood=f|State Center=1r|Steamboat Rock=15|Stockport=2g|Stockton=1x|Storm Lake=a|Story City=2c|Stout=11|Stratford=13|Strawberry Point=l|Stuart=12|Sully=1d|Sumner=8|Superior=t|Sutherland=1y|Swaledale=g|Swan=1q|Swea City=1i|Swedesburg=17|Swisher=1f|Tabor=z|Tama=2d|Teeds Grove=m|Templeton=d|Terril=t|Thayer=2f|Thompson=2m|Thor=19|Thornburg=1h|Thornton=g|Thurman=z|Tiffin=1f|Tingley=27|Tipton=f|Titonka=1i|Toddville=1k|Toeterville=1t|Toledo=2d|Tracy=1q|Traer=2d|Treynor=25|Tripoli=8|Troy Mills=1k|Truesdale=a|Truro=1o|Udell=3|Underwood=25|Union=15|Unionville=3|University Park=1p|Urbana=5|Urbandale=24|Ute=1u|Vail=n|Van Horne=5|Van Meter=o|Van Wert=q|Varina=23|Ventura=g|Victor=1b|Villisca=1w|Vincent=2l|Vining=2d|Vinton=5|Volga=l|Wadena=w|Walcott=29|Walford=5|Walker=1k|Wall Lake=28|Wallingford=v|Walnut=25|Wapello=1l|Washington=2j|Washta=h|Waterloo=6|Waterville=2|Watkins=5|Waucoma=w|Waukee=o|Waukon=2|Waverly=8|Wayland=17|Webb=k|Webster=1h|Webster City=13|Weldon=q|Wellman=2j|Wellsburg=11|Welton=m|Wesley=1i|West Bend=21|West Branch=f|West Burlington=s|West Chester=2j|West Des Moines=24|West Liberty=1x|West Point=1j|West Union=w|Westfield=22|Westgate=w|Westphalia=2a|Westside=n|Wever=1j|What Cheer=1h|Wheatland=m|Whiting=1u|Whittemore=1i|Whitten=15|Williams=13|Williamsburg=1b|Williamson=1m|Wilton=1x|Windsor Heights=24|Winfield=17|Winterset=1o|Winthrop=9|Wiota=e|Woden=14|Woodbine=16|Woodburn=j|Woodward=o|Woolstock=2q|Worthington=u|Wyoming=1g|Yale=12|Yarmouth=s|Yorktown=20|Zearing=2c|Zwingle=u'
+  },
+  ID: {
+    counties: 'Ada|Adams|Bannock|Bear Lake|Benewah|Bingham|Blaine|Boise|Bonner|Bonneville|Boundary|Butte|Camas|Canyon|Caribou|Cassia|Clark|Clearwater|Custer|Elmore|Franklin|Fremont|Gem|Gooding|Idaho|Jefferson|Jerome|Kootenai|Latah|Lemhi|Lewis|Lincoln|Madison|Minidoka|Nez Perce|Oneida|Owyhee|Payette|Power|Shoshone|Teton|Twin Falls|Valley|Washington',
+    zips: '1s75:2,1,1:5,1:2,1,1,3,1:5,1:12,1,1:b,1:2,1:5,2:e,1:5,2:3,1:5,2:3,3:i,1,1:k,1:t,1:e,2:k,1:3,1:2,1:i,1:5,1:k,1:3,1,2:e,2:z,1:b,1:2,1,4,1:i,1:z,1:t,1:3,1:b,1:5,5:3,1:5,1:k,8:12,1:3,2:5,2:e,1:5,1:i,3:2,2:k,2:e,1:k,1:3,e:15,1,1,8:f,1,1:6,1:n,2:15,2:f,2:6,1:15,1:c,1:f,1:v,1:q,2:c,1:15,2:n,2,1:6,1:15,1:q,1:x,1:c,1:q,2:6,1:15,1:f,1:x,1:15,2:f,1:x,1:6,1:v,1:x,2:v,1:6,1,1:n,1a:9,1,1,1,1,1,9,5:l,1,1:14,1:g,1:14,1:p,2:9,1,1:l,2:p,2:l,1:p,1,1:l,2,2:w,1,1:p,1,1,1:l,1:g,2:w,1:9,1:p,1:l,1:14,2:9,1:14,5:w,2:t,1,1,1,1,1,1,1,w:y,j:h,2:o,1:u,1:y,1:o,1,4,1,2,2:s,1:u,1:s,2:o,1:y,1:h,1:o,1:u,1:h,1:y,1:h,1:o,1:u,1:o,3,1:h,1:o,1:u,1a:j,1:7,2:10,1:d,1,1,3:17,1:16,1:1,3:16,1:0,1:m,2:11,3:7,1:j,1:10,2:d,1:j,1:10,1:7,1:d,1:7,1:1,1:j,1:0,1:16,1:m,1:7,1:16,1:10,2:d,1:0,1:1,1:d,1:17,1:7,1:j,1,2:10,1:d,1,1,1:1,1:11,1:d,1:m,3:d,1:11,5:7,3:0,1:m,1:o,1:17,4:d,1:16,3:0,6:d,1,e:0,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,2,1,2,2,1,1,2,1,2,1,3,l,17,2:r,1:13,1:r,1:8,1:a,1:s,2:13,1:8,1:r,1:8,1:13,1:8,1:r,1,1,5:8,1,1:s,1:4,1:8,1:a,1:h,3:4,2:s,1:r,1:s,1:r,1:8,1:13,2,1:8,1,1:r,1:s,1,1:a,1:13,1:a,1:8,1:13,1,1:4,1:8,1:a,1:r,1:s,1:8,1:s,1:r,2:8,1:4,3:8,1,1:4,1:13,1,1:r,1:4,1:s,1,1:13,1,2:r,1',
+    cities: 'Aberdeen=5|Ahsahka=h|Albion=f|Almo=f|American Falls=12|Arbon=12|Arco=b|Arimo=2|Ashton=l|Athol=r|Atlanta=j|Atomic City=5|Avery=13|Bancroft=e|Banks=7|Basalt=5|Bayview=r|Bellevue=6|Bern=3|Blackfoot=5|Blanchard=8|Bliss=n|Bloomington=3|Boise=0|Bonners Ferry=a|Bovill=s|Bruneau=10|Buhl=15|Burley=f|Calder=13|Caldwell=d|Cambridge=17|Carey=6|Careywood=8|Carmen=t|Cascade=16|Castleford=15|Cataldo=r|Challis=i|Chester=l|Clark Fork=8|Clarkia=13|Clayton=i|Clifton=k|Cobalt=t|Cocolalla=8|Coeur d\'Alene=r|Colburn=8|Conda=e|Coolin=8|Corral=c|Cottonwood=o|Council=1|Craigmont=u|Culdesac=y|Dayton=k|Deary=s|Declo=f|Desmet=4|Dietrich=v|Dingle=3|Donnelly=16|Dover=8|Downey=2|Driggs=14|Dubois=g|Eagle=0|Eastport=a|Eden=q|Elk City=o|Elk River=h|Ellis=i|Emmett=m|Fairfield=c|Felt=14|Fenn=o|Ferdinand=o|Fernwood=4|Filer=15|Firth=5|Fish Haven=3|Fort Hall=5|Franklin=k|Fruitland=11|Garden City=0|Garden Valley=7|Genesee=s|Geneva=3|Georgetown=3|Gibbonsville=t|Glenns Ferry=j|Gooding=n|Grace=e|Grand View=10|Grangeville=o|Greencreek=o|Greenleaf=d|Hagerman=n|Hailey=6|Hamer=p|Hammett=j|Hansen=15|Harrison=r|Harvard=s|Hayden=r|Hazelton=q|Heyburn=x|Hill City=c|Holbrook=z|Homedale=10|Hope=8|Horseshoe Bend=7|Howe=b|Huston=d|Idaho City=7|Idaho Falls=9|Indian Valley=1|Inkom=2|Iona=9|Irwin=9|Island Park=l|Jerome=q|Juliaetta=s|Kamiah=u|Kellogg=13|Kendrick=s|Ketchum=6|Kimberly=15|King Hill=j|Kingston=13|Kooskia=o|Kootenai=8|Kuna=0|Laclede=8|Lake Fork=16|Lapwai=y|Lava Hot Springs=2|Leadore=t|Lemhi=t|Lenore=h|Letha=m|Lewiston=y|Lewisville=p|Lowman=7|Lucile=o|Mackay=i|Macks Inn=l|Malad City=z|Malta=f|Marsing=10|May=t|McCall=16|McCammon=2|Medimont=r|Melba=d|Menan=p|Meridian=0|Mesa=1|Middleton=d|Midvale=17|Minidoka=x|Monteview=p|Montpelier=3|Moore=b|Moreland=5|Moscow=s|Mountain Home=j|Mountain Home Afb=j|Moyie Springs=a|Mullan=13|Murphy=10|Murray=13|Murtaugh=15|Nampa=d|Naples=a|New Meadows=1|New Plymouth=11|Newdale=l|Nezperce=u|Nordman=8|North Fork=t|Notus=d|Oakley=f|Ola=m|Oldtown=8|Orofino=h|Osburn=13|Paris=3|Parker=l|Parma=d|Paul=x|Payette=11|Peck=y|Picabo=6|Pierce=h|Pinehurst=13|Pingree=5|Placerville=7|Plummer=4|Pocatello=2|Pollock=o|Ponderay=8|Porthill=a|Post Falls=r|Potlatch=s|Preston=k|Priest River=8|Princeton=s|Rathdrum=r|Reubens=u|Rexburg=w|Richfield=v|Rigby=p|Riggins=o|Ririe=p|Roberts=p|Rockland=12|Rogerson=15|Rupert=x|Sagle=8|Saint Anthony=l|Saint Charles=3|Saint Maries=4|Salmon=t|Sandpoint=8|Santa=4|Shelley=5|Shoshone=v|Shoup=t|Silverton=13|Smelterville=13|Soda Springs=e|Spencer=g|Spirit Lake=r|Springfield=5|Stanley=i|Star=0|Stites=o|Sugar City=w|Sun Valley=6|Swan Valley=9|Swanlake=2|Sweet=m|Tendoy=t|Tensed=4|Terreton=p|Teton=l|Tetonia=14|Thatcher=k|Troy=s|Twin Falls=15|Ucon=9|Victor=14|Viola=s|Wallace=13|Warren=o|Wayan=e|Weippe=h|Weiser=17|Wendell=n|Weston=k|White Bird=o|Wilder=d|Winchester=u|Worley=r|Yellow Pine=16'
+  },
+  IL: {
+    counties: 'Adams|Alexander|Bond|Boone|Brown|Bureau|Calhoun|Carroll|Cass|Champaign|Christian|Clark|Clay|Clinton|Coles|Cook|Crawford|Cumberland|De Witt|DeKalb|Douglas|DuPage|Edgar|Edwards|Effingham|Fayette|Ford|Franklin|Fulton|Gallatin|Greene|Grundy|Hamilton|Hancock|Hardin|Henderson|Henry|Iroquois|Jackson|Jasper|Jefferson|Jersey|Jo Daviess|Johnson|Kane|Kankakee|Kendall|Knox|LaSalle|Lake|Lawrence|Lee|Livingston|Logan|Macon|Macoupin|Madison|Marion|Marshall|Mason|Massac|McDonough|McHenry|McLean|Menard|Mercer|Monroe|Montgomery|Morgan|Moultrie|Ogle|Peoria|Perry|Piatt|Pike|Pope|Pulaski|Putnam|Randolph|Richland|Rock Island|Saline|Sangamon|Schuyler|Scott|Shelby|St. Clair|Stark|Stephenson|Tazewell|Union|Vermilion|Wabash|Warren|Washington|Wayne|White|Whiteside|Will|Williamson|Winnebago|Woodford',
+    zips: '1aap:1q,1:1d,2:f,1,1,1,1,1,1:1d,1,1:1q,1,1,1:1d,1:f,1,1,1,1:1d,1:1q,1:f,3,1,3,1:1d,1,2:1q,1,1:1d,2,1:f,1:1q,1:1d,1,1,1:f,1:1d,1,1,1,1,2:1q,1,2:f,2,1,4:1d,1,1:f,2:1d,1:f,2,1,1:1d,1:f,1:1q,1,1:1d,1:f,1:1d,1:f,1,1,1:1d,2:1q,1:f,1:1d,1,1,1,1,1,1,1:f,1,2,1,1,1:1d,1:1q,1,1:1d,2:l,1:1q,1:f,1,1:l,1,1:f,1:l,1:18,1,1:j,1,1:1y,2:j,1:l,1,1:18,1,1,1,1,1,1,2:l,2,1:j,1:f,1,1:l,1,1:18,1:j,1:18,1:l,1,1,1:18,1:f,1:1q,1:l,1:18,1:j,1,1:18,1:l,2:j,1:18,1:1q,1:f,1,1,1:1q,1:l,2:f,1,1,1,1,1,1,3,1,2,1:l,1:f,1:18,1,1:f,1:18,1:j,1:f,1:1q,1:l,2:18,1:l,1,1,1,1,1,1,1,1:f,1,1,1,1,1:l,2,2:f,1,1,1,4,1,2k,1,1,1,1,2m:l,2:2q,1:f,1:2q,1,2:f,1:v,1:2q,1:f,1:2q,1:f,1,3,1:v,1:2q,1:f,1,1:1g,1:2q,1:f,1:2q,1:v,1:f,1,2:2q,1:f,1,1:2q,1,1,1,1,1,1:v,1:f,1:l,1:2q,1,1,1:f,1:v,1:f,1:2q,1:v,1:2q,1,1:v,1:2q,1:f,1,1,1,1,1,1,1,1:1g,1:f,1,1,1,1,1,1,1:2q,1:f,1:1c,1:f,1,1,1:v,1:f,1,1,1,1:v,1:f,1:2q,1:f,2:2q,3,3,1,8:f,2,1:18,1:2q,1:l,1:18,1,1,3,1,1:1a,1:f,1:l,1,1,1,1:1c,1:l,1:j,1:l,1,1,2:f,1,1:l,3:1f,1:1c,1:l,2:f,2:1a,1,1,1:18,1:l,1:1a,1:18,1:1a,1:2q,1:1a,1:f,2:j,1:1c,1:j,1:1c,1:j,1:1f,1:18,1:l,1:j,1:1c,1:f,1:l,1:1a,1:l,2,1:2q,1:l,1,1,1:18,1:l,3,d:2q,1,c:l,1,2:f,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,2,2,1,1,1,1,1,1,2,1,1,3,2,2,1,1,3,1,1,2,1,2,1,1,2,1,1,1,1,1,1,1,2,1,1,1,1,2,2,5,1,5,2,2h,1,1,m,22:19,9,1:11,1,1:19,1,1,2,1:11,1:q,1:1g,1,1:11,2,2,1,1,1:1g,1:11,1,1:2j,1:q,1:1g,1:19,1:q,2:11,1,1:19,1,1:2j,2:19,1:11,1:q,2:11,1:9,1:19,1:11,1:q,1:11,1:19,1:11,1,1:q,1:19,1:q,1:2j,1:19,1:q,1:2j,1:19,2:11,1,1,1:19,1:11,3,1,r:16,5:1f,1:1y,1:3,2:1y,1:3,1,1:2g,1:7,1:1y,1:2s,2:2g,1,1:1y,1:1f,3:2s,1:16,2:2g,1:16,2:1y,1:1f,1:2g,4:16,1:2p,1:3,1:2g,2:16,1:1f,1:1y,1:2g,2:7,1:1y,1:2g,1:1y,1:2g,1:7,1:1y,1:7,1:1y,3:1f,2:16,1:2g,1:1y,1:2g,1:2s,1:1y,1:3,2:2g,1:1y,2:2g,1:2p,1:2s,1,1:7,1:16,2:2s,1:7,1:2s,1,1:2p,3:1y,1:16,2,1:2s,1:2g,2:1y,a:2s,1,1,1,1,1,1,1,1,1,1,1,2,1,a,1,4,1,1,1x:28,3,q:2p,1:1t,1:28,1:10,1,1,1:28,1,1:10,1:28,1,1:10,1:28,1:2p,1:28,6:2p,1,1,2:10,2:28,1,1:10,1:28,1:1t,1:2p,1:10,1:1t,1:28,1,1,4:2p,2:1t,1:10,1,1:28,1:1t,1:2p,1:28,1,2:1t,1:28,1:2p,1:28,1:7,e:28,2:1c,9:1f,1:1g,1:5,1:1g,1:5,1,1:1c,1:5,1:1f,1:1g,1:5,1:1c,1:5,1,1:1f,1:1c,1:25,1,1:5,1,1,1:1f,1:1c,1:1g,1:1c,1:25,1,1:5,1,2:25,1:1c,1,2:5,1,1,2:1c,1:5,1:1c,3:1f,1:1c,2:5,2:1c,1:5,1:1c,1:5,1,1:25,1:1c,3:1f,1:5,1:1m,1:1c,1,1,1,1:5,1:1m,1:5,1:1m,1:1f,1:5,m:1b,1,8,1:1p,1:1t,1:10,1:1b,1:s,1:1p,1:2l,1:z,1:10,1:1p,1:2f,1:1p,1:2l,1:1m,1:z,1:2f,1:s,1:1b,2,1:s,1,1,1:10,1:2l,1:1b,1:z,1:1p,1:1b,1:1p,1:s,1:1t,1:10,4:2l,1:1b,1:2f,1:x,1:1z,1:2b,1:2l,1:z,1:1p,3:1b,1:s,1:z,2:2l,3:1t,1,1:1b,1:10,1:z,1:1p,1:z,1:1b,1:2l,1:1b,1:1p,1:1t,1:s,1:2l,1:2f,1:z,2:s,1:2f,1:s,1:1b,1:1t,2:1b,1,1:10,1:2f,a:s,f:2t,1:1z,2:s,1,3:1z,1:s,1:1z,1,2,1,1:2t,1:s,1:1n,1:1z,1:2h,1,1:1z,1:1m,2:1z,1:1m,1,1:s,1,1,1:2t,1:1n,1:1z,1:2t,2:2h,2:1z,1:s,1:2h,1,3,1:2f,1:25,1:2t,1:1z,1:s,1:2h,1:1m,2:1n,1:2h,1:1z,1:1m,1:2h,1:1b,t:1z,1,1,1,1,1,1,3:2h,1,1:1z,1,1,1,1,9,4,1,3,1,1:2h,1:1z,1,1,1,2,2,7,1,1,1,1,1,1,19:1r,1,2,1,4,1,a,1:2h,1:1r,1:1h,1:1r,1,1,1:i,1:1r,1:2t,1:1r,1,1,1:2h,1,1:i,1:1r,1,1:2t,1:1g,1,1,1:2t,1:1g,1:1r,1,2:2h,1:1r,1:i,1,1:1h,1:1r,1,1,1:2h,1:1i,2:1r,1:2h,1:2t,1:1r,3:1g,5,1:1r,1:2t,1:1r,1:q,1:1r,1:1g,1:1r,1:i,1,c:1r,1,8,2:9,1,1,7:2j,1,1,1:21,1:2j,1:9,1,1:2j,1:21,2:9,1,1,2,1,1,4:21,1:2j,1,1,1,5:21,1:9,1:2j,1:i,1:9,1:2j,1:9,1:2j,1:9,1:2j,1:9,1:2j,1:9,1,1,1:21,1,1,1:2j,1,1:9,3,1,1,1:2j,1:9,4:2j,1:9,1,1,1,1,1:2j,1:9,1,2,2:i,1:2j,1:21,q:k,1,1:e,1:k,1:1x,3:m,2:k,1:e,4:m,1:1x,3,1:21,1:k,1:e,1:m,1,3:21,1:1x,1:e,2:m,1:k,1,1:e,1:m,5,2:1x,2:k,2:m,1:k,1:2d,18:1k,1,4:6,3:1j,1:1k,1:p,1:15,1:6,1:1j,1:1v,1:u,1:1v,1:1k,1:2,2:1k,1:15,1:1j,1:1k,1,1,1:u,1:15,2,1,1:1v,1:1j,1:1k,1,1:6,1:15,3:1k,4:u,1:6,1:1k,1:6,1:1k,1:1v,1:u,1:1v,1:15,1:6,1:u,2:1v,2:1k,1:2e,1:1k,1,1,1:15,2:6,2:1k,2:1j,1:6,1:2e,3:1k,1:1v,1,1,1:u,1:1j,1:p,1:u,1,1:a,1:1k,1:1j,1:2,1:1k,1:1j,1:1v,1:1k,1:1v,1:u,1:1j,1:1v,1:1k,2,1:u,2v:2e,1,1,1,1,1,1,1,6:2m,1:d,1,1:26,1:d,1,1:2e,1,1,1,2,1,4:d,1,1:2e,1:26,1:1k,2:1u,1:26,1:20,1:2e,1,1:26,1,1:2e,1:1u,1:d,1:2,1:p,1:1u,1:1k,1:d,2,1,1:2e,1,1:1u,1:2e,1,1:26,1:2e,1:26,1:2,1:2m,1:2e,1:d,1,2:2m,1:2e,2:2m,1:26,1:2,1:20,1:2,2:26,1,1:1u,1:26,1:1k,1:2e,2:2,1:2e,1:26,2,1:2e,3:26,1:d,1:1k,1:1u,2:26,1:1u,3:0,4,1,5:x,1:22,1:x,1:22,2:x,3:2b,1:0,1:x,2:22,1:0,1,1:1p,3:x,1,4,2,2:0,1,1:22,1:x,2:22,1:2b,1:22,1:0,1,1,1,2,1:22,1:4,1:x,1:22,1,1,1:x,1:0,1,1:22,1,1,2:0,1:22,1:x,3:22,3:x,1:1p,1:4,1:0,2:4,1:x,1,l:o,9:2k,1:o,2:g,1:o,3:1e,1:p,1:27,1:b,1:27,1:2d,1:b,1:o,1:27,1:o,1:g,1:h,3:2d,1:13,1:g,1:c,1:h,1,2:2d,1:1e,1:e,1:b,1,1:o,1:2d,1:o,1:2n,1:h,1:13,1:g,1:27,1:g,1:27,2:g,4:p,1:13,1:1e,1:o,1:2d,1,1:g,1:2d,1:1e,1:o,1:h,1:e,2:p,2:o,1:b,1:13,1:n,1:b,1:g,1:13,1,1,k:1i,9:a,2:1h,1:1i,1,1:2a,2:a,1:1h,1,1:2a,1:1i,1,1,1,1,1,4:2a,1:a,1:1i,1:1v,1:2d,1:1i,1:2a,1:1i,1:1v,1:2a,1:a,1:1h,2,1:1i,1:2a,1:a,1,1:1h,1:1i,1:2d,1:1i,2:2d,1:1i,1:a,1,1,1:2a,2:1v,1:2a,2,2:2d,2:a,1,2,1:2d,1:1v,1:1i,s:1w,9:2c,1:8,1,1:1s,2:2a,2:1n,1:8,3:2c,1:8,2:2b,1:2a,1:1j,1:8,1:1w,1:2a,1:1j,1:1w,2:1n,1:1h,1,3:1w,1:2b,1:1j,2:1s,1:1h,1:1n,5:1j,1:1w,1,4:1n,1:1h,3:1s,1:1w,1:2a,1,1:2c,1:1n,1:1w,1:1h,1:1j,1:1w,2:2a,1:1h,1:1j,1:1s,1:1j,1:1s,2:2a,4:2b,1:1n,1:1j,1:2a,1:1j,3:1s,1:2a,1:1j,1:8,1:1w,1:2a,1:2c,1:1w,6:2a,1,1,1,1,1,1,1,3,1,3,1,3,3,1,3,a,3,h,1,4,1,1,1,1,1,1,2,7,1,4,5,5,3,2,5:1l,2:2m,3:n,1:1l,1:2m,1:2n,1:14,1:2k,1:r,2:14,1:n,1:14,1:w,1:n,1:r,1:2o,1,1:r,1:2n,1:c,1:r,2:2o,1:w,1,1:14,1:2m,1:20,1:n,1:2o,1,1:r,1:2n,1:p,1:c,1:r,1:2r,1:2n,1,1:2o,2:14,2:2m,1:1l,1:2n,1,1:2k,1:1l,1,1:2k,1:r,2:c,1:w,1,1:2o,1,1:2k,1:14,1:r,1:14,1:t,1:27,1:2o,1:1l,1:t,1:14,2:r,1:1l,1:2m,1,1:2n,1:c,1:p,1:1l,1,1:14,1:r,1:p,1:2n,1:2o,1:20,1:14,1:r,1,1:1l,1,1:14,1:2n,1:r,1,1:14,1:c,2:12,1,1,2:2i,1,1:12,1:17,1,1:1o,2:17,2:1,1:2r,1:12,1:29,1:2r,1:y,1:2i,1:2r,1,1:17,1:12,2:2i,1:12,1:23,2:29,1:y,1:12,1:2r,1:t,1:29,3:23,1:17,1:12,1:24,1:12,1:17,3:29,1:23,1:2r,1,1:12,1:2r,1:2i,1:1o,1:t,1:y,1:24,1:1,1:12,1:2r,1:1o,1:2i,1:1,1:24,1,1:29,1:12,1:17,2:1,1:24,1:12,1:17,1:24,1:2r,1:12,1:24,1:29,2:t,3:y,1:r,1:t,1:17,2:29,1:1,2,2:24,1:1,1:12,1:17,1:24,1:20,1:2i,1:r',
+    cities: 'Abingdon=1b|Adair=1p|Addieville=2m|Addison=l|Albany=2p|Albers=d|Albion=n|Alden=1q|Aledo=1t|Alexander=1w|Alexis=1t|Algonquin=1q|Alhambra=1k|Allendale=2k|Allerton=2j|Alma=1l|Alpha=10|Alsey=2c|Alsip=f|Altamont=o|Alto Pass=2i|Alton=1k|Altona=1b|Alvin=2j|Amboy=1f|Anchor=1r|Ancona=1g|Andalusia=28|Andover=10|Anna=2i|Annapolis=g|Annawan=10|Antioch=1d|Apple River=16|Arcola=k|Arenzville=8|Argenta=1i|Arlington=5|Arlington Heights=f|Armington=2h|Armstrong=2j|Aroma Park=19|Arrowsmith=1r|Arthur=k|Ashkum=11|Ashland=8|Ashley=2m|Ashmore=e|Ashton=1f|Assumption=a|Astoria=s|Athens=1s|Atkinson=10|Atlanta=1h|Atwood=k|Auburn=2a|Augusta=x|Aurora=18|Ava=12|Aviston=d|Avon=s|Baileyville=1y|Baldwin=26|Bardolph=1p|Barnhill=2n|Barrington=1d|Barry=22|Barstow=28|Bartelso=d|Bartlett=f|Basco=x|Batavia=18|Batchtown=6|Bath=1n|Baylis=22|Beardstown=8|Beason=1h|Beaverville=11|Beckemeyer=d|Bedford Park=f|Beecher=2q|Beecher City=o|Belknap=17|Belle Rive=14|Belleville=2e|Bellflower=1r|Bellmont=2k|Bellwood=f|Belvidere=3|Bement=21|Benld=1j|Bensenville=l|Benson=2t|Benton=r|Berkeley=f|Berwick=2l|Berwyn=f|Bethalto=1k|Bethany=1x|Big Rock=18|Biggsville=z|Bingham=p|Bishop Hill=10|Bismarck=2j|Blackstone=1g|Blandinsville=1p|Bloomingdale=l|Bloomington=1r|Blue Island=f|Blue Mound=1i|Bluff Springs=8|Bluffs=2c|Bluford=14|Boles=17|Bolingbrook=2q|Bondville=9|Bone Gap=n|Bonfield=19|Bonnie=14|Boody=1i|Bourbonnais=19|Bowen=x|Braceville=v|Bradford=2f|Bradley=19|Braidwood=2q|Breese=d|Bridgeport=1e|Bridgeview=f|Brighton=15|Brimfield=1z|Bristol=1a|Broadlands=9|Broadview=f|Brocton=m|Brookfield=f|Brookport=1o|Broughton=w|Browning=2b|Browns=n|Brownstown=p|Brussels=6|Bryant=s|Buckingham=19|Buckley=11|Buckner=r|Buda=5|Buffalo=2a|Buffalo Grove=1d|Buffalo Prairie=28|Bulpitt=a|Buncombe=17|Bunker Hill=1j|Burbank=f|Bureau=5|Burlington=18|Burnt Prairie=2o|Bushnell=1p|Butler=1v|Byron=1y|Cabery=q|Cairo=1|Caledonia=3|Calhoun=27|Calumet City=f|Camargo=k|Cambria=2r|Cambridge=10|Camden=2b|Cameron=2l|Camp Grove=1m|Camp Point=0|Campbell Hill=12|Campus=1g|Canton=s|Cantrall=2a|Capron=3|Carbon Cliff=28|Carbondale=12|Carlinville=1j|Carlock=1r|Carlyle=d|Carman=z|Carmi=2o|Carol Stream=l|Carpentersville=18|Carrier Mills=29|Carrollton=u|Carterville=2r|Carthage=x|Cary=1q|Casey=b|Caseyville=2e|Castleton=2f|Catlin=2j|Cave In Rock=y|Cedar Point=1c|Cedarville=2g|Centralia=1l|Cerro Gordo=21|Chadwick=7|Chambersburg=22|Champaign=9|Chana=1y|Chandlerville=8|Channahon=2q|Chapin=1w|Charleston=e|Chatham=2a|Chatsworth=1g|Chebanse=11|Chenoa=1r|Cherry=5|Cherry Valley=2s|Chester=26|Chesterfield=1j|Chestnut=1h|Chicago=f|Chicago Heights=f|Chicago Ridge=f|Chillicothe=1z|Chrisman=m|Christopher=r|Cicero=f|Cisco=21|Cisne=2n|Cissna Park=11|Clare=j|Claremont=27|Clarendon Hills=l|Clay City=c|Clayton=0|Claytonville=11|Clifton=11|Clinton=i|Coal City=v|Coal Valley=28|Coatsburg=0|Cobden=2i|Coello=r|Coffeen=1v|Colchester=1p|Colfax=1r|Collinsville=1k|Collison=2j|Colona=10|Colp=2r|Columbia=1u|Colusa=x|Compton=1f|Concord=1w|Congerville=2t|Cooksville=1r|Cordova=28|Cornell=1g|Cornland=1h|Cortland=j|Cottage Hills=1k|Coulterville=26|Country Club Hills=f|Cowden=2d|Creal Springs=2r|Crescent City=11|Crest Hill=2q|Creston=1y|Crestwood=f|Crete=2q|Creve Coeur=2h|Cropsey=1r|Crossville=2o|Crystal Lake=1q|Cuba=s|Cullom=1g|Cutler=20|Cypress=17|Dahinda=1b|Dahlgren=w|Dakota=2g|Dale=w|Dallas City=x|Dalton City=1x|Dalzell=5|Dana=1c|Danforth=11|Danvers=1r|Danville=2j|Darien=l|Davis=2g|Davis Junction=1y|Dawson=2a|De Land=21|De Soto=12|Decatur=1i|Deer Creek=2h|Deer Grove=2p|Deerfield=1d|Dekalb=j|Delavan=2h|Dennison=b|Depue=5|Des Plaines=f|Dewey=9|Dewitt=i|Dieterich=o|Divernon=2a|Dix=14|Dixon=1f|Dolton=f|Dongola=2i|Donnellson=2|Donovan=11|Dorsey=1k|Dover=5|Dow=15|Dowell=12|Downers Grove=l|Downs=1r|Du Bois=2m|Du Quoin=20|Dundas=27|Dundee=18|Dunfermline=s|Dunlap=1z|Dupo=2e|Durand=2s|Dwight=1g|Eagarville=1j|Earlville=1c|East Alton=1k|East Carondelet=2e|East Dubuque=16|East Galesburg=1b|East Lynn=2j|East Moline=28|East Peoria=2h|East Saint Louis=2e|Easton=1n|Eddyville=23|Edelstein=1z|Edgewood=o|Edinburg=a|Edwards=1z|Edwardsville=1k|Effingham=o|El Paso=2t|Elburn=18|Eldena=1f|Eldorado=29|Eldred=u|Eleroy=2g|Elgin=18|Elizabeth=16|Elizabethtown=y|Elk Grove Village=f|Elkhart=1h|Elkville=12|Ellery=n|Elliott=q|Ellis Grove=26|Ellisville=s|Ellsworth=1r|Elmhurst=l|Elmwood=1z|Elmwood Park=f|Elsah=15|Elvaston=x|Elwin=1i|Elwood=2q|Emden=1h|Emington=1g|Emma=2o|Energy=2r|Enfield=2o|Eola=l|Equality=t|Erie=2p|Esmond=j|Essex=19|Eureka=2t|Evanston=f|Evansville=26|Evergreen Park=f|Ewing=r|Fairbury=1g|Fairfield=2n|Fairmount=2j|Fairview=s|Fairview Heights=2e|Farina=p|Farmer City=i|Farmersville=1v|Farmington=s|Fenton=2p|Ferris=x|Fiatt=s|Fidelity=15|Fieldon=15|Fillmore=1v|Findlay=2d|Fisher=9|Fithian=2j|Flanagan=1g|Flat Rock=g|Flora=c|Flossmoor=f|Foosland=9|Forest City=1n|Forest Park=f|Forrest=1g|Forreston=1y|Forsyth=1i|Fort Sheridan=1d|Fowler=0|Fox Lake=1d|Fox River Grove=1q|Fox Valley=l|Frankfort=2q|Frankfort Heights=r|Franklin=1w|Franklin Grove=1f|Franklin Park=f|Frederick=2b|Freeburg=2e|Freeman Spur=2r|Freeport=2g|Fulton=2p|Fults=1u|Galatia=29|Galena=16|Galesburg=1b|Galt=2p|Galva=10|Garden Prairie=3|Gardner=v|Gays=1x|Geff=2n|Geneseo=10|Geneva=18|Genoa=j|Georgetown=2j|Gerlaw=2l|German Valley=2g|Germantown=d|Gibson City=q|Gifford=9|Gilberts=18|Gillespie=1j|Gilman=11|Gilson=1b|Girard=1j|Gladstone=z|Glasford=1z|Glen Carbon=1k|Glen Ellyn=l|Glenarm=2a|Glencoe=f|Glendale Heights=l|Glenview=f|Glenwood=f|Godfrey=1k|Golconda=23|Golden=0|Golden Eagle=6|Golden Gate=2n|Golf=f|Good Hope=1p|Goodfield=2t|Goodwine=11|Goreville=17|Gorham=12|Grafton=15|Grand Chain=24|Grand Ridge=1c|Grand Tower=12|Granite City=1k|Grant Park=19|Grantsburg=17|Granville=25|Graymont=1g|Grayslake=1d|Grayville=2o|Great Lakes=1d|Green Valley=2h|Greenfield=u|Greenup=h|Greenview=1s|Greenville=2|Gridley=1r|Griggsville=22|Groveland=2h|Gurnee=1d|Hagarstown=p|Hamburg=6|Hamel=1k|Hamilton=x|Hammond=21|Hampshire=18|Hampton=28|Hanna City=1z|Hanover=16|Hanover Park=l|Hardin=6|Harmon=1f|Harrisburg=29|Harristown=1i|Hartford=1k|Hartsburg=1h|Harvard=1q|Harvel=1v|Harvey=f|Harwood Heights=f|Havana=1n|Hazel Crest=f|Hebron=1q|Hecker=1u|Henderson=1b|Hennepin=25|Henning=2j|Henry=1m|Herod=23|Herrick=2d|Herrin=2r|Herscher=19|Hettick=1j|Heyworth=1r|Hickory Hills=f|Hidalgo=13|Highland=1k|Highland Park=1d|Highwood=1d|Hillsboro=1v|Hillsdale=28|Hillside=f|Hillview=u|Hinckley=j|Hindsboro=k|Hines=f|Hinsdale=l|Hoffman=d|Hoffman Estates=f|Holcomb=1y|Homer=9|Homer Glen=2q|Hometown=f|Homewood=f|Hoopeston=2j|Hooppole=10|Hopedale=2h|Hopkins Park=19|Hoyleton=2m|Hudson=1r|Huey=d|Hull=22|Humboldt=e|Hume=m|Huntley=1q|Huntsville=2b|Hurst=2r|Hutsonville=g|Illinois City=28|Illiopolis=2a|Ina=14|Indianola=2j|Industry=1p|Ingleside=1d|Ingraham=c|Ipava=s|Iroquois=11|Irving=1v|Irvington=2m|Island Lake=1d|Itasca=l|Iuka=1l|Ivesdale=9|Jacksonville=1w|Jacob=12|Janesville=h|Jerseyville=15|Jewett=h|Johnsonville=2n|Johnston City=2r|Joliet=2q|Jonesboro=2i|Joppa=1o|Joy=1t|Junction=t|Justice=f|Kampsville=6|Kane=u|Kaneville=18|Kankakee=19|Kansas=m|Karbers Ridge=y|Karnak=24|Kasbeer=5|Keenes=2n|Keensburg=2k|Keithsburg=1t|Kell=1l|Kempton=q|Kenilworth=f|Kenney=i|Kent=2g|Kewanee=10|Keyesport=d|Kilbourne=1n|Kincaid=a|Kinderhook=22|Kingston=j|Kingston Mines=1z|Kinmundy=1l|Kinsman=v|Kirkland=j|Kirkwood=2l|Knoxville=1b|La Fayette=2f|La Grange=f|La Grange Park=f|La Harpe=x|La Moille=5|La Place=21|La Prairie=0|La Rose=1m|La Salle=1c|Lacon=1m|Ladd=5|Lafox=18|Lake Bluff=1d|Lake Forest=1d|Lake Fork=1h|Lake In The Hills=1q|Lake Villa=1d|Lake Zurich=1d|Lakewood=2d|Lanark=7|Lancaster=2k|Lane=i|Lansing=f|Latham=1h|Laura=1z|Lawndale=1h|Lawrenceville=1e|Le Roy=1r|Leaf River=1y|Lebanon=2e|Lee=1f|Lee Center=1f|Leland=1c|Lemont=l|Lena=2g|Lenzburg=2e|Leonore=1c|Lerna=e|Lewistown=s|Lexington=1r|Liberty=0|Libertyville=1d|Lima=0|Lincoln=1h|Lincoln\'S New Salem=1s|Lincolnshire=1d|Lincolnwood=f|Lindenwood=1y|Lisle=l|Litchfield=1v|Literberry=1w|Little York=2l|Littleton=2b|Liverpool=s|Livingston=1k|Loami=2a|Lockport=2q|Loda=11|Logan=r|Lomax=z|Lombard=l|London Mills=s|Long Point=1g|Longview=9|Loraine=0|Lostant=1c|Louisville=c|Lovejoy=2e|Loves Park=2s|Lovington=1x|Lowder=2a|Lowpoint=2t|Ludlow=9|Lyndon=2p|Lynn Center=10|Lyons=f|Macedonia=w|Machesney Park=2s|Mackinaw=2h|Macomb=1p|Macon=1i|Madison=1k|Maeystown=1u|Magnolia=25|Mahomet=9|Makanda=12|Malden=5|Malta=j|Manchester=2c|Manhattan=2q|Manito=1n|Manlius=5|Mansfield=21|Manteno=19|Maple Park=18|Mapleton=1z|Maquon=1b|Marengo=1q|Marietta=s|Marine=1k|Marion=2r|Marissa=2e|Mark=25|Markham=2q|Maroa=1i|Marseilles=1c|Marshall=b|Martinsville=b|Martinton=11|Maryville=1k|Mascoutah=2e|Mason=o|Mason City=1n|Matherville=1t|Matteson=f|Mattoon=e|Maunie=2o|Maywood=f|Mazon=v|Mc Clure=1|Mc Connell=2g|Mc Lean=1r|Mc Leansboro=w|Mc Nabb=25|Mchenry=1q|Mechanicsburg=2a|Media=z|Medinah=l|Medora=15|Melrose Park=f|Melvin=q|Menard=26|Mendon=0|Mendota=1c|Meredosia=1w|Merna=1r|Metamora=2t|Metcalf=m|Metropolis=1o|Michael=6|Middletown=1h|Midlothian=f|Milan=28|Milford=11|Mill Shoals=2o|Millbrook=1a|Millcreek=2i|Milledgeville=7|Miller City=1|Millington=1a|Millstadt=2e|Milmine=21|Milton=22|Mineral=5|Minier=2h|Minonk=2t|Minooka=v|Mode=2d|Modesto=1j|Modoc=26|Mokena=2q|Moline=28|Momence=19|Monee=2q|Monmouth=2l|Monroe Center=1y|Montgomery=1a|Monticello=21|Montrose=o|Mooseheart=18|Moro=1k|Morris=v|Morrison=2p|Morrisonville=a|Morton=2h|Morton Grove=f|Mossville=1z|Mound City=24|Mounds=24|Mount Auburn=a|Mount Carmel=2k|Mount Carroll=7|Mount Erie=2n|Mount Morris=1y|Mount Olive=1j|Mount Prospect=f|Mount Pulaski=1h|Mount Sterling=4|Mount Vernon=14|Moweaqua=2d|Mozier=6|Mt Zion=1i|Muddy=29|Mulberry Grove=2|Mulkeytown=r|Muncie=2j|Mundelein=1d|Murdock=k|Murphysboro=12|Murrayville=1w|Nachusa=1f|Naperville=l|Nashville=2m|Nason=14|National Stock Yards=2e|Nauvoo=x|Nebo=22|Neoga=h|Neponset=5|New Athens=2e|New Baden=d|New Bedford=5|New Berlin=2a|New Boston=1t|New Burnside=17|New Canton=22|New Douglas=1k|New Haven=t|New Holland=1h|New Lenox=2q|New Memphis=d|New Salem=22|New Windsor=1t|Newark=1a|Newman=k|Newton=13|Niantic=1i|Niles=f|Nilwood=1j|Niota=x|Noble=27|Nokomis=1v|Nora=16|Normal=1r|Norris=s|Norris City=2o|North Aurora=18|North Chicago=1d|North Henderson=1t|Northbrook=f|O Fallon=2e|Oak Brook=l|Oak Forest=f|Oak Lawn=f|Oak Park=f|Oakdale=2m|Oakford=1s|Oakland=e|Oakwood=2j|Oblong=g|Oconee=2d|Odell=1g|Odin=1l|Ogden=9|Oglesby=1c|Ohio=5|Ohlman=1v|Okawville=2m|Olive Branch=1|Olmsted=24|Olney=27|Olympia Fields=f|Omaha=t|Onarga=11|Oneida=1b|Opdyke=14|Ophiem=10|Oquawka=z|Orangeville=2g|Oraville=12|Oreana=1i|Oregon=1y|Orient=r|Orion=10|Orland Park=f|Osco=10|Oswego=1a|Ottawa=1c|Owaneco=a|Ozark=17|Palatine=f|Palestine=g|Palmer=a|Palmyra=1j|Paloma=0|Palos Heights=f|Palos Hills=f|Palos Park=f|Pana=a|Panama=1v|Papineau=11|Paris=m|Park Forest=f|Park Ridge=f|Parkersburg=27|Patoka=1l|Patterson=u|Paw Paw=1f|Pawnee=2a|Paxton=q|Payson=0|Pearl=22|Pearl City=2g|Pecatonica=2s|Pekin=2h|Pembroke Township=19|Penfield=9|Peoria=1z|Peoria Heights=1z|Peotone=2q|Percy=26|Perks=24|Perry=22|Peru=1c|Pesotum=9|Petersburg=1s|Philo=9|Piasa=1j|Pierron=2|Pinckneyville=20|Piper City=q|Pittsburg=2r|Pittsfield=22|Plainfield=2q|Plainville=0|Plano=1a|Pleasant Hill=22|Pleasant Plains=2a|Plymouth=x|Pocahontas=2|Polo=1y|Pomona=12|Pontiac=1g|Poplar Grove=3|Port Byron=28|Posen=f|Potomac=2j|Prairie City=1p|Prairie Du Rocher=26|Preemption=1t|Princeton=5|Princeville=2f|Prophetstown=2p|Prospect Heights=f|Pulaski=24|Putnam=25|Quincy=0|Radom=2m|Raleigh=29|Ramsey=p|Rankin=2j|Ransom=1c|Rantoul=9|Rapids City=28|Raritan=z|Raymond=1v|Red Bud=26|Reddick=19|Redmon=m|Renault=1u|Reynolds=28|Richmond=1q|Richton Park=f|Richview=2m|Ridge Farm=2j|Ridgway=t|Ridott=2g|Rinard=2n|Ringwood=1q|Rio=1b|River Forest=f|River Grove=f|Riverdale=f|Riverside=f|Riverton=2a|Roanoke=2t|Robbins=f|Roberts=q|Robinson=g|Rochelle=1y|Rochester=2a|Rock City=2g|Rock Falls=2p|Rock Island=28|Rockbridge=u|Rockford=2s|Rockport=22|Rockton=2s|Rockwood=26|Rolling Meadows=f|Rome=1z|Romeoville=2q|Roodhouse=u|Rosamond=a|Roscoe=2s|Roselle=l|Roseville=2l|Rosiclare=y|Rossville=2j|Round Lake=1d|Roxana=1k|Royal=9|Royalton=r|Rushville=2b|Russell=1d|Rutland=1c|Sadorus=9|Sailor Springs=c|Saint Anne=19|Saint Augustine=1b|Saint Charles=18|Saint David=s|Saint Elmo=p|Saint Francisville=1e|Saint Jacob=1k|Saint Joseph=9|Saint Libory=2e|Saint Peter=p|Sainte Marie=13|Salem=1l|San Jose=1n|Sandoval=1l|Sandwich=j|Saunemin=1g|Savanna=7|Savoy=9|Sawyerville=1j|Saybrook=1r|Scales Mound=16|Schaumburg=f|Scheller=14|Schiller Park=f|Sciota=1p|Scott Air Force Base=2e|Scottville=1j|Seaton=1t|Seatonville=5|Secor=2t|Seneca=1c|Serena=1c|Sesser=r|Seward=2s|Seymour=9|Shabbona=j|Shannon=7|Shawneetown=t|Sheffield=5|Shelbyville=2d|Sheldon=11|Sheridan=1c|Sherman=2a|Sherrard=1t|Shipman=1j|Shirland=2s|Shirley=1r|Shobonier=p|Shorewood=2q|Shumway=o|Sibley=q|Sidell=2j|Sidney=9|Sigel=2d|Silvis=28|Simpson=17|Sims=2n|Skokie=f|Smithboro=2|Smithfield=s|Smithshire=2l|Smithton=2e|Somonauk=j|Sorento=2|South Beloit=2s|South Elgin=18|South Holland=f|South Pekin=2h|South Roxana=1k|South Wilmington=v|Sparland=1m|Sparta=26|Speer=2f|Spring Grove=1q|Spring Valley=5|Springerton=2o|Springfield=2a|Standard=25|Stanford=1r|Staunton=1j|Steeleville=26|Steger=f|Sterling=2p|Steward=1f|Stewardson=2d|Stillman Valley=1y|Stockland=11|Stockton=16|Stone Park=f|Stonefort=29|Stonington=a|Stoy=g|Strasburg=2d|Strawn=1g|Streamwood=f|Streator=1c|Stronghurst=z|Sublette=1f|Sugar Grove=18|Sullivan=1x|Summerfield=2e|Summit Argo=f|Sumner=1e|Sutter=x|Sycamore=j|Table Grove=s|Tallula=1s|Tamaroa=20|Tamms=1|Tampico=2p|Taylor Ridge=28|Taylor Springs=1v|Taylorville=a|Techny=f|Tennessee=1p|Teutopolis=o|Texico=14|Thawville=11|Thayer=2a|Thebes=1|Thomasboro=9|Thompsonville=r|Thomson=7|Thornton=f|Tilden=26|Tilton=2j|Timewell=4|Tinley Park=f|Tiskilwa=5|Toledo=h|Tolono=9|Toluca=1m|Tonica=1c|Topeka=1n|Toulon=2f|Tovey=a|Towanda=1r|Tower Hill=2d|Tremont=2h|Trenton=d|Trilla=e|Triumph=1c|Trivoli=1z|Troy=1k|Troy Grove=1c|Tuscola=k|Ullin=24|Union=1q|Union Hill=19|Unity=1|University Park=2q|Urbana=9|Ursa=0|Utica=1c|Valier=r|Valmeyer=1u|Van Orin=5|Vandalia=p|Varna=1m|Venice=1k|Vergennes=12|Vermilion=m|Vermont=s|Vernon=1l|Vernon Hills=1d|Verona=v|Versailles=4|Victoria=1b|Vienna=17|Villa Grove=k|Villa Park=l|Villa Ridge=24|Viola=1t|Virden=1j|Virginia=8|Wadsworth=1d|Waggoner=1v|Walnut=5|Walnut Hill=1l|Walsh=26|Walshville=1v|Waltonville=14|Wapella=i|Warren=16|Warrensburg=1i|Warrenville=l|Warsaw=x|Wasco=18|Washburn=1m|Washington=2h|Wataga=1b|Waterloo=1u|Waterman=j|Watseka=11|Watson=o|Wauconda=1d|Waukegan=1d|Waverly=1w|Wayne=l|Wayne City=2n|Waynesville=i|Wedron=1c|Weldon=i|Wellington=11|Wenona=1m|West Brooklyn=1f|West Chicago=l|West Frankfort=r|West Liberty=13|West Point=x|West Salem=n|West Union=b|West York=g|Westchester=f|Western Springs=f|Westfield=b|Westmont=l|Westville=2j|Wheaton=l|Wheeler=13|Wheeling=f|White Hall=u|White Heath=21|Whittington=r|Williamsfield=1b|Williamsville=2a|Willisville=20|Willow Hill=13|Willow Springs=f|Willowbrook=l|Wilmette=f|Wilmington=2q|Wilsonville=1j|Winchester=2c|Windsor=2d|Winfield=l|Winnebago=2s|Winnetka=f|Winslow=2g|Winthrop Harbor=1d|Witt=1v|Wolf Lake=2i|Wonder Lake=1q|Wood Dale=l|Wood River=1k|Woodhull=10|Woodland=11|Woodlawn=14|Woodridge=l|Woodson=1w|Woodstock=1q|Woosung=1y|Worden=1k|Worth=f|Wrights=u|Wyanet=5|Wyoming=2f|Xenia=c|Yale=13|Yates City=1b|Yorkville=1a|Zeigler=r|Zion=1d'
+  },
+  IN: {
+    counties: 'Adams|Allen|Bartholomew|Benton|Blackford|Boone|Brown|Carroll|Cass|Clark|Clay|Clinton|Crawford|Daviess|DeKalb|Dearborn|Decatur|Delaware|Dubois|Elkhart|Fayette|Floyd|Fountain|Franklin|Fulton|Gibson|Grant|Greene|Hamilton|Hancock|Harrison|Hendricks|Henry|Howard|Huntington|Jackson|Jasper|Jay|Jefferson|Jennings|Johnson|Knox|Kosciusko|LaGrange|LaPorte|Lake|Lawrence|Madison|Marion|Marshall|Martin|Miami|Monroe|Montgomery|Morgan|Newton|Noble|Ohio|Orange|Owen|Parke|Perry|Pike|Porter|Posey|Pulaski|Putnam|Randolph|Ripley|Rush|Scott|Shelby|Spencer|St. Joseph|Starke|Steuben|Sullivan|Switzerland|Tippecanoe|Tipton|Union|Vanderburgh|Vermillion|Vigo|Wabash|Warren|Warrick|Washington|Wayne|Wells|White|Whitley',
+    zips: 'zht:1b,a,1,1,1,1,1,1,1,c:s,1,1,1,1,1:b,1:1b,1:s,1,1:b,1:t,1:b,3:1b,1:27,2,1:1b,1:27,1:b,1:1b,1:5,3:t,1:1b,1:b,1,2:s,1,1,1:1b,1,1:b,2,1:27,1:s,1:1b,1:5,1:27,2:s,1:5,1:27,1:5,5:s,3,h:5,1:v,1:1x,1:1u,1:14,1:1c,3:1z,1:1i,1:v,1:1c,2:1x,2:t,1:v,2:1u,1:v,1,1,1:14,1:1i,1:1z,1:1x,1:1u,1:t,1:1z,1:14,2:k,2:1u,5:t,2:14,1,1:1z,2:1x,1:5,1:w,1:v,1:1x,1:1i,3:t,1:1x,1,1:1i,1,2:6,1:1z,1:14,1:t,1:14,1:v,1:1i,1:v,1,2:1u,1,1,1:1x,2:1u,1:1z,4:v,1:14,1:1z,1:1c,1:14,2:t,f:1c,1,1,1,1,1,1,1,1,2,2,1,2,1,1,1,1,1,1,2,1,1,1,1,1,1,1,3,1,1,1,2,1,1,1,2,3,2,1,1,2,1,1,1,3,1,2:s,4:1c,2,6,1,2,1,2:s,2:1c,1,2,3:s,2,1:1c,4,1,2,3:1r,1,1:19,1:1r,3:19,1,2:10,1:19,1,7,1,1,1,1,1,1,2,d:18,1:1r,1:19,3:18,1,1:1r,1:18,1:1j,1:18,2,3:19,1,4:18,1,4,1:22,2:1r,3:18,1:1j,1:19,1:22,1:19,1,1,2:1j,1:10,1:1j,1:18,1:1r,1,1,5:18,1,1:10,1:1r,1:19,7,1,1,1,1,1,1,1,1,1,1,2i:1d,1:16,2:1d,2,1:j,1:16,2,1:1d,2,1:j,1,1,1,7:16,2:j,1,1,2:21,1:22,1,2,2:21,1:1d,1:16,1,1:j,2:16,1:j,1:21,1,1,4:j,2:21,1:j,1:21,1:16,1:21,5,1:16,1:1d,2:17,2:16,3:1d,1:17,1:1d,1:j,1:21,6:16,1,1,8,5:21,6,c,1,1,1,1,2,5,2,2,6,1,2,n,k,j,2:1k,1:y,1:23,1:1,1:e,1,4:1k,1:0,2:y,1:2h,7:e,2:2j,2,5:e,1:2h,1:1k,1:0,4:23,1:e,2:0,1:1,1:23,1:1,2,1:17,1:23,1:1,2:y,5:1k,4:2h,1:1k,1:17,2:1k,1:2j,1:1,1:2h,1:1k,2:0,1:y,1:17,1:0,1:1,1,2:23,1:2h,1,1:23,1:0,1:2h,1:0,1:y,1:1k,1:e,1:17,1:2j,1:e,1:17,2:2h,1:y,1:e,1:1k,1:17,1:1k,1:1,1,1,2,1,1,1,1,1,1,1,1,5,1,1,2,1,6,a,a,5,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,g,a,1,1,1,1,2:x,1,1,1,6:o,1:1f,1:o,1:7,1:1f,1:7,1,1,2:1f,1:7,1:1f,1:o,1:7,3:1f,2:q,1:7,1:q,1:o,1:8,1:q,2:o,1:x,1,1:q,1:o,1:2c,1,1:8,1:2c,2:o,1:2c,1:8,3,1:1f,1:q,1,4,1:1f,1,1:1t,1:8,1:2c,3:x,2:8,1:22,2:1f,1,3:2c,1:o,2:7,1:8,1:x,1:2c,2:16,2:2c,1:1t,1:q,1,1:8,1:q,1:2c,1:q,1:2c,2:8,1:x,1:1t,2:8,3:f,2:n,3:1w,4:n,1:25,1:n,4,1:1w,1:f,1:25,1,1:1w,1:f,1:1w,1:n,1:f,5:n,1:1w,1:f,1:1w,1,1:n,1,1:1w,1:25,1:1w,1:1l,1:1w,1,1:25,h:f,16:1y,2:9,2,1:u,1:2f,2:u,1:9,1:u,2,1,1:c,1:u,1:c,1:l,1:2f,2:l,1:c,1:l,1:2f,1:9,3,1,1,1,1,1,1:u,1,1:c,1:1y,2:c,1:9,1:u,1:9,1,1:c,1:l,1:9,3:l,1,9:u,1,1:9,1,1:u,1:2f,1:u,1:2f,3:1y,2:9,2:c,1,2:9,d,9,2:2,1,1,h:z,3:13,1:12,1:g,1:2,1:13,1:z,1,1:12,1,1:2,2:1z,1:z,1:2,4:g,3:12,1:2,1:13,1:2,1,2:z,1:12,a:z,1:g,2,1:z,1:13,5,2:g,1:13,1:z,6:2,1:z,1:13,1:g,j:h,1,1,1,1,1,1,c,2:k,2:2g,1:28,1:11,1:2g,3,1:k,3:h,1:2g,1:11,1:w,1:h,1:2g,1:1v,1:2g,1:h,2:w,1:2g,1,2:4,3:w,1,1:28,1:1v,1,1:w,1:2g,1:1v,1:4,1:w,1,1,4,1:h,1:1v,1:11,1:2g,1:11,2,1:2g,1,5:1v,1:11,1:1v,1:h,1:w,1,1,1,1,2:1v,2:2g,1,1:1v,2:h,5:1g,1,1,1,1,1,1,1,c:1a,1,3:r,2:1g,1:1n,2:1g,2:1n,1:1m,1:1n,1:1g,1:6,1:1a,1,1:r,1,2,2,2,1:1a,2:6,1:r,2:1a,1:1m,1:r,1:1m,1:1n,1,1:r,1:1g,1:r,1:1n,2:1a,1:1g,1,1:r,2:1a,1:1g,1:1m,1:1a,1:r,u:d,b:15,1:i,1:1p,1,1:15,3:d,1:1p,1:i,1:1e,1:20,1:15,1:1p,2:i,1:15,1:d,2:20,1:i,3:15,1:20,1,4:i,1,3,1,1,2,1:20,1:1p,1:20,1:1e,3:20,1:15,1:d,3:15,1:d,2:1q,3,1:d,5:15,1:1p,1:i,1:1p,1:20,1:15,1:20,1:i,1:1e,3:1q,1,1:1p,2:20,2:1q,1:15,5,1,1:1q,3:2e,9,1:20,1:1s,1:2e,2:20,1:1s,1:20,1:29,1:2e,1:1s,9:2e,1,1:1s,2,1:20,1,2:2e,1:1s,1:p,1,7,1,1,5,6,5,1,4,d,i:29,1,1,1,1,1,2,2,1,1,1,1,1,1,3,1,1,1,2,1,3,2,1,1,1,1,1,1,1,3,7,3,1f:2b,1,1,1,1,2,1,1,l:1o,1:2a,1:1o,1:a,1,2:1o,1:a,1:24,2:a,1,1:2a,3:a,1,1:2a,1:24,1,1,1:2b,1:24,1:a,1:2a,1:24,2:a,1:2b,1:1o,1,1:24,1:1o,1:2b,2:24,1:2b,2:a,1:2b,1,1,1:1o,2,1:2a,1:2b,2,1:24,1:2b,1:a,1:24,2:2a,1:2b,g:26,1,1,1,1,1,1,2,7:1h,1:3,1:m,2:26,1:3,1:1j,1:2i,1:26,1:2i,1,2:2a,1:2i,1:26,2:m,1:1h,7,1:26,1:3,1:10,1:3,2:1t,2:1j,1:m,1:2i,1:1j,1:m,2:1h,1,2:1t,1:m,1:2i,1,2:26,1:1j,1,1:1h,1:2a,1:1h,1,1:m,1:3,1,3:2a,1:2d,2:10,1,2:2i,1:26,1:2d,1:26,1:3,2,1:m,1,1:1h,1,1:2d,1:26,1:2d,1:1h,1:2i,1:26,1:7',
+    cities: 'Advance=5|Akron=o|Alamo=1h|Albany=h|Albion=1k|Alexandria=1b|Ambia=3|Amboy=1f|Amo=v|Anderson=1b|Andrews=y|Angola=23|Arcadia=s|Arcola=1|Argos=1d|Arlington=1x|Ashley=e|Athens=o|Atlanta=s|Attica=m|Atwood=16|Auburn=e|Aurora=f|Austin=1y|Avilla=1k|Avoca=1a|Avon=v|Bainbridge=1u|Bargersville=14|Batesville=1w|Bath=n|Battle Ground=26|Bedford=1a|Beech Grove=1c|Bellmore=1o|Bennington=25|Bentonville=k|Berne=0|Bethlehem=9|Beverly Shores=1r|Bicknell=15|Bippus=y|Birdseye=i|Blanford=2a|Bloomfield=r|Bloomingdale=1o|Bloomington=1g|Bluffton=2h|Boggstown=1z|Boone Grove=1r|Boonville=2e|Borden=9|Boston=2g|Boswell=3|Bourbon=1d|Bowling Green=a|Bradford=u|Branchville=1p|Brazil=a|Bremen=1d|Bridgeton=1o|Bringhurst=7|Bristol=j|Bristow=1p|Brook=1j|Brooklyn=1i|Brookston=2i|Brookville=n|Brownsburg=v|Brownstown=z|Brownsville=28|Bruceville=15|Bryant=11|Buck Creek=26|Buckskin=p|Buffalo=2i|Bunker Hill=1f|Burket=16|Burlington=7|Burnettsville=2i|Burrows=7|Butler=e|Butlerville=13|Cambridge City=2g|Camby=1c|Camden=7|Campbellsburg=2f|Canaan=12|Cannelburg=d|Cannelton=1p|Carbon=a|Carlisle=24|Carmel=s|Carthage=1x|Cayuga=2a|Cedar Grove=n|Cedar Lake=19|Celestine=i|Centerpoint=a|Centerville=2g|Central=u|Chalmers=2i|Chandler=2e|Charlestown=9|Charlottesville=t|Chesterton=1r|Chrisney=20|Churubusco=2j|Cicero=s|Clarks Hill=26|Clarksburg=g|Clarksville=9|Clay City=a|Claypool=16|Clayton=v|Clear Creek=1g|Clifford=2|Clinton=2a|Cloverdale=1u|Coal City=1n|Coalmont=a|Coatesville=v|Colfax=b|Columbia City=2j|Columbus=2|Commiskey=13|Connersville=k|Converse=1f|Cortland=z|Corunna=e|Cory=a|Corydon=u|Covington=m|Craigville=2h|Crandall=u|Crane=1e|Crawfordsville=1h|Cromwell=1k|Cross Plains=1w|Crothersville=z|Crown Point=19|Culver=1d|Cutler=7|Cynthiana=1s|Dale=20|Daleville=h|Dana=2a|Danville=v|Darlington=1h|Dayton=26|Decatur=0|Decker=15|Deedsville=1f|Delong=o|Delphi=7|Demotte=10|Denver=1f|Depauw=u|Deputy=12|Derby=1p|Dillsboro=f|Donaldson=1d|Dublin=2g|Dubois=i|Dugger=24|Dunkirk=11|Dunreith=w|Dupont=12|Dyer=19|Earl Park=3|East Chicago=19|East Enterprise=25|Eaton=h|Eckerty=c|Economy=2g|Edinburgh=14|Edwardsport=15|Elberfeld=2e|Elizabeth=u|Elizabethtown=2|Elkhart=j|Ellettsville=1g|Elnora=d|Elwood=1b|Eminence=1i|English=c|Etna Green=16|Evanston=20|Evansville=29|Fair Oaks=10|Fairbanks=24|Fairland=1z|Fairmount=q|Falmouth=1x|Farmersburg=24|Farmland=1v|Ferdinand=i|Fillmore=1u|Finly=t|Fishers=s|Flat Rock=1z|Flora=7|Florence=25|Floyds Knobs=l|Fontanet=2b|Forest=b|Fort Branch=p|Fort Wayne=1|Fortville=t|Fountain City=2g|Fountaintown=1z|Fowler=3|Fowlerton=q|Francesville=1t|Francisco=p|Frankfort=b|Franklin=14|Frankton=1b|Fredericksburg=2f|Freedom=1n|Freelandville=15|Freetown=z|Fremont=23|French Lick=1m|Friendship=1w|Fulda=20|Fulton=o|Galveston=8|Garrett=e|Gary=19|Gas City=q|Gaston=h|Geneva=0|Gentryville=20|Georgetown=l|Glenwood=k|Goldsmith=27|Goodland=1j|Goshen=j|Gosport=1n|Grabill=1|Grammer=2|Grandview=20|Granger=21|Grantsburg=c|Grass Creek=o|Graysville=24|Greencastle=1u|Greenfield=t|Greens Fork=2g|Greensboro=w|Greensburg=g|Greentown=x|Greenville=l|Greenwood=14|Griffin=1s|Griffith=19|Grissom Arb=1f|Grovertown=22|Guilford=f|Gwynneville=1z|Hagerstown=2g|Hamilton=23|Hamlet=22|Hammond=19|Hanna=18|Hanover=12|Hardinsburg=2f|Harlan=1|Harmony=a|Harrodsburg=1g|Hartford City=4|Hartsville=2|Hatfield=20|Haubstadt=p|Hayden=13|Hazleton=p|Hebron=1r|Helmsburg=6|Heltonville=1a|Hemlock=x|Henryville=9|Highland=19|Hillsboro=m|Hillsdale=2a|Hoagland=1|Hobart=19|Hobbs=27|Holland=i|Holton=1w|Homer=1x|Hope=2|Howe=17|Hudson=23|Huntertown=1|Huntingburg=i|Huntington=y|Huron=1a|Hymera=24|Idaville=2i|Indianapolis=1c|Ingalls=1b|Inglefield=29|Ireland=i|Jamestown=5|Jasonville=r|Jasper=i|Jeffersonville=9|Jonesboro=q|Jonesville=2|Kempton=27|Kendallville=1k|Kennard=w|Kentland=1j|Kewanna=o|Keystone=2h|Kimmell=1k|Kingman=m|Kingsbury=18|Kingsford Heights=18|Kirklin=b|Knightstown=w|Knightsville=a|Knox=22|Kokomo=x|Koleen=r|Kouts=1r|Kurtz=z|La Crosse=18|La Fontaine=2c|La Porte=18|Laconia=u|Ladoga=1h|Lafayette=26|Lagrange=17|Lagro=2c|Lake Cicott=8|Lake Station=19|Lake Village=1j|Laketon=2c|Lakeville=21|Lamar=20|Lanesville=u|Laotto=1k|Lapaz=1d|Lapel=1b|Larwill=2j|Laurel=n|Lawrenceburg=f|Leavenworth=c|Lebanon=5|Leesburg=16|Leiters Ford=o|Leo=1|Leopold=1p|Leroy=19|Lewis=2b|Lewisville=w|Lexington=1y|Liberty=28|Liberty Center=2h|Liberty Mills=2c|Ligonier=1k|Lincoln City=20|Linden=1h|Linn Grove=0|Linton=r|Lizton=v|Logansport=8|Loogootee=1e|Losantville=1v|Lowell=19|Lucerne=8|Lynn=1v|Lynnville=2e|Lyons=r|Mackey=p|Macy=1f|Madison=12|Manilla=1x|Marengo=c|Mariah Hill=20|Marion=q|Markle=y|Markleville=1b|Marshall=1o|Martinsville=1i|Marysville=9|Matthews=q|Mauckport=u|Maxwell=t|Mays=1x|Mccordsville=t|Mecca=1o|Medaryville=1t|Medora=z|Mellott=m|Memphis=9|Mentone=16|Merom=24|Merrillville=19|Metamora=n|Mexico=1f|Miami=1f|Michigan City=18|Michigantown=b|Middlebury=j|Middletown=w|Midland=r|Milan=1w|Milford=16|Mill Creek=18|Millersburg=j|Millhousen=g|Milltown=c|Milroy=1x|Milton=2g|Mishawaka=21|Mitchell=1a|Modoc=1v|Mongo=17|Monon=2i|Monroe=0|Monroe City=15|Monroeville=1|Monrovia=1i|Monterey=1t|Montezuma=1o|Montgomery=d|Monticello=2i|Montmorenci=26|Montpelier=4|Mooreland=w|Moores Hill=f|Mooresville=1i|Morgantown=6|Morocco=1j|Morris=1w|Morristown=1z|Mount Ayr=1j|Mount Saint Francis=l|Mount Summit=w|Mount Vernon=1s|Mulberry=b|Muncie=h|Munster=19|Nabb=9|Napoleon=1w|Nappanee=j|Nashville=6|Needham=14|New Albany=l|New Carlisle=21|New Castle=w|New Goshen=2b|New Harmony=1s|New Haven=1|New Lisbon=w|New Market=1h|New Middletown=u|New Palestine=t|New Paris=j|New Point=g|New Richmond=1h|New Ross=1h|New Salisbury=u|New Trenton=n|New Washington=9|New Waverly=8|Newberry=r|Newburgh=2e|Newport=2a|Newtown=m|Nineveh=14|Noblesville=s|Norman=z|North Judson=22|North Liberty=21|North Manchester=2c|North Salem=v|North Vernon=13|North Webster=16|Notre Dame=21|Oakford=x|Oakland City=p|Oaktown=15|Oakville=h|Odon=d|Oldenburg=n|Onward=8|Oolitic=1a|Ora=22|Orestes=1b|Orland=23|Orleans=1m|Osceola=21|Osgood=1w|Ossian=2h|Otisco=9|Otterbein=3|Otwell=1q|Owensburg=r|Owensville=p|Oxford=3|Palmyra=u|Paoli=1m|Paragon=1i|Paris Crossing=13|Parker City=1v|Patoka=p|Patricksburg=1n|Patriot=25|Paxton=24|Pekin=2f|Pendleton=1b|Pennville=11|Perrysville=2a|Pershing=2g|Peru=1f|Petersburg=1q|Petroleum=2h|Pierceton=16|Pierceville=1w|Pimento=2b|Pine Village=2d|Pittsboro=v|Plainfield=v|Plainville=d|Pleasant Lake=23|Pleasant Mills=0|Plymouth=1d|Poland=a|Poneto=2h|Portage=1r|Portland=11|Poseyville=1s|Prairie Creek=2b|Prairieton=2b|Preble=0|Princeton=p|Putnamville=1u|Quincy=1n|Ragsdale=15|Ramsey=u|Redkey=11|Reelsville=1u|Remington=10|Rensselaer=10|Reynolds=2i|Richland=20|Richmond=2g|Ridgeville=1v|Riley=2b|Rising Sun=1l|Roachdale=1u|Roann=2c|Roanoke=y|Rochester=o|Rockfield=7|Rockport=20|Rockville=1o|Rolling Prairie=18|Rome=1p|Rome City=1k|Romney=26|Rosedale=1o|Roselawn=1j|Rossville=b|Royal Center=8|Rushville=1x|Russellville=1u|Russiaville=x|Saint Anthony=i|Saint Bernice=2a|Saint Croix=1p|Saint Joe=e|Saint John=19|Saint Mary Of The Woods=2b|Saint Meinrad=20|Saint Paul=g|Salamonia=11|Salem=2f|San Pierre=22|Sandborn=15|Santa Claus=20|Saratoga=1v|Schererville=19|Schneider=19|Schnellville=i|Scipio=13|Scotland=r|Scottsburg=1y|Sedalia=b|Seelyville=2b|Sellersburg=9|Selma=h|Servia=2c|Seymour=z|Sharpsville=27|Shelburn=24|Shelby=19|Shelbyville=1z|Shepardsville=2b|Sheridan=s|Shipshewana=17|Shirley=w|Shoals=1e|Silver Lake=16|Smithville=1g|Solsberry=r|Somerset=2c|Somerville=p|South Bend=21|South Milford=17|South Whitley=2j|Spencer=1n|Spencerville=e|Spiceland=w|Springport=w|Springville=1a|Spurgeon=1q|Stanford=1g|Star City=1t|State Line=2d|Staunton=a|Stendal=1q|Stilesville=v|Stinesville=1g|Stockwell=26|Straughn=w|Stroh=17|Sullivan=24|Sulphur=c|Sulphur Springs=w|Sumava Resorts=1j|Summitville=1b|Sunman=1w|Swayzee=q|Sweetser=q|Switz City=r|Syracuse=16|Talbot=3|Taswell=c|Taylorsville=2|Tefft=10|Tell City=1p|Templeton=3|Tennyson=2e|Terre Haute=2b|Thayer=1j|Thorntown=5|Tippecanoe=1d|Tipton=27|Topeka=17|Trafalgar=14|Troy=20|Tunnelton=1a|Twelve Mile=8|Tyner=1d|Underwood=9|Union City=1v|Union Mills=18|Uniondale=2h|Unionville=1g|Universal=2a|Upland=q|Urbana=2c|Vallonia=z|Valparaiso=1r|Van Buren=q|Veedersburg=m|Velpen=1q|Vernon=13|Versailles=1w|Vevay=25|Vincennes=15|Wabash=2c|Wadesville=1s|Wakarusa=j|Waldron=1z|Walkerton=21|Wallace=m|Walton=8|Wanatah=18|Warren=y|Warsaw=16|Washington=d|Waterloo=e|Waveland=1h|Wawaka=1k|Waynetown=1h|Webster=2g|West Baden Springs=1m|West College Corner=n|West Harrison=f|West Lafayette=26|West Lebanon=2d|West Middleton=x|West Newton=1c|West Terre Haute=2b|Westfield=s|Westphalia=15|Westpoint=26|Westport=g|Westville=18|Wheatfield=10|Wheatland=15|Wheeler=1r|Whiteland=14|Whitestown=5|Whiting=19|Wilkinson=t|Williams=1a|Williamsburg=2g|Williamsport=2d|Winamac=1t|Winchester=1v|Windfall=27|Wingate=1h|Winona Lake=16|Winslow=1q|Wolcott=2i|Wolcottville=17|Wolflake=1k|Woodburn=1|Worthington=r|Wyatt=21|Yeoman=7|Yoder=1|Yorktown=h|Young America=8|Zanesville=1|Zionsville=5'
+  },
+  KS: {
+    counties: 'Allen|Anderson|Atchison|Barber|Barton|Bourbon|Brown|Butler|Chase|Chautauqua|Cherokee|Cheyenne|Clark|Clay|Cloud|Coffey|Comanche|Cowley|Crawford|Decatur|Dickinson|Doniphan|Douglas|Edwards|Elk|Ellis|Ellsworth|Finney|Ford|Franklin|Geary|Gove|Graham|Grant|Gray|Greeley|Greenwood|Hamilton|Harper|Harvey|Haskell|Hodgeman|Jackson|Jefferson|Jewell|Johnson|Kearny|Kingman|Kiowa|Labette|Lane|Leavenworth|Lincoln|Linn|Logan|Lyon|Marion|Marshall|McPherson|Meade|Miami|Mitchell|Montgomery|Morris|Morton|Nemaha|Neosho|Ness|Norton|Osage|Osborne|Ottawa|Pawnee|Phillips|Pottawatomie|Pratt|Rawlins|Reno|Republic|Rice|Riley|Rooks|Rush|Russell|Saline|Scott|Sedgwick|Seward|Shawnee|Sheridan|Sherman|Smith|Stafford|Stanton|Stevens|Sumner|Thomas|Trego|Wabaunsee|Wallace|Washington|Wichita|Wilson|Woodson|Wyandotte',
+    zips: '1exe:2,4:m,1:1f,1:l,2:1h,2:2w,1:1o,1:1h,1:1,1:2,1:l,1:19,2:1f,1:19,2:2,1:l,1:m,1:1o,1:1f,3:19,1,1:1,1,2:l,1:1o,3:1,1:1h,1:2,1:t,1:1f,1:m,1,1,1,1:1f,1:m,1,1:19,1:1f,1:1o,1:17,2:1h,2:2,2:17,1:19,1,1,1:1o,2:17,1:t,3:17,1:1o,1:1h,1:17,2:1h,1:t,2,1,1,3:19,2,1:1f,1:l,1:17,2:l,1:1,1:t,1:1,1:l,1:t,2:17,4:2w,1,1,1,1,1,3,1,1,1,1,2,2,1,1,15,15:19,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,n,1,p,6,1,2,1,37:2q,1:2g,1:1l,1:1t,2:1l,1:22,1:1t,1:2g,2:1l,1,1:1x,1,1:1t,1:16,1:1t,1:16,1,1:2g,2:22,1:2q,1:6,1,1:22,1:1l,1:1t,1:17,2:2q,1:22,2:6,2:16,2:1l,1:6,1:16,1:u,1,7:28,2:1x,1e:2q,1:28,1,2,1,1:2q,1:1l,1:16,1:1x,2:17,2:u,1:6,1:16,1:28,1:1l,2:22,1,1:1t,1:1x,1,2:2q,1:6,1:1x,3:28,1:6,1:2g,1:1t,1:22,1,1:1x,1:1t,1:2g,1:16,1:1l,1:2g,1:1x,1:1l,2:2g,1:22,1:1l,1:22,1:1t,2:16,2:28,1b:2g,2,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,2,1,1,3,1,6,b,k,8,8,g,2:5,9:2u,1:i,1,1:a,1:2u,2:5,1:2u,3:1u,4:i,1:a,3,4:0,1:1u,1:i,1,1:2u,2:5,1:a,1:1u,1:5,1:0,1:i,3,2:0,1,2,2:i,1:5,1:0,1:i,1:2u,1:2v,1:2u,1:i,1:2v,1:i,1,4:1h,2:5,1:a,1:1u,1:0,1:a,2:1u,1,1:2v,1:a,1:5,1:i,1:a,1,1:2v,i:1j,t,3,1:2q,1:1j,3:1r,1:f,1:1k,2:7,1:8,2,1:1r,3,1:8,1:1k,1:f,1:10,1:1j,1:10,1:f,1,1:1k,1,1:10,1:1k,1:8,1:10,1:1j,1,1:1k,2:1j,1:8,1:10,1:f,1:1r,1,s:e,t:26,2:2j,1:2s,2:26,1:18,1:2s,1:e,1:26,1,1:18,1,1:2s,1,1,1,2:e,1:18,2:2j,1,1:2s,2,1:18,2:2s,1:26,1,1,1:2s,1:18,1:26,2,1:2j,1:2s,2:18,v:2e,1:7,1:12,1:2n,1:h,3,1:12,1:7,2,1:2n,3:2e,1:7,1:12,1:h,1:13,1:23,1:2n,1:h,1:9,1:2e,1,2:23,1:g,1:2e,1:2n,4:1b,1:12,1:2e,1:h,1:7,2,1,3:10,2,2:12,1:2e,1:2n,1:2e,1:1k,1:1c,1:2e,1:13,1:3,1:12,1:1c,1:2e,1:3,1:13,1:1k,2:3,1:23,1:2e,1:1b,2:3,1,1:7,1:1k,1:7,r:2e,1:h,1:2n,1:3,1:2n,1,1:1m,1:2e,1:1c,1:2n,1:1b,1,2:13,3,1:1b,1:2n,1:2e,2:10,1:7,1:23,3:g,4:h,1:7,1,1:23,1:13,2:10,1:3,2:2n,2:1b,1:3,1:7,2:h,1:2e,2,1:12,1:13,1:2n,2:7,1:g,1:h,3:1b,16:2e,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,3,1,1,2,2,3,p,f,1,1,1,n:1q,t:1d,2,1:1q,1:9,1:1q,1:1d,1:1q,3,1:1d,1,2:1q,1:o,1,1:1q,2:o,2:1q,1:o,1,1:1d,1:9,1:1d,1,3:9,1,2:1q,1,11:2c,1,8:k,6:2c,1:e,1:1g,2:1p,2:1z,1:1g,2:2c,2:27,1:1m,2:1p,1:k,1:d,4:1z,1:1y,1:1k,1:q,2:k,1:2c,1:1m,1:27,1:e,1:1p,1:d,1:2c,1:k,1:q,1:k,1:1p,2:q,1:1g,1:1m,1:27,1:d,1:q,1:1m,4,2:e,1:1z,1:d,2:2c,3:1y,1,1:1k,1:1m,2:1p,2:k,1:1g,1:k,1:1k,1:1z,1:1p,2:d,3:q,1:1m,1:k,9:25,1,2,1,5,1:4,1:27,1:2a,1:25,1:1v,1,2,1:n,1:2a,1:1v,1:25,1:20,1:27,1:4,1,3:20,1:4,d:25,1:4,1:2k,1:1m,1:n,1:2a,2:20,2:n,1:2a,1:27,2:2a,1:2k,2:2a,1:1v,1:25,2:n,1:4,1:2a,1:25,1:4,1:25,2,2:1v,1:27,1:20,1:2a,1:2k,2,1:27,2:25,2,1:1v,1:25,g:p,k:21,1:1w,1:1y,2:w,1:2b,1:p,1:2j,1:1w,2:2p,1:29,2:2b,1:j,2:p,1:2j,1:21,1:2b,2:w,1:j,1:21,1:1w,1:21,1,1:2b,1,1:w,1:1y,2:j,1:1w,2:2p,1:29,1:2b,1:w,1:p,1:21,2:29,1:21,1:2b,2:p,2:29,2:p,1:2p,1:2b,1:p,1:29,q:2o,t:24,1:b,1:2o,1:2i,1:2o,1:2i,1:v,1,1,1:24,1:2h,1:2i,2:2o,1:24,1,2:1i,1,1:j,2:v,1,1:2o,3:b,1:2h,1:2r,3,1,2:1i,11:s,u:c,3:s,1:y,1:11,1:y,1:1a,1:1e,1:c,1:y,1:s,1,1:1n,2:r,3:15,1:1e,1:r,2:y,1:15,1:2l,2:11,2:2f,1:1a,1:2t,1:2l,1:2t,1:1n,1:c,2:y,1:r,1:1n,1:14,1:2d,5:s,1:14,1:11,1:z,1:x,2:s,j:2f,4,19:1s,1:2m,1,1:1s,1',
+    cities: 'Abbyville=25|Abilene=k|Admire=1j|Agenda=26|Agra=21|Albert=4|Alden=27|Alexander=2a|Allen=1j|Alma=2q|Almena=1w|Alta Vista=2q|Altamont=1d|Alton=1y|Altoona=2u|Americus=1j|Andale=2e|Andover=7|Anthony=12|Arcadia=i|Argonia=2n|Arkansas City=h|Arlington=25|Arma=i|Arnold=1v|Ashland=c|Assaria=2c|Atchison=2|Athol=2j|Atlanta=h|Attica=12|Atwood=24|Auburn=2g|Augusta=7|Aurora=e|Axtell=1l|Baileyville=1t|Baldwin City=m|Barnard=1g|Barnes=2s|Bartlett=1d|Basehor=1f|Baxter Springs=a|Bazine=1v|Beattie=1l|Beaumont=7|Beeler=1v|Belle Plaine=2n|Belleville=26|Beloit=1p|Belpre=n|Belvue=22|Bendena=l|Benedict=2u|Bennington=1z|Bentley=2e|Benton=7|Bern=1t|Berryton=2g|Beverly=1g|Bird City=b|Bison=2a|Blue Mound=1h|Blue Rapids=1l|Bluff City=12|Bogue=w|Bonner Springs=2w|Bremen=1l|Brewster=2o|Bronson=5|Brookville=2c|Brownell=1v|Bucklin=s|Bucyrus=1o|Buffalo=2u|Buhler=25|Bunker Hill=2b|Burden=h|Burdett=20|Burdick=1r|Burlingame=1x|Burlington=f|Burns=1k|Burr Oak=18|Burrton=13|Bushton=27|Byers=23|Caldwell=2n|Cambridge=h|Caney=1q|Canton=1m|Carbondale=1x|Cassoday=7|Catharine=p|Cawker City=1p|Cedar=2j|Cedar Point=8|Cedar Vale=9|Centerville=1h|Centralia=1t|Chanute=1u|Chapman=k|Chase=27|Chautauqua=9|Cheney=2e|Cherokee=i|Cherryvale=1q|Chetopa=1d|Cimarron=y|Circleville=16|Claflin=4|Clay Center=d|Clayton=1w|Clearwater=2e|Clifton=2s|Clyde=e|Coats=23|Coffeyville=1q|Colby=2o|Coldwater=g|Collyer=2p|Colony=1|Columbus=a|Colwich=2e|Concordia=e|Conway Springs=2n|Coolidge=11|Copeland=y|Corning=1t|Cottonwood Falls=8|Council Grove=1r|Courtland=26|Crestline=a|Cuba=26|Cummings=2|Cunningham=1b|Damar=29|Danville=12|De Soto=19|Dearing=1q|Deerfield=1a|Delia=16|Delphos=1z|Denison=16|Dennis=1d|Denton=l|Derby=2e|Dexter=h|Dighton=1e|Dodge City=s|Dorrance=2b|Douglass=7|Dover=2g|Downs=1y|Dresden=j|Durham=1k|Dwight=1r|Easton=1f|Edgerton=19|Edna=1d|Edson=2i|Edwardsville=2w|Effingham=2|El Dorado=7|Elbing=7|Elk City=1q|Elk Falls=o|Elkhart=1s|Ellinwood=4|Ellis=p|Ellsworth=q|Elmdale=8|Elsmore=0|Elwood=l|Emmett=22|Emporia=1j|Englewood=c|Ensign=y|Enterprise=k|Erie=1u|Esbon=18|Eskridge=2q|Eudora=m|Eureka=10|Everest=6|Fairview=6|Fall River=10|Falun=2c|Farlington=i|Florence=1k|Fontana=1o|Ford=s|Formoso=18|Fort Dodge=s|Fort Leavenworth=1f|Fort Riley=u|Fort Scott=5|Fostoria=22|Fowler=1n|Frankfort=1l|Franklin=i|Fredonia=2u|Freeport=12|Frontenac=i|Fulton=5|Galena=a|Galesburg=1u|Galva=1m|Garden City=r|Garden Plain=2e|Gardner=19|Garfield=20|Garland=5|Garnett=1|Gas=0|Gaylord=2j|Gem=2o|Geneseo=27|Geuda Springs=2n|Girard=i|Glade=21|Glasco=e|Glen Elder=1p|Goddard=2e|Goessel=1k|Goff=1t|Goodland=2i|Gorham=2b|Gove=v|Grainfield=v|Grantville=17|Great Bend=4|Greeley=1|Green=d|Greenleaf=2s|Greensburg=1c|Greenwich=2e|Grenola=o|Gridley=f|Grinnell=v|Gypsum=2c|Haddam=2s|Halstead=13|Hamilton=10|Hanover=2s|Hanston=15|Hardtner=3|Harper=12|Hartford=1j|Harveyville=2q|Havana=1q|Haven=25|Havensville=22|Haviland=1c|Hays=p|Haysville=2e|Hazelton=3|Healy=1e|Hepler=i|Herington=k|Herndon=24|Hesston=13|Hiawatha=6|Highland=l|Hill City=w|Hillsboro=1k|Hillsdale=1o|Hoisington=4|Holcomb=r|Hollenberg=2s|Holton=16|Holyrood=q|Home=1l|Hope=k|Horton=6|Howard=o|Hoxie=2h|Hoyt=16|Hudson=2k|Hugoton=2m|Humboldt=0|Hunter=1p|Hutchinson=25|Independence=1q|Ingalls=y|Inman=1m|Iola=0|Isabel=3|Iuka=23|Jamestown=e|Jennings=j|Jetmore=15|Jewell=18|Johnson=2l|Junction City=u|Kanopolis=q|Kanorado=2i|Kansas City=2w|Kechi=2e|Kendall=11|Kensington=2j|Kincaid=1|Kingman=1b|Kinsley=n|Kiowa=3|Kirwin=21|Kismet=2f|La Crosse=2a|La Harpe=0|Lacygne=1h|Lake City=3|Lakin=1a|Lamont=10|Lancaster=2|Lane=t|Lansing=1f|Larned=20|Latham=7|Lawrence=m|Le Roy=f|Leavenworth=1f|Leawood=19|Lebanon=2j|Lebo=f|Lecompton=m|Lehigh=1k|Lenexa=19|Lenora=1w|Leon=7|Leonardville=28|Leoti=2t|Levant=2o|Lewis=n|Liberal=2f|Liberty=1q|Liebenthal=2a|Lincoln=1g|Lincolnville=1k|Lindsborg=1m|Linn=2s|Linwood=1f|Little River=27|Logan=21|Long Island=21|Longford=d|Longton=o|Lorraine=q|Lost Springs=1k|Louisburg=1o|Lucas=2b|Ludell=24|Luray=2b|Lyndon=1x|Lyons=27|Macksville=2k|Madison=10|Mahaska=2s|Maize=2e|Manhattan=28|Mankato=18|Manter=2l|Maple City=h|Maple Hill=2q|Mapleton=5|Marienthal=2t|Marion=1k|Marquette=1m|Marysville=1l|Matfield Green=8|Mayetta=16|Mayfield=2n|Mc Cracken=2a|Mc Cune=i|Mc Donald=24|Mc Farland=2q|Mc Louth=17|Mcconnell Afb=2e|Mcpherson=1m|Meade=1n|Medicine Lodge=3|Melvern=1x|Meriden=17|Milan=2n|Milford=u|Milton=2n|Miltonvale=e|Minneapolis=1z|Minneola=c|Mission=19|Moline=o|Montezuma=y|Monument=1i|Moran=0|Morganville=d|Morland=w|Morrill=6|Morrowville=2s|Moscow=2m|Mound City=1h|Mound Valley=1d|Moundridge=1m|Mount Hope=2e|Mulberry=i|Mullinville=1c|Mulvane=2n|Munden=26|Murdock=1b|Muscotah=2|Narka=26|Nashville=1b|Natoma=1y|Neal=10|Nekoma=2a|Neodesha=2u|Neosho Falls=2v|Neosho Rapids=1j|Ness City=1v|Netawaka=16|New Albany=2u|New Cambria=2c|New Century=19|Newton=13|Nickerson=25|Niotaze=9|Norcatur=j|North Newton=13|Norton=1w|Nortonville=17|Norway=26|Norwich=1b|Oakley=1i|Oberlin=j|Offerle=n|Ogallah=2p|Ogden=28|Oketo=1l|Olathe=19|Olmitz=4|Olpe=1j|Olsburg=22|Onaga=22|Oneida=1t|Opolis=i|Osage City=1x|Osawatomie=1o|Osborne=1y|Oskaloosa=17|Oswego=1d|Otis=2a|Ottawa=t|Overbrook=1x|Overland Park=19|Oxford=2n|Ozawkie=17|Palco=29|Palmer=2s|Paola=1o|Paradise=2b|Park=v|Parker=1h|Parsons=1d|Partridge=25|Pawnee Rock=4|Paxico=2q|Peabody=1k|Peck=2e|Penokee=w|Perry=17|Peru=9|Pfeifer=p|Phillipsburg=21|Piedmont=10|Pierceville=r|Piqua=2v|Pittsburg=i|Plains=1n|Plainville=29|Pleasanton=1h|Plevna=25|Pomona=t|Portis=1y|Potwin=7|Powhattan=6|Prairie View=21|Prairie Village=19|Pratt=23|Prescott=1h|Pretty Prairie=25|Princeton=t|Protection=g|Quenemo=1x|Quinter=v|Ramona=1k|Randall=18|Randolph=28|Ransom=1v|Rantoul=t|Raymond=27|Reading=1j|Redfield=5|Republic=26|Rexford=2o|Richfield=1s|Richmond=t|Riley=28|Riverton=a|Robinson=6|Rock=h|Rolla=1s|Rosalia=7|Rose Hill=7|Rossville=2g|Roxbury=1m|Rozel=20|Rush Center=2a|Russell=2b|Sabetha=1t|Saint Francis=b|Saint George=22|Saint Marys=22|Saint Paul=1u|Salina=2c|Satanta=14|Savonburg=0|Sawyer=23|Scammon=a|Scandia=26|Schoenchen=p|Scott City=2d|Scranton=1x|Sedan=9|Sedgwick=13|Selden=2h|Seneca=1t|Severy=10|Sharon=3|Sharon Springs=2r|Shawnee=19|Shawnee Mission=19|Silver Lake=2g|Simpson=1p|Smith Center=2j|Soldier=16|Solomon=k|South Haven=2n|South Hutchinson=25|Spearville=s|Spivey=1b|Spring Hill=19|St John=2k|Stafford=2k|Stark=1u|Sterling=27|Stilwell=19|Stockton=29|Strong City=8|Sublette=14|Summerfield=1l|Sun City=3|Sycamore=1q|Sylvan Grove=1g|Sylvia=25|Syracuse=11|Talmage=k|Tampa=1k|Tecumseh=2g|Tescott=1z|Thayer=1u|Tipton=1p|Tonganoxie=1f|Topeka=2g|Toronto=2v|Towanda=7|Treece=a|Tribune=z|Troy=l|Turon=25|Tyro=1q|Udall=h|Ulysses=x|Uniontown=5|Utica=1v|Valley Center=2e|Valley Falls=17|Vassar=1x|Vermillion=1l|Victoria=p|Viola=2e|Virgil=10|Wakarusa=2g|Wakeeney=2p|Wakefield=d|Waldo=2b|Waldron=12|Walker=p|Wallace=2r|Walnut=i|Walton=13|Wamego=22|Washington=2s|Waterville=1l|Wathena=l|Waverly=f|Webber=18|Weir=a|Welda=1|Wellington=2n|Wellsville=t|Weskan=2r|West Mineral=a|Westmoreland=22|Westphalia=1|Wetmore=1t|White City=1r|White Cloud=l|Whitewater=7|Whiting=16|Wichita=2e|Williamsburg=t|Wilmore=g|Wilsey=1r|Wilson=q|Winchester=17|Windom=1m|Winfield=h|Winona=1i|Woodbine=k|Woodston=29|Wright=s|Yates Center=2v|Yoder=25|Zenda=1b'
+  },
+  KY: {
+    counties: 'Adair|Allen|Anderson|Ballard|Barren|Bath|Bell|Boone|Bourbon|Boyd|Boyle|Bracken|Breathitt|Breckinridge|Bullitt|Butler|Caldwell|Calloway|Campbell|Carlisle|Carroll|Carter|Casey|Christian|Clark|Clay|Clinton|Crittenden|Cumberland|Daviess|Edmonson|Elliott|Estill|Fayette|Fleming|Floyd|Franklin|Fulton|Gallatin|Garrard|Grant|Graves|Grayson|Green|Greenup|Hancock|Hardin|Harlan|Harrison|Hart|Henderson|Henry|Hickman|Hopkins|Jackson|Jefferson|Jessamine|Johnson|Kenton|Knott|Knox|Larue|Laurel|Lawrence|Lee|Leslie|Letcher|Lewis|Lincoln|Livingston|Logan|Lyon|Madison|Magoffin|Marion|Marshall|Martin|Mason|McCracken|McCreary|McLean|Meade|Menifee|Mercer|Metcalfe|Monroe|Montgomery|Morgan|Muhlenberg|Nelson|Nicholas|Ohio|Oldham|Owen|Owsley|Pendleton|Perry|Pike|Powell|Pulaski|Robertson|Rockcastle|Rowan|Russell|Scott|Shelby|Simpson|Spencer|Taylor|Todd|Trigg|Trimble|Union|Warren|Washington|Wayne|Webster|Whitley|Wolfe|Woodford',
+    zips: 'uv7:2x,1:2h,2:33,1:1f,1:2h,1:22,1:2k,1:1f,1:2h,1,1:2k,4:1j,1:1f,1:2h,2:2x,1:1j,2,1:2k,1:1j,4:2k,1,1:22,3:1f,1:22,3:36,1:1j,4:33,1:2z,1:e,1:2h,1:22,1:1f,1:2h,1,3:1f,1:2k,1:1f,1,1:1j,1:22,1:36,1:22,1,2:2x,1,1,1:1f,1:36,1:1f,1:2z,4:1f,1:2x,1:2k,1:36,q:29,3:2h,1:29,1:e,1,1:d,4,2:29,1:1j,1:16,2:1a,1,7:e,b:d,2:29,1:d,1,1,1,4:e,2:d,1,2:29,2,2:1a,1,1:29,1:1a,3:e,1,4:d,1,4:1a,1:d,1:1a,1:d,n:1j,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,3,1,2,1,1,8,1,1,2,5,1,1,1,2,1,1,1,1,2,5,2,1,1,2,8,1,1,1,2,2,2,1,1,1,1,1,1,1,1,1,1,b:2b,1:2i,1:2q,1:2u,3:2a,1:2u,2,3:2a,2:2w,4:22,2:2b,4:2e,2:w,1:2e,2:1k,1,2:2,4:2a,1:3b,1:8,2:2i,1:2u,2:2e,2:2l,1:1k,1:8,1:5,1:2l,1:5,1:8,1,1:2l,3:5,4:2w,1:5,1:2b,2:5,2:2q,3:2w,1:2q,3:3b,1,1:20,2:2a,3:1k,1:o,1,a:1i,1:20,1,1,4:2t,1:13,9:1w,3:a,1,b:1i,3:1w,3:a,2:1w,2:13,1:2t,2:1i,1:1w,4:a,4:2t,4,1:13,3:a,4,4:w,1:2t,2:20,1,5:1i,3:1w,2:1i,2,1:1w,3:2t,a:x,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,5,1,1,2,7,3,8,2,4,5,j,1,1,1,1,1,1,1,1,1,5,3,7,3:10,1,1,1,e,1,1,1,1,27:39,1,m:1q,5,1:39,4:1o,3:1q,3,1,1,1,1,1,5,5,4:39,4,6,2:1o,u:1b,2:1t,3:1b,1,1,2,3:6,2:1b,1:1t,2:1b,1,1,3,1,2:1u,1:1t,1:1b,1,1,1,9:1t,3:1b,1:1t,1:6,2:1b,2,5,1,1:6,2:1t,4:1u,1:1b,2,3:1t,2:1b,3,1:1t,s:6,1:1o,3,7:6,1:p,1:1o,6,2,4:1b,3:1o,2:p,3:1o,4,1:6,1:p,2:1o,1:p,2:1o,3,2:p,2:1o,2:6,3,4:p,2:1b,1:6,7:p,5:6,2:1t,2:2o,1:1o,1:p,5:6,7:1o,2,4:i,1:b,1:1c,1:b,1:7,1:2n,1:i,1:k,2:14,1:1m,1,2,1,1,1,1,1,2:7,1,3:1m,5:14,1:1c,2:2n,1:25,1:14,2:y,2,1:2n,1:y,1:7,1:b,1,1:k,1:12,2:7,1:y,2:1m,1:14,1:1m,1:14,1:25,1,3:i,2:b,1:25,1:1m,1:2s,1:y,6:i,1,1,1,1,1,4:7,1:y,2:k,2:i,1:12,5:7,1,1:y,1:7,1:12,1:25,1:14,1:k,1:i,2:9,1,3,9,7:18,3:1r,4:l,1:9,3:l,3:1v,4:18,2:1v,1:l,1,1:18,2:l,3:v,a:1r,1,4:l,2:1v,2:9,1:18,2:v,2:l,1:18,1,4:1v,1:1r,1:l,2:18,6:1v,c:1r,2:24,1:1l,a:24,2:1l,3,3,2:24,2:1l,4:1r,1:24,1:1r,2:1l,4,2,a:24,4:1l,1,1,1,3,2:24,1:1l,1:1r,1:1l,2:24,1:1l,3,3,r:3a,9:c,1:1s,3:2m,3:c,f:3a,7:c,8:1s,1:c,3:2m,1:2f,8:3a,4:2m,1:3a,1:c,1:2o,1:1s,h:c,1:2m,4:c,7:1s,b:2f,5,8,4,1:21,p:2f,d:21,1,7:2f,5,o:2p,1,1,9,1,1,3:1u,2:2p,1,2,2,2,1,1,3,3,1,2:1u,1:2p,1,1,2,1,1,3,1,1,4,1,1,2,1,1,1,1,1,1,1,2,1,1,3,1,t:z,1,1,1,1,1,1,5,3,1,3,2,1,8,1,1:21,3:z,1,4,2,1,2,2,2,1,1,2,2,4,1,3,3,1,2,w:2o,1,a,1,1:1t,5:2o,2,1,1,2:1n,2:2o,2,2,4,1,3,1:1n,3,2:2o,1,3:1t,2:2o,3,5:1n,1:2o,2:1t,1:2o,1:1t,2,6:1n,1:2o,1,1:1t,1,1,1:2o,q:1u,6,2,3,2:1n,2:1u,2,1:1n,2:1u,1,1,2:1n,3,1:1u,1,1:1n,1:1u,1:1n,1:1u,1,1:1n,1:1u,3:1n,1,1:1u,2:1n,1:1u,1,6,3,1:1n,2,1,3v:26,1,1,h:h,1:j,1:3,1:j,1:3,1:23,2:15,1:1x,1:23,2:1g,1,1:r,2:j,1:h,1:r,1:1z,1:15,1,1:11,3:23,1:1x,2,1:23,1:h,1:11,1:15,2:26,1:h,1:1z,1:3,2:1x,2:3,1:15,2,1:r,2:15,3,1:j,1:h,5,2:1x,1:15,2:1x,1:15,1:1x,2:15,1:26,1:3,1:15,d:35,1,1,1,g:1,2:35,1:4,1:2c,3:4,1:35,1:2c,1:4,1,2:2d,1:2y,1,5:2d,1:4,1,9:2d,1:4,1:1,1:2c,2:4,1:2d,2:35,1:4,3:u,1:1,2:2c,1:2d,3:35,1,u:f,1:1y,2:31,2:1y,1:u,3,1:32,3:2c,1:32,1:31,1:n,2:f,1:31,1:n,2,9,2:31,2:n,4,1,b:f,2:n,2:1y,3:u,2:f,1:n,3:1y,1:n,7:f,1:35,1:u,1:1y,4:31,5:u,1:31,2:f,d:t,1,1,1,g:2j,1:2g,1:28,1:2g,1,1,1,1:28,1:2j,2:2g,2,1:2j,1:t,3:2g,1:2j,1:2g,4:2j,1:2g,1,2:2j,1:19,1:2j,1:28,1:19,1:28,2:2j,1:t,1,5:2j,3:19,2:t,1:2g,1:19,1:2j,1,1:28,1,2:2g,2:t,1,1,o:1e,2:38,2:1e,2:1h,1:38,1:1h,1:g,2:1h,6:1e,1,b:1h,5,1:34,3:1h,1,1,2:38,1:g,5:38,1:1e,1,1:1h,2:38,1,1:1e,1,1:34,1,1,1,1:38,1:1h,11:2r,1,1,d:m,2:2r,1,9:m,5:2r,6:m,2,3:2r,9,5,6,1:m,1,1:2r,z:q,1,q:2v,2:27,2:37,1:27,1,3,4:2v,5:27,2,4,1c:1a,1,a:16,1:1d,2:0,1:1p,1:s,1:30,1,1:0,1:16,1:1d,2:1a,2:16,2:0,1:1d,3:1a,1:30,7:1a,1:0,1,1:17,3:1d,2:1p,1:1d,4:0,1:16,1,2:1p,1:30,1:s,3:16,2:1p,1:1d,b:1a,6:17,2:1a,4',
+    cities: 'Aberdeen=f|Adairville=1y|Adams=1r|Adolphus=1|Ages Brookside=1b|Albany=q|Alexandria=i|Allen=z|Allensville=31|Almo=h|Alpha=q|Alvaton=35|Annville=1i|Argillite=18|Arjay=6|Arlington=j|Artemus=1o|Ary=2o|Ashcamp=2p|Asher=1t|Ashland=9|Auburn=1y|Augusta=b|Austin=4|Auxier=z|Avawam=2o|Bagdad=2x|Bandana=3|Banner=z|Barbourville=1o|Bardstown=2h|Bardwell=j|Barlow=3|Baskett=1e|Battletown=29|Baxter=1b|Bays=c|Bear Branch=1t|Beattyville=1s|Beaumont=2c|Beauty=24|Beaver=z|Beaver Dam=2j|Bedford=33|Bee Spring=u|Beech Creek=2g|Beech Grove=28|Beechmont=2g|Belcher=2p|Belfry=2p|Bellevue=i|Belton=2g|Benham=1b|Benton=23|Berea=20|Berry=1c|Bethelridge=m|Bethlehem=1f|Betsy Layne=z|Beverly=6|Bevinsville=z|Big Clifty=16|Big Creek=p|Big Laurel=1b|Bighill=20|Bimble=1o|Blackey=1u|Blaine=1r|Bledsoe=1b|Bloomfield=2h|Blue River=z|Boaz=15|Bonnieville=1d|Bonnyman=2o|Booneville=2m|Boons Camp=1l|Boston=2h|Bowling Green=35|Bradfordsville=22|Brandenburg=29|Breeding=0|Bremen=2g|Brodhead=2t|Bronston=2r|Brooks=e|Brooksville=b|Browder=2g|Brownsville=u|Bryants Store=1o|Bryantsville=13|Buckhorn=2o|Buckner=2k|Buffalo=1p|Bulan=2o|Burdine=1u|Burgin=2b|Burkesville=s|Burlington=7|Burna=1x|Burnside=2r|Bush=1q|Busy=2o|Butler=2n|Bypro=z|Cadiz=32|Calhoun=28|California=i|Calvert City=23|Calvin=6|Campbellsburg=1f|Campbellsville=30|Campton=3a|Canada=2p|Cane Valley=0|Caneyville=16|Canmer=1d|Cannel City=2f|Cannon=1o|Carlisle=2i|Carrie=1n|Carrollton=k|Carter=l|Catlettsburg=9|Cave City=4|Cawood=1b|Cecilia=1a|Center=2c|Centertown=2j|Central City=2g|Cerulean=32|Chaplin=2h|Chappell=1t|Chavies=2o|Clarkson=16|Clay=38|Clay City=2q|Clayhole=c|Clearfield=2u|Cleaton=2g|Clermont=e|Clifty=31|Clinton=1g|Closplint=1b|Cloverport=d|Coalgood=1b|Coldiron=1b|Columbia=0|Columbus=1g|Combs=2o|Corbin=39|Corinth=14|Cornettsville=2o|Corydon=1e|Covington=1m|Coxs Creek=2h|Crab Orchard=1w|Cranks=1b|Crayne=r|Crestwood=2k|Crittenden=14|Crockett=2f|Crofton=n|Cromona=1u|Cromwell=2j|Cub Run=1d|Cumberland=1b|Cunningham=j|Curdsville=t|Custer=d|Cynthiana=1c|Dana=z|Danville=a|David=z|Dawson Springs=1h|Dayhoit=1b|Dayton=i|De Mossville=2n|Deane=1u|Debord=24|Delphia=2o|Dema=1n|Denniston=2a|Denton=l|Dewitt=1o|Dexter=h|Dice=2o|Dixon=38|Dorton=2p|Dover=25|Drake=35|Drakesboro=2g|Drift=z|Dry Ridge=14|Dunbar=f|Dundee=2j|Dunmor=2g|Dunnville=m|Dwale=z|Dwarf=2o|Dycusburg=r|Earlington=1h|East Bernstadt=1q|East Point=1l|Eastern=z|Eastview=1a|Eastwood=1j|Eddyville=1z|Edmonton=2c|Eighty Eight=4|Ekron=29|Elizabethtown=1a|Elizaville=y|Elk Horn=30|Elkfork=2f|Elkhorn City=2p|Elkton=31|Elliottville=2u|Emerson=1v|Eminence=1f|Emlyn=39|Emmalena=1n|Eolia=1u|Erlanger=1m|Ermine=1u|Essie=1t|Etoile=4|Eubank=2r|Evarts=1b|Ewing=y|Ezel=2f|Fairdale=1j|Fairfield=2h|Fairview=n|Falcon=21|Fall Rock=p|Falls Of Rough=16|Falmouth=2n|Fancy Farm=15|Farmers=2u|Farmington=15|Fedscreek=2p|Ferguson=2r|Finchville=2x|Fisherville=1j|Fisty=1n|Flat Lick=1o|Flatgap=1l|Flatwoods=18|Flemingsburg=y|Florence=7|Fords Branch=2p|Fordsville=2j|Forest Hills=2p|Fort Campbell=n|Fort Knox=1a|Fort Thomas=i|Foster=b|Fountain Run=2d|Fourmile=1o|Frakes=6|Frankfort=10|Franklin=2y|Fredonia=g|Freeburn=2p|Frenchburg=2a|Ft Mitchell=1m|Fulton=11|Gamaliel=2d|Garfield=d|Garner=1n|Garrard=p|Garrett=z|Garrison=1v|Gays Creek=2o|Georgetown=2w|Germantown=b|Ghent=k|Gilbertsville=23|Girdler=1o|Glasgow=4|Glencoe=12|Glendale=1a|Glens Fork=0|Glenview=1j|Goose Rock=p|Gordon=1u|Goshen=2k|Gracey=n|Gradyville=0|Graham=2g|Grahn=l|Grand Rivers=1x|Gravel Switch=22|Gray=1o|Gray Hawk=1i|Grays Knob=1b|Grayson=l|Green Road=1o|Greensburg=17|Greenup=18|Greenville=2g|Grethel=z|Gulston=1b|Gunlock=21|Guston=29|Guthrie=31|Hagerhill=1l|Hallie=1u|Hampton=1x|Hanson=1h|Happy=2o|Hardin=23|Hardinsburg=d|Hardy=2p|Hardyville=1d|Harlan=1b|Harned=d|Harold=z|Harrods Creek=1j|Harrodsburg=2b|Hartford=2j|Hawesville=19|Hazard=2o|Hazel=h|Hazel Green=3a|Hebron=7|Heidrick=1o|Hellier=2p|Helton=1t|Henderson=1e|Herndon=n|Hestand=2d|Hi Hat=z|Hickman=11|Hickory=15|Hillsboro=y|Hillview=e|Hima=p|Hindman=1n|Hinkle=1o|Hiseville=4|Hitchins=l|Hodgenville=1p|Holland=1|Holmes Mill=1b|Hope=2e|Hopkinsville=n|Horse Branch=2j|Horse Cave=1d|Hoskinston=1t|Huddy=2p|Hudson=d|Hueysville=z|Hulen=6|Hustonville=1w|Hyden=1t|Independence=1m|Inez=24|Ingram=6|Irvine=w|Irvington=d|Island=28|Isom=1u|Isonville=v|Ivel=z|Jackhorn=1u|Jackson=c|Jamestown=2v|Jeff=2o|Jeffersonville=2e|Jenkins=1u|Jeremiah=1u|Jetson=f|Jonancy=2p|Jonesville=14|Junction City=a|Keaton=1l|Keavy=1q|Keene=1k|Kenton=1m|Kenvir=1b|Kettle Island=6|Kevil=26|Kimper=2p|Kings Mountain=1w|Kirksey=h|Kite=1n|Knifley=0|Knob Lick=2c|Krypton=2o|Kuttawa=1z|La Center=3|La Fayette=n|La Grange=2k|Lackey=z|Lancaster=13|Langley=z|Latonia=1m|Lawrenceburg=2|Lebanon=22|Lebanon Junction=e|Leburn=1n|Ledbetter=1x|Leitchfield=16|Lejunior=1b|Letcher=1u|Lewisburg=1y|Lewisport=19|Lexington=x|Liberty=m|Lick Creek=2p|Lily=1q|Linefork=1u|Littcarr=1n|Livermore=28|Livingston=2t|Lockport=1f|London=1q|Lone=1s|Lookout=2p|Loretto=22|Lost Creek=c|Louisa=1r|Louisville=1j|Lovelaceville=3|Lovely=24|Lowes=15|Lowmansville=1r|Loyall=1b|Lucas=4|Lynch=1b|Lynnville=15|Maceo=t|Mackville=36|Madisonville=1h|Magnolia=1p|Majestic=2p|Mallie=1n|Malone=2f|Mammoth Cave=u|Manchester=p|Manitou=1h|Mannsville=30|Maple Mount=t|Marion=r|Marrowbone=s|Marshes Siding=27|Martha=1r|Martin=z|Mary Alice=1b|Mason=14|Masonic Home=1j|Mayfield=15|Mayking=1u|Mayslick=25|Maysville=25|Mazie=1r|Mc Andrews=2p|Mc Carr=2p|Mc Daniels=d|Mc Dowell=z|Mc Henry=2j|Mc Kee=1i|Mc Kinney=1w|Mc Quady=d|Mc Roberts=1u|Meally=1l|Means=2a|Melber=15|Melbourne=i|Melvin=z|Middleburg=m|Middlesboro=6|Midway=3b|Milburn=j|Milford=b|Millersburg=8|Millstone=1u|Millwood=16|Milton=33|Minerva=25|Minnie=z|Miracle=6|Mistletoe=2m|Mitchellsburg=a|Mize=2f|Monticello=37|Moorefield=2i|Morehead=2u|Morganfield=34|Morgantown=f|Morning View=1m|Mortons Gap=1h|Mount Eden=2z|Mount Hermon=2d|Mount Olivet=2s|Mount Sherman=1p|Mount Sterling=2e|Mount Vernon=2t|Mount Washington=e|Mousie=1n|Mouthcard=2p|Mozelle=1t|Muldraugh=29|Munfordville=1d|Murray=h|Muses Mills=y|Myra=2p|Nancy=2r|Nazareth=2h|Nebo=1h|Neon=1u|Nerinx=22|New Castle=1f|New Concord=h|New Haven=2h|New Hope=2h|New Liberty=2l|Newport=i|Nicholasville=1k|North Middletown=8|Nortonville=1h|Oak Grove=n|Oakland=35|Oil Springs=1l|Olaton=2j|Olive Hill=l|Olmstead=1y|Olympia=5|Oneida=p|Orlando=2t|Owensboro=t|Owenton=2l|Owingsville=5|Paducah=26|Paint Lick=13|Paintsville=1l|Paris=8|Park City=4|Parkers Lake=27|Parksville=a|Partridge=1u|Pathfork=1b|Payneville=29|Pellville=19|Pembroke=n|Pendleton=1f|Perry Park=2l|Perryville=a|Petersburg=7|Pewee Valley=2k|Phelps=2p|Philpot=t|Phyllis=2p|Pikeville=2p|Pilgrim=24|Pine Knot=27|Pine Ridge=3a|Pine Top=1n|Pineville=6|Pinsonfork=2p|Pippa Passes=1n|Pittsburg=1q|Pleasureville=1f|Plummers Landing=y|Poole=38|Port Royal=1f|Powderly=2g|Premium=1u|Preston=5|Prestonsburg=z|Princeton=g|Printer=z|Prospect=1j|Providence=38|Putney=1b|Quincy=1v|Raccoon=2p|Radcliff=1a|Ransom=2p|Raven=1n|Ravenna=w|Raywick=22|Redfox=1n|Reed=1e|Regina=2p|Renfro Valley=2t|Revelo=27|Reynolds Station=19|Rhodelia=29|Ricetown=2m|Richmond=20|Rineyville=1a|River=1l|Roark=1t|Robards=1e|Robinson Creek=2p|Rochester=f|Rockfield=35|Rockholds=39|Rockhouse=2p|Rockport=2j|Rocky Hill=u|Rogers=3a|Rosine=2j|Roundhill=u|Rousseau=c|Rowdy=2o|Roxana=1u|Royalton=21|Rumsey=28|Rush=9|Russell=18|Russell Springs=2v|Russellville=1y|Sacramento=28|Sadieville=2w|Saint Catharine=36|Saint Charles=1h|Saint Francis=22|Saint Helens=1s|Saint Mary=22|Salem=1x|Salt Lick=5|Salvisa=2b|Salyersville=21|Sanders=k|Sandgap=1i|Sandy Hook=v|Sassafras=1n|Saul=2o|Scalf=1o|Science Hill=2r|Scottsville=1|Scuddy=2o|Sebree=38|Seco=1u|Sedalia=15|Sextons Creek=p|Sharon Grove=31|Sharpsburg=5|Shelbiana=2p|Shelby Gap=2p|Shelbyville=2x|Shepherdsville=e|Sidney=2p|Siler=39|Silver Grove=i|Simpsonville=2x|Sitka=1l|Sizerock=1t|Slade=2q|Slaughters=38|Slemp=2o|Smilax=1t|Smith Mills=1e|Smithfield=1f|Smithland=1x|Smiths Grove=35|Soldier=l|Somerset=2r|Sonora=1a|South Carrollton=2g|South Portsmouth=18|South Shore=18|South Williamson=2p|Sparta=12|Spottsville=1e|Springfield=36|Staffordsville=1l|Stambaugh=1l|Stamping Ground=2w|Stanford=1w|Stanton=2q|Stanville=z|Stearns=27|Steele=2p|Stephensport=d|Stinnett=1t|Stone=2p|Stoney Fork=6|Stopover=2p|Strunk=27|Sturgis=34|Sullivan=34|Sulphur=1f|Summer Shade=2c|Summersville=17|Sweeden=u|Symsonia=15|Tateville=2r|Taylorsville=2z|Teaberry=z|Thelma=1l|Thornton=1u|Thousandsticks=1t|Tiline=1x|Tollesboro=1v|Tomahawk=24|Tompkinsville=2d|Topmost=1n|Totz=1b|Tram=z|Trenton=31|Trosper=1o|Turners Station=1f|Tutor Key=1l|Tyner=1i|Ulysses=1r|Union=7|Union Star=d|Uniontown=34|Upton=1a|Utica=t|Van Lear=1l|Vanceburg=1v|Vancleve=c|Varney=2p|Verona=7|Versailles=3b|Vest=1n|Vicco=2o|Vincent=2m|Vine Grove=1a|Viper=2o|Virgie=2p|Waco=20|Waddy=2x|Walker=1o|Wallingford=y|Wallins Creek=1b|Walton=7|Waneta=1i|Warbranch=1t|Warfield=24|Warsaw=12|Washington=25|Water Valley=15|Waverly=34|Wayland=z|Waynesburg=1w|Webbville=1r|Webster=d|Weeksbury=z|Wellington=2a|Wendover=1t|West Liberty=2f|West Louisville=t|West Paducah=26|West Point=1a|West Somerset=2r|West Van Lear=1l|Westport=2k|Westview=d|Wheatcroft=38|Wheelwright=z|Whick=c|White Mills=1a|White Plains=1h|Whitesburg=1u|Whitesville=t|Whitley City=27|Wickliffe=3|Wildie=2t|Willard=l|Williamsburg=39|Williamsport=1l|Williamstown=14|Willisburg=36|Wilmore=1k|Winchester=o|Windsor=m|Wingo=15|Wittensville=1l|Woodbine=1o|Woodburn=35|Woodbury=f|Wooton=1t|Worthington=18|Worthville=k|Wrigley=2f|Yeaddiss=1t|Yerkes=2o|Yosemite=m|Zoe=1s'
+  },
+  LA: {
+    counties: 'Acadia|Allen|Ascension|Assumption|Avoyelles|Beauregard|Bienville|Bossier|Caddo|Calcasieu|Caldwell|Cameron|Catahoula|Claiborne|Concordia|De Soto|East Baton Rouge|East Carroll|East Feliciana|Evangeline|Franklin|Grant|Iberia|Iberville|Jackson|Jefferson|Jefferson Davis|La Salle|Lafayette|Lafourche|Lincoln|Livingston|Madison|Morehouse|Natchitoches|Orleans|Ouachita|Plaquemines|Pointe Coupee|Rapides|Red River|Richland|Sabine|St. Bernard|St. Charles|St. Helena|St. James|St. John the Baptist|St. Landry|St. Martin|St. Mary|St. Tammany|Tangipahoa|Tensas|Terrebonne|Union|Vermilion|Vernon|Washington|Webster|West Baton Rouge|West Carroll|West Feliciana|Winn',
+    zips: '1i0h:p,1,1,1,1,1,3,1,1,j:18,1,1:17,1:p,3,1:11,1,1:18,1:11,1,2:17,1,3:18,2:1b,1:11,1:1b,1:1a,1:p,1,1,1,1:18,1:p,1,1,2,1,1,1,2,1:1b,1,1:18,1:1a,1:p,1,2:17,1:1b,2:18,1,1,1:11,1,1,1:1b,1:17,1:1a,1:18,3:1a,1:11,1:17,1:11,1:p,2,1,f:z,1,1,1,1,1,1,1,2:p,1:z,1:p,1:z,1,1,1,1,1,1,1,8,2:p,1:z,1,2,1,2,2,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,3,2,2,1,1,1,1,1,2:p,1:z,1:p,1:z,1,1,1,2,1,5,2y:t,1,8,t:3,1:1e,1:3,1:1e,1:1i,1,1:t,1:2,6:1i,1,1:t,1,1:1i,1:t,1:p,1:1i,1,1,2,1,7:t,1:3,1:t,1,1,2:1i,3:1e,1,9:3,1,1:1e,1:3,1:t,1:1i,2,4:1g,1,1,1,g:1f,1:1g,1,4:1m,1,2,2:1f,2,1,1,1:1g,1:1f,1:1m,3:19,1:1g,1,1,1:1f,1:1g,1:1f,1,1:v,1:1m,1:1g,1:1f,1:19,1:1g,1,1,1:1f,1,1,1,1,1:v,1:1f,1,1:1g,1,1:1m,2:1f,1,1,u:s,1,1,1,1,1,1,1,1,1:1k,1,1:1c,1:m,1:1e,1:j,1:0,1:1d,1:s,1:1d,1:s,1:1d,1:1e,1,1:j,1:0,1,1,1:1k,1:s,2:0,1:q,1:1k,1:0,1:1c,2:0,1:1e,2,1:1c,1:1k,1:0,1:m,2:q,2:1k,1:q,1:1c,1,1:m,2:j,1:1k,1:0,2:s,1:0,1:m,2,1,6,1:1c,1,4:1k,1:j,1:1c,1:0,2:j,1:q,1:1d,1:s,1:1c,1:j,1,3:1c,2:q,1:s,1,3,2,3:9,1,3,1,1,2,2,1,3,1,d,1,1:b,1,1:9,1:5,3,1:1,1:1l,1:q,3:b,1:1,1:b,1:9,1,1:1,2:q,1:1,1:5,1,1:1,1,1:1l,1:5,1:1,1:1l,1:5,1:9,1:5,1:9,1,1,3,1,z:g,2:v,1:2,3:1o,1:v,1:1q,2:g,1:12,3:2,1:1o,2:n,1:i,1:1a,2:2,1:v,1,1:2,1:1o,1:i,2:12,1:v,1:2,2:12,1:2,1,1:g,1:n,3:1a,1:v,3:12,1:i,1:12,1:1c,2:12,1,1:v,1:12,1,1:n,2:12,1,1:i,1:12,1:1a,1:n,1,2:1o,2:2,1:g,2:n,1:12,1:2,1:1q,1:n,1:i,1:2,2:n,2:1q,1:12,1:1q,1:v,1,1:1q,1:n,1:i,2:g,1:1a,9:g,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,4,2,2,1,1,10,1,5,5,7,1,1,1,1,1,2,2v:6,1:y,1:d,1:8,2:7,1:8,1:6,1:8,7:6,2:1n,1:14,2:1n,2,1,3:f,1:6,1:8,1:f,1:y,1:f,1:8,1:14,3:7,1:d,1:1n,1:d,3:8,1,1:6,1:f,1:8,1:d,1:f,1,1:7,1:f,3:1n,3,2:8,1,2:f,1:7,1:16,1:y,1:7,1:6,1:8,1:6,1:1n,1,1,2,3:f,1:d,1:6,2:8,j,1,1,1,1,1,1,1,1,1:7,1,1,1,2:8,3,1,1,9,1,3,1,1,1,1,1,a,1,1,1,1,1,1,2,5,1,1,1,1,1,5:7,1,t:10,1,1,4,2,1,1,1,1,4,1:15,1:k,1:x,1,1:1j,1:x,2:10,1:o,1:u,2:x,1:k,2:15,1:w,1:1j,1:u,2:1p,1:o,2:10,1:1j,1:1p,1:k,2:u,2:o,2:k,1:x,1:o,2:1p,1:h,2:1j,3:15,1:1j,1:x,2:1p,1:x,2:1p,2:o,1:15,1:u,2,1,2,1:h,1:1j,2:15,1:10,1,1:w,2,2:h,5:10,1,2,1:k,6:13,1,1,3,1,2,6,1:e,4:4,2,1,1:k,1:13,1:e,1:4,1:13,1:4,1:13,1:4,2,1:e,2:k,3:4,1:c,1:4,1:r,1:c,2:1c,1:13,2,2:4,1,2:1c,1:e,1:4,1:1c,1:1h,1:1c,1:13,1,1,1:4,1:c,2:13,1:1h,1:j,1:c,1:4,2:r,2:e,2:1h,2:e,1:k,n:c,2:1l,1:1r,1:13,1:16,1:l,2:13,1:1r,1:y,3,1:a,1:y,1:l,1:a,1:16,3:1r,1:l,1:13,1:c,1:16,1:13,1:y,1:16,1:13,1,1:l,1:13,1:y,1:a,3:13,1:1l,1:1r,1:a,2:1l,3,1:13,1,1:16,1:y,2,2:l,1:y,1,1,1,1:1l,1:16,1:1l,1:16,1:1,2:r,1:13,1:l,1:y,1,2:1r,1:13,1:1r,1:1l,1,2:13,2:r,1,3:1r,2:13,1:16,a:1l,1:y',
+    cities: 'Abbeville=1k|Abita Springs=1f|Acme=e|Addis=1o|Aimwell=c|Akers=1g|Albany=v|Alexandria=13|Ama=18|Amelia=1e|Amite=1g|Anacoco=1l|Angie=1m|Angola=1q|Arabi=17|Arcadia=6|Archibald=15|Arnaudville=1c|Ashland=y|Athens=d|Atlanta=1r|Avery Island=m|Baker=g|Baldwin=1e|Ball=13|Barataria=p|Barksdale Afb=7|Basile=j|Baskin=k|Bastrop=x|Batchelor=12|Baton Rouge=g|Belcher=8|Bell City=9|Belle Chasse=11|Belle Rose=3|Belmont=16|Bentley=l|Benton=7|Bernice=1j|Berwick=1e|Bethany=8|Bienville=6|Blanchard=8|Bogalusa=1m|Bonita=x|Boothville=11|Bordelonville=4|Bossier City=7|Bourg=1i|Boutte=18|Boyce=13|Braithwaite=11|Branch=0|Breaux Bridge=1d|Brittany=2|Broussard=s|Brusly=1o|Bunkie=4|Buras=11|Burnside=2|Bush=1f|Cade=1d|Calhoun=10|Calvin=1r|Cameron=b|Campti=y|Carencro=s|Carville=n|Castor=6|Cecilia=1d|Center Point=4|Centerville=1e|Chalmette=17|Charenton=1e|Chase=k|Chataignier=j|Chatham=o|Chauvin=1i|Cheneyville=13|Choudrant=u|Church Point=0|Clarence=y|Clarks=a|Clayton=e|Clinton=i|Cloutierville=y|Colfax=l|Collinston=x|Columbia=a|Convent=1a|Converse=16|Cotton Valley=1n|Cottonport=4|Coushatta=14|Covington=1f|Creole=b|Crowley=0|Crowville=k|Cullen=1n|Cut Off=t|Darrow=2|Delcambre=1k|Delhi=15|Delta=w|Denham Springs=v|Dequincy=9|Deridder=5|Des Allemands=18|Destrehan=18|Deville=13|Dodson=1r|Donaldsonville=2|Donner=1i|Downsville=1j|Doyline=1n|Dry Creek=5|Dry Prong=l|Dubach=u|Dubberly=1n|Dulac=1i|Duplessis=2|Dupont=4|Duson=s|Echo=13|Edgard=1b|Effie=4|Egan=0|Elizabeth=1|Elm Grove=7|Elmer=13|Elton=q|Empire=11|Enterprise=c|Epps=1p|Erath=1k|Eros=o|Erwinville=1o|Estherwood=0|Ethel=i|Eunice=1c|Evangeline=0|Evans=1l|Evergreen=4|Fairbanks=10|Farmerville=1j|Fenton=q|Ferriday=e|Fisher=16|Flatwoods=13|Flora=y|Florien=16|Fluker=1g|Folsom=1f|Fordoche=12|Forest=1p|Forest Hill=13|Fort Necessity=k|Fort Polk=1l|Franklin=1e|Franklinton=1m|French Settlement=v|Frierson=f|Galliano=t|Garden City=1e|Gardner=13|Garyville=1b|Geismar=2|Georgetown=l|Gheens=t|Gibsland=6|Gibson=1i|Gilbert=k|Gilliam=8|Glenmora=13|Gloster=f|Glynn=12|Golden Meadow=t|Goldonna=y|Gonzales=2|Gorum=y|Grambling=u|Gramercy=1a|Grand Cane=f|Grand Chenier=b|Grand Coteau=1c|Grand Isle=p|Grant=1|Gray=1i|Grayson=a|Greensburg=19|Greenwell Springs=g|Greenwood=8|Gretna=p|Grosse Tete=n|Gueydan=1k|Hackberry=b|Hahnville=18|Hall Summit=14|Hamburg=4|Hammond=1g|Harrisonburg=c|Harvey=p|Haughton=7|Hayes=9|Haynesville=d|Heflin=1n|Hessmer=4|Hester=1a|Hineston=13|Hodge=o|Holden=v|Homer=d|Hornbeck=1l|Hosston=8|Houma=1i|Husser=1g|Ida=8|Independence=1g|Innis=12|Iota=0|Iowa=9|Jackson=i|Jamestown=6|Jarreau=12|Jeanerette=m|Jena=r|Jennings=q|Jigger=k|Jones=x|Jonesboro=o|Jonesville=c|Joyce=1r|Kaplan=1k|Keatchie=f|Keithville=8|Kelly=a|Kenner=p|Kentwood=1g|Kilbourne=1p|Kinder=1|Kraemer=t|Krotz Springs=1c|Kurthwood=1l|La Place=1b|Labadieville=3|Lacassine=q|Lacombe=1f|Lafayette=s|Lafitte=p|Lake Arthur=q|Lake Charles=9|Lake Providence=h|Lakeland=12|Larose=t|Lawtell=1c|Lebeau=1c|Leblanc=1|Lecompte=13|Leesville=1l|Lena=13|Leonville=1c|Lettsworth=12|Libuse=13|Lillie=1j|Lisbon=d|Livingston=v|Livonia=12|Lockport=t|Logansport=f|Longleaf=13|Longstreet=f|Longville=5|Loranger=1g|Loreauville=m|Lottie=12|Luling=18|Lutcher=1a|Lydia=m|Madisonville=1f|Mamou=j|Mandeville=1f|Mangham=15|Mansfield=f|Mansura=4|Many=16|Maringouin=n|Marion=1j|Marksville=4|Marrero=p|Marthaville=y|Mathews=t|Maurepas=v|Maurice=1k|Melrose=y|Melville=1c|Mer Rouge=x|Meraux=17|Mermentau=0|Merryville=5|Metairie=p|Milton=s|Minden=1n|Mittie=1|Monroe=10|Montegut=1i|Monterey=e|Montgomery=l|Mooringsport=8|Mora=y|Moreauville=4|Morgan City=1e|Morganza=12|Morrow=1c|Morse=0|Mount Airy=1b|Mount Hermon=1m|Napoleonville=3|Natalbany=1g|Natchez=y|Natchitoches=y|Negreet=16|New Iberia=m|New Llano=1l|New Orleans=z|New Roads=12|New Sarpy=18|Newellton=1h|Noble=16|Norco=18|Norwood=i|Oak Grove=1p|Oak Ridge=x|Oakdale=1|Oberlin=1|Oil City=8|Olla=r|Opelousas=1c|Oscar=12|Otis=13|Paincourtville=3|Palmetto=1c|Paradis=18|Patterson=1e|Paulina=1a|Pearl River=1f|Pelican=f|Perry=1k|Pierre Part=3|Pilottown=11|Pine Grove=19|Pine Prairie=j|Pineville=13|Pioneer=1p|Pitkin=1l|Plain Dealing=7|Plaquemine=n|Plattenville=3|Plaucheville=4|Pleasant Hill=16|Pointe A La Hache=11|Pollock=l|Ponchatoula=1g|Port Allen=1o|Port Barre=1c|Port Sulphur=11|Powhatan=y|Prairieville=2|Pride=g|Princeton=7|Provencal=y|Quitman=o|Raceland=t|Ragley=5|Rayne=0|Rayville=15|Reddell=j|Reeves=1|Reserve=1b|Rhinehart=c|Ringgold=6|Roanoke=q|Robeline=y|Robert=1g|Rodessa=8|Rosedale=n|Roseland=1g|Rosepine=1l|Rougon=12|Ruby=13|Ruston=u|Saint Amant=2|Saint Benedict=1f|Saint Bernard=17|Saint Francisville=1q|Saint Gabriel=n|Saint James=1a|Saint Joseph=1h|Saint Landry=j|Saint Martinville=1d|Saint Maurice=1r|Saint Rose=18|Saline=6|Sarepta=1n|Schriever=1i|Scott=s|Shongaloo=1n|Shreveport=8|Sibley=1n|Sicily Island=c|Sieper=13|Sikes=1r|Simmesport=4|Simpson=1l|Simsboro=u|Singer=5|Slagle=1l|Slaughter=i|Slidell=1f|Sondheimer=h|Sorrento=2|Spearsville=1j|Springfield=v|Springhill=1n|Starks=9|Start=15|Sterlington=10|Stonewall=f|Sugartown=5|Sulphur=9|Summerfield=d|Sun=1f|Sunset=1c|Sunshine=n|Swartz=10|Talisheek=1f|Tallulah=w|Tangipahoa=1g|Taylor=6|Theriot=1i|Thibodaux=t|Tickfaw=1g|Tioga=13|Transylvania=h|Trout=r|Tullos=r|Tunica=1q|Turkey Creek=j|Uncle Sam=1a|Urania=r|Vacherie=1a|Varnado=1m|Venice=11|Ventress=12|Vidalia=e|Ville Platte=j|Vinton=9|Violet=17|Vivian=8|Wakefield=1q|Walker=v|Washington=1c|Waterproof=1h|Watson=v|Welsh=q|West Monroe=10|Westlake=9|Westwego=p|Weyanoke=1q|White Castle=n|Wildsville=e|Wilson=i|Winnfield=1r|Winnsboro=k|Wisner=k|Woodworth=13|Youngsville=s|Zachary=g|Zwolle=16'
+  },
+  MA: {
+    counties: 'Barnstable|Berkshire|Bristol|Dukes|Essex|Franklin|Hampden|Hampshire|Middlesex|Nantucket|Norfolk|Plymouth|Suffolk|Worcester',
+    zips: 'rt:6,1:7,1,1,1:d,2:7,1:6,1,1,1,1:7,1:6,1,6,1,1,4:7,1,1:6,1:1,1:6,1:d,1:7,1,1:6,1:7,1:6,1:d,1:7,1,1:6,1,9:7,3,1:5,2:6,1,2:7,1,1,1,1,3,2:d,1:6,1:7,1:6,1:5,1:7,1:d,1:7,2:6,2,1,1,1:7,1:d,1:7,1:6,1,2:7,1:6,1,2:d,1:5,1:d,1:6,1:7,1:6,1:7,3:6,1,1,1,1,1,1,1,1,2,4,1,2,1,9,1,9,1,5,7,1,1b,2:1,1,1,h,2,1,1,1,1,1,2,1,5,1,1,1,2,2,1:7,1:1,1,2,5,1,1,1,1,1,1,1,1,2,1,1,2,1,3,v:5,1,s,1:d,6:5,1,1,1,1,1,1:1,1:5,2,1,2,1,1,3,1,5,4,2:d,1:5,1:d,2:5,3,2,1,2,1,1,14:d,a,1:8,1,2:d,2,2,2,1,9:8,1:d,1,1,7:8,2:d,1:8,1,3:d,1,1:8,1,1,1,1:d,1:8,1:d,q,2,1,1,1,1,1,1,1,5,1,2,1,1,1:6,1:d,1,1,1,1,1,2,2,1,2,1,1,1,1,2,1,1,1,2,1,4,a,1,1,2,2,2,1,1,1,a,2,2,1,2,2,b,1,1,1,1,1,1,1,1,1,1,1,1,1,1,12,2,1a:8,1,1,1,1,d,1,1,1,9,1,9:d,1:8,1,3:d,1:8,1:d,1:8,1,3,2,2:d,1,3:8,a,2:d,1:8,2,1,2,6,h,2,2,5:4,2,1:8,2,6,1,2,1,1,1,3:4,1,1,1,1,1,5,1,1,1,1,1,5:8,1,1,1,1,6:4,2:8,1,1,1,1,1,9,3,1,5:4,1:8,1,1,1,1,9:4,2,1,1,1,1,1,1,1,2,3,2,6,1,1,6,1,1,5,1,1,2,4,1,4,1,1,1,8,1,4,1,3,1,1,b,1,1,1,x:b,1:a,1:b,1:a,4,1,1,3,2,3,3,2:b,1,2,1,1,2,1:2,2:b,1,1:a,1,1,1:b,1:a,3:b,1,1,1:a,3:b,1,1:a,3,1,1,9,9,3,f:c,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1:8,1,1,1,1,1,1,1,3,1,1:c,1,1,1:8,2,1,7:c,6:a,1,1,5:8,4,4:a,1,1,1,1,1,1,1,5:c,3,2,2,1,1,1,4,1,1:8,3:c,2,5,g:8,3:c,p,3:a,e:c,1,9,4,1,3:b,1,1,1,1,h:a,2:b,1,2,3,1,1,1,1:2,3:b,1,1,1,1,2:a,1:b,1,1,1,1,1,1,1,4,1:2,1,1:b,1,1,1,1,2,2,1,1:a,2:b,5:2,4:b,2,1,12:8,1,o:a,1,1,4:8,1,1,1,1,1,1:a,1:8,1,1,1,1,2,1,1,1,1,3,1,2,1,1,1,1,1,2:a,1,a,1:8,1:a,1:8,11:0,2,1:3,1:0,1,1:b,1:3,1:0,1,1,1,9:3,1:0,1:9,2:0,1:3,1:b,1:0,2,1,1,1:9,4:3,3:b,3:0,1:3,1:b,8:9,h:0,t,1,1,1,1,1,2,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,2,2,2,1,1,1,1,1,2,1,1,1,1,1,1,1,2,r:2,1,9,1:3,1:2,1,2,1,1,1,1,1,1,1,1,1,c:b,1,1:2,1,1,1,1,1,1,1,1,c,1,1:a,1:2,1,2,1,1,1,1:b,1:2,6,2,1,3,7,1,23a:4,17',
+    cities: 'Abington=b|Accord=b|Acton=8|Acushnet=2|Adams=1|Agawam=6|Allston=c|Amesbury=4|Amherst=7|Andover=4|Arlington=8|Arlington Heights=8|Ashburnham=d|Ashby=8|Ashfield=5|Ashland=8|Ashley Falls=1|Assonet=2|Athol=d|Attleboro=2|Attleboro Falls=2|Auburn=d|Auburndale=8|Avon=a|Ayer=8|Babson Park=a|Baldwinville=d|Barnstable=0|Barre=d|Becket=1|Bedford=8|Belchertown=7|Bellingham=a|Belmont=8|Berkley=2|Berkshire=1|Berlin=d|Bernardston=5|Beverly=4|Billerica=8|Blackstone=d|Blandford=6|Bolton=d|Bondsville=6|Boston=c|Boxborough=8|Boxford=4|Boylston=d|Braintree=a|Brant Rock=b|Brewster=0|Bridgewater=b|Brighton=c|Brimfield=6|Brockton=b|Brookfield=d|Brookline=a|Brookline Village=a|Bryantville=b|Buckland=5|Burlington=8|Buzzards Bay=0|Byfield=4|Cambridge=8|Canton=a|Carlisle=8|Carver=b|Cataumet=0|Centerville=0|Charlemont=5|Charlestown=c|Charlton=d|Charlton City=d|Charlton Depot=d|Chartley=2|Chatham=0|Chelmsford=8|Chelsea=c|Cherry Valley=d|Cheshire=1|Chester=6|Chesterfield=7|Chestnut Hill=8|Chicopee=6|Chilmark=3|Clinton=d|Cohasset=a|Colrain=5|Concord=8|Conway=5|Cotuit=0|Cummaquid=0|Cummington=7|Cuttyhunk=3|Dalton=1|Danvers=4|Dartmouth=2|Dedham=a|Deerfield=5|Dennis=0|Dennis Port=0|Devens=d|Dighton=2|Dorchester=c|Dorchester Center=c|Douglas=d|Dover=a|Dracut=8|Drury=1|Dudley=d|Dunstable=8|Duxbury=b|East Bridgewater=b|East Brookfield=d|East Dennis=0|East Falmouth=0|East Freetown=2|East Longmeadow=6|East Orleans=0|East Otis=1|East Sandwich=0|East Taunton=2|East Templeton=d|East Walpole=a|East Wareham=b|East Weymouth=a|Eastham=0|Easthampton=7|Easton=2|Edgartown=3|Elmwood=b|Erving=5|Essex=4|Everett=8|Fairhaven=2|Fall River=2|Falmouth=0|Fayville=d|Feeding Hills=6|Fiskdale=d|Fitchburg=d|Florence=7|Forestdale=0|Foxboro=a|Framingham=8|Franklin=a|Gardner=d|Georgetown=4|Gilbertville=d|Gill=5|Glendale=1|Gloucester=4|Goshen=7|Grafton=d|Granby=7|Granville=6|Great Barrington=1|Green Harbor=b|Greenbush=b|Greenfield=5|Groton=8|Groveland=4|Hadley=7|Halifax=b|Hamilton=4|Hampden=6|Hanover=b|Hanscom Afb=8|Hanson=b|Hardwick=d|Harvard=d|Harwich=0|Harwich Port=0|Hatfield=7|Hathorne=4|Haverhill=4|Haydenville=7|Heath=5|Hingham=b|Hinsdale=1|Holbrook=a|Holden=d|Holland=6|Holliston=8|Holyoke=6|Hopedale=d|Hopkinton=8|Housatonic=1|Hubbardston=d|Hudson=8|Hull=b|Humarock=b|Huntington=7|Hyannis=0|Hyannis Port=0|Hyde Park=c|Indian Orchard=6|Ipswich=4|Jamaica Plain=c|Jefferson=d|Kingston=b|Lake Pleasant=5|Lakeville=b|Lancaster=d|Lanesborough=1|Lawrence=4|Lee=1|Leeds=7|Leicester=d|Lenox=1|Lenox Dale=1|Leominster=d|Leverett=5|Lexington=8|Lincoln=8|Linwood=d|Littleton=8|Longmeadow=6|Lowell=8|Ludlow=6|Lunenburg=d|Lynn=4|Lynnfield=4|Malden=8|Manchaug=d|Manchester=4|Manomet=b|Mansfield=2|Marblehead=4|Marion=b|Marlborough=8|Marshfield=b|Marshfield Hills=b|Marstons Mills=0|Mashpee=0|Mattapan=c|Mattapoisett=b|Maynard=8|Medfield=a|Medford=8|Medway=a|Melrose=8|Mendon=d|Menemsha=3|Merrimac=4|Methuen=4|Middleboro=b|Middlefield=7|Middleton=4|Milford=d|Mill River=1|Millbury=d|Millers Falls=5|Millis=a|Millville=d|Milton=a|Milton Village=a|Minot=b|Monponsett=b|Monroe Bridge=5|Monson=6|Montague=5|Monterey=1|Monument Beach=0|Nahant=4|Nantucket=9|Natick=8|Needham=a|Needham Heights=a|New Bedford=2|New Braintree=d|New Salem=5|New Town=8|Newbury=4|Newburyport=4|Newton=8|Newton Center=8|Newton Highlands=8|Newton Lower Falls=8|Newton Upper Falls=8|Newtonville=8|Nonantum=8|Norfolk=a|North Adams=1|North Amherst=7|North Andover=4|North Attleboro=2|North Billerica=8|North Brookfield=d|North Carver=b|North Chatham=0|North Chelmsford=8|North Dartmouth=2|North Dighton=2|North Eastham=0|North Easton=2|North Egremont=1|North Falmouth=0|North Grafton=d|North Hatfield=7|North Marshfield=b|North Oxford=d|North Pembroke=b|North Reading=8|North Scituate=b|North Truro=0|North Uxbridge=d|North Waltham=8|North Weymouth=a|Northampton=7|Northborough=d|Northbridge=d|Northfield=5|Norton=2|Norwell=b|Norwood=a|Nutting Lake=8|Oak Bluffs=3|Oakham=d|Ocean Bluff=b|Onset=b|Orange=5|Orleans=0|Osterville=0|Otis=1|Oxford=d|Palmer=6|Paxton=d|Peabody=4|Pembroke=b|Pepperell=8|Petersham=d|Pinehurst=8|Pittsfield=1|Plainfield=7|Plainville=a|Plymouth=b|Plympton=b|Pocasset=0|Prides Crossing=4|Princeton=d|Provincetown=0|Quincy=a|Randolph=a|Raynham=2|Raynham Center=2|Reading=8|Readville=c|Rehoboth=2|Revere=c|Richmond=1|Rochdale=d|Rochester=b|Rockland=b|Rockport=4|Roslindale=c|Rowe=5|Rowley=4|Roxbury=c|Roxbury Crossing=c|Royalston=d|Russell=6|Rutland=d|Sagamore=0|Sagamore Beach=0|Salem=4|Salisbury=4|Sandisfield=1|Sandwich=0|Saugus=4|Savoy=1|Scituate=b|Seekonk=2|Sharon=a|Sheffield=1|Shelburne Falls=5|Sheldonville=a|Sherborn=8|Shirley=8|Shrewsbury=d|Shutesbury=5|Siasconset=9|Somerset=2|Somerville=8|South Barre=d|South Carver=b|South Chatham=0|South Dartmouth=2|South Deerfield=5|South Dennis=0|South Easton=2|South Egremont=1|South Grafton=d|South Hadley=7|South Hamilton=4|South Harwich=0|South Lancaster=d|South Lee=1|South Orleans=0|South Walpole=a|South Wellfleet=0|South Weymouth=a|South Yarmouth=0|Southampton=7|Southborough=d|Southbridge=d|Southfield=1|Southwick=6|Spencer=d|Springfield=6|Sterling=d|Still River=d|Stockbridge=1|Stoneham=8|Stoughton=a|Stow=8|Sturbridge=d|Sudbury=8|Sunderland=5|Sutton=d|Swampscott=4|Swansea=2|Taunton=2|Templeton=d|Tewksbury=8|Thorndike=6|Three Rivers=6|Topsfield=4|Townsend=8|Truro=0|Turners Falls=5|Tyngsboro=8|Tyringham=1|Upton=d|Uxbridge=d|Vineyard Haven=3|Waban=8|Wakefield=8|Wales=6|Walpole=a|Waltham=8|Ware=7|Wareham=b|Warren=d|Warwick=5|Watertown=8|Waverley=8|Wayland=8|Webster=d|Wellesley=a|Wellesley Hills=a|Wellfleet=0|Wendell=5|Wendell Depot=5|Wenham=4|West Barnstable=0|West Boxford=4|West Boylston=d|West Bridgewater=b|West Brookfield=d|West Chatham=0|West Chesterfield=7|West Dennis=0|West Falmouth=0|West Groton=8|West Harwich=0|West Hatfield=7|West Hyannisport=0|West Medford=8|West Millbury=d|West Newbury=4|West Newton=8|West Roxbury=c|West Springfield=6|West Stockbridge=1|West Tisbury=3|West Townsend=8|West Wareham=b|West Warren=d|West Yarmouth=0|Westborough=d|Westfield=6|Westford=8|Westminster=d|Weston=8|Westport=2|Westport Point=2|Westwood=a|Weymouth=a|Whately=5|Wheelwright=d|White Horse Beach=b|Whitinsville=d|Whitman=b|Wilbraham=6|Williamsburg=7|Williamstown=1|Wilmington=8|Winchendon=d|Winchester=8|Windsor=1|Winthrop=c|Woburn=8|Woods Hole=0|Woodville=8|Worcester=d|Woronoco=6|Worthington=7|Wrentham=a|Yarmouth Port=0'
+  },
+  MD: {
+    counties: 'Allegany|Anne Arundel|Baltimore|Baltimore City|Calvert|Caroline|Carroll|Cecil|Charles|Dorchester|Frederick|Garrett|Harford|Howard|Kent|Montgomery|Prince George\'s|Queen Anne\'s|Somerset|St. Mary\'s|Talbot|Washington|Wicomico|Worcester',
+    zips: 'fvw:d,d:8,1,1,1,2:j,1:g,1,1:j,1:4,1:8,1,1:g,2:4,1:8,1,1:j,1,1,1,1,1:g,1:j,1:8,1:j,1,1,1:4,1:j,2:8,2:j,1,1,1:8,2:4,1:8,3,2,1,4:j,3,3,1:4,1:8,1:j,1,1:8,1,2,3:j,3,4,1:8,1:4,1:8,1:4,2:j,2:8,2:j,1:4,1:j,1,1:4,1,1:j,2,1:8,2,2:g,4:d,2:g,1,1,1,1,1,1,1,1:1,1:g,2:4,1:g,1,1,1,1,1,1,1,1:d,1:1,1:g,1,5,1:4,1:1,2:g,1:4,1:g,1,2,1,1,1,1,1,1,1,1,1,1,1:1,1:g,1,1:4,1:1,2:g,1:1,1:d,3:g,1:d,1:1,1,3:g,1,1,1,1,1,1,1,1:1,1:d,1:1,1,2:g,1,1,1,1,2,1,2,1,1,2:d,3:g,2,b:f,1,1,1,1,1,1,1,1,6,1,2,3,2,1,4,1,1,2,1,5,1,1,1,1,1,1,1,1,2,2,1,1,1,4,2,3,1,2,1,1,1,1,1,1,2,1,1,1,1,3,2,1,2,1,1,1,1,1,2,1,1,1,1,1,1,1,2,1,1,1:g,1:f,1,1,2,23,4,4:c,4,4,1,2:1,1:2,1:c,1,2,1,2:2,2,1,4,1:c,1:d,1:2,1,1:1,2:c,1:1,1:d,1:1,3:c,1:d,1,1,1,1,1,1:c,1:6,2:c,1:2,1,1,1:1,2,1:2,3:1,1,1,3:2,6,3:6,1:d,1:1,1,1:c,4:2,2:c,1,2:2,1:6,2:1,2:2,1,1,8:6,2,1:2,1:1,2,3:2,2:1,1,3:2,3,2:1,1,5:2,2:c,1:2,1:c,1:2,3,3,1:1,4,2,4:d,2:2,1,1:c,1:2,1,1:6,1,2:c,1,1:2,1,12:3,1,1,1:2,1:3,1,1:2,1,1:3,1,1,1,1,1,1,1,1,1,1:2,1,1,1,1:3,1,1:1,1,1:2,1,1:3,1,1,2,1:2,1:3,1:2,1,2:3,1:1,1:3,3:2,6,1,1,b:3,1,6,3,2,3,1,1,1,1:2,2,1,1,1:3,1,1,1,7,1,2v:1,1,1,1,1,4,2,1,2h:0,1,1,1,1,f:b,1:0,1:b,1,1:0,4,1,1,1:b,1:0,4:b,2,1:0,1,1:b,1:0,1,2,5:b,5:0,1,1,3,1:b,1:0,13:k,6:h,2:5,1:e,2:k,1:9,4:h,2,1:e,2:9,1:h,1:k,1,1:9,1,1:h,1:5,2:9,1:5,2:9,1:e,1:5,2:h,1:5,1,1,2:9,1:h,1:e,2:k,1:9,1:5,1:e,1,1:k,1,1,1:5,1:h,1,1,1:9,1:5,1:e,1:k,1,1:9,1:k,1:h,1:e,1:h,1:9,1:5,1:k,1:9,1:k,2:9,1:k,1:9,1:e,1:k,b:h,b:a,1,1,1,1,4,1,1:l,2,1:a,1:l,1:a,1,1,1:l,1,1,1,1:d,4:a,6:l,1,3:d,1,2:l,1,1,4,1,2,1,4:a,1,1:l,1:6,1:a,1,3,3:d,1:0,1:l,2:a,1,1,2,1,1,1:6,1:a,1,1:l,1:a,1:l,1,1,1:6,3,1:a,2,1:6,1:a,1,1:d,1:l,2:6,1:a,3:m,1,1,1,6,1:n,2,1:m,3:i,4,1:n,2:i,2:m,3:n,1:m,5:9,1:i,1:m,1:i,2:m,1:n,1,1,6:m,1,1:n,1:m,1:i,3:m,1:i,4:m,1:n,1,1,1:m,1:i,1,2:9,2:i,1:n,2:m,1,f:i,b:7,1,1,1,7,1,1,1,1,1,1,1,1,1,1,1,8',
+    cities: 'Abell=j|Aberdeen=c|Aberdeen Proving Ground=c|Abingdon=c|Accident=b|Accokeek=g|Adamstown=a|Allen=m|Andrews Air Force Base=g|Annapolis=1|Annapolis Junction=d|Aquasco=g|Arnold=1|Ashton=f|Avenue=j|Baldwin=2|Baltimore=3|Barclay=h|Barnesville=f|Barstow=4|Barton=0|Beallsville=f|Bel Air=c|Bel Alton=8|Belcamp=c|Beltsville=g|Benedict=8|Benson=c|Berlin=n|Bethesda=f|Bethlehem=5|Betterton=e|Big Pool=l|Bishopville=n|Bittinger=b|Bivalve=m|Bladensburg=g|Bloomington=b|Boonsboro=l|Boring=2|Bowie=g|Boyds=f|Bozman=k|Braddock Heights=a|Brandywine=g|Brentwood=g|Brinklow=f|Brookeville=f|Brooklandville=2|Brooklyn=1|Broomes Island=4|Brownsville=l|Brunswick=a|Bryans Road=8|Bryantown=8|Buckeystown=a|Burkittsville=a|Burtonsville=f|Bushwood=j|Butler=2|Cabin John=f|California=j|Callaway=j|Cambridge=9|Capitol Heights=g|Cascade=l|Catonsville=2|Cavetown=l|Cecilton=7|Centreville=h|Chaptico=j|Charlestown=7|Charlotte Hall=j|Chase=2|Cheltenham=g|Chesapeake Beach=4|Chesapeake City=7|Chester=h|Chestertown=e|Chevy Chase=f|Chewsville=l|Childs=7|Church Creek=9|Church Hill=h|Churchton=1|Churchville=c|Claiborne=k|Clarksburg=f|Clarksville=d|Clear Spring=l|Clements=j|Clinton=g|Cobb Island=8|Cockeysville=2|College Park=g|Colora=7|Coltons Point=j|Columbia=d|Compton=j|Conowingo=7|Cooksville=d|Cordova=k|Corriganville=0|Crapo=9|Crisfield=i|Crocheron=9|Crofton=1|Crownsville=1|Crumpton=h|Cumberland=0|Curtis Bay=1|Damascus=f|Dameron=j|Darlington=c|Davidsonville=1|Dayton=d|Deal Island=i|Deale=1|Delmar=m|Denton=5|Derwood=f|Dhs=d|Dickerson=f|District Heights=g|Dowell=4|Drayden=j|Dundalk=2|Dunkirk=4|Earleville=7|East New Market=9|Easton=k|Eckhart Mines=0|Eden=n|Edgewater=1|Edgewood=c|Elk Mills=7|Elkridge=d|Elkton=7|Ellerslie=0|Ellicott City=d|Emmitsburg=a|Essex=2|Ewell=i|Fairplay=l|Fallston=c|Faulkner=8|Federalsburg=5|Finksburg=6|Fishing Creek=9|Flintstone=0|Forest Hill=c|Fork=2|Fort George G Meade=1|Fort Howard=2|Fort Washington=g|Frederick=a|Freeland=2|Friendship=1|Friendsville=b|Frostburg=0|Fruitland=m|Fulton=d|Funkstown=l|Gaithersburg=f|Galena=e|Galesville=1|Gambrills=1|Garrett Park=f|Georgetown=7|Germantown=f|Gibson Island=1|Girdletree=n|Glen Arm=2|Glen Burnie=1|Glen Echo=f|Glenelg=d|Glenn Dale=g|Glenwood=d|Glyndon=2|Goldsboro=5|Grantsville=b|Grasonville=h|Great Mills=j|Greenbelt=g|Greensboro=5|Gunpowder=c|Gwynn Oak=2|Hagerstown=l|Halethorpe=2|Hampstead=6|Hancock=l|Hanover=1|Harmans=1|Harwood=1|Havre De Grace=c|Hebron=m|Helen=j|Henderson=5|Highland=d|Hillsboro=5|Hollywood=j|Hughesville=8|Hunt Valley=2|Huntingtown=4|Hurlock=9|Hyattsville=g|Hydes=2|Ijamsville=a|Indian Head=8|Ingleside=h|Ironsides=8|Issue=8|Jarrettsville=c|Jefferson=a|Jessup=d|Joppa=c|Keedysville=l|Kennedyville=e|Kensington=f|Keymar=6|Kingsville=2|Kitzmiller=b|Knoxville=a|La Plata=8|Ladiesburg=a|Lanham=g|Laurel=g|Leonardtown=j|Lexington Park=j|Libertytown=a|Lineboro=6|Linkwood=9|Linthicum Heights=1|Lisbon=d|Little Orleans=0|Lonaconing=0|Long Green=2|Lothian=1|Loveville=j|Luke=0|Lusby=4|Lutherville Timonium=2|Madison=9|Manchester=6|Manokin=i|Marbury=8|Mardela Springs=m|Marion Station=i|Marriottsville=6|Marydel=5|Maryland Line=2|Massey=e|Maugansville=l|Mayo=1|Mc Henry=b|Mcdaniel=k|Mechanicsville=j|Middle River=2|Middletown=a|Midland=0|Midlothian=0|Millersville=1|Millington=e|Monkton=2|Monrovia=a|Montgomery Village=f|Morganza=j|Mount Airy=a|Mount Rainier=g|Mount Savage=0|Mount Victoria=8|Myersville=a|Nanjemoy=8|Nanticoke=m|Neavitt=k|New Market=a|New Midway=a|New Windsor=6|Newark=n|Newburg=8|Newcomb=k|North Beach=4|North East=7|Nottingham=2|Oakland=b|Ocean City=n|Odenton=1|Oldtown=0|Olney=f|Owings=4|Owings Mills=2|Oxford=k|Oxon Hill=g|Park Hall=j|Parkton=2|Parkville=2|Parsonsburg=m|Pasadena=1|Patuxent River=j|Perry Hall=2|Perry Point=7|Perryman=c|Perryville=7|Phoenix=2|Pikesville=2|Piney Point=j|Pinto=0|Pittsville=m|Pocomoke City=n|Point Of Rocks=a|Pomfret=8|Poolesville=f|Port Deposit=7|Port Republic=4|Port Tobacco=8|Potomac=f|Powellville=m|Preston=5|Price=h|Prince Frederick=4|Princess Anne=i|Pylesville=c|Quantico=m|Queen Anne=h|Queenstown=h|Randallstown=2|Rawlings=0|Rehobeth=i|Reisterstown=2|Rhodesdale=9|Riderwood=2|Ridge=j|Ridgely=5|Rising Sun=7|Riva=1|Riverdale=g|Rock Hall=e|Rock Point=8|Rockville=f|Rocky Ridge=a|Rohrersville=l|Rosedale=2|Royal Oak=k|Sabillasville=a|Saint Inigoes=j|Saint James=l|Saint Leonard=4|Saint Marys City=j|Saint Michaels=k|Salisbury=m|Sandy Spring=f|Savage=d|Scotland=j|Secretary=9|Severn=1|Severna Park=1|Shady Side=1|Sharpsburg=l|Sharptown=m|Sherwood=k|Showell=n|Silver Spring=f|Simpsonville=d|Smithsburg=l|Snow Hill=n|Solomons=4|Southern Md Facility=g|Sparks Glencoe=2|Sparrows Point=2|Spencerville=f|Spring Gap=0|Stevenson=2|Stevensville=h|Still Pond=e|Stockton=n|Street=c|Suburb Maryland Fac=f|Sudlersville=h|Suitland=g|Sunderland=4|Swanton=b|Sykesville=6|Takoma Park=f|Tall Timbers=j|Taneytown=6|Taylors Island=9|Temple Hills=g|Templeville=5|Thurmont=a|Tilghman=k|Toddville=9|Towson=2|Tracys Landing=1|Trappe=k|Tuscarora=a|Tyaskin=m|Tylerton=i|Union Bridge=6|Unionville=a|Upper Fairmount=i|Upper Falls=2|Upper Marlboro=g|Upperco=2|Valley Lee=j|Vienna=9|Waldorf=8|Walkersville=a|Warwick=7|Washington Grove=f|Welcome=8|West Friendship=d|West River=1|Westernport=0|Westminster=6|Westover=i|Whaleyville=n|White Hall=c|White Marsh=2|White Plains=8|Whiteford=c|Willards=m|Williamsport=l|Windsor Mill=2|Wingate=9|Wittman=k|Woodbine=6|Woodsboro=a|Woodstock=2|Woolford=9|Worton=e|Wye Mills=k'
+  },
+  ME: {
+    counties: 'Androscoggin|Aroostook|Cumberland|Franklin|Hancock|Kennebec|Knox|Lincoln|Oxford|Penobscot|Piscataquis|Sagadahoc|Somerset|Waldo|Washington|York',
+    zips: '30d:f,1,1,1,1,1,1,1,1,1,1,2i,1,1:2,1:f,1,1,1,1:b,1:2,1:8,1:2,2,1:f,1:2,1:8,1:2,2,1:f,1:2,1:8,2:2,3:f,1,1:2,1:f,2:2,1,1,3:8,1:2,1,1,1:8,1:f,1,3,1,1,1,1:2,1:8,3:f,1:2,1:f,1:2,4:f,1:2,1:f,1,2:2,2:8,1:2,1,1,1:f,1,1:2,2:f,1:2,1,1,3,1:f,1:2,1,1:b,1:f,1:8,2:f,1:2,1,1:f,1,1,1:2,1,1,3,1,1,1,1,1,1,1,1,1,2,4,6,1,1,2e:0,1,1,4:8,1,2,1,1,1:0,1,1:8,1:3,1:8,1:3,1:0,2,1:8,3:3,2:0,1:8,1,1:3,1:0,1,2,7,2,1,1,1:8,1:0,1:8,1:0,1:5,1:2,1:8,1:3,1:0,2:5,1:0,1:8,1,2,1,3:0,1:8,1,4:0,1:8,1:0,2:5,1:3,1:8,1:b,1:0,1:8,1,1:0,1:8,2:3,10:5,2,1,3,2,3:7,1,1:5,1,1,1,1,1:7,1:5,1,1,1,1:7,1:d,1:5,2:b,1:5,1,1,3,1,11:9,1,4:a,2:4,2:9,1,1,1:e,1:a,1,1:4,1:9,1,1,1:4,1,1:9,2:e,2:a,1:9,1,1,1,1:4,3:9,1,3:d,3:a,1,1,1:9,4,1,1,1,2,1:e,1:9,1,1,2,1,1,1,1:a,1,4:9,1,2:1,1:4,1:9,1,1,1:4,2:c,1:a,2,4,2:9,1,1,1:e,1,1,1:9,2,1:d,1:1,x:b,5:7,2,1,1,2,2,1,3:6,1:b,1:7,2,2,1,1,1,2,4:b,1:6,1:7,1:b,3:7,2,1,1,1,1:6,1:7,1,2,1:b,q:4,1:e,1:4,2,2:e,1:4,1,1,2,1,2:e,3,1,1:4,1,1:e,1:4,1:e,1:4,1:e,1,3:4,1,2:e,3:4,2,1:e,1:4,1:6,1:4,2:e,1,1:4,2:e,1:4,1:e,1,2,1,2:4,2,2,2:e,1,1,1:4,2:e,1:4,1,1,1,1,1,2,1:e,1:4,2,1,1,1:e,5,2:4,1:e,10:1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,3,1,5,1,1,2,1,1,1,1,1:9,1:1,2,1,3,1,1,1,1,1:9,2:1,1,1,2,2,1,1,1i:6,2,4,1:d,1,1,1:6,1:7,1:6,1,1,1,2,1,1,1,1,1,1,1,10:5,2,7,1:c,1,3:d,2:5,1,2:c,1:d,1,1:c,1,1,1:5,1,1:9,1:c,1:9,2,1,2:5,1:3,1:c,1:3,1:9,1:3,1:d,1:c,1,1,1,2:3,2:d,1:c,1:d,1,1:9,1:c,1:3,1,1:c,1,3,1:5,1,1:3,1:c,1:3,1:c,2:9,1:3,1:c,1:d,1,1,1:c,1,2,1,2:d,1:3,1,1,1:c,1:d,1,1,1:5,3:3',
+    cities: 'Abbot=a|Acton=f|Addison=e|Albion=5|Alfred=f|Alna=7|Andover=8|Anson=c|Ashland=1|Athens=c|Auburn=0|Augusta=5|Aurora=4|Bailey Island=2|Baileyville=e|Bangor=9|Bar Harbor=4|Bar Mills=f|Bass Harbor=4|Bath=b|Beals=e|Belfast=d|Belgrade=5|Belgrade Lakes=5|Benedicta=1|Bernard=4|Berwick=f|Bethel=8|Biddeford=f|Biddeford Pool=f|Bingham=c|Birch Harbor=4|Blaine=1|Blue Hill=4|Boothbay=7|Boothbay Harbor=7|Bowdoin=b|Bowdoinham=b|Bradford=9|Bradley=9|Bremen=7|Brewer=9|Bridgewater=1|Bridgton=2|Bristol=7|Brooklin=4|Brooks=d|Brooksville=4|Brookton=e|Brownfield=8|Brownville=a|Brownville Junction=a|Brunswick=2|Bryant Pond=8|Buckfield=8|Bucksport=4|Burlington=9|Burnham=d|Bustins Island=2|Buxton=f|Calais=e|Cambridge=c|Camden=6|Canaan=c|Canton=8|Cape Elizabeth=2|Cape Neddick=f|Cape Porpoise=f|Caratunk=c|Caribou=1|Carmel=9|Casco=2|Castine=4|Center Lovell=8|Chamberlain=7|Charleston=9|Chebeague Island=2|Cherryfield=e|China Village=5|Clayton Lake=1|Cliff Island=2|Clinton=5|Columbia Falls=e|Coopers Mills=7|Corea=4|Corinna=9|Corinth=9|Cornish=f|Cranberry Isles=4|Crouseville=1|Cumberland Center=2|Cumberland Foreside=2|Cushing=6|Cutler=e|Damariscotta=7|Danforth=e|Danville=0|Deer Isle=4|Denmark=8|Dennysville=e|Detroit=c|Dexter=9|Dixfield=8|Dixmont=9|Dover Foxcroft=a|Dresden=7|Dryden=3|Durham=0|Eagle Lake=1|East Andover=8|East Baldwin=2|East Blue Hill=4|East Boothbay=7|East Dixfield=3|East Livermore=0|East Machias=e|East Millinocket=9|East Newport=9|East Orland=4|East Parsonsfield=f|East Poland=0|East Vassalboro=5|East Waterboro=f|East Wilton=3|East Winthrop=5|Easton=1|Eastport=e|Eddington=9|Edgecomb=7|Eliot=f|Ellsworth=4|Estcourt Station=1|Etna=9|Eustis=3|Exeter=9|Fairfield=c|Falmouth=2|Farmingdale=5|Farmington=3|Farmington Falls=3|Fort Fairfield=1|Fort Kent=1|Fort Kent Mills=1|Frankfort=d|Franklin=4|Freedom=d|Freeport=2|Frenchboro=4|Frenchville=1|Friendship=6|Fryeburg=8|Gardiner=5|Garland=9|Georgetown=b|Gorham=2|Gouldsboro=4|Grand Isle=1|Grand Lake Stream=e|Gray=2|Greenbush=9|Greene=0|Greenville=a|Greenville Junction=a|Greenwood=8|Guilford=a|Hallowell=5|Hampden=9|Hancock=4|Hanover=8|Harborside=4|Harmony=c|Harpswell=2|Harrington=e|Harrison=2|Hartland=c|Hebron=8|Hinckley=c|Hiram=8|Holden=9|Hollis Center=f|Hope=6|Houlton=1|Howland=9|Hudson=9|Hulls Cove=4|Island Falls=1|Isle Au Haut=6|Isle Of Springs=7|Islesboro=d|Islesford=4|Jackman=c|Jay=3|Jefferson=7|Jonesboro=e|Jonesport=e|Kenduskeag=9|Kennebunk=f|Kennebunkport=f|Kents Hill=5|Kingfield=3|Kingman=9|Kittery=f|Kittery Point=f|Lagrange=9|Lambert Lake=e|Lebanon=f|Lee=9|Leeds=0|Levant=9|Lewiston=0|Liberty=d|Limerick=f|Limestone=1|Limington=f|Lincoln=9|Lincolnville=d|Lincolnville Center=d|Lisbon=0|Lisbon Falls=0|Litchfield=5|Little Deer Isle=4|Livermore=0|Livermore Falls=0|Long Island=2|Lovell=8|Lubec=e|Machias=e|Machiasport=e|Madawaska=1|Madison=c|Manchester=5|Mapleton=1|Mars Hill=1|Matinicus=6|Mattawamkeag=9|Mechanic Falls=0|Meddybemps=e|Medway=9|Mexico=8|Milbridge=e|Milford=9|Millinocket=9|Milo=a|Minot=0|Monhegan=7|Monmouth=5|Monroe=d|Monson=a|Monticello=1|Moody=f|Morrill=d|Mount Desert=4|Mount Vernon=5|Naples=2|New Gloucester=2|New Harbor=7|New Limerick=1|New Portland=c|New Sharon=3|New Sweden=1|New Vineyard=3|Newcastle=7|Newfield=f|Newport=9|Newry=8|Nobleboro=7|Norridgewock=c|North Anson=c|North Berwick=f|North Bridgton=2|North Haven=6|North Jay=3|North Monmouth=5|North Turner=0|North Vassalboro=5|North Waterboro=f|North Waterford=8|North Yarmouth=2|Northeast Harbor=4|Norway=8|Oakfield=1|Oakland=5|Ocean Park=f|Ogunquit=f|Old Orchard Beach=f|Old Town=9|Oquossoc=3|Orient=1|Orland=4|Orono=9|Orrington=9|Orrs Island=2|Owls Head=6|Oxbow=1|Oxford=8|Palermo=d|Palmyra=c|Paris=8|Parsonsfield=f|Passadumkeag=9|Patten=9|Peaks Island=2|Pemaquid=7|Pembroke=e|Penobscot=4|Perham=1|Perry=e|Peru=8|Phillips=3|Phippsburg=b|Pittsfield=c|Plymouth=9|Poland=0|Port Clyde=6|Portage=1|Porter=8|Portland=2|Pownal=2|Presque Isle=1|Princeton=e|Prospect Harbor=4|Randolph=5|Rangeley=3|Raymond=2|Readfield=5|Richmond=b|Robbinston=e|Rockland=6|Rockport=6|Rockwood=c|Round Pond=7|Roxbury=8|Rumford=8|Sabattus=0|Saco=f|Saint Agatha=1|Saint Albans=c|Saint David=1|Saint Francis=1|Salsbury Cove=4|Sandy Point=d|Sanford=f|Sangerville=a|Sargentville=4|Scarborough=2|Seal Cove=4|Seal Harbor=4|Searsmont=d|Searsport=d|Sebago=2|Sebasco Estates=b|Sebec=a|Sedgwick=4|Shapleigh=f|Shawmut=c|Sheridan=1|Sherman=1|Shirley Mills=a|Sinclair=1|Skowhegan=c|Smithfield=c|Smyrna Mills=1|Solon=c|Sorrento=4|South Berwick=f|South Bristol=7|South Casco=2|South China=5|South Freeport=2|South Gardiner=5|South Paris=8|South Portland=2|South Thomaston=6|South Windham=2|Southport=7|Southwest Harbor=4|Springfield=9|Springvale=f|Spruce Head=6|Squirrel Island=7|Stacyville=9|Standish=2|Steep Falls=2|Stetson=9|Steuben=e|Stillwater=9|Stockholm=1|Stockton Springs=d|Stoneham=8|Stonington=4|Stratton=3|Strong=3|Sullivan=4|Sumner=8|Sunset=4|Surry=4|Swans Island=4|Temple=3|Tenants Harbor=6|Thomaston=6|Thorndike=d|Topsfield=e|Topsham=b|Trevett=7|Troy=d|Turner=0|Union=6|Unity=d|Van Buren=1|Vanceboro=e|Vassalboro=5|Vienna=5|Vinalhaven=6|Waite=e|Waldoboro=7|Wallagrass=1|Walpole=7|Warren=6|Washburn=1|Washington=6|Waterboro=f|Waterford=8|Waterville=5|Wayne=5|Weld=3|Wells=f|Wesley=e|West Baldwin=2|West Bethel=8|West Boothbay Harbor=7|West Enfield=9|West Farmington=3|West Forks=c|West Kennebunk=f|West Minot=0|West Newfield=f|West Paris=8|West Poland=0|West Rockport=6|Westbrook=2|Westfield=1|Whitefield=7|Whiting=e|Wilton=3|Windham=2|Windsor=5|Winn=9|Winter Harbor=4|Winterport=d|Winthrop=5|Wiscasset=7|Woolwich=b|Wytopitlock=1|Yarmouth=2|York=f|York Beach=f|York Harbor=f'
+  },
+  MI: {
+    counties: 'Alcona|Alger|Allegan|Alpena|Antrim|Arenac|Baraga|Barry|Bay|Benzie|Berrien|Branch|Calhoun|Cass|Charlevoix|Cheboygan|Chippewa|Clare|Clinton|Crawford|Delta|Dickinson|Eaton|Emmet|Genesee|Gladwin|Gogebic|Grand Traverse|Gratiot|Hillsdale|Houghton|Huron|Ingham|Ionia|Iosco|Iron|Isabella|Jackson|Kalamazoo|Kalkaska|Kent|Keweenaw|Lake|Lapeer|Leelanau|Lenawee|Livingston|Luce|Mackinac|Macomb|Manistee|Marquette|Mason|Mecosta|Menominee|Midland|Missaukee|Monroe|Montcalm|Montmorency|Muskegon|Newaygo|Oakland|Oceana|Ogemaw|Ontonagon|Osceola|Oscoda|Otsego|Ottawa|Presque Isle|Roscommon|Saginaw|Sanilac|Schoolcraft|Shiawassee|St. Clair|St. Joseph|Tuscola|Van Buren|Washtenaw|Wayne|Wexford',
+    zips: '111d:24,1,1:17,1:24,1:1d,1:24,1:1q,2,3,2:24,1:1d,2:1q,4:1d,1:24,1,2:1q,1:1d,1:24,1,2:1q,2:24,1:1q,1,1:1d,1,1:1q,1:1d,1:24,1,1,1:1d,1,1,1,1,1,1,1:24,1:1d,1,3:24,5,1,1,1:1d,1:24,1,1:1d,1,1:1q,1,1,1,1,1,1,1:24,1:1q,1,3:24,1:1d,1,1,1:1q,1,1,1,2:1d,1,1,1,1,1,1,1,1,1:24,1:1q,1,2:29,2:28,1,1,1,1,1,1,1:1l,1:29,1,1:28,1:1a,1:28,1:1a,1:1l,1:28,2:29,1,1,1,1,1,1,1,1,2:28,1:1l,2,1:29,1,1,1:1a,1:29,1:1a,1:1l,1:29,2:1a,1:1l,1,1:29,4,1,1,1,1,3:1l,1:28,1:1l,1,1,1,2:29,1:1q,1:1l,1:29,1,1:1a,1:29,3,1,1:28,1,1:1l,1:1q,1:1l,1:29,2:1l,1:29,1,1,1,1,1,1:28,1,1,1:29,1,2,2:28,1,3:29,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1:1q,1:29,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1:1q,1:29,1,1,2,1,1,b,5,4,1,1,1,1,1,3,3,2,1,1,9,d:1q,1,1,1,2,1,1,1,1:1d,1,1,1,1,1,1,1,1,2:1q,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,4,1,1,1,3,1,1,2,3:1a,3:1q,1,2,1,1,1,1,3,1,3,1,3,1,1,1,3,1,1,1,3,1,3,1,2,4:1d,4:21,9,1:o,1:17,1:v,1:23,1:20,1:21,1:20,1:23,1:21,1:o,1:17,1:21,1:o,3:21,1,1:17,1:23,1:o,2:v,1:o,1:21,1:26,1:o,1,1,1,1:17,1:v,1:1q,2:17,1:v,1:17,3:o,1:21,1:o,2:21,1,1:17,1:21,1:o,1,2:23,1:17,1:1q,1:o,1:17,1:21,1,1:v,1,1:21,1:v,1:21,1,1:o,2:v,1:23,4:o,l,1,1,1,1,1,1,2,a,a,2,1,i,1,1,1,1,1,1,1,18:20,1,1,1,1,1,1,1,1,1:1s,1:8,1:p,1:8,1:20,1:s,1:20,1:h,1:1j,1:1v,1:1j,1:1v,1:h,1:20,1:p,1:h,1:20,1:1z,1:1j,1:1z,1,1:8,1:h,1,1:8,1:1s,1:1v,1:20,1:p,2:1j,1,1,5:1v,2:20,1:8,1:1z,1:p,1:1z,1:1s,1:20,1:1z,1:1j,1:5,1,2:1s,1:s,1:20,4:1j,3,4,c,f:26,2:5,2:0,1:8,1,1,2,a:v,1:0,1:20,1:26,1:20,1:v,1:26,1:17,1:0,1:26,1:y,1:v,1:8,1:26,1:20,1:26,2:0,1,1:y,1:0,1:26,1:0,1:y,1:26,1:0,1:26,1:8,1:y,1:5,1:y,4:v,1,1:1s,1:26,1,1:v,1:17,1:1s,1:0,1:y,1,1:5,1,1:26,1,2:y,h:20,e:s,3:10,1:w,1:s,1,1:i,1:x,2:1m,1,1:m,2:x,1:1a,1:23,1:1m,1:w,1:i,1:m,1:i,1:w,1,1,1,1:m,2:1m,1:s,1:i,1:s,1:i,1:1m,1:i,1:1a,1:m,1:1m,2:w,1:23,1:w,1:1a,1,1:x,1,1:s,1:23,1:x,1:1m,1:x,1:1m,1:i,1:w,1:1a,1:s,1:23,1:10,1,1:x,1:m,1:s,2:w,1:x,1:i,1:23,3:x,1:s,1:23,1:x,1:s,1:x,1:m,1:s,1:10,1:i,1:s,1:x,1:23,1:10,1:1m,1,1,1:x,1:1m,1:s,1:m,1:1m,1:w,1:10,1:i,1:w,1:10,1:7,4:w,5,2:m,1:w,1,1,1,1,2,1,1:m,1:w,1,3,2,5,1,3,4,e,5,o,l:12,1,1,1,1,1,1,1,1,1:2,1:c,1:12,1:27,1:c,1,1,1,1,1:12,1:c,1:m,1:a,1,1:12,2:27,1,1:b,1:c,1:25,1:d,1:25,1:c,1:12,1:7,1:b,1:c,1:a,1,1:25,1:12,1:25,1:27,2,1:7,1:d,1:12,2:7,1:c,1:12,1,2:27,1,1,1:7,2,1:d,1:27,1,1,1,1:25,1:d,1:c,2:2,1:27,1:25,1:7,1:12,1:25,1:m,1:12,1:2,1:27,1:2,1:12,1:b,1:12,1:a,1,2:12,1,1:b,1:27,1:25,1:c,1:25,1:b,1:d,1:m,1:12,1:a,1:25,2:a,1,1,1,2,1,4,1:d,1:a,2,1,1,2,1,5,1,1,1,1,1:d,1z:11,1,1,1,g:19,1,3:c,3:t,1:19,1,1:11,2:t,1:19,1:11,1:19,1,1:11,1:19,1:t,1:11,1,1:t,3:c,1:11,1:19,1,1:t,1,1:w,1:t,1:19,1:11,1:b,1:19,1:t,1,1:11,2,1:t,1:11,1:w,1:19,1:t,1:1l,1:19,1:11,1:1l,1:t,1:11,2:t,2:19,1:11,2:19,2:t,1,1:11,1,1:w,1:19,1,1:t,1:19,c:14,1,1:1o,1:16,1:1h,1:14,1:1h,2:1p,1:10,1:2,1:1p,2:2,1:14,1,1,1:1o,1:14,1:1h,1:14,1:1m,1:2,2:7,1:1m,1:1p,1:2,1:1m,1:14,1,1:1h,1:7,2:2,1:1h,1:1p,1:1h,1:1m,1:1h,1:14,1:1h,1:14,1:2,1:14,1:1h,1:1m,1:2,1:1p,2:14,4,1,1,18:1x,1:16,1:1x,1,1:1g,1:2,2,1:1x,1:1g,1,1:1p,1,2:1o,1:2,1:1x,1:14,1:2,1:1r,1,1:1x,1,1,1:1o,1:1x,1,1,1,1,1:1g,3:1x,1,1:1r,1:1o,3,1,1,1,1,1,1:1r,2:1x,1:1r,1:2,1:1o,1:1r,1:2,1:1g,1:1r,1:1x,1:1o,1:1g,1:1r,1:1x,1:1o,2,1:1x,4:14,x,1,1,1,1,1,1,1,1,1,2,2,1,1,2,1,4,2,3,2,4:1x,a:14,2,2,7,5,s,b,2:2a,9:r,1:4,1,1:1e,1,1:4,1:9,1,1:2a,1:1e,1:2a,1:18,1:4,1:16,2:1e,1,1:4,1:9,1:4,1:18,1:1u,1:1k,1:r,1:1e,1:9,1:18,1:r,1:2a,1:1u,1:9,2:16,1:r,1:16,1:1e,1:13,2:4,1:r,1:9,1:1k,2:18,1,1:1u,1:16,1:1k,2:4,1:1e,3:2a,1:18,1:1u,1:r,1:1k,1:2a,2:18,3:r,1:18,1:1e,1:13,1:1u,2,1:13,2:18,1:9,1:r,1,1,2:1u,1:1e,1:r,6,5:f,4,1:n,1:3,2:1n,1:g,1:e,1,1,2:g,1:f,1,1:n,1:1c,1:e,1:f,1:n,1,1:g,1,1,1:e,1:g,1:4,1:1w,3:j,1:1w,1,1:g,1:n,1:j,1,1:n,3:1y,1:3,1:1c,1:1n,1:3,1:g,1:f,2:1w,1:g,1:3,2:n,1:1n,1:1c,2:1y,1:1c,1:f,1:1c,2:n,1:1y,1:3,2:g,1:n,1,4:g,1:1c,1:1y,1,2,1:g,1:1c,1:e,1:g,1,1,1,2,3:f,1,1:g,2:1w,1:e,1:1w,2:f,2:l,1,3:15,1:1,1:k,1:1f,4:1i,2:1f,1:l,1:1,1:22,1:k,1:1f,1:1c,1:1i,1:1,3,1,1:1c,2:k,2:l,2:1f,1:l,1:k,1:22,1:k,1:1c,1:1,1:22,1:1f,4:1i,2,1,1:1f,3:l,1:1b,1:22,1:1f,3:1i,3:1f,1:1,1:1i,1:k,1:1f,1,2:1b,2:l,1:1f,1:k,1:1i,1,2:l,1,1:k,1:1f,1:k,1:l,2:22,1:1,1:1f,1:1i,1,4:1,1:l,1:1i,1:k,1:1,1:1i,5:15,1:z,1,2:u,3:6,2:1t,1:q,1:1t,1:u,2:z,1:u,1,1:15,1:6,1:z,1:u,1,3:1t,2:z,2:1t,1:u,1,3,1:z,3:q,4:u,3,1:6,1:q,1:1t,2:15,2:u,1:1t,2:u,3,1:q,1:1t,1:u,1:6,1:u,1:z,1:u,2:1t,1:q,1,1:6,1:1t',
+    cities: 'Acme=r|Ada=14|Addison=19|Adrian=19|Afton=f|Ahmeek=15|Akron=26|Alanson=n|Alba=4|Albion=c|Alden=4|Alger=1s|Algonac=24|Allegan=2|Allen=t|Allen Park=29|Allendale=1x|Allenton=24|Allouez=15|Alma=s|Almont=17|Alpena=3|Alpha=z|Alto=14|Amasa=z|Anchorville=24|Ann Arbor=28|Applegate=21|Arcadia=1e|Argyle=21|Armada=1d|Arnold=1f|Ashley=s|Athens=c|Atlanta=1n|Atlantic Mine=u|Atlas=o|Attica=17|Au Gres=5|Au Train=1|Auburn=8|Auburn Hills=1q|Augusta=12|Avoca=24|Azalia=1l|Bad Axe=v|Bailey=1o|Baldwin=16|Bancroft=23|Bangor=27|Bannister=s|Baraga=6|Barbeau=g|Bark River=k|Baroda=a|Barryton=1h|Barton City=0|Bath=i|Battle Creek=c|Bay City=8|Bay Port=v|Bay Shore=e|Bear Lake=1e|Beaver Island=e|Beaverton=p|Bedford=c|Belding=x|Bellaire=4|Belleville=29|Bellevue=m|Belmont=14|Bentley=8|Benton Harbor=a|Benzonia=9|Bergland=1t|Berkley=1q|Berrien Center=a|Berrien Springs=a|Bessemer=q|Beulah=9|Big Bay=1f|Big Rapids=1h|Birch Run=20|Birmingham=1q|Bitely=1p|Black River=0|Blanchard=10|Blissfield=19|Bloomfield Hills=1q|Bloomingdale=27|Boon=2a|Boyne City=e|Boyne Falls=e|Bradley=2|Branch=16|Brant=20|Breckenridge=s|Breedsville=27|Brethren=1e|Bridgeport=20|Bridgewater=28|Bridgman=a|Brighton=1a|Brimley=g|Britton=19|Brohman=1p|Bronson=b|Brooklyn=11|Brown City=21|Bruce Crossing=1t|Brutus=f|Buchanan=a|Buckley=2a|Burlington=c|Burnips=2|Burr Oak=25|Burt=20|Burt Lake=f|Burton=o|Byron=23|Byron Center=14|Cadillac=2a|Caledonia=14|Calumet=u|Camden=t|Cannonsburg=14|Canton=29|Capac=24|Carleton=1l|Carney=1i|Caro=26|Carp Lake=n|Carrollton=20|Carson City=1m|Carsonville=21|Casco=24|Caseville=v|Casnovia=1o|Caspian=z|Cass City=26|Cassopolis=d|Cedar=18|Cedar Lake=1m|Cedar Springs=14|Cedarville=1c|Cement City=19|Center Line=1d|Central Lake=4|Centreville=25|Ceresco=c|Champion=1f|Channing=l|Charlevoix=e|Charlotte=m|Chase=16|Chassell=u|Chatham=1|Cheboygan=f|Chelsea=28|Chesaning=20|Chippewa Lake=1h|Clare=h|Clarklake=11|Clarkston=1q|Clarksville=x|Clawson=1q|Clayton=19|Clifford=17|Climax=12|Clinton=19|Clinton Township=1d|Clio=o|Cloverdale=7|Cohoctah=1a|Coldwater=b|Coleman=1j|Coloma=a|Colon=25|Columbiaville=17|Columbus=24|Comins=1v|Commerce Township=1q|Comstock=12|Comstock Park=14|Concord=11|Conklin=1x|Constantine=25|Conway=n|Cooks=22|Coopersville=1x|Copemish=1e|Copper City=u|Copper Harbor=15|Coral=1m|Cornell=k|Corunna=23|Covert=27|Covington=6|Cross Village=n|Croswell=21|Crystal=1m|Crystal Falls=z|Curran=0|Curtis=1c|Custer=1g|Dafter=g|Daggett=1i|Dansville=w|Davisburg=1q|Davison=o|De Tour Village=g|Dearborn=29|Dearborn Heights=29|Decatur=27|Decker=21|Deckerville=21|Deerfield=19|Deerton=1|Deford=26|Delton=7|Detroit=29|Dewitt=i|Dexter=28|Dimondale=m|Dodgeville=u|Dollar Bay=u|Dorr=2|Douglas=2|Dowagiac=d|Dowling=7|Drayton Plains=1q|Drummond Island=g|Dryden=17|Dundee=1l|Durand=23|Eagle=i|East China=24|East Jordan=e|East Lansing=w|East Leroy=c|East Tawas=y|Eastlake=1e|Eastpointe=1d|Eastport=4|Eaton Rapids=m|Eau Claire=a|Eben Junction=1|Eckerman=g|Ecorse=29|Edenville=1j|Edmore=1m|Edwardsburg=d|Elberta=9|Elk Rapids=4|Elkton=v|Ellsworth=4|Elm Hall=s|Elmira=1w|Elsie=i|Elwell=s|Emmett=24|Empire=18|Engadine=1c|Erie=1l|Escanaba=k|Essexville=8|Eureka=i|Evart=1u|Ewen=1t|Fair Haven=24|Fairgrove=26|Fairview=1v|Falmouth=1k|Farmington=1q|Farwell=h|Felch=l|Fennville=2|Fenton=o|Fenwick=1m|Ferndale=1q|Ferrysburg=1x|Fife Lake=r|Filer City=1e|Filion=v|Flat Rock=29|Flint=o|Flushing=o|Forestville=21|Fort Gratiot=24|Foster City=l|Fostoria=26|Fountain=1g|Fowler=i|Fowlerville=1a|Frankenmuth=20|Frankfort=9|Franklin=1q|Fraser=1d|Frederic=j|Free Soil=1g|Freeland=20|Freeport=7|Fremont=1p|Frontier=t|Fruitport=1o|Fulton=12|Gaastra=z|Gagetown=26|Gaines=o|Galesburg=12|Galien=a|Garden=k|Garden City=29|Gaylord=1w|Genesee=o|Germfask=22|Gladstone=k|Gladwin=p|Glen Arbor=18|Glenn=2|Glennie=0|Gobles=27|Goetzville=g|Good Hart=n|Goodells=24|Goodrich=o|Gould City=1c|Gowen=1m|Grand Blanc=o|Grand Haven=1x|Grand Junction=27|Grand Ledge=m|Grand Marais=1|Grand Rapids=14|Grandville=14|Grant=1p|Grass Lake=11|Grawn=r|Grayling=j|Greenbush=0|Greenland=1t|Greenville=1m|Gregory=1a|Grosse Ile=29|Grosse Pointe=29|Gulliver=22|Gwinn=1f|Hadley=17|Hagar Shores=a|Hale=y|Hamburg=1a|Hamilton=2|Hamtramck=29|Hancock=u|Hanover=11|Harbert=a|Harbor Beach=v|Harbor Springs=n|Harper Woods=29|Harrietta=2a|Harris=1i|Harrison=h|Harrison Township=1d|Harrisville=0|Harsens Island=24|Hart=1r|Hartford=27|Hartland=1a|Haslett=w|Hastings=7|Hawks=1y|Hazel Park=1q|Hemlock=20|Henderson=23|Hermansville=1i|Herron=3|Hersey=1u|Hesperia=1r|Hessel=1c|Hickory Corners=7|Higgins Lake=1z|Highland=1q|Highland Park=29|Hillman=1n|Hillsdale=t|Holland=1x|Holly=1q|Holt=w|Holton=1o|Homer=c|Honor=9|Hope=1j|Hopkins=2|Horton=11|Houghton=u|Houghton Lake=1z|Houghton Lake Heights=1z|Howard City=1m|Howell=1a|Hubbard Lake=3|Hubbardston=x|Hubbell=u|Hudson=19|Hudsonville=1x|Hulbert=g|Huntington Woods=1q|Ida=1l|Idlewild=16|Imlay City=17|Indian River=f|Ingalls=1i|Inkster=29|Interlochen=r|Ionia=x|Iron Mountain=l|Iron River=z|Irons=16|Ironwood=q|Ishpeming=1f|Ithaca=s|Jackson=11|Jamestown=1x|Jasper=19|Jeddo=24|Jenison=1x|Jerome=t|Johannesburg=1w|Jones=d|Jonesville=t|Kalamazoo=12|Kaleva=1e|Kalkaska=13|Kawkawlin=8|Kearsarge=u|Keego Harbor=1q|Kendall=27|Kent City=14|Kewadin=4|Kincheloe=g|Kinde=v|Kingsford=l|Kingsley=r|Kingston=26|Kinross=g|La Salle=1l|Lachine=3|Lacota=27|Laingsburg=23|Lake=h|Lake Ann=9|Lake City=1k|Lake George=h|Lake Leelanau=18|Lake Linden=u|Lake Odessa=x|Lake Orion=1q|Lakeland=1a|Lakeside=a|Lakeview=1m|Lakeville=1q|Lambertville=1l|Lamont=1x|Lanse=6|Lansing=w|Lapeer=17|Lawrence=27|Lawton=27|Leland=18|Lennon=o|Leonard=1q|Leonidas=25|Leroy=1u|Leslie=w|Levering=n|Lewiston=1n|Lexington=21|Lincoln=0|Lincoln Park=29|Linden=o|Linwood=8|Litchfield=t|Little Lake=1f|Livonia=29|Long Lake=y|Loretto=l|Lowell=14|Ludington=1g|Luna Pier=1l|Lupton=1s|Luther=16|Luzerne=1v|Lyons=x|Macatawa=1x|Mackinac Island=1c|Mackinaw City=f|Macomb=1d|Madison Heights=1q|Mancelona=4|Manchester=28|Manistee=1e|Manistique=22|Manitou Beach=19|Manton=2a|Maple City=18|Maple Rapids=i|Marcellus=d|Marenisco=q|Marine City=24|Marion=1u|Marlette=21|Marne=1x|Marquette=1f|Marshall=c|Martin=2|Marysville=24|Mason=w|Mass City=1t|Mattawan=27|Maybee=1l|Mayfield=r|Mayville=26|Mc Bain=1k|Mc Millan=1b|Mcbrides=1m|Mears=1r|Mecosta=1h|Melvin=21|Melvindale=29|Memphis=24|Mendon=25|Menominee=1i|Merrill=20|Merritt=1k|Mesick=2a|Metamora=17|Michigamme=1f|Michigan Center=11|Middleton=s|Middleville=7|Midland=1j|Mikado=0|Milan=1l|Milford=1q|Millersburg=1y|Millington=26|Minden City=21|Mio=1v|Mohawk=15|Moline=2|Monroe=1l|Montague=1o|Montgomery=b|Montrose=o|Moran=1c|Morenci=19|Morley=1h|Morrice=23|Moscow=t|Mosherville=t|Mount Clemens=1d|Mount Morris=o|Mount Pleasant=10|Muir=x|Mullett Lake=f|Mulliken=m|Munger=8|Munising=1|Munith=11|Muskegon=1o|Nadeau=1i|Nahma=k|Napoleon=11|Nashville=7|National City=y|National Mine=1f|Naubinway=1c|Nazareth=12|Negaunee=1f|New Baltimore=1d|New Boston=29|New Buffalo=a|New Era=1r|New Haven=1d|New Hudson=1q|New Lothrop=23|New Troy=a|Newaygo=1p|Newberry=1b|Newport=1l|Niles=a|Nisula=u|North Adams=t|North Branch=17|North Star=s|North Street=24|Northport=18|Northville=29|Norvell=11|Norway=l|Nottawa=25|Novi=1q|Nunica=1x|Oak Park=1q|Oakland=1q|Oakley=20|Oden=n|Okemos=w|Old Mission=r|Olivet=m|Omena=18|Omer=5|Onaway=1y|Onekama=1e|Onondaga=w|Onsted=19|Ontonagon=1t|Orleans=x|Ortonville=1q|Oscoda=y|Oshtemo=12|Osseo=t|Ossineke=3|Otisville=o|Otsego=2|Ottawa Lake=1l|Otter Lake=17|Ovid=i|Owendale=v|Owosso=23|Oxford=1q|Painesdale=u|Palmer=1f|Palms=21|Palmyra=19|Palo=x|Paradise=g|Paris=1h|Parma=11|Paw Paw=27|Peck=21|Pelkie=u|Pellston=n|Pentwater=1r|Perkins=k|Perrinton=s|Perronville=1i|Perry=23|Petersburg=1l|Petoskey=n|Pewamo=x|Pickford=g|Pierson=1m|Pigeon=v|Pinckney=1a|Pinconning=8|Pittsford=t|Plainwell=2|Pleasant Lake=11|Pleasant Ridge=1q|Plymouth=29|Pointe Aux Pins=1c|Pompeii=s|Pontiac=1q|Port Austin=v|Port Hope=v|Port Huron=24|Port Sanilac=21|Portage=12|Portland=x|Posen=1y|Potterville=m|Powers=1i|Prescott=1s|Presque Isle=1y|Prudenville=1z|Pullman=2|Quincy=b|Quinnesec=l|Ralph=l|Ramsay=q|Rapid City=13|Rapid River=k|Ravenna=1o|Ray=1d|Reading=t|Redford=29|Reed City=1u|Reese=26|Remus=1h|Republic=1f|Rhodes=p|Richland=12|Richmond=1d|Richville=26|Riga=19|River Rouge=29|Riverdale=s|Riverside=a|Riverview=29|Rives Junction=11|Rochester=1q|Rock=k|Rockford=14|Rockland=1t|Rockwood=29|Rodney=1h|Rogers City=1y|Romeo=1d|Romulus=29|Roscommon=1z|Rose City=1s|Rosebush=10|Roseville=1d|Rothbury=1r|Royal Oak=1q|Rudyard=g|Rumely=1|Ruth=v|Saginaw=20|Sagola=l|Saint Charles=20|Saint Clair=24|Saint Clair Shores=1d|Saint Helen=1z|Saint Ignace=1c|Saint Johns=i|Saint Joseph=a|Saint Louis=s|Salem=28|Saline=28|Samaria=1l|Sand Creek=19|Sand Lake=14|Sandusky=21|Sanford=1j|Saranac=x|Saugatuck=2|Sault Sainte Marie=g|Sawyer=a|Schoolcraft=12|Scotts=12|Scottville=1g|Sears=1u|Sebewaing=v|Seney=22|Shaftsburg=23|Shelby=1r|Shelbyville=2|Shepherd=10|Sheridan=1m|Sherwood=b|Shingleton=1|Sidnaw=u|Sidney=1m|Silverwood=17|Six Lakes=1m|Skandia=1f|Skanee=6|Smiths Creek=24|Smyrna=x|Snover=21|Sodus=a|Somerset=t|Somerset Center=t|South Boardman=13|South Branch=1s|South Haven=27|South Lyon=1q|South Range=u|South Rockwood=1l|Southfield=1q|Southgate=29|Spalding=1i|Sparta=14|Spring Arbor=11|Spring Lake=1x|Springport=11|Spruce=0|Stambaugh=z|Standish=5|Stanton=1m|Stanwood=1h|Stephenson=1i|Sterling=5|Sterling Heights=1d|Stevensville=a|Stockbridge=w|Sturgis=25|Sumner=s|Sunfield=m|Suttons Bay=18|Swartz Creek=o|Sylvan Beach=1o|Tawas City=y|Taylor=29|Tecumseh=19|Tekonsha=c|Temperance=1l|Thompsonville=9|Three Oaks=a|Three Rivers=25|Tipton=19|Toivola=u|Topinabee=f|Tower=f|Traverse City=r|Trenary=1|Trenton=29|Trout Creek=1t|Trout Lake=g|Troy=1q|Trufant=1m|Turner=5|Tustin=1u|Twin Lake=1o|Twining=5|Ubly=v|Union=d|Union City=b|Union Lake=1q|Union Pier=a|Unionville=26|University Center=8|Utica=1d|Vandalia=d|Vanderbilt=1w|Vassar=26|Vermontville=m|Vernon=23|Vestaburg=1m|Vicksburg=12|Vulcan=l|Wakefield=q|Waldron=t|Walhalla=1g|Walkerville=1r|Wallace=1i|Walled Lake=1q|Walloon Lake=e|Warren=1d|Washington=1d|Waterford=1q|Waters=1w|Watersmeet=q|Watervliet=a|Watton=6|Wayland=2|Wayne=29|Webberville=w|Weidman=10|Wells=k|Wellston=1e|West Bloomfield=1q|West Branch=1s|West Olive=1x|Westland=29|Weston=19|Westphalia=i|Wetmore=1|Wheeler=s|White Cloud=1p|White Lake=1q|White Pigeon=25|White Pine=1t|Whitehall=1o|Whitmore Lake=28|Whittaker=28|Whittemore=y|Williamsburg=r|Williamston=w|Willis=28|Wilson=1i|Winn=10|Wixom=1q|Wolverine=f|Woodland=7|Wyandotte=29|Wyoming=14|Yale=24|Ypsilanti=28|Zeeland=1x'
+  },
+  MN: {
+    counties: 'Aitkin|Anoka|Becker|Beltrami|Benton|Big Stone|Blue Earth|Brown|Carlton|Carver|Cass|Chippewa|Chisago|Clay|Clearwater|Cook|Cottonwood|Crow Wing|Dakota|Dodge|Douglas|Faribault|Fillmore|Freeborn|Goodhue|Grant|Hennepin|Houston|Hubbard|Isanti|Itasca|Jackson|Kanabec|Kandiyohi|Kittson|Koochiching|Lac qui Parle|Lake|Lake of the Woods|Le Sueur|Lincoln|Lyon|Mahnomen|Marshall|Martin|McLeod|Meeker|Mille Lacs|Morrison|Mower|Murray|Nicollet|Nobles|Norman|Olmsted|Otter Tail|Pennington|Pine|Pipestone|Polk|Pope|Ramsey|Red Lake|Redwood|Renville|Rice|Rock|Roseau|Scott|Sherburne|Sibley|St. Louis|Stearns|Steele|Stevens|Swift|Todd|Traverse|Wabasha|Wadena|Waseca|Washington|Watonwan|Wilkin|Winona|Wright|Yellow Medicine',
+    zips: '16ft:29,1:c,1:29,2:1,1:t,1:1l,1:t,1:o,1:i,1:1,1:c,1,1:1,2:29,1:t,1:o,1:1t,1:1w,1:1t,3:i,1:29,1:o,1,2:t,1:1l,1:i,1:c,1:i,3:1l,1,1:29,2:t,1:26,1:29,1,1:i,1:c,1:1t,1:29,2:21,2:w,1:1t,1,1:1w,1:29,1:c,1:1t,3:21,3:1l,2:i,1:o,1:1l,1:i,1:c,1:1,1:29,1:1l,1:29,1:c,1:i,1,1,1:c,1,1:t,2:29,1,1:c,1:i,2:1t,1,1:o,1:29,2:c,9:1p,1,1,1,1,1,1,1,1,1,1:q,1:1p,1,1,1:29,1:1p,1,1:i,1:1p,1:i,1,1,1,1,1:29,1:1p,1,1:29,1,1:1p,1,2,b,1,1,4:i,5:1p,9,1,5,2,3,c,1,35:2d,1,1:1,1,1:q,1:i,1:1y,1:1x,1,1:1s,1:q,1:19,1:2d,1:1s,1:9,1:q,1:9,1,1:1x,1:2d,1,1:9,1:q,1:1a,1,2:q,1:2d,1:1a,1:1x,1:q,1:1s,1,1:1y,1,1:19,1:i,1:1y,1:9,1:q,1:2d,1:1s,1:q,1,1,1,1,1,1:2d,1:19,2:1w,1:20,1:19,1:1a,1:q,1,1:2d,1:q,1:9,1:q,1:2d,1,1:q,2:1y,1:9,1,1:q,1:19,1:1b,1:1w,1:2d,1:q,1,1:2d,1:1x,1:1w,1,1:2d,1:19,1:2d,1:9,1:q,1:19,1:9,1,1,1:1a,1:2d,1:q,1,3:19,1:1y,1:9,1:1x,3:q,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1:1,1:q,1,1,1,1,1,1,1,1,1,1:1,1,1,1:q,1,1,1,1,1,1,1,1,1,1,1,1,1:1,1,1:q,4,1,3,1,1,7,3,2,1:9,1:q,4,1,1,3,1,1,1,1,1,1q:9,1,2,1,4,a,1:q,1,1,1,1,1,1,1,1,1,1,4:9,9:2d,1:q,1:9,1:q,1,1,1,1,2:11,1:1z,1:11,1:f,1,1,1:11,2,3:f,1,1:11,1:f,1:11,2e:1z,1,1:1l,1:1z,1,1:8,1:1z,1:u,1:1z,1,1:1l,1:1z,3:u,1:1z,1:8,1:1z,1:8,1:u,1,1:1z,1,1,1:8,4:u,1:1z,1,1:8,1:1z,1:1l,1:1z,2,3,1:u,2,1,1:1z,1,1:0,1:8,1:1z,1,1:0,1:u,3:1l,1:8,1:1z,2:0,3:1z,1:u,1:1z,1,1:8,1:1z,1:u,2:1z,1,3:u,2:1z,2,1:8,1:1z,1,1:1l,1:u,1:0,1:u,1:0,3:1z,1,1,1:u,2:1l,1:1z,1:8,1,3:1z,1,1,1,1,1,1,1,2,1,1,2,1,1,2d:1i,1,1,1,1,1,3:1d,1:2c,2:1d,5:21,1:1d,1:r,1:1i,1:r,1:m,1,1:j,1:2c,1:1d,1:j,2:1i,2:r,1:26,1:1d,1:1i,1:m,1:1d,3:m,1:j,1:r,1:2c,1:r,1:j,1:26,1:o,1:r,2:m,1:1d,1,1:2c,1:1d,1:m,1:j,1:26,1,2:2c,1:1i,1:m,1,1:o,1:26,1:m,2:1d,1:26,1:2c,1:1d,1:m,1:2c,1:1d,1:r,1:m,1:1i,1:1d,2:2c,2:26,1:1d,1:o,2:j,2:2c,1,2:m,1:26,1:o,9:6,1,1:1f,4:n,2,1:6,1:1w,2:l,1,2:n,1:13,2:7,1:n,1:1f,1:2a,1:l,1:6,1:l,1:21,1:l,1:13,1:n,1:7,1:18,1:n,1:l,1:6,1:n,1,1:6,2:18,2:7,1:n,1,1:1y,1:n,1:21,1:l,1:28,2:13,1:l,1:13,2:1f,1:6,1:2a,1:13,1,2:2a,2,1:6,2,3:l,1:13,2,1:28,1:7,1:1f,1:18,3:6,2,1:2a,1:1f,1:1r,1:7,1,2,1:18,1:n,1:6,1:28,2,3:13,1:l,1,3:g,9:1g,1:v,2:14,1:1e,1:15,1:1u,1:1g,1:g,1:1g,1:2a,1:18,1:1e,1,2,2:18,1:1m,1:1g,2:1e,1:15,2:1u,2:14,1:v,1:1u,1:1m,1,1:1e,1:14,1:v,1:1m,1:g,1:1u,1,2:14,1:v,1:1e,1:1r,1:1g,2,1:1u,1:15,1:1u,1:g,1:2a,1:v,1:18,2:1m,1:1g,1:1r,1:1g,1,1:15,1:1m,1:18,1:1e,1:1u,1:g,1:15,1:18,2:14,2:1r,1:18,2:g,2:1g,1:1m,1:1g,e:x,6:22,1:23,1:x,1:5,1,1:10,2:1r,1:23,1:x,2:10,1:25,1:2e,1:22,1:b,1:2e,1:1r,1:5,1:23,1:5,1:1a,1:15,1:1s,1:23,1:10,3:22,1:25,1:2e,2:15,1:5,1:2e,2:1a,1:22,1:2e,3:p,1:23,2:x,1:23,1:x,2:1r,1:10,1,1:15,2:b,2,1:1r,1:15,1:b,1:1r,1:22,3:1s,1:23,2:x,1:p,2:5,1:1s,1:5,1:x,1:2e,1:x,1,1:1r,1:1s,1,2:1r,1:x,1,2:15,1:1r,1,1,1:b,1:25,1:2e,4:20,1,1,1,3,1:k,1:p,1:20,1:p,1:20,1:1b,1:1c,1:k,1:20,1:1c,1:24,1:k,1:20,1,2:1o,1:1j,1:20,1:k,1:1o,1:1c,1:4,1:1b,1:20,1:k,1:4,1:1o,1:20,1:24,2:1c,1:p,1:20,1:k,1:1b,1:k,1:1c,1,2:24,2:1o,1:0,2:20,1:1b,1:k,1,1:20,1:4,1:w,1:1b,1:k,1:1j,1:20,1:1b,1:1c,3:4,1:20,1,2,1,1:1c,1:20,1,1,1,1,1:4,2:1o,1:1c,2,1:1o,1:1b,1:20,1:1c,1:24,4:20,2,1,1,1,1,2:h,o,5:a,1:0,2:s,1:27,1:a,1:s,1:24,1,2,1:h,1,1:1c,1:h,2:24,1:h,1,1,1,2:a,1:24,2:h,1,2:s,1:h,2:s,3:27,1:h,1:1c,1:s,1:h,1:0,1:s,2:h,1:a,1,1:1c,2:27,2:24,2:27,1,2:a,h:2,1,8:1h,1:2,3:d,1:1j,1:16,1:1n,1:1j,1:1h,1:2b,1:2,1:2b,1:1n,1:1j,1:d,2:1j,1,1:d,2:p,2:1j,1,1:1n,1:d,1:1j,1,2:1n,1:1h,1:1n,1:2b,1:2,1:1h,1:d,1,1:1h,1:d,1:1h,1:1j,1:d,1:2b,1:2,2:1n,1:16,3:d,1,1,1,2:2b,1:16,1:1j,1:1n,1:2,1,1:1j,1,1,1:1h,1:2,1:1j,1:2,1,1:2b,1:d,1:1h,2:25,1:1h,1:d,1:1j,1,1,1:16,1:p,1:2,1:1n,1:2,1:2b,7:3,i,2:e,2:12,3:a,1:z,1:u,1:z,1:3,1:u,2:a,1:e,2:u,1,2,2:a,3:e,2:1n,1:3,2:z,1:3,1:1n,1:e,1:z,1,1:a,2:u,1:z,1:u,1:z,1,1:a,1:3,3,1,1:z,1,1:3,1,1:a,1:1v,3:e,2:3,1:z,1:u,1,1:1v,1:3,1:1n,1:3,1:12,1:3,1:u,d:1k,9:17,1:12,2:17,1:1v,1:1q,1:1n,4:y,1:1n,1,1,1:17,1:1k,1:1v,1:17,1:y,1,2,1,1,1,1,1:1n,1:17,1,2:y,1:12,1:1q,2:17,4:1q,2,1:1v,3:1k,1:y,1:1v,1:17,1,1:1v,1:17,1:1v,1:17,1:1v',
+    cities: 'Ada=1h|Adams=1d|Adrian=1g|Afton=29|Ah Gwah Ching=a|Aitkin=0|Akeley=s|Albany=20|Albert Lea=n|Alberta=22|Albertville=2d|Alborn=1z|Alden=n|Aldrich=27|Alexandria=k|Almelund=c|Alpha=v|Altura=2c|Alvarado=17|Amboy=6|Andover=1|Angle Inlet=12|Angora=1z|Annandale=2d|Anoka=1|Appleton=23|Arco=14|Argyle=17|Arlington=1y|Ashby=p|Askov=1l|Atwater=x|Audubon=2|Aurora=1z|Austin=1d|Avoca=1e|Avon=20|Babbitt=1z|Backus=a|Badger=1v|Bagley=e|Balaton=15|Barnesville=d|Barnum=8|Barrett=p|Barry=5|Battle Lake=1j|Baudette=12|Baxter=h|Bayport=29|Beardsley=5|Beaver Bay=11|Beaver Creek=1u|Becker=1x|Bejou=16|Belgrade=20|Belle Plaine=1w|Bellingham=10|Beltrami=1n|Belview=1r|Bemidji=3|Bena=a|Benedict=s|Benson=23|Bertha=24|Bethel=1|Big Falls=z|Big Lake=1x|Bigelow=1g|Bigfork=u|Bingham Lake=g|Birchdale=z|Bird Island=1s|Biwabik=1z|Blackduck=3|Blomkest=x|Blooming Prairie=21|Blue Earth=l|Bluffton=1j|Bock=1b|Borup=1h|Bovey=u|Bowlus=1c|Bowstring=u|Boyd=10|Braham=t|Brainerd=h|Brandon=k|Breckenridge=2b|Brewster=1g|Bricelyn=l|Brimson=1z|Britt=1z|Brook Park=1l|Brooks=1q|Brookston=1z|Brooten=20|Browerville=24|Browns Valley=25|Brownsdale=1d|Brownsville=r|Brownton=19|Bruno=1l|Buckman=1c|Buffalo=2d|Buffalo Lake=1s|Buhl=1z|Burnsville=i|Burtrum=24|Butterfield=2a|Byron=1i|Caledonia=r|Callaway=2|Calumet=u|Cambridge=t|Campbell=2b|Canby=2e|Cannon Falls=o|Canton=m|Canyon=1z|Carlos=k|Carlton=8|Carver=9|Cass Lake=a|Castle Rock=i|Cedar=1|Center City=c|Ceylon=18|Champlin=q|Chandler=1e|Chanhassen=9|Chaska=9|Chatfield=m|Chisago City=c|Chisholm=1z|Chokio=22|Circle Pines=1|Clara City=b|Claremont=j|Clarissa=24|Clarkfield=2e|Clarks Grove=n|Clear Lake=1x|Clearbrook=e|Clearwater=2d|Clements=1r|Cleveland=13|Climax=1n|Clinton=5|Clitherall=1j|Clontarf=23|Cloquet=8|Cohasset=u|Cokato=2d|Cold Spring=20|Coleraine=u|Collegeville=20|Cologne=9|Comfrey=7|Comstock=d|Conger=n|Cook=1z|Correll=5|Cosmos=1a|Cottage Grove=29|Cotton=1z|Cottonwood=15|Courtland=1f|Crane Lake=1z|Cromwell=8|Crookston=1n|Crosby=h|Crosslake=h|Crystal Bay=q|Currie=1e|Cushing=1c|Cyrus=1o|Dakota=2c|Dalbo=t|Dalton=1j|Danube=1s|Danvers=23|Darfur=2a|Darwin=1a|Dassel=1a|Dawson=10|Dayton=q|Deer Creek=1j|Deer River=u|Deerwood=h|Delano=2d|Delavan=l|Dennison=o|Dent=1j|Detroit Lakes=2|Dexter=1d|Dilworth=d|Dodge Center=j|Donaldson=y|Donnelly=22|Dover=1i|Dovray=1e|Duluth=1z|Dumont=25|Dundas=1t|Dunnell=18|Eagle Bend=24|Eagle Lake=6|East Grand Forks=1n|Easton=l|Echo=2e|Eden Prairie=q|Eden Valley=1a|Edgerton=1m|Effie=u|Eitzen=r|Elbow Lake=p|Elgin=26|Elizabeth=1j|Elk River=1x|Elko New Market=1w|Elkton=1d|Ellendale=21|Ellsworth=1g|Elmore=l|Elrosa=20|Ely=1z|Elysian=13|Embarrass=1z|Emily=h|Emmons=n|Erhard=1j|Erskine=1n|Esko=8|Essig=7|Euclid=1n|Evansville=k|Eveleth=1z|Excelsior=q|Eyota=1i|Fairfax=1s|Fairmont=18|Faribault=1t|Farmington=i|Farwell=1o|Federal Dam=a|Felton=d|Fergus Falls=1j|Fertile=1n|Fifty Lakes=h|Finland=11|Finlayson=1l|Fisher=1n|Flensburg=1c|Flom=1h|Floodwood=1z|Foley=4|Forbes=1z|Forest Lake=29|Foreston=1b|Fort Ripley=h|Fosston=1n|Fountain=m|Foxhome=2b|Franklin=1s|Frazee=2|Freeborn=n|Freeport=20|Frontenac=o|Frost=l|Fulda=1e|Garden City=6|Garfield=k|Garrison=h|Garvin=15|Gary=1h|Gatzke=17|Gaylord=1y|Geneva=n|Georgetown=d|Ghent=15|Gibbon=1y|Gilbert=1z|Gilman=4|Glencoe=19|Glenville=n|Glenwood=1o|Glyndon=d|Gonvick=e|Good Thunder=6|Goodhue=o|Goodland=u|Goodridge=1k|Graceville=5|Granada=18|Grand Marais=f|Grand Meadow=1d|Grand Portage=f|Grand Rapids=u|Grandy=t|Granite Falls=2e|Grasston=1l|Green Isle=1y|Greenbush=1v|Greenwald=20|Grey Eagle=24|Grove City=1a|Grygla=17|Gully=1n|Hackensack=a|Hallock=y|Halma=y|Halstad=1h|Hamburg=9|Hamel=q|Hampton=i|Hancock=22|Hanley Falls=2e|Hanover=2d|Hanska=7|Hardwick=1u|Harmony=m|Harris=c|Hartland=n|Hastings=i|Hawley=d|Hayfield=j|Hayward=n|Hector=1s|Henderson=1y|Hendricks=14|Hendrum=1h|Henning=1j|Henriette=1l|Herman=p|Heron Lake=v|Hewitt=24|Hibbing=1z|Hill City=0|Hillman=1c|Hills=1u|Hinckley=1l|Hines=3|Hitterdal=d|Hoffman=p|Hokah=r|Holdingford=20|Holland=1m|Hollandale=n|Holloway=23|Holmes City=k|Holyoke=8|Homer=2c|Hope=21|Hopkins=q|Houston=r|Hovland=f|Howard Lake=2d|Hoyt Lakes=1z|Hugo=29|Humboldt=y|Huntley=l|Hutchinson=19|Ihlen=1m|International Falls=z|Inver Grove Heights=i|Iona=1e|Iron=1z|Ironton=h|Isabella=11|Isanti=t|Isle=1b|Ivanhoe=14|Jackson=v|Jacobson=0|Janesville=28|Jasper=1m|Jeffers=g|Jenkins=h|Jordan=1w|Kabetogama=z|Kanaranzi=1u|Kandiyohi=x|Karlstad=y|Kasota=13|Kasson=j|Keewatin=u|Kelliher=3|Kellogg=26|Kennedy=y|Kenneth=1u|Kensington=k|Kent=2b|Kenyon=o|Kerkhoven=23|Kerrick=1l|Kettle River=8|Kiester=l|Kilkenny=13|Kimball=20|Kinney=1z|Knife River=11|La Crescent=r|La Salle=2a|Lafayette=1f|Lake Benton=14|Lake Bronson=y|Lake City=26|Lake Crystal=6|Lake Elmo=29|Lake George=s|Lake Hubert=h|Lake Lillian=x|Lake Park=2|Lake Wilson=1e|Lakefield=v|Lakeland=29|Lakeville=i|Lamberton=1r|Lancaster=y|Lanesboro=m|Lansing=1d|Laporte=s|Lastrup=1c|Le Center=13|Le Roy=1d|Le Sueur=13|Lengby=1n|Leonard=e|Leota=1g|Lester Prairie=19|Lewiston=2c|Lewisville=2a|Lindstrom=c|Lismore=1g|Litchfield=1a|Little Falls=1c|Littlefork=z|Loman=z|Long Lake=q|Long Prairie=24|Longville=a|Lonsdale=1t|Loretto=q|Lowry=1o|Lucan=1r|Lutsen=f|Luverne=1u|Lyle=1d|Lynd=15|Mabel=m|Madelia=2a|Madison=10|Madison Lake=6|Magnolia=1u|Mahnomen=16|Makinen=1z|Mankato=6|Mantorville=j|Maple Grove=q|Maple Lake=2d|Maple Plain=q|Mapleton=6|Marble=u|Marcell=u|Margie=z|Marietta=10|Marine On Saint Croix=29|Marshall=15|Max=u|Mayer=9|Maynard=b|Mazeppa=26|Mc Grath=0|Mcgregor=0|Mcintosh=1n|Meadowlands=1z|Medford=21|Melrose=20|Melrude=1z|Menahga=27|Mendota=i|Mentor=1n|Merrifield=h|Middle River=17|Milaca=1b|Milan=b|Millville=26|Milroy=1r|Miltona=k|Minneapolis=q|Minneota=15|Minnesota City=2c|Minnesota Lake=l|Minnetonka=q|Minnetonka Beach=q|Mizpah=z|Montevideo=b|Montgomery=13|Monticello=2d|Montrose=2d|Moorhead=d|Moose Lake=8|Mora=w|Morgan=1r|Morris=22|Morristown=1t|Morton=1s|Motley=1c|Mound=q|Mountain Iron=1z|Mountain Lake=g|Murdock=23|Nashua=2b|Nashwauk=u|Navarre=q|Naytahwaush=16|Nelson=k|Nerstrand=1t|Nett Lake=1z|Nevis=s|New Auburn=1y|New Germany=9|New London=x|New Munich=20|New Prague=13|New Richland=28|New Ulm=7|New York Mills=1j|Newfolden=17|Newport=29|Nicollet=1f|Nielsville=1n|Nisswa=h|Norcross=p|North Branch=c|Northfield=1t|Northome=z|Northrop=18|Norwood=9|Norwood Young America=9|Noyes=y|Oak Island=12|Oak Park=4|Odessa=5|Odin=2a|Ogema=2|Ogilvie=w|Okabena=v|Oklee=1q|Olivia=1s|Onamia=1b|Ormsby=18|Oronoco=1i|Orr=1z|Ortonville=5|Osage=2|Osakis=k|Oslo=17|Osseo=q|Ostrander=m|Ottertail=1j|Outing=a|Owatonna=21|Palisade=0|Park Rapids=s|Parkers Prairie=1j|Paynesville=20|Pease=1b|Pelican Rapids=1j|Pemberton=6|Pengilly=u|Pennington=3|Pennock=x|Pequot Lakes=h|Perham=1j|Perley=1h|Peterson=m|Pierz=1c|Pillager=a|Pine City=1l|Pine Island=o|Pine River=a|Pipestone=1m|Plainview=26|Plato=19|Plummer=1q|Ponemah=3|Ponsford=2|Porter=2e|Preston=m|Princeton=1b|Prinsburg=x|Prior Lake=1w|Puposky=3|Racine=1d|Randall=1c|Randolph=i|Ranier=z|Raymond=x|Reading=1g|Reads Landing=26|Red Lake Falls=1q|Red Wing=o|Redby=3|Redlake=3|Redwood Falls=1r|Remer=a|Renville=1s|Revere=1r|Rice=4|Richmond=20|Richville=1j|Richwood=2|Rochert=2|Rochester=1i|Rock Creek=1l|Rockford=2d|Rockville=20|Rogers=q|Rollingstone=2c|Roosevelt=1v|Roscoe=20|Rose Creek=1d|Roseau=1v|Rosemount=i|Rothsay=2b|Round Lake=1g|Royalton=1c|Rush City=c|Rushford=m|Rushmore=1g|Russell=15|Ruthton=1m|Sabin=d|Sacred Heart=1s|Saginaw=1z|Saint Bonifacius=q|Saint Charles=2c|Saint Clair=6|Saint Cloud=20|Saint Francis=1|Saint Hilaire=1k|Saint James=2a|Saint Joseph=20|Saint Martin=20|Saint Michael=2d|Saint Paul=1p|Saint Paul Park=29|Saint Peter=1f|Saint Stephen=20|Saint Vincent=y|Salol=1v|Sanborn=1r|Sandstone=1l|Santiago=1x|Sargeant=1d|Sartell=20|Sauk Centre=20|Sauk Rapids=4|Savage=1w|Sawyer=8|Scandia=29|Schroeder=f|Seaforth=1r|Searles=7|Sebeka=27|Shafer=c|Shakopee=1w|Shelly=1h|Sherburn=18|Shevlin=e|Side Lake=1z|Silver Bay=11|Silver Creek=2d|Silver Lake=19|Slayton=1e|Sleepy Eye=7|Solway=3|Soudan=1z|South Haven=2d|South International Falls=z|South Saint Paul=i|Spicer=x|Spring Grove=r|Spring Lake=u|Spring Park=q|Spring Valley=m|Springfield=7|Squaw Lake=u|Stacy=c|Stanchfield=t|Staples=24|Starbuck=1o|Steen=1u|Stephen=17|Stewart=19|Stewartville=1i|Stillwater=29|Stockton=2c|Storden=g|Strandquist=17|Strathcona=1v|Sturgeon Lake=1l|Sunburg=x|Swan River=u|Swanville=1c|Swatara=0|Swift=1v|Taconite=u|Talmoon=u|Tamarack=0|Taopi=1d|Taunton=15|Taylors Falls=c|Tenstrike=3|Thief River Falls=1k|Tintah=25|Tofte=f|Tower=1z|Tracy=15|Trail=1n|Trimont=18|Truman=18|Twig=1z|Twin Lakes=n|Twin Valley=1h|Two Harbors=11|Tyler=14|Ulen=d|Underwood=1j|Upsala=1c|Utica=2c|Vergas=1j|Vermillion=i|Verndale=27|Vernon Center=6|Vesta=1r|Victoria=9|Viking=17|Villard=1o|Vining=1j|Virginia=1z|Wabasha=26|Wabasso=1r|Waconia=9|Wadena=27|Wahkon=1b|Waite Park=20|Waldorf=28|Walker=a|Walnut Grove=1r|Waltham=1d|Wanamingo=o|Wanda=1r|Wannaska=1v|Warba=u|Warren=17|Warroad=1v|Warsaw=1t|Waseca=28|Waskish=3|Watertown=9|Waterville=13|Watkins=1a|Watson=b|Waubun=16|Waverly=2d|Wayzata=q|Webster=1t|Welch=o|Welcome=18|Wells=l|Wendell=p|West Concord=j|West Union=24|Westbrook=g|Wheaton=25|White Earth=2|Willernie=29|Williams=12|Willmar=x|Willow River=1l|Wilmont=1g|Wilton=3|Windom=g|Winger=1n|Winnebago=l|Winona=2c|Winsted=19|Winthrop=1y|Winton=1z|Wirt=u|Wolf Lake=2|Wolverton=2b|Wood Lake=2e|Woodstock=1m|Worthington=1g|Wrenshall=8|Wright=8|Wykoff=m|Wyoming=c|Young America=9|Zimmerman=1x|Zumbro Falls=26|Zumbrota=o'
+  },
+  MO: {
+    counties: 'Adair|Andrew|Atchison|Audrain|Barry|Barton|Bates|Benton|Bollinger|Boone|Buchanan|Butler|Caldwell|Callaway|Camden|Cape Girardeau|Carroll|Carter|Cass|Cedar|Chariton|Christian|Clark|Clay|Clinton|Cole|Cooper|Crawford|Dade|Dallas|Daviess|DeKalb|Dent|Douglas|Dunklin|Franklin|Gasconade|Gentry|Greene|Grundy|Harrison|Henry|Hickory|Holt|Howard|Howell|Iron|Jackson|Jasper|Jefferson|Johnson|Knox|Laclede|Lafayette|Lawrence|Lewis|Lincoln|Linn|Livingston|Macon|Madison|Maries|Marion|McDonald|Mercer|Miller|Mississippi|Moniteau|Monroe|Montgomery|Morgan|New Madrid|Newton|Nodaway|Oregon|Osage|Ozark|Pemiscot|Perry|Pettis|Phelps|Pike|Platte|Polk|Pulaski|Putnam|Ralls|Randolph|Ray|Reynolds|Ripley|Saline|Schuyler|Scotland|Scott|Shannon|Shelby|St. Charles|St. Clair|St. Francois|St. Louis|St. Louis City|Ste. Genevieve|Stoddard|Stone|Sullivan|Taney|Texas|Vernon|Warren|Washington|Wayne|Webster|Worth|Wright',
+    zips: '1cm5:2s,1,4:1d,1:2s,1:1d,1:z,1,1,1:1d,1:2s,2:1d,1,1:2s,1,1:1d,1:2s,1,1,2:1d,2,1:2s,1,1,1,2:2r,1:z,1:2s,1:z,1:2s,1:1d,1:2s,1,1,1,2:1d,1,1,1,1,1,1,2:z,1,1:1d,3:z,1,4:1d,1,2:z,1,1:1d,1:32,1:z,1,1:2s,3:z,2,1,4,3:2r,1:2s,1:z,1,1:10,8:2s,2:2t,1,1,1,1:2s,1:2t,1,1,1,1,1,1,1,1:2s,1:2t,1,1:2s,1:2t,1:2s,1:2t,1:2s,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1:2t,1:2s,1,2,1,1,1,1:2t,3,1:2s,4:2t,1,1,1,2,3,1,2,1:2s,2:2t,2,6,1,1,1,2,6,7,2,2,2u:2p,1,1,1,q:29,2:2p,1:1x,1:29,2,2:2p,1:29,2:2p,1:31,1:1k,1:29,1:3,1:2p,1:1k,1:2p,1:1k,1:1x,1,1:3,1:29,4:31,2:1x,2,1:1k,1:1x,2:2p,1,1,1,1:1k,1,3:2p,3,1:1k,1:31,1:1k,1:31,1:1k,1:3,1:31,1:1x,1:2p,1,1:1k,1:d,1:1k,1:31,b:1q,t:m,1:1n,1:2l,1:29,1:2o,1:1j,1:2e,1:2o,1:1j,1:2o,1:1j,1:29,1:2l,1:2o,2:m,1:1f,1:1j,1,2:2o,1,1:1j,1:m,1:1q,2:1w,1:1j,1:1f,1:2e,1:1f,1:1q,1:2e,1:1q,1:1f,1:m,1,1:2e,1:2o,1,2:1q,1:m,1:1j,1:m,r:0,t:1n,1:1f,1:1n,1:0,1:1n,1:2k,1,1:1f,1:1n,1,1:0,1:2k,2:2l,1:2x,1,1:0,1:1f,1:2k,1:1n,2:2d,1:1n,3:2l,1:2x,1:1l,1:1n,1:0,1:2x,1:2k,2:2l,2:2d,1:2x,1:2d,y:2r,j:1a,1,1:32,1:1a,1:2r,1:2h,1:2r,1:2u,1:2r,1:2h,1:32,1,1:33,1:2h,3:1a,1:2r,1:2h,2:2r,5:1o,3:32,2:1a,1:2r,2,1:2h,1:1o,1:1a,4:32,2:8,1:1a,1:32,1:2h,1,4:2u,3,1:32,1:1a,q:f,1,1,r:2v,2:26,3:2v,1:2m,1:26,1:2v,1:f,1:2m,2,1:f,1,1,1:26,1:f,1:26,2:8,1,1:f,3,3:2m,2:8,3:33,1:8,2:f,1:2m,2:f,1,1:2m,3,1:26,1,3:f,1:2m,1:8,1,1:26,1:2m,1:f,2:8,e:2m,j:1u,1:y,1:2v,1:1u,1:2m,1:2v,1:25,1,1:1z,1:y,1:25,3:1z,1:1u,3:y,2:25,1,1:2v,4:1u,1:2v,1:y,1:1z,1:25,1:2v,1:25,1:y,1:25,2:y,2,3:1z,2,1:y,3:1z,1,1,1,1,3,1,1:y,1,1:25,1:1z,1:25,1:y,1:1u,1,j:b,1,t:2i,1:b,1:y,1:33,1:2i,1:2v,1:h,1:b,1:2i,1:b,1:h,1:2i,1:h,1:33,1:b,5:33,1,1,1:2i,1:b,1:2i,1:33,1,3:2v,1:b,1,2:33,1:h,1:33,1,y:1h,1:1b,9:1h,1:i,1:1b,1,1,1,1:2g,1:2a,1:1e,1:1h,1,1,2:n,4:2a,1:1b,1,4,1:2g,1,1:1h,3:1e,8:n,2:1b,1,1,1,1,1,1,1,1,2:n,1:1e,1:2g,1:1b,1,1,1,1:1h,1:n,1,1:1b,1:1h,1:n,1,1:1h,1:1b,1:1h,1:2g,1:i,1:2a,1:i,1:1b,1,1:i,1:2g,1,1:1b,2,1:n,1:i,2:2a,1:1e,3:1h,1,1:2a,3:1b,1,3,1,2,1,1,1,1,1,1,2:n,1,1,1,1:1b,1,2,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,2,3:n,1:1b,1,1,1,1,1:2a,1,1,1,1,1:n,1,1,1,3,1,1:2a,1,1:n,1,1,1:2a,2:1b,1,8,1,4,3,1,2:2a,1:1b,4:2a,1:1b,1,1,1,5m:a,1:11,i:35,1:1,1:v,1:21,1:14,2,1:1,1:21,1:o,1:v,1:21,1,1,1,2:1,1:17,1:11,1:2a,1:a,1:35,1:14,1:a,1:2a,1:21,1:2,2:a,1:1,2:17,2:11,1:o,1:21,1:35,1:21,1:14,1:1,2:21,2:11,2:o,1:17,1:14,1:21,1:v,1:17,1:14,2:17,1:v,1:21,1,1:o,2:21,1:1,1:14,1:2,1:1,1:a,1:1,1:35,1:21,2:11,1:v,1:2,1:o,1,1:v,2:2,1:v,1:2,1:35,2:a,1,1,1,1,1:1,1:a,1,2l:1m,j:u,2:g,1,1:c,1,3:1l,2,1,1:14,1:g,2:1m,1:u,1:c,1:1m,1:g,1:u,1:13,1:u,1:g,1:c,1:2x,1,1:u,1,1:c,1,1:1l,1:13,1:1l,1:u,1:2d,1:1m,1:11,1:1l,1,1:k,1:1s,3:1m,3:2x,1:g,2:u,1:c,1:2d,1:1s,1:1l,2:k,3:13,1:g,1:k,1:g,1:13,3:1m,2,1:u,c:i,j:6,2,1,1:2q,1:i,1:15,2:30,2:6,3:1e,1:i,1:15,3:2q,1:i,1:15,1:30,1:6,1:i,1:j,1:6,1:i,1,1:5,2:30,2:6,3:1c,1:j,3:5,2:1e,1:5,1:2q,2:30,1:5,1:30,2:5,1:15,1:30,1,4:2q,2:30,1:6,1,1:2q,2:30,1,4:15,2:30,b:1c,1,1,1,q,1:1r,1:1c,1,1,1,1,4:20,1:1c,1:20,1:1r,1:20,3:1r,1:1c,1,1:20,3,1:1r,1:1c,1:1r,1:1c,1:20,1:1c,2:1r,1:1c,1:1r,1:20,1,1,1,1:1r,2:1c,3:20,1:4,3h:1b,2:23,9:9,1:1y,2:1p,1:10,2:23,1:1t,1:1v,2:e,3:p,1:23,1:1v,1:1t,6:p,2:1v,1:23,1:10,1:1y,1,1:9,1:p,1:10,1:1v,1:d,3:1v,1:1t,1:23,1:e,1:1v,1:23,1:e,1:p,1:23,1:1v,3:23,1:d,2:10,1,1:d,1:1t,1:e,1:10,1:d,1:q,1:1x,3:1y,2:p,1:1t,1:p,1:d,1:1y,1:e,1:d,1:1v,1:1t,1,1:1y,1:23,g:p,1,1,1,1,1,1,1,1,1,1,2i:9,1,1,2,6,1,3,1,1,1,c:18,1:d,1:3,1:q,3:k,1:q,2:2f,1:9,3:2f,1,2:k,1:1n,1:18,2,1:d,3:18,1:9,1,1:2f,1:1w,1:2f,1,1:k,1:d,1:1w,1:3,1,5:2f,4:18,1:1w,1:q,2:2f,1:9,1:3,1:k,1:1w,1,1:9,1:3,1:k,1:q,c:9,2:27,1,3:1e,f:2j,1,1:q,1:15,1:e,1:7,1,1:1h,2:1y,1:2j,2:27,1,1,1:7,1:1e,1:27,1:7,1:2j,1,4,1:27,2:2j,1:q,1:2j,1:27,1:2j,3:1y,1:7,5:15,15:28,1,7,r,2:2n,1:1a,1:w,1:r,2:1p,1:2z,2:r,3,3:2c,1:r,3,1:2c,2,2:28,1,1:1g,1:2z,2:2n,2:2z,2:1g,3:2c,6:2z,4,1,2:1t,f:w,s:28,3:w,2:2c,1:r,1:1g,5:w,1:2z,1:1g,3:2n,2:19,2:28,2:2z,3,1:2c,1:2z,2:28,1:w,4:2z,1:r,1:1a,1:e,3:2z,1,9:1p,2,1:2c,1,2:r,2:2n,1:2z,1:t,1:e,a:2b,2:s,1:12,1:1i,1:22,1:j,1:x,1:24,1:l,1:2w,1:12,1:2b,1:2y,1,1,1:2b,1:24,1:12,1:l,2:t,1:4,1:2w,1:4,1:19,1:2y,2:l,1,1,1:1g,1:2w,1:16,1:s,1:34,1:24,1:x,2:2b,1:4,3:34,1:2b,1:s,1:4,1:12,1:2b,1,2:34,1:2y,1:1i,1:24,1:2w,1:l,1:4,2:36,1:s,1:36,1:2b,1:1i,2:24,1:36,1:16,1:l,3:2y,1,1:2b,1:2w,1:24,3:2y,1,1:2w,1:s,3:t,1:2w,2:19,1:2z,1:22,2,a:36,2,1:1i,1:34,1:1i,1:4,2:2b,1:36,1:1i,1:34,1:l,1:24,2:36,3:l,1,1:1g,1:1i,1:16,1:2b,1:2y,1:2b,1:2w,1:24,1:1r,1:2y,1:16,1:2y,1:4,1:16,2:2w,1:12,1:2y,1,1:24,1:34,2:2y,1:4,1:34,1:4,5:s,1:l,1,1:x,1:1i,1:12,2:2y,1:24,1,1,2:t,1:12,1:24,1:t,1:x,1:1i,1:12,1:2y,1:4,1:24,1:16,1:19,2,1:22,1:16,2:12,2:t,1:24,1:j,1:e,1,1:19,1,1,1:22,2:19,8:12,1,1,1,1,1,1,1,1,1,4,3,21,7,1,1,57c:l',
+    cities: 'Adrian=6|Advance=2v|Agency=a|Alba=1c|Albany=11|Aldrich=2b|Alexandria=m|Allendale=35|Alma=1h|Altamont=u|Altenburg=26|Alton=22|Amazonia=1|Amity=v|Amoret=6|Amsterdam=6|Anabel=1n|Anderson=1r|Annada=29|Annapolis=1a|Anniston=1u|Appleton City=2q|Arbela=2l|Arbyrd=y|Arcadia=1a|Archie=i|Arcola=s|Argyle=23|Armstrong=18|Arnold=1d|Arrow Rock=2j|Asbury=1c|Ash Grove=12|Ashburn=29|Ashland=9|Atlanta=1n|Augusta=2p|Aurora=1i|Auxvasse=d|Ava=x|Avilla=1c|Bakersfield=24|Ballwin=2s|Baring=1f|Barnard=21|Barnett=1y|Barnhart=1d|Bates City=1h|Beaufort=z|Belgrade=32|Bell City=2v|Belle=1p|Belleview=1a|Bellflower=1x|Belton=i|Benton=2m|Benton City=3|Berger=z|Bernie=2v|Bertrand=1u|Bethany=14|Bethel=2o|Beulah=28|Bevier=1n|Billings=l|Birch Tree=2n|Bismarck=2r|Bixby=1a|Black=2h|Blackburn=2j|Blackwater=q|Blackwell=2r|Blairstown=15|Bland=10|Blodgett=2m|Bloomfield=2v|Bloomsdale=2u|Blue Eye=2w|Blue Springs=1b|Blythedale=14|Bogard=g|Bois D Arc=12|Bolckow=1|Bolivar=2b|Bonne Terre=2r|Bonnots Mill=23|Boonville=q|Boss=w|Bosworth=g|Bourbon=r|Bowling Green=29|Bradleyville=2y|Bragg City=25|Braggadocio=25|Brandsville=19|Branson=2y|Brashear=0|Braymer=c|Brazeau=26|Breckenridge=c|Briar=2i|Bridgeton=2s|Brighton=2b|Brinktown=1p|Brixey=24|Bronaugh=30|Brookfield=1l|Brookline=12|Broseley=b|Browning=1l|Brownwood=2v|Brumley=1t|Bruner=l|Brunswick=k|Bucklin=1l|Buckner=1b|Bucyrus=2z|Buffalo=t|Bunceton=q|Bunker=2h|Burfordville=f|Burlington Junction=21|Butler=6|Butterfield=4|Cabool=2z|Cadet=32|Cainsville=14|Cairo=2f|Caledonia=32|Calhoun=15|California=1v|Callao=1n|Camden=2g|Camden Point=2a|Camdenton=e|Cameron=o|Campbell=y|Canalou=1z|Canton=1j|Cape Fair=2w|Cape Girardeau=f|Caplinger Mills=j|Cardwell=y|Carl Junction=1c|Carrollton=g|Carterville=1c|Carthage=1c|Caruthersville=25|Cascade=33|Cassville=4|Catawissa=z|Catron=1z|Caulfield=19|Cedar Hill=1d|Cedarcreek=2y|Center=2e|Centertown=p|Centerview=1e|Centerville=2h|Centralia=9|Chadwick=l|Chaffee=2m|Chamois=23|Charleston=1u|Cherryville=r|Chesterfield=2s|Chestnutridge=l|Chilhowee=1e|Chillicothe=1m|Chula=1m|Clarence=2o|Clark=2f|Clarksburg=1v|Clarksdale=v|Clarksville=29|Clarkton=y|Clearmont=21|Cleveland=i|Clever=l|Clifton Hill=2f|Climax Springs=e|Clinton=15|Clubb=33|Clyde=21|Coatsville=2k|Coffey=u|Cole Camp=7|Collins=2q|Columbia=9|Commerce=2m|Conception=21|Conception Junction=21|Concordia=1h|Conway=1g|Cook Sta=r|Cooter=25|Corder=1h|Cosby=1|Cottleville=2p|Couch=22|Cowgill=c|Craig=17|Crane=2w|Creighton=i|Crocker=2c|Cross Timbers=16|Crystal City=1d|Cuba=r|Curryville=29|Dadeville=s|Daisy=f|Dalton=k|Darlington=11|Davisville=r|Dawn=1m|De Kalb=a|De Soto=1d|De Witt=g|Dearborn=2a|Deepwater=15|Deerfield=30|Deering=25|Defiance=2p|Delta=f|Denver=35|Des Arc=1a|Devils Elbow=2c|Dexter=2v|Diamond=20|Diggins=34|Dittmer=1d|Dixon=2c|Doe Run=2r|Doniphan=2i|Dora=24|Dover=1h|Downing=2k|Drexel=6|Drury=x|Dudley=2v|Duenweg=1c|Duke=28|Dunnegan=2b|Durham=1j|Dutchtown=f|Dutzow=31|Eagle Rock=4|Eagleville=14|Earth City=2s|East Lynne=i|East Prairie=1u|Easton=a|Edgar Springs=28|Edgerton=2a|Edina=1f|Edwards=7|El Dorado Springs=j|Eldon=1t|Eldridge=1g|Elk Creek=2z|Elkland=34|Ellington=2h|Ellsinore=h|Elmer=1n|Elmo=21|Elsberry=1k|Emden=2o|Eminence=2n|Emma=1h|Eolia=29|Essex=2v|Ethel=1n|Eudora=2b|Eugene=p|Eunice=2z|Eureka=2s|Everton=s|Ewing=1j|Excello=1n|Excelsior Springs=n|Exeter=4|Fagus=b|Fair Grove=12|Fair Play=2b|Fairdealing=2i|Fairfax=2|Fairview=20|Falcon=1g|Farber=3|Farley=2a|Farmington=2r|Farrar=26|Faucett=a|Fayette=18|Fenton=2s|Festus=1d|Fillmore=1|Fisk=b|Flemington=2b|Fletcher=1d|Flinthill=2p|Florence=1y|Florissant=2s|Foley=1k|Fordland=34|Forest City=17|Foristell=2p|Forsyth=2y|Fort Leonard Wood=2c|Fortuna=1v|Foster=6|Frankford=29|Franklin=18|Fredericktown=1o|Freeburg=23|Freeman=i|Freistatt=1i|Fremont=h|French Village=2r|Friedheim=f|Frohna=26|Fulton=d|Gainesville=24|Galena=2w|Gallatin=u|Galt=13|Garden City=i|Garrison=l|Gasconade=10|Gatewood=2i|Gentry=11|Gerald=z|Gibbs=0|Gibson=y|Gideon=1z|Gilliam=2j|Gilman City=u|Gipsy=8|Glasgow=18|Glenallen=8|Glencoe=2s|Glenwood=2k|Gobler=25|Golden=4|Golden City=5|Goodman=1r|Gordonville=f|Gorin=2l|Gower=o|Graff=36|Graham=21|Grain Valley=1b|Granby=20|Grandin=h|Grandview=1b|Granger=2l|Grant City=35|Gravois Mills=1y|Gray Summit=z|Grayridge=2v|Green Castle=2x|Green City=2x|Green Ridge=27|Greenfield=s|Greentop=0|Greenville=33|Greenwood=1b|Grover=2s|Grovespring=36|Grubville=1d|Guilford=21|Hale=g|Half Way=2b|Hallsville=9|Halltown=1i|Hamilton=c|Hannibal=1q|Hardenville=24|Hardin=2g|Harris=2x|Harrisburg=9|Harrisonville=i|Hartsburg=9|Hartshorn=2z|Hartville=36|Harviell=b|Harwood=30|Hatfield=14|Hawk Point=1k|Hayti=25|Hazelwood=2s|Helena=1|Hematite=1d|Henley=p|Henrietta=2g|Herculaneum=1d|Hermann=10|Hermitage=16|Higbee=2f|Higginsville=1h|High Hill=1x|High Point=1v|High Ridge=1d|Highlandville=l|Hillsboro=1d|Holcomb=y|Holden=1e|Holland=25|Holliday=1w|Hollister=2y|Holt=n|Holts Summit=d|Hopkins=21|Hornersville=y|House Springs=1d|Houston=2z|Houstonia=27|Huggins=2z|Hughesville=27|Humansville=2b|Hume=6|Humphreys=2x|Hunnewell=2o|Huntsville=2f|Hurdland=1f|Hurley=2w|Iberia=1t|Imperial=1d|Independence=1b|Ionia=7|Irondale=32|Ironton=1a|Isabella=24|Jackson=f|Jacksonville=2f|Jadwin=w|Jameson=u|Jamesport=u|Jamestown=1v|Jasper=1c|Jefferson City=p|Jerico Springs=j|Jerome=28|Jonesburg=1x|Joplin=1c|Kahoka=m|Kaiser=1t|Kansas City=1b|Kearney=n|Kelso=2m|Kennett=y|Kewanee=1z|Keytesville=k|Kidder=c|Kimberling City=2w|Kimmswick=1d|King City=11|Kingdom City=d|Kingston=c|Kingsville=1e|Kirbyville=2y|Kirksville=0|Kissee Mills=2y|Knob Lick=2r|Knob Noster=1e|Knox City=1f|Koeltztown=23|Koshkonong=22|La Belle=1j|La Grange=1j|La Monte=27|La Plata=1n|La Russell=1c|Labadie=z|Laclede=1l|Laddonia=3|Lake Ozark=e|Lake Saint Louis=2p|Lake Spring=w|Lamar=5|Lampe=2w|Lanagan=1r|Lancaster=2k|Laquey=2c|Laredo=13|Latham=1v|Lathrop=o|Laurie=1y|Lawson=2g|Lead Hill=l|Leadwood=2r|Leasburg=r|Lebanon=1g|Lees Summit=1b|Leeton=1e|Lenox=w|Lentner=2o|Leonard=2o|Leopold=8|Leslie=z|Lesterville=2h|Levasy=1b|Lewistown=1j|Lexington=1h|Liberal=5|Liberty=n|Licking=2z|Liguori=1d|Lilbourn=1z|Lincoln=7|Linn=23|Linn Creek=e|Linneus=1l|Livonia=2d|Lock Springs=u|Lockwood=s|Lodi=33|Lohman=p|Lone Jack=1b|Lonedell=z|Long Lane=t|Loose Creek=23|Louisburg=t|Louisiana=29|Lowndes=33|Lowry City=2q|Lucerne=2d|Ludlow=1m|Luebbering=z|Luray=m|Lynchburg=1g|Macks Creek=e|Macomb=36|Macon=1n|Madison=1w|Maitland=17|Malden=y|Malta Bend=2j|Mansfield=36|Mapaville=1d|Marble Hill=8|Marceline=1l|Marionville=1i|Marquand=1o|Marshall=2j|Marshfield=34|Marston=1z|Marthasville=31|Martinsburg=3|Martinsville=14|Maryland Heights=2s|Maryville=21|Matthews=1z|Maysville=v|Mayview=1h|Maywood=1q|Mc Bride=26|Mc Fall=11|Mc Gee=33|Mc Girk=1v|Meadville=1l|Memphis=2l|Mendon=k|Mercer=1s|Meta=23|Metz=30|Mexico=3|Miami=2j|Mid Missouri=9|Middle Brook=1a|Middletown=1x|Milan=2x|Milford=5|Mill Spring=33|Miller=1i|Millersville=f|Milo=30|Mindenmines=5|Mineral Point=32|Missouri City=n|Moberly=2f|Mokane=d|Monett=4|Monroe City=1w|Montgomery City=1x|Monticello=1j|Montier=2n|Montreal=e|Montrose=15|Moody=19|Mooresville=1m|Mora=27|Morehouse=1z|Morley=2m|Morrison=10|Morrisville=2b|Morse Mill=1d|Mosby=n|Moscow Mills=1k|Mound City=17|Moundville=30|Mount Sterling=10|Mount Vernon=1i|Mountain Grove=36|Mountain View=19|Myrtle=22|Napoleon=1h|Naylor=2i|Neck City=1c|Neelyville=b|Nelson=2j|Neosho=20|Nevada=30|New Bloomfield=d|New Boston=1l|New Cambria=1n|New Florence=1x|New Franklin=18|New Hampton=14|New Haven=z|New London=2e|New Madrid=1z|New Melle=2p|Newark=1f|Newburg=28|Newtonia=20|Newtown=2x|Niangua=34|Nixa=l|Noble=24|Noel=1r|Norborne=g|Norwood=36|Novelty=1f|Novinger=0|O Fallon=2p|Oak Grove=1b|Oak Ridge=f|Odessa=1h|Old Appleton=f|Old Monroe=1k|Oldfield=l|Olean=1t|Olney=1k|Oran=2m|Oregon=17|Oronogo=1c|Orrick=2g|Osage Beach=e|Osborn=v|Osceola=2q|Otterville=q|Owensville=10|Oxly=2i|Ozark=l|Pacific=z|Palmyra=1q|Paris=1w|Park Hills=2r|Parma=1z|Parnell=21|Patterson=33|Patton=8|Pattonsburg=u|Peace Valley=19|Peculiar=i|Perkins=2m|Perry=2e|Perryville=26|Pevely=1d|Philadelphia=1q|Phillipsburg=1g|Pickering=21|Piedmont=33|Pierce City=1i|Pilot Grove=q|Pilot Knob=1a|Pineville=1r|Pittsburg=16|Plato=2z|Platte City=2a|Plattsburg=o|Pleasant Hill=i|Pleasant Hope=2b|Plevna=1f|Pocahontas=f|Point Lookout=2y|Polk=2b|Pollock=2x|Polo=c|Pomona=19|Ponce De Leon=2w|Pontiac=24|Poplar Bluff=b|Portage Des Sioux=2p|Portageville=1z|Portland=d|Potosi=32|Pottersville=19|Powell=1r|Powersite=2y|Powersville=2d|Prairie Home=q|Preston=16|Princeton=1s|Protem=2y|Purcell=1c|Purdin=1l|Purdy=4|Puxico=2v|Queen City=2k|Quincy=16|Qulin=b|Racine=20|Ravenwood=21|Raymondville=2z|Raymore=i|Rayville=2g|Rea=1|Redford=2h|Reeds=1c|Reeds Spring=2w|Renick=2f|Republic=12|Revere=m|Reynolds=2h|Rhineland=1x|Rich Hill=6|Richards=30|Richland=2c|Richmond=2g|Richwoods=32|Ridgedale=2y|Ridgeway=14|Risco=1z|Riverside=2a|Rives=y|Roach=e|Robertsville=z|Roby=2z|Rocheport=9|Rock Port=2|Rockaway Beach=2y|Rockbridge=24|Rockville=6|Rocky Comfort=1r|Rocky Mount=1y|Rogersville=34|Rolla=28|Rombauer=b|Roscoe=2q|Rosebud=10|Rosendale=1|Rothville=k|Rueter=2y|Rush Hill=3|Rushville=a|Russellville=p|Rutledge=2l|Saginaw=20|Saint Albans=z|Saint Ann=2s|Saint Charles=2p|Saint Clair=z|Saint Elizabeth=1t|Saint James=28|Saint Joseph=a|Saint Louis=2t|Saint Mary=2u|Saint Patrick=m|Saint Peters=2p|Saint Robert=2c|Saint Thomas=p|Sainte Genevieve=2u|Salem=w|Salisbury=k|Santa Fe=1w|Sarcoxie=1c|Savannah=1|Saverton=2e|Schell City=30|Scott City=2m|Sedalia=27|Sedgewickville=8|Seligman=4|Senath=y|Seneca=20|Seymour=34|Shelbina=2o|Shelbyville=2o|Sheldon=30|Shell Knob=4|Sheridan=35|Sibley=1b|Sikeston=2m|Silex=1k|Silva=33|Skidmore=21|Slater=2j|Smithton=27|Smithville=n|Solo=2z|South Greenfield=s|South West City=1r|Sparta=l|Spickard=13|Spokane=l|Springfield=12|Squires=x|Stanberry=11|Stanton=z|Stark City=20|Steedman=d|Steele=25|Steelville=r|Stella=20|Stet=g|Stewartsville=v|Stockton=j|Stotts City=1i|Stoutland=e|Stoutsville=1w|Stover=1y|Strafford=12|Strasburg=i|Sturdivant=8|Sturgeon=9|Success=2z|Sullivan=z|Summersville=2z|Sumner=k|Sunrise Beach=e|Sweet Springs=2j|Syracuse=1y|Tallapoosa=1z|Taneyville=2y|Tarkio=2|Taylor=1q|Tebbetts=d|Tecumseh=24|Thayer=22|Theodosia=24|Thompson=3|Thornfield=24|Tiff=32|Tiff City=1r|Tina=g|Tipton=1v|Treloar=31|Trenton=13|Trimble=o|Triplett=k|Troy=1k|Truesdale=31|Truxton=1k|Tunas=t|Turners=12|Turney=o|Tuscumbia=1t|Udall=24|Ulman=1t|Union=z|Union Star=v|Uniontown=26|Unionville=2d|Urbana=t|Urich=15|Utica=1m|Valles Mines=2r|Valley Park=2s|Van Buren=h|Vandalia=3|Vanduser=2m|Vanzant=x|Verona=1i|Versailles=1y|Viburnum=1a|Vichy=1p|Vienna=1p|Villa Ridge=z|Vulcan=1a|Waldron=2a|Walker=30|Walnut Grove=12|Walnut Shade=2y|Wappapello=33|Wardell=25|Warrensburg=1e|Warrenton=31|Warsaw=7|Washburn=4|Washington=z|Wasola=24|Watson=2|Waverly=1h|Wayland=m|Waynesville=2c|Weatherby=v|Weaubleau=16|Webb City=1c|Wellington=1h|Wellsville=1x|Wentworth=20|Wentzville=2p|Wesco=r|West Alton=2p|West Plains=19|Westboro=2|Weston=2a|Westphalia=23|Wheatland=16|Wheaton=4|Wheeling=1m|Whiteman Air Force Base=1e|Whiteoak=y|Whiteside=1k|Whitewater=f|Willard=12|Williamsburg=d|Williamstown=1j|Williamsville=33|Willow Springs=19|Windsor=15|Windyville=t|Winfield=1k|Winigan=2x|Winona=2n|Winston=u|Wolf Island=1u|Wooldridge=q|Worth=35|Worthington=2d|Wright City=31|Wyaconda=m|Wyatt=1u|Yukon=2z|Zalma=8|Zanoni=24'
+  },
+  MS: {
+    counties: 'Adams|Alcorn|Amite|Attala|Benton|Bolivar|Calhoun|Carroll|Chickasaw|Choctaw|Claiborne|Clarke|Clay|Coahoma|Copiah|Covington|DeSoto|Forrest|Franklin|George|Greene|Grenada|Hancock|Harrison|Hinds|Holmes|Humphreys|Issaquena|Itawamba|Jackson|Jasper|Jefferson|Jefferson Davis|Jones|Kemper|Lafayette|Lamar|Lauderdale|Lawrence|Leake|Lee|Leflore|Lincoln|Lowndes|Madison|Marion|Marshall|Monroe|Montgomery|Neshoba|Newton|Noxubee|Oktibbeha|Panola|Pearl River|Perry|Pike|Pontotoc|Prentiss|Quitman|Rankin|Scott|Sharkey|Simpson|Smith|Stone|Sunflower|Tallahatchie|Tate|Tippah|Tishomingo|Tunica|Union|Walthall|Warren|Washington|Wayne|Webster|Wilkinson|Winston|Yalobusha|Yazoo',
+    zips: 'ts9:z,1:1w,1:4,3:1h,3:1n,1:1x,1:1a,3:d,3,1:1w,1:1h,1,1,1:1n,1,2:1x,1:1z,1:20,1:1n,1:1x,1:d,1,1:g,1:4,1:1a,1,2:g,1:1w,1:d,2:g,1:1a,1:1n,1:d,1,1:1n,1:4,2:1a,1:20,1:g,1:20,2:g,1:z,3:1h,1:1a,2,2:1x,1:1z,1:1h,1,2:1w,1:d,1:1z,1:g,1,1:z,1:1x,1:z,1:1z,1:z,2:1a,1:g,3:1x,2:z,1:g,f:23,1,1,1,g:5,1:1q,1:23,1,2:5,1,4,1:23,1:5,1,3:1u,1,1,1:d,1:5,4:23,1:r,1:5,2:23,1:1u,2,2,1:q,2:23,3:5,1:23,1:1u,1:5,2,1:1q,2:d,1:1u,1:5,2:1u,1:5,1,1,2:23,2:1u,2:23,1:5,1:23,j:14,1,1,1,g:1l,1:1b,3:14,1:1b,1:14,1:1y,1:20,1:1m,4:1y,1:1,1,3:1y,1:6,2:1l,2:s,1:1b,2:1,1:s,1:1b,1:14,1:8,1,1:1y,3:s,1:1m,1:14,1:s,1:1m,1:8,2:14,1:1l,1,1:1,1:14,2,1:1l,1:1b,1:1l,2:1y,1:z,1:8,1:s,1:8,1:6,1:14,1:1m,l:l,1,b:6,1,1,1,1:7,3:1v,1,1:28,1:7,1:p,1:1c,1:l,1:1v,1,1:l,1:15,5,5:l,1:15,2:7,1:15,1,1,1:7,1:28,1:z,1:1v,1:6,1:15,1:28,1:7,1:6,2:1v,1,1:15,1:l,1:28,1:1v,1,1:1n,1:28,1:1v,1:1c,1z:q,1:29,1,1:o,1:1o,1,1:1r,1:18,1,1:1o,4:13,3:1q,2:o,1:1e,1:o,1:e,1:o,1:1q,1:1r,1:p,3:o,1:3,2:v,2:18,2:1o,1:1p,3:e,1,1:p,1:1p,1:v,1:1r,1:e,3:a,1:1p,1:29,2:3,2:1p,2:13,1:p,1:v,1:q,1:1p,9:3,1,1:13,1:18,1:1r,2:r,1:1r,1:q,1:1s,1:1p,2:f,1:0,1,1,8:18,a:12,4:a,1:1o,1:p,2:1o,1:1r,1:a,1:1o,1:1p,1:1s,1:o,2:22,1:18,1,1:1q,1:3,1:1o,1:29,1:18,2:0,1:q,1:1o,1:1s,1:p,1:o,1:13,2:29,1:o,1,1:7,1:r,2:29,1:22,1,1,1,6:13,1:0,1:e,1:p,1:1o,1:29,7:o,1,1,1,1,1,1,1:1o,1:o,1,1,1,1,2,1,1,1:1o,7:o,7:1o,4:o,e,j,2,1,a,1,1,2,2:1o,1:o,7,2:1o,3:11,1,1,1,1,2,2,b,2:24,1:1e,1:24,1:11,1,1:1e,1:y,2:b,2:1e,3:11,1:1e,1,1:u,1:27,2:1f,1:11,3:1e,1:27,1:b,1:u,2:1d,2:y,2,1:b,1:u,2:y,1:1p,1:b,1:1f,1:k,1:b,1:11,1:1d,1:u,1:24,y:h,1,1,1,2,1,e:w,1:u,1:1j,2:h,1:1i,1:w,1:f,1:19,7:x,1,2:u,1:x,1,1,1,8:k,1:j,3:10,1:k,1:1i,2:x,1:u,1:k,1:1j,1:1i,1:1j,1:h,1:1i,4,4:w,1:10,1:1j,1:x,1:19,1:f,1:x,1:u,1:10,1:19,i:n,1,1,2,1,1,d:m,1,1,3,4,1:n,1,1,1,1,1,5,c:t,1,2,1:m,2,2:n,1:1t,1:t,1,1,1,1,1,1,1,2:n,1:m,1:1t,1:n,2:m,1:1t,4:t,e,6:16,1,1,q,1:i,1:26,1:1k,1:2,2:1k,3:2,3:12,2:19,2:2,2:i,1:1k,1,3,1:i,1:12,2,1:1k,4:i,1:16,1:12,1:2,1:12,1:1k,1:21,1:v,1:26,w:17,1,1,1,1,5,k:1b,5:9,1:17,1:25,2:1f,1:1b,1:c,2:17,1:25,1:9,1:1b,1:1c,3:25,1:6,1:25,1:17,1:c,1,1:1b,3:1g,1,2,4:17,1:1c,2:1g,2:25,1:9,1:c,3:8',
+    cities: 'Abbeville=z|Aberdeen=1b|Ackerman=9|Algoma=1l|Alligator=5|Amory=1b|Anguilla=1q|Arcola=23|Arkabutla=1w|Artesia=17|Ashland=4|Avon=23|Bailey=11|Baldwyn=14|Banner=6|Bassfield=w|Batesville=1h|Bay Saint Louis=m|Bay Springs=u|Beaumont=1j|Becker=1b|Belden=14|Belen=1n|Bellefontaine=25|Belmont=1y|Belzoni=q|Benoit=5|Benton=29|Bentonia=29|Beulah=5|Big Creek=6|Biloxi=n|Blue Mountain=1x|Blue Springs=20|Bogue Chitto=16|Bolton=o|Booneville=1m|Boyle=5|Brandon=1o|Braxton=1r|Brookhaven=16|Brooklyn=h|Brooksville=1f|Bruce=6|Buckatunna=24|Bude=i|Burnsville=1y|Byhalia=1a|Byram=o|Caledonia=1b|Calhoun City=6|Camden=18|Canton=18|Carriere=1i|Carrollton=7|Carson=w|Carthage=13|Cary=1q|Cascilla=1v|Cedarbluff=c|Centreville=26|Charleston=1v|Chatawa=1k|Chatham=23|Chunky=1e|Clara=24|Clarksdale=d|Cleveland=5|Clinton=o|Coahoma=d|Coffeeville=28|Coila=7|Coldwater=1w|Collins=f|Collinsville=11|Columbia=19|Columbus=17|Como=1h|Conehatta=1e|Corinth=1|Courtland=1h|Crawford=17|Crenshaw=1h|Crosby=2|Crowder=1n|Cruger=p|Crystal Springs=e|D Lo=1r|Daleville=11|Darling=1n|De Kalb=y|Decatur=1e|Delta City=1q|Dennis=1y|Derma=6|Diamondhead=m|Diberville=n|Doddsville=1u|Drew=1u|Dublin=d|Duck Hill=1c|Dumas=1x|Duncan=5|Dundee=1z|Durant=p|Eastabuchie=x|Ecru=1l|Edwards=o|Elliott=l|Ellisville=x|Enid=1v|Enterprise=b|Escatawpa=t|Ethel=3|Etta=20|Eupora=25|Falcon=1n|Falkner=1x|Farrell=d|Fayette=v|Fernwood=1k|Flora=18|Florence=1o|Flowood=1o|Forest=1p|Foxworth=19|French Camp=9|Friars Point=d|Fulton=s|Gallman=e|Gattman=1b|Gautier=t|Georgetown=e|Glen=1|Glen Allan=23|Glendora=1v|Gloster=2|Golden=s|Goodman=p|Gore Springs=l|Grace=r|Greenville=23|Greenwood=15|Greenwood Springs=1b|Grenada=l|Gulfport=n|Gunnison=5|Guntown=14|Hamilton=1b|Harperville=1p|Harriston=v|Harrisville=1r|Hattiesburg=h|Hazlehurst=e|Heidelberg=u|Hermanville=a|Hernando=g|Hickory=1e|Hickory Flat=4|Hillsboro=1p|Holcomb=l|Hollandale=23|Holly Bluff=29|Holly Springs=1a|Horn Lake=g|Houlka=8|Houston=8|Hurley=t|Independence=1w|Indianola=1u|Inverness=1u|Isola=q|Itta Bena=15|Iuka=1y|Jackson=o|Jayess=12|Jonestown=d|Kilmichael=1c|Kiln=m|Kokomo=19|Kosciusko=3|Lake=1p|Lake Cormorant=g|Lakeshore=m|Lamar=1a|Lambert=1n|Lauderdale=11|Laurel=x|Lawrence=1e|Leakesville=k|Leland=23|Lena=13|Lexington=p|Liberty=2|Little Rock=1e|Long Beach=n|Lorman=v|Louin=u|Louise=q|Louisville=27|Lucedale=j|Ludlow=1p|Lula=d|Lumberton=10|Lyon=d|Maben=25|Macon=1f|Madden=13|Madison=18|Magee=1r|Magnolia=1k|Mantachie=s|Mantee=6|Marietta=1m|Marion=11|Marks=1n|Mathiston=25|Mayersville=r|Mayhew=17|Mc Adams=3|Mc Call Creek=i|Mc Carley=7|Mc Cool=3|Mc Henry=1t|Mc Lain=k|Mc Neill=1i|Mccomb=1k|Meadville=i|Mendenhall=1r|Meridian=11|Merigold=5|Metcalfe=23|Michigan City=4|Midnight=q|Minter City=15|Mississippi State=1g|Mize=1s|Money=15|Monticello=12|Montpelier=c|Mooreville=14|Moorhead=1u|Morgan City=15|Morton=1p|Moselle=x|Moss=u|Moss Point=t|Mound Bayou=5|Mount Olive=f|Mount Pleasant=1a|Myrtle=20|Natchez=0|Neely=k|Nesbit=g|Nettleton=s|New Albany=20|New Augusta=1j|New Site=1m|Newhebron=12|Newton=1e|Nicholson=1i|North Carrollton=7|Noxapater=27|Oak Vale=12|Oakland=28|Ocean Springs=t|Okolona=8|Olive Branch=g|Osyka=1k|Ovett=1j|Oxford=z|Pace=5|Pachuta=b|Panther Burn=1q|Parchman=1u|Paris=z|Pascagoula=t|Pass Christian=n|Pattison=a|Paulding=u|Pearl=1o|Pearlington=m|Pelahatchie=1o|Perkinston=1t|Petal=h|Pheba=c|Philadelphia=1d|Philipp=1v|Picayune=1i|Pickens=p|Piney Woods=1o|Pinola=1r|Pittsboro=6|Plantersville=14|Pontotoc=1l|Pope=1h|Poplarville=1i|Port Gibson=a|Porterville=y|Potts Camp=1a|Prairie=1b|Prentiss=w|Preston=y|Puckett=1o|Pulaski=1p|Purvis=10|Quitman=b|Raleigh=1s|Randolph=1l|Raymond=o|Red Banks=1a|Redwood=22|Rena Lara=d|Richland=1o|Richton=1j|Ridgeland=18|Rienzi=1|Ripley=1x|Robinsonville=1z|Rolling Fork=1q|Rome=1u|Rose Hill=u|Rosedale=5|Roxie=i|Ruleville=1u|Ruth=16|Sallis=3|Saltillo=14|Sandersville=x|Sandhill=1o|Sandy Hook=19|Sarah=1h|Sardis=1h|Satartia=29|Saucier=n|Schlater=15|Scobey=28|Scooba=y|Scott=5|Sebastopol=1p|Seminary=f|Senatobia=1w|Shannon=14|Sharon=18|Shaw=5|Shelby=5|Sherard=d|Sherman=1l|Shubuta=b|Shuqualak=1f|Sibley=0|Sidon=7|Silver City=q|Silver Creek=12|Slate Spring=6|Sledge=1z|Smithdale=2|Smithville=1b|Sontag=12|Soso=x|Southaven=g|Star=1o|Starkville=1g|State Line=k|Steens=17|Stennis Space Center=m|Stewart=1c|Stoneville=23|Stonewall=b|Stringer=u|Sturgis=1g|Summit=1k|Sumner=1v|Sumrall=10|Sunflower=1u|Swan Lake=1v|Swiftown=15|Taylor=z|Taylorsville=1s|Tchula=p|Terry=o|Thaxton=1l|Thomastown=13|Tie Plant=l|Tillatoba=28|Tinsley=29|Tiplersville=1x|Tippo=1v|Tishomingo=1y|Toccopola=z|Toomsuba=11|Tougaloo=o|Trebloc=8|Tremont=s|Tula=z|Tunica=1z|Tupelo=14|Tutwiler=1v|Tylertown=21|Union=1d|Union Church=v|University=z|Utica=o|Vaiden=7|Valley Park=r|Van Vleet=8|Vance=1n|Vancleave=t|Vardaman=6|Vaughan=29|Verona=14|Vicksburg=22|Victoria=1a|Vossburg=u|Walls=g|Walnut=1x|Walnut Grove=13|Walthall=25|Washington=0|Water Valley=28|Waterford=z|Waveland=m|Waynesboro=24|Wayside=23|Webb=1v|Weir=9|Wesson=e|West=p|West Point=c|Wheeler=1m|Whitfield=1o|Wiggins=1t|Winona=1c|Winstonville=5|Winterville=23|Woodland=8|Woodville=26|Yazoo City=29'
+  },
+  MT: {
+    counties: 'Beaverhead|Big Horn|Blaine|Broadwater|Carbon|Carter|Cascade|Chouteau|Custer|Daniels|Dawson|Deer Lodge|Fallon|Fergus|Flathead|Gallatin|Garfield|Glacier|Golden Valley|Granite|Hill|Jefferson|Judith Basin|Lake|Lewis and Clark|Liberty|Lincoln|Madison|McCone|Meagher|Mineral|Missoula|Musselshell|Park|Petroleum|Phillips|Pondera|Powder River|Powell|Prairie|Ravalli|Richland|Roosevelt|Rosebud|Sanders|Sheridan|Silver Bow|Stillwater|Sweet Grass|Teton|Toole|Treasure|Valley|Wheatland|Wibaux|Yellowstone',
+    zips: '19ix:1b,1:1j,1:17,1,2:1j,1:4,1,2:1f,1:1c,1:17,1:4,1,1:1j,1:1,2:x,1:1b,1:x,2:1,2:1j,1:1,1:4,1:x,1:1b,1:4,1:x,1:1,1:d,1:1c,1:1,1,1:1h,1:1j,1:1f,1:17,2:4,2:17,1:1j,2:i,1:x,3:1,2:1c,1:t,1:w,1:1c,2:1b,1:g,1:w,2:1b,1:11,1:1b,1:1j,1:x,1:1,1:1b,1:4,1:1b,1:4,1,1:w,1,1:i,1:1,1:1f,1:g,1:1h,1:1j,2:x,1,1:17,1:y,1:1h,1:x,1:y,1:1j,1:1,c:1j,1,1,1,1,1,1,1,3,1,2,1,1,1,2c:16,a:19,1:16,1,1:s,1,2:15,1:16,1:19,2:15,1:9,1:1g,2,1:16,4:1g,1,9,1,1:16,1:15,1:1g,3:19,1:1g,2,2:19,1:9,1:19,1:16,1:19,1,1,1:a,1:1g,1:z,1:15,1:9,7:15,3:1g,1:s,1:19,1:9,p:8,a:5,1:17,1:c,1:11,1:a,1:5,1:11,1:g,1:5,3:g,1:17,1:5,2:13,1:17,3:a,2:5,1:17,3:8,1:g,1:8,1:a,2:13,2:11,1:c,1:11,2:17,2:13,2:8,2:1i,1:c,1b:6,1,1,1,1,1,4:o,1:h,1:6,2,2:10,1:h,1:d,1:1d,1:7,1:6,1:1d,2:d,1:10,2:h,3:d,2:10,1:1d,1:h,1:1e,1:1d,4:7,1:d,1:7,1:6,1:1e,2:7,1:m,1:10,2:7,1:d,1:m,1:1h,1:1e,2:10,1:d,3:7,1:1e,1:m,1:6,1:d,1:6,1:1e,1:1d,1,1:m,2:d,1:6,2:1e,3:6,2:m,1:6,2:1e,1:6,1:1e,1:6,1:10,1:6,2:d,c:k,j:7,1:k,1:p,1:2,1:z,1:k,1:2,1,1:k,1:2,1:k,1:p,1:k,3:2,2:z,1,2:k,2:2,2:z,1:p,1:z,1:2,1i:o,1,2,g,3,1,1,1,5:l,1,1:o,1:l,1:o,1,2:l,1:o,1,1:3,1:t,1:3,1,1:t,2:3,1:o,1h:1a,1,1,4,3:r,1:b,2:12,1:f,1,1,1,1,1,1:r,1:l,1:12,2:0,1,2:1a,1:12,1:r,1:f,1:12,1:0,1:12,2:r,1:0,3,1:r,1:f,2:1a,2:r,1:0,1:r,1:1a,1:r,1:1a,1:r,1:f,2:r,1,1:b,2:f,1:l,1:f,1:0,1,9:f,1,t:v,1,1,1,2,1,1,4,8:u,1:n,2:v,1:n,1:v,1,1:14,1,1,1:u,1:18,1:j,1:14,1:v,1:14,2:j,3:14,1,1:u,1:12,1:18,1,1:v,1,1:18,3:v,2:18,1:12,1:n,1:18,2:j,1:18,1:n,3,1,1,1:u,1,1:v,2:14,1,1:u,1:18,1,1:14,q:e,2,1,6:n,1:e,1,1,1:n,1,1:e,1:q,1,1:e,1,1,1,1:q,2:e,1,1,1,1:n,1:q,1:n,1:e,1:q,1,1,1:e,1',
+    cities: 'Absarokee=1b|Acton=1j|Alberton=u|Alder=r|Alzada=5|Anaconda=b|Angela=17|Antelope=19|Arlee=n|Ashland=17|Augusta=o|Avon=12|Babb=h|Bainville=16|Baker=c|Ballantine=1j|Basin=l|Bearcreek=4|Belfry=4|Belgrade=f|Belt=6|Biddle=11|Big Arm=n|Big Sandy=7|Big Sky=f|Big Timber=1c|Bigfork=e|Bighorn=1f|Billings=1j|Birney=17|Black Eagle=6|Bloomfield=a|Bonner=v|Boulder=l|Box Elder=k|Boyd=4|Boyes=5|Bozeman=f|Brady=10|Bridger=4|Broadus=11|Broadview=1j|Brockton=16|Brockway=s|Browning=h|Brusett=g|Buffalo=d|Busby=1|Butte=1a|Bynum=1d|Cameron=r|Canyon Creek=o|Capitol=5|Cardwell=l|Carter=7|Cascade=6|Charlo=n|Chester=p|Chinook=2|Choteau=1d|Circle=s|Clancy=l|Clinton=v|Clyde Park=x|Coffee Creek=d|Cohagen=g|Colstrip=17|Columbia Falls=e|Columbus=1b|Condon=v|Conner=14|Conrad=10|Cooke City=x|Coram=e|Corvallis=14|Crane=15|Crow Agency=1|Culbertson=16|Custer=1j|Cut Bank=h|Dagmar=19|Darby=14|Dayton=n|De Borgia=u|Decker=1|Deer Lodge=12|Dell=0|Denton=d|Dillon=0|Divide=1a|Dixon=18|Dodson=z|Drummond=j|Dupuyer=10|Dutton=1d|East Glacier Park=h|East Helena=o|Edgar=4|Ekalaka=5|Elliston=12|Elmo=n|Emigrant=x|Ennis=r|Essex=e|Ethridge=1e|Eureka=q|Fairfield=1d|Fairview=15|Fallon=13|Fishtail=1b|Flaxville=9|Florence=14|Floweree=7|Forest Grove=d|Forsyth=17|Fort Benton=7|Fort Harrison=o|Fort Peck=1g|Fort Shaw=6|Fort Smith=1|Fortine=q|Frazer=1g|Frenchtown=v|Froid=16|Fromberg=4|Galata=1e|Gallatin Gateway=f|Gardiner=x|Garrison=12|Garryowen=1|Geraldine=7|Geyser=m|Gildford=k|Glasgow=1g|Glen=0|Glendive=a|Glentana=1g|Gold Creek=12|Grantsdale=14|Grass Range=d|Great Falls=6|Greycliff=1c|Hall=j|Hamilton=14|Hammond=5|Hardin=1|Harlem=2|Harlowton=1h|Harrison=r|Hathaway=17|Haugan=u|Havre=k|Hays=2|Heart Butte=10|Helena=o|Helmville=12|Heron=18|Highwood=7|Hilger=d|Hingham=k|Hinsdale=1g|Hobson=m|Hogeland=2|Homestead=16|Hot Springs=18|Hungry Horse=e|Huntley=1j|Huson=v|Hysham=1f|Ingomar=17|Inverness=k|Ismay=8|Jackson=0|Jefferson City=l|Joliet=4|Joplin=p|Jordan=g|Judith Gap=1h|Kalispell=e|Kevin=1e|Kila=e|Kinsey=8|Kremlin=k|Lake Mc Donald=e|Lakeside=e|Lambert=15|Lame Deer=17|Larslan=1g|Laurel=1j|Lavina=i|Ledger=10|Lewistown=d|Libby=q|Lima=0|Lincoln=o|Lindsay=a|Livingston=x|Lloyd=2|Lodge Grass=1|Lolo=v|Loma=7|Lonepine=18|Loring=z|Lothair=1e|Malmstrom Afb=6|Malta=z|Manhattan=f|Marion=e|Martin City=e|Martinsdale=t|Marysville=o|Mc Allister=r|Mc Leod=1c|Medicine Lake=19|Melrose=1a|Melstone=w|Melville=1c|Mildred=13|Miles City=8|Milltown=v|Missoula=v|Moccasin=m|Molt=1b|Monarch=6|Moore=d|Mosby=g|Musselshell=w|Nashua=1g|Neihart=6|Norris=r|Noxon=18|Nye=1b|Oilmont=1e|Olive=11|Olney=e|Opheim=1g|Otter=11|Outlook=19|Ovando=12|Pablo=n|Paradise=18|Park City=1b|Peerless=9|Pendroy=1d|Philipsburg=j|Pinesdale=14|Plains=18|Plentywood=19|Plevna=c|Polaris=0|Polebridge=e|Polson=n|Pompeys Pillar=1j|Pony=r|Poplar=16|Powderville=11|Power=1d|Pray=x|Proctor=n|Pryor=1|Radersburg=3|Ramsay=1a|Rapelje=1b|Ravalli=n|Raymond=19|Raynesford=m|Red Lodge=4|Redstone=19|Reed Point=1b|Reserve=19|Rexford=q|Richey=a|Richland=1g|Ringling=t|Roberts=4|Rollins=n|Ronan=n|Roscoe=4|Rosebud=17|Roundup=w|Roy=d|Rudyard=k|Ryegate=i|Saco=z|Saint Ignatius=n|Saint Marie=1g|Saint Regis=u|Saint Xavier=1|Saltese=u|Sand Coulee=6|Sand Springs=g|Sanders=1f|Savage=15|Scobey=9|Seeley Lake=v|Shawmut=1h|Shelby=1e|Shepherd=1j|Sheridan=r|Sidney=15|Silver Gate=x|Silver Star=r|Simms=6|Somers=e|Springdale=x|Stanford=m|Stevensville=14|Stockett=6|Stryker=q|Sula=14|Sumatra=17|Sun River=6|Sunburst=1e|Superior=u|Sweet Grass=1e|Teigen=y|Terry=13|Thompson Falls=18|Three Forks=f|Toston=3|Townsend=3|Trego=q|Trout Creek=18|Troy=q|Turner=2|Twin Bridges=r|Two Dot=1h|Ulm=6|Valier=10|Vandalia=1g|Vaughn=6|Victor=14|Vida=s|Virginia City=r|Volborg=8|Warm Springs=b|West Glacier=e|West Yellowstone=f|Westby=19|White Sulphur Springs=t|Whitefish=e|Whitehall=l|Whitetail=9|Whitewater=z|Whitlash=p|Wibaux=1i|Willard=c|Willow Creek=f|Wilsall=x|Winifred=d|Winnett=y|Winston=3|Wisdom=0|Wise River=0|Wolf Creek=o|Wolf Point=16|Worden=1j|Wyola=1|Zortman=z|Zurich=2'
+  },
+  NC: {
+    counties: 'Alamance|Alexander|Alleghany|Anson|Ashe|Avery|Beaufort|Bertie|Bladen|Brunswick|Buncombe|Burke|Cabarrus|Caldwell|Camden|Carteret|Caswell|Catawba|Chatham|Cherokee|Chowan|Clay|Cleveland|Columbus|Craven|Cumberland|Currituck|Dare|Davidson|Davie|Duplin|Durham|Edgecombe|Forsyth|Franklin|Gaston|Gates|Graham|Granville|Greene|Guilford|Halifax|Harnett|Haywood|Henderson|Hertford|Hoke|Hyde|Iredell|Jackson|Johnston|Jones|Lee|Lenoir|Lincoln|Macon|Madison|Martin|McDowell|Mecklenburg|Mitchell|Montgomery|Moore|Nash|New Hanover|Northampton|Onslow|Orange|Pamlico|Pasquotank|Pender|Perquimans|Person|Pitt|Polk|Randolph|Richmond|Robeson|Rockingham|Rowan|Rutherford|Sampson|Scotland|Stanly|Stokes|Surry|Swain|Transylvania|Tyrrell|Union|Vance|Wake|Warren|Washington|Watauga|Wayne|Wilkes|Wilson|Yadkin|Yancey',
+    zips: 'ku6:t,1:2d,2:x,1,1:2q,1:x,1:27,1:t,2:2c,1:2d,1:2q,1:2c,1:2q,1:2c,1,1:x,1:2d,1:26,2,1:t,2:2d,1,9:x,1:2d,1:2c,1,2:x,1:2c,1:2d,1:26,1:2d,1:x,1,1:2c,1:2d,1:27,1:2q,13:x,4,1,2,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,3,7,3,k,2,3,2,15,1,2:0,1,1:23,1,1,2:i,1,1:1p,3:g,1:i,1:14,1:0,1,1,b:i,1:1p,1:23,1:1v,2:14,2,2:1g,2:s,3:1q,1:1v,1:0,3:1p,1:23,1:14,3:i,1:0,3:i,2:0,1:1q,1:14,1,1,1,1,1,3,a:1v,3:1q,1:14,1,1:x,1,3:26,1,2:g,1:s,1,1,1,3:23,1:s,2:14,1:0,3:g,1:1p,4:14,1:g,1:i,1:14,1:g,1,1:23,1,3:26,3,2:1q,1:26,4:1g,1,1,8:0,1:23,1:14,1:20,1:i,5:0,1:23,1:s,4:23,1:1p,1:14,1,1:0,1:s,1,9:23,1:1p,2:s,1,1:26,1:1q,1:14,2:g,m:14,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,2,1,5,2,2,6,3,h,14,2,1,1,2:16,1:2j,1:v,1:1e,1:1g,1:16,1:12,1:y,1:12,1:1v,1:2j,1,1,1:1v,1,1,1,1:2j,1,1:1e,1:16,1:12,1:2j,1:1e,1:y,1:2j,1:12,1,1:2j,1:2n,1,1,1,1,2:2i,1,2:2j,1,1:20,1:1e,1:16,1:2i,1:2j,1:16,3:y,2:2k,1:16,1:2i,2:1e,1:2i,1:1e,2:i,1:2j,2,1:2k,2:12,3:1e,1,1:2k,1:2j,1:v,1:20,1:12,2:1e,1,4:12,1,1:20,1:2i,2:2k,1:2j,1,1:2k,2:2j,1,1:1e,1:2k,2:y,1:2j,2:1v,2:2j,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,5,1,1,4,a,6,2,3,7,7,1,e,5,2,1,1,2:v,1,1,1,1,1,1,1,1,1,1,1,1,2,2,5,27:w,1,1:1r,1,1:7,1:6,1:1r,1:6,1:w,1:6,1:21,1,1:2p,1:6,1:1r,1,1:6,1:19,1:w,1:1t,1:6,1:2p,1:15,1:1b,1:1l,1:1b,1:21,1,1,1:2n,1:1t,1,1:21,1,1,1,1,2:15,1:1l,1,1:1t,1:15,1,1:1t,1:1l,1:7,2,1:15,1:2p,1:w,1:1t,2:19,1:1r,1:1l,1:21,2:6,1:1l,1:1t,1:2n,1:w,1:6,1:1t,1,1:1r,1:1t,1:15,1:1l,1:7,1:2p,1:15,1:1b,1:1t,1,1:1r,1:21,1:2p,1:w,1:1r,1:2p,1:21,1:1b,1:w,1:15,1:13,1:6,1:15,1:1r,1:1l,1:2p,1,1,1,1:1t,9:1x,1,2,1:19,5:r,1:q,1,2:1z,1:r,1:e,1:19,1:q,1:7,1:2g,1:10,1:q,1:2l,1:q,1:1z,2:k,3:10,1:r,1:10,1,1:q,2,1:19,1:r,1:1z,2:10,1:q,1:r,1,1:q,3:r,1,2:q,1:7,1:q,1:r,1:1b,2:2l,2:q,1,1,1:7,1:r,1:10,1:2l,2:r,1:q,1:e,2,2:r,1:10,1:k,1:r,1,1:7,2:1z,1:19,f:2b,1,4:z,1:3,2:2b,1:1c,2:z,4,1:m,1:28,1,1:m,1:z,2:27,1:28,1:c,1,1,4:1n,1:z,1:1i,1:z,1,1:1n,1:1i,1:m,1:27,1:28,1:27,1:m,1:28,9:z,1,1,1,1,e:1n,1:27,1,1:m,1:28,1:c,1:28,1:z,1:1n,1:2h,1:1i,1:c,1,1,3:m,2:27,1:m,1,1:3,1:1i,1,4:2b,1:z,3,1:3,1:2h,1:1n,1,1,1:c,1:2h,1:2b,1:2h,1,1,2:m,1:1c,2,2:3,1:z,3:1c,1:c,1:27,1:1n,1:2b,1,1,1:1n,3:3,1:1n,1:3,1:m,1:2b,1:27,1:28,5:27,1,1,1,3:m,1,1,7:27,1:28,3:2b,1:z,2:1c,1:28,1:1i,1:m,1:3,3:2h,1,r:1n,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,4,1,1,1,2,1,3,3,1,1,1,2,2,2,1,2,1,3,1,1:25,1:1n,1,1,1,2,1,2,1,1,2,1,2,1,1,1,6,1,2,2:p,1,1,1,1,1,1,1,1,1,1,1,2,1:1q,3:29,1:25,1:8,3:16,2:u,1:1q,1,1:29,1,1:24,1:p,1:8,1:2n,1:16,1,2:8,1:24,1:16,1:25,1:u,1:p,1:2a,1:p,1:24,2,1:p,1:u,1:1q,1:2a,1,1,2:1g,1:p,1:25,1,1,1,2,1:24,1:25,1:2n,1:29,1:24,1:16,1:25,1:1q,1:25,1,1:1q,1,1:25,1:1a,1:25,1,1:24,1,2:29,1:25,1,1:29,1:25,1:1q,1,2:p,1,1:8,1:29,1:1q,1:p,1:2a,2:u,1:8,2:1s,1,1,1:9,1:1s,1,1,1,1,1,1,1,8:9,1:1y,1:9,1:n,1,1:1y,3:1s,1,1:n,1,1,1:8,1,1:1y,1:n,2,1,2:29,1:n,1:1y,1:29,1:1u,2:29,1:8,1:1s,1:n,1:9,1,1:u,1:1y,1:n,1,1:1y,1:u,1:9,1:1u,1:9,1,1:n,1:u,1:9,1:u,1:9,1,1,1,2:n,6:1y,1:9,1:1s,l:1h,1,1,1,4:u,1:1w,1,1:f,1,1:21,2:1w,1:f,2:u,1:o,1:f,1:u,1:1f,1:o,1:f,1:1h,1:o,1,1:f,1:1w,1:21,1:f,1:o,1,4:1w,1:13,1:1u,1,1,1,1,1,1,1,1,4:1h,1:1w,1:f,1:13,1:1f,1:1w,1:f,3:o,1,1,1,1,6:f,1:1w,1:1h,1:1f,1:1u,1:f,2,1:2n,1:f,1:13,1:f,1,1:1w,1:1u,1:1f,1:o,1:1w,2:f,1:21,4:f,7:h,1,1,1:5,1:2m,1:2o,1:2m,1,1:h,1,1:d,1:b,1:h,2:4,1:5,1:4,1:2m,1:b,2:2d,1:5,1:2,1:2o,1:1c,1:4,1:2,1:b,1:4,1:d,1:4,2:d,1:1c,1:2o,1:1,1:b,1:d,2:4,1:b,1:2q,1:4,1,1:d,1:5,1:b,2:2o,1:h,1:2o,1:5,1,1:2o,1:b,1:2o,1:5,1:h,1:2o,1:1c,1:d,1:5,1:2,1:5,1:2o,1:b,1:d,1:2,1:2o,1,1:b,1:4,1:h,2:2,1:2d,1:1c,1:1,1:2m,1:b,1:1,1:h,1:2o,1:4,1:2o,2:1c,1,1,1:b,1:2m,1,1:4,1,3:2o,1:2m,1:1c,2:a,1:2e,2:a,1:1o,2:1d,1:2f,1:a,1:18,1:a,1:2f,1:2e,1:2r,1:a,1:17,1:1d,1:2f,1:2e,1:28,1:17,1:22,1:1d,1:18,1:1d,1:18,1,1:a,1:18,1:a,1:18,1,1:11,1:1j,1:18,1:1d,1:1m,1:17,1:18,1:2r,1:1j,1:18,1:1k,1:1j,1:17,1:28,1:2f,1:a,1:1m,1:22,1:17,1:1m,1:1k,1,1:2r,1:22,1:a,1:18,1:a,1:18,1:1m,1,1:1j,2:1o,1:2f,2,2:a,1:11,1:2f,1:22,1:2f,1:1j,1:a,1:1o,1:a,1:1d,2:j,1:22,1:1d,1:18,1:17,1,1:a,1:1d,1,1:18,1,1,1,8:a,1,1,1,1,1,4,3,1,1,1,2d:j,1:l,1:j,1:l,1:j,1,3:l',
+    cities: 'Aberdeen=1q|Advance=t|Ahoskie=19|Alamance=0|Albemarle=2b|Albertson=u|Alexander=a|Alexis=z|Alliance=1w|Almond=2e|Altamahaw=0|Andrews=j|Angier=16|Ansonville=3|Apex=2j|Arapahoe=1w|Ararat=2d|Arden=a|Ash=9|Asheboro=23|Asheville=a|Atkinson=1y|Atlantic=f|Atlantic Beach=f|Aulander=7|Aurora=6|Autryville=29|Avon=r|Ayden=21|Aydlett=q|Badin=2b|Bahama=v|Bailey=1r|Bakersville=1o|Balsam=1d|Balsam Grove=2f|Banner Elk=5|Barco=q|Barium Springs=1c|Barnardsville=a|Barnesville=25|Bat Cave=18|Bath=6|Battleboro=w|Bayboro=1w|Bear Creek=i|Beaufort=f|Belews Creek=x|Belhaven=6|Bellarthur=21|Belmont=z|Belvidere=1z|Bennett=i|Benson=1e|Bessemer City=z|Bethania=x|Bethel=21|Beulaville=u|Biscoe=1p|Black Creek=2p|Black Mountain=a|Bladenboro=8|Blanch=g|Blounts Creek=6|Blowing Rock=2m|Boiling Springs=m|Bolivia=9|Bolton=n|Bonlee=i|Boomer=2o|Boone=2m|Boonville=2q|Bostic=28|Brasstown=l|Brevard=2f|Bridgeton=o|Broadway=1g|Browns Summit=14|Brunswick=n|Bryson City=2e|Buies Creek=16|Bullock=12|Bunn=y|Bunnlevel=16|Burgaw=1y|Burlington=0|Burnsville=2r|Butner=12|Buxton=r|Bynum=i|Calabash=9|Calypso=u|Camden=e|Cameron=1q|Camp Lejeune=1u|Candler=a|Candor=1p|Canton=17|Caroleen=28|Carolina Beach=1s|Carrboro=1v|Carthage=1q|Cary=2j|Casar=m|Cashiers=1d|Castalia=1r|Castle Hayne=1s|Catawba=h|Cedar Falls=23|Cedar Grove=1v|Cedar Island=f|Cedar Mountain=2f|Cerro Gordo=n|Chadbourn=n|Chapel Hill=1v|Charlotte=1n|Cherokee=2e|Cherry Point=o|Cherryville=z|Chimney Rock=28|China Grove=27|Chinquapin=u|Chocowinity=6|Claremont=h|Clarendon=n|Clarkton=8|Clayton=12|Clemmons=x|Cleveland=27|Cliffside=28|Climax=14|Clinton=29|Clyde=17|Coats=16|Cofield=19|Coinjock=q|Colerain=7|Colfax=14|Collettsville=d|Columbia=2g|Columbus=22|Comfort=1f|Como=19|Concord=c|Conetoe=w|Connelly Springs=b|Conover=h|Conway=1t|Cooleemee=t|Corapeake=10|Cordova=24|Cornelius=1n|Corolla=q|Council=8|Cove City=o|Cramerton=z|Creedmoor=12|Creston=4|Creswell=2l|Crossnore=5|Crouse=1i|Crumpler=4|Culberson=j|Cullowhee=1d|Cumberland=p|Cumnock=1g|Currie=1y|Currituck=q|Dallas=z|Dana=18|Danbury=2c|Davidson=z|Davis=f|Deep Gap=2m|Deep Run=1h|Delco=n|Denton=s|Denver=1i|Dillsboro=1d|Dobson=2d|Dover=o|Drexel=b|Dublin=8|Dudley=2n|Dunn=16|Durham=v|Eagle Springs=1q|Earl=m|East Bend=2q|East Flat Rock=18|East Spencer=27|Eden=26|Edenton=k|Edneyville=18|Edward=6|Efland=1v|Elizabeth City=1x|Elizabethtown=8|Elk Park=5|Elkin=2d|Ellenboro=28|Ellerbe=24|Elm City=2p|Elon=0|Emerald Isle=f|Enfield=15|Engelhard=1b|Enka=a|Ennice=2|Ernul=o|Erwin=16|Ether=1p|Etowah=18|Eure=10|Everetts=1l|Evergreen=n|Fair Bluff=n|Fairfield=1b|Fairmont=25|Fairview=a|Faison=u|Faith=27|Falcon=p|Falkland=21|Fallston=m|Farmville=21|Fayetteville=p|Ferguson=2o|Flat Rock=18|Fleetwood=4|Fletcher=18|Fontana Dam=11|Forest City=28|Fort Bragg=p|Fountain=21|Four Oaks=1e|Franklin=1j|Franklinton=y|Franklinville=23|Fremont=2n|Frisco=r|Fuquay Varina=2j|Garland=29|Garner=2j|Garysburg=1t|Gaston=1t|Gastonia=z|Gates=10|Gatesville=10|Germanton=2c|Gerton=18|Gibson=2a|Gibsonville=14|Glade Valley=2|Glen Alpine=b|Glendale Springs=4|Glenville=1d|Glenwood=1m|Gloucester=f|Godwin=p|Gold Hill=27|Goldsboro=2n|Goldston=i|Graham=0|Grandy=q|Granite Falls=d|Granite Quarry=27|Grantsboro=1w|Grassy Creek=4|Green Mountain=2r|Greensboro=14|Greenville=21|Grifton=21|Grimesland=21|Grover=m|Gulf=i|Halifax=15|Hallsboro=n|Hamilton=1l|Hamlet=24|Hampstead=1y|Hamptonville=2q|Harbinger=q|Harkers Island=f|Harmony=1c|Harrells=29|Harrellsville=19|Harris=28|Harrisburg=c|Hassell=1l|Hatteras=r|Havelock=o|Haw River=0|Hayesville=l|Hays=2o|Hazelwood=17|Henderson=2i|Hendersonville=18|Henrico=1t|Henrietta=28|Hertford=1z|Hickory=h|Hiddenite=1|High Point=14|High Shoals=z|Highfalls=1q|Highlands=1j|Hildebran=b|Hillsborough=1v|Hobbsville=10|Hobgood=15|Hobucken=1w|Hoffman=24|Hollister=15|Holly Ridge=1u|Holly Springs=2j|Hookerton=13|Hope Mills=p|Horse Shoe=18|Hot Springs=1k|Hubert=1u|Hudson=d|Huntersville=1n|Hurdle Mills=20|Icard=b|Indian Trail=2h|Iron Station=1i|Ivanhoe=29|Jackson=1t|Jackson Springs=1q|Jacksonville=1u|Jamestown=14|Jamesville=1l|Jarvisburg=q|Jefferson=4|Jonas Ridge=b|Jonesville=2q|Julian=14|Kannapolis=c|Kelford=7|Kelly=8|Kenansville=u|Kenly=1e|Kernersville=x|Kill Devil Hills=r|King=2c|Kings Mountain=m|Kinston=1h|Kipling=16|Kittrell=2i|Kitty Hawk=r|Knightdale=2j|Knotts Island=q|Kure Beach=1s|La Grange=1h|Lake Junaluska=17|Lake Lure=28|Lake Toxaway=2f|Lake Waccamaw=n|Lakeview=1q|Landis=27|Lansing=4|Lattimore=m|Laurel Hill=2a|Laurel Springs=4|Laurinburg=2a|Lawndale=m|Lawsonville=2c|Leasburg=g|Leicester=a|Leland=9|Lemon Springs=1g|Lenoir=d|Lewiston Woodville=7|Lewisville=x|Lexington=s|Liberty=23|Lilesville=3|Lillington=16|Lincolnton=1i|Linden=p|Linville=5|Linville Falls=b|Linwood=s|Little Switzerland=1m|Littleton=15|Locust=2b|Longwood=9|Louisburg=y|Lowell=z|Lowgap=2d|Lowland=1w|Lucama=2p|Lumber Bridge=25|Lumberton=25|Lynn=22|Macclesfield=w|Macon=2k|Madison=26|Maggie Valley=17|Magnolia=u|Maiden=h|Mamers=16|Manns Harbor=r|Manson=2i|Manteo=r|Maple=q|Maple Hill=1y|Marble=j|Margarettsville=1t|Marietta=25|Marion=1m|Mars Hill=1k|Marshall=1k|Marshallberg=f|Marshville=2h|Marston=24|Matthews=1n|Maury=13|Maxton=25|Mayodan=26|Maysville=1f|Mc Adenville=z|Mc Farlan=3|Mc Grady=2o|Mc Leansville=14|Mccutcheon Field=1u|Mebane=0|Merritt=1w|Merry Hill=7|Micaville=2r|Micro=1e|Middleburg=2i|Middlesex=1e|Midland=c|Midway Park=1u|Mill Spring=22|Millers Creek=2o|Mills River=a|Milton=g|Mineral Springs=2h|Minneapolis=5|Misenheimer=2b|Mocksville=t|Moncure=i|Monroe=2h|Montezuma=5|Montreat=a|Mooresboro=m|Mooresville=1c|Moravian Falls=2o|Morehead City=f|Morganton=b|Morrisville=2j|Morven=3|Mount Airy=2d|Mount Gilead=1p|Mount Holly=z|Mount Mourne=1c|Mount Olive=2n|Mount Pleasant=c|Mount Ulla=27|Mountain Home=18|Moyock=q|Murfreesboro=19|Murphy=j|Nags Head=r|Nakina=n|Naples=18|Nashville=1r|Nebo=1m|New Bern=o|New Hill=2j|New London=2b|Newell=1n|Newland=5|Newport=f|Newton=h|Newton Grove=29|Norlina=2k|Norman=24|North Wilkesboro=2o|Norwood=2b|Oak City=1l|Oak Island=9|Oak Ridge=14|Oakboro=2b|Ocean Isle Beach=9|Ocracoke=1b|Old Fort=1m|Olin=1c|Olivia=16|Oriental=1w|Orrum=25|Otto=1j|Oxford=12|Pantego=6|Parkton=25|Parmele=1l|Patterson=d|Paw Creek=1n|Peachland=3|Pelham=g|Pembroke=25|Pendleton=1t|Penland=1o|Penrose=2f|Pfafftown=x|Pikeville=2n|Pilot Mountain=2d|Pine Hall=2c|Pine Level=1e|Pinebluff=1q|Pinehurst=1q|Pineola=5|Pinetops=w|Pinetown=6|Pineville=1n|Piney Creek=2|Pink Hill=1h|Pinnacle=2c|Pisgah Forest=2f|Pittsboro=i|Pleasant Garden=14|Pleasant Hill=1t|Plumtree=5|Plymouth=2l|Point Harbor=q|Polkton=3|Polkville=m|Pollocksville=1f|Pope Army Airfield=p|Poplar Branch=q|Potecasi=1t|Powells Point=q|Powellsville=7|Princeton=1e|Proctorville=25|Prospect Hill=g|Providence=g|Purlear=2o|Raeford=1a|Raleigh=2j|Ramseur=23|Randleman=23|Red Oak=1r|Red Springs=25|Reidsville=26|Rex=25|Rhodhiss=d|Rich Square=1t|Richfield=2b|Richlands=1u|Ridgecrest=a|Ridgeway=2k|Riegelwood=n|Roanoke Rapids=15|Roaring Gap=2|Roaring River=2o|Robbins=1q|Robbinsville=11|Robersonville=1l|Rockingham=24|Rockwell=27|Rocky Mount=1r|Rocky Point=1y|Rodanthe=r|Roduco=10|Rolesville=2j|Ronda=2o|Roper=2l|Rose Hill=u|Roseboro=29|Rosman=2f|Rougemont=v|Rowland=25|Roxboro=20|Roxobel=7|Ruffin=26|Rural Hall=x|Rutherford College=b|Rutherfordton=28|Saint Pauls=25|Salemburg=29|Salisbury=27|Salter Path=f|Saluda=22|Salvo=r|Sandy Ridge=2c|Sanford=1g|Sapphire=2f|Saratoga=2p|Saxapahaw=0|Scaly Mountain=1j|Scotland Neck=15|Scotts=1c|Scottville=4|Scranton=1b|Seaboard=1t|Seagrove=23|Sealevel=f|Sedalia=14|Selma=1e|Semora=20|Seven Springs=2n|Severn=1t|Shallotte=9|Shannon=25|Sharpsburg=1r|Shawboro=q|Shelby=m|Sherrills Ford=h|Shiloh=e|Siler City=i|Siloam=2d|Simpson=21|Sims=2p|Skyland=a|Smithfield=1e|Smyrna=f|Sneads Ferry=1u|Snow Camp=0|Snow Hill=13|Sophia=23|South Mills=e|Southern Pines=1q|Southmont=s|Southport=9|Sparta=2|Speed=w|Spencer=27|Spindale=28|Spring Hope=1r|Spring Lake=p|Spruce Pine=1o|Stacy=f|Staley=23|Stanfield=2b|Stanley=z|Stantonsburg=2p|Star=1p|State Road=2d|Statesville=1c|Stedman=p|Stella=f|Stem=12|Stokes=21|Stokesdale=14|Stoneville=26|Stonewall=1w|Stony Point=1|Stovall=12|Stumpy Point=r|Sugar Grove=2m|Summerfield=14|Sunbury=10|Sunset Beach=9|Supply=9|Swannanoa=a|Swanquarter=1b|Swansboro=1u|Swepsonville=0|Sylva=1d|Tabor City=n|Tar Heel=8|Tarawa Terrace=1u|Tarboro=w|Taylorsville=1|Teachey=u|Terrell=h|Thomasville=s|Thurmond=2o|Tillery=15|Timberlake=20|Toast=2d|Tobaccoville=x|Todd=4|Topton=j|Townsville=2i|Traphill=2o|Trenton=1f|Trinity=23|Troutman=1c|Troy=1p|Tryon=22|Tuckasegee=1d|Turkey=29|Turnersburg=1c|Tuxedo=18|Tyner=k|Union Grove=1c|Union Mills=28|Valdese=b|Vale=1i|Valle Crucis=2m|Vanceboro=o|Vandemere=1w|Vass=1q|Vaughan=2k|Vilas=2m|Waco=m|Wade=p|Wadesboro=3|Wagram=2a|Wake Forest=2j|Walkertown=x|Wallace=u|Wallburg=s|Walnut Cove=2c|Walstonburg=13|Wanchese=r|Warne=l|Warrensville=4|Warrenton=2k|Warsaw=u|Washington=6|Waves=r|Waxhaw=2h|Waynesville=17|Weaverville=a|Webster=1d|Welcome=s|Weldon=15|Wendell=2j|Wentworth=26|West End=1q|West Jefferson=4|Westfield=2d|Whitakers=1r|White Oak=8|White Plains=2d|Whiteville=n|Whitsett=14|Whittier=1d|Wilkesboro=2o|Willard=1y|Williamston=1l|Williston=f|Willow Spring=2j|Wilmington=1s|Wilson=2p|Wilsons Mills=1e|Windsor=7|Winfall=1z|Wingate=2h|Winnabow=9|Winston-Salem=x|Winterville=21|Winton=19|Wise=2k|Woodland=1t|Woodleaf=27|Wrightsville Beach=1s|Yadkinville=2q|Yanceyville=g|Youngsville=y|Zebulon=2j|Zionville=2m|Zirconia=18'
+  },
+  ND: {
+    counties: 'Adams|Barnes|Benson|Billings|Bottineau|Bowman|Burke|Burleigh|Cass|Cavalier|Dickey|Divide|Dunn|Eddy|Emmons|Foster|Golden Valley|Grand Forks|Grant|Griggs|Hettinger|Kidder|LaMoure|Logan|McHenry|McIntosh|McKenzie|McLean|Mercer|Morton|Mountrail|Nelson|Oliver|Pembina|Pierce|Ramsey|Ransom|Renville|Richland|Rolette|Sargent|Sheridan|Sioux|Slope|Stark|Steele|Stutsman|Towner|Traill|Walsh|Ward|Wells|Williams',
+    zips: '18r5:12,1:8,2,1,1,1,1:12,1:1c,2:8,1,1:14,2:12,1:1c,1:14,1:12,3:8,6:10,2:8,1:12,1:1,1:14,1:10,2:1c,1:8,2,2:14,1:12,1:8,1:14,2:1c,1:19,1:8,1,1:1,2:8,1,1:12,1:10,2:19,1:10,1:12,1:8,1:14,1:12,1:1,1,1:8,1:1,2:14,1:10,1:14,2:8,1:1,2:12,1,1,1,1:8,1,2:12,l:8,1,1,1,1,1,1,1,c,1,2,1,1,23:h,1,1,1,1,1,1,1,2:1d,2:v,2:h,2:x,2:1c,1,1:x,2,1:1c,1:v,1:x,2:1d,1:h,1:1d,1:19,1:1d,2,2:h,1:x,1:1d,1:x,1:9,1:1c,1:x,2:1d,1:h,5:9,1:1d,1:h,3:v,1:9,1:h,1:1c,1:h,1:v,1:9,1:1d,1:x,3,1:h,1,2:9,1:1d,1:x,1:v,1:1d,1:1c,1:h,1:x,1:19,1:h,3:9,1:x,j:z,9:13,1:9,2:y,3:13,1:1b,1:4,3:z,2:9,1:1b,1:z,2,2:13,1:z,1:1b,1:2,3,3:z,1:1b,2:1f,2:2,1:v,1:z,1:2,2,3,1:9,1:13,2:9,1:d,1:2,4:v,1:z,1:1b,2,1:13,1,1:y,1:13,1:2,2:9,2:d,3:z,2:2,1:v,1:2,1:z,2:4,1:y,1:2,f:1a,1,3,8:p,2:m,1:j,2:1f,2:1a,1:f,1:1f,1,1:1a,1:j,1:1a,2:l,1:1,1:15,1:m,2,3:a,2:1f,1:a,1:n,1:a,1:n,1:f,1:15,1:f,3:j,3:1f,1:j,2:m,1:1a,1:m,2,2:p,1:1,2:15,1:f,2:m,1:1a,5,2:a,1:l,1:1a,1:7,1:l,1:1,1,1:1a,1:l,1:1a,1:j,2:1f,1:l,1,2:m,2:1,2:7,1:p,1:1a,1,4:7,1,1,1,1,1,1,d:t,1:7,2:s,1:e,4:16,1:i,1:w,1:r,1:7,1:i,2:t,3:16,2:r,1:s,1:e,2,1:s,4:e,3,2:t,4:7,1:r,1:7,1:n,1:i,1:t,1:i,1:r,1:t,2:16,1:i,1:16,1:s,1:7,1:e,2:r,1,1,2,1:s,1:p,k:18,1,i:17,1:g,1:18,1:5,2:c,1,1:3,3:18,1:t,1:g,2:q,2:c,2:t,1:0,1:c,1:18,1:c,1:17,1:c,1:3,1:k,1,2:0,1:k,1:5,1:18,1:5,1:g,1:18,1,19:1e,1,1,1,1,2,3:o,1:4,1:o,1,3:r,2:1e,3:6,1:1e,1:r,2:1e,2:6,3:b,1:o,2:1e,1,1,1:o,1:6,3:11,1:o,3,2:1e,2:4,2,2:6,3:1g,1:1e,1:q,1:15,1:r,1:4,1:11,1:4,1:u,2:b,3:o,1:u,1,1,1:6,1,2:r,1:u,2:r,1:1e,2,1:11,1:4,1:u,1:1e,2:11,1:o,1,1,2,1:4,1:u,1:1g,6,1,1,r,1:q,2:b,2:q,3,5:1g,1:b,1:1g,2:q,2:1g,3,1,1:q,2:1g',
+    cities: 'Abercrombie=12|Absaraka=8|Adams=1d|Agate=13|Alamo=1g|Alexander=q|Almont=t|Alsen=9|Ambrose=b|Amenia=8|Amidon=17|Anamoose=o|Aneta=v|Antler=4|Argusville=8|Arnegard=q|Arthur=8|Arvilla=h|Ashley=p|Ayr=8|Baldwin=7|Balfour=o|Balta=y|Bantry=o|Barney=12|Bathgate=x|Beach=g|Belcourt=13|Belfield=18|Benedict=r|Berlin=m|Berthold=1e|Beulah=s|Binford=j|Bisbee=1b|Bismarck=7|Blanchard=1c|Bottineau=4|Bowbells=6|Bowdon=1f|Bowman=5|Braddock=e|Brocket=z|Buchanan=1a|Buffalo=8|Burlington=1e|Butte=r|Buxton=1c|Caledonia=1c|Calvin=9|Cando=1b|Cannon Ball=16|Carpio=1e|Carrington=f|Carson=i|Cartwright=q|Casselton=8|Cathay=1f|Cavalier=x|Cayuga=14|Center=w|Chaseley=1f|Christine=12|Churchs Ferry=z|Cleveland=1a|Clifford=1c|Cogswell=14|Coleharbor=r|Colfax=12|Columbus=6|Cooperstown=j|Courtenay=1a|Crary=z|Crosby=b|Crystal=x|Cummings=1c|Dahlen=v|Davenport=8|Dawson=l|Dazey=1|Deering=o|Denhoff=15|Des Lacs=1e|Devils Lake=z|Dickey=m|Dickinson=18|Dodge=c|Donnybrook=1e|Douglas=1e|Drake=o|Drayton=x|Driscoll=7|Dunn Center=c|Dunseith=13|Edgeley=m|Edinburg=1d|Edmore=z|Egeland=1b|Elgin=i|Ellendale=a|Emerado=h|Enderlin=10|Epping=1g|Erie=8|Esmond=2|Fairdale=1d|Fairfield=3|Fairmount=12|Fargo=8|Fessenden=1f|Fingal=1|Finley=19|Flasher=t|Flaxton=6|Forbes=a|Fordville=1d|Forest River=1d|Forman=14|Fort Ransom=10|Fort Totten=2|Fort Yates=16|Fortuna=b|Fredonia=n|Fullerton=a|Gackle=n|Galesburg=1c|Gardner=8|Garrison=r|Gilby=h|Gladstone=18|Glasston=x|Glen Ullin=t|Glenburn=11|Glenfield=f|Golden Valley=s|Golva=g|Goodrich=15|Grace City=f|Grafton=1d|Grand Forks=h|Grand Forks Afb=h|Grandin=8|Granville=o|Grassy Butte=q|Grenora=1g|Gwinner=14|Hague=e|Halliday=c|Hamilton=x|Hampden=z|Hankinson=12|Hannaford=j|Hannah=9|Hansboro=1b|Harvey=1f|Harwood=8|Hatton=1c|Havana=14|Hazelton=e|Hazen=s|Hebron=t|Hensel=x|Hettinger=0|Hillsboro=1c|Hoople=1d|Hope=19|Horace=8|Hunter=8|Hurdsfield=1f|Inkster=h|Jamestown=1a|Jessie=j|Jud=m|Karlsruhe=o|Kathryn=1|Keene=q|Kenmare=1e|Kensal=1a|Killdeer=c|Kindred=8|Kintyre=e|Knox=2|Kramer=4|Kulm=m|Lakota=v|Lamoure=m|Langdon=9|Lankin=1d|Lansford=4|Larimore=h|Lawton=z|Leeds=2|Lefor=18|Lehr=p|Leonard=8|Lidgerwood=12|Lignite=6|Linton=e|Lisbon=10|Litchville=1|Luverne=19|Maddock=2|Maida=9|Makoti=1e|Mandan=t|Mandaree=q|Manning=c|Mantador=12|Manvel=h|Mapleton=8|Marion=m|Marmarth=17|Marshall=c|Martin=15|Max=r|Maxbass=4|Mayville=1c|Mcclusky=15|Mcgregor=1g|Mchenry=f|Mcleod=10|Mcville=v|Medina=1a|Medora=3|Mekinock=h|Menoken=7|Mercer=r|Michigan=v|Milnor=14|Milton=9|Minnewaukan=2|Minot=1e|Minot Afb=1e|Minto=1d|Moffit=7|Mohall=11|Montpelier=1a|Mooreton=12|Mott=k|Mountain=x|Munich=9|Mylo=13|Napoleon=n|Neche=x|Nekoma=9|New England=k|New Leipzig=i|New Rockford=d|New Salem=t|New Town=u|Newburg=4|Niagara=h|Nome=1|Noonan=b|Northwood=h|Norwich=o|Oakes=a|Oberon=2|Oriska=1|Osnabrock=9|Page=8|Palermo=u|Park River=1d|Parshall=u|Pekin=v|Pembina=x|Penn=z|Perth=1b|Petersburg=v|Pettibone=l|Pillsbury=1|Pingree=1a|Pisek=1d|Plaza=u|Portal=6|Portland=1c|Powers Lake=6|Raleigh=i|Ray=1g|Reeder=0|Regan=7|Regent=k|Reynolds=h|Rhame=5|Richardton=18|Riverdale=r|Robinson=l|Rocklake=1b|Rogers=1|Rolette=13|Rolla=13|Roseglen=r|Ross=u|Rugby=y|Ruso=r|Rutland=14|Ryder=1e|Saint Anthony=t|Saint John=13|Saint Michael=2|Saint Thomas=x|Sanborn=1|Sarles=9|Sawyer=1e|Scranton=5|Selfridge=16|Sentinel Butte=g|Sharon=19|Sheldon=10|Sherwood=11|Sheyenne=d|Shields=i|Solen=16|Souris=4|South Heart=18|Spiritwood=1a|Stanley=u|Stanton=s|Starkweather=z|Steele=l|Sterling=7|Stirum=14|Strasburg=e|Streeter=1a|Surrey=1e|Sutton=j|Sykeston=1f|Tappen=l|Taylor=18|Thompson=h|Tioga=1g|Tokio=2|Tolley=11|Tolna=v|Tower City=8|Towner=o|Trenton=1g|Turtle Lake=r|Tuttle=l|Underwood=r|Upham=o|Valley City=1|Velva=o|Verona=m|Voltaire=o|Wahpeton=12|Walcott=12|Wales=9|Walhalla=x|Warwick=2|Washburn=r|Watford City=q|Webster=z|West Fargo=8|Westhope=4|Wheatland=8|White Earth=u|Wildrose=1g|Williston=1g|Willow City=4|Wilton=r|Wimbledon=1|Wing=7|Wishek=p|Wolford=y|Woodworth=1a|Wyndmere=12|York=2|Ypsilanti=1a|Zahl=1g|Zap=s|Zeeland=p'
+  },
+  NE: {
+    counties: 'Adams|Antelope|Arthur|Banner|Blaine|Boone|Box Butte|Boyd|Brown|Buffalo|Burt|Butler|Cass|Cedar|Chase|Cherry|Cheyenne|Clay|Colfax|Cuming|Custer|Dakota|Dawes|Dawson|Deuel|Dixon|Dodge|Douglas|Dundy|Fillmore|Franklin|Frontier|Furnas|Gage|Garden|Garfield|Gosper|Grant|Greeley|Hall|Hamilton|Harlan|Hayes|Hitchcock|Holt|Hooker|Howard|Jefferson|Johnson|Kearney|Keith|Keya Paha|Kimball|Knox|Lancaster|Lincoln|Logan|Loup|Madison|McPherson|Merrick|Morrill|Nance|Nemaha|Nuckolls|Otoe|Pawnee|Perkins|Phelps|Pierce|Platte|Polk|Red Willow|Richardson|Rock|Saline|Sarpy|Saunders|Scotts Bluff|Seward|Sheridan|Sherman|Sioux|Stanton|Thayer|Thomas|Thurston|Valley|Washington|Wayne|Webster|Wheeler|York',
+    zips: '1ggx:b,1:2g,1:25,1:j,1:24,2:r,1:2g,1,1:r,4:b,1:25,1:c,1:25,1,1:a,1,2:r,1:2g,2:q,1,2:24,1:2g,1:l,1:q,2:25,1:2g,2:b,1:c,1:a,1:2e,1:25,1,1,2:q,1:a,1:24,1:2e,1:c,2:25,5:2e,1:24,1:q,1:c,1:24,2:a,1:2e,1:q,1:r,1:25,1,1:2e,1:2g,1:r,1:25,1:2e,1:q,1:25,s:r,1,1,1,1,1,1,1,1,1,1,1,1:24,1:r,2,1,1,1,1,2,1:24,1:r,3,1:24,2:r,1,1,1:24,1:r,1,1:24,1:r,1:24,1:r,3,2,1,2:24,5:r,2,1,2:24,7:r,8,3,1,2,1,1,2,1,e,1,2v:x,2:2c,1:c,1:1r,2:c,2:x,1,3:27,1,1:2c,1:2k,1:1i,1:x,1:2k,1:1r,1,1:2c,1:1u,1:1t,1:2c,1,1,1:x,1:1c,1:27,1:x,1:1c,1:23,2:2c,1:1i,1:21,1:1b,1:1i,1:2c,1:23,1:1b,1:23,1:1t,1:1u,1:1t,1:c,1:1c,1:c,1:1b,1:t,1:1b,2:t,1:21,2:x,1:1i,1:23,1:27,1:t,1:2c,2:27,1:t,1:c,1:2k,1:1i,2:2c,1:2k,1:1i,3:2c,1:21,1:1b,1:1r,1,1:1u,1:x,1:1t,j:2k,1:1i,1:c,1:1i,1:27,1:t,1:c,2,1:1t,3:c,1:1r,1:x,1:t,1:1t,1,1:1i,1:1u,1:1r,1:x,1:27,1:1b,4:1i,1:2c,1:1i,1:21,2,1:27,2:t,1:21,1:1i,1:27,1:1b,1:1u,1:21,1:1c,1:t,1:23,1:1t,1:1u,1:1t,2:1c,2:h,1:23,1:1t,1:c,1:27,1:21,1:x,2:2k,1:1i,1,1:c,1:23,1,1:x,1:2k,y:1i,1,1,1,1,1,1,1,1,1,2,2,2,1,3,1,1,1,1,2,1,1,1,2,1,a,2,13,5,d:1y,1,i:5,1:q,1:2j,1:1q,1:b,2,1:5,1:1o,1:i,2:1y,1:b,1:q,1:1y,1:b,1:1,1:2j,1:1q,2,1:i,1:1y,1:i,1:1y,3,1:25,1:q,2:1z,1:5,1:1y,1:1z,1:5,3:b,1:i,1:5,1:i,1:1z,1:1o,1:q,1:12,1:1z,1:b,2,w:1m,1,8:p,1:18,2,1:22,1:1m,1:j,1:d,1:1h,1:7,1:1,2:7,1:2h,1:1h,1:18,1:1,1:d,1:p,1:1h,1,1:l,1:p,1:l,1:18,1,1:d,2:1x,1:d,1:2h,1:l,1:18,1:l,2:d,1:7,1:1x,1:1m,1:d,2:p,1:1m,1:1f,2:7,1:1,1:p,1:1m,1:1f,1:1h,1:1,2:18,1:1,1:1x,1:18,1:1x,1:2b,1:1x,1:p,1:d,2:1,1:d,2:l,1:7,1:1f,1:2b,1:18,1:1m,2:1h,1:p,1,1:1h,1:2h,1:j,1:1h,1:2h,1:j,1:d,9:13,1,1,7,2:9,1:k,1,1:2f,1:1o,1:29,1:14,2:1a,1:4,1:k,1:z,1:13,1:k,1:1o,1,1:k,3:1a,1:13,1:4,1:n,1:1a,1:9,1:2f,1:1a,2:9,1:14,1:12,1:14,1:29,1:9,1:14,1:9,1,1,1:n,2:29,1,1:14,1:k,1,2:9,1:2f,1:k,1:9,1:2f,1:n,1:1o,1:14,1:9,3,1,1:29,1:1a,1,1:k,1:12,1:9,2:n,1:1l,2:k,1:12,1:13,i:0,1,i:15,2:w,1:1w,1:1d,1:0,1:w,1:1w,1:2i,1:u,1:2i,2:u,1:h,1,1,1:w,1:10,1:h,1:u,1:1w,1:h,1:2i,1:1s,1:h,1:1d,1:w,1:u,1:w,1:1w,1:0,2:2i,2:h,1:0,1,1:1s,1:1w,1:1d,1:u,1:1s,3,2:15,1:w,2:15,1:2i,1:15,1:u,1:0,1:1s,1:h,1:10,1:15,1:1s,1:h,1,1:u,1:1d,j:20,j,1:s,1:w,1:e,1:17,1:v,1:20,1:e,1:v,1:n,1:s,2:16,1:e,1:20,2,1:s,1:v,1,1:17,1:s,1:v,1:17,1,1:e,1:w,1j:1j,2,h:k,1:2,1:o,1:1j,2:1p,2:1e,1:1g,1:o,1:n,1:g,1:1j,1:1g,1:1v,1:f,3:n,2:1v,1:g,1:2d,1:1j,1:1e,1:1g,1:1e,1:y,1,1:g,1:1v,1:1j,1:19,1:1e,1:y,1:1e,1:g,1:4,3:g,1:2d,1:g,1:1k,2:1j,1:2d,1:1n,1:1v,1:1j,1,1:n,j:y,b:f,9:8,1:f,1,2:8,2:f,1:8,1:f,1,1,1,28:6,u:1p,2:11,1:1p,1:28,1:1p,1:m,2,1:28,1:26,2:28,2:3,1:2a,1:28,1:6,2:11,1:28,1:26,1,1:m,1:26,1,1,1,2:28,1:26,2,2:28,1:11,1:m',
+    cities: 'Abie=b|Adams=x|Ainsworth=8|Albion=5|Alda=13|Alexandria=2c|Allen=p|Alliance=6|Alma=15|Alvo=c|Amelia=18|Ames=q|Amherst=9|Angora=1p|Anselmo=k|Ansley=k|Arapahoe=w|Arcadia=2f|Archer=1o|Arlington=2g|Arnold=k|Arthur=2|Ashby=11|Ashland=25|Ashton=29|Atkinson=18|Atlanta=1w|Auburn=1r|Aurora=14|Avoca=c|Axtell=1d|Ayr=0|Bancroft=j|Barneston=x|Bartlett=2j|Bartley=20|Bassett=22|Battle Creek=1m|Bayard=1p|Beatrice=x|Beaver City=w|Beaver Crossing=27|Bee=27|Beemer=j|Belden=d|Belgrade=1q|Bellevue=24|Bellwood=b|Belvidere=2c|Benedict=2k|Benkelman=s|Bennet=1i|Bennington=r|Bertrand=1w|Big Springs=o|Bingham=28|Bladen=2i|Blair=2g|Bloomfield=1h|Bloomington=u|Blue Hill=2i|Blue Springs=x|Boelus=1a|Boys Town=r|Bradshaw=2k|Brady=1j|Brainard=b|Brewster=4|Bridgeport=1p|Bristow=7|Broadwater=1p|Brock=1r|Broken Bow=k|Brownville=1r|Brule=1e|Bruning=2c|Bruno=b|Brunswick=1|Burchard=1u|Burr=1t|Burwell=z|Bushnell=1g|Butte=7|Byron=2c|Cairo=13|Callaway=k|Cambridge=w|Campbell=u|Carleton=2c|Carroll=2h|Cedar Bluffs=25|Cedar Creek=c|Cedar Rapids=5|Center=1h|Central City=1o|Ceresco=25|Chadron=m|Chambers=18|Champion=e|Chapman=1o|Chappell=o|Chester=2c|Clarks=1o|Clarkson=i|Clatonia=x|Clay Center=h|Clearwater=1|Cody=f|Coleridge=d|Colon=25|Columbus=1y|Comstock=k|Concord=p|Cook=1c|Cordova=27|Cortland=x|Cozad=n|Crab Orchard=1c|Craig=a|Crawford=m|Creighton=1h|Creston=1y|Crete=23|Crofton=1h|Crookston=f|Culbertson=17|Curtis=v|Dakota City=l|Dalton=g|Danbury=20|Dannebrog=1a|Davenport=2c|Davey=1i|David City=b|Dawson=21|Daykin=1b|De Witt=23|Decatur=a|Denton=1i|Deshler=2c|Deweese=h|Dickens=1j|Diller=1b|Dix=1g|Dixon=p|Dodge=q|Doniphan=13|Dorchester=23|Douglas=1t|Du Bois=1u|Dunbar=1t|Duncan=1y|Dunning=4|Dwight=b|Eagle=c|Eddyville=n|Edgar=h|Edison=w|Elba=1a|Elgin=1|Elk Creek=1c|Elkhorn=r|Ellsworth=28|Elm Creek=9|Elmwood=c|Elsie=1v|Elsmere=f|Elwood=10|Elyria=2f|Emerson=l|Emmet=18|Enders=e|Endicott=1b|Ericson=2j|Eustis=v|Ewing=18|Exeter=t|Fairbury=1b|Fairfield=h|Fairmont=t|Falls City=21|Farnam=n|Farwell=1a|Filley=x|Firth=1i|Fordyce=d|Fort Calhoun=2g|Franklin=u|Fremont=q|Friend=23|Fullerton=1q|Funk=1w|Garland=27|Geneva=t|Genoa=1q|Gering=26|Gibbon=9|Gilead=2c|Giltner=14|Glenvil=h|Goehner=27|Gordon=28|Gothenburg=n|Grafton=t|Grand Island=13|Grant=1v|Greeley=12|Greenwood=c|Gresham=2k|Gretna=24|Guide Rock=2i|Gurley=g|Hadar=1x|Haigler=s|Hallam=1i|Halsey=2d|Hampton=14|Hardy=1s|Harrisburg=3|Harrison=2a|Hartington=d|Harvard=h|Hastings=0|Hay Springs=28|Hayes Center=16|Hazard=29|Heartwell=1d|Hebron=2c|Hemingford=6|Henderson=2k|Hendley=w|Herman=2g|Hershey=1j|Hickman=1i|Hildreth=u|Holbrook=w|Holdrege=1w|Holstein=0|Homer=l|Hooper=q|Hordville=14|Hoskins=2h|Howells=i|Hubbard=l|Hubbell=2c|Humboldt=21|Humphrey=1y|Hyannis=11|Imperial=e|Inavale=2i|Indianola=20|Inland=h|Inman=18|Ithaca=25|Jackson=l|Jansen=1b|Johnson=1r|Johnstown=8|Julian=1r|Juniata=0|Kearney=9|Kenesaw=0|Kennard=2g|Keystone=1e|Kilgore=f|Kimball=1g|La Vista=24|Lakeside=28|Laurel=d|Lawrence=1s|Lebanon=20|Leigh=i|Lemoyne=1e|Lewellen=y|Lewiston=1u|Lexington=n|Liberty=x|Lincoln=1i|Lindsay=1y|Linwood=b|Lisco=y|Litchfield=29|Lodgepole=g|Long Pine=8|Loomis=1w|Lorton=1t|Louisville=c|Loup City=29|Lyman=26|Lynch=7|Lyons=a|Macy=2e|Madison=1m|Madrid=1v|Magnet=d|Malcolm=1i|Malmo=25|Manley=c|Marquette=14|Marsland=m|Martell=1i|Maskell=p|Mason City=k|Max=s|Maxwell=1j|Maywood=v|Mc Cook=20|Mc Cool Junction=2k|Mcgrew=26|Mclean=1x|Mead=25|Meadow Grove=1m|Melbeta=26|Memphis=25|Merna=k|Merriman=f|Milford=27|Miller=9|Milligan=t|Mills=1f|Minatare=26|Minden=1d|Mitchell=26|Monroe=1y|Moorefield=v|Morrill=26|Morse Bluff=25|Mullen=19|Murdock=c|Murray=c|Naper=7|Naponee=u|Nebraska City=1t|Nehawka=c|Neligh=1|Nelson=1s|Nemaha=1r|Nenzel=f|Newcastle=p|Newman Grove=1m|Newport=1f|Nickerson=q|Niobrara=1h|Norfolk=1m|North Bend=q|North Loup=2f|North Platte=1j|Oak=1s|Oakdale=1|Oakland=a|Oconto=k|Odell=x|Odessa=9|Offutt Afb=24|Ogallala=1e|Ohiowa=t|Omaha=r|Oneill=18|Ong=h|Orchard=1|Ord=2f|Orleans=15|Osceola=1z|Oshkosh=y|Osmond=1x|Otoe=1t|Overton=n|Oxford=w|Page=18|Palisade=17|Palmer=1o|Palmyra=1t|Panama=1i|Papillion=24|Parks=s|Pawnee City=1u|Paxton=1e|Pender=2e|Peru=1r|Petersburg=5|Phillips=14|Pickrell=x|Pierce=1x|Pilger=2b|Plainview=1x|Platte Center=1y|Plattsmouth=c|Pleasant Dale=27|Pleasanton=9|Plymouth=1b|Polk=1z|Ponca=p|Potter=g|Prague=25|Primrose=5|Purdum=4|Ragan=15|Randolph=d|Ravenna=9|Raymond=1i|Red Cloud=2i|Republican City=15|Reynolds=2c|Rising City=b|Riverdale=9|Riverton=u|Roca=1i|Rockville=29|Rogers=i|Rosalie=2e|Roseland=0|Royal=1|Rulo=21|Rushville=28|Ruskin=1s|Saint Edward=5|Saint Helena=d|Saint Libory=1a|Saint Paul=1a|Salem=21|Sargent=k|Saronville=h|Schuyler=i|Scotia=12|Scottsbluff=26|Scribner=q|Seneca=2d|Seward=27|Shelby=1z|Shelton=9|Shickley=t|Shubert=21|Sidney=g|Silver Creek=1o|Smithfield=10|Snyder=q|South Bend=c|South Sioux City=l|Spalding=12|Sparks=f|Spencer=7|Sprague=1i|Springfield=24|Springview=1f|St Columbans=24|Stamford=15|Stanton=2b|Staplehurst=27|Stapleton=1k|Steele City=1b|Steinauer=1u|Stella=21|Sterling=1c|Stockville=v|Strang=t|Stratton=17|Stromsburg=1z|Stuart=18|Sumner=n|Superior=1s|Surprise=b|Sutherland=1j|Sutton=h|Swanton=23|Syracuse=1t|Table Rock=1u|Talmage=1t|Taylor=1l|Tecumseh=1c|Tekamah=a|Thedford=2d|Thurston=2e|Tilden=1m|Tobias=23|Trenton=17|Trumbull=h|Tryon=1n|Uehling=q|Ulysses=b|Unadilla=1t|Union=c|Upland=u|Utica=27|Valentine=f|Valley=r|Valparaiso=25|Venango=1v|Verdigre=1h|Verdon=21|Virginia=x|Waco=2k|Wahoo=25|Wakefield=p|Wallace=1j|Walthill=2e|Walton=1i|Washington=2g|Waterbury=p|Waterloo=r|Wauneta=e|Wausa=1h|Waverly=1i|Wayne=2h|Weeping Water=c|Wellfleet=1j|West Point=j|Western=23|Westerville=k|Weston=25|Whiteclay=28|Whitman=11|Whitney=m|Wilber=23|Wilcox=1d|Willow Island=n|Wilsonville=w|Winnebago=2e|Winnetoon=1h|Winside=2h|Winslow=q|Wisner=j|Wolbach=12|Wood Lake=f|Wood River=13|Wymore=x|Wynot=d|York=2k|Yutan=25'
+  },
+  NH: {
+    counties: 'Belknap|Carroll|Cheshire|Coos|Grafton|Hillsborough|Merrimack|Rockingham|Strafford|Sullivan',
+    zips: '2c7:5,1:7,1:5,1:7,2,1,1,2,1,1,1:5,1:7,1:5,1:6,1:5,1,1,2,1,1:7,1:5,1,2,3,1,1,1,1,6,1,2:7,3:5,1:7,2,3:5,2,2,1:7,e:5,1,1,1,1,1:6,2:5,1,1,1,2w:4,1:6,1:4,1:0,2,1:6,1:4,1,1:6,1:0,1,1:1,2:6,1,1,2,1,1,2:0,1:4,2,1,1:6,1,1:5,1:4,1:0,1,2,2:4,1:0,1,1:1,1:6,1:0,1:6,1:4,1:1,1:6,1:7,1:4,1:6,1:4,2,2:6,1:0,3:6,1,2,1:0,2:6,1:4,1:9,1:5,1:4,2:9,1:4,2:6,2:0,1:7,1,2:4,5:0,1,2:6,1,1,1,1,2,3g:2,4,5:5,1:2,1:5,1:2,1,1,1,1,1,1:5,1:2,1,1,3,1,1,1:5,3:2,1,2,1,1,1,1:5,1:2,1,2j:4,9:3,4:4,1:3,1,3,1:4,1:3,1,1,1,1:4,1,2:3,1,1,2,1,2,2,1,3:9,1:2,1:9,1:2,1:9,2,1:2,1,3n:4,1,2:9,2,1,2:4,1,1,1:9,1,1,1,1:4,1,9,1,2,1,1:9,1:4,2:9,1:4,3,2,1,1:9,1,2:4,1,g:7,1,1,1,5:0,1,1:7,1:1,1,1,1:8,1:1,1,1,1:7,1:8,1,1,1,1,1,1:7,1,3:1,2,1:7,2:8,1:1,1:0,1:1,1:8,1:7,1,1,1,1,1:1,1,1,1:7,1:1,1,1:8,1,1:1,1:7,1:8,1:7,1,1,1,1:1,1,1:7,2:1,1:7,1:8,1,1,1,1:7,1,1:1,1:7,1,1:1,3:8,4:1,1,1:8,1:7,1:1,1:8,3:1,4,2,1',
+    cities: 'Acworth=9|Alstead=2|Alton=0|Alton Bay=0|Amherst=5|Andover=6|Antrim=5|Ashland=4|Ashuelot=2|Atkinson=7|Auburn=7|Barnstead=0|Barrington=8|Bartlett=1|Bath=4|Bedford=5|Belmont=0|Bennington=5|Berlin=3|Bethlehem=4|Bow=6|Bradford=6|Bretton Woods=3|Bristol=4|Brookline=5|Campton=4|Canaan=4|Candia=7|Canterbury=6|Center Barnstead=0|Center Conway=1|Center Harbor=0|Center Ossipee=1|Center Sandwich=1|Center Strafford=8|Center Tuftonboro=1|Charlestown=9|Chester=7|Chesterfield=2|Chichester=4|Chocorua=1|Claremont=9|Colebrook=3|Concord=6|Contoocook=6|Conway=1|Cornish=9|Cornish Flat=9|Danbury=6|Danville=7|Deerfield=7|Derry=7|Dover=8|Drewsville=2|Dublin=2|Dunbarton=6|Durham=8|East Andover=6|East Candia=7|East Derry=7|East Hampstead=7|East Kingston=7|East Wakefield=1|Eaton Center=1|Effingham=1|Elkins=6|Enfield=4|Enfield Center=4|Epping=7|Epsom=6|Errol=3|Etna=4|Exeter=7|Farmington=8|Fitzwilliam=2|Francestown=5|Franconia=4|Franklin=6|Freedom=1|Fremont=7|Georges Mills=9|Gilford=0|Gilmanton=0|Gilmanton Iron Works=0|Gilsum=2|Glen=1|Glencliff=4|Goffstown=5|Gorham=3|Goshen=9|Grafton=4|Grantham=9|Greenfield=5|Greenland=7|Greenville=5|Groveton=3|Guild=9|Hampstead=7|Hampton=7|Hampton Falls=7|Hancock=5|Hanover=4|Harrisville=2|Haverhill=4|Hebron=4|Henniker=6|Hill=6|Hillsborough=5|Hinsdale=2|Holderness=4|Hollis=5|Hooksett=6|Hudson=5|Intervale=1|Jackson=1|Jaffrey=2|Jefferson=3|Kearsarge=1|Keene=2|Kingston=7|Laconia=0|Lancaster=3|Lebanon=4|Lee=1|Lempster=9|Lincoln=4|Lisbon=4|Litchfield=5|Littleton=4|Lochmere=0|Londonderry=7|Loudon=6|Lyme=4|Lyme Center=4|Lyndeborough=5|Madbury=8|Madison=1|Manchester=5|Marlborough=2|Marlow=2|Melvin Village=1|Meredith=0|Meriden=9|Merrimack=5|Milan=3|Milford=5|Milton=8|Milton Mills=8|Mirror Lake=1|Monroe=4|Mont Vernon=5|Moultonborough=1|Mount Washington=3|Nashua=5|Nelson=2|New Boston=5|New Castle=7|New Durham=8|New Hampton=0|New Ipswich=5|New London=6|Newbury=6|Newfields=7|Newmarket=7|Newport=9|Newton=7|Newton Junction=7|North Conway=1|North Hampton=7|North Haverhill=4|North Salem=7|North Sandwich=1|North Stratford=3|North Sutton=6|North Walpole=2|North Woodstock=4|Northwood=7|Nottingham=7|Orford=4|Ossipee=1|Pelham=5|Peterborough=5|Piermont=4|Pike=4|Pittsburg=3|Pittsfield=6|Plainfield=9|Plaistow=7|Plymouth=4|Portsmouth=7|Randolph=3|Raymond=7|Rindge=2|Rochester=8|Rollinsford=8|Rumney=4|Rye=7|Rye Beach=7|Salem=7|Salisbury=6|Sanbornton=0|Sanbornville=1|Sandown=7|Seabrook=7|Silver Lake=1|Somersworth=8|South Acworth=9|South Newbury=6|South Sutton=6|South Tamworth=1|Spofford=2|Springfield=9|Stoddard=2|Strafford=8|Stratham=7|Sugar Hill=4|Sullivan=2|Sunapee=9|Suncook=6|Swanzey=2|Tamworth=1|Temple=5|Thornton=4|Tilton=0|Troy=2|Twin Mountain=3|Union=8|Walpole=2|Warner=6|Warren=4|Washington=9|Waterville Valley=4|Weare=5|Wentworth=4|West Chesterfield=2|West Lebanon=4|West Nottingham=7|West Ossipee=1|West Peterborough=5|West Stewartstown=3|West Swanzey=2|Westmoreland=2|Whitefield=3|Wilmot=6|Wilton=5|Winchester=2|Windham=7|Winnisquam=0|Wolfeboro=1|Wolfeboro Falls=1|Wonalancet=1|Woodstock=4|Woodsville=4'
+  },
+  NJ: {
+    counties: 'Atlantic|Bergen|Burlington|Camden|Cape May|Cumberland|Essex|Gloucester|Hudson|Hunterdon|Mercer|Middlesex|Monmouth|Morris|Ocean|Passaic|Salem|Somerset|Sussex|Union|Warren',
+    zips: '5eh:b,1:8,1:6,1,1:d,1:6,1,1:b,1:6,1:1,1:f,1,1,1,1,1:j,1:6,1,1,1:1,1:6,1:1,1:j,1:1,2,1:j,1:6,1:8,1,1:1,1:8,1:j,1:d,1,1:j,3:6,1,1,1,1,1,1:d,1,1:8,3:6,1,1,2:d,1:f,2:1,1:d,1:h,1:j,1,1,1,1:b,1:j,1,1:b,1:6,1:j,1:1,1,1,1,1,1,1:j,1:b,1:6,1,1:b,1:j,1:d,1:j,3:8,1,1:j,2,1,1,1:8,1,1:b,1:8,1,2,2:6,1,1,1,1,1,1,1,1,1,1,1,2,1p,9,4,1,2,1,1,2,3,1,2:j,1,1,1,1,1,1,1,2m:8,1,1,1,1,1,1,2,1,2c,4,2:1,2:f,2:d,2:1,3,6:i,1:1,1:i,1,1:f,1,1:i,1:1,1:f,4:i,2:1,2,3:f,1:1,2:f,1:i,1:d,2:f,2:d,2:1,4,1,1,4:f,1:d,1:1,2:i,1,1,1:1,2:f,5,4,6,1:1,e,6:f,1,1,1,1,1,1,1,1,1,1,1,1,1,8,2,9,5,5,1,1l:1,1,1,1,1,1,1,1,c,1,3,2,1,1,2,1,1,8,1,1,1,1,1,1,1,1,1,1,2,1,3,1,3,1,1,1,3,4,5,1,1,m,2:c,1,1,1,6,1,1,3,1,1,1,1,1,1,1,1,1,2,1,1,2,1,1,1,1,1,2,1,1,1,6,1,1,2,1,1,1,1,1,1,1,1,2,2,1,1,1,y,2:d,1,1,3,e:k,1:i,1,1:k,2,1:i,1,1:d,1:k,1:9,1:k,1,1,1:d,2,1:i,1:k,1:i,1:k,2:d,1:i,1:k,1:d,1:k,1:d,1:i,1:d,1,1:i,1:d,1,2:i,1:d,1,3:i,3:k,2,1:d,3,1,1:i,3,1,1:d,1:i,1:d,1:i,1:k,1:i,1:k,3:d,5:i,b:j,1,i:h,1,1:j,2:h,2:d,1,1,2,1:h,1:d,1,1:h,1:d,1,2:h,1,1:d,5,1,4,a,1,1,1,7,4:j,2:d,1:h,1,1:9,1:d,1,i,2:g,1:3,1,1,1:e,1,1:3,1:e,1:3,1:2,1,1:3,2:7,1:2,1,2:3,1:2,1:7,1:3,1:2,1:g,2:7,1:3,1:7,1,1:3,1,1,1:7,1:3,1,1,1:2,1:0,1:g,1:7,2:2,1,1:3,2,1:2,2,1:3,1:e,1:7,1:2,1,1,1,1:7,1:2,2:3,1:2,1:7,1,1,1:2,1,1:7,1:g,1:2,1:g,1,1:7,1:g,1:2,1:7,1:2,1,1,1:3,1:g,1:7,1:3,2,1,1:7,1,1:e,1:2,1:3,1:7,1:3,1:e,1:7,1,1:3,1:7,1,1:g,1:3,2,1,1,1,1,1,1,1,1,1,2j:0,1:4,1:0,1:4,1:0,5:4,2,1:0,1:4,1:0,2,1:4,1,1:0,1,2:4,1:2,1:0,1:4,4,1:0,1,2,6,1,1:4,1,1:0,1:4,1,1,1,2,1,1,8,a,w:5,8:0,1:5,1:7,1:5,1,1,1,1:0,1:g,1:0,1:5,1,1:7,1:5,1,2:0,1:5,1:7,1:5,1:0,2:5,8:0,1,1,1:7,1,1:5,1:0,1:g,1:5,1,1:0,2:5,1,7,1,1,13:0,1,1,1,1,1,2n:c,1:h,2,1:2,5:c,1:2,1:b,2:c,1:2,3,2:a,5,1:c,1:e,1:h,2:9,3:e,1:a,1:c,1:b,4:a,1,1,1,1,6,1:9,2:h,1:2,1:c,1:9,1,1:h,1:9,1:a,1,1:2,13:a,1,1,1,1,1,1,1,1,1,1,7,1,1,5,3,1,9,2:2,1,3:a,1,1,1,1,2,g,o,1,4,6:e,j:c,1:e,1,1,1,6:c,1:e,1,1,1,1,1:c,2:e,1,1,1,1,8:c,1:e,1,1,1,1,1,1,1,1,16:9,1:k,1:9,1,1:h,2,1:k,1:9,1:b,2,4,1,1,2,1:h,1:9,1:h,1:b,1:9,1,1,1:b,1:9,1:b,1,1,1:9,1,1:h,1,1:b,3,4:h,2:b,2:9,2:b,2,1:h,1:b,1,2,1:9,1:b,2,1,1,2:k,2:9,1,1:h,1:9,1:b,1,1:h,2,1,3:b,1:h,2:b,2,1:9,1:k,1:9,1,1,1:h,9:b,2,1,1,1,2,r,1k',
+    cities: 'Absecon=0|Adelphia=c|Allamuchy=k|Allendale=1|Allenhurst=c|Allentown=c|Allenwood=c|Alloway=g|Alpine=1|Andover=i|Annandale=9|Asbury=k|Asbury Park=c|Atco=3|Atlantic City=0|Atlantic Highlands=c|Audubon=3|Augusta=i|Avalon=4|Avenel=b|Avon By The Sea=c|Baptistown=9|Barnegat=e|Barnegat Light=e|Barrington=3|Basking Ridge=h|Bayonne=8|Bayville=e|Beach Haven=e|Beachwood=e|Bedminster=h|Belford=c|Belle Mead=h|Belleville=6|Bellmawr=3|Belmar=c|Belvidere=k|Bergenfield=1|Berkeley Heights=j|Berlin=3|Bernardsville=h|Beverly=2|Birmingham=2|Blackwood=3|Blairstown=k|Blawenburg=h|Bloomfield=6|Bloomingdale=f|Bloomsbury=9|Bogota=1|Boonton=d|Bordentown=2|Bound Brook=h|Bradley Beach=c|Branchville=i|Brick=e|Bridgeport=7|Bridgeton=5|Bridgewater=h|Brielle=c|Brigantine=0|Broadway=k|Brookside=d|Browns Mills=2|Budd Lake=d|Buena=0|Burlington=2|Butler=d|Buttzville=k|Caldwell=6|Califon=9|Camden=3|Cape May=4|Cape May Court House=4|Cape May Point=4|Carlstadt=1|Carteret=b|Cedar Brook=3|Cedar Grove=6|Cedar Knolls=d|Cedarville=5|Changewater=k|Chatham=d|Chatsworth=2|Cherry Hill=3|Chester=d|Chesterfield=2|Clark=j|Clarksboro=7|Clayton=7|Clementon=3|Cliffside Park=1|Cliffwood=c|Clifton=f|Clinton=9|Closter=1|Collingswood=3|Cologne=0|Colonia=b|Colts Neck=c|Columbia=k|Columbus=2|Convent Station=d|Cookstown=2|Cranbury=b|Cranford=j|Cream Ridge=c|Cresskill=1|Dayton=b|Deal=c|Deepwater=g|Deerfield Street=5|Delaware=k|Delmont=5|Demarest=1|Dennisville=4|Denville=d|Deptford=7|Dividing Creek=5|Dorchester=5|Dorothy=0|Dover=d|Dumont=1|Dunellen=b|East Brunswick=b|East Hanover=d|East Orange=6|East Rutherford=1|Eatontown=c|Edgewater=1|Edison=b|Egg Harbor City=0|Egg Harbor Township=0|Elizabeth=j|Elizabethport=j|Elmer=g|Elmwood Park=1|Elwood=0|Emerson=1|Englewood=1|Englewood Cliffs=1|Englishtown=c|Essex Fells=6|Estell Manor=0|Ewan=7|Fair Haven=c|Fair Lawn=1|Fairfield=6|Fairton=5|Fairview=1|Fanwood=j|Far Hills=h|Farmingdale=c|Flagtown=h|Flanders=d|Flemington=9|Florence=2|Florham Park=d|Fords=b|Forked River=e|Fort Lee=1|Fort Monmouth=c|Fortescue=5|Franklin=i|Franklin Lakes=1|Franklin Park=h|Franklinville=7|Freehold=c|Frenchtown=9|Garfield=1|Garwood=j|Gibbsboro=3|Gibbstown=7|Gillette=d|Gladstone=h|Glassboro=7|Glasser=i|Glen Gardner=9|Glen Ridge=6|Glen Rock=1|Glendora=3|Glenwood=i|Gloucester City=3|Goshen=4|Great Meadows=k|Green Creek=4|Green Village=d|Greendell=i|Greenwich=5|Grenloch=7|Hackensack=1|Hackettstown=k|Haddon Heights=3|Haddonfield=3|Hainesport=2|Haledon=f|Hamburg=i|Hammonton=0|Hampton=9|Hancocks Bridge=g|Harrington Park=1|Harrison=8|Harrisonville=7|Hasbrouck Heights=1|Haskell=f|Haworth=1|Hawthorne=f|Hazlet=c|Heislerville=5|Helmetta=b|Hewitt=f|Hibernia=d|High Bridge=9|Highland Lakes=i|Highland Park=b|Highlands=c|Hightstown=a|Hillsborough=h|Hillsdale=1|Hillside=j|Ho Ho Kus=1|Hoboken=8|Holmdel=c|Hopatcong=i|Hope=k|Hopewell=a|Howell=c|Imlaystown=c|Ironia=d|Irvington=6|Iselin=b|Island Heights=e|Jackson=e|Jersey City=8|Jobstown=2|Johnsonburg=k|Joint Base Mdl=2|Juliustown=2|Keansburg=c|Kearny=8|Keasbey=b|Kendall Park=b|Kenilworth=j|Kenvil=d|Keyport=c|Kingston=h|Lafayette=i|Lake Hiawatha=d|Lake Hopatcong=d|Lakehurst=e|Lakewood=e|Lambertville=9|Landing=d|Landisville=0|Lanoka Harbor=e|Lavallette=e|Lawnside=3|Lawrence Township=a|Layton=i|Lebanon=9|Ledgewood=d|Leeds Point=0|Leesburg=5|Leonardo=c|Leonia=1|Liberty Corner=h|Lincoln Park=d|Lincroft=c|Linden=j|Linwood=0|Little Falls=f|Little Ferry=1|Little Silver=c|Little York=9|Livingston=6|Lodi=1|Long Branch=c|Long Valley=d|Longport=0|Lumberton=2|Lyndhurst=1|Lyons=h|Madison=d|Magnolia=3|Mahwah=1|Malaga=7|Manahawkin=e|Manasquan=c|Manchester Township=e|Mantoloking=e|Mantua=7|Manville=h|Maple Shade=2|Maplewood=6|Margate City=0|Marlboro=c|Marlton=2|Marmora=4|Martinsville=h|Matawan=c|Mauricetown=5|Mays Landing=0|Maywood=1|Mc Afee=i|Medford=2|Mendham=d|Merchantville=3|Metuchen=b|Mickleton=7|Middlesex=b|Middletown=c|Middleville=i|Midland Park=1|Milford=9|Millburn=6|Millington=d|Millstone Township=c|Milltown=b|Millville=5|Milmay=0|Mine Hill=d|Minotola=0|Mizpah=0|Monmouth Beach=c|Monmouth Junction=b|Monroe Township=b|Monroeville=7|Montague=i|Montclair=6|Montvale=1|Montville=d|Moonachie=1|Moorestown=2|Morganville=c|Morris Plains=d|Morristown=d|Mount Arlington=d|Mount Ephraim=3|Mount Freedom=d|Mount Holly=2|Mount Laurel=2|Mount Royal=7|Mount Tabor=d|Mountain Lakes=d|Mountainside=j|Mullica Hill=7|National Park=7|Navesink=c|Neptune=c|Neshanic Station=h|Netcong=d|New Brunswick=b|New Egypt=e|New Gretna=2|New Lisbon=2|New Milford=1|New Providence=j|New Vernon=d|Newark=6|Newfield=7|Newfoundland=f|Newport=5|Newton=i|Newtonville=0|Norma=g|Normandy Beach=e|North Arlington=1|North Bergen=8|North Brunswick=b|Northfield=0|Northvale=1|Norwood=1|Nutley=6|Oak Ridge=f|Oakhurst=c|Oakland=1|Oaklyn=3|Ocean City=4|Ocean Gate=e|Ocean Grove=c|Ocean View=4|Oceanport=c|Oceanville=0|Ogdensburg=i|Old Bridge=b|Oldwick=9|Oradell=1|Orange=6|Oxford=k|Palisades Park=1|Palmyra=2|Paramus=1|Park Ridge=1|Parlin=b|Parsippany=d|Passaic=f|Paterson=f|Paulsboro=7|Peapack=h|Pedricktown=g|Pemberton=2|Pennington=a|Penns Grove=g|Pennsauken=3|Pennsville=g|Pequannock=d|Perth Amboy=b|Phillipsburg=k|Picatinny Arsenal=d|Pine Beach=e|Pine Brook=d|Piscataway=b|Pitman=7|Pittstown=9|Plainfield=j|Plainsboro=b|Pleasantville=0|Pluckemin=h|Point Pleasant Beach=e|Pomona=0|Pompton Lakes=f|Pompton Plains=d|Port Elizabeth=5|Port Monmouth=c|Port Murray=k|Port Norris=5|Port Reading=b|Port Republic=0|Pottersville=9|Princeton=a|Princeton Junction=a|Quakertown=9|Quinton=g|Rahway=j|Ramsey=1|Rancocas=2|Randolph=d|Raritan=h|Readington=9|Red Bank=c|Richland=0|Richwood=7|Ridgefield=1|Ridgefield Park=1|Ridgewood=1|Ringoes=9|Ringwood=f|Rio Grande=4|River Edge=1|Riverdale=d|Riverside=2|Riverton=2|Rochelle Park=1|Rockaway=d|Rocky Hill=h|Roebling=2|Roosevelt=c|Roseland=6|Roselle=j|Roselle Park=j|Rosemont=9|Rosenhayn=5|Rumson=c|Runnemede=3|Rutherford=1|Saddle Brook=1|Saddle River=1|Salem=g|Sayreville=b|Schooleys Mountain=d|Scotch Plains=j|Sea Girt=c|Sea Isle City=4|Seaside Heights=e|Seaside Park=e|Secaucus=8|Sergeantsville=9|Sewaren=b|Sewell=7|Shiloh=5|Short Hills=6|Shrewsbury=c|Sicklerville=3|Skillman=h|Somerdale=3|Somers Point=0|Somerset=h|Somerville=h|South Amboy=b|South Bound Brook=h|South Dennis=4|South Hackensack=1|South Orange=6|South Plainfield=b|South River=b|South Seaville=4|Sparta=i|Spotswood=b|Spring Lake=c|Springfield=j|Stanhope=i|Stanton=9|Stewartsville=k|Stillwater=i|Stirling=d|Stockholm=i|Stockton=9|Stone Harbor=4|Stratford=3|Strathmere=4|Succasunna=d|Summit=j|Sussex=i|Swartswood=i|Swedesboro=7|Teaneck=1|Tenafly=1|Tennent=c|Teterboro=1|Thorofare=7|Three Bridges=9|Titusville=a|Toms River=e|Totowa=f|Towaco=d|Township Of Washington=1|Tranquility=i|Trenton=a|Tuckahoe=4|Tuckerton=e|Union=j|Union City=8|Vauxhall=j|Ventnor City=0|Vernon=i|Verona=6|Vienna=k|Villas=4|Vincentown=2|Vineland=5|Voorhees=3|Waldwick=1|Wallington=1|Wallpack Center=i|Wanaque=f|Waretown=e|Warren=h|Washington=k|Watchung=j|Waterford Works=3|Wayne=f|Weehawken=8|Wenonah=7|West Berlin=3|West Creek=e|West Long Branch=c|West Milford=f|West New York=8|West Orange=6|Westfield=j|Westville=7|Westwood=1|Wharton=d|Whippany=d|Whitehouse=9|Whitehouse Station=9|Whitesboro=4|Wickatunk=c|Wildwood=4|Williamstown=7|Willingboro=2|Windsor=a|Winslow=3|Wood Ridge=1|Woodbine=4|Woodbridge=b|Woodbury Heights=7|Woodcliff Lake=1|Woodstown=g|Wrightstown=2|Wyckoff=1|Zarephath=h'
+  },
+  NM: {
+    counties: 'Bernalillo|Catron|Chaves|Cibola|Colfax|Curry|DeBaca|Dona Ana|Eddy|Grant|Guadalupe|Harding|Hidalgo|Lea|Lincoln|Los Alamos|Luna|McKinley|Mora|Otero|Quay|Rio Arriba|Roosevelt|San Juan|San Miguel|Sandoval|Santa Fe|Sierra|Socorro|Taos|Torrance|Union|Valencia',
+    zips: '1v4p:p,1:w,2:p,1:3,1:w,1:3,1:0,1:u,1:q,1:s,1:l,1:p,1:3,1:q,1:u,1:l,1:p,2:3,1,1:0,1:w,1:p,1,1:3,1:p,1:s,1:l,2:w,1:u,2:w,1:u,1,1:n,1:3,2,1:p,1:w,1:p,1,1:h,1:p,1:0,1:p,1:3,2,1:p,1,3:q,3:0,1:w,1:u,1:s,1:u,1:l,4:w,2:u,2:p,b,i:0,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1:p,1:0,6,d:p,7:0,2,1,4,g,2,5,3,1,2,3,1,1,1,1,1,1,1,1,1,2u:h,1,3,5,1,1,1,2:3,1:h,1,2,1,1,1,1,2,1,1,1,j,a:3,7:n,1:h,a,q:n,1,8,2,1,2,1,1,1,1,1,1,y,6,12,2:q,1,1,1,1,1,1,1,1,1:l,1,1:t,1,1,1:l,1,1:t,1:l,1:t,1:l,1:t,1:l,1,1:t,1,2:l,1,1:t,1:l,1,1,1,2:q,2:l,1:o,1:l,1:q,3:t,1:f,1,2,1:l,1:t,2:l,1:o,1:t,1:l,2:t,1,1,2:o,2,2:t,1:o,1:l,1:q,2:o,2:t,2:o,1:q,1:l,1:t,1,1:l,1:t,1,1:l,1,1:o,9:q,2,1o:r,1b:o,9:4,1:a,1:i,1,1:4,1:i,3:4,4:i,1,1:a,4:4,1,1:b,1:o,1:i,1:b,1:i,1,1,4:4,2:o,1:b,2:o,1:b,1:4,2,1:i,2,1,1c:s,j:1,1,2:s,1:1,1:s,2:1,1:s,1:1,1,1:s,1,1x:r,t,1,2,2,1:7,1,2:r,1:7,1,1:r,1,1m:7,1,1,1,1,1,1,1,1:c,2:7,1,1,7:c,1:7,1:9,1,1:7,1:9,1,1:7,1:9,1:g,1,1,1:7,1,1:9,2,2,1:1,1:9,1,1:r,1:9,1:7,1:c,1:7,1,1,1:9,2,1:7,1:9,1:7,1:9,1:c,2:7,3:9,1,1:7,2:9,7:7,9:j,k:5,1,1,9,1:m,1:d,1:m,1,2,1:6,1:5,1:k,1:m,1,1:5,1:m,1,4,2,1:5,1:6,1:5,1:6,1t:2,1,1,7:8,1,2:d,7:8,1,9:2,1:d,1:2,8:d,1,1,2,6:8,2:d,1:2,1:8,1,1,4:d,2,1:8,1:d,1,2,1:8,x:e,9:j,1,1:e,2:j,2:e,1:j,1:e,3:u,2:e,1,1:j,5,6:e,1:j,1:e,1:j,1,1:e,1:j,1:e,1:j,1:e,1,1:j,1:e,1:j,1,1:e,1:j,1:a,1:j,1:e,1a:k,9:v,1:k,3:v,1,1:o,1:a,1:v,1,2:o,1:v,2,2:k,1,3,1:a,2:k,1,1:a,1:v,3:o',
+    cities: 'Abiquiu=l|Alamogordo=j|Albuquerque=0|Alcalde=l|Algodones=p|Alto=e|Amalia=t|Amistad=v|Angel Fire=4|Animas=c|Anthony=7|Anton Chico=a|Aragon=1|Arenas Valley=9|Arrey=r|Arroyo Hondo=t|Arroyo Seco=t|Artesia=8|Aztec=n|Bard=k|Bayard=9|Belen=w|Bent=j|Berino=7|Bernalillo=p|Blanco=n|Bloomfield=n|Bluewater=3|Bosque=w|Bosque Farms=w|Brimhall=h|Broadview=5|Buckhorn=9|Buena Vista=i|Caballo=r|Canjilon=l|Cannon Afb=5|Canones=l|Capitan=e|Caprock=d|Capulin=v|Carlsbad=8|Carrizozo=e|Carson=t|Casa Blanca=3|Causey=m|Cebolla=l|Cedar Crest=0|Cedarvale=u|Cerrillos=q|Cerro=t|Chacon=i|Chama=l|Chamberino=7|Chamisal=t|Chaparral=j|Chimayo=l|Church Rock=h|Cimarron=4|Claunch=s|Clayton=v|Cleveland=i|Cliff=9|Clines Corners=u|Cloudcroft=j|Clovis=5|Cochiti Lake=p|Cochiti Pueblo=p|Columbus=g|Conchas Dam=o|Continental Divide=h|Cordova=l|Corona=e|Corrales=p|Costilla=t|Counselor=p|Coyote=l|Crossroads=d|Crownpoint=h|Cuba=p|Cubero=3|Cuervo=a|Datil=1|Deming=g|Derry=r|Des Moines=v|Dexter=2|Dixon=l|Dona Ana=7|Dora=m|Dulce=l|Eagle Nest=4|Edgewood=q|El Prado=t|El Rito=l|Elephant Butte=r|Elida=m|Embudo=l|Encino=u|Espanola=l|Estancia=u|Eunice=d|Fairacres=7|Farmington=n|Faywood=9|Fence Lake=3|Flora Vista=n|Floyd=m|Folsom=v|Fort Bayard=9|Fort Stanton=e|Fort Sumner=6|Fort Wingate=h|Fruitland=n|Gallina=l|Gallup=h|Gamerco=h|Garfield=7|Garita=o|Gila=9|Gladstone=v|Glencoe=e|Glenwood=1|Glorieta=q|Grady=5|Grants=3|Grenville=v|Guadalupita=i|Hachita=9|Hagerman=2|Hanover=9|Hatch=7|Hernandez=l|High Rolls Mountain Park=j|Hillsboro=r|Hobbs=d|Holloman Air Force Base=j|Holman=i|Hondo=e|Hope=8|House=k|Hurley=9|Ilfeld=o|Isleta=0|Jal=d|Jamestown=h|Jarales=w|Jemez Pueblo=p|Jemez Springs=p|Kenna=m|Kirtland=n|Kirtland Afb=0|La Jara=p|La Joya=s|La Loma=a|La Luz=j|La Madera=l|La Mesa=7|La Plata=n|Laguna=3|Lake Arthur=2|Lakewood=8|Lamy=q|Las Cruces=7|Las Vegas=o|Lemitar=s|Lincoln=e|Lindrith=l|Lingo=m|Llano=t|Loco Hills=8|Logan=k|Lordsburg=c|Los Alamos=f|Los Lunas=w|Los Ojos=l|Loving=8|Lovington=d|Luna=1|Magdalena=s|Malaga=8|Maljamar=d|Maxwell=4|Mayhill=j|Mcalister=k|Mcdonald=d|Mcintosh=u|Medanales=l|Melrose=5|Mentmore=h|Mescalero=j|Mesilla=7|Mesilla Park=7|Mesquite=7|Mexican Springs=h|Miami=4|Milan=3|Mills=b|Milnesand=m|Mimbres=9|Montezuma=o|Monticello=r|Monument=d|Mora=i|Moriarty=u|Mosquero=b|Mountainair=u|Mule Creek=9|Nageezi=n|Nara Visa=k|Navajo=h|Navajo Dam=n|New Laguna=3|Newcomb=n|Newkirk=a|Nogal=e|Ocate=i|Ohkay Owingeh=l|Ojo Caliente=t|Ojo Feliz=i|Organ=7|Orogrande=j|Paguate=3|Pecos=o|Pena Blanca=p|Penasco=t|Pep=m|Peralta=w|Petaca=l|Picacho=e|Pie Town=1|Pinehill=3|Pinon=j|Pinos Altos=9|Placitas=p|Playas=c|Polvadera=s|Ponderosa=p|Portales=m|Prewitt=h|Pueblo Of Acoma=w|Quay=k|Quemado=1|Questa=t|Radium Springs=7|Rainsville=i|Ramah=h|Ranchos De Taos=t|Raton=4|Red River=t|Redrock=9|Regina=p|Rehoboth=h|Reserve=1|Ribera=o|Rincon=7|Rio Rancho=p|Rociada=o|Rodeo=c|Rogers=m|Roswell=2|Rowe=o|Roy=b|Ruidoso=e|Ruidoso Downs=e|Sacramento=j|Saint Vrain=5|Salem=7|San Acacia=s|San Antonio=s|San Cristobal=t|San Fidel=3|San Jon=k|San Jose=o|San Miguel=7|San Patricio=e|San Rafael=3|San Ysidro=p|Sandia Park=0|Sanostee=n|Santa Clara=9|Santa Cruz=q|Santa Fe=q|Santa Rosa=a|Santa Teresa=7|Santo Domingo Pueblo=p|Sapello=o|Sedan=v|Serafina=o|Sheep Springs=n|Shiprock=n|Silver City=9|Smith Lake=h|Socorro=s|Solano=b|Spaceport City=r|Springer=4|Stanley=q|Sunland Park=7|Sunspot=j|Taiban=6|Taos=t|Taos Ski Valley=t|Tatum=d|Tererro=o|Tesuque=q|Texico=5|Thoreau=h|Tierra Amarilla=l|Tijeras=0|Timberon=j|Tinnie=e|Tohatchi=h|Tome=w|Torreon=u|Trampas=t|Trementina=o|Tres Piedras=t|Truchas=l|Truth Or Consequences=r|Tucumcari=k|Tularosa=j|Tyrone=9|Ute Park=4|Vadito=t|Vado=7|Valdez=t|Vallecitos=l|Valmora=i|Vanderwagen=h|Vaughn=a|Veguita=s|Velarde=l|Villanueva=o|Wagon Mound=i|Waterflow=n|Watrous=i|Weed=j|White Rock=f|White Sands Missile Range=7|Whites City=8|Willard=u|Williamsburg=r|Winston=r|Yatahey=h|Yeso=6|Youngsville=l|Zuni=h'
+  },
+  NV: {
+    counties: 'Carson City|Churchill|Clark|Douglas|Elko|Esmeralda|Eureka|Humboldt|Lander|Lincoln|Lyon|Mineral|Nye|Pershing|Storey|Washoe|White Pine',
+    zips: '1wlh:2,4,2o:9,1:2,1:c,1:2,1,1,1,1:9,1:2,1:5,1:2,1,1:5,1:2,1,1,1:9,1:2,1,1:c,1:2,1:c,1,1:2,1,1,1,1,1,1,1,1,1,1,2,1,2,1,1:c,1:9,1,1,1:c,1:2,1:5,1:c,1,3:2,1,1,6:c,1,6:2,3,4,3,4,3,1,1,1,e,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,3,1,3,4,1,1,1,3,2,6,2,2,4,2u:g,9:8,1:g,3,1,1:6,1:g,1,1,2b:f,1:a,1:7,1:f,1:1,1,1:a,1:c,1:3,1,1:f,1:3,1:7,1:b,3:d,1,1:b,1:7,1:b,1:3,1:f,1:7,1,1:b,1:a,1,1,1:f,1,1,1,1,1,1,1:7,1:f,1:e,1:f,1,2:a,1:7,1,1:a,1:3,1,1:f,1,1,8:3,10:1,5:f,1,1,1,1,1,1,1,1,1,1,1,1,2,4,1,1,2,a,m,2,d,p,4,2u:0,1,1,1:f,1:3,1:0,5,1,1,1,7,28:4,1,1,c,5:8,1:6,1:4,1,2,1,2,2,1,1,1,1,1,1c',
+    cities: 'Alamo=9|Amargosa Valley=c|Austin=8|Baker=g|Battle Mountain=8|Beatty=c|Blue Diamond=2|Boulder City=2|Bunkerville=2|Cal Nev Ari=2|Caliente=9|Carlin=4|Carson City=0|Coyote Springs=2|Crescent Valley=6|Crystal Bay=f|Dayton=a|Deeth=4|Denio=7|Duckwater=g|Dyer=5|Elko=4|Ely=g|Empire=f|Eureka=6|Fallon=1|Fernley=a|Gabbs=c|Gardnerville=3|Genoa=3|Gerlach=f|Glenbrook=3|Golconda=7|Goldfield=5|Hawthorne=b|Henderson=2|Hiko=9|Imlay=d|Incline Village=f|Indian Springs=2|Jackpot=4|Jarbidge=4|Jean=2|Lamoille=4|Las Vegas=2|Laughlin=2|Logandale=2|Lovelock=d|Lund=g|Luning=b|Manhattan=c|Mc Dermitt=7|Mc Gill=g|Mercury=c|Mesquite=2|Mina=b|Minden=3|Moapa=2|Montello=4|Mountain City=4|Nellis Afb=2|Nixon=f|North Las Vegas=2|Orovada=7|Overton=2|Owyhee=4|Pahrump=c|Panaca=9|Paradise Valley=7|Pioche=9|Reno=f|Round Mountain=c|Ruby Valley=4|Ruth=g|Schurz=b|Searchlight=2|Silver City=a|Silver Springs=a|Silverpeak=5|Sloan=2|Smith=a|Sparks=f|Spring Creek=4|Stateline=3|Sun Valley=f|The Lakes=2|Tonopah=c|Tuscarora=4|Valmy=7|Verdi=f|Virginia City=e|Wadsworth=f|Washoe Valley=f|Wellington=a|Wells=4|West Wendover=4|Winnemucca=7|Yerington=a|Zephyr Cove=3'
+  },
+  NY: {
+    counties: 'Albany|Allegany|Bronx|Broome|Cattaraugus|Cayuga|Chautauqua|Chemung|Chenango|Clinton|Columbia|Cortland|Delaware|Dutchess|Erie|Essex|Franklin|Fulton|Genesee|Greene|Hamilton|Herkimer|Jefferson|Kings|Lewis|Livingston|Madison|Monroe|Montgomery|Nassau|New York|Niagara|Oneida|Onondaga|Ontario|Orange|Orleans|Oswego|Otsego|Putnam|Queens|Rensselaer|Richmond|Rockland|Saratoga|Schenectady|Schoharie|Schuyler|Seneca|St. Lawrence|Steuben|Suffolk|Sullivan|Tioga|Tompkins|Ulster|Warren|Washington|Wayne|Westchester|Wyoming|Yates',
+    zips: 'dx:1f,17,4ie,2sb:u,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,a,5,5,4,6,5,1,6,3,b,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,5,c,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,6,e,4,8,1,1,t,7,7,2,1,1,1,4,3,1,1,1,1,1,1,1,1,1,1,1,1,1,1,3,1,f:16,1,1,1,1,1,1,1,1,1,1,1,1,1,3t:2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,q:1n,1,1,1,1,1,1,2:13,1:1n,1,1:13,2:1n,2:13,1:1n,1,1,1,1,1,1,1:13,2:1n,1,1,2,2,1,2,1,1:13,1:1n,2,1:13,1,1:1n,2,1,1,1,1,1,1,1,1,7,2,4,1,3,3,3,1,1,1:13,1:1n,3,4,1,1,1,1,3,1,1,1,1,3,1,1,1,1,1,1,3,2j,1,1,1,1,1,1,1,1,1,2j,1,1,1,1,2o:17,9:z,1:17,1:z,1:17,1:z,1,1,1,1,1,1:17,1:z,1,1:17,1:z,1,1,1:17,1:z,2,1:17,1:z,1,7,1,8,1,2:17,1:z,1:17,2,2:z,1,1:17,2,1:z,1:17,1,3,1:z,1:17,3:z,1:17,1:z,1:17,1,2:z,1:17,1:z,1:17,1,1,1:z,1:17,1:z,1,1:17,1:z,2,1:17,1,2:z,1,1,3:t,1,1,1:14,1,5:t,a,1,1,1,1,2,1,3,a,2,8,1,1,1,1,1,15,5:14,1,1,1,1,1,3,b,29:n,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,2,1,1,2,2,2,2,1,4,2n:14,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,4,1,j,6,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,c,1c,2:t,6,2,1,4,2,2,2,a,1,b,3,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,2,1,2,1,1,1,1,3,1,1,2,1,1,1,8,6,2,1,2j:14,1,1,1,1,1,2,4:1f,1,1,1,1,1,1,2:t,1,3:1f,1:t,1:1f,1,1,1,1,1,1,1,2,1,1,1,2,1,1,1:t,1:1f,2:t,2,1:1f,1,1,1,1,1,3,1,2,2,1,1:t,1:1f,1,1:t,1:1f,1:t,2:1f,2:t,1:1f,1,1:t,1:1f,1,1,1,1,1:t,1:1f,1:t,2:1f,1,1,1,1,1,2,1:t,1:1f,2,1,1,1,1,1:t,1:1f,1:t,1:1f,1,1,1:t,1:1f,3:t,1,1,1,b,4,y,1c:1f,t,1,1,1,1,1,2,2,1,1,1,2,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,2,1,1,1,2,r:0,1:19,1:0,1:s,5:j,1:s,1:a,1:15,1:18,1,2:15,1:0,1:15,1:h,2:18,1:15,1:a,2:1a,1:h,1:15,2:1a,1,1:a,3:15,1:0,1:j,1:1a,2:0,1,1,3:a,1:j,1:15,1:19,1:0,1,1:19,1:1l,1:j,1:0,1:a,1:15,1,1,1:12,1:18,1:s,1:0,1:s,1,1,1:1a,1:s,1:1a,1:18,1:a,1:1a,1:0,1:h,4:15,1:j,1:0,1,1:s,1:j,2:15,1,2:1a,1,1:15,1:h,b:a,1:0,1:k,2:0,5:a,1:12,1:h,1:18,2:0,1:15,1:1a,1:15,1:j,1:a,3:0,2:a,1:1a,1:a,1:15,1:h,2:a,1:19,1:15,1:k,1:15,1:19,2:0,1:15,3:0,1:18,1:1a,1:19,1:18,2:15,1,1:12,1:15,1:1a,1:0,1,1:1a,1:0,3:k,1:a,1:s,1:c,1:15,1,1:18,2:a,1,1,1:1a,1:j,1:s,3:15,1,1,1:0,1:a,1:15,1:0,1:1a,1:18,1:0,1:k,2:j,1:0,1:1a,1:a,1:15,1:12,1:15,3:0,1,1,1,1,1,1,1,1,1,1,1,2,6,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,3,1,1,3,1,r,d:19,1,1,1,1,1,1,1,1,g,k,1k:1j,1,2,1:j,1:c,1:j,2:1j,1,1,1,1:j,1,2:1j,1,1:j,1:1j,1,1:c,1:j,1,1,3,1:1j,1,1:c,1:j,1:1j,1,1:c,1:1j,1:j,2:c,1:j,1:1j,1,1:j,1:1j,1:j,2:1j,2,1,1:j,1,1,1:1j,1:j,1:c,1:1j,1,1,1:c,1:j,1:1j,2:j,1:1j,1,1,2:j,1:0,1:j,1:1j,1,1:j,1:c,1:1j,2,3,1,1:j,1:1j,1,1:j,1:1j,1,2,1,1,1:j,1:1j,1,1,1:j,2:1j,3:d,1:a,1,1:d,2,1,1,2,1,1,1:a,1:d,1:1j,1:a,1,1:z,2,1:a,1:d,1:a,1:d,1:1j,1:a,1:d,1:1j,1:a,1,1:d,2,1:a,3:d,1,2,1:a,1:1j,1:z,1:a,1:d,1,1:1j,1,1:z,1,1,1,1,2,6:1j,2:13,1:d,1:a,1:z,1:d,1:1j,1:d,1,1,1,2,1:z,2,1:d,2,1,1,1,1:z,1:d,1:z,2:1j,1,1:d,2,2,7,1,1,1,2p:1g,i,1,1,1,1,1,1,1,1,2:z,3:1g,1,1,2,1,1,2,1,1,1,2,1:z,1:1g,1,1,1,1,1,2,4,1,1,2,1,1,1,1,1,1,1,1,1:z,4:1g,1,1,1,1,1:z,1:1g,2,1,1,1,1,1,1,1,1,1,9:1k,2:18,1:1k,4,1:1l,1:1k,1,1:k,2:1k,1,1:1l,1:1k,2:1l,1:1k,1:1l,1:18,1:1l,1:1k,3:1l,1,3:18,1:1l,1:18,1:1l,1:18,1:1k,1:1l,1,1,2,1:k,1:1k,1,1,1,1:k,1:1l,1,1:18,1:f,1,1:1k,1:1l,1:f,1:1k,1:f,1,1:18,1:1k,1:1l,1:1k,1:18,1:k,1:1l,1:18,4:f,1:18,1:f,1:1l,1:1k,4,1:f,4,1:18,1:1k,1,1:1l,e:9,2,7,1,1,1:f,1:g,1,1,1,1:9,1,1:g,1:9,1:1d,1:9,1,2:g,1:1d,1:f,1:9,1:g,2:f,1:9,1,1,1:f,1:g,2,2:f,1,1,1,1:g,1:f,3:1d,1:f,2:9,1:g,2:9,1:f,1:g,1:9,1,1:f,1,1:9,2:f,1:1d,1:g,1:1d,2:g,1,2:9,1:1d,1:f,1,1:g,1:f,1:9,1,1:g,1:9,2:g,2:9,1:g,1:f,2:g,3:9,1:f,2:g,1:f,1,1,m:x,1:5,1,2,2,1:x,1:11,1:x,1,1,1:q,1:5,1,1:q,1:11,1:q,2:x,1:b,1:x,1:11,1:q,1:11,1:b,6:x,1:q,1:1i,1:w,2:b,1:x,3,1:q,1:1i,1:x,1:11,1:1c,1:x,2:1i,1:11,2:5,1:q,1:1i,1:11,2,1:b,1:x,2,1:5,1:x,1:11,1:x,3:b,1:x,1,1,2:5,1:11,8:b,1:1i,1:11,1:x,3:11,1:x,2,1:5,1:x,1:5,1:11,1,1:x,1:5,1,1:x,1,1:11,1:q,1:w,1:8,2:11,5,1,2:q,1:11,1:8,1:x,1,1:5,1,1:b,1:11,1:1m,1:11,1,1:1m,1:5,1:1c,4:x,1,1:1m,1:8,1:5,1:w,1:b,1:x,1:5,2:w,1:q,1:x,1:1c,1:5,1:11,y:x,1,1,1,1,1,1,1,1,1,1,1,2,1,2,1,1,1,1,3,1,a,9,6,1,1,9,t,b:w,1:11,1:w,1,1:o,3:w,1,1:q,2:o,1:w,1:q,1:12,1:w,1:s,1:w,1,1:12,1:w,1,1,1:l,1:o,1:12,1:o,1:w,1:l,2,1:8,1:12,1:q,1:12,2,1:w,1:s,1:l,1:w,1:12,1:o,2,1:q,2:12,2:l,2:w,1:k,1:w,1:q,2:l,3:k,1:l,1:w,1,1:q,1:l,2:o,1,x:w,1:q,1:w,1:o,2:l,1,1:q,1,1:s,1:8,2:w,2:12,1:l,1:w,1:q,2:l,1:q,3:w,1,1:11,2:s,3:l,2:o,2:w,1:k,1:11,1:w,1:12,1:w,1,1,7,1:12,2:s,2:l,1:w,1,1:12,2:1a,1:8,1:w,3:8,1:q,3:12,1:w,1:h,1:w,1:l,1:o,2:l,1:w,1,1,1,1,2:12,1:w,1:q,1:12,1:w,2:12,1:o,1:w,1:l,1:w,1:11,1:w,1,6,1,1,1,1,2m,2:m,1,1,2,1,1,1,3,1,1:1d,1,1:m,1,1:1d,1:m,1,1:o,1:1d,1:m,1:1d,1:m,1:1d,1:o,1,1:m,2:1d,1:o,1:m,1:1d,1:m,1:1d,1:m,1,1,1:1d,1:m,1,1:1d,1:m,2:1d,1,1,1:o,1:1d,1:m,1,1:1d,2,1:g,1:m,1,1:1d,1:m,1:1d,1:m,1:1d,2,1:m,1:1d,1,1,1,1,1:m,1:1d,1:m,1,1,1:1d,1,1,1:m,1:1d,1,1:m,1:1d,1,1:m,2:1d,3,1:m,1,1,1:1d,1,1,1,2,v:8,1:c,1:1h,1:8,1:1h,2,1:3,1:b,1:c,1,3:1h,1:3,1,1,1:12,1:3,1,1:c,1,1,1,1:3,1:c,1,1,1:8,2:3,1,1,1,b:c,1,1:12,1:3,1:8,2,2:c,1,1:b,2:c,1:3,1:c,2:3,4,1,1:12,1:3,4:8,1:3,1:b,1:c,2,1:12,1,1:8,1:12,1:1h,1,1:3,1:8,1,5:12,5,1:3,1:1h,3:8,2,1:3,1:12,1:1h,3:c,1,1:1h,1:8,1:c,1:8,1,1:1h,1:c,1,1:3,1:12,1:3,1,5:c,3:12,1:c,1:12,1:3,1:b,1:1h,1:3,10,1,1,1,1,2o:e,3,1:i,1:e,2:v,1:1o,1:e,1:1o,1:v,1:i,7,1,3:1o,1:e,1,1,1:v,1:1,1:e,1,1,1,1,1,1:i,1:1o,1:e,1:1o,1:i,1:4,1,1:e,4,1:6,3:e,1,2:i,1:e,1:i,1:e,1:i,1:e,1:4,1:e,1:6,1,2:4,1:1o,1:v,1:e,1,1:4,2:e,3,5,1:6,1:1o,1,2:e,1,5,1:v,2,1,3:10,3:4,1:e,1:10,2:v,2,1,1,1:e,1,1,1:1o,7:v,5:i,1:v,1:e,2:4,1:1o,1:v,1,1:4,1:e,1:6,1,2:4,1:e,1,1,2:i,1:v,1:1o,5:e,1,f:6,1:1o,1:4,1:e,1,1:4,1:v,1:4,1:v,r:e,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,3,2,7,1,j,1,2,1,1,2,2,1,2,1,3,4,l:v,1,1,1,1,2x:r,1:10,2:1m,1:p,1:1p,1:i,2:1p,2:r,2:i,1:p,1:y,1,2:1o,1:r,1:10,1:r,2:y,1:1m,2:p,2,4:1p,2:y,2:r,4:1m,1:r,2:10,1:y,1:p,2:y,5,1:p,1:y,1:r,2:p,1:r,1,1:y,1:10,1:y,1:r,3:y,1:10,1,1:1p,1:10,1:p,1,1:i,3:p,1:i,1:p,1,1:1m,d,2:y,1:1m,1:r,1:1p,1:10,2:p,1:r,1:y,1:1m,1:r,1,1:1m,1:p,1:y,1:1m,1,1:1c,1:1m,3:i,1:r,1:1p,2:1e,1:1o,2:y,1:p,1:r,2:1o,1:y,1:1m,1:p,2:1c,1:1m,1:r,1:1p,1:p,1:r,1:y,1,1:1o,1,1:1m,4,1:p,1:i,1:p,1:r,1:p,1:y,2:1m,1:y,4:1m,1:1o,2:10,1:1e,8:r,5:y,1:r,2:1c,1:1m,1,1:1o,1:p,a:r,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,b,1,3,1,1,2,1,2,1,1,1,1,13,2,7:6,1,4:4,1:1,1,1,1:6,1:1,1:6,2:1,1,1:6,1:1,1:6,1:4,1:6,1:1,1:6,1,1,2:4,1:1,1:6,1:4,1,1,1:6,1,2:1,1:6,1:4,1:6,1:1,1:6,1:4,1:6,1:4,1:1,1,2:6,1:4,2:6,1:4,1:6,1:4,1:1,1:4,1:6,1,1,2:4,6,1:6,2,1:4,2,2:1,1:6,2:1,1:4,1,2:6,1,1:4,1:6,1,1:1,1:6,1:4,d:1e,1:1,1,1,1:1b,1:1,1:1e,1,1,1,2:1b,1:1,1:7,1:1e,1:7,1:1i,1:1b,1:1e,1,1,1:1,1:1e,1:1b,1:7,1:1e,1,3,1,5:p,1:1p,1:7,1:1e,1,1:1b,1:1p,1:1e,2:7,1:p,1:1c,3:1i,1,1,1,1,1:1e,1,1:1p,1:1e,1:1h,1:1c,1:7,2:1b,1:7,1:1b,2:1i,2:1b,1:1e,1:7,1,1:1e,1,2:1b,1:1e,1:1p,1:1e,1:1,1:1i,1,1:1h,1:1,1:1e,1:1i,1:1b,2:7,2:1b,1:1h,1:1b,1:7,1:1,2,1:1e,3:7,1,1,1,1',
+    cities: 'Accord=1j|Acra=j|Adams=m|Adams Basin=r|Adams Center=m|Addison=1e|Adirondack=1k|Afton=8|Akron=e|Albany=0|Albertson=t|Albion=10|Alcove=0|Alden=e|Alder Creek=w|Alexander=i|Alexandria Bay=m|Alfred=1|Alfred Station=1|Allegany=4|Allentown=1|Alma=1|Almond=1|Alpine=1b|Alplaus=19|Altamont=0|Altmar=11|Alton=1m|Altona=9|Amagansett=1f|Amawalk=1n|Amenia=d|Amityville=1f|Amsterdam=s|Ancram=a|Ancramdale=a|Andes=c|Andover=1|Angelica=1|Angola=e|Annandale On Hudson=d|Antwerp=m|Apalachin=1h|Appleton=v|Apulia Station=x|Aquebogue=1f|Arcade=1o|Arden=z|Ardsley=1n|Ardsley On Hudson=1n|Argyle=1l|Arkport=1e|Arkville=c|Armonk=1n|Arverne=14|Ashland=j|Ashville=6|Astoria=14|Athens=j|Athol=1k|Athol Springs=e|Atlanta=1e|Atlantic Beach=t|Attica=1o|Au Sable Forks=9|Auburn=5|Auriesville=s|Aurora=5|Austerlitz=a|Ava=w|Averill Park=15|Avoca=1e|Avon=p|Babylon=1f|Bainbridge=8|Bakers Mills=1k|Baldwin=t|Baldwin Place=1n|Baldwinsville=x|Ballston Lake=18|Ballston Spa=18|Bangall=d|Barker=v|Barneveld=w|Barrytown=d|Barryville=1g|Barton=1h|Basom=i|Batavia=i|Bath=1e|Bay Shore=1f|Bayport=1f|Bayside=14|Bayville=t|Beacon=d|Bear Mountain=17|Bearsville=1j|Beaver Dams=1b|Beaver Falls=o|Bedford=1n|Bedford Hills=1n|Belfast=1|Bellerose=14|Belleville=m|Bellmore=t|Bellona=1p|Bellport=1f|Bellvale=z|Belmont=1|Bemus Point=6|Bergen=i|Berkshire=1h|Berlin=15|Berne=0|Bernhards Bay=11|Bethel=1g|Bethpage=t|Bible School Park=3|Big Flats=7|Big Indian=1j|Billings=d|Binghamton=3|Black Creek=1|Black River=m|Blauvelt=17|Bliss=1o|Blodgett Mills=b|Bloomfield=y|Blooming Grove=z|Bloomingburg=1g|Bloomingdale=f|Bloomington=1j|Bloomville=c|Blossvale=w|Blue Mountain Lake=k|Blue Point=1f|Bohemia=1f|Boiceville=1j|Bolivar=1|Bolton Landing=1k|Bombay=g|Boonville=w|Boston=e|Bouckville=q|Bovina Center=c|Bowmansville=e|Bradford=1e|Brainard=15|Brainardsville=g|Branchport=1p|Brant=e|Brant Lake=1k|Brantingham=o|Brasher Falls=1d|Breesport=7|Breezy Point=14|Brentwood=1f|Brewerton=x|Brewster=13|Briarcliff Manor=1n|Bridgehampton=1f|Bridgeport=x|Bridgewater=w|Brier Hill=1d|Brightwaters=1f|Broadalbin=h|Brockport=r|Brocton=6|Bronx=2|Bronxville=1n|Brookfield=q|Brookhaven=1f|Brooklyn=n|Brooktondale=1i|Brownville=m|Brushton=g|Buchanan=1n|Buffalo=e|Bullville=z|Burdett=1b|Burke=g|Burlingham=1g|Burlington Flats=12|Burnt Hills=18|Burt=v|Buskirk=15|Byron=i|Cadyville=9|Cairo=j|Calcium=m|Caledonia=p|Callicoon=1g|Callicoon Center=1g|Calverton=1f|Cambria Heights=14|Cambridge=1l|Camden=w|Cameron=1e|Cameron Mills=1e|Camillus=x|Campbell=1e|Campbell Hall=z|Canaan=a|Canajoharie=s|Canandaigua=y|Canaseraga=1|Canastota=q|Candor=1h|Caneadea=1|Canisteo=1e|Canton=1d|Cape Vincent=m|Carle Place=t|Carlisle=1a|Carmel=13|Caroga Lake=h|Carthage=m|Cassadaga=6|Cassville=w|Castile=1o|Castle Creek=3|Castle Point=d|Castleton On Hudson=15|Castorland=o|Cato=5|Catskill=j|Cattaraugus=4|Cayuga=5|Cayuta=1b|Cazenovia=q|Cedarhurst=t|Celoron=6|Center Moriches=1f|Centereach=1f|Centerport=1f|Centerville=1|Central Bridge=1a|Central Islip=1f|Central Square=11|Central Valley=z|Ceres=1|Chadwicks=w|Chaffee=e|Champlain=9|Chappaqua=1n|Charlotteville=1a|Chase Mills=1d|Chateaugay=g|Chatham=a|Chaumont=m|Chautauqua=6|Chazy=9|Chelsea=d|Chemung=7|Chenango Bridge=3|Chenango Forks=3|Cherry Creek=6|Cherry Plain=15|Cherry Valley=12|Chester=z|Chestertown=1k|Chichester=1j|Childwold=1d|Chippewa Bay=1d|Chittenango=q|Churchville=r|Churubusco=9|Cicero=x|Cincinnatus=b|Circleville=z|Clarence=e|Clarence Center=e|Clarendon=10|Clark Mills=w|Clarkson=r|Clarksville=0|Claryville=1g|Claverack=a|Clay=x|Clayton=m|Clayville=w|Clemons=1l|Cleveland=11|Cleverdale=1k|Clifton Park=18|Clifton Springs=y|Climax=j|Clinton=w|Clinton Corners=d|Clintondale=1j|Clockville=q|Clyde=1m|Clymer=6|Cobleskill=1a|Cochecton=1g|Cochecton Center=1g|Coeymans=0|Coeymans Hollow=0|Cohocton=1e|Cohoes=0|Cold Brook=l|Cold Spring=13|Cold Spring Harbor=1f|Colden=e|College Point=14|Colliersville=12|Collins=e|Collins Center=e|Colton=1d|Columbiaville=a|Commack=1f|Comstock=1l|Conesus=p|Conewango Valley=4|Congers=17|Conklin=3|Connelly=1j|Constable=g|Constableville=o|Constantia=11|Coopers Plains=1e|Cooperstown=12|Copake=a|Copake Falls=a|Copenhagen=o|Copiague=1f|Coram=1f|Corbettsville=3|Corfu=i|Corinth=18|Corning=1e|Cornwall=z|Cornwall On Hudson=z|Cornwallville=j|Corona=14|Cortland=b|Cortlandt Manor=1n|Cossayuna=1l|Cottekill=1j|Cowlesville=1o|Coxsackie=j|Cragsmoor=1j|Cranberry Lake=1d|Craryville=a|Crittenden=e|Croghan=o|Crompond=1n|Cropseyville=15|Cross River=1n|Croton Falls=1n|Croton On Hudson=1n|Crown Point=f|Cuba=1|Cuddebackville=z|Cutchogue=1f|Dale=1o|Dalton=p|Dannemora=9|Dansville=p|Darien Center=i|Davenport=c|Davenport Center=c|Dayton=4|De Kalb Junction=1d|De Peyster=1d|De Ruyter=q|Deansboro=w|Deer Park=1f|Deer River=o|Deferiet=m|Delancey=c|Delanson=19|Delevan=4|Delhi=c|Delmar=0|Delphi Falls=x|Denmark=o|Denver=c|Depauville=m|Depew=e|Deposit=3|Derby=e|Dewittville=6|Dexter=m|Diamond Point=1k|Dickinson Center=g|Dobbs Ferry=1n|Dolgeville=l|Dormansville=0|Dover Plains=d|Downsville=c|Dresden=1p|Dryden=1i|Duanesburg=19|Dundee=1p|Dunkirk=6|Durham=j|Durhamville=w|Eagle Bay=l|Eagle Bridge=1l|Earlton=j|Earlville=8|East Amherst=e|East Aurora=e|East Berne=0|East Bethany=i|East Bloomfield=y|East Branch=c|East Chatham=a|East Concord=e|East Durham=j|East Elmhurst=14|East Greenbush=15|East Hampton=1f|East Homer=b|East Islip=1f|East Jewett=j|East Marion=1f|East Meadow=t|East Meredith=c|East Moriches=1f|East Nassau=15|East Northport=1f|East Norwich=t|East Otto=4|East Pembroke=i|East Pharsalia=8|East Quogue=1f|East Randolph=4|East Rochester=r|East Rockaway=t|East Schodack=15|East Setauket=1f|East Springfield=12|East Syracuse=x|East Williamson=1m|East Worcester=12|Eastchester=1n|Eastport=1f|Eaton=q|Eden=e|Edmeston=12|Edwards=1d|Elba=i|Elbridge=x|Eldred=1g|Elizabethtown=f|Elizaville=a|Elka Park=j|Ellenburg=9|Ellenburg Center=9|Ellenburg Depot=9|Ellenville=1j|Ellicottville=4|Ellington=6|Ellisburg=m|Elma=e|Elmhurst=14|Elmira=7|Elmont=t|Elmsford=1n|Endicott=3|Endwell=3|Erieville=q|Erin=7|Esopus=1j|Esperance=s|Essex=f|Etna=1i|Evans Mills=m|Fabius=x|Fair Haven=11|Fairport=r|Falconer=6|Fallsburg=1g|Fancher=10|Far Rockaway=14|Farmersville Station=4|Farmingdale=t|Farmington=y|Farmingville=1f|Farnham=e|Fayette=1c|Fayetteville=x|Felts Mills=m|Ferndale=1g|Feura Bush=0|Fillmore=1|Findley Lake=6|Fine=1d|Fishers=y|Fishers Island=1f|Fishers Landing=m|Fishkill=d|Fishs Eddy=c|Fleischmanns=c|Floral Park=t|Florida=z|Flushing=14|Fly Creek=12|Fonda=s|Forest Hills=14|Forestburgh=1g|Forestport=w|Forestville=6|Fort Ann=1l|Fort Covington=g|Fort Drum=m|Fort Edward=1l|Fort Hunter=s|Fort Johnson=s|Fort Montgomery=z|Fort Plain=s|Frankfort=l|Franklin=c|Franklin Springs=w|Franklin Square=t|Franklinville=4|Fredonia=6|Freedom=4|Freehold=j|Freeport=t|Freeville=1i|Fremont Center=1g|Fresh Meadows=14|Frewsburg=6|Friendship=1|Fulton=11|Fultonham=1a|Fultonville=s|Gabriels=g|Gainesville=1o|Gallupville=1a|Galway=18|Gansevoort=18|Garden City=t|Gardiner=1j|Garnerville=17|Garrattsville=12|Garrison=13|Gasport=v|Geneseo=p|Geneva=y|Genoa=5|Georgetown=q|Germantown=a|Gerry=6|Getzville=e|Ghent=a|Gilbertsville=12|Gilboa=1a|Glasco=1j|Glen Aubrey=3|Glen Cove=t|Glen Head=t|Glen Oaks=14|Glen Spey=1g|Glen Wild=1g|Glenfield=o|Glenford=1j|Glenham=d|Glenmont=0|Glens Falls=1k|Glenwood=e|Glenwood Landing=t|Gloversville=h|Goldens Bridge=1n|Gorham=y|Goshen=z|Gouverneur=1d|Gowanda=4|Grafton=15|Grahamsville=1g|Grand Gorge=c|Grand Island=e|Granite Springs=1n|Granville=1l|Great Bend=m|Great Neck=t|Great River=1f|Great Valley=4|Greene=8|Greenfield Center=18|Greenfield Park=1j|Greenhurst=6|Greenlawn=1f|Greenport=1f|Greenvale=t|Greenville=j|Greenwich=1l|Greenwood=1e|Greenwood Lake=z|Greig=o|Groton=1i|Groveland=p|Guilderland=0|Guilderland Center=0|Guilford=8|Hadley=18|Hagaman=s|Hague=1k|Hailesboro=1d|Haines Falls=j|Halcottsville=c|Hall=y|Hamburg=e|Hamden=c|Hamilton=q|Hamlin=r|Hammond=1d|Hammondsport=1e|Hampton=1l|Hampton Bays=1f|Hancock=c|Hankins=1g|Hannacroix=j|Hannawa Falls=1d|Hannibal=11|Harford=b|Harpersfield=c|Harpursville=3|Harriman=z|Harris=1g|Harrison=1n|Harrisville=o|Hartford=1l|Hartsdale=1n|Hartwick=12|Hastings=11|Hastings On Hudson=1n|Hauppauge=1f|Haverstraw=17|Hawthorne=1n|Hector=1b|Helena=1d|Hemlock=p|Hempstead=t|Henderson=m|Henderson Harbor=m|Henrietta=r|Hensonville=j|Herkimer=l|Hermon=1d|Heuvelton=1d|Hewlett=t|Hicksville=t|High Falls=1j|Highland=1j|Highland Falls=z|Highland Lake=1g|Highland Mills=z|Highmount=1j|Hillburn=17|Hillsdale=a|Hilton=r|Himrod=1p|Hinckley=w|Hinsdale=4|Hobart=c|Hoffmeister=k|Hogansburg=g|Holbrook=1f|Holland=e|Holland Patent=w|Holley=10|Hollis=14|Hollowville=a|Holmes=d|Holtsville=1f|Homer=b|Honeoye=y|Honeoye Falls=r|Hoosick=15|Hoosick Falls=15|Hopewell Junction=d|Hornell=1e|Horseheads=7|Hortonville=1g|Houghton=1|Howard Beach=14|Howells=z|Howes Cave=1a|Hubbardsville=q|Hudson=a|Hudson Falls=1l|Hughsonville=d|Huguenot=z|Huletts Landing=1l|Hume=1|Hunt=p|Hunter=j|Huntington=1f|Huntington Station=1f|Hurley=1j|Hurleyville=1g|Hyde Park=d|Ilion=l|Indian Lake=k|Inlet=k|Interlaken=1c|Inwood=t|Ionia=y|Irving=6|Irvington=1n|Island Park=t|Islandia=1f|Islip=1f|Islip Terrace=1f|Ithaca=1i|Jackson Heights=14|Jacksonville=1i|Jamaica=14|Jamesport=1f|Jamestown=6|Jamesville=x|Jasper=1e|Java Center=1o|Java Village=1o|Jay=f|Jefferson=1a|Jefferson Valley=1n|Jeffersonville=1g|Jericho=t|Jewett=j|Johnsburg=1k|Johnson=z|Johnson City=3|Johnsonville=15|Johnstown=h|Jordan=x|Jordanville=l|Kanona=1e|Katonah=1n|Kattskill Bay=1k|Kauneonga Lake=1g|Keene=f|Keene Valley=f|Keeseville=9|Kendall=10|Kennedy=6|Kenoza Lake=1g|Kent=10|Kerhonkson=1j|Keuka Park=1p|Kew Gardens=14|Kiamesha Lake=1g|Kill Buck=4|Killawog=3|Kinderhook=a|King Ferry=5|Kings Park=1f|Kingston=1j|Kirkville=x|Kirkwood=3|Knowlesville=10|Knox=0|Knoxboro=w|La Fargeville=m|La Fayette=x|Lacona=11|Lagrangeville=d|Lake Clear=g|Lake George=1k|Lake Grove=1f|Lake Hill=1j|Lake Huntington=1g|Lake Katrine=1j|Lake Luzerne=1k|Lake Peekskill=13|Lake Placid=f|Lake Pleasant=k|Lake View=e|Lakemont=1p|Lakeville=p|Lakewood=6|Lancaster=e|Lanesville=j|Lansing=1i|Larchmont=1n|Latham=0|Laurel=1f|Laurens=12|Lawrence=t|Lawrenceville=1d|Lawtons=e|Le Roy=i|Lee Center=w|Leeds=j|Leicester=p|Leon=4|Leonardsville=q|Levittown=t|Lewis=f|Lewiston=v|Lexington=j|Liberty=1g|Lily Dale=6|Lima=p|Limerick=m|Limestone=4|Lincolndale=1n|Lindenhurst=1f|Lindley=1e|Linwood=i|Lisbon=1d|Lisle=3|Little Falls=l|Little Genesee=1|Little Neck=14|Little Valley=4|Little York=b|Liverpool=x|Livingston=a|Livingston Manor=1g|Livonia=p|Livonia Center=p|Loch Sheldrake=1g|Locke=5|Lockport=v|Lockwood=1h|Locust Valley=t|Lodi=1c|Long Beach=t|Long Eddy=1g|Long Island City=14|Long Lake=k|Lorraine=m|Lowman=7|Lowville=o|Lycoming=11|Lynbrook=t|Lyndonville=10|Lyon Mountain=9|Lyons=1m|Lyons Falls=o|Macedon=1m|Machias=4|Madison=q|Madrid=1d|Mahopac=13|Mahopac Falls=13|Maine=3|Malden Bridge=a|Malden On Hudson=1j|Mallory=11|Malone=g|Malverne=t|Mamaroneck=1n|Manchester=y|Manhasset=t|Manlius=x|Mannsville=m|Manorville=1f|Maple Springs=6|Maple View=11|Maplecrest=j|Marathon=b|Marcellus=x|Marcy=w|Margaretville=c|Marietta=x|Marilla=e|Marion=1m|Marlboro=1j|Martinsburg=o|Martville=5|Maryknoll=1n|Maryland=12|Masonville=c|Maspeth=14|Massapequa=t|Massapequa Park=t|Massena=1d|Mastic=1f|Mastic Beach=1f|Mattituck=1f|Maybrook=z|Mayfield=h|Mayville=6|Mc Connellsville=w|Mc Donough=8|Mc Graw=b|Mc Lean=1i|Mechanicville=18|Mecklenburg=1b|Medford=1f|Medina=10|Medusa=0|Mellenville=a|Melrose=15|Melville=1f|Memphis=x|Mendon=r|Meridale=c|Meridian=5|Merrick=t|Mexico=11|Middle Falls=1l|Middle Granville=1l|Middle Grove=18|Middle Island=1f|Middle Village=14|Middleburgh=1a|Middleport=v|Middlesex=1p|Middletown=z|Middleville=l|Milford=12|Mill Neck=t|Millbrook=d|Miller Place=1f|Millerton=d|Millport=7|Millwood=1n|Milton=1j|Mineola=t|Minerva=f|Minetto=11|Mineville=f|Minoa=x|Model City=v|Modena=1j|Mohawk=l|Mohegan Lake=1n|Moira=g|Mongaup Valley=1g|Monroe=z|Monsey=17|Montauk=1f|Montezuma=5|Montgomery=z|Monticello=1g|Montour Falls=1b|Montrose=1n|Mooers=9|Mooers Forks=9|Moravia=5|Moriah=f|Moriah Center=f|Moriches=1f|Morris=12|Morrisonville=9|Morristown=1d|Morrisville=q|Morton=10|Mottville=x|Mount Kisco=1n|Mount Marion=1j|Mount Morris=p|Mount Sinai=1f|Mount Tremper=1j|Mount Upton=8|Mount Vernon=1n|Mount Vision=12|Mountain Dale=1g|Mountainville=z|Mumford=r|Munnsville=q|Nanuet=17|Napanoch=1j|Naples=y|Narrowsburg=1g|Nassau=15|Natural Bridge=m|Nedrow=x|Nelliston=s|Nesconset=1f|Neversink=1g|New Baltimore=j|New Berlin=8|New City=17|New Hampton=z|New Hartford=w|New Haven=11|New Hyde Park=t|New Kingston=c|New Lebanon=a|New Lisbon=12|New Milford=z|New Paltz=1j|New Rochelle=1n|New Russia=f|New Suffolk=1f|New Windsor=z|New Woodstock=q|New York=u|New York Mills=w|Newark=1m|Newark Valley=1h|Newburgh=z|Newcomb=f|Newfane=v|Newfield=1i|Newport=l|Newton Falls=1d|Newtonville=0|Niagara Falls=v|Niagara University=v|Nichols=1h|Nicholville=1d|Nineveh=3|Niobe=6|Niverville=a|Norfolk=1d|North Babylon=1f|North Bangor=g|North Bay=w|North Blenheim=1a|North Boston=e|North Branch=1g|North Brookfield=q|North Chatham=a|North Chili=r|North Collins=e|North Creek=1k|North Evans=e|North Granville=1l|North Greece=r|North Hoosick=15|North Hudson=f|North Java=1o|North Lawrence=1d|North Norwich=8|North Pitcher=8|North River=1k|North Rose=1m|North Salem=1n|North Tonawanda=v|Northport=1f|Northville=h|Norwich=8|Norwood=1d|Nunda=p|Nyack=17|Oak Hill=j|Oakdale=1f|Oakfield=i|Oakland Gardens=14|Oaks Corners=y|Obernburg=1g|Ocean Beach=1f|Oceanside=t|Odessa=1b|Ogdensburg=1d|Olcott=v|Old Bethpage=t|Old Chatham=a|Old Forge=l|Old Westbury=t|Olean=4|Olivebridge=1j|Olmstedville=f|Oneida=q|Oneonta=12|Ontario=1m|Ontario Center=1m|Orangeburg=17|Orchard Park=e|Orient=1f|Oriskany=w|Oriskany Falls=w|Orwell=11|Ossining=1n|Oswegatchie=1d|Oswego=11|Otego=12|Otisville=z|Otto=4|Ouaquaga=3|Ovid=1c|Owego=1h|Owls Head=g|Oxbow=m|Oxford=8|Oyster Bay=t|Ozone Park=14|Painted Post=1e|Palatine Bridge=s|Palenville=j|Palisades=17|Palmyra=1m|Panama=6|Paradox=f|Parish=11|Parishville=1d|Parksville=1g|Patchogue=1f|Patterson=13|Pattersonville=19|Paul Smiths=g|Pavilion=i|Pawling=d|Pearl River=17|Peconic=1f|Peekskill=1n|Pelham=1n|Penfield=r|Penn Yan=1p|Pennellville=11|Perkinsville=1e|Perry=1o|Perrysburg=4|Peru=9|Peterboro=q|Petersburg=15|Phelps=y|Philadelphia=m|Phillipsport=1g|Philmont=a|Phoenicia=1j|Phoenix=11|Piercefield=1d|Piermont=17|Pierrepont Manor=m|Piffard=p|Pike=1o|Pine Bush=z|Pine City=7|Pine Hill=1j|Pine Island=z|Pine Plains=d|Pine Valley=7|Piseco=k|Pitcher=8|Pittsford=r|Plainview=t|Plainville=x|Plattekill=1j|Plattsburgh=9|Pleasant Valley=d|Pleasantville=1n|Plessis=m|Plymouth=8|Poestenkill=15|Point Lookout=t|Poland=l|Pomona=17|Pompey=x|Pond Eddy=1g|Poplar Ridge=5|Port Byron=5|Port Chester=1n|Port Crane=3|Port Ewen=1j|Port Gibson=y|Port Henry=f|Port Jefferson=1f|Port Jefferson Station=1f|Port Jervis=z|Port Kent=f|Port Leyden=o|Port Washington=t|Portageville=1o|Porter Corners=18|Portland=6|Portlandville=12|Portville=4|Potsdam=1d|Pottersville=1k|Poughkeepsie=d|Poughquag=d|Pound Ridge=1n|Prattsburgh=1e|Prattsville=j|Preble=b|Preston Hollow=0|Prospect=w|Pulaski=11|Pulteney=1e|Pultneyville=1m|Purchase=1n|Purdys=1n|Purling=j|Putnam Station=1l|Putnam Valley=13|Pyrites=1d|Quaker Street=19|Queens Village=14|Queensbury=1k|Quogue=1f|Rainbow Lake=g|Randolph=4|Ransomville=v|Raquette Lake=k|Ravena=0|Ray Brook=f|Raymondville=1d|Reading Center=1b|Red Creek=1m|Red Hook=d|Redfield=11|Redford=9|Redwood=m|Rego Park=14|Remsen=w|Remsenburg=1f|Rensselaer=15|Rensselaer Falls=1d|Rensselaerville=0|Retsof=p|Rexford=18|Rexville=1e|Rhinebeck=d|Rhinecliff=d|Richburg=1|Richfield Springs=12|Richford=1h|Richland=11|Richmond Hill=14|Richmondville=1a|Richville=1d|Ridge=1f|Ridgewood=14|Rifton=1j|Riparius=1k|Ripley=6|Riverhead=1f|Rochester=r|Rock City Falls=18|Rock Hill=1g|Rock Stream=1p|Rock Tavern=z|Rockaway Park=14|Rockville Centre=t|Rocky Point=1f|Rodman=m|Rome=w|Romulus=1c|Ronkonkoma=1f|Roosevelt=t|Rooseveltown=1d|Roscoe=1g|Rose=1m|Roseboom=12|Rosedale=14|Rosendale=1j|Roslyn=t|Roslyn Heights=t|Rotterdam Junction=19|Round Lake=18|Round Top=j|Rouses Point=9|Roxbury=c|Ruby=1j|Rush=r|Rushford=1|Rushville=1p|Russell=1d|Rye=1n|Sabael=k|Sackets Harbor=m|Sag Harbor=1f|Sagaponack=1f|Saint Albans=14|Saint Bonaventure=4|Saint James=1f|Saint Johnsville=s|Saint Regis Falls=g|Salamanca=4|Salem=1l|Salisbury Center=l|Salisbury Mills=z|Salt Point=d|Sanborn=v|Sand Lake=15|Sandusky=4|Sandy Creek=11|Sangerfield=w|Saranac=9|Saranac Lake=g|Saratoga Springs=18|Sardinia=e|Saugerties=1j|Sauquoit=w|Savannah=1m|Savona=1e|Sayville=1f|Scarsdale=1n|Schaghticoke=15|Schenectady=19|Schenevus=12|Schodack Landing=15|Schoharie=1a|Schroon Lake=f|Schuyler Falls=9|Schuyler Lake=12|Schuylerville=18|Scio=1|Scipio Center=5|Scottsburg=p|Scottsville=r|Sea Cliff=t|Seaford=t|Selden=1f|Selkirk=0|Seneca Castle=y|Seneca Falls=1c|Severance=f|Shandaken=1j|Sharon Springs=1a|Shelter Island=1f|Shelter Island Heights=1f|Shenorock=1n|Sherburne=8|Sheridan=6|Sherman=6|Sherrill=w|Shirley=1f|Shokan=1j|Shoreham=1f|Shortsville=y|Shrub Oak=1n|Shushan=1l|Sidney=c|Sidney Center=c|Silver Bay=1k|Silver Creek=6|Silver Lake=1o|Silver Springs=1o|Sinclairville=6|Skaneateles=x|Skaneateles Falls=x|Slate Hill=z|Slaterville Springs=1i|Slingerlands=0|Sloansville=1a|Sloatsburg=17|Smallwood=1g|Smithboro=1h|Smithtown=1f|Smithville Flats=8|Smyrna=8|Sodus=1m|Sodus Point=1m|Solsville=q|Somers=1n|Sonyea=p|Sound Beach=1f|South Bethlehem=0|South Butler=1m|South Byron=i|South Cairo=j|South Colton=1d|South Dayton=4|South Fallsburg=1g|South Glens Falls=18|South Jamesport=1f|South Kortright=c|South Lima=p|South New Berlin=8|South Otselic=8|South Ozone Park=14|South Plymouth=8|South Richmond Hill=14|South Salem=1n|South Wales=e|Southampton=1f|Southfields=z|Southold=1f|Sparkill=17|Sparrow Bush=z|Speculator=k|Spencer=1h|Spencerport=r|Spencertown=a|Speonk=1f|Sprakers=s|Spring Brook=e|Spring Glen=1j|Spring Valley=17|Springfield Center=12|Springfield Gardens=14|Springville=e|Springwater=p|Staatsburg=d|Stafford=i|Stamford=c|Stanfordville=d|Stanley=y|Star Lake=1d|Staten Island=16|Steamburg=4|Stella Niagara=v|Stephentown=15|Sterling=5|Sterling Forest=z|Stillwater=18|Stittville=w|Stockton=6|Stone Ridge=1j|Stony Brook=1f|Stony Creek=1k|Stony Point=17|Stormville=d|Stottville=a|Stow=6|Stratford=h|Strykersville=1o|Stuyvesant=a|Stuyvesant Falls=a|Suffern=17|Sugar Loaf=z|Summit=1a|Summitville=1g|Sunnyside=14|Surprise=j|Swain=1|Swan Lake=1g|Sylvan Beach=w|Syosset=t|Syracuse=x|Taberg=w|Tallman=17|Tannersville=j|Tappan=17|Tarrytown=1n|Thendara=l|Theresa=m|Thiells=17|Thompson Ridge=z|Thompsonville=1g|Thornwood=1n|Thousand Island Park=m|Three Mile Bay=m|Ticonderoga=f|Tillson=1j|Tioga Center=1h|Tivoli=d|Tomkins Cove=17|Tonawanda=e|Treadwell=c|Tribes Hill=s|Troupsburg=1e|Trout Creek=c|Troy=15|Trumansburg=1i|Truxton=b|Tuckahoe=1n|Tully=x|Tunnel=3|Tupper Lake=g|Turin=o|Tuxedo Park=z|Tyrone=1b|Ulster Park=1j|Unadilla=12|Union Hill=1m|Union Springs=5|Uniondale=t|Unionville=z|Upper Jay=f|Upton=1f|Utica=w|Vails Gate=z|Valatie=a|Valhalla=1n|Valley Cottage=17|Valley Falls=15|Valley Stream=t|Van Buren Point=6|Van Etten=7|Van Hornesville=l|Varysburg=1o|Verbank=d|Vermontville=g|Vernon=w|Vernon Center=w|Verona=w|Verona Beach=w|Verplanck=1n|Versailles=4|Vestal=3|Victor=y|Victory Mills=18|Voorheesville=0|Waccabuc=1n|Waddington=1d|Wading River=1f|Wainscott=1f|Walden=z|Wales Center=e|Walker Valley=1j|Wallkill=1j|Walton=c|Walworth=1m|Wampsville=q|Wanakena=1d|Wantagh=t|Wappingers Falls=d|Warners=x|Warnerville=1a|Warrensburg=1k|Warsaw=1o|Warwick=z|Washington Mills=w|Washingtonville=z|Wassaic=d|Water Mill=1f|Waterford=18|Waterloo=1c|Waterport=10|Watertown=m|Waterville=w|Watervliet=0|Watkins Glen=1b|Waverly=1h|Wawarsing=1j|Wayland=1e|Wayne=1b|Webster=r|Weedsport=5|Wellesley Island=m|Wells=k|Wells Bridge=12|Wellsburg=7|Wellsville=1|West Babylon=1f|West Bloomfield=y|West Burlington=12|West Camp=1j|West Chazy=9|West Clarksville=1|West Coxsackie=j|West Davenport=c|West Eaton=q|West Edmeston=12|West Falls=e|West Fulton=1a|West Harrison=1n|West Haverstraw=17|West Hempstead=t|West Henrietta=r|West Hurley=1j|West Islip=1f|West Kill=j|West Lebanon=a|West Leyden=o|West Monroe=11|West Nyack=17|West Oneonta=12|West Park=1j|West Point=z|West Sand Lake=15|West Sayville=1f|West Shokan=1j|West Stockholm=1d|West Valley=4|West Winfield=l|Westbrookville=1g|Westbury=t|Westdale=w|Westerlo=0|Westernville=w|Westfield=6|Westford=12|Westhampton=1f|Westhampton Beach=1f|Westmoreland=w|Westons Mills=4|Westport=f|Westtown=z|Wevertown=1k|Whippleville=g|White Lake=1g|White Plains=1n|White Sulphur Springs=1g|Whitehall=1l|Whitesboro=w|Whitestone=14|Whitesville=1|Whitney Point=3|Willard=1c|Willet=b|Williamson=1m|Williamstown=11|Williston Park=t|Willow=1j|Willsboro=f|Willseyville=1h|Wilmington=f|Wilson=v|Windham=j|Windsor=3|Wingdale=d|Winthrop=1d|Witherbee=f|Wolcott=1m|Woodbourne=1g|Woodbury=t|Woodgate=w|Woodhaven=14|Woodhull=1e|Woodmere=t|Woodridge=1g|Woodside=14|Woodstock=1j|Worcester=12|Wurtsboro=1g|Wyandanch=1f|Wynantskill=15|Wyoming=1o|Yaphank=1f|Yonkers=1n|York=p|Yorkshire=4|Yorktown Heights=1n|Yorkville=w|Youngstown=v|Youngsville=1g|Yulan=1g'
+  },
+  OH: {
+    counties: 'Adams|Allen|Ashland|Ashtabula|Athens|Auglaize|Belmont|Brown|Butler|Carroll|Champaign|Clark|Clermont|Clinton|Columbiana|Coshocton|Crawford|Cuyahoga|Darke|Defiance|Delaware|Erie|Fairfield|Fayette|Franklin|Fulton|Gallia|Geauga|Greene|Guernsey|Hamilton|Hancock|Hardin|Harrison|Henry|Highland|Hocking|Holmes|Huron|Jackson|Jefferson|Knox|Lake|Lawrence|Licking|Logan|Lorain|Lucas|Madison|Mahoning|Marion|Medina|Meigs|Mercer|Miami|Monroe|Montgomery|Morgan|Morrow|Muskingum|Noble|Ottawa|Paulding|Perry|Pickaway|Pike|Portage|Preble|Putnam|Richland|Ross|Sandusky|Scioto|Seneca|Shelby|Stark|Summit|Trumbull|Tuscarawas|Union|Van Wert|Vinton|Warren|Washington|Wayne|Williams|Wood|Wyandot',
+    zips: 'x6h:18,1:o,1:k,1:o,1:15,1,1:27,1:18,1:a,1:b,1:15,2:18,1:15,1:k,1:o,1,1:18,1:15,2:k,1:15,1:18,2,1:o,1:18,1:15,1:27,1:18,1,1:k,1:18,2:k,1:27,1:15,3:27,1,3:a,1:27,1:m,1:a,1:15,2,4:o,1:18,1,2,2:a,1:k,1:18,2:1c,1:k,1,1:27,1:o,1,1:a,1:18,1:a,1:18,1:k,2:1r,1:27,1:a,2:18,1:o,1:k,1:a,1,1:o,1,7:18,8:1y,1:m,1:1s,2:m,1:n,1:m,2:o,1:m,1:10,1:m,1:1s,2:1y,1:1s,1,2:o,4,2,1,1:10,1:n,2:m,5:10,1:m,1:1s,1:10,2:1c,2:n,1:1c,1:10,1:1s,1,1:m,1,1:10,1:m,1:1c,1:10,1:1c,1:m,1,1:1s,1:m,1:10,2:n,2:1c,2:1s,u:o,1,4,2,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,2,1,1,4,b,9,6,2,2,1,1,7,8,4,a:1e,1,8:19,1,3:1e,1:1m,1:2f,1:1m,1:19,1,1:1m,1,1:1e,1:2f,1:19,1:1m,1:w,4:2f,1:19,1:1e,1:19,1:1m,1:1e,1:19,1:1e,1:1m,2:w,1:1e,1,1:19,1:27,1:w,1,1:19,1,1:1m,1,1:2f,5:1e,1:19,1,1:2f,1:19,16:2e,1,2:1b,1:2e,1:1z,1:1p,2:1z,2:1p,1:2e,1,2:1p,4:1z,a:1p,1:1z,1:1p,1,1:1b,1:1z,1:1p,1:2e,1:l,1:1p,1,1:2e,1:1z,1:2e,2:1p,1,1:2e,2:1p,1:2e,1,1:1p,4,1:2e,1:1p,2:2e,2,1,1:1z,1:2e,1,1,1:1p,1:1z,w:2d,1:p,2:1b,1:2d,1,4:y,1:2e,1:j,3:p,1:y,1:2d,1,1:j,1,1:p,1:2e,1:y,1,1:2e,1:j,1:y,1:1b,1:2e,1:j,1:2d,1:y,1:p,1:y,1,1:j,1:1b,3:p,1:2e,1:1b,1:2d,2:y,2:1b,1:y,1:j,1:y,1:2e,1,1:p,1:2d,1:y,1:j,1:2d,1:p,2:1b,5:2e,1:1b,1:p,2:2e,1:2d,1:1b,u,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2:2e,1:1b,3,c,h,2,2,1,2,1,1,5,1,e,1,f,2,2:1n,1,9:1o,2:6,3:1j,1:1o,1:6,1,1:1n,1:18,1:t,1,1:1o,1:t,2:1n,1:1l,2:1r,1,1:t,1,1:1n,1,1:t,2:1n,1:1r,1:18,6:1n,1:1j,1:1r,1:t,1,2:1j,2,1:t,1:1l,1:1j,1:1l,1:6,1:1r,1,1:1n,2:1r,2,1:1n,1:t,3:1n,1:t,1,4:1n,1:t,1:1o,1:t,2:1r,1,3:1j,1:1l,1:1o,3:1n,2:1j,9:1n,1:f,1:26,1:f,6,1,9:1n,1,2:f,4,2:1n,2:26,4:f,1:26,3,2:1n,1:f,1,1,1k:14,1:6,1:14,2:6,1,1:x,1:14,1:6,1:14,2:6,1:14,1:1j,1,1:6,1:14,3:e,5:14,1,1:6,1,2:14,1:1j,1:14,1:6,1,1,2,1:14,1,1:6,1:14,1:6,1:14,1,1:e,1:1j,1:6,1:14,2:6,1,1:14,1,8,1:e,1:14,1,3:6,1:e,2:14,1,1:6,1:x,1,2,1:6,4:x,2:6,1:x,1:6,1:x,2,d:1a,2:3,1,1,5,1:1a,1,5:h,4:r,1:h,1:r,1,2,2:1a,2:3,2,1:r,2:1a,1,3,1:h,1:3,3:1a,1:16,1:r,1:3,1,1:1a,1,2,1,1,1,1:24,1:16,3,1,1:r,2,1,2:24,1:3,2:h,2:r,1,1:1a,2:3,1:16,3:r,1:16,1:3,2,1,1:r,1:24,1:3,1:l,1:1a,2:16,1:3,1:16,1,1,1,2:3,2:h,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2:1f,w:h,7,2,1,1,1,1,1,2,1,1,2:1u,1,1:24,7,1:1u,1:1f,2:2c,1:1f,1:24,1:2c,4:24,1,1,1,6:2c,1:1u,1:24,1:1f,1:1u,1:1f,1:24,1,3:1u,1,1,1,7:24,1:1f,2,1,1:1u,1:1f,2,2:24,2,2,1:1u,1,4:2c,2:1u,1:1f,1,1,1:2c,2:24,2:1f,1,1,3:1u,1:24,1:2c,1:1u,d:24,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,4,1,2,5,1,12,o,2,3:1d,1:25,1,1,1:1d,1,2:e,2:25,1:1u,1,1:e,2,1:1d,1:25,1,2,2:1d,1:e,1:25,1,2:e,1:25,1:1d,1:25,1:e,1,4:1d,1:25,1,1,1,1:e,1:1d,1,1:25,1:e,1:25,3:1d,1:25,1:1d,1,1:25,1:1d,1:e,5,a:25,1:1d,2:25,8,1,1,1,1,1,4:e,1:25,1:e,1,8:1d,1,1,1,1,1,1,2,1,1,1,1,1,1,14,1a:23,5:2c,1:9,1:23,1:1d,1:11,1,1:26,1:23,1,1:9,2:11,1:2c,1:1d,1:9,1:26,1,2,1:e,1:23,1:2c,1:11,1:26,1:23,2,1:11,1:e,2:2c,1:11,1,1:9,1:23,1,2,1:9,1:2c,1:23,1,1,2,1:9,1:23,1:26,1:11,2:26,1:23,2:2c,1:11,1,1:23,1:26,2:e,1:23,1:2c,2:23,1,1:26,1:1d,3:9,1:2c,1,1:26,1,1,1,1,1,2:24,2:11,1:23,1,1:11,1:2c,2:x,2,2:26,2:x,2:23,1,1,1,1,1,1,1,1,1,1,3,4,2,1,9,5,f,h,w,3:21,2:v,1:2,2:21,2,2:12,2:1x,1:l,1:21,1:l,1:2e,1:21,2:g,2:1x,2:l,1:g,1:12,1:g,1:21,2,3:g,3:21,1:12,1:2,1:l,1:2,1:21,1:2,1:1x,1:2f,1:21,1:l,1:12,1:2,1:2f,1:12,1,2:21,1:g,1:12,1:g,1:12,2:2,1:g,1:21,1:1x,2:2,1:1x,1:2,1:21,3:l,1,3:2,1:1x,3,2:2,1:g,1:2f,1:21,4:g,1:12,1,1,b:1x,1,1,1,1,1,1,2m:u,1,1:8,1,1:2a,6:8,1,1,1,1,3,c:u,2:2a,1:u,1:2a,2,3,1,1:u,1:8,2,6,1:u,1,1:8,1:2a,1:8,1,5,1,1,1,1:2a,1,1:8,1:2a,1:8,1:1v,1:8,u:7,1:c,1,2:0,1:c,1:d,4:u,1:c,1:d,1,1:7,3,1,1:c,1:7,1:c,1:z,7:7,1,1:z,1,2,5:c,2:z,2:0,2:d,1:c,1:d,2:c,2:2a,1:c,1:7,1:z,1:c,1,1,1:d,1:c,2:2a,2:d,2,1:7,1,1:d,2:7,1:z,2:u,2:c,1:d,o:u,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1:c,1:u,1,1,1,1,1,1,1,1,1,3,4,1,1,3,1,1,1,1,2,1,1:7,2:u,3,g,2,1,2:s,1:22,1:i,1,1:s,1:22,1:s,1:1i,1:1k,1:1h,1:1v,1:1i,2:s,1:1k,1:s,1:1i,1,1:b,1:1v,1,1:1k,1:b,1:s,1:1k,1:1i,1:1k,1:i,2:1v,1:i,1,1:22,1,1:s,1:22,1:1i,1:1v,1:1i,1:22,1:b,1:1k,1,1:b,1:1k,1:i,1:1v,1:i,1:b,1:i,1,1,1:22,1:1k,2:1i,2:i,1:1i,1:22,1:1i,1:i,1:22,2,2,1:b,1,1:s,1:1i,1:b,1:1i,1,3:1k,1:1v,2:i,1:1v,1,1:1i,1:s,1,2,1:i,1:a,1:i,b:1k,1,1,1,1,1,3,1,2,1,1,1,1,1,2,1,2,1,1,2,2,1,1,1:s,1:1k,1:s,1:1k,1,2,2,1,1,7,1,9,1,a,1,5,4,2,1,8,b:b,1,1,1,1,1,2n:1y,b,1:1t,1:q,2:0,1:1y,1:0,1:17,1:q,1:13,1:29,1:q,1:1t,4:1y,1:20,1,1:q,2:1y,1:29,2:20,2:17,2:13,2:1t,1:q,1:1y,1:17,1:1t,1:1y,1:20,2:0,1:29,1:20,1,1:29,2:13,1:20,1:q,1:17,1:0,1:1t,1:20,1,6:17,2:20,1:29,1:1y,1:q,1:17,2:20,1:17,1:0,1:17,1:1y,1:20,1:1t,1:20,1:q,1,1:1t,1:17,2:1t,2:13,1:0,1:20,1:29,1:17,1:0,1:29,1:20,2:4,9,1,1:2b,1,1,1,1:4,1,2,1:1g,1:2b,2:4,1:2b,3:1o,2:2b,3:4,2:1j,1:4,4,1,1:1g,1:2b,1:1g,1:2b,1,1,4,a:1g,1:4,3,2,1:2b,1,1:1g,1,1,1,1:2b,2:1g,1:4,1,1,1:1g,1:4,2,1:1g,1:2b,2,1,1,1,c:1,1,2,1,1:5,1:1,1,1,1:w,2,1:1q,1:v,1:1w,1:v,1:1,2:5,1:1,1:1q,1:1h,4,1:1w,1:1h,2:1w,1,1:28,1:1,2:w,1,1:1w,1:28,1:v,1,1,2:w,1:1w,1:22,1:1h,2:1w,1:1q,1:1,1:1q,2:1w,1:1,1:1q,1:1w,2:v,1:w,1:1h,1:1q,1:1h,1:28,1:1w,1:5,1:1h,1:v,1,1:5,1,1,1:2e,1:1q,1:28,1:1w,1,1,2:1q,1,1:v,1:1h,1,1:5,1,1:28,1:1,1:5,1:v,1,1:28,2:1w,1:28,1:5,1,1:v,1:28,1,2s:u',
+    cities: 'Aberdeen=7|Ada=w|Adamsville=1n|Addyston=u|Adelphi=1y|Adena=14|Akron=24|Albany=4|Alexandria=18|Alger=w|Alledonia=6|Alliance=23|Alpha=s|Alvada=21|Alvordton=2d|Amanda=m|Amelia=c|Amesville=4|Amherst=1a|Amlin=o|Amsterdam=14|Andover=3|Anna=22|Ansonia=i|Antwerp=1q|Apple Creek=2c|Arcadia=v|Arcanum=i|Archbold=p|Arlington=v|Ashland=2|Ashley=k|Ashtabula=3|Ashville=1s|Athens=4|Attica=21|Atwater=1u|Augusta=9|Aurora=1u|Austinburg=3|Ava=1o|Avon=1a|Avon Lake=1a|Bainbridge=1y|Bakersville=f|Baltic=26|Baltimore=m|Bannock=6|Barberton=24|Barlow=2b|Barnesville=6|Bartlett=2b|Barton=6|Bascom=21|Batavia=c|Bath=24|Bay Village=h|Beach City=23|Beachwood=h|Beallsville=1j|Beaver=1t|Beaverdam=1|Bedford=h|Bellaire=6|Bellbrook=s|Belle Center=19|Belle Valley=1o|Bellefontaine=19|Bellevue=12|Bellville=1x|Belmont=6|Belmore=1w|Beloit=1d|Belpre=2b|Benton Ridge=v|Bentonville=0|Berea=h|Bergholz=14|Berkey=1b|Berlin=11|Berlin Center=1d|Berlin Heights=l|Bethel=c|Bethesda=6|Bettsville=21|Beverly=2b|Bidwell=q|Big Prairie=11|Birmingham=l|Blacklick=o|Bladensburg=15|Blaine=6|Blakeslee=2d|Blanchester=d|Blissfield=f|Bloomdale=2e|Bloomingburg=n|Bloomingdale=14|Bloomville=21|Blue Creek=0|Blue Rock=1n|Bluffton=1|Bolivar=26|Botkins=22|Bourneville=1y|Bowerston=x|Bowersville=s|Bowling Green=2e|Bradford=1i|Bradner=2e|Brady Lake=1u|Brecksville=h|Bremen=m|Brewster=23|Brice=o|Bridgeport=6|Brilliant=14|Brinkhaven=15|Bristolville=25|Broadview Heights=h|Broadway=27|Brookfield=25|Brookpark=h|Brookville=1k|Brownsville=18|Brunswick=1f|Bryan=2d|Buchtel=4|Buckeye Lake=18|Buckland=5|Bucyrus=g|Buffalo=t|Burbank=2c|Burghill=25|Burgoon=1z|Burkettsville=1h|Burton=r|Butler=1x|Byesville=t|Cable=a|Cadiz=x|Cairo=1|Caldwell=1o|Caledonia=1e|Cambridge=t|Camden=1v|Cameron=1j|Camp Dennison=u|Campbell=1d|Canal Fulton=23|Canal Winchester=m|Canfield=1d|Canton=23|Carbon Hill=10|Carbondale=4|Cardington=1m|Carey=2f|Carroll=m|Carrollton=9|Casstown=1i|Castalia=l|Catawba=b|Cecil=1q|Cedarville=s|Celina=1h|Centerburg=15|Chagrin Falls=h|Chandlersville=1n|Chardon=r|Charm=11|Chatfield=g|Chauncey=4|Cherry Fork=0|Chesapeake=17|Cheshire=q|Chester=1g|Chesterhill=1l|Chesterland=r|Chesterville=1m|Chickasaw=1h|Chillicothe=1y|Chilo=c|Chippewa Lake=1f|Christiansburg=a|Cincinnati=u|Circleville=1s|Clarington=1j|Clarksburg=1y|Clarksville=d|Clay Center=1p|Clayton=1k|Cleveland=h|Cleves=u|Clifton=s|Clinton=24|Cloverdale=1w|Clyde=1z|Coal Run=2b|Coalton=13|Coldwater=1h|Colerain=6|College Corner=8|Collins=12|Collinsville=8|Colton=y|Columbia Station=1a|Columbiana=e|Columbus=o|Columbus Grove=1w|Commercial Point=1s|Conesville=f|Conneaut=3|Conover=1i|Continental=1w|Convoy=28|Coolville=4|Corning=1r|Cortland=25|Coshocton=f|Covington=1i|Creola=29|Crestline=g|Creston=2c|Crooksville=1r|Croton=18|Crown City=q|Cuba=d|Cumberland=t|Curtice=1p|Custar=2e|Cutler=2b|Cuyahoga Falls=24|Cygnet=2e|Cynthiana=1t|Dalton=2c|Damascus=1d|Danville=15|Dayton=1k|De Graff=19|Decatur=7|Deerfield=1u|Deersville=x|Defiance=j|Delaware=k|Dellroy=9|Delphos=1|Delta=p|Dennison=26|Derby=1s|Derwent=t|Deshler=y|Dexter City=1o|Diamond=1u|Dillonvale=14|Dola=w|Donnelsville=b|Dorset=3|Dover=26|Doylestown=2c|Dresden=1n|Dublin=o|Dunbridge=2e|Duncan Falls=1n|Dundee=26|Dunkirk=w|Dupont=1w|East Canton=23|East Claridon=r|East Fultonham=1n|East Liberty=19|East Liverpool=e|East Palestine=e|East Rochester=e|East Sparta=23|East Springfield=14|Eastlake=16|Eaton=1v|Edgerton=2d|Edison=1m|Edon=2d|Eldorado=1v|Elgin=28|Elkton=e|Ellsworth=1d|Elmore=1p|Elyria=1a|Empire=14|Englewood=1k|Enon=b|Etna=18|Euclid=h|Evansport=j|Fairborn=s|Fairfield=8|Fairlawn=24|Fairpoint=6|Fairview=t|Farmdale=25|Farmer=j|Farmersville=1k|Fayette=p|Fayetteville=7|Feesburg=7|Felicity=c|Findlay=v|Flat Rock=21|Fleming=2b|Fletcher=1i|Flushing=6|Forest=w|Fort Jennings=1w|Fort Loramie=22|Fort Recovery=1h|Fostoria=21|Fowler=25|Frankfort=1y|Franklin=2a|Franklin Furnace=20|Frazeysburg=1n|Fredericksburg=2c|Fredericktown=15|Freeport=x|Fremont=1z|Fresno=f|Friendship=20|Fulton=1m|Fultonham=1n|Galena=k|Galion=g|Gallipolis=q|Galloway=o|Gambier=15|Garrettsville=1u|Gates Mills=h|Geneva=3|Genoa=1p|Georgetown=7|Germantown=1k|Gettysburg=i|Gibsonburg=1z|Girard=25|Glandorf=1w|Glencoe=6|Glenford=1r|Glenmont=11|Glouster=4|Gnadenhutten=26|Gomer=1|Goshen=c|Grafton=1a|Grand Rapids=2e|Grand River=16|Granville=18|Gratiot=18|Gratis=1v|Graysville=1j|Graytown=1p|Green=24|Green Camp=1e|Green Springs=21|Greenfield=z|Greenford=1d|Greentown=23|Greenville=i|Greenwich=12|Grelton=y|Grove City=o|Groveport=o|Grover Hill=1q|Guysville=4|Gypsum=1p|Hallsville=1y|Hamden=29|Hamersville=7|Hamilton=8|Hamler=y|Hammondsville=14|Hannibal=1j|Hanoverton=e|Harbor View=1b|Harpster=2f|Harrisburg=o|Harrison=u|Harrisville=x|Harrod=1|Hartford=25|Hartville=23|Harveysburg=2a|Haskins=2e|Haverhill=20|Haviland=1q|Haydenville=10|Hayesville=2|Heath=18|Hebron=18|Helena=1z|Hicksville=j|Higginsport=7|Highland=z|Hilliard=o|Hillsboro=z|Hinckley=1f|Hiram=1u|Hockingport=4|Holgate=y|Holland=1b|Hollansburg=i|Holloway=6|Holmesville=11|Homer=18|Homerville=1f|Homeworth=e|Hooven=u|Hopedale=x|Hopewell=1n|Houston=22|Howard=15|Hoytville=2e|Hubbard=25|Hudson=24|Huntsburg=r|Huntsville=19|Huron=l|Iberia=1m|Independence=h|Irondale=14|Ironton=17|Irwin=27|Isle Saint George=1p|Jackson=13|Jackson Center=22|Jacksontown=18|Jacksonville=4|Jacobsburg=6|Jamestown=s|Jasper=1t|Jefferson=3|Jeffersonville=n|Jenera=v|Jeromesville=2|Jerry City=2e|Jerusalem=1j|Jewell=j|Jewett=x|Johnstown=18|Junction City=1r|Kalida=1w|Kansas=21|Keene=f|Kelleys Island=l|Kensington=e|Kent=1u|Kenton=w|Kerr=q|Kettlersville=22|Kidron=2c|Kilbourne=k|Killbuck=11|Kimbolton=t|Kings Mills=2a|Kingston=1y|Kingsville=3|Kinsman=25|Kipling=t|Kipton=1a|Kirby=2f|Kirkersville=18|Kitts Hill=17|Kunkle=2d|La Rue=1e|Lacarne=1p|Lafayette=1|Lafferty=6|Lagrange=1a|Laings=1j|Lake Milton=1d|Lakemore=24|Lakeside Marblehead=1p|Lakeview=19|Lakeville=11|Lakewood=h|Lancaster=m|Langsville=1g|Lansing=6|Latham=1t|Latty=1q|Laura=1i|Laurelville=10|Leavittsburg=25|Lebanon=2a|Leesburg=z|Leesville=9|Leetonia=e|Leipsic=1w|Lemoyne=2e|Lewis Center=k|Lewisburg=1v|Lewistown=19|Lewisville=1j|Liberty Center=y|Lima=1|Limaville=23|Lindsey=1z|Lisbon=e|Litchfield=1f|Lithopolis=m|Little Hocking=2b|Lockbourne=1s|Lodi=1f|Logan=10|London=1c|Londonderry=1y|Long Bottom=1g|Lorain=1a|Lore City=t|Loudonville=2|Louisville=23|Loveland=c|Lowell=2b|Lowellville=1d|Lower Salem=2b|Lucas=1x|Lucasville=20|Luckey=2e|Ludlow Falls=1i|Lynchburg=z|Lynx=0|Lyons=p|Macedonia=24|Macksburg=2b|Madison=16|Magnetic Springs=27|Magnolia=23|Maineville=2a|Malaga=1j|Malinta=y|Malta=1l|Malvern=9|Manchester=0|Mansfield=1x|Mantua=1u|Maple Heights=h|Maplewood=22|Marengo=1m|Maria Stein=1h|Marietta=2b|Marion=1e|Mark Center=j|Marshallville=2c|Martel=1e|Martin=1p|Martins Ferry=6|Martinsburg=15|Martinsville=d|Marysville=27|Mason=2a|Massillon=23|Masury=25|Maumee=1b|Maximo=23|Maynard=6|Mc Arthur=29|Mc Clure=y|Mc Comb=v|Mc Cutchenville=2f|Mc Dermott=20|Mc Donald=25|Mc Guffey=w|Mcconnelsville=1l|Mechanicsburg=a|Mechanicstown=9|Medina=1f|Medway=b|Melmore=21|Melrose=1q|Mendon=1h|Mentor=16|Mesopotamia=25|Metamora=p|Miamisburg=1k|Miamitown=u|Miamiville=c|Middle Bass=1p|Middle Point=28|Middlebranch=23|Middleburg=19|Middlefield=r|Middleport=1g|Middletown=8|Midland=d|Midvale=26|Milan=l|Milford=c|Milford Center=27|Millbury=2e|Milledgeville=n|Miller City=1w|Millersburg=11|Millersport=m|Millfield=4|Milton Center=2e|Mineral City=26|Mineral Ridge=25|Minerva=23|Minford=20|Mingo=a|Mingo Junction=14|Minster=5|Mogadore=24|Monclova=1b|Monroe=8|Monroeville=12|Montezuma=1h|Montpelier=2d|Montville=r|Morral=1e|Morristown=6|Morrow=2a|Moscow=c|Mount Blanchard=v|Mount Cory=v|Mount Eaton=2c|Mount Gilead=1m|Mount Hope=11|Mount Liberty=15|Mount Orab=7|Mount Perry=1r|Mount Pleasant=14|Mount Saint Joseph=u|Mount Sterling=1c|Mount Vernon=15|Mount Victory=w|Mowrystown=z|Moxahala=1r|Munroe Falls=24|Murray City=10|Nankin=2|Napoleon=y|Nashport=1n|Nashville=11|Navarre=23|Neapolis=1b|Neffs=6|Negley=e|Nelsonville=4|Nevada=2f|Neville=c|New Albany=o|New Athens=x|New Bavaria=y|New Bloomington=1e|New Bremen=5|New Carlisle=b|New Concord=1n|New Hampshire=5|New Haven=12|New Holland=1s|New Knoxville=5|New Lebanon=1k|New Lexington=1r|New London=12|New Madison=i|New Marshfield=4|New Matamoras=2b|New Middletown=1d|New Paris=1v|New Philadelphia=26|New Plymouth=29|New Richmond=c|New Riegel=21|New Rumley=x|New Springfield=1d|New Straitsville=1r|New Vienna=d|New Washington=g|New Waterford=e|New Weston=i|Newark=18|Newbury=r|Newcomerstown=26|Newport=2b|Newton Falls=25|Newtonsville=c|Ney=j|Niles=25|North Baltimore=2e|North Bend=u|North Benton=1d|North Bloomfield=25|North Canton=23|North Fairfield=12|North Georgetown=e|North Hampton=b|North Jackson=1d|North Kingsville=3|North Lawrence=23|North Lewisburg=a|North Lima=1d|North Olmsted=h|North Ridgeville=1a|North Robinson=g|North Royalton=h|North Star=i|Northfield=24|Northwood=2e|Norwalk=12|Norwich=1n|Nova=2|Novelty=r|Oak Harbor=1p|Oak Hill=13|Oakwood=1q|Oberlin=1a|Oceola=g|Ohio City=28|Okeana=8|Okolona=y|Old Fort=21|Old Washington=t|Olmsted Falls=h|Ontario=1x|Orangeville=25|Oregon=1b|Oregonia=2a|Orient=1s|Orrville=2c|Orwell=3|Osgood=i|Ostrander=k|Ottawa=1w|Ottoville=1w|Otway=20|Overpeck=8|Owensville=c|Oxford=8|Painesville=16|Palestine=i|Pandora=1w|Paris=23|Parkman=r|Pataskala=18|Patriot=q|Paulding=1q|Payne=1q|Pedro=17|Peebles=0|Pemberton=22|Pemberville=2e|Peninsula=24|Perry=16|Perrysburg=2e|Perrysville=2|Petersburg=1d|Pettisville=p|Phillipsburg=1k|Philo=1n|Pickerington=m|Piedmont=6|Pierpont=3|Piketon=1t|Piney Fork=14|Pioneer=2d|Piqua=1i|Pitsburg=i|Plain City=1c|Plainfield=f|Pleasant City=t|Pleasant Hill=1i|Pleasant Plain=2a|Pleasantville=m|Plymouth=1x|Polk=2|Pomeroy=1g|Port Clinton=1p|Port Jefferson=22|Port Washington=26|Port William=d|Portage=2e|Portland=1g|Portsmouth=20|Potsdam=1i|Powell=k|Powhatan Point=6|Proctorville=17|Prospect=1e|Put In Bay=1p|Quaker City=t|Quincy=19|Racine=1g|Radnor=k|Randolph=1u|Rarden=20|Ravenna=1u|Rawson=v|Ray=29|Rayland=14|Raymond=27|Reedsville=1g|Reesville=d|Reno=2b|Republic=21|Reynoldsburg=o|Richfield=24|Richmond=14|Richmond Dale=1y|Richwood=27|Ridgeville Corners=y|Ridgeway=w|Rio Grande=q|Ripley=7|Risingsun=2e|Rittman=2c|Robertsville=23|Rock Camp=17|Rock Creek=3|Rockbridge=10|Rockford=1h|Rocky Ridge=1p|Rocky River=h|Rogers=e|Rome=3|Rootstown=1u|Roseville=1n|Rosewood=a|Ross=8|Rossburg=i|Rossford=2e|Roundhead=w|Rudolph=2e|Rushsylvania=19|Rushville=m|Russells Point=19|Russellville=7|Russia=22|Rutland=1g|Sabina=d|Saint Clairsville=6|Saint Henry=1h|Saint Johns=5|Saint Louisville=18|Saint Marys=5|Saint Paris=a|Salem=e|Salesville=t|Salineville=e|Sandusky=l|Sandyville=26|Sarahsville=1o|Sardinia=7|Sardis=1j|Savannah=2|Scio=x|Scioto Furnace=20|Scott=28|Scottown=17|Seaman=0|Sebring=1d|Sedalia=1c|Senecaville=t|Seven Mile=8|Seville=1f|Shade=4|Shadyside=6|Shandon=8|Sharon Center=1f|Sharpsburg=4|Shauck=1m|Shawnee=1r|Sheffield Lake=1a|Shelby=1x|Sherrodsville=9|Sherwood=j|Shiloh=1x|Shreve=2c|Sidney=22|Sinking Spring=z|Smithfield=14|Smithville=2c|Solon=h|Somerdale=26|Somerset=1r|Somerville=8|South Bloomingville=10|South Charleston=b|South Lebanon=2a|South Point=17|South Salem=1y|South Solon=1c|South Vienna=b|South Webster=20|Southington=25|Sparta=1m|Spencer=1f|Spencerville=1|Spring Valley=s|Springboro=2a|Springfield=b|Stafford=1j|Sterling=2c|Steubenville=14|Stewart=4|Stillwater=26|Stockdale=1t|Stockport=1l|Stone Creek=26|Stony Ridge=2e|Stout=20|Stoutsville=m|Stow=24|Strasburg=26|Stratton=14|Streetsboro=1u|Strongsville=h|Struthers=1d|Stryker=2d|Sugar Grove=m|Sugarcreek=26|Sullivan=2|Sulphur Springs=g|Summerfield=1o|Summit Station=18|Summitville=e|Sunbury=k|Swanton=p|Sycamore=2f|Sylvania=1b|Syracuse=1g|Tallmadge=24|Tarlton=1s|Terrace Park=u|The Plains=4|Thompson=r|Thornville=1r|Thurman=q|Thurston=m|Tiffin=21|Tiltonsville=14|Tipp City=1i|Tippecanoe=x|Tiro=g|Toledo=1b|Tontogany=2e|Toronto=14|Tremont City=b|Trenton=8|Trimble=4|Trinway=1n|Troy=1i|Tuppers Plains=1g|Tuscarawas=26|Twinsburg=24|Uhrichsville=26|Union City=i|Union Furnace=10|Uniontown=24|Unionville=3|Unionville Center=27|Uniopolis=5|Upper Sandusky=2f|Urbana=a|Utica=18|Valley City=1f|Van Buren=v|Van Wert=28|Vandalia=1k|Vanlue=v|Vaughnsville=1w|Venedocia=28|Vermilion=l|Verona=1v|Versailles=i|Vickery=1z|Vienna=25|Vincent=2b|Vinton=q|Wadsworth=1f|Wakefield=1t|Wakeman=12|Walbridge=2e|Waldo=1e|Walhonding=f|Walnut Creek=11|Wapakoneta=5|Warnock=6|Warren=25|Warsaw=f|Washington Court House=n|Washingtonville=e|Waterford=2b|Waterloo=17|Watertown=2b|Waterville=1b|Wauseon=p|Waverly=1t|Wayland=1u|Wayne=2e|Waynesburg=23|Waynesfield=5|Waynesville=2a|Wellington=1a|Wellston=13|Wellsville=e|West Alexandria=1v|West Chester=8|West Elkton=1v|West Farmington=25|West Jefferson=1c|West Lafayette=f|West Liberty=19|West Manchester=1v|West Mansfield=19|West Millgrove=2e|West Milton=1i|West Point=e|West Portsmouth=20|West Salem=2c|West Union=0|West Unity=2d|Westerville=o|Westfield Center=1f|Westlake=h|Weston=2e|Westville=a|Wharton=2f|Wheelersburg=20|Whipple=2b|White Cottage=1n|Whitehouse=1b|Wickliffe=16|Wilberforce=s|Wilkesville=29|Willard=12|Williamsburg=c|Williamsfield=3|Williamsport=1s|Williamstown=v|Williston=1p|Willoughby=16|Willow Wood=17|Willshire=28|Wilmington=d|Wilmot=23|Winchester=0|Windham=1u|Windsor=3|Winesburg=11|Wingett Run=2b|Winona=e|Wolf Run=14|Woodsfield=1j|Woodstock=a|Woodville=1z|Wooster=2c|Wren=28|Xenia=s|Yellow Springs=s|Yorkshire=i|Yorkville=14|Youngstown=1d|Zaleski=29|Zanesfield=19|Zanesville=1n|Zoar=26'
+  },
+  OK: {
+    counties: 'Adair|Alfalfa|Atoka|Beaver|Beckham|Blaine|Bryan|Caddo|Canadian|Carter|Cherokee|Choctaw|Cimarron|Cleveland|Coal|Comanche|Cotton|Craig|Creek|Custer|Delaware|Dewey|Ellis|Garfield|Garvin|Grady|Grant|Greer|Harmon|Harper|Haskell|Hughes|Jackson|Jefferson|Johnston|Kay|Kingfisher|Kiowa|Latimer|Le Flore|Lincoln|Logan|Love|Major|Marshall|Mayes|McClain|McCurtain|McIntosh|Murray|Muskogee|Noble|Nowata|Okfuskee|Oklahoma|Okmulgee|Osage|Ottawa|Pawnee|Payne|Pittsburg|Pontotoc|Pottawatomie|Pushmataha|Roger Mills|Rogers|Seminole|Sequoyah|Stephens|Texas|Tillman|Tulsa|Wagoner|Washington|Washita|Woods|Woodward',
+    zips: '1kbt:7,1:p,1:1i,1:p,1:7,1,1:1i,1,1:7,1:1a,1:p,1:1i,1,1:8,1:7,1:10,1:7,1:p,1:d,1:1i,1:22,1:8,1:p,1:22,1:1i,1:d,1:15,1,1:7,1:1d,1:1a,1:1d,1:7,1:1i,2:8,2:7,1:1i,1:5,1:11,1:7,1:5,1:15,1:1i,2:7,1,1:1i,1:15,1:d,1:o,1:7,1:1i,1:1w,1:15,1:o,1:15,1:p,2:1f,1:11,1:15,1:8,1:1a,1:1i,1:p,1:d,1,1,1,1,1:15,1:o,1,2:1f,1:8,1:p,1:1a,2:p,1:1i,1,1:8,1:1d,3:p,1:8,2:p,1:1a,2,1:j,1:1i,1:o,1:8,2:1i,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,2:d,1:1i,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1:d,2:1i,1,1,1:d,2:1i,2,1:d,2:1i,1:d,2:1i,3,1,5,1,4,1,4,1,1,5p:9,1,1,m:1w,5:16,2:y,1:o,1:1w,1:9,1,1,1,1:18,1,1:16,1:1w,1:9,1:o,2:18,1:y,1:16,1:6,1:y,3:16,2:y,1:x,2:9,1:16,1:y,1,2:9,i,6,1,3:1w,a:f,1,1,2,1,1,d:x,1:w,1,1,3,1:f,1,1:1w,1:1y,1:g,1:w,1:1w,1,2,1:w,1:f,1:w,1:f,1,1:1y,1:f,1:s,2:1y,1:r,1:x,1:w,1:s,1:1y,1:f,1:1y,1:r,1:1y,1:w,1:f,1,1:11,1:w,1:x,1:g,2:11,1:x,1:11,1:f,1:g,1:x,1:1y,1:s,1:g,1:x,s:j,j,2:22,2,1:j,1:22,1:4,1:1s,4:22,6:1s,1:j,2:22,1:1s,2:4,1,1:l,1:22,1:4,2:1s,1:11,3:l,1:11,3:l,1,1:1s,1:22,1:4,1:l,1:22,2:1s,1:l,1:4,1:j,4:r,s:n,1,1,2,1,a:1,1:23,1:17,1:1,1:n,2:1,2:5,2:1,1:n,1:1,1:17,1:n,1:23,2:n,1:10,1:n,1,1:17,1:n,1:1,2,1:10,1:n,1:5,2:23,1:17,2:1,1:10,3:n,1,1:5,1:10,1:1f,1:q,1,1:17,1:q,1:10,1:5,1:10,2:q,2:17,2:5,1:q,1:5,1:n,s:24,1,u:m,2:t,1:l,3:17,2:m,1:24,1:23,1:m,1:3,4:t,3,1:24,1,2:t,2:24,1:m,1:l,1:23,15:1x,u:3,1,1:c,4,1:3,1:1x,3,2,1,1:c,1,2:1x,1:3,1:1x,1e:1k,1,1:21,1,1,1,2:1z,2:i,1:1z,1,1,1:20,1:1t,1,1,1,1:20,1:1m,1:1z,1:21,1:1n,3:14,1:1g,1:i,1:21,1:i,1:1t,1:1n,1:1z,1:1m,1:1k,1:1t,1:1z,1:1m,1:i,2,1:1g,1:1z,1:i,1:1m,1:i,1,1:1g,2:1z,1:21,1:i,1:1t,1:1k,1:1z,1:1k,2:1m,1:1n,1:1k,1:21,1:1n,1:1z,3:i,1,1,2:1k,1:i,1:1g,1:1z,1:1n,1,1,1,1,1:14,1:1t,1:1m,1:21,1:1g,1:1k,1:1n,g:1z,1,1,1,1,1,1,1,2,2,2,1,1,1,2,1,1,5,1:1k,1:1z,1,1,1:i,1:1z,1,1,1,1,1,4,4,1,1,1,1,1,2,1,2,1,1,1,1,a,1,1,1,a,4,1,5,1,30:h,t:19,1:1l,1:h,1,2:1l,2:19,1:k,1:1l,1:19,2:k,1:1l,1:k,1,1,1,2:19,1,2,2:1l,1,3,1:k,1:1l,1:19,1,1:1l,1:19,1,1,1,1:k,1:h,1:1l,v:1e,1,1,i:1j,1:1e,1,2:1o,1:1c,1:a,1:1e,1:20,1:1o,1:1j,1:1c,2:1e,1:1v,1:1e,1:1j,1:1c,1:1e,1:u,1:a,1:1o,2:a,1:1j,1:20,1:1j,3:1e,1:a,1,2:20,1:1e,1:1j,1:0,1:20,1:1c,1:1j,1:1c,1:u,1:1e,1:a,1,2:20,1:1e,1,1,1:a,1:u,5:20,o:1o,1,j:1r,1:1o,1:1r,2:2,3:1o,1,1:y,1:v,2:2,1:e,1,1:1r,2:e,2:2,3:1r,2:12,1:1o,1,2:13,3:u,1:1o,1,1:2,1:e,1:1r,1,1:12,1:1o,1,1:1r,1:12,2:1o,2:1r,2:2,1:v,1:13,1:e,2:1r,2:1o,1:13,1:12,n:z,1,2,q:1f,1:z,1,1:1k,3:q,1:1k,3:n,1:z,2:q,1:1f,2:z,1,3:1m,1:1f,1:1k,1:z,1c:6,1,i,1,1:1b,1:6,1:1b,2:6,1:b,1:1b,1:6,1,1,2,1:1b,1:b,1:1b,1,1:b,2:1b,1:6,2:b,2:1b,2:6,1,2:1b,2,1:6,1:1b,1,1:b,3,1,1,3:1b,2,z:1q,1,2,e:1u,2:1p,1,3:14,1:1p,1:1q,1:v,2:1h,1:1u,1:1a,1:14,1:1h,1:14,2:y,1:1u,2:v,1:1q,2:1p,1,1,1:1c,3:v,1:1u,1:v,1:1q,1,2,1:14,1:y,1:1i,2:1h,1,4:14,1:1p,1:1q,1:1u,1,1:14,2:1p,1:o,1:1q,2:14,3:1q,2:1h,1:14,2:v,1:1u,h:13,1,s,1:0,1:13,3,1:1v,1:13,2,1,1:u,1:13,1:u,1,1:1v,1,1:13,1:1v,1:13,2,2,1:1v,1,1:13,1:1b,2:13,1:0,2:1v,1:1b,1:0,1,1:13',
+    cities: 'Achille=6|Ada=1p|Adair=19|Adams=1x|Addington=x|Afton=1l|Agra=14|Albany=6|Albert=7|Albion=1r|Alderson=1o|Alex=p|Aline=1|Allen=1p|Altus=w|Altus Afb=w|Alva=23|Amber=p|Ames=17|Amorita=1|Anadarko=7|Antlers=1r|Apache=7|Arapaho=j|Arcadia=1i|Ardmore=9|Arkoma=13|Arnett=m|Asher=1q|Atoka=2|Atwood=v|Avant=1k|Balko=3|Barnsdall=1k|Bartlesville=21|Battiest=1b|Beaver=3|Beggs=1j|Bennington=6|Bessie=22|Bethany=1i|Bethel=1b|Big Cabin=h|Billings=1f|Binger=7|Bison=n|Bixby=1z|Blackwell=z|Blair=w|Blanchard=1a|Blanco=1o|Blocker=1o|Bluejacket=h|Boise City=c|Bokchito=6|Bokoshe=13|Boley=1h|Boswell=b|Bowlegs=1u|Boynton=1e|Bradley=p|Braggs=1e|Braman=z|Bristow=i|Broken Arrow=1z|Broken Bow=1b|Bromide=y|Buffalo=t|Bunch=0|Burbank=1k|Burlington=1|Burneyville=16|Burns Flat=22|Butler=j|Byars=1a|Cache=f|Caddo=6|Calera=6|Calumet=8|Calvin=v|Camargo=l|Cameron=13|Canadian=1o|Caney=2|Canton=5|Canute=22|Cardin=1l|Carmen=1|Carnegie=7|Carney=14|Carrier=n|Carter=4|Cartwright=6|Cashion=10|Castle=1h|Catoosa=1t|Cement=7|Centrahoma=e|Chandler=14|Chattanooga=f|Checotah=1c|Chelsea=1t|Cherokee=1|Chester=17|Cheyenne=1s|Chickasha=p|Choctaw=1i|Chouteau=19|Claremore=1t|Clarita=e|Clayton=1r|Cleo Springs=17|Cleveland=1m|Clinton=j|Coalgate=e|Colbert=6|Colcord=k|Coleman=y|Collinsville=1z|Colony=22|Comanche=1w|Commerce=1l|Concho=8|Connerville=y|Cookson=a|Copan=21|Cordell=22|Corn=22|Council Hill=1e|Countyline=1w|Covington=n|Coweta=20|Coyle=15|Crawford=1s|Crescent=15|Cromwell=1u|Crowder=1o|Cushing=1n|Custer City=j|Cyril=7|Dacoma=23|Daisy=2|Davenport=14|Davidson=1y|Davis=1d|Deer Creek=q|Delaware=1g|Depew=i|Devol=g|Dewar=1j|Dewey=21|Dibble=1a|Dill City=22|Disney=19|Dougherty=1d|Douglas=n|Dover=10|Drummond=n|Drumright=i|Duke=w|Duncan=1w|Durant=6|Durham=1s|Dustin=v|Eagletown=1b|Eakly=7|Earlsboro=1q|Edmond=1i|El Reno=8|Eldorado=w|Elgin=f|Elk City=4|Elmer=w|Elmore City=o|Enid=n|Erick=4|Eucha=k|Eufaula=1c|Fairfax=1k|Fairland=1l|Fairmont=n|Fairview=17|Fanshawe=13|Fargo=m|Faxon=f|Fay=l|Felt=c|Finley=1r|Fittstown=1p|Fitzhugh=1p|Fletcher=f|Forgan=3|Fort Cobb=7|Fort Gibson=1e|Fort Sill=f|Fort Supply=24|Fort Towson=b|Foss=22|Foster=1w|Fox=9|Foyil=1t|Francis=1p|Frederick=1y|Freedom=23|Gage=m|Gans=1v|Garber=n|Garvin=1b|Gate=3|Geary=5|Gene Autry=9|Geronimo=f|Glencoe=1n|Glenpool=1z|Golden=1b|Goltry=1|Goodwell=1x|Gore=1v|Gotebo=11|Gould=s|Gowen=12|Gracemont=7|Graham=9|Grandfield=1y|Granite=r|Grant=b|Greenfield=5|Grove=k|Guthrie=15|Guymon=1x|Haileyville=1o|Hallett=1m|Hammon=1s|Hanna=1c|Hardesty=1x|Harrah=1i|Hartshorne=1o|Haskell=1e|Hastings=x|Haworth=1b|Headrick=w|Healdton=9|Heavener=13|Helena=1|Hendrix=6|Hennepin=o|Hennessey=10|Henryetta=1j|Hillsdale=n|Hinton=7|Hitchcock=5|Hitchita=1c|Hobart=11|Hodgen=13|Holdenville=v|Hollis=s|Hollister=1y|Hominy=1k|Honobia=13|Hooker=1x|Hopeton=23|Howe=13|Hoyt=u|Hugo=b|Hulbert=a|Hunter=n|Hydro=7|Idabel=1b|Indiahoma=f|Indianola=1o|Inola=1t|Isabella=17|Jay=k|Jenks=1z|Jennings=1m|Jet=1|Jones=1i|Kansas=k|Kaw City=z|Kellyville=i|Kemp=6|Kenefic=6|Kenton=c|Keota=u|Ketchum=19|Keyes=c|Kiefer=i|Kingfisher=10|Kingston=18|Kinta=u|Kiowa=1o|Konawa=1u|Krebs=1o|Kremlin=n|Lahoma=n|Lamar=v|Lamont=q|Lane=2|Langley=19|Langston=15|Laverne=t|Lawton=f|Lebanon=18|Leedey=l|Leflore=13|Lehigh=e|Lenapah=1g|Leon=16|Leonard=1z|Lequire=u|Lexington=d|Lindsay=o|Loco=1w|Locust Grove=19|Lone Grove=9|Lone Wolf=11|Longdale=5|Lookeba=7|Loveland=1y|Loyal=10|Lucien=1f|Luther=1i|Macomb=1q|Madill=18|Manchester=q|Mangum=r|Manitou=1y|Mannford=i|Mannsville=y|Maramec=1m|Marble City=1v|Marietta=16|Marland=1f|Marlow=1w|Marshall=15|Martha=w|Maud=1q|May=t|Maysville=o|Mcalester=1o|Mccurtain=u|Mcloud=1q|Mead=6|Medford=q|Medicine Park=f|Meeker=14|Meers=f|Meno=17|Meridian=15|Miami=1l|Milburn=y|Milfay=i|Mill Creek=y|Millerton=1b|Minco=p|Moffett=1v|Monroe=13|Moodys=a|Mooreland=24|Morris=1j|Morrison=1f|Mounds=i|Mountain Park=11|Mountain View=11|Moyers=1r|Muldrow=1v|Mulhall=15|Muse=13|Muskogee=1e|Mustang=8|Mutual=24|Nardin=z|Nash=q|Nashoba=1r|Newalla=1i|Newcastle=1a|Newkirk=z|Nicoma Park=1i|Ninnekah=p|Noble=d|Norman=d|North Miami=1l|Nowata=1g|Oakhurst=1z|Oaks=k|Oakwood=l|Ochelata=21|Oilton=i|Okarche=10|Okay=20|Okeene=5|Okemah=1h|Oklahoma City=1i|Okmulgee=1j|Oktaha=1e|Olustee=w|Omega=10|Oologah=1t|Orlando=15|Osage=1k|Oscar=x|Overbrook=16|Owasso=1z|Paden=1h|Panama=13|Panola=12|Paoli=o|Park Hill=a|Pauls Valley=o|Pawhuska=1k|Pawnee=1m|Peggs=a|Perkins=1n|Perry=1f|Picher=1l|Pickens=1b|Piedmont=8|Pittsburg=1o|Platter=6|Pocasset=p|Pocola=13|Ponca City=z|Pond Creek=q|Porter=20|Porum=1e|Poteau=13|Prague=14|Preston=1j|Proctor=0|Prue=1k|Pryor=19|Purcell=1a|Putnam=l|Quapaw=1l|Quinton=1o|Ralston=1m|Ramona=21|Randlett=g|Ratliff City=9|Rattan=1r|Ravia=y|Red Oak=12|Red Rock=1f|Redbird=20|Rentiesville=1c|Reydon=1s|Ringling=x|Ringold=1b|Ringwood=17|Ripley=1n|Rocky=22|Roff=1p|Roland=1v|Roosevelt=11|Rose=19|Rosston=t|Rufe=1b|Rush Springs=p|Ryan=x|S Coffeyville=1g|Saint Louis=1q|Salina=19|Sallisaw=1v|Sand Springs=1z|Sapulpa=i|Sasakwa=1u|Savanna=1o|Sawyer=b|Sayre=4|Schulter=1j|Seiling=l|Seminole=1u|Sentinel=22|Shady Point=13|Shamrock=i|Sharon=24|Shattuck=m|Shawnee=1q|Shidler=1k|Skiatook=1k|Slick=i|Smithville=1b|Snow=1r|Snyder=11|Soper=b|Southard=5|Sparks=14|Spavinaw=19|Spencer=1i|Spencerville=b|Sperry=1z|Spiro=13|Springer=9|Sterling=f|Stidham=1c|Stigler=u|Stillwater=1n|Stilwell=0|Stonewall=1p|Strang=19|Stratford=o|Stringtown=2|Stroud=14|Stuart=v|Sulphur=1d|Sweetwater=1s|Swink=b|Taft=1e|Tahlequah=a|Talala=1t|Talihina=13|Taloga=l|Tatums=9|Tecumseh=1q|Temple=g|Terlton=1m|Terral=x|Texhoma=1x|Texola=4|Thackerville=16|Thomas=j|Tipton=1y|Tishomingo=y|Tonkawa=z|Tryon=14|Tulsa=1z|Tupelo=e|Turpin=3|Tuskahoma=1r|Tussy=9|Tuttle=p|Twin Oaks=k|Tyrone=1x|Union City=8|Valliant=1b|Velma=1w|Vera=21|Verden=p|Vian=1v|Vici=l|Vinita=h|Vinson=s|Wagoner=20|Wainwright=1e|Wakita=q|Walters=g|Wanette=1q|Wann=1g|Wapanucka=y|Wardville=1o|Warner=1e|Washington=1a|Watonga=5|Watson=1b|Watts=0|Waukomis=n|Waurika=x|Wayne=1a|Waynoka=23|Weatherford=j|Webbers Falls=1e|Welch=h|Weleetka=1h|Welling=a|Wellston=14|Westville=0|Wetumka=v|Wewoka=1u|Wheatland=1i|Whitefield=u|Whitesboro=13|Wilburton=12|Willow=r|Wilson=9|Wister=13|Woodward=24|Wright City=1b|Wyandotte=1l|Wynnewood=o|Wynona=1k|Yale=1n|Yukon=8'
+  },
+  OR: {
+    counties: 'Baker|Benton|Clackamas|Clatsop|Columbia|Coos|Crook|Curry|Deschutes|Douglas|Gilliam|Grant|Harney|Hood River|Jackson|Jefferson|Josephine|Klamath|Lake|Lane|Lincoln|Linn|Malheur|Marion|Morrow|Multnomah|Polk|Sherman|Tillamook|Umatilla|Union|Wallowa|Wasco|Washington|Wheeler|Yamhill',
+    zips: '22uh:w,1:n,1:x,1:2,1:x,1,1,1,1:2,1:p,1:2,2,1:d,1:2,1:4,1:2,1:4,1:p,1:n,1:w,1:2,1,1:p,2:n,1:2,1,1:r,1:p,1:d,1:n,1:r,1:2,1,1,1:w,1:2,1:r,1:w,1:d,1:2,2:d,1:2,3:4,1:2,1:r,1:4,2,1,1:2,1:4,1:w,1,2:p,2:x,1:w,1:4,1:r,2:2,1,2,1:n,4:x,1,1,1,1,1:p,6,3:2,c:z,1:3,1,3:x,1:s,1,1:x,1:3,1:z,1:s,1:x,1:z,1,1:x,1,1:s,1:x,2:3,1:s,1:x,1,1,2:z,1,1:x,1:s,1,1:z,1:x,1:s,1,1,1:n,1:3,2:x,1:s,2,1:x,1:3,1,1:s,1:z,1:s,1g:p,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1:2,1:x,1,1,2:p,1,1:x,1:p,1,1,1,3,2,1,1,2,8,1,1,1,1,2,2,8,1:2,1,1,b:p,1:x,1:p,1,3,4,1:x,1:p,1,1,2,2:x,3:n,1,1,1:q,1:n,1,1,1,1,1,1,1,1,1,3,4:l,1,2:1,1:n,1:1,1:l,2,1:1,1,2,2:l,1,2:q,1:1,2:k,1:n,1:k,1:q,1:l,1:n,1:q,1:l,2:n,1:q,1:n,3:l,2:k,1:l,2,1:q,1:n,2:k,1,1,1,1,1,1:1,1:q,2:n,1:l,1:n,1:k,1:l,1:z,2:k,1:n,2,1,1,1:l,2:k,1:l,1:k,1,1:n,2:k,2:z,5:j,1,1,1,1,1:7,1:5,1:j,1,1:9,1:5,1:j,1,1:5,1:7,1:9,1,2:j,1:5,3,1:j,2,3:9,1:j,1,1:9,2:j,1:9,1,1:j,1,1,1,1:9,1,1,1:7,2:l,1:9,1:j,1:5,1:7,1:j,1,1,1,1,1:1,1:9,1:5,1,2:j,1:9,1:j,1:7,1,1:5,1:9,2,1,1,2,2:j,1:7,1:j,1,1:9,1:j,1:9,3,2,1:j,1,1,1,1:7,1:j,1,1:9,1,1,1:g,1:k,1:9,2:e,1,1,1,g,2,1:g,1:e,1,1:g,1,1,2:e,1:g,1,1,1,1:e,1,1,1:g,1:e,1,1,2:g,1,1l:h,1,1,1,g:i,1:h,1,1,1,1,1,1,3:i,2:h,1,1,1:i,1,1,1,1:h,1:i,1,1o:8,1,1,4,1,1,1:c,1:f,1:8,8:c,1,1,8:f,1:h,1:c,1:h,1:f,1:i,1:c,1:h,1:c,1:8,2:f,9:y,1:6,1,1,1,2:8,2:c,1:8,1,1:f,14:t,9,2:a,1:t,1:0,3:b,1:o,1:0,1:b,3:a,1:u,1:b,1:t,1:u,1:v,2:y,3:0,1,1:t,1:o,1:0,1:t,1:o,1:0,1:u,1:v,1:o,1,1:b,1:v,2:b,2:u,6:b,1:v,2:t,2:a,1:t,2:b,1,2:u,1:t,1:b,1:0,3:b,1:y,1:t,1:u,1:0,3:t,2,1:u,1:0,1:v,1:t,f:m,1,1,1:c,1:0,1:m,1:0,1:m,1,1,1,2,1,3,1,2',
+    cities: 'Adams=t|Adel=i|Adrian=m|Agness=7|Albany=l|Allegany=5|Alsea=1|Alvadore=j|Amity=z|Antelope=w|Arch Cape=3|Arlington=a|Arock=m|Ashland=e|Ashwood=f|Astoria=3|Athena=t|Aumsville=n|Aurora=n|Azalea=9|Baker City=0|Bandon=5|Banks=x|Bates=b|Bay City=s|Beatty=h|Beaver=s|Beavercreek=2|Beaverton=x|Bend=8|Blachly=j|Blodgett=1|Blue River=j|Bly=h|Boardman=o|Bonanza=h|Boring=2|Bridal Veil=p|Bridgeport=0|Brightwood=2|Broadbent=5|Brogan=m|Brookings=7|Brothers=8|Brownsville=l|Burns=c|Butte Falls=e|Buxton=x|Camas Valley=9|Camp Sherman=f|Canby=2|Cannon Beach=3|Canyon City=b|Canyonville=9|Carlton=z|Cascade Locks=d|Cascadia=l|Cave Junction=g|Central Point=e|Chemult=h|Cheshire=j|Chiloquin=h|Christmas Valley=i|Clackamas=2|Clatskanie=4|Cloverdale=s|Colton=2|Columbia City=4|Condon=a|Coos Bay=5|Coquille=5|Corbett=p|Cornelius=x|Corvallis=1|Cottage Grove=j|Cove=u|Crabtree=l|Crane=c|Crater Lake=h|Crawfordsville=l|Crescent=h|Creswell=j|Culver=f|Dairy=h|Dallas=q|Damascus=2|Days Creek=9|Dayton=z|Dayville=b|Deadwood=j|Deer Island=4|Depoe Bay=k|Detroit=n|Dexter=j|Diamond=c|Dillard=9|Donald=n|Dorena=j|Drain=9|Drewsey=c|Dufur=w|Dundee=z|Durkee=0|Eagle Creek=2|Eagle Point=e|Echo=t|Eddyville=k|Elgin=u|Elkton=9|Elmira=j|Enterprise=v|Estacada=2|Eugene=j|Fairview=p|Fall Creek=j|Falls City=q|Fields=c|Florence=j|Forest Grove=x|Fort Klamath=h|Fort Rock=i|Fossil=y|Foster=l|Frenchglen=c|Gales Creek=x|Gardiner=9|Garibaldi=s|Gaston=x|Gates=n|Gervais=n|Gilchrist=h|Gladstone=2|Glendale=9|Gleneden Beach=k|Glide=9|Gold Beach=7|Gold Hill=e|Government Camp=2|Grand Ronde=q|Grants Pass=g|Grass Valley=r|Gresham=p|Haines=0|Halfway=0|Halsey=l|Hammond=3|Happy Valley=p|Harper=m|Harrisburg=l|Hebo=s|Helix=t|Heppner=o|Hereford=0|Hermiston=t|Hillsboro=x|Hines=c|Hood River=d|Hubbard=n|Huntington=0|Idanha=n|Idleyld Park=9|Imbler=u|Imnaha=v|Independence=q|Ione=o|Ironside=m|Irrigon=o|Jacksonville=e|Jamieson=m|Jefferson=n|John Day=b|Jordan Valley=m|Joseph=v|Junction City=j|Juntura=m|Keizer=n|Keno=h|Kent=r|Kerby=g|Kimberly=b|Klamath Falls=h|La Grande=u|La Pine=8|Lafayette=z|Lake Oswego=2|Lakeside=5|Lakeview=i|Langlois=7|Lebanon=l|Lexington=o|Lincoln City=k|Logsden=k|Long Creek=b|Lorane=j|Lostine=v|Lowell=j|Lyons=l|Madras=f|Malin=h|Manning=x|Manzanita=s|Mapleton=j|Marcola=j|Marylhurst=2|Maupin=w|Mcminnville=z|Meacham=t|Medford=e|Mehama=n|Merlin=g|Merrill=h|Midland=h|Mikkalo=a|Mill City=l|Milton Freewater=t|Mitchell=y|Molalla=2|Monmouth=q|Monroe=1|Monument=b|Moro=r|Mosier=w|Mount Angel=n|Mount Hood Parkdale=d|Mount Vernon=b|Mulino=2|Murphy=g|Myrtle Creek=9|Myrtle Point=5|Nehalem=s|Neotsu=k|Neskowin=s|Netarts=s|New Pine Creek=i|Newberg=z|Newport=k|North Bend=5|North Plains=x|North Powder=u|Noti=j|Nyssa=m|O Brien=g|Oakland=9|Oakridge=j|Oceanside=s|Odell=d|Ontario=m|Ophir=7|Oregon City=2|Otis=k|Otter Rock=k|Oxbow=0|Pacific City=s|Paisley=i|Paulina=6|Pendleton=t|Philomath=1|Phoenix=e|Pilot Rock=t|Pleasant Hill=j|Plush=i|Port Orford=7|Portland=p|Post=6|Powell Butte=6|Powers=5|Prairie City=b|Princeton=c|Prineville=6|Prospect=e|Rainier=4|Redmond=8|Reedsport=9|Rhododendron=2|Richland=0|Rickreall=q|Riddle=9|Riley=c|Riverside=m|Rockaway Beach=s|Rogue River=e|Roseburg=9|Rufus=r|Saint Benedict=n|Saint Helens=4|Saint Paul=n|Salem=n|Sandy=2|Scappoose=4|Scio=l|Scotts Mills=n|Scottsburg=9|Seal Rock=k|Seaside=3|Selma=g|Seneca=b|Shady Cove=e|Shaniko=w|Shedd=l|Sheridan=z|Sherwood=x|Siletz=k|Silver Lake=i|Silverton=n|Sisters=8|Sixes=7|South Beach=k|Sprague River=h|Spray=y|Springfield=j|Stanfield=t|Stayton=n|Sublimity=n|Summer Lake=i|Summerville=u|Sumpter=0|Sutherlin=9|Sweet Home=l|Swisshome=j|Talent=e|Tangent=l|Tenmile=9|Terrebonne=8|The Dalles=w|Tidewater=k|Tillamook=s|Tiller=9|Timber=x|Toledo=k|Tolovana Park=3|Trail=e|Troutdale=p|Tualatin=x|Turner=n|Tygh Valley=w|Ukiah=t|Umatilla=t|Umpqua=9|Union=u|Unity=0|Vale=m|Veneta=j|Vernonia=4|Vida=j|Waldport=k|Wallowa=v|Walterville=j|Walton=j|Warm Springs=f|Warren=4|Warrenton=3|Wasco=r|Wedderburn=7|Welches=2|West Linn=2|Westfall=m|Westfir=j|Westlake=j|Weston=t|Wheeler=s|White City=e|Wilbur=9|Wilderville=g|Willamina=z|Williams=g|Wilsonville=2|Winchester=9|Winston=9|Wolf Creek=g|Woodburn=n|Yachats=k|Yamhill=z|Yoncalla=9'
+  },
+  PA: {
+    counties: 'Adams|Allegheny|Armstrong|Beaver|Bedford|Berks|Blair|Bradford|Bucks|Butler|Cambria|Cameron|Carbon|Centre|Chester|Clarion|Clearfield|Clinton|Columbia|Crawford|Cumberland|Dauphin|Delaware|Elk|Erie|Fayette|Forest|Franklin|Fulton|Greene|Huntingdon|Indiana|Jefferson|Juniata|Lackawanna|Lancaster|Lawrence|Lebanon|Lehigh|Luzerne|Lycoming|McKean|Mercer|Mifflin|Monroe|Montgomery|Montour|Northampton|Northumberland|Perry|Philadelphia|Pike|Potter|Schuylkill|Snyder|Somerset|Sullivan|Susquehanna|Tioga|Union|Venango|Warren|Washington|Wayne|Westmoreland|Wyoming|York',
+    zips: 'bkp:3,2,1:1q,1:3,1:1,1,2:3,1,2:p,2:1,1,2,1,1:1q,1:1,1:1q,1,2:1,1,1,1:3,1:1,2,1,1,1:1q,1:1,1,2,1:1q,4:3,1,1:1,1,1,1,2,1:3,1:1,1:3,1:1q,1,1,1:1,1:1q,2:3,1:1q,1:3,1:1s,1:1q,1:1,1,1:3,1:1q,1:1s,1,2:1,1:1s,2:3,1:1,1,1:3,1:1q,3:3,1:1,1:1s,1:1,1:1s,1:1,1:1s,1:1,1:1s,1:1,1,4,1,5,1,2,2,2,2,2,4,4,2,1,3,1,2,2,1,1,1,1,1,1,2,1,2,1,1,1,1,1,1,1h,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,6,1,1,1,1,1,2,1,1,1,1,1,2,1,2,1,2,2,2,1,1,1,1,1,2,1,1,3,3,1,5,6:1q,9:t,1:1q,1,1,1,1:t,1,1:1q,3:t,1:1q,1:t,1:1q,1,1:t,2,2:1q,1,1,1,1,1:t,2:1q,1:t,1,1:1q,1,1:t,1:1q,2:t,1:1q,1:t,1:1q,1,1:t,1:1q,1:t,1,1,4,1:1q,1:t,1:1q,1,1:t,1:1q,1:t,1:1q,1,1,1,2:t,6:1q,1,1,1,1:t,l:p,9,1:1j,1:1q,1:p,2,1,1,2:1q,1:p,1,1,1:1q,1:1j,1:p,2:1q,1:p,1:1q,1:p,1,1:1q,1:p,1:1q,1:p,1,1,1,1,1,2,1,1,1,1,1,1:1s,1:p,1,1,3,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1:1q,1:p,1:1s,1:p,2,1:1q,1:p,1:1j,1:p,2,1,1,2,9:1j,1,8,a,1:4,1,8:1j,1,1,1:4,1,1,1:s,1:4,1:1j,1:4,1:1j,1,1,2,1:4,1:1j,1,1,1,1:4,1:1j,1,1,1:4,1:1j,2,1,1:4,1:1j,1,1,1,1,1,10:1s,4,1,4,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2:p,1:1s,1,1,1,1,1,1,1,1,1,1,2,2,1,3,5,1:2,2:1s,2,1,1,1,1,1,1,2,2,1,1,1:2,1:1s,1,1,1,1,1,1,1:v,1:2,1:1s,1,1,1:2,1:1s,1,1,1,1,1,1,2,1,1,1,3:v,4,5,1:w,1:v,1,1:a,1:w,1:v,1,3,1:g,1:a,1:v,1,1,2,1,1,1:w,1:v,1,1:w,1:v,2:2,1:a,1,1:v,2,1,2:w,1:v,1,1,1,2,2,1:g,1:v,2,1:g,1:v,1,1:a,1:v,1:a,1:v,1:w,1:v,2:w,3,1:v,1,1:a,1:2,1:a,1:w,1:v,1:w,1:1s,1:w,1,2:v,1:w,h:g,k:n,1,1,1:w,1,2:n,1:q,1:w,2:n,1:b,2,6:w,1:n,4,1,1:w,1:g,1,2:w,2:n,3:g,1:n,3:w,1:b,2:w,1,1,1:g,2:n,2,v:a,1,2,1,1,1,2,6,5:v,1:a,1,1:1s,1:1j,1:a,1:1j,1:a,1:1j,1:v,1:a,1,3,1:1j,1,1,1:a,2,2,1,1:1s,1:a,1,2,1:v,2:a,1,1:1j,1:1s,1:a,1,1:v,1:a,1:1j,1:a,1,1,1:1j,12:9,1,1,d,1,1,2,1,1,1,1,1,2,1:f,1:9,1,3,1,1,1:f,1:9,1,1,1,1,4,1,2,1:2,1:9,1,1,1,1:f,1:9,1,1,1:f,1:9,2,2,3,z:10,1,1,2,2,1,2:j,1,1:10,1:16,1,1:3,1:10,1,3,1:16,2:3,1:16,1,2,3,1:j,1:10,1:16,1,2:3,1:16,3:10,1:3,1:10,1,2:16,1,2,2,1,2,1,1:10,1,1,2:16,1:10,1:16,b:10,t:2,9,1:v,1:2,1:f,1,3:q,1:2,2:f,1,1:2,1,1:f,1,1:2,2,1,1:f,2,1,1,1,1:2,2,1:q,1:f,2,2:2,1,1:v,2:f,1:2,1,3,1:f,1,1:v,1:f,1,1:2,1:f,1:2,1,1,12:1o,a:16,1:1p,1,1:j,2,1:1o,2,2:q,1,1:1o,3:f,1:j,1,1:1p,2:f,1,1:15,1:f,1:j,5:1p,1:1o,1,1,1,1:1p,1:1o,1:1p,3,1,1,1:q,1:j,6,1:f,1:1o,2,1:1p,1,1,1,1,1:q,1:1p,1:1o,1,1,1:f,d:j,d:o,1:1p,1:j,1,1:1p,1:j,1:o,3,1,1,1,2,1:1p,1:o,3:1p,1:o,1:j,1:o,1:j,2:o,1,1,2,2:j,1,1,1,1:1p,2:o,2:j,1:o,1,1,1,v,q,1,1,1,1,1,1,1,1,1,1,1,2,1,7,8,1,3,4,3,3,2,4,3,a,2,10:6,1,1,8:u,2:a,3:g,1:6,2:a,1:g,1:u,1,1,1:a,1:6,2:g,2:a,1,1:6,2:4,1:u,1:6,1:a,1:6,1:u,1:a,1,1,3,1:g,1:a,1:u,1:6,2:4,1:g,1:u,2,1:4,1:g,1:u,2:4,1:u,1:g,1:6,1:g,1:4,1:6,1:g,1:4,1:a,1:u,1:4,1:g,1:4,1:6,1:u,1:a,2:d,1:4,1,1:g,1,1:6,1:u,1:6,1:u,1:6,3:s,2,1:g,1:6,1:4,1,3:g,1:a,2:15,j:1g,4:15,1,1,1,1:n,1:15,1,1,1,1,1:n,1:15,3,2,3,1,1,1:1g,2,1:15,1,1f:d,1,1,1,1,f,1:g,1:h,1:d,2:g,1:d,1,1,1,1:g,2:d,1:g,1,1:d,1:g,1,1,1,1,1:d,2:g,1:d,1:g,2,1:h,1:g,1,1:d,1,1,1,1:g,1:d,2:g,1:d,1:g,1,2,1:d,1,1,2,2,1:g,1:d,1:g,1:d,1,1:g,1:u,1:g,1,2,1:d,j:1m,9:7,1:1m,1,2:7,1:1g,2:1m,3,1,1:1g,1,2:7,1,1:1g,1:1m,1,1,2,1,2,1,1:1g,1:1m,1,1,1:1g,1:1m,1,2:7,1:1m,1:7,1:1g,2:1m,1f:k,1:17,1:11,1:17,1:l,1:1d,1:k,2:17,1:11,1:k,1,1,1:x,1:k,1:11,1:1c,1:l,1:1u,1:1d,1:x,1:z,1:l,1:1d,1:k,1:11,1:k,1:l,1:17,1:l,2,1,1,1:x,1:l,1:1d,1:11,1,1:1d,1:11,1,1:k,1:17,1:1d,1:11,1:1d,1:l,1:x,1:k,1:17,1:u,1:1d,1:17,1:k,1:x,1:l,1:x,1,1:u,1:l,1:1d,1:17,1:11,1:k,1:u,1:11,1:1d,1,1:k,1:1d,1:k,1:11,1:1d,1:17,1:x,1:11,1,2:l,1:k,1:x,1:11,1:17,1:11,1:x,1:11,1,1:k,1:1d,3:k,1:x,3:l,1,1:17,2:l,1,1,1,1,1,1,1,1,1,1,1,1,7,1,1,1,1,1,1,1,1,1,1,a,11,o:r,1,8,1:4,1:s,1:u,1:r,1:s,2:r,2,1,1,1,1:s,1:r,1,3:s,1,2:r,1,1:s,2:r,1,1,1:s,1:u,1:k,1,2:u,1:r,2,1,2:u,1:r,1,1,1:u,1:r,1:u,1:r,1:k,3:u,1:r,1,1,1:u,1:r,1:k,1:s,1:r,3,1,t:0,1:1u,1:0,1,2,1,2:1u,1:0,1:1u,1,1,1,1,1:0,1:1u,1,1,1:0,1:1u,1,1,1:0,1,2:1u,2,2,1,1,1,1,2:0,2:1u,1:0,2:1u,1:0,1,1:1u,2,2,1:0,2:1u,1:0,1:1u,1,1,2,2,1,1,1,1,1,1,2,2,1,1:0,3,q:1u,1,1,1,1,1,1,1,2l:z,1,1,1,1,1,1,1,1,3,4,1,1,1,1,1,1,5,1,1,3,1,1,1,1,1,1,2,3,2,2,2,1,1,1,2,1,2,3,2,1,1,1,1,1,1,1,1,2,1,2,1,2,1,1,1,1,1,1,1,g,1,1,1,1,1,1,1,3,b,25,2:14,1,1,2,f,1:h,2:14,1:7,2:h,1:14,1,1:1g,1:1c,1:1k,4:7,2:14,2,1,2,2,1:h,2,1,1:1c,1:h,1,1:14,2,2,2:1k,2:h,2:14,1,1:h,1:1m,3:1k,1:14,2,1:1c,2:14,2,1:1c,1:h,1,m:1c,9:1n,2:1i,1,1:i,1,5,1:1a,1,1:1c,1,3:1i,2:1n,1:1c,1:1i,1:1c,1:1i,1:1c,1:1n,1:1c,1:1n,3:1c,1:1i,1,1,1:1n,1,1:i,1:1c,3,1,2:1i,2:1n,1,1:1c,1:i,1,1:1c,1:1i,1,2,1:1c,1,1,1,2:1i,2:1c,4:1i,1:1c,1:i,2:1n,1:1c,1:1i,1:1n,1:1a,1:1n,1,1,1:i,1:1n,c:1h,j:i,1:1h,1,1,2,4,1,1,1,1,1,1,1,2,3,2,1,1,1,2,1,2,1,1,1,3,2,1,1,2,1,1,1,1,1,2,2,2,2,2,1,1,1,1,1,2,g:1b,1,1,8:12,1:c,1:1b,1,1,1,1,1,2,5:12,5:c,1:12,1,2,1:1b,1:12,1,1:1b,1:8,1:1b,1:19,1:1b,1,1,1,1:12,3,2,1,1,1:19,1:1b,1:5,2:18,1:12,1,2,1:1b,1,1:12,1,1:1b,1:12,1,1:19,1:c,1:1b,1:19,1,2,1:8,1:12,1,1,1:8,2:1b,1:19,1:1b,1,1:12,1:1b,3,1:12,6,1,2,1,1,1,1,1,3,2e,6:13,1,8:c,1:1h,1:c,2:1h,2:c,2:1h,1:13,1:1h,1:13,1,1,1,1,4:c,1,1:1h,1:c,2:13,1:c,2:1h,2:13,1:c,1:1h,1,2:c,1:1h,1:13,1,1:1h,1:13,1:c,1:13,1:1h,2:c,1,1:13,19:18,1:1f,i:18,1,1,1,1:1f,1:18,1,1,1:1f,2:18,1,1,1,1,1,1:1f,1,3,1:18,1,1:1b,1:18,2,1,1,1,1,1:1b,1:18,1,1,1,1,1,3,a,1:1f,1:18,v:y,2:1r,2:y,3,1,2:1l,1:y,1:1r,1:y,1:1r,2:1t,1:y,1:1l,3:1r,1:1f,1,1:1r,1,2:1l,1:1r,2:y,1,1:1f,1:1r,1,1,1,1:y,1:1l,2:1r,1:y,1:1r,1:1t,1:y,1,1:1r,2:1f,1:y,1:1r,1,1,1,1:1f,1,1:1r,1,1,1,1,1:1f,1:1l,1:18,3:1r,1:1l,1:y,1:1r,1,s:y,1,1,1,1,2,1,1,1,2,3,2,1,1,l,11,o:13,1,1:i,7:18,1:13,1,2:1k,1:1t,1:1k,1:13,1,1:1k,2:13,1,1:1t,1:c,1:1t,1:1k,1:13,1:1k,1:1t,1,1:i,1:1k,2:13,1,1:1t,4:13,1,1,1,1,7,2:y,1:13,1,1,1:1t,3:13,1,t,b,1,1,1,1,1,1,1,1,1,1,1f,2,1,1,1,2,4,s:1l,9:7,2:1l,1,1:7,1,1:1l,1:7,1:1l,2,1,1,1,1,1,1,1,1,1:7,1:1l,1:7,1,1,1:1l,3:7,3,2:1l,1,1,1:7,1,1:1l,1:7,2,1,2,1,1b:8,1,8,1,1,1,1,1:19,1:8,1,1:19,2:8,1,1,1,1:19,1:8,2,1,1,1,1,1,1,1,1,1:19,2:8,2,2,1,1,2,1,2,1,1,2,1,1,1,1:19,1,2:8,2,1,1:19,2:8,2,1:19,1:8,1:19,1:8,2,2,1,2:19,1:8,1,a,a:19,1,1:m,1:19,2,1:8,1:m,1:19,1:m,2:19,1:m,1,1,1,1,1,1:1e,1:8,1,1:m,1,2:19,1:m,1:19,1:m,1,1:8,1:19,1:m,1,1:19,1,1:m,1,1:19,1:m,1:19,1:m,2,1:19,2,1:8,1,1,1:m,2,1:8,1,1,1,1,1,2:m,1,2,1,1,1:19,1:8,3:m,2:19,1:m,1,1:19,1:m,2,1,1,1,1,1,2,1,1,1,1,1:19,1:m,1:1e,1,1:m,1:19,1,2:m,1:1e,2,1,1,1,1,1,1,1,1,1,1,1,1:m,1:1e,1,1,2,1,1,1,1,1,1,1,1:19,1:1e,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,5,1,1,8,1,1,1,2,1,1,1,1,2,1,1,1,1,2,1,2,1,1,1,1,1,1,1,1b,b,1a:e,9,1,1,4,1:m,1:e,1:m,1:e,a,1:m,2:e,2,4:m,1,1:e,1:m,1:e,1,1,1,1,1,2,1,1,1,1,1,2,1,2,2,1,2,1,1,2,2,1,1:m,1:e,1,1,4,1,1,1,7,5,2,1,1,2:19,2,1,1,1,1,1,1,6,6:e,1:19,1,1,1:e,1:19,2,1,1,2:e,3:19,1,1,1,2,1,1:e,1:19,1,2,4,1,2,1,1,1,1:e,3,2:19,2,1:e,3:19,2:e,2:19,1,1,1:e,2:19,1,2:e,1,1,2:19,2,4,2,1:e,1,1,1,5:z,2:5,1,1,1,1,1,2,1,1,4,2,1,1:e,2:5,1,2:19,1:5,3,1,3,1,1,1,2,1,1,1,2,1,1,2,1,1:1h,1:5,1,3,1,4,1,2,2,1,2,y,1,1,1,1,1,1,1,1,1,1,1',
+    cities: 'Aaronsburg=d|Abbottstown=0|Abington=19|Acme=1s|Acosta=1j|Adah=p|Adamsburg=1s|Adamstown=z|Adamsville=j|Addison=1j|Adrian=2|Airville=1u|Akron=z|Alba=7|Albion=o|Albrightsville=c|Alburtis=12|Aleppo=t|Alexandria=u|Aliquippa=3|Allenport=1q|Allensville=17|Allentown=12|Allenwood=1n|Allison=p|Allison Park=1|Allport=g|Altoona=6|Alum Bank=4|Alverda=v|Alverton=1s|Amberson=r|Ambler=19|Ambridge=3|Amity=1q|Analomink=18|Andreas=1h|Anita=w|Annville=11|Antes Fort=14|Apollo=1s|Aquashicola=c|Arcadia=v|Archbald=y|Ardara=1s|Ardmore=m|Arendtsville=0|Aristes=i|Armagh=v|Armbrust=1s|Arnot=1m|Arona=1s|Artemas=4|Ashfield=c|Ashland=1h|Ashville=a|Aspers=0|Aston=m|Atglen=e|Athens=7|Atlantic=j|Atlasburg=1q|Auburn=1h|Audubon=19|Aultman=v|Austin=1g|Avella=1q|Avis=h|Avondale=e|Avonmore=1s|Baden=3|Bainbridge=z|Bairdford=1|Bakerstown=1|Bala Cynwyd=19|Bally=5|Bangor=1b|Barnesville=1h|Bart=z|Barto=5|Bartonsville=18|Bath=1b|Bausman=z|Beach Haven=13|Beach Lake=1r|Beallsville=1q|Bear Creek=13|Bear Lake=1p|Beaver=3|Beaver Falls=3|Beaver Meadows=c|Beaver Springs=1i|Beaverdale=a|Beavertown=1i|Beccaria=g|Bechtelsville=5|Bedford=4|Bedminster=8|Beech Creek=h|Belle Vernon=p|Bellefonte=d|Belleville=17|Bellwood=6|Belsano=a|Bendersville=0|Benezett=n|Bensalem=8|Bentleyville=1q|Benton=i|Berlin=1j|Bernville=5|Berrysburg=l|Berwick=i|Berwyn=e|Bessemer=10|Bethel=5|Bethel Park=1|Bethlehem=1b|Beyer=v|Big Cove Tannery=s|Big Run=w|Bigler=g|Biglerville=0|Birchrunville=e|Bird In Hand=z|Birdsboro=5|Black Lick=v|Blain=1d|Blairs Mills=u|Blairsville=v|Blakeslee=18|Blanchard=d|Blandburg=a|Blandon=5|Blooming Glen=8|Bloomsburg=i|Blossburg=1m|Blue Ball=z|Blue Bell=19|Blue Ridge Summit=r|Boalsburg=d|Bobtown=t|Boiling Springs=k|Bolivar=1s|Boswell=1j|Bovard=1s|Bowers=5|Bowmanstown=c|Bowmansville=z|Boyers=9|Boyertown=5|Boynton=1j|Brackenridge=1|Brackney=1l|Braddock=1|Bradenville=1s|Bradford=15|Bradfordwoods=1|Branchdale=1h|Branchton=9|Brandamore=e|Brandy Camp=n|Brave=t|Breezewood=4|Breinigsville=12|Bridgeport=19|Bridgeville=1|Brier Hill=p|Brisbin=g|Bristol=8|Broad Top=u|Brockport=n|Brockton=1h|Brockway=w|Brodheadsville=18|Brogue=1u|Brookhaven=m|Brooklyn=1l|Brookville=w|Broomall=m|Brownfield=p|Brownstown=z|Brownsville=p|Bruin=9|Brush Valley=v|Bryn Athyn=19|Bryn Mawr=m|Buck Hill Falls=18|Buckingham=8|Buena Vista=1|Buffalo Mills=4|Bulger=1q|Bunola=1|Burgettstown=1q|Burlington=7|Burnham=17|Burnside=g|Burnt Cabins=s|Bushkill=1f|Butler=9|Byrnedale=n|Cabot=9|Cadogan=2|Cairnbrook=1j|California=1q|Callensburg=f|Callery=9|Calumet=1s|Calvin=u|Cambra=13|Cambridge Springs=j|Camp Hill=k|Campbelltown=11|Camptown=7|Canadensis=18|Canonsburg=1q|Canton=7|Carbondale=y|Cardale=p|Carlisle=k|Carlton=16|Carmichaels=t|Carnegie=1|Carrolltown=a|Carversville=8|Cashtown=0|Cassandra=a|Cassville=u|Castanea=h|Catasauqua=12|Catawissa=i|Cecil=1q|Cedar Run=14|Cedars=19|Center Valley=12|Centerport=5|Centerville=j|Central City=1j|Centre Hall=d|Chadds Ford=m|Chalfont=8|Chalk Hill=p|Chambersburg=r|Chambersville=v|Champion=1s|Chandlers Valley=1p|Charleroi=1q|Chatham=e|Cheltenham=19|Cherry Tree=v|Cherryville=1b|Chest Springs=a|Chester=m|Chester Heights=m|Chester Springs=e|Chestnut Ridge=p|Cheswick=1|Cheyney=m|Chicora=9|Chinchilla=y|Christiana=z|Clairton=1|Clarence=d|Clarendon=1p|Claridge=1s|Clarington=q|Clarion=f|Clark=16|Clarks Mills=16|Clarks Summit=y|Clarksburg=v|Clarksville=t|Claysburg=6|Claysville=1q|Clearfield=g|Clearville=4|Clifford=1l|Clifton Heights=m|Clinton=1|Clintonville=1o|Clune=v|Clymer=v|Coal Center=1q|Coal Township=1c|Coaldale=1h|Coalport=g|Coatesville=e|Coburn=d|Cochranton=j|Cochranville=e|Cocolamus=x|Codorus=1u|Cogan Station=14|Cokeburg=1q|Collegeville=19|Colmar=19|Columbia=z|Columbia Cross Roads=7|Columbus=1p|Colver=a|Commodore=v|Concord=r|Concordville=m|Conestoga=z|Confluence=1j|Conneaut Lake=j|Conneautville=j|Connellsville=p|Connoquenessing=9|Conshohocken=19|Conway=3|Conyngham=13|Cooksburg=q|Coolspring=w|Coopersburg=12|Cooperstown=1o|Coplay=12|Coral=v|Coraopolis=1|Cornwall=11|Corry=o|Corsica=w|Coudersport=1g|Coulters=1|Coupon=a|Covington=1m|Cowansville=2|Crabtree=1s|Craley=1u|Cranberry=1o|Cranberry Township=9|Cranesville=o|Creamery=19|Creekside=v|Creighton=1|Crescent=1|Cresco=18|Cresson=a|Cressona=1h|Crosby=15|Cross Fork=1g|Crown=f|Croydon=8|Crucible=t|Crum Lynne=m|Crystal Spring=s|Cuddy=1|Cumbola=1h|Curllsville=f|Curryville=6|Curtisville=1|Curwensville=g|Custer City=15|Cyclone=15|Dagus Mines=n|Daisytown=1q|Dallas=13|Dallastown=1u|Dalmatia=1c|Dalton=y|Damascus=1r|Danboro=8|Danielsville=1b|Danville=1a|Darby=m|Darlington=3|Darragh=1s|Dauphin=l|Davidsville=1j|Dawson=p|Dayton=2|De Lancey=w|De Young=n|Defiance=4|Delano=1h|Delaware Water Gap=18|Delmont=1s|Delta=1u|Denbo=1q|Denver=z|Derrick City=15|Derry=1s|Devault=e|Devon=e|Dewart=1c|Dickerson Run=p|Dilliner=t|Dillsburg=1u|Dilltown=v|Dimock=1l|Dingmans Ferry=1f|Distant=2|Dixonville=v|Donegal=1s|Donora=1q|Dornsife=1c|Douglassville=5|Dover=1u|Downingtown=e|Doylesburg=r|Doylestown=8|Dravosburg=1|Dresher=19|Drexel Hill=m|Drifting=g|Drifton=13|Driftwood=b|Drumore=z|Drums=13|Dry Run=r|Du Bois=g|Dublin=8|Dudley=u|Duke Center=15|Dunbar=p|Duncannon=1d|Duncansville=6|Dunlevy=1q|Dunlo=a|Duquesne=1|Durham=8|Duryea=13|Dushore=1k|Dysart=a|Eagles Mere=1k|Eagleville=19|Earlington=19|Earlville=5|East Berlin=0|East Brady=f|East Butler=9|East Earl=z|East Freedom=6|East Greenville=19|East Hickory=q|East Mc Keesport=1|East Millsboro=p|East Petersburg=z|East Pittsburgh=1|East Prospect=1u|East Smethport=15|East Smithfield=7|East Springfield=o|East Stroudsburg=18|East Texas=12|East Vandergrift=1s|East Waterford=x|Easton=1b|Eau Claire=9|Ebensburg=a|Ebervale=13|Edgemont=m|Edinboro=o|Edinburg=10|Effort=18|Eighty Four=1q|Elco=1q|Elderton=2|Eldred=15|Elgin=o|Elizabeth=1|Elizabethtown=z|Elizabethville=l|Elkins Park=19|Elkland=1m|Elliottsburg=1d|Ellsworth=1q|Ellwood City=10|Elm=z|Elmhurst=y|Elmora=a|Elrama=1q|Elton=a|Elverson=e|Elysburg=1c|Emeigh=a|Emigsville=1u|Emlenton=1o|Emmaus=12|Emporium=b|Endeavor=q|Enola=k|Enon Valley=10|Entriken=u|Ephrata=z|Equinunk=1r|Erie=o|Ernest=v|Erwinna=8|Essington=m|Etters=1u|Evans City=9|Everett=4|Everson=p|Export=1s|Exton=e|Factoryville=1t|Fairbank=p|Fairchance=p|Fairfield=0|Fairhope=1j|Fairless Hills=8|Fairmount City=f|Fairview=o|Fairview Village=19|Fallentimber=a|Falls=1t|Falls Creek=w|Fannettsburg=r|Farmington=p|Farrell=16|Fawn Grove=1u|Fayette City=p|Fayetteville=r|Feasterville Trevose=8|Felton=1u|Fenelton=9|Ferndale=8|Finleyville=1q|Fisher=f|Fishertown=4|Fleetville=y|Fleetwood=5|Fleming=d|Flinton=a|Flourtown=19|Fogelsville=12|Folcroft=m|Folsom=m|Fombell=3|Forbes Road=1s|Force=n|Ford City=2|Ford Cliff=2|Forest City=1l|Forest Grove=8|Forestville=9|Forksville=1k|Fort Hill=1j|Fort Littleton=s|Fort Loudon=r|Fort Washington=19|Fountainville=8|Foxburg=f|Frackville=1h|Franconia=19|Franklin=1o|Franklintown=1u|Frederick=19|Fredericksburg=11|Fredericktown=1q|Fredonia=16|Freeburg=1i|Freedom=3|Freeland=13|Freeport=2|Frenchville=g|Friedens=1j|Friedensburg=1h|Friendsville=1l|Fryburg=f|Furlong=8|Gaines=1m|Galeton=1g|Gallitzin=a|Gans=p|Gap=z|Garards Fort=t|Gardners=0|Garland=1p|Garnet Valley=m|Garrett=1j|Gastonville=1q|Geigertown=5|Genesee=1g|Georgetown=3|Germansville=12|Gettysburg=0|Gibbon Glade=p|Gibson=1l|Gibsonia=1|Gifford=15|Gilbert=18|Gilberton=1h|Gilbertsville=19|Gillett=7|Gipsy=v|Girard=o|Girardville=1h|Gladwyne=19|Glasgow=a|Glassport=1|Glen Campbell=v|Glen Hope=g|Glen Lyon=13|Glen Mills=m|Glen Richey=g|Glen Riddle Lima=m|Glen Rock=1u|Glenmoore=e|Glenolden=m|Glenshaw=1|Glenside=19|Glenville=1u|Goodville=z|Gordon=1h|Gordonville=z|Gouldsboro=1r|Gradyville=m|Grampian=g|Grand Valley=1p|Grantham=k|Grantville=l|Granville=17|Granville Summit=7|Grapeville=1s|Grassflat=g|Gratz=l|Gray=1j|Graysville=t|Great Bend=1l|Greeley=1f|Green Lane=19|Greencastle=r|Greenock=1|Greensboro=t|Greensburg=1s|Greentown=1f|Greenville=16|Grindstone=p|Grove City=16|Grover=7|Guys Mills=j|Gwynedd=19|Gwynedd Valley=19|Hadley=16|Halifax=l|Hallstead=1l|Hamburg=5|Hamilton=w|Hamlin=1r|Hannastown=1s|Hanover=1u|Harborcreek=o|Harford=1l|Harleigh=13|Harleysville=19|Harmonsburg=j|Harmony=9|Harrisburg=l|Harrison City=1s|Harrison Valley=1g|Harrisonville=s|Harrisville=9|Hartleton=1n|Hartstown=j|Harveys Lake=13|Harwick=1|Hastings=a|Hatboro=19|Hatfield=19|Haverford=m|Havertown=m|Hawk Run=g|Hawley=1r|Hawthorn=f|Hazel Hurst=15|Hazleton=13|Hegins=1h|Heilwood=v|Hellertown=1b|Hendersonville=1q|Henryville=18|Hereford=5|Herman=9|Herminie=1s|Hermitage=16|Herndon=1c|Herrick Center=1l|Hershey=l|Hesston=u|Hibbs=p|Hickory=1q|Hidden Valley=1j|Highspire=l|Hiller=p|Hilliards=9|Hillsdale=v|Hillsgrove=1k|Hillsville=10|Hilltown=8|Holbrook=t|Holicong=8|Hollidaysburg=6|Hollsopple=1j|Holmes=m|Holtwood=z|Home=v|Homer City=v|Homestead=1|Honesdale=1r|Honey Brook=e|Honey Grove=x|Hookstown=3|Hooversville=1j|Hop Bottom=1l|Hopeland=z|Hopewell=4|Hopwood=p|Horsham=19|Hostetter=1s|Houston=1q|Houtzdale=g|Howard=d|Hughesville=14|Hummels Wharf=1i|Hummelstown=l|Hunker=1s|Hunlock Creek=13|Huntingdon=u|Huntingdon Valley=19|Huntington Mills=13|Hustontown=s|Hutchinson=1s|Hyde=g|Hyde Park=1s|Hydetown=j|Hyndman=4|Ickesburg=1d|Idaville=0|Imler=4|Immaculata=e|Imperial=1|Indian Head=p|Indiana=v|Indianola=1|Industry=3|Ingomar=1|Intercourse=z|Irvine=1p|Irvona=g|Irwin=1s|Isabella=p|Jackson=1l|Jackson Center=16|Jacobs Creek=1s|James City=n|James Creek=u|Jamestown=16|Jamison=8|Jeannette=1s|Jefferson=t|Jenkintown=19|Jenners=1j|Jennerstown=1j|Jermyn=y|Jerome=1j|Jersey Mills=14|Jersey Shore=14|Jessup=y|Jim Thorpe=c|Joffre=1q|Johnsonburg=n|Johnstown=a|Jones Mills=1s|Jonestown=11|Josephine=v|Julian=d|Junedale=c|Kane=15|Kantner=1j|Karns City=9|Karthaus=g|Keisterville=p|Kelayres=1h|Kelton=e|Kemblesville=e|Kempton=5|Kennerdell=1o|Kennett Square=e|Kent=v|Kersey=n|Kimberton=e|King Of Prussia=19|Kingsley=1l|Kingston=13|Kintnersville=8|Kinzers=z|Kirkwood=z|Kittanning=2|Kleinfeltersville=11|Klingerstown=1h|Knox=f|Knox Dale=w|Knoxville=1m|Koppel=3|Kossuth=f|Kreamer=1i|Kresgeville=18|Kulpmont=1c|Kulpsville=19|Kunkletown=18|Kutztown=5|Kylertown=g|La Belle=p|La Jose=g|La Plume=y|Laceyville=1t|Lackawaxen=1f|Lafayette Hill=19|Lahaska=8|Lairdsville=14|Lake Ariel=1r|Lake City=o|Lake Como=1r|Lake Harmony=c|Lake Lynn=p|Lake Winola=1t|Lakeville=1r|Lakewood=1r|Lamar=h|Lamartine=f|Lampeter=z|Lancaster=z|Landenberg=e|Landisburg=1d|Landisville=z|Lanesboro=1l|Langeloth=1q|Langhorne=8|Lansdale=19|Lansdowne=m|Lanse=g|Lansford=c|Laporte=1k|Larimer=1s|Latrobe=1s|Lattimer Mines=13|Laughlintown=1s|Laurelton=1n|Laurys Station=12|Lavelle=1h|Lawn=11|Lawrence=1q|Lawrenceville=1m|Lawton=1l|Le Raysville=7|Lebanon=11|Leck Kill=1c|Leckrone=p|Lecontes Mills=g|Lederach=19|Leechburg=2|Leeper=f|Leesport=5|Leetsdale=1|Lehigh Valley=1b|Lehighton=c|Lehman=13|Leisenring=p|Lemasters=r|Lemont=d|Lemont Furnace=p|Lemoyne=k|Lenhartsville=5|Lenni=m|Lenoxville=1l|Leola=z|Levittown=8|Lewis Run=15|Lewisberry=1u|Lewisburg=1n|Lewistown=17|Lewisville=e|Liberty=1m|Lickingville=f|Ligonier=1s|Lilly=a|Limekiln=5|Limeport=12|Limestone=f|Lincoln University=e|Linden=14|Line Lexington=8|Linesville=j|Lionville=e|Listie=1j|Lititz=z|Little Meadows=1l|Littlestown=0|Liverpool=1d|Llewellyn=1h|Lock Haven=h|Locust Gap=1c|Locustdale=1h|Loganton=h|Loganville=1u|Long Pond=18|Lopez=1k|Loretto=a|Lost Creek=1h|Lowber=1s|Loyalhanna=1s|Loysburg=4|Loysville=1d|Lucernemines=v|Lucinda=f|Ludlow=15|Lumberville=8|Lurgan=r|Luthersburg=g|Luxor=1s|Luzerne=13|Lykens=l|Lyndell=e|Lyndora=9|Lyon Station=5|Mackeyville=h|Macungie=12|Madera=g|Madison=1s|Madisonburg=d|Mahaffey=g|Mahanoy City=1h|Mahanoy Plane=1h|Mainesburg=1m|Mainland=19|Malvern=e|Mammoth=1s|Manchester=1u|Manheim=z|Manns Choice=4|Manor=1s|Manorville=2|Mansfield=1m|Mapleton Depot=u|Mar Lin=1h|Marble=f|Marchand=v|Marcus Hook=m|Marianna=1q|Marienville=q|Marietta=z|Marion=r|Marion Center=v|Marion Heights=1c|Markleton=1j|Markleysburg=p|Mars=9|Marshalls Creek=18|Marsteller=a|Martin=p|Martindale=z|Martins Creek=1b|Martinsburg=6|Mary D=1h|Marysville=1d|Masontown=p|Matamoras=1f|Mather=t|Mattawana=17|Maxatawny=5|Mayport=f|Maytown=z|Mc Alisterville=x|Mc Clellandtown=p|Mc Clure=1i|Mc Connellsburg=s|Mc Connellstown=u|Mc Donald=1q|Mc Elhattan=h|Mc Ewensville=1c|Mc Grann=2|Mc Intyre=v|Mc Kean=o|Mc Kees Rocks=1|Mc Knightstown=0|Mc Sherrystown=0|Mc Veytown=17|Mcadoo=1h|Mckeesport=1|Meadow Lands=1q|Meadville=j|Mechanicsburg=k|Mechanicsville=8|Media=m|Mehoopany=1t|Melcroft=p|Mendenhall=e|Mentcle=v|Mercer=16|Mercersburg=r|Merion Station=19|Merrittstown=p|Mertztown=5|Meshoppen=1t|Mexico=x|Meyersdale=1j|Middleburg=1i|Middlebury Center=1m|Middleport=1h|Middletown=l|Midland=3|Midway=1q|Mifflin=x|Mifflinburg=1n|Mifflintown=x|Mifflinville=i|Milan=7|Milanville=1r|Mildred=1k|Milesburg=d|Milford=1f|Milford Square=8|Mill Creek=u|Mill Hall=h|Mill Run=p|Mill Village=o|Millersburg=l|Millerstown=1d|Millersville=z|Millerton=1m|Millheim=d|Millmont=1n|Millrift=1f|Mills=1g|Millsboro=1q|Millville=i|Milnesville=13|Milroy=17|Milton=1c|Mineral Point=a|Mineral Springs=g|Minersville=1h|Mingoville=d|Minisink Hills=18|Modena=e|Mohnton=5|Mohrsville=5|Monaca=3|Monessen=1s|Monongahela=1q|Monroeton=7|Monroeville=1|Mont Alto=r|Mont Clare=19|Montandon=1c|Montgomery=14|Montgomeryville=19|Montoursville=14|Montrose=1l|Moosic=y|Morann=g|Morgan=1|Morgantown=5|Morris=1m|Morris Run=1m|Morrisdale=g|Morrisville=8|Morton=m|Moscow=y|Moshannon=d|Mount Aetna=5|Mount Bethel=1b|Mount Braddock=p|Mount Carmel=1c|Mount Gretna=11|Mount Holly Springs=k|Mount Jewett=15|Mount Joy=z|Mount Morris=t|Mount Pleasant=1s|Mount Pleasant Mills=1i|Mount Pocono=18|Mount Union=u|Mount Wolf=1u|Mountain Top=13|Mountainhome=18|Mountville=z|Muir=1h|Muncy=14|Muncy Valley=1k|Munson=g|Murrysville=1s|Muse=1q|Myerstown=11|Nanticoke=13|Nanty Glo=a|Narberth=19|Narvon=z|Natrona Heights=1|Nazareth=1b|Needmore=s|Neelyton=u|Neffs=12|Nelson=1m|Nemacolin=t|Nescopeck=13|Nesquehoning=c|New Albany=7|New Alexandria=1s|New Baltimore=1j|New Bedford=10|New Berlin=1n|New Berlinville=5|New Bethlehem=f|New Bloomfield=1d|New Brighton=3|New Buffalo=1d|New Castle=10|New Columbia=1n|New Cumberland=k|New Derry=1s|New Eagle=1q|New Enterprise=4|New Florence=1s|New Freedom=1u|New Freeport=t|New Galilee=3|New Geneva=p|New Germantown=1d|New Holland=z|New Hope=8|New Kensington=1s|New Kingstown=k|New London=e|New Milford=1l|New Millport=g|New Oxford=0|New Paris=4|New Park=1u|New Philadelphia=1h|New Providence=z|New Ringgold=1h|New Salem=p|New Stanton=1s|New Tripoli=12|New Wilmington=10|Newburg=k|Newell=p|Newfoundland=1r|Newmanstown=11|Newport=1d|Newry=6|Newton Hamilton=17|Newtown=8|Newtown Square=m|Newville=k|Nicholson=1t|Nicktown=a|Nineveh=t|Normalville=p|Norristown=19|North Apollo=2|North Bend=h|North East=o|North Springfield=o|North Versailles=1|North Wales=19|North Washington=9|Northampton=1b|Northern Cambria=a|Northpoint=v|Northumberland=1c|Norvelt=1s|Norwood=m|Nottingham=e|Noxen=1t|Nu Mine=2|Numidia=i|Nuremberg=1h|Oak Ridge=2|Oakdale=1|Oakland Mills=x|Oakmont=1|Oaks=19|Ohiopyle=p|Oil City=1o|Olanta=g|Old Forge=y|Old Zionsville=12|Oley=5|Oliveburg=w|Oliver=p|Olyphant=y|Oneida=1h|Ono=11|Orangeville=i|Orbisonia=u|Orefield=12|Oreland=19|Orrstown=r|Orrtanna=0|Orson=1r|Orviston=d|Orwigsburg=1h|Osceola=1m|Osceola Mills=g|Osterburg=4|Ottsville=8|Oxford=e|Palm=19|Palmerton=c|Palmyra=11|Paoli=e|Paradise=z|Parker=2|Parker Ford=e|Parkesburg=e|Parkhill=a|Parryville=c|Patton=a|Paupack=1f|Paxinos=1c|Paxtonville=1i|Peach Bottom=z|Peach Glen=0|Peckville=y|Pen Argyl=1b|Penfield=g|Penn=1s|Penn Run=v|Penns Creek=1i|Penns Park=8|Pennsburg=19|Pennsylvania Furnace=d|Penryn=z|Pequea=z|Perkasie=8|Perkiomenville=19|Perryopolis=p|Petersburg=u|Petrolia=9|Philadelphia=1e|Philipsburg=d|Phoenixville=e|Picture Rocks=14|Pillow=l|Pine Forge=5|Pine Grove=1h|Pine Grove Mills=d|Pineville=8|Pipersville=8|Pitcairn=1|Pitman=1h|Pittsburgh=1|Pittsfield=1p|Pittston=13|Plainfield=k|Pleasant Hall=r|Pleasant Mount=1r|Pleasant Unity=1s|Pleasantville=1o|Plumsteadville=8|Plumville=v|Plymouth=13|Plymouth Meeting=19|Pocono Lake=18|Pocono Lake Preserve=18|Pocono Manor=18|Pocono Pines=18|Pocono Summit=18|Pocopson=e|Point Marion=p|Point Pleasant=8|Polk=1o|Pomeroy=e|Port Allegany=15|Port Carbon=1h|Port Clinton=1h|Port Matilda=d|Port Royal=x|Port Trevorton=1i|Portage=a|Porters Sideling=1u|Portersville=9|Portland=1b|Pottersdale=g|Potts Grove=1c|Pottstown=19|Pottsville=1h|Poyntelle=1r|Presto=1|Preston Park=1r|Pricedale=1s|Prompton=1r|Prospect=9|Prospect Park=m|Prosperity=1q|Pulaski=10|Punxsutawney=w|Quakake=1h|Quakertown=8|Quarryville=z|Quecreek=1j|Queen=4|Quentin=11|Quincy=r|Railroad=1u|Ralston=14|Ramey=g|Ransom=y|Ravine=1h|Reading=5|Reamstown=z|Rebersburg=d|Rebuck=1c|Rector=1s|Red Hill=19|Red Lion=1u|Reeders=18|Reedsville=17|Refton=z|Rehrersburg=5|Reinholds=z|Renfrew=9|Reno=1o|Renovo=h|Republic=p|Revere=8|Revloc=a|Rew=15|Rexmont=11|Reynoldsville=w|Rheems=z|Rices Landing=t|Riceville=j|Richboro=8|Richeyville=1q|Richfield=x|Richland=11|Richlandtown=8|Riddlesburg=4|Ridgway=n|Ridley Park=m|Riegelsville=8|Rillton=1s|Rimersburg=f|Ringgold=w|Ringtown=1h|Riverside=1c|Rixford=15|Roaring Branch=1m|Roaring Spring=6|Robertsdale=u|Robesonia=5|Robinson=v|Rochester=3|Rochester Mills=v|Rock Glen=13|Rockhill Furnace=u|Rockton=g|Rockwood=1j|Rogersville=t|Rome=7|Ronco=p|Ronks=z|Roscoe=1q|Rossiter=v|Rossville=1u|Roulette=1g|Rouseville=1o|Rouzerville=r|Rowland=1f|Roxbury=r|Royersford=19|Ruffs Dale=1s|Rural Ridge=1|Rural Valley=2|Rushland=8|Russell=1p|Russellton=1|Sabinsville=1m|Sacramento=1h|Sadsburyville=e|Saegertown=j|Sagamore=2|Saint Benedict=a|Saint Boniface=a|Saint Clair=1h|Saint Johns=13|Saint Marys=n|Saint Michael=a|Saint Peters=e|Saint Petersburg=f|Saint Thomas=r|Salford=19|Salfordville=19|Salina=1s|Salisbury=1j|Salix=a|Saltillo=u|Saltsburg=v|Sandy Lake=16|Sandy Ridge=d|Sarver=9|Sassamansville=19|Saxonburg=9|Saxton=4|Saylorsburg=18|Sayre=7|Scenery Hill=1q|Schaefferstown=11|Schellsburg=4|Schenley=2|Schnecksville=12|Schuylkill Haven=1h|Schwenksville=19|Sciota=18|Scotland=r|Scotrun=18|Scottdale=1s|Scranton=y|Seanor=1j|Selinsgrove=1i|Sellersville=8|Seltzer=1h|Seminole=2|Seneca=1o|Seven Valleys=1u|Seward=1s|Sewickley=1|Shade Gap=u|Shady Grove=r|Shamokin=1c|Shamokin Dam=1i|Shanksville=1j|Sharon=16|Sharon Hill=m|Sharpsville=16|Shartlesville=5|Shavertown=13|Shawanese=13|Shawnee On Delaware=18|Shawville=g|Sheakleyville=16|Sheffield=1p|Shelocta=2|Shenandoah=1h|Sheppton=1h|Shermans Dale=1d|Shickshinny=13|Shinglehouse=1g|Shippensburg=k|Shippenville=f|Shippingport=3|Shirleysburg=u|Shoemakersville=5|Shohola=1f|Shrewsbury=1u|Shunk=1k|Sidman=a|Sigel=w|Silver Spring=z|Silverdale=8|Sinnamahoning=b|Sipesville=1j|Six Mile Run=4|Skippack=19|Skytop=18|Slate Run=14|Slatedale=12|Slatington=12|Slickville=1s|Sligo=f|Slippery Rock=9|Slovan=1q|Smethport=15|Smicksburg=v|Smithfield=p|Smithmill=g|Smithton=1s|Smock=p|Smokerun=g|Smoketown=z|Snow Shoe=d|Snydersburg=f|Snydertown=1c|Solebury=8|Somerset=1j|Souderton=19|South Canaan=1r|South Fork=a|South Gibson=1l|South Heights=3|South Montrose=1l|South Mountain=r|South Park=1|South Sterling=1r|Southampton=8|Southeastern=e|Southview=1q|Southwest=1s|Spangler=a|Spartansburg=j|Spinnerstown=8|Spraggs=t|Sprankle Mills=w|Spring Church=2|Spring City=e|Spring Creek=1p|Spring Glen=1h|Spring Grove=1u|Spring House=19|Spring Mills=d|Spring Mount=19|Spring Run=r|Springboro=j|Springdale=1|Springfield=m|Springs=1j|Springtown=8|Springville=1l|Sproul=6|Spruce Creek=u|Stahlstown=1s|Star Junction=p|Starford=v|Starlight=1r|Starrucca=1r|State College=d|State Line=r|Sterling=1r|Stevens=z|Stevensville=7|Stewartstown=1u|Stillwater=i|Stockdale=1q|Stockertown=1b|Stoneboro=16|Stoystown=1j|Strabane=1q|Strasburg=z|Strattanville=f|Strausstown=5|Strongstown=v|Stroudsburg=18|Stump Creek=w|Sturgeon=1|Sugar Grove=1p|Sugar Run=7|Sugarloaf=13|Summerdale=k|Summerhill=a|Summerville=w|Summit Hill=c|Summit Station=1h|Sumneytown=19|Sunbury=1c|Suplee=e|Susquehanna=1l|Sutersville=1s|Swarthmore=m|Sweet Valley=13|Swengel=1n|Swiftwater=18|Sybertsville=13|Sycamore=t|Sykesville=w|Sylvania=7|Tafton=1f|Talmage=z|Tamaqua=1h|Tamiment=1f|Tannersville=18|Tarentum=1|Tarrs=1s|Tatamy=1b|Taylor=y|Taylorstown=1q|Telford=19|Temple=5|Templeton=2|Terre Hill=z|Thomasville=1u|Thompson=1l|Thompsontown=x|Thorndale=e|Thornton=m|Three Springs=u|Tidioute=1p|Timblin=w|Tioga=1m|Tiona=1p|Tionesta=q|Tipton=6|Tire Hill=1j|Titusville=j|Tobyhanna=18|Todd=u|Topton=5|Torrance=1s|Toughkenamon=e|Towanda=7|Tower City=1h|Townville=j|Trafford=1s|Transfer=16|Treichlers=1b|Tremont=1h|Tresckow=c|Trevorton=1c|Trexlertown=12|Trout Run=14|Troutville=g|Troxelville=1i|Troy=7|Trumbauersville=8|Tunkhannock=1t|Turbotville=1c|Turkey City=f|Turtle Creek=1|Turtlepoint=15|Tuscarora=1h|Twin Rocks=a|Tyler Hill=1r|Tylersburg=f|Tylersport=19|Tyrone=6|Uledi=p|Ulster=7|Ulysses=1g|Union City=o|Union Dale=1l|Uniontown=p|Unionville=e|United=1s|Unityville=14|University Park=d|Upper Black Eddy=8|Upper Darby=m|Upperstrasburg=r|Ursina=1j|Utica=1o|Uwchland=e|Valencia=9|Valier=w|Valley Forge=e|Valley View=1h|Van Voorhis=1q|Vanderbilt=p|Vandergrift=1s|Venango=j|Venetia=1q|Venus=1o|Verona=1|Vestaburg=1q|Vicksburg=1n|Villa Maria=10|Villanova=m|Vintondale=a|Virginville=5|Volant=10|Vowinckel=f|Wagontown=e|Wallaceton=g|Wallingford=m|Walnut Bottom=k|Walnutport=1b|Walston=w|Waltersburg=p|Wampum=10|Wapwallopen=13|Warfordsburg=s|Warminster=8|Warren=1p|Warren Center=7|Warrendale=1|Warrington=8|Warriors Mark=u|Washington=1q|Washington Boro=z|Washington Crossing=8|Washingtonville=1a|Waterfall=s|Waterford=o|Waterville=14|Watsontown=1c|Wattsburg=o|Waverly=y|Waymart=1r|Wayne=m|Waynesboro=r|Waynesburg=t|Weatherly=c|Webster=1s|Weedville=n|Weikert=1n|Wellersburg=1j|Wells Tannery=s|Wellsboro=1m|Wellsville=1u|Wendel=1s|Wernersville=5|West Alexander=1q|West Chester=e|West Decatur=g|West Elizabeth=1|West Finley=1q|West Grove=e|West Hickory=q|West Lebanon=v|West Leisenring=p|West Middlesex=16|West Middletown=1q|West Mifflin=1|West Milton=1n|West Newton=1s|West Pittsburg=10|West Point=19|West Salisbury=1j|West Springfield=o|West Sunbury=9|West Willow=z|Westfield=1m|Westland=1q|Westmoreland City=1s|Weston=13|Westover=g|Westport=h|Westtown=e|Wexford=1|Wheatland=16|White=p|White Deer=1n|White Haven=13|White Mills=1r|Whitehall=12|Whitney=1s|Wickhaven=p|Wiconisco=l|Widnoon=2|Wilburton=i|Wilcox=n|Wildwood=1|Wilkes Barre=13|Williamsburg=6|Williamsport=14|Williamstown=l|Willow Grove=19|Willow Hill=r|Willow Street=z|Wilmerding=1|Wilmore=a|Winburne=g|Wind Gap=1b|Wind Ridge=t|Windber=1j|Windsor=1u|Winfield=1n|Witmer=z|Womelsdorf=5|Wood=4|Woodbury=4|Woodland=g|Woodlyn=m|Woodward=d|Woolrich=h|Worcester=19|Worthington=2|Worthville=w|Woxall=19|Wrightsville=1u|Wyalusing=7|Wyano=1s|Wycombe=8|Wyncote=19|Wynnewood=19|Wyoming=13|Wysox=7|Yatesboro=2|Yeagertown=17|York=1u|York Haven=1u|York New Salem=1u|York Springs=0|Youngstown=1s|Youngsville=1p|Youngwood=1s|Yukon=1s|Zelienople=9|Zieglerville=19|Zion Grove=1h|Zionhill=8|Zionsville=12|Zullinger=r'
+  },
+  RI: {
+    counties: 'Bristol|Kent|Newport|Providence|Washington',
+    zips: '25t:2,1:3,2:4,2:0,1:4,1,1:0,3:4,1,1:3,1,1:1,1,1,4:4,1:3,1,1,1,1:1,1:3,1,1,1,1:4,1,2:2,1:4,1:2,1:3,1,1:2,1,1,a:4,5:3,1,1,1,1,1,1,1,1,6:2,1:0,1:4,1,1,1:3,1:4,1:2,1:4,1,1,1,1,2:0,1:1,1,1,1,2:4,1,1:1,1:4,1:3,1,2:4,3:3,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,j',
+    cities: 'Adamsville=2|Albion=3|Ashaway=4|Barrington=0|Block Island=4|Bradford=4|Bristol=0|Carolina=4|Central Falls=3|Charlestown=4|Chepachet=3|Clayville=3|Coventry=1|Cranston=3|Cumberland=3|East Greenwich=1|East Providence=3|Exeter=4|Fiskeville=3|Forestdale=3|Foster=3|Glendale=3|Greene=1|Greenville=3|Harmony=3|Harrisville=3|Hope=3|Hope Valley=4|Hopkinton=4|Jamestown=2|Johnston=3|Kenyon=4|Kingston=4|Lincoln=3|Little Compton=2|Manville=3|Mapleville=3|Middletown=2|Narragansett=4|Newport=2|North Kingstown=4|North Providence=3|North Scituate=3|North Smithfield=3|Oakland=3|Pascoag=3|Pawtucket=3|Peace Dale=4|Portsmouth=2|Providence=3|Prudence Island=0|Riverside=3|Rockville=4|Rumford=3|Saunderstown=4|Shannock=4|Slatersville=3|Slocum=4|Smithfield=3|Tiverton=2|Wakefield=4|Warren=0|Warwick=1|West Greenwich=1|West Kingston=4|West Warwick=1|Westerly=4|Wood River Junction=4|Woonsocket=3|Wyoming=4'
+  },
+  SC: {
+    counties: 'Abbeville|Aiken|Allendale|Anderson|Bamberg|Barnwell|Beaufort|Berkeley|Calhoun|Charleston|Cherokee|Chester|Chesterfield|Clarendon|Colleton|Darlington|Dillon|Dorchester|Edgefield|Fairfield|Florence|Georgetown|Greenville|Greenwood|Hampton|Horry|Jasper|Kershaw|Lancaster|Laurens|Lee|Lexington|Marion|Marlboro|McCormick|Newberry|Oconee|Orangeburg|Pickens|Richland|Saluda|Spartanburg|Sumter|Union|Williamsburg|York',
+    zips: 'mdl:d,1:13,1:4,3:v,3:r,1:u,4:b,1:j,1:13,2:11,2:r,1,9:8,1:17,1:r,1:v,3,1:z,1:11,1,1:16,1:d,1:4,2:13,1:r,1:u,1:11,1,3:d,1:13,1:v,1,1:b,1:18,2:s,1:11,2:13,1:16,1:13,2:j,2:s,2:f,1:v,1,1,1,1:r,1:z,3:r,1:f,1:u,1:4,1:e,j:c,1:d,2:16,1:14,2:11,1:z,3:d,1:11,1,1:k,1:11,1,1,1,4:z,1:v,2:16,1:z,1,1:16,1:14,1:j,2,1:11,2:8,2:1,1:14,4:11,1:d,2:z,1:11,1:13,1:d,2:16,1,1,1,1,6:v,1:k,1:d,1:11,1:1,2:14,2:16,1:v,1,1,1,3:r,2:13,1:z,2:j,l:13,1,1,1,1,1,1,1,1,1,1,1:v,2:13,1,1,1,1,1,1,1,1,1,1,1,1,1,1:v,1:13,1,a,a,a,u,2,9:15,1,1,1,1,1,1,9,3,1,1:17,1:15,1,1,1:t,4:15,1,1,1:t,1:15,1,1,1,2,2:a,1,1,4:15,2,1,2:t,2:17,2:z,1:15,4:t,4:17,1:15,3,1,1:t,2:15,1,1,1,1,1,1,1:17,5:t,1:15,1,2,7:17,6:9,1,1,1,1,1,1,2,1:7,2:9,1,1,1,1,1,1,1,1:h,2:9,1,1,1,1,3,2:7,1:11,1:e,1:7,1:e,1:7,1:h,1:e,1:9,1:l,2,3:7,1:e,1:h,1,1:9,1:7,1:9,1:e,1:7,2:9,1:7,1:9,1,3:7,3:9,1,1,2:7,1,1:9,1:h,1,2:e,1,1:7,1:h,2:7,2:e,1:9,1:h,1,1,1:7,1:9,1:e,4:7,1:e,8:k,1,1,1,1,1,4:l,1:p,1:x,4,2:18,1:w,1:c,5:x,1:p,1,1,2:k,2:f,4:g,4:f,1:k,2:g,1:p,1,1:w,1:g,3:f,1,3:18,1:k,1:18,4:k,3:g,1:18,1:g,1:p,1:g,1:p,1,1:x,1:w,1:p,2:w,1:p,1:l,1:p,1,1,1:18,1:p,1,1:k,1:c,1:l,2:p,1,1:w,1:18,1:k,1:w,1:f,1:x,2,1:p,1,3:m,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,3:0,1:3,1,1,1,1,1,1,1:0,2:12,1,1,1,1,1:m,1,2:0,1,1:12,1,1,1:10,1:m,1:t,1:n,1,1,1,1:m,1,1,1:n,1:3,1,1,1:12,1:10,1:0,2:m,1,2:10,1,1:n,1:12,2:3,1,1:12,1:10,1:m,2:10,1,1:3,1:10,1,1:m,1,1:12,1:m,1:3,1:12,1:10,1:m,1,1:3,1:m,1:10,1:n,1:10,2:n,1:10,1:3,5:a,1:19,1,2:b,1:s,1:19,1:c,1:19,2:b,2,1:19,1,1,1:c,2:s,1,1,2:b,2:19,1:c,1,1:b,1:19,1,1,1,1,7:c,1:19,1,1:s,1:19,1k:1,1,1,1,1,3,1,1:2,2:5,1,3:1,1:5,2:n,2:y,1:1,2:i,2:5,1:2,1:1,1,2,1:i,2:1,1:y,1:2,2:y,1:1,1:y,1:1,1,1:4,1:y,1,1:2,1:i,1:n,1:2,1:1,1,2:5,3:1,4,1,12:y,2:6,1,1,1,1,1,1,2:q,1:6,1:o,1:q,1:o,1:6,1,1:o,2,2:6,1:o,1,1,1,1:6,1,1:q,1:6,1:e,2:6,1:o,1,1:q,1:6,1:q,2:6,1:o,1:6,1,2:q,1:o,1',
+    cities: 'Abbeville=0|Adams Run=9|Aiken=1|Alcolu=d|Allendale=2|Anderson=3|Andrews=l|Arcadia=15|Awendaw=9|Aynor=p|Ballentine=13|Bamberg=4|Barnwell=5|Batesburg=v|Bath=1|Beaufort=6|Beech Island=1|Belton=3|Bennettsville=x|Bethune=r|Bishopville=u|Blacksburg=a|Blackstock=b|Blackville=5|Blair=j|Blenheim=x|Bluffton=6|Blythewood=13|Boiling Springs=15|Bonneau=7|Bowling Green=19|Bowman=11|Bradley=n|Branchville=11|Brunson=o|Buffalo=17|Cades=18|Calhoun Falls=0|Camden=r|Cameron=8|Campobello=15|Canadys=e|Carlisle=17|Cassatt=r|Catawba=19|Cayce=v|Centenary=w|Central=12|Chapin=v|Chappells=z|Charleston=9|Charleston Afb=9|Cheraw=c|Chesnee=15|Chester=b|Chesterfield=c|Clarks Hill=y|Clearwater=1|Clemson=12|Cleveland=m|Clifton=15|Clinton=t|Clio=x|Clover=19|Columbia=13|Conestee=m|Converse=15|Conway=p|Coosawhatchie=q|Cope=11|Cordesville=7|Cordova=11|Cottageville=e|Coward=k|Cowpens=15|Crocketville=o|Cross=7|Cross Anchor=15|Cross Hill=t|Dale=6|Dalzell=16|Darlington=f|Daufuskie Island=6|Davis Station=d|Denmark=4|Dillon=g|Donalds=0|Dorchester=h|Drayton=15|Due West=0|Duncan=15|Early Branch=o|Easley=12|Eastover=13|Edgefield=i|Edgemoor=b|Edisto Island=e|Effingham=k|Ehrhardt=4|Elgin=r|Elko=5|Elliott=u|Elloree=11|Enoree=15|Estill=o|Eutawville=11|Fair Play=10|Fairfax=2|Fairforest=15|Fingerville=15|Florence=k|Folly Beach=9|Fork=g|Fort Lawn=b|Fort Mill=19|Fountain Inn=m|Furman=o|Gable=d|Gadsden=13|Gaffney=a|Galivants Ferry=p|Garnett=o|Gaston=v|Georgetown=l|Gifford=o|Gilbert=v|Glendale=15|Gloverville=1|Goose Creek=7|Gramling=15|Graniteville=1|Gray Court=t|Great Falls=b|Greeleyville=18|Green Pond=e|Green Sea=p|Greenville=m|Greenwood=n|Greer=m|Gresham=w|Grover=h|Hamer=g|Hampton=o|Hanahan=7|Hardeeville=q|Harleyville=h|Hartsville=f|Heath Springs=s|Hemingway=18|Hickory Grove=19|Hilda=5|Hilton Head Island=6|Hodges=n|Holly Hill=11|Hollywood=9|Honea Path=3|Hopkins=13|Horatio=16|Huger=7|Inman=15|Irmo=13|Islandton=e|Isle Of Palms=9|Iva=3|Jackson=1|Jacksonboro=e|Jamestown=7|Jefferson=c|Jenkinsville=j|Joanna=t|Johns Island=9|Johnsonville=k|Johnston=i|Jonesville=17|Kershaw=s|Kinards=z|Kingstree=18|La France=3|Ladson=7|Lake City=k|Lake View=g|Lamar=f|Lancaster=s|Lando=b|Landrum=15|Lane=18|Langley=1|Latta=g|Laurens=t|Leesville=v|Lexington=v|Liberty=12|Liberty Hill=r|Little Mountain=z|Little River=p|Little Rock=g|Lobeco=6|Lockhart=17|Lodge=e|Long Creek=10|Longs=p|Loris=p|Lowndesville=0|Lugoff=r|Luray=o|Lydia=f|Lyman=15|Lynchburg=u|Manning=d|Marietta=m|Marion=w|Martin=2|Mauldin=m|Mayesville=16|Mayo=15|Mc Bee=c|Mc Clellanville=9|Mc Coll=x|Mc Connells=19|Mc Cormick=y|Miley=o|Modoc=y|Moncks Corner=7|Monetta=14|Montmorenci=1|Moore=15|Mount Carmel=y|Mount Croghan=c|Mount Pleasant=9|Mountain Rest=10|Mountville=t|Mullins=w|Murrells Inlet=l|Myrtle Beach=p|Neeses=11|Nesmith=18|New Ellenton=1|New Zion=d|Newberry=z|Newry=10|Nichols=p|Ninety Six=n|Norris=12|North=11|North Augusta=1|North Charleston=9|North Myrtle Beach=p|Norway=11|Okatie=q|Olanta=k|Olar=4|Orangeburg=11|Pacolet=15|Pacolet Mills=15|Pageland=c|Pamplico=k|Parksville=y|Parris Island=6|Patrick=c|Pauline=15|Pawleys Island=l|Peak=z|Pelion=v|Pelzer=3|Pendleton=3|Pickens=12|Piedmont=m|Pineland=q|Pineville=7|Pinewood=16|Pinopolis=7|Plum Branch=y|Pomaria=z|Port Royal=6|Prosperity=z|Rains=w|Ravenel=9|Reevesville=h|Reidville=15|Rembert=16|Richburg=b|Richland=10|Ridge Spring=14|Ridgeland=q|Ridgeville=h|Ridgeway=j|Rion=j|Rock Hill=19|Roebuck=15|Round O=e|Rowesville=11|Ruby=c|Ruffin=e|Russellville=7|Saint George=h|Saint Helena Island=6|Saint Matthews=8|Saint Stephen=7|Salem=10|Salley=1|Salters=18|Saluda=14|Sandy Springs=3|Santee=11|Sardinia=d|Scotia=o|Scranton=k|Seabrook=6|Sellers=w|Seneca=10|Sharon=19|Shaw Afb=16|Sheldon=6|Silverstreet=z|Simpsonville=m|Six Mile=12|Slater=m|Smoaks=e|Smyrna=19|Society Hill=f|Spartanburg=15|Springfield=11|Starr=3|Startex=15|State Park=13|Sullivans Island=9|Summerton=d|Summerville=h|Sumter=16|Sunset=12|Swansea=v|Sycamore=2|Tamassee=10|Tatum=x|Taylors=m|Tigerville=m|Tillman=q|Timmonsville=k|Townville=3|Travelers Rest=m|Trenton=i|Troy=n|Turbeville=d|Ulmer=2|Una=15|Union=17|Van Wyck=s|Vance=11|Varnville=o|Vaucluse=1|Wadmalaw Island=9|Wagener=1|Walhalla=10|Wallace=x|Walterboro=e|Ward=14|Ware Shoals=n|Warrenville=1|Waterloo=t|Wedgefield=16|Wellford=15|West Columbia=v|West Union=10|Westminster=10|Westville=r|White Rock=13|White Stone=15|Whitmire=z|Williams=e|Williamston=3|Williston=5|Windsor=1|Winnsboro=j|Woodruff=15|Yemassee=o|York=19'
+  },
+  SD: {
+    counties: 'Aurora|Beadle|Bennett|Bon Homme|Brookings|Brown|Brule|Buffalo|Butte|Campbell|Charles Mix|Clark|Clay|Codington|Corson|Custer|Davison|Day|Deuel|Dewey|Douglas|Edmunds|Fall River|Faulk|Grant|Gregory|Haakon|Hamlin|Hand|Hanson|Harding|Hughes|Hutchinson|Hyde|Jackson|Jerauld|Jones|Kingsbury|Lake|Lawrence|Lincoln|Lyman|Marshall|McCook|McPherson|Meade|Mellette|Miner|Minnehaha|Moody|Oglala Lakota|Pennington|Perkins|Potter|Roberts|Sanborn|Spink|Stanley|Sully|Todd|Tripp|Turner|Union|Walworth|Yankton|Ziebach',
+    zips: '17zd:1q,1:4,1:1c,1:1q,1:1c,1:4,1,3:c,2:17,1:14,1:1p,1,1:12,1:1d,1:1c,2,1:1p,1:1c,2:1d,1:1q,1:4,1:14,1:1d,1:w,1:1c,1:1s,1:14,1:1c,1:14,1:1c,1:1p,1:c,1:1q,1:14,1:1s,1:1c,1:12,1:1p,2:w,1:1s,1:1p,1:17,1:1q,1:12,1:11,1:w,1:1p,1:12,1:1c,2:12,1:17,1:3,2:4,1:3,1,1:14,1:1d,1:3,1:1s,1:1c,1:c,1:1p,1:4,1:1s,1:c,2:12,1,1:14,1:1s,n:1c,2,1,1,1,1,1,1,1,7,1,1w,7,4,1,3:d,b:11,1:i,1:11,2:o,1:b,1:i,1:h,1:4,1:r,2,1:1i,1:b,1:i,1:1i,4:11,1:16,1:11,1:r,1:d,1:b,1:i,1,1:h,2:r,1,1:d,2,1:o,1:16,1:r,1:11,2:o,1,3:1i,1,1,1:b,1:o,1:1i,1:h,1:1i,1:d,1:o,1,1:1i,2:i,1:o,1:16,1:b,1:d,1:h,1,2:4,2:b,1:1i,m:g,a:t,1:z,1:k,1:1j,1:3,2:p,2:17,2:1b,1:b,1:1b,1:1,1:6,1,2:k,1:a,1:k,1:w,1:t,2:g,1:p,2:1b,2:7,1:t,1:7,1:a,2:k,1:x,1,2:1,1:1b,1:1,3:11,1:w,1:6,1:a,2:z,1:1j,2:a,1:s,1:g,1:k,1:15,1:w,1:a,1:0,1:a,1:6,1:s,2,1:17,1:0,1:w,3:1,1:a,1:1,1:z,1:0,1:1,1:1j,1:1,d,2:5,1,i:1r,1:16,1:h,2:1k,2:5,1,1:l,1:1k,1:16,2:5,1,1:1k,1:n,1:1k,1:18,1:n,1:5,1:1k,1:5,1:1h,3:5,1,2:l,1:5,1:1h,1:l,1:1r,2:16,1:1h,1:18,1,3:1k,1,4,1:n,1,1:h,1:1k,1:n,1:l,1:1r,1:n,1:5,1:1h,1:1k,1,2:5,2,k:v,j:1m,1:y,1:v,1:p,5:1o,1:p,2:10,1:1l,1:p,1:1o,2:v,1:1l,1:p,2:x,1:1o,2:y,1:15,3:y,1:15,3:2,1:q,1,2:1n,4:10,1:1a,2:10,1:1n,1:1m,2:1n,1:q,1:15,1,1:1n,1:p,1:1n,2:2,2:15,1:y,2:1a,1:1o,4,1:1a,g:1r,j:1g,1:e,1:1t,1,2:j,1:19,4:j,1:1r,1:9,1:j,1:e,2:j,2:1g,1:e,1:1g,1:e,1,2:1g,1:e,1:9,2,1:1g,1:u,1,1:j,4,1:e,1,1,1,1:j,14:1f,1,1,3:19,3:1f,5:2,2,1:8,1:19,1:1f,1:u,2:f,2:u,1:1f,5:f,2:13,3:m,2:19,1:f,3:19,3:f,1:1f,2:m,1:19,2:y,1:1f,1:1e,2:13,1:u,1:1e,2:19,1:13,1:8,1:1f,1:8,1:m,1:1e,2:m,1:1f,2:19,1:1e,2,1:f,2:1f,1:u,3:13,1:1f,2:m,1:13,2:19,2,1:8,2:1f,1,1:19,1:13,1:1e,5:13',
+    cities: 'Aberdeen=5|Agar=1m|Akaska=1r|Alcester=1q|Alexandria=t|Allen=2|Alpena=z|Amherst=16|Andover=h|Arlington=11|Armour=k|Artesian=1j|Ashton=1k|Astoria=i|Aurora=4|Avon=3|Badger=11|Baltic=1c|Barnard=5|Batesland=2|Bath=5|Belle Fourche=8|Belvidere=y|Beresford=1q|Big Stone City=o|Bison=1g|Black Hawk=19|Blunt=v|Bonesteel=p|Bowdle=l|Box Elder=1f|Bradley=b|Brandon=1c|Brandt=i|Brentford=1k|Bridgewater=17|Bristol=h|Britton=16|Brookings=4|Bruce=4|Bryant=r|Buffalo=u|Buffalo Gap=f|Bullhead=e|Burbank=c|Burke=p|Camp Crook=u|Canistota=17|Canova=1b|Canton=14|Caputa=1f|Carpenter=b|Carthage=1b|Castlewood=r|Cavour=1|Centerville=1p|Chamberlain=6|Chancellor=1p|Cherry Creek=1t|Chester=12|Claire City=1i|Claremont=5|Clark=b|Clear Lake=i|Colman=1d|Colome=1o|Colton=1c|Columbia=5|Conde=1k|Corona=1i|Corsica=k|Cresbard=n|Crooks=1c|Custer=f|Dallas=p|Dante=a|Davis=1p|De Smet=11|Deadwood=13|Dell Rapids=1c|Delmont=k|Dimock=w|Doland=1k|Draper=10|Dupree=1t|Eagle Butte=j|Eden=16|Edgemont=m|Egan=1d|Elk Point=1q|Elkton=4|Ellsworth Afb=19|Emery=t|Enning=19|Erwin=11|Estelline=r|Ethan=g|Eureka=18|Fairburn=f|Fairfax=p|Fairview=14|Faith=19|Faulkton=n|Fedora=1b|Ferney=5|Flandreau=1d|Florence=d|Fort Meade=19|Fort Pierre=1l|Fort Thompson=7|Frankfort=1k|Frederick=5|Freeman=w|Fulton=t|Gann Valley=7|Garden City=b|Garretson=1c|Gary=i|Gayville=1s|Geddes=a|Gettysburg=1h|Glencross=j|Glenham=1r|Goodwin=i|Gregory=p|Grenville=h|Groton=5|Hamill=1o|Harrisburg=14|Harrison=k|Harrold=v|Hartford=1c|Hayes=1l|Hayti=r|Hazel=r|Hecla=5|Henry=d|Hermosa=f|Herreid=9|Herrick=p|Highmore=x|Hill City=1f|Hitchcock=1|Holabird=x|Hosmer=l|Hot Springs=m|Houghton=5|Hoven=1h|Howard=1b|Howes=19|Hudson=14|Humboldt=1c|Hurley=1p|Huron=1|Ideal=1o|Interior=y|Ipswich=l|Irene=c|Iroquois=11|Isabel=j|Java=1r|Jefferson=1q|Kadoka=y|Kaylor=w|Keldron=e|Kennebec=15|Keystone=1f|Kimball=6|Kranzburg=d|Kyle=1e|Labolt=o|Lake Andes=a|Lake City=16|Lake Norden=r|Lake Preston=11|Lane=z|Langford=16|Lantry=j|Lead=13|Lebanon=1h|Lemmon=1g|Lennox=14|Leola=18|Lesterville=1s|Letcher=1j|Little Eagle=e|Lodgepole=1g|Long Lake=18|Long Valley=y|Lower Brule=15|Ludlow=u|Lyons=1c|Madison=12|Manderson=1e|Mansfield=1k|Marion=1p|Martin=2|Marty=a|Marvin=o|Mc Intosh=e|Mc Laughlin=e|Meadow=1g|Mellette=1k|Menno=w|Midland=q|Milbank=o|Milesville=q|Miller=s|Mission=1n|Mission Hill=1s|Mitchell=g|Mobridge=1r|Monroe=1p|Montrose=17|Morristown=e|Mound City=9|Mount Vernon=g|Mud Butte=19|Murdo=10|Nemo=13|New Effington=1i|New Holland=k|New Underwood=1f|Newell=8|Nisland=8|Norris=1a|North Sioux City=1q|Northville=1k|Nunda=12|Oacoma=15|Oelrichs=m|Oglala=1e|Okaton=10|Okreek=1n|Oldham=11|Olivet=w|Onaka=n|Onida=1m|Oral=m|Orient=n|Ortley=1i|Owanka=1f|Parker=1p|Parkston=w|Parmelee=1n|Peever=1i|Philip=q|Pickstown=a|Piedmont=19|Pierpont=h|Pierre=v|Pine Ridge=1e|Plankinton=0|Platte=a|Pollock=9|Porcupine=1e|Prairie City=1g|Presho=15|Pringle=f|Pukwana=6|Quinn=1f|Ralph=u|Ramona=12|Rapid City=1f|Raymond=b|Redfield=1k|Redig=u|Ree Heights=s|Reliance=15|Renner=1c|Reva=u|Revillo=o|Ridgeview=j|Rockham=n|Roscoe=l|Rosebud=1n|Rosholt=1i|Roslyn=h|Rutland=12|Saint Charles=p|Saint Francis=1n|Saint Lawrence=s|Saint Onge=13|Salem=17|Scenic=1f|Scotland=3|Selby=1r|Seneca=n|Sinai=4|Sioux Falls=1c|Sisseton=1i|Smithwick=m|South Shore=d|Spearfish=13|Spencer=17|Springfield=3|Stephan=x|Stickney=0|Stockholm=o|Strandburg=o|Stratford=5|Sturgis=19|Summit=1i|Tabor=3|Tea=14|Timber Lake=j|Tolstoy=1h|Toronto=i|Trail City=e|Trent=1d|Tripp=w|Tulare=1k|Turton=1k|Tuthill=2|Twin Brooks=o|Tyndall=3|Union Center=19|Utica=1s|Vale=8|Valley Springs=1c|Veblen=16|Vermillion=c|Viborg=1p|Vienna=b|Virgil=1|Vivian=15|Volga=4|Volin=1s|Wagner=a|Wakonda=c|Wakpala=e|Walker=e|Wall=1f|Wallace=d|Wanblee=y|Warner=5|Wasta=1f|Watauga=e|Watertown=d|Waubay=h|Webster=h|Wentworth=12|Wessington=1|Wessington Springs=z|Westport=5|White=4|White Lake=0|White Owl=19|White River=1a|Whitehorse=j|Whitewood=13|Willow Lake=b|Wilmot=1i|Winfred=12|Winner=1o|Witten=1o|Wolsey=1|Wood=1a|Woonsocket=1j|Worthing=14|Wounded Knee=1e|Yale=1|Yankton=1s'
+  },
+  TN: {
+    counties: 'Anderson|Bedford|Benton|Bledsoe|Blount|Bradley|Campbell|Cannon|Carroll|Carter|Cheatham|Chester|Claiborne|Clay|Cocke|Coffee|Crockett|Cumberland|Davidson|DeKalb|Decatur|Dickson|Dyer|Fayette|Fentress|Franklin|Gibson|Giles|Grainger|Greene|Grundy|Hamblen|Hamilton|Hancock|Hardeman|Hardin|Hawkins|Haywood|Henderson|Henry|Hickman|Houston|Humphreys|Jackson|Jefferson|Johnson|Knox|Lake|Lauderdale|Lawrence|Lewis|Lincoln|Loudon|Macon|Madison|Marion|Marshall|Maury|McMinn|McNairy|Meigs|Monroe|Montgomery|Moore|Morgan|Obion|Overton|Perry|Pickett|Polk|Putnam|Rhea|Roane|Robertson|Rutherford|Scott|Sequatchie|Sevier|Shelby|Smith|Stewart|Sullivan|Sumner|Tipton|Trousdale|Unicoi|Union|Van Buren|Warren|Washington|Wayne|Weakley|White|Williamson|Wilson',
+    zips: 'sk2:21,1:i,1:j,1:i,1:2l,1:a,1:7,2:f,1:1k,1:1,2:2a,1:28,1:2l,1:14,1:7,1:2l,1:28,1:l,1:27,1:2a,1:21,1:14,1:1k,1:a,1:l,1:22,3:1q,1,1,1,1,2:2l,1:1k,1:2a,1:21,1:28,1:l,1:1q,3:l,1,1:27,1:28,1:j,1:22,1:15,1:2l,1:22,1:2l,1,1:2a,1:2l,1,1,1:i,1:2m,1:i,1:21,1:2c,1:2a,1:i,1:2a,1:16,1:28,1:i,2:a,1:1h,2:22,1,1:2m,1,1:22,1:2m,1:1k,4:j,1:1v,1,1:14,3:16,9:2g,1,4:i,1,2:22,1:2a,2:2m,1,5:22,1,1,1,1,1,1,1:16,1:2l,1:2m,1:14,1:i,2:14,1:21,1:1q,1:a,1:1f,1:27,1:a,2:2a,1:7,1:1h,1:27,1:21,1:22,7:1,1,1,3:l,1:j,1:22,4:1q,1:21,2:1l,1:15,3,1:2l,1:1,1:l,2:1,1:2m,1:16,1:2a,1:l,1:21,1:i,1:7,1:1q,a:i,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,3,1,1,1,2,2,1,1,2,2,1,1,1,1,2,4,1f:u,1:w,1:1m,1:w,1:u,1:p,1:1x,1:w,1:1m,1:5,1,1,1:u,1:1p,1:w,1:1x,1,1:p,2:5,1:1z,1:1o,1:5,1:p,1:1x,1,1:24,1:1f,1:1m,1:p,1:1m,1:1z,1:1x,1:1f,1,1:1o,1:1z,1,1:u,1:1j,1:w,1:f,1:w,2:p,2:1j,1:1f,1:f,1:w,1,1:1r,1:5,1:1p,1:f,1:u,1:2g,2:1f,1:1,1:1x,1,1:w,1:5,1:u,1,1:3,2:1x,1:1m,1,2:w,1:1j,1:p,1,1:w,1:2g,1:w,1:1j,1:1z,1:f,1:p,1:w,1:1p,2:u,1:f,1,2:1x,3:2g,2:1j,1,1:p,3:w,1,1,1,1,1,1,1,1,1,1,1,2,1,1,3,2,1,2,q,1f:26,17,1l:2h,1,2,1,9,1,1:t,1:29,1,2,1,4,f:19,1:t,1:10,1:9,1,1:10,5:2d,6:2h,1:2d,1:9,1:2h,1:29,2,1,1,1,4,b:19,1:2h,1:9,1:19,1:2h,2:29,1:9,1:19,2:2h,1:19,1:2d,2:9,5:29,2:4,4:0,2:c,1:s,1,1:0,1:10,2:e,1:6,1:c,1:0,1,2:1s,2:1a,1:e,1:h,1:c,1:18,1:1s,1:e,2:6,1:c,1:10,1:23,1:1s,4:4,1:25,4:1g,1:t,1,1,3:20,4:c,1:e,1:1a,1:23,1,1:6,3:18,2:6,1:20,1:25,1:x,1:6,3:0,1:1s,1:1g,1,1:c,1:1g,3:4,1:v,1:2e,m:4,1,1,1,2:1a,1:2e,2:t,1,1:10,2:v,1,1,1,2:t,1:6,1:18,1:e,1,2:c,1,1:1m,2:0,1:1s,1:0,1,9:1s,1:23,2:e,2:1s,1:1g,1:6,1:s,1:1a,2:c,1:23,1:4,1:20,3:10,3:v,1:s,1:25,1,1,1,1:2e,1:c,1:25,1:x,1:c,1:18,1:1s,1:10,1:1p,2:25,1:v,1:4,1:c,1:1o,1:s,1:4,3:1p,1:4,1:1s,1:s,2:18,1:v,1:23,9:1a,1,7,3,2,1,1,1,1,1,1,1,1,1,1,3,1,1,1,1,1,1,1,4,1,1,a,19,1,1,1,3:g,1:26,2:2b,2:g,1:m,1:y,2:n,1:2b,1:11,2:26,1:2b,1:26,1,1,1:2b,2:g,2:2b,1:m,1,2:26,1,1,1:m,4:g,2:n,1:1c,2:y,1:1c,1,1:y,2,1:n,1,1:m,1:n,1:2b,1:g,2:y,1:26,1,1,2:n,1:2b,1:m,1:n,1:y,2:1c,3:n,1:y,1:n,1:11,1:m,1:2b,4:y,1:n,1:1b,2,1,3:26,5,d,2,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,2,2,1,1,1,1,2,1,1,1,1,1,1,1,1,1,2,4,3,2,1,1,5,2,2,2,3,1,1,5,1,1,2,4,1,1,1,2,1,1,2,3,1,3,4:8,j,1:2,1:13,1,1,1:2j,1,3,1,1:13,1:1t,1:q,2:8,1:13,1:2j,1,2:1t,1:2j,1:13,9,2:1t,1,1:2j,1:13,1:1t,1:8,1:m,1:1t,1,a,a,k:1i,1,1,2,3,2:1n,1:k,2:1i,1,1:1n,1:q,1:8,1,2:2,1:8,3,2:z,1,1:12,1:k,1:q,1,1:b,1:2,1:1n,2:g,1,1:q,1:1n,1:b,1:2,1:8,1:q,1:8,1:12,1:q,1:b,1:8,3:12,1:b,3:q,1:1i,1:1n,1:q,1:1n,2:z,1:1i,1:k,2:z,1:1i,1:1n,1:12,1:q,1:z,1:12,1:z,2:k,1:1n,1:z,1:y,1:1i,1:1n,1:k,1:y,1:q,5:8,1:12,1:q,1:8,1:1i,1,1:1n,8:1l,1,n:2i,o:r,1:2i,1:1l,1:2i,1:1f,1:14,1:r,1:1d,1,2:r,1,1:1l,1:1e,1:1d,1,4,1,2:2i,1:r,1,1:1l,1:z,1:14,1:r,1,3:1d,1:1l,1:1d,2:2i,1:1d,1:1l,1:1f,d:1y,1,1,1:o,1:1y,1,z:1u,1,1,1:1y,1,2:27,1:1y,1:1w,1:2g,1:d,1:27,1:o,1:1u,1:h,1:o,1:h,1,1:2k,1:27,2:17,1:27,1:17,1:o,2:27,1:1u,1:27,1:1u,1:h,1,1:1u,1:1y,1:d,2:o,1:h,1:2k,1:1u,1:2g,1:1y,1:2k,2:2f,2:2k,1:17,1:o',
+    cities: 'Adams=21|Adamsville=1n|Afton=t|Alamo=g|Alcoa=4|Alexandria=j|Allardt=o|Allons=1u|Allred=1u|Alpine=1u|Altamont=u|Andersonville=0|Antioch=i|Apison=w|Ardmore=r|Arlington=26|Arnold Afb=f|Arrington=2l|Arthur=c|Ashland City=a|Athens=1m|Atoka=2b|Atwood=8|Auburntown=7|Bakewell=w|Bath Springs=k|Baxter=1y|Bean Station=s|Beech Bluff=1i|Beechgrove=f|Beersheba Springs=u|Belfast=1k|Bell Buckle=1|Bells=g|Belvidere=p|Benton=1x|Bethel Springs=1n|Bethpage=2a|Big Rock=28|Big Sandy=2|Birchwood=w|Blaine=s|Bloomington Springs=1y|Blountville=29|Bluff City=29|Bogota=m|Bolivar=y|Bon Aqua=14|Braden=n|Bradford=q|Bradyville=7|Brentwood=2l|Briceville=0|Brighton=2b|Bristol=29|Brownsville=11|Bruceton=8|Brunswick=26|Brush Creek=27|Buchanan=13|Buena Vista=8|Buffalo Valley=1y|Bulls Gap=10|Bumpus Mills=28|Burlison=2b|Burns=l|Butler=19|Bybee=e|Byrdstown=1w|Calhoun=1m|Camden=2|Campaign=2g|Carthage=27|Caryville=6|Castalian Springs=2a|Cedar Grove=8|Cedar Hill=21|Celina=d|Centerville=14|Chapel Hill=1k|Chapmansboro=a|Charleston=5|Charlotte=l|Chattanooga=w|Chestnut Mound=27|Chewalla=1n|Christiana=22|Chuckey=t|Church Hill=10|Clairfield=c|Clarkrange=o|Clarksburg=8|Clarksville=1q|Cleveland=5|Clifton=2i|Clinton=0|Coalfield=1s|Coalmont=u|Cokercreek=1p|College Grove=2l|Collegedale=w|Collierville=26|Collinwood=2i|Columbia=1l|Como=13|Conasauga=1x|Cookeville=1y|Copperhill=1x|Cordova=26|Cornersville=1k|Corryton=1a|Cosby=e|Cottage Grove=13|Cottontown=2a|Counce=z|Covington=2b|Cowan=p|Crab Orchard=h|Crawford=1u|Crockett Mills=g|Cross Plains=21|Crossville=h|Crump=z|Culleoka=1l|Cumberland City=28|Cumberland Furnace=l|Cumberland Gap=c|Cunningham=1q|Cypress Inn=2i|Dandridge=18|Darden=12|Dayton=1z|Decatur=1o|Decaturville=k|Decherd=p|Deer Lodge=1s|Del Rio=e|Delano=1x|Dellrose=1f|Denmark=1i|Dickson=l|Dixon Springs=27|Dover=28|Dowelltown=j|Doyle=2k|Dresden=2j|Drummonds=2b|Duck River=14|Ducktown=1x|Duff=6|Dukedom=2j|Dunlap=24|Dyer=q|Dyersburg=m|Eads=26|Eagan=c|Eagleville=22|Eaton=q|Eidson=10|Elgin=23|Elizabethton=9|Elkton=r|Ellendale=26|Elmwood=27|Elora=1f|Englewood=1m|Enville=b|Erin=15|Erwin=2d|Estill Springs=p|Ethridge=1d|Etowah=1m|Eva=2|Evensville=1z|Fairview=2l|Fall Branch=2h|Farner=1x|Fayetteville=1f|Finger=1n|Finley=m|Five Points=1d|Flag Pond=2d|Flintville=1f|Fosterville=22|Frankewing=r|Franklin=2l|Friendship=g|Friendsville=4|Fruitvale=g|Gadsden=g|Gainesboro=17|Gallatin=2a|Gallaway=n|Gates=1c|Gatlinburg=25|Georgetown=1o|Germantown=26|Gibson=q|Gladeville=2m|Gleason=2j|Goodlettsville=i|Goodspring=r|Gordonsville=27|Grand Junction=y|Grandview=1z|Granville=17|Graysville=1z|Greenback=1g|Greenbrier=21|Greeneville=t|Greenfield=2j|Grimsley=o|Gruetli Laager=u|Guild=1j|Guys=1n|Halls=1c|Hampshire=1l|Hampton=9|Harriman=20|Harrison=w|Harrogate=c|Hartford=e|Hartsville=2c|Heiskell=1a|Helenwood=23|Henderson=b|Hendersonville=2a|Henning=1c|Henry=13|Hermitage=i|Hickman=27|Hickory Valley=y|Hilham=1u|Hillsboro=f|Hixson=w|Hohenwald=1e|Holladay=2|Hollow Rock=8|Hornbeak=1t|Hornsby=y|Humboldt=q|Huntingdon=8|Huntland=p|Huntsville=23|Huron=12|Hurricane Mills=16|Idlewild=q|Indian Mound=28|Iron City=1d|Jacks Creek=b|Jacksboro=6|Jackson=1i|Jamestown=o|Jasper=1j|Jefferson City=18|Jellico=6|Joelton=i|Johnson City=2h|Jonesborough=2h|Kelso=1f|Kenton=q|Kingsport=29|Kingston=20|Kingston Springs=a|Knoxville=1a|Kodak=25|Kyles Ford=x|La Follette=6|La Grange=n|La Vergne=22|Laconia=n|Lafayette=1h|Lake City=0|Lancaster=27|Lancing=1s|Lascassas=22|Laurel Bloomery=19|Lavinia=8|Lawrenceburg=1d|Lebanon=2m|Lenoir City=1g|Lenox=m|Leoma=1d|Lewisburg=1k|Lexington=12|Liberty=j|Limestone=2h|Linden=1v|Livingston=1u|Lobelville=1v|Lone Mountain=c|Lookout Mountain=w|Loretto=1d|Loudon=1g|Louisville=4|Lowland=v|Lupton City=w|Luray=b|Luttrell=2e|Lutts=2i|Lyles=14|Lynchburg=1r|Lynnville=r|Macon=n|Madison=i|Madisonville=1p|Manchester=f|Mansfield=13|Martin=2j|Maryville=4|Mascot=1a|Mason=2b|Maury City=g|Maynardville=2e|Mc Donald=5|Mc Ewen=16|Mc Kenzie=8|Mc Lemoresville=8|Mcminnville=2g|Medina=q|Medon=1i|Memphis=26|Mercer=1i|Michie=1n|Middleton=y|Midway=t|Milan=q|Milledgeville=1n|Milligan College=9|Millington=26|Milton=22|Minor Hill=r|Mitchellville=2a|Mohawk=t|Monroe=1u|Monteagle=u|Monterey=1y|Mooresburg=10|Morris Chapel=z|Morrison=2g|Morristown=v|Moscow=n|Mosheim=t|Moss=d|Mount Carmel=10|Mount Juliet=2m|Mount Pleasant=1l|Mountain City=19|Mountain Home=2h|Mulberry=1f|Munford=2b|Murfreesboro=22|Nashville=i|New Johnsonville=16|New Market=18|New Tazewell=c|Newbern=m|Newcomb=6|Newport=e|Niota=1m|Nolensville=2l|Norene=2m|Normandy=1|Norris=0|Nunnelly=14|Oak Ridge=0|Oakdale=1s|Oakfield=1i|Oakland=n|Obion=1t|Ocoee=1x|Old Fort=1x|Old Hickory=i|Olivehill=z|Oliver Springs=1s|Oneida=23|Only=14|Ooltewah=w|Orlinda=21|Pall Mall=o|Palmer=u|Palmersville=2j|Palmyra=1q|Paris=13|Parrottsville=e|Parsons=k|Pegram=a|Pelham=u|Petersburg=1f|Petros=1s|Philadelphia=1g|Pickwick Dam=z|Pigeon Forge=25|Pikeville=3|Piney Flats=29|Pinson=1i|Pioneer=6|Pleasant Hill=h|Pleasant Shade=27|Pleasant View=a|Pocahontas=y|Portland=2a|Powder Springs=s|Powell=1a|Primm Springs=14|Prospect=r|Pruden=c|Pulaski=r|Puryear=13|Quebeck=2k|Ramer=1n|Readyville=7|Reagan=12|Red Boiling Springs=1h|Reliance=1x|Riceville=1m|Rickman=1u|Riddleton=27|Ridgely=1b|Ridgetop=21|Ripley=1c|Rives=1t|Roan Mountain=9|Robbins=23|Rock Island=2g|Rockford=4|Rockvale=22|Rockwood=20|Rogersville=10|Rossville=n|Rugby=1s|Russellville=v|Rutherford=q|Rutledge=s|Saint Joseph=1d|Sale Creek=w|Saltillo=z|Samburg=1t|Santa Fe=1l|Sardis=12|Saulsbury=y|Savannah=z|Scotts Hill=k|Selmer=1n|Sequatchie=1j|Sevierville=25|Sewanee=p|Seymour=25|Shady Valley=19|Sharon=2j|Sharps Chapel=2e|Shawanee=c|Shelbyville=1|Sherwood=p|Shiloh=z|Signal Mountain=w|Silerton=y|Silver Point=1y|Slayden=l|Smartt=2g|Smithville=j|Smyrna=22|Sneedville=x|Soddy Daisy=w|Somerville=n|South Fulton=1t|South Pittsburg=1j|Southside=1q|Sparta=2k|Speedwell=c|Spencer=2f|Spring City=1z|Spring Creek=1i|Spring Hill=1l|Springfield=21|Springville=13|Stanton=11|Stantonville=1n|Stewart=15|Strawberry Plains=18|Sugar Tree=k|Summertown=1d|Summitville=f|Sunbright=1s|Surgoinsville=10|Sweetwater=1p|Taft=1f|Talbott=v|Tallassee=4|Tazewell=c|Telford=2h|Tellico Plains=1p|Ten Mile=1o|Tennessee Ridge=15|Thompsons Station=2l|Thorn Hill=s|Tigrett=m|Tipton=2b|Tiptonville=1b|Toone=y|Townsend=4|Tracy City=u|Trade=19|Trenton=q|Trezevant=8|Trimble=m|Troy=1t|Tullahoma=f|Turtletown=1x|Unicoi=2d|Union City=1t|Unionville=1|Vanleer=l|Viola=2g|Vonore=1p|Walland=4|Walling=2k|Wartburg=1s|Wartrace=1|Washburn=s|Watauga=9|Watertown=2m|Waverly=16|Waynesboro=2i|Westmoreland=2a|Westpoint=1d|Westport=8|White Bluff=l|White House=21|White Pine=18|Whites Creek=i|Whitesburg=v|Whiteside=1j|Whiteville=y|Whitleyville=17|Whitwell=1j|Wilder=o|Wildersville=12|Williamsport=1l|Williston=n|Winchester=p|Winfield=23|Woodbury=7|Woodland Mills=1t|Woodlawn=1q|Wynnburg=1b|Yorkville=q|Yuma=8'
+  },
+  TX: {
+    counties: 'Anderson|Andrews|Angelina|Aransas|Archer|Armstrong|Atascosa|Austin|Bailey|Bandera|Bastrop|Baylor|Bee|Bell|Bexar|Blanco|Borden|Bosque|Bowie|Brazoria|Brazos|Brewster|Briscoe|Brooks|Brown|Burleson|Burnet|Caldwell|Calhoun|Callahan|Cameron|Camp|Carson|Cass|Castro|Chambers|Cherokee|Childress|Clay|Cochran|Coke|Coleman|Collin|Collingsworth|Colorado|Comal|Comanche|Concho|Cooke|Coryell|Cottle|Crane|Crockett|Crosby|Culberson|Dallam|Dallas|Dawson|DeWitt|Deaf Smith|Delta|Denton|Dickens|Dimmit|Donley|Duval|Eastland|Ector|Edwards|El Paso|Ellis|Erath|Falls|Fannin|Fayette|Fisher|Floyd|Foard|Fort Bend|Franklin|Freestone|Frio|Gaines|Galveston|Garza|Gillespie|Glasscock|Goliad|Gonzales|Gray|Grayson|Gregg|Grimes|Guadalupe|Hale|Hall|Hamilton|Hansford|Hardeman|Hardin|Harris|Harrison|Hartley|Haskell|Hays|Hemphill|Henderson|Hidalgo|Hill|Hockley|Hood|Hopkins|Houston|Howard|Hudspeth|Hunt|Hutchinson|Irion|Jack|Jackson|Jasper|Jeff Davis|Jefferson|Jim Hogg|Jim Wells|Johnson|Jones|Karnes|Kaufman|Kendall|Kenedy|Kent|Kerr|Kimble|King|Kinney|Kleberg|Knox|La Salle|Lamar|Lamb|Lampasas|Lavaca|Lee|Leon|Liberty|Limestone|Lipscomb|Live Oak|Llano|Loving|Lubbock|Lynn|Madison|Marion|Martin|Mason|Matagorda|Maverick|McCulloch|McLennan|McMullen|Medina|Menard|Midland|Milam|Mills|Mitchell|Montague|Montgomery|Moore|Morris|Motley|Nacogdoches|Navarro|Newton|Nolan|Nueces|Ochiltree|Oldham|Orange|Palo Pinto|Panola|Parker|Parmer|Pecos|Polk|Potter|Presidio|Rains|Randall|Reagan|Real|Red River|Reeves|Refugio|Roberts|Robertson|Rockwall|Runnels|Rusk|Sabine|San Augustine|San Jacinto|San Patricio|San Saba|Schleicher|Scurry|Shackelford|Shelby|Sherman|Smith|Somervell|Starr|Stephens|Sterling|Stonewall|Sutton|Swisher|Tarrant|Taylor|Terrell|Terry|Throckmorton|Titus|Tom Green|Travis|Trinity|Tyler|Upshur|Upton|Uvalde|Val Verde|Van Zandt|Victoria|Walker|Waller|Ward|Washington|Webb|Wharton|Wheeler|Wichita|Wilbarger|Willacy|Williamson|Wilson|Winkler|Wise|Wood|Yoakum|Young|Zapata|Zavala',
+    zips: '1kk5:6a,17,h4:5u,sx:1k,1:16,4:1k,1:1p,2:16,1:1p,1:1k,2:16,1:1k,1,1,1,2,1:2i,1,1:1p,1:16,1,1,1,1:1p,1,1,1:1k,2:5i,1:16,1,1,1,2:1k,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2:1p,1,1:2i,1:1k,1,1,1,1,1,1:1p,2,1,1:16,1,1,1,2,1,1:2i,1:1p,1:16,2:1k,1,1,1,2,1:16,1:5i,1:1k,1,1:2i,1,1,1:16,1,3,1:1k,1,2:1y,1:4u,1:6h,1:1k,1:4u,1:1k,3:4u,1,4:3k,1:1k,1,1:6h,1:3k,1:1y,1,1:16,2:1k,1:2y,1:1y,1:3k,1:6h,5:5i,2:1k,1:37,2:1k,1,2:6h,1:1k,1:3k,1:2y,1:4u,2:1k,1:3k,1:2y,1:1k,1,1:4u,1:1y,1:4u,1:1y,1,1:3k,1,1,1:1k,1:3k,1,2:2y,1:16,1:1y,1:16,1:1y,1,1:6h,3:1k,1:16,7:1k,1,1,3,2,2:5i,c:1k,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,2,1,1,1,1,1,1,1,1,6,1,1,1,1,1,1,1,3,5,2,6,1,1,2,e,2,9,1,2,5,6,a,3,3,c,1,1,1,1,1,1,7,1,2,1,1,1,1,2,2,1,1,1,1,7,1,1,1,1,1,1,2,1,3:37,1,1,1,3:16,2,1:59,1:3v,1:5d,1:21,1:2i,1:1o,1:3v,1:5d,1:21,2:33,1:3v,1:37,1,1:16,1:3v,1:5d,2:37,1,2:33,1:1o,1:33,1:3v,1,1:5d,1:33,1:21,1,1:59,1:1o,1:16,1:21,1:6x,2:21,1,1:1o,1:21,1:1o,1:v,1:21,1:37,1:16,1:68,1,1:27,1:37,1:2i,1:3v,1,1,6,1:1o,1:3v,1:33,1:59,1:3v,1:37,1:21,1,1:3v,1:33,1:21,1:27,1:33,1,1,2:16,1:3v,1:27,1:21,1:2i,1:21,1:2i,1:21,1:68,1:6x,1:2i,1:37,1:6x,4:i,2,1,1,2,17:5d,1:x,3:5d,1:x,1,2:68,1:i,1:x,1:i,1:x,1,1:4a,1:x,1,1:i,1:4r,1:i,1,1:4r,1:x,1:i,1,p,2:2j,1,1,1,1,1,1,1,7,f:x,1:52,2,3:4r,1:52,1:4r,1:52,1:6d,1:2j,1:2t,1:52,1:6d,1,2:2j,3:2t,1,1:5k,1,1,2:x,1:4a,1:5k,1:2t,1:2j,1:2t,1:2j,1,3:5k,1,1:4r,1:52,1:2t,1,1,8:5k,1,1,1:6d,1:5k,1:52,1:v,1:5k,1:2t,1:5k,2,1:2t,1:2j,1:2t,7:5v,1,1,1,1,1,1,1,1,1,1,1,1,11,1:2y,1,2:6h,1:6d,1:2y,1:5v,1:2y,1:10,1:4t,2:5v,1:0,1:10,1:6x,1:10,4:2y,1:5v,1:10,1:6x,5:2y,1:0,1:10,2:2y,1:6x,1:10,1,3:4t,1:5v,1:6h,1:5v,1,5:6d,1:5v,1,2:0,1,1,s:40,1:0,1:40,1:6b,1:34,3:28,1:0,1:28,4:34,1:6b,1:40,1:34,1:28,1:34,1:40,1:34,1:49,1:0,2:40,1:6b,2:34,1:28,1,1:0,1:6b,3,f:0,2,2,2,f:2,1,1,1,b,a:10,1:6b,2:4v,1:5m,1:5l,1,1:4v,1,1:56,1:5t,1:6c,1:4t,1:6c,1:56,2:2,1:6c,1:4t,1,2,2:5l,1:2,2:3c,3:5t,2:3c,2:4t,1:5l,1:56,1:4t,1,1,1,1,1:4v,2:5l,1:2,3:5m,1:5t,1,1,1:10,1:4v,1:4t,1:6c,1:2,a:6c,b:63,1,1,1,1,1,1,1:53,1:3h,1:63,1,1,1,1,1,1,1,1,1,1,1,1,1:6w,5:3h,3,2,1:63,1:32,1:63,3,1,1:1y,2:5w,1:3h,4:32,1,1:3h,1:63,1,1,1,1:30,3:3h,1,1:63,1:3h,2:63,1:1y,1,1:53,1:51,1,2:5w,1:6w,2,4:5w,1:6w,4:53,2:3h,1:53,1,1,1,4:63,1:3h,1:63,1,1,1:3h,1:53,1:63,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,2,1,1,1,1,1,1,1,1,3,7,1,2,5,6,1,1,1,2,b,2,1,1,1,3,5,1,1,1,2,1,1,1,1,2:1p,1,1,1,1,1,1,1,1,1,f:6w,1:1p,1,1:12,2:4o,3:2i,1:6w,4:1c,1:4o,1:1c,1,3:63,1:2i,1:6w,1:1p,1:63,1:1p,1:1c,1:4o,1:1c,1,2:4o,3:1p,1,2:4o,1:1p,1:1c,1:2i,1:4o,1:1p,1:6w,1:2i,2:4o,1:2i,1:1c,1:2i,s:6q,1,3,1,1,1,1,1,1,14:4,1:12,2:6q,3:12,3:6q,3:3t,1:6r,1:12,1:4,1:6q,2,1:4,1:3t,1:6z,1:6r,1:6z,3:12,2:4,1:b,4:6r,1,3:2v,1:4,c:1z,1,m:5y,2:6w,1:3a,2:5y,1:5s,1:6w,1:o,1:1z,2:1u,1:2o,1:1u,2:53,3:1a,1:t,1:1a,1:1u,1:1z,2:1u,1:51,1:6z,2:1a,1:51,1:1u,1:1a,2:2o,1:3a,1,1:6z,1:1z,1:32,1:51,1:5s,1:1z,1:1u,1:32,1:1a,1:t,1:1u,1,1:51,2:1a,1:51,1:32,5:6z,2:67,1:51,1:53,1:3a,1:53,3,1:67,a:d,1,1,1,4,3,2,5:4l,1,1,2:1d,1:4l,1:4g,1:1d,1,1:6t,1:1d,2:6t,1:2o,2:d,1,3:6t,1:1d,1:3x,1:d,1,1,1,1,3,1,1,1:3x,4:d,2:4l,1:4g,1:1d,1:d,2:1d,3:d,1:2o,1:1d,1:4l,2:d,1:20,1:d,2:6t,1,3:4l,1:6t,1:d,h:1d,1,1,1,m:30,1,1:1y,1:4g,2:4u,1:30,1,1:5h,1:4g,1:30,1:20,1:4g,1:h,1:42,1:30,1:h,1:4g,1:4u,1:4g,1:4u,1:42,1:4g,1:h,1:30,3,1:h,1:30,1:1y,1:h,1:42,1:4g,1,1:20,1:4g,3:30,1:20,3:4g,1:h,1:30,1:42,3:1y,1:h,2:30,3,2:42,1:4u,1:20,1:4u,1:4g,2,1:20,1:42,1,2:h,1,1:4g,1:30,1:28,8:4g,1,1,1,1,1,1,1,2,1,1,2,1,1,29,1,1,2:o,1,1,1,g:4c,1:5j,2:o,1:3x,1:4f,2:o,1:15,3:45,1:5p,2:15,2:4f,1:1b,4:4j,1:4c,2:4m,1:15,3:4j,1:3p,3:4f,1:3x,1:3p,1:1b,1:4c,1:o,1:4f,1:4j,2:5j,1:1b,2:4m,1:5j,1:1b,3:4c,1:4m,1:5p,1:4f,1:15,1:3p,1:5j,2:5p,1:15,2:4m,2:15,1:1w,1:15,1:45,1:69,1:4f,1:15,2:o,b:69,1,1,1,1,1,2,1,l:39,2:5b,1:14,1:69,1,1:5q,1:1b,2:69,1,1:39,2:1g,2:14,4,1:61,1:5z,2:14,2:69,2,1,17:2s,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,2u,1,1,1,1,1,1,1,1,1,2,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,2,1,1,1,1,1,3,1,2,1,1,1,1,1,1,1,1,2,1,1,2,1,1,1,1,1,1,1,1,1,1,2,2,1,2,2,3,1,1,1,1,1,1,4,2,2:4p,1,1,1,1,1,9:2s,1:4p,2,2:6j,5:2s,1:56,1:41,1,3:5n,1:56,1:4p,1:6j,1:56,1:2s,1,1,1,1:6j,1,1,1,1,1:2s,1,1,1:6j,1,1:56,1,2:4p,1,1,1,1,1:6j,1:5n,1:56,2:4p,1:2k,1:5n,1:4p,2:6j,1:41,1,2:5n,1:4p,1:2s,1:2r,1:2s,1:2r,1:2s,1:4p,1:2s,1:4p,1,1:2s,1,1:4p,1,1,1,1:2s,1,2,2:4p,3:2s,3:56,2:2s,1,2:4d,2:26,1,3:2s,1,1:18,1:2s,1:4d,1,2:26,1:7,1:4d,1:6o,2:j,1:6k,3:6m,2:4d,1:2s,1:j,1,1:6o,1:2s,1:18,1:6o,1,1,3:4d,1:26,1:18,1:6o,1:26,1:6k,1,1:2s,1:6o,1:2s,1,1:26,1:7,1:6o,1,1,1:4d,1,1,1:26,1:18,1:26,2:j,1:26,1:4d,1:6k,1:6o,1:4d,1:26,1:18,1:26,2:7,1,1:18,1:26,1,1,1,1:j,1:26,1:4d,1,1:6k,1:7,1:j,1:26,1:6o,1:26,2:2s,1,1,1,2:26,1,1,3:2s,1,1,1,1,1,1,1,2:2b,1:j,1,2:z,1:j,1,1:2b,1,1:2r,1:2s,1,1,1:z,7:2s,1:j,1:2s,1:41,1:j,1:41,1:2s,2:41,1:2b,2:j,1,3:26,1:2b,1:2s,2:2b,1,1,1,1,1,1,5:z,1:41,1:2s,1:2b,1:41,1:2b,1:j,2:2b,3:2s,1,1:2b,1,1:41,2:j,1,2:z,1:j,1:41,1:j,1,1:2r,1:2s,1,1:j,2:2b,1,1,5:z,1:2s,d:50,1:3c,1:3e,1:4v,1:3c,1:6c,1:2b,2:3e,3,1:2b,1:6c,1:2r,1:50,1:3e,2,1:50,1,1,7,1:3e,1,1,1,7:2b,1:3e,4,1:2r,1,2,1:6c,1:z,1:50,1:2r,1:6c,1:z,5:50,v:3e,1,1,1,1,1,1,1,2,3,7,5,1,23:k,1,1,2,1,1,1,m:2k,1,2:6m,1,1,1:p,1:5h,1:p,2:k,1,1,1,1,1,5:40,2:p,1:3z,2:40,1:5h,1:4l,2:5h,2:2k,1:k,1:p,1:49,1:40,1:k,1:5h,1:2k,2:5h,1:40,1:49,1:2k,2,1,2:p,1,1:6m,1:k,1:5h,j:6i,1,1,1,1,19:5f,1:6i,3:1m,3:3b,3:2f,1:3b,1,1:2f,1:3y,3:1m,1:6i,1:3b,1,1,2:6i,1:1m,1:3y,1:6i,1,1:s,1,3,1,1:3y,2,1,1:6i,1:1m,1:5f,1:3b,2:2f,1:1m,1:3y,6:3u,1:e,1:9,1:3l,1:29,1:3l,1:4h,1:6,1:4i,1:3o,1:6,1,1:3l,1:3u,1:e,1:4i,1:29,2:3u,2,1:44,1:e,1:3o,1,1:6,1:3l,1:3o,1,a:4i,1:6n,1,1,1,1,1,1,4:6,2,2:e,1:9,1:4i,1:29,1:3o,1:4i,1:44,1:29,1:6,1:9,1:6,1,1:4i,1:70,2:e,1:19,1:44,1:4h,1:e,1:3l,1:44,1:70,p:e,1:c,2,3:2f,1:2l,1:e,2:3j,1:e,1:3j,1:6u,1:2l,1:3j,1,1,1,2:6u,1:2g,1:2l,1,1:c,5:19,1,1,1,2,5:2g,1:1m,1:c,1:6u,1:3j,1:c,1,1:6u,1:e,2,1:3j,1:e,2:2l,1,1,3:2g,1:6u,1,1:c,1:19,1:1m,11:e,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1:19,2:e,1,1,8,1,1,3,1,1,3,1,2,1,1,1,1,1,1,1,1,v:4x,2:3g,1,2:5o,1,2:3m,1:4x,1:5f,1:1t,1:3g,1:4x,1:6n,3:4x,2:1t,1:44,1:4x,1:5o,1:n,2,2:1t,1:3,1:5o,1:3f,1,1:5o,1:3s,1,4:5o,1:6n,1:5o,1:6n,1:3g,1:4x,1:5o,1:3g,1:1t,1:5f,2:3s,1:4x,1:3,1,1:3g,1:1t,1:3m,2:5o,2:c,1:5o,1:c,2:5f,8:4x,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,7,1,x,3,2,1,1,1,1,3,8,l:2z,1,1,1,1,b,4:u,1,1,1,3,9,1:5x,1:2z,1,1,1,1,1,1,2:5x,2,1,1:2z,1:u,1,1,1,4:2z,1,1:u,1:2z,1:6s,1:2z,1,1:70,1:2z,1:u,1,1,1:6s,1:2z,2,1,1:6s,1:u,1:2z,1,1:u,1:2z,1:6s,2:5x,1:u,1:5x,1,1:u,2:5x,1:2z,1:6s,1:5x,1:u,1,1:6s,1:2z,1,1:u,1:6s,1:2z,3:a,2:2g,1:q,1:f,1:45,1:q,1:45,1:2w,1:q,1:a,1:6t,1:2g,1:6t,1:r,1:6a,1:2d,1:2w,1,1:a,1:r,1:19,1:2d,2:6t,1,1,1:2g,1:6t,1:2d,1:2g,1:6t,1,1:f,1,2:2l,1:45,1:2w,1:6t,1,1:45,1:r,1:6a,1:6t,2:r,2:a,1:6a,1,1,1:q,1:r,1,1:45,1:2g,1:a,1:6a,1:r,1:a,1:f,1:6t,1,1:2w,1,2:6a,1:2l,1:2d,1:45,1:6t,1,1:2d,1:2w,1:2g,3:6t,1,1,1,8:6a,a,1,1,1,1,3,1,1,1,1,1,1,1,1,1:6t,1:6a,1,1,1,1,1,1,1,1,1,1,1:6t,1:6a,1,1,1,1,1,1,1,1,1,2,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,3,1,1,4,1,4,g,2:6f,1,p:1r,1:1w,1:71,1:1r,2:3r,1:5c,1:1r,2,1:6g,1:6f,1:71,1:6g,1,1,1,4,3:4i,1:65,1:4e,1,7,1:4i,9:6f,1:6g,1:71,1:5c,4:4e,2:5c,1:1w,1:6f,2:9,1:6f,1:9,1:4i,19:7,1:22,1:7,1:18,1,3:22,2,1,1:3z,1:18,1:7,1:22,1,1:3z,1,1:22,1:7,1:18,1:22,1:a,1:22,2,1:a,2:2g,1:22,1,1:18,1:22,12:4z,1:2h,1:6p,2:43,2:38,1,1:54,1:4z,1:6p,1:57,1:4q,1:2x,1:5a,1,2:2u,1:5,2:2m,1:1j,2:43,1:1n,2:y,2:4q,2:3w,1:2m,1:4y,1:43,1:54,1:38,3:w,1:2p,1:2m,1:62,1:y,1:2u,1:1n,1:43,5:1j,1:62,1:54,1:2h,2:43,1:2h,1:4q,1:5g,2:6p,1:2p,1:y,1:3w,1:2h,1,2:w,2:4y,2:2m,1,4:17,1:38,1:6p,1:w,1:2p,1:3w,1:38,1:5u,1:y,1:4q,1:1j,1:62,3:5a,1:4z,1:4y,1:5,1:17,1:6p,1:w,1:4z,3:57,1,1,1,1,1,1,1,1:5a,1,1:57,3:5a,2:57,1,1:5a,1,1:57,1:5a,3:57,z,7,2,4,2,4,7,4,c:11,j:1q,1:24,2:1e,2:2q,1:1s,1:25,2:1q,1:17,1:24,2:2n,1:4s,1:24,1:3q,1:1s,2:2n,1:1s,1:24,2:1q,1:4s,1:2n,2:6r,1:1e,2:2m,1:17,1:2q,3:m,1:4s,1:m,1:24,1:11,2:2n,1e:2m,1:3w,1:31,1:13,2:66,6:1h,1:6y,1:8,1:54,1:3w,3:47,1:2c,1:1l,5:31,2,1:3w,3:2a,1:1h,1:8,1:66,1:13,1:8,3:47,1:48,2:31,2:6y,1:2c,1:1h,1:31,1:2a,1,3:47,1,2,1:31,2:3w,1:1q,1:3w,1:31,1:48,3:6y,1:1l,1:66,1:13,1:31,1:48,1:47,1:48,i:47,1,1,1,2,1,1,1,1,1,1,1,1,1,1,7,1,6,m,1,4,7,q,1,2,6,2:3i,1:60,1:3i,1:t,1:3t,1:4w,2:64,2:t,1:35,1:4n,4:5r,1,1:3n,1:15,1:3i,1:2v,4:3i,1:5r,1,1:3n,1:3t,1:64,2:4n,1:3i,1:23,1:4w,1:64,1:4w,1:15,1:2v,1:60,1:64,2:23,1:2v,1:4w,1:23,1:2v,1,1:5r,1,3:3i,3:4w,4:23,1:64,1,1,2:4n,1:5j,1,y:64,1,1,1,1,1,1,1,2h,1,1,2:4k,1,1,1,1,1,1,1,2,1,1,1:1l,1:1,4:5e,1:6l,1:35,1,9:55,1:1f,2:35,1:3d,1:55,3:g,1:2e,1:55,1:1v,1:6l,1:55,1,1:6v,3:35,1:4b,3:6e,2:46,1:6e,1:6l,2:1v,1,1,1,1,1,1,1,1,2,1,1:5e,2,4:1v,1:6l,1:6e,2:5e,1:55,1:4b,1,2:5e,1,2:6l,1:6v,w:1x,9:l,1,1,2,1:1x,1,1:36,1:1x,1:36,3:l,1:58,2,1,1:36,1:65,1:1x,2:36,1:l,1:1x,1:3d,1:1i,1a:1x,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,2,2,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,3,2,1,7,8,2,2,a,5,1,1,1,1,6kf,1,1,1,1,1,2,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,3,1,1,1,1,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,5',
+    cities: 'Abbott=30|Abernathy=2m|Abilene=64|Ace=56|Ackerly=1l|Addison=1k|Adkins=e|Adrian=4z|Afton=1q|Agua Dulce=4x|Aiken=24|Alamo=2z|Alanreed=2h|Alba=59|Albany=5s|Aledo=53|Alice=3g|Alief=2s|Allen=16|Alleyton=18|Allison=6p|Alpine=l|Altair=18|Alto=10|Alvarado=3h|Alvin=j|Alvord=6w|Amarillo=57|Amherst=3w|Anahuac=z|Anderson=2k|Andrews=1|Angleton=j|Anna=16|Annona=5d|Anson=3i|Anthony=1x|Anton=31|Apple Springs=6b|Aquilla=30|Aransas Pass=5o|Archer City=4|Argyle=1p|Arlington=63|Armstrong=3m|Arp=5v|Art=4c|Artesia Wells=3u|Arthur City=3v|Asherton=1r|Aspermont=60|Atascosa=e|Athens=2y|Atlanta=x|Aubrey=1p|Austin=6a|Austwell=5f|Avalon=1y|Avery=5d|Avinger=x|Avoca=3i|Axtell=4g|Azle=63|Bacliff=2b|Bagwell=5d|Bailey=21|Baird=t|Balch Springs=1k|Ballinger=5j|Balmorhea=5e|Bandera=9|Bangs=o|Banquete=4x|Bardwell=1y|Barker=2s|Barksdale=1w|Barnhart=39|Barry=4u|Barstow=6l|Bartlett=d|Bastrop=a|Batesville=71|Batson=2r|Bay City=4d|Bayside=5f|Baytown=2s|Beasley=26|Beaumont=3e|Beckville=52|Bedford=63|Bedias=2k|Beeville=c|Bellaire=2s|Bellevue=12|Bells=2i|Bellville=7|Belmont=2g|Belton=d|Ben Bolt=3g|Ben Franklin=1o|Ben Wheeler=6h|Benavides=1t|Bend=3x|Benjamin=3t|Berclair=2f|Bergheim=3l|Bertram=q|Big Bend National Park=l|Big Lake=5b|Big Sandy=6d|Big Spring=35|Big Wells=1r|Bigfoot=29|Bishop=4x|Bivins=x|Blackwell=4w|Blanco=f|Blanket=o|Bledsoe=13|Bleiblerville=7|Blessing=4d|Bloomburg=x|Blooming Grove=4u|Bloomington=6i|Blossom=3v|Blue Ridge=16|Bluegrove=12|Bluff Dale=1z|Bluffton=45|Blum=30|Boerne=3l|Bogata=5d|Boling=6o|Bon Wier=4v|Bonham=21|Booker=43|Borger=38|Bovina=54|Bowie=4o|Boyd=6w|Boys Ranch=4z|Brackettville=3r|Brady=4f|Brandon=30|Brashear=33|Brazoria=j|Breckenridge=5y|Bremond=5h|Brenham=6m|Bridge City=50|Bridgeport=6w|Briggs=q|Briscoe=6p|Broaddus=5m|Bronson=5l|Bronte=14|Brookeland=5l|Brookesmith=o|Brookshire=6k|Brookston=3v|Brownfield=66|Brownsboro=2y|Brownsville=u|Brownwood=o|Bruceville=4g|Bruni=6n|Bryan=k|Bryson=3a|Buchanan Dam=45|Buckholts=4l|Buda=2w|Buffalo=40|Buffalo Gap=64|Bullard=5v|Bulverde=19|Buna=3c|Burkburnett=6q|Burkett=15|Burkeville=4v|Burleson=3h|Burlington=4l|Burnet=q|Burton=6m|Bushland=57|Byers=12|Bynum=30|Cactus=4q|Caddo=5y|Caddo Mills=37|Caldwell=p|Call=4v|Calliham=4h|Calvert=5h|Camden=56|Cameron=4l|Camp Wood=5c|Campbell=37|Campbellton=6|Canadian=2x|Canton=6h|Canutillo=1x|Canyon=5a|Canyon Lake=19|Carbon=1u|Carlsbad=69|Carlton=2o|Carmine=22|Carrizo Springs=1r|Carrollton=1k|Carthage=52|Cason=4r|Castell=45|Castroville=4i|Cat Spring=7|Catarina=1r|Cayuga=0|Cedar Creek=a|Cedar Hill=1k|Cedar Lane=4d|Cedar Park=6t|Cee Vee=1e|Celeste=37|Celina=16|Center=5t|Center Point=3o|Centerville=40|Centralia=6b|Chandler=2y|Channelview=2s|Channing=2u|Chapman Ranch=4x|Chappell Hill=6m|Charlotte=6|Chatfield=4u|Cherokee=5p|Chester=6c|Chico=6w|Chicota=3v|Childress=11|Chillicothe=2q|Chilton=20|China=3e|China Spring=4g|Chireno=4t|Chriesman=p|Christine=6|Christoval=69|Cibolo=2l|Cisco=1u|Clarendon=1s|Clarksville=5d|Claude=5|Clayton=52|Cleburne=3h|Cleveland=41|Clifton=h|Clint=1x|Clute=j|Clyde=t|Coahoma=35|Coldspring=5n|Coleman=15|College Station=k|Collegeport=4d|Colleyville=63|Collinsville=2i|Colmesneil=6c|Colorado City=4n|Columbus=18|Comanche=1a|Combes=u|Comfort=3l|Commerce=37|Como=33|Comstock=6g|Concan=6f|Concepcion=1t|Concord=40|Conroe=4p|Converse=e|Cookville=68|Coolidge=42|Cooper=1o|Copeville=16|Coppell=1k|Copperas Cove=1d|Corpus Christi=4x|Corrigan=56|Corsicana=4u|Cost=2g|Cotton Center=2m|Cotulla=3u|Coupland=6t|Covington=30|Coyanosa=55|Crandall=3k|Crane=1f|Cranfills Gap=h|Crawford=4g|Cresson=32|Crockett=34|Crosby=2s|Crosbyton=1h|Cross Plains=t|Crowell=25|Crowley=63|Crystal City=71|Cuero=1m|Cumby=33|Cuney=10|Cunningham=3v|Cushing=4t|Cypress=2s|D Hanis=4i|Daingerfield=4r|Daisetta=41|Dale=r|Dalhart=1j|Dallardsville=56|Dallas=1k|Damon=j|Danbury=j|Danciger=j|Danevang=6o|Darrouzett=43|Davilla=4l|Dawn=1n|Dawson=4u|Dayton=41|De Berry=52|De Kalb=i|De Leon=1a|Deanville=p|Decatur=6w|Deer Park=2s|Del Rio=6g|Del Valle=6a|Dell City=36|Delmita=5x|Denison=2i|Dennis=53|Denton=1p|Denver City=6y|Deport=3v|Desdemona=1u|Desoto=1k|Detroit=5d|Devers=41|Devine=4i|Deweyville=4v|Diana=6d|Diboll=2|Dickens=1q|Dickinson=2b|Dike=33|Dilley=29|Dime Box=3z|Dimmitt=y|Dinero=44|Dobbin=4p|Dodd City=21|Dodge=6j|Dodson=17|Donie=28|Donna=2z|Doole=4f|Doss=2d|Doucette=6c|Dougherty=24|Douglass=4t|Douglassville=x|Driftwood=2w|Dripping Springs=2w|Driscoll=4x|Dryden=65|Dublin=1z|Dumas=4q|Duncanville=1k|Dunn=5r|Dyess Afb=64|Eagle Lake=18|Eagle Pass=4e|Early=o|Earth=3w|East Bernard=6o|Eastland=1u|Easton=2j|Ecleto=3j|Ector=21|Edcouch=2z|Eddy=4g|Eden=1b|Edgewood=6h|Edinburg=2z|Edmonson=2m|Edna=3b|Edroy=5o|Egypt=6o|El Campo=6o|El Indio=4e|El Paso=1x|Eldorado=5q|Electra=6q|Elgin=a|Elkhart=0|Ellinger=22|Elm Mott=4g|Elmaton=4d|Elmendorf=e|Elmo=3k|Elsa=2z|Elysian Fields=2t|Emory=59|Encinal=3u|Encino=n|Energy=1a|Enloe=1o|Ennis=1y|Enochs=8|Eola=1b|Era=1c|Estelline=2n|Etoile=4t|Euless=63|Eustace=2y|Evadale=3c|Evant=1d|Fabens=1x|Fairfield=28|Falcon Heights=5x|Falfurrias=n|Falls City=3j|Fannin=2f|Farmersville=16|Farnsworth=4y|Farwell=54|Fate=5i|Fayetteville=22|Fentress=r|Ferris=1y|Fieldton=3w|Fischer=19|Flat=1d|Flatonia=22|Flint=5v|Flomot=4s|Florence=6t|Floresville=6u|Flower Mound=1p|Floydada=24|Fluvanna=5r|Flynn=40|Follett=43|Forestburg=4o|Forney=3k|Forreston=1y|Forsan=35|Fort Bliss=1x|Fort Davis=3d|Fort Hancock=36|Fort Hood=d|Fort Mc Kavett=4j|Fort Stockton=55|Fort Worth=63|Fowlerton=3u|Francitas=3b|Franklin=5h|Frankston=0|Fred=6c|Fredericksburg=2d|Fredonia=4c|Freeport=j|Freer=1t|Fresno=26|Friendswood=2b|Friona=54|Frisco=16|Fritch=38|Frost=4u|Fruitvale=6h|Fulshear=26|Fulton=3|Gail=g|Gainesville=1c|Galena Park=2s|Gallatin=10|Galveston=2b|Ganado=3b|Garciasville=5x|Garden City=2e|Gardendale=1v|Garland=1k|Garrison=4t|Garwood=18|Gary=52|Gatesville=1d|Gause=4l|George West=44|Georgetown=6t|Geronimo=2l|Giddings=3z|Gilchrist=2b|Gillett=3j|Gilmer=6d|Girard=3n|Girvin=55|Gladewater=2j|Glen Flora=6o|Glen Rose=5w|Glidden=18|Gober=21|Godley=3h|Golden=6x|Goldsboro=15|Goldsmith=1v|Goldthwaite=4m|Goliad=2f|Gonzales=2g|Goodfellow Afb=69|Goodrich=56|Gordon=51|Gordonville=2i|Goree=3t|Gorman=1u|Gouldbusk=15|Graford=51|Graham=6z|Granbury=32|Grand Prairie=1k|Grand Saline=6h|Grandfalls=6l|Grandview=3h|Granger=6t|Grapeland=34|Grapevine=63|Greenville=37|Greenwood=6w|Gregory=5o|Groesbeck=42|Groom=w|Groves=3e|Groveton=6b|Grulla=5x|Gruver=2p|Guerra=3f|Gunter=2i|Gustine=1a|Guthrie=3q|Guy=26|Hale Center=2m|Hallettsville=3y|Hallsville=2t|Haltom City=63|Hamilton=2o|Hamlin=3i|Hamshire=3e|Hankamer=z|Happy=62|Hardin=41|Hargill=2z|Harker Heights=d|Harleton=2t|Harlingen=u|Harper=2d|Harrold=6r|Hart=y|Hartley=2u|Harwood=2g|Haskell=2v|Haslet=63|Hawkins=6x|Hawley=3i|Hearne=5h|Hebbronville=3f|Hedley=1s|Heidenheimer=d|Helotes=e|Hemphill=5l|Hempstead=6k|Henderson=5k|Henrietta=12|Hereford=1n|Hermleigh=5r|Hewitt=4g|Hext=4j|Hico=2o|Hidalgo=2z|Higgins=43|High Island=2b|Highlands=2s|Hillister=6c|Hillsboro=30|Hitchcock=2b|Hobson=3j|Hochheim=1m|Hockley=2s|Holland=d|Holliday=4|Hondo=4i|Honey Grove=21|Hooks=i|Horseshoe Bay=45|Houston=2s|Howe=2i|Hubbard=30|Huffman=2s|Hufsmith=2s|Hughes Springs=x|Hull=41|Humble=2s|Hungerford=6o|Hunt=3o|Huntington=2|Huntsville=6j|Hurst=63|Hutchins=1k|Hutto=6t|Hye=f|Idalou=47|Imperial=55|Industry=7|Inez=6i|Ingleside=5o|Ingram=3o|Iola=2k|Iowa Park=6q|Ira=5r|Iraan=55|Iredell=h|Irene=30|Irving=1k|Italy=1y|Itasca=30|Ivanhoe=21|Jacksboro=3a|Jacksonville=10|Jarrell=6t|Jasper=3c|Jayton=3n|Jbsa Ft Sam Houston=e|Jbsa Lackland=e|Jbsa Randolph=e|Jefferson=4a|Jermyn=3a|Jewett=40|Joaquin=5t|Johnson City=f|Joinerville=5k|Jonesboro=1d|Jonesville=2t|Josephine=16|Joshua=3h|Jourdanton=6|Judson=2j|Junction=3p|Justiceburg=2c|Justin=1p|Kamay=6q|Karnack=2t|Karnes City=3j|Katy=2s|Kaufman=3k|Keene=3h|Keller=63|Kemah=2b|Kemp=2y|Kempner=3x|Kendalia=3l|Kendleton=26|Kenedy=3j|Kennard=34|Kennedale=63|Kenney=7|Kerens=4u|Kermit=6v|Kerrick=1j|Kerrville=3o|Kildare=x|Kilgore=2j|Killeen=d|Kingsbury=2l|Kingsland=45|Kingsville=3s|Kingwood=2s|Kirbyville=3c|Kirvin=28|Klondike=1o|Knickerbocker=69|Knippa=6f|Knott=35|Knox City=3t|Kopperl=h|Kosse=42|Kountze=2r|Kress=62|Krum=1p|Kurten=k|Kyle=2w|La Blanca=2z|La Coste=4i|La Feria=u|La Grange=22|La Joya=2z|La Marque=2b|La Porte=2s|La Pryor=71|La Salle=3b|La Vernia=6u|La Villa=2z|La Ward=3b|Ladonia=21|Laguna Park=h|Laird Hill=5k|Lake Creek=1o|Lake Dallas=1p|Lake Jackson=j|Lakeview=2n|Lamesa=1l|Lampasas=3x|Lancaster=1k|Lane City=6o|Laneville=5k|Langtry=6g|Laredo=6n|Larue=2y|Lasara=6s|Latexo=34|Laughlin Afb=6g|Lavon=16|Lawn=64|Lazbuddie=54|League City=2b|Leakey=5c|Leander=6t|Ledbetter=22|Leesburg=v|Leesville=2g|Lefors=2h|Leggett=56|Lelia Lake=1s|Leming=6|Lenorah=4b|Leona=40|Leonard=21|Leroy=4g|Levelland=31|Lewisville=1p|Lexington=3z|Liberty=41|Liberty Hill=6t|Lillian=3h|Lincoln=3z|Lindale=5v|Linden=x|Lindsay=1c|Lingleville=1z|Linn=2z|Lipan=32|Lipscomb=43|Lissie=6o|Little Elm=1p|Little River Academy=d|Littlefield=3w|Liverpool=j|Livingston=56|Llano=45|Lockhart=r|Lockney=24|Lodi=4a|Lohn=4f|Lolita=3b|Lometa=3x|London=3p|Lone Oak=37|Lone Star=4r|Long Branch=52|Longview=2j|Loop=2a|Lopeno=70|Loraine=4n|Lorena=4g|Lorenzo=1h|Los Ebanos=2z|Los Fresnos=u|Los Indios=u|Lott=20|Louise=6o|Lovelady=34|Loving=6z|Lowake=1b|Lozano=u|Lubbock=47|Lueders=3i|Lufkin=2|Luling=r|Lumberton=2r|Lyford=6s|Lyons=p|Lytle=6|Mabank=3k|Macdona=e|Madisonville=49|Magnolia=4p|Malakoff=2y|Malone=30|Manchaca=6a|Manor=6a|Mansfield=63|Manvel=j|Maple=8|Marathon=l|Marble Falls=q|Marfa=58|Marietta=x|Marion=2l|Markham=4d|Marlin=20|Marquez=40|Marshall=2t|Mart=4g|Martindale=r|Martinsville=4t|Maryneal=4w|Mason=4c|Masterson=4q|Matador=4s|Matagorda=4d|Mathis=5o|Maud=i|Mauriceville=50|Maxwell=r|May=o|Maydelle=10|Maypearl=1y|Mc Camey=6e|Mc Caulley=23|Mc Dade=a|Mc Gregor=4g|Mc Leod=x|Mc Neil=6a|Mc Queeney=2l|Mcadoo=1q|Mcallen=2z|Mcfaddin=6i|Mckinney=16|Mclean=2h|Meadow=66|Medina=9|Megargel=4|Melissa=16|Melvin=4f|Memphis=2n|Menard=4j|Mentone=46|Mercedes=2z|Mereta=69|Meridian=h|Merit=37|Merkel=64|Mertens=30|Mertzon=39|Mesquite=1k|Mexia=42|Meyersville=1m|Miami=5g|Mico=4i|Midfield=4d|Midkiff=6e|Midland=4k|Midlothian=1y|Midway=49|Milam=5l|Milano=4l|Miles=5j|Milford=1y|Millersview=1b|Millican=k|Millsap=53|Minden=5k|Mineola=6x|Mineral=c|Mineral Wells=51|Mingus=51|Mirando City=6n|Mission=2z|Missouri City=26|Mobeetie=6p|Monahans=6l|Mont Belvieu=z|Montague=4o|Montalba=0|Montgomery=4p|Moody=4g|Moore=29|Moran=5s|Morgan=h|Morgan Mill=1z|Morse=2p|Morton=13|Moscow=56|Moulton=3y|Mound=1d|Mount Calm=30|Mount Enterprise=5k|Mount Pleasant=68|Mount Vernon=27|Mountain Home=3o|Muenster=1c|Muldoon=22|Muleshoe=8|Mullin=4m|Mumford=5h|Munday=3t|Murchison=2y|Myra=1c|Nacogdoches=4t|Nada=18|Naples=4r|Nash=i|Natalia=4i|Naval Air Station Jrb=63|Navasota=2k|Nazareth=y|Neches=0|Nederland=3e|Needville=26|Nemo=5w|Nevada=16|New Baden=5h|New Boston=i|New Braunfels=19|New Caney=4p|New Deal=47|New Home=48|New London=5k|New Summerfield=10|New Ulm=7|New Waverly=6j|Newark=6w|Newcastle=6z|Newton=4v|Nixon=2g|Nocona=4o|Nolan=4w|Nolanville=d|Nome=3e|Nordheim=1m|Normangee=40|Normanna=c|North Houston=2s|North Richland Hills=63|North Zulch=49|Norton=5j|Notrees=1v|Novice=15|Nursery=6i|O Brien=2v|Oakhurst=5n|Oakland=18|Oakville=44|Oakwood=40|Odell=6r|Odem=5o|Odessa=1v|Odonnell=48|Oglesby=1d|Oilton=6n|Oklaunion=6r|Old Glory=60|Old Ocean=j|Olden=1u|Olmito=u|Olney=6z|Olton=3w|Omaha=4r|Onalaska=56|Orange=50|Orange Grove=3g|Orangefield=50|Orchard=26|Ore City=6d|Orla=5e|Ottine=2g|Ovalo=64|Overton=5k|Ozona=1g|Paducah=1e|Paige=a|Paint Rock=1b|Palacios=4d|Palestine=0|Palmer=1y|Palo Pinto=51|Paluxy=32|Pampa=2h|Pandora=6u|Panhandle=w|Panna Maria=3j|Panola=52|Paradise=6w|Paris=3v|Pasadena=2s|Pattison=6k|Pattonville=3v|Pawnee=c|Pearland=j|Pearsall=29|Peaster=53|Pecan Gap=1o|Pecos=5e|Peggy=6|Pendleton=d|Penelope=30|Penitas=2z|Pennington=6b|Penwell=1v|Pep=31|Perrin=3a|Perryton=4y|Petersburg=2m|Petrolia=12|Pettus=c|Petty=3v|Pflugerville=6a|Pharr=2z|Pickton=33|Pierce=6o|Pilot Point=1p|Pinehurst=4p|Pineland=5l|Pipe Creek=9|Pittsburg=v|Placedo=6i|Plains=6y|Plainview=2m|Plano=16|Plantersville=2k|Pleasanton=6|Pledger=4d|Plum=22|Point=59|Point Comfort=s|Pointblank=5n|Pollok=2|Ponder=1p|Pontotoc=4c|Poolville=53|Port Aransas=4x|Port Arthur=3e|Port Bolivar=2b|Port Isabel=u|Port Lavaca=s|Port Mansfield=6s|Port Neches=3e|Port O Connor=s|Porter=4p|Portland=5o|Post=2c|Poteet=6|Poth=6u|Pottsboro=2i|Pottsville=2o|Powderly=3v|Powell=4u|Poynor=2y|Prairie Hill=42|Prairie Lea=r|Prairie View=6k|Premont=3g|Presidio=58|Price=5k|Priddy=4m|Princeton=16|Proctor=1a|Progreso=2z|Prosper=16|Purdon=4u|Purmela=1d|Putnam=t|Pyote=6l|Quail=17|Quanah=2q|Queen City=x|Quemado=4e|Quinlan=37|Quitaque=m|Quitman=6x|Rainbow=5w|Ralls=1h|Randolph=21|Ranger=1u|Rankin=6e|Ransom Canyon=47|Ratcliff=34|Ravenna=21|Raymondville=6s|Raywood=41|Reagan=20|Realitos=1t|Red Oak=1y|Red Rock=a|Redford=58|Redwater=i|Refugio=5f|Reklaw=10|Rhome=6w|Rice=1y|Richards=2k|Richardson=1k|Richland=4u|Richland Springs=5p|Richmond=26|Riesel=4g|Ringgold=4o|Rio Frio=5c|Rio Grande City=5x|Rio Hondo=u|Rio Medina=4i|Rio Vista=3h|Rising Star=1u|Riverside=6j|Riviera=3s|Roanoke=1p|Roans Prairie=2k|Roaring Springs=4s|Robert Lee=14|Robstown=4x|Roby=23|Rochelle=4f|Rochester=2v|Rock Island=18|Rockdale=4l|Rockport=3|Rocksprings=1w|Rockwall=5i|Rockwood=15|Rogers=d|Roma=5x|Romayor=41|Roosevelt=3p|Ropesville=31|Rosanky=a|Roscoe=4w|Rosebud=20|Rosenberg=26|Rosharon=j|Ross=4g|Rosser=3k|Rosston=1c|Rotan=23|Round Mountain=f|Round Rock=6t|Round Top=22|Rowena=5j|Rowlett=1k|Roxton=3v|Royse City=5i|Rule=2v|Runge=3j|Rusk=10|Rye=41|Sabinal=6f|Sabine Pass=3e|Sachse=1k|Sacul=4t|Sadler=2i|Saint Hedwig=e|Saint Jo=4o|Salado=d|Salineno=5x|Salt Flat=36|Saltillo=33|Samnorwood=17|San Angelo=69|San Antonio=e|San Augustine=5m|San Benito=u|San Diego=1t|San Elizario=1x|San Felipe=7|San Isidro=5x|San Juan=2z|San Marcos=2w|San Perlita=6s|San Saba=5p|San Ygnacio=70|Sanderson=65|Sandia=3g|Sanford=38|Sanger=1p|Santa Anna=15|Santa Elena=5x|Santa Fe=2b|Santa Maria=u|Santa Rosa=u|Santo=51|Saragosa=5e|Saratoga=2r|Sarita=3m|Satin=20|Savoy=21|Schertz=2l|Schulenburg=22|Schwertner=6t|Scotland=4|Scottsville=2t|Scroggins=27|Scurry=3k|Seabrook=2s|Seadrift=s|Seagoville=1k|Seagraves=2a|Sealy=7|Sebastian=6s|Seguin=2l|Selman City=5k|Seminole=2a|Seymour=b|Shallowater=47|Shamrock=6p|Sheffield=55|Shelbyville=5t|Shepherd=5n|Sheppard Afb=6q|Sheridan=18|Sherman=2i|Shiner=3y|Shiro=2k|Sidney=1a|Sierra Blanca=36|Silsbee=2r|Silver=14|Silverton=m|Simms=i|Simonton=26|Sinton=5o|Skellytown=w|Skidmore=c|Slaton=47|Slidell=6w|Smiley=2g|Smithville=a|Smyer=31|Snook=p|Snyder=5r|Somerset=e|Somerville=p|Sonora=61|Sour Lake=2r|South Bend=6z|South Houston=2s|South Padre Island=u|South Plains=24|Southlake=63|Southmayd=2i|Spade=3w|Spearman=2p|Spicewood=6a|Splendora=4p|Spring=2s|Spring Branch=19|Springlake=3w|Springtown=53|Spur=1q|Spurger=6c|Stafford=26|Stamford=3i|Stanton=4b|Staples=2l|Star=4m|Stephenville=1z|Sterling City=5z|Stinnett=38|Stockdale=6u|Stonewall=2d|Stowell=z|Stratford=5u|Strawn=51|Streetman=28|Sublime=3y|Sudan=3w|Sugar Land=26|Sullivan City=2z|Sulphur Bluff=33|Sulphur Springs=33|Summerfield=y|Sumner=3v|Sundown=31|Sunnyvale=1k|Sunray=4q|Sunset=4o|Sutherland Springs=6u|Sweeny=j|Sweet Home=3y|Sweetwater=4w|Sylvester=23|Taft=5o|Tahoka=48|Talco=27|Talpa=15|Tarpley=9|Tarzan=4b|Tatum=5k|Taylor=6t|Teague=28|Tehuacana=42|Telegraph=1w|Telephone=21|Telferner=6i|Tell=11|Temple=d|Tenaha=5t|Tennessee Colony=0|Tennyson=14|Terlingua=l|Terrell=3k|Texarkana=i|Texas City=2b|Texhoma=5u|Texline=1j|The Colony=1p|Thicket=2r|Thomaston=1m|Thompsons=26|Thorndale=4l|Thornton=42|Thrall=6t|Three Rivers=44|Throckmorton=67|Tilden=4h|Timpson=5t|Tioga=2i|Tivoli=5f|Tokio=6y|Tolar=32|Tom Bean=2i|Tomball=2s|Tornillo=1x|Tow=45|Toyah=5e|Toyahvale=5e|Trent=64|Trenton=21|Trinidad=2y|Trinity=6b|Troup=5v|Troy=d|Tuleta=c|Tulia=62|Turkey=2n|Tuscola=64|Tye=64|Tyler=5v|Tynan=c|Umbarger=5a|Universal City=e|Utopia=6f|Uvalde=6f|Valentine=3d|Valera=15|Valley Mills=h|Valley Spring=45|Valley View=1c|Van=6h|Van Alstyne=2i|Van Horn=1i|Van Vleck=4d|Vancourt=69|Vanderbilt=3b|Vanderpool=9|Vega=4z|Venus=3h|Veribest=69|Vernon=6r|Victoria=6i|Vidor=50|Village Mills=2r|Voca=4f|Von Ormy=e|Voss=15|Votaw=2r|Waco=4g|Wadsworth=4d|Waelder=2g|Waka=4y|Walburg=6t|Wall=69|Waller=6k|Wallis=7|Wallisville=z|Walnut Springs=h|Warda=22|Waring=3l|Warren=6c|Washington=6m|Waskom=2t|Water Valley=69|Waxahachie=1y|Wayside=5|Weatherford=53|Webster=2s|Weesatche=2f|Weimar=18|Weinert=2v|Weir=6t|Welch=1l|Wellborn=k|Wellington=17|Wellman=66|Wells=10|Weslaco=2z|West=4g|West Columbia=j|West Point=22|Westbrook=4n|Westhoff=1m|Westminster=16|Weston=16|Wharton=6o|Wheeler=6p|Wheelock=5h|White Deer=w|White Oak=2j|Whiteface=13|Whitehouse=5v|Whitesboro=2i|Whitewright=2i|Whitharral=31|Whitney=30|Whitsett=44|Whitt=53|Wichita Falls=6q|Wickett=6l|Wiergate=4v|Wildorado=4z|Willis=4p|Willow City=2d|Wills Point=6h|Wilmer=1k|Wilson=48|Wimberley=2w|Windom=21|Windthorst=4|Winfield=68|Wingate=5j|Wink=6v|Winnie=z|Winnsboro=6x|Winona=5v|Winters=5j|Woden=4t|Wolfe City=37|Wolfforth=47|Woodlake=6b|Woodlawn=2t|Woodsboro=5f|Woodson=67|Woodville=6c|Woodway=4g|Wortham=28|Wrightsboro=2g|Wylie=1k|Yancey=4i|Yantis=6x|Yoakum=3y|Yorktown=1m|Zapata=70|Zavalla=2|Zephyr=o'
+  },
+  UT: {
+    counties: 'Beaver|Box Elder|Cache|Carbon|Daggett|Davis|Duchesne|Emery|Garfield|Grand|Iron|Juab|Kane|Millard|Morgan|Piute|Rich|Salt Lake|San Juan|Sanpete|Sevier|Summit|Tooele|Uintah|Utah|Wasatch|Washington|Wayne|Weber',
+    zips: '1std:6,1,1:o,1,1,1:h,1:6,1:n,1:h,1:5,1,2:o,1:5,1,1,1:l,1:e,2:h,1:6,1:m,1:4,1:l,1:5,1:n,1:6,1:g,1:m,2:6,1:p,1:l,1:m,1:n,1:l,1:5,1:g,1:n,1:5,1,1:o,1,1:h,1:o,1:4,1:h,1:o,1:p,1:e,1:6,1,1,1:5,1:l,1:5,1:o,1,1,1:l,1,1:o,1:n,1:g,1:h,1:6,1:s,1:l,1:m,1:h,1:m,1:6,1,1:m,1:5,1:n,2,1,1:m,1:h,1:p,1:m,1:h,1:n,1:g,1:5,1:h,1:5,1:h,1,1,1,1,1,1,1:o,1:l,3:h,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,2,1,2,2,2,2,1,2,1,1,5,1,7,5,1,9,4,5,1,9,2:s,17,1l:1,1,2:2,1,1:1,1,1:2,1:1,1:s,1:1,1,1,1,1:s,1:1,1:s,1:2,1,1,1,1,1,1:1,1:2,1,1,1,1:1,1,1,1:2,1,1:1,1:2,1:1,1,1:2,1,1:1,1:2,1o:s,1,1,1,1,2,1,1,3,2,1,2e:3,9:i,1,1,1:7,2:9,1:7,2,2:3,1:7,1,1,2,1:3,2:7,1:3,1:i,1,1:9,1:i,1,1,1,1:7,2:3,1:9,2:3,1n:o,1,1,1,1,1,e:k,1:j,1,1,1:d,2:o,1:j,1:b,1:j,1,1:d,1:j,1:o,1:j,1:d,1,1,1,1:b,1:d,2:j,1,1:d,1:b,1:j,1,1:b,1:d,2:o,1:k,1:o,1:k,1:o,1:d,1:k,3:o,2:j,1:o,1,1:j,2,y:k,9:c,1:k,1:8,1:0,1:a,1:r,1:8,2,1:a,1,1,1:q,1:f,1:k,1:q,1:8,2:d,1:c,1:k,1:0,1:f,1:q,1:r,1:8,1,1:q,1,1:k,1:f,1:c,1:a,1:f,1:k,1:q,1,1:r,2,1:f,1:0,1,1:a,1:k,1:c,1:a,1:q,1:c,1:8,1:a,1,1:c,1:q,1:8,1:q,1:k,1:q,3,1,1:a,1:r,1:q,1:r,1:8,3:q,1,1,1,1,1,6,1',
+    cities: 'Alpine=o|Altamont=6|Alton=c|Altonah=6|American Fork=o|Aneth=i|Annabella=k|Antimony=8|Aurora=k|Axtell=j|Bear River City=1|Beaver=0|Beryl=a|Bicknell=r|Bingham Canyon=h|Blanding=i|Bluebell=6|Bluff=i|Bonanza=n|Boulder=8|Bountiful=5|Brian Head=a|Brigham City=1|Bryce=8|Cache Junction=2|Cannonville=8|Castle Dale=7|Cedar City=a|Cedar Valley=o|Centerfield=j|Centerville=5|Central=q|Chester=j|Circleville=f|Cisco=9|Clarkston=2|Clawson=7|Clearfield=5|Cleveland=7|Coalville=l|Collinston=1|Corinne=1|Cornish=2|Croydon=e|Dammeron Valley=q|Delta=d|Deweyville=1|Draper=h|Duchesne=6|Duck Creek Village=c|Dugway=m|Dutch John=4|Eagle Mountain=o|East Carbon=3|Echo=l|Eden=s|Elberta=o|Elmo=7|Elsinore=k|Emery=7|Enterprise=q|Ephraim=j|Escalante=8|Eureka=b|Fairview=j|Farmington=5|Fayette=j|Ferron=7|Fielding=1|Fillmore=d|Fort Duchesne=n|Fountain Green=j|Fruitland=6|Garden City=g|Garland=1|Garrison=d|Glendale=c|Glenwood=k|Goshen=o|Grantsville=m|Green River=7|Greenville=0|Greenwich=f|Grouse Creek=1|Gunlock=q|Gunnison=j|Hanksville=r|Hanna=6|Hatch=8|Heber City=p|Helper=3|Henefer=l|Henrieville=8|Herriman=h|Hildale=q|Hill Afb=5|Hinckley=d|Holden=d|Honeyville=1|Hooper=s|Howell=1|Huntington=7|Huntsville=s|Hurricane=q|Hyde Park=2|Hyrum=2|Ibapah=m|Ivins=q|Jensen=n|Joseph=k|Junction=f|Kamas=l|Kanab=c|Kanarraville=a|Kanosh=d|Kaysville=5|Kenilworth=3|Kingston=f|Koosharem=k|La Sal=i|La Verkin=q|Lake Powell=i|Laketown=g|Lapoint=n|Layton=5|Leamington=d|Leeds=q|Lehi=o|Levan=b|Lewiston=2|Lindon=o|Loa=r|Logan=2|Lyman=r|Lynndyl=d|Magna=h|Manila=4|Manti=j|Mantua=1|Mapleton=o|Marysvale=f|Mayfield=j|Meadow=d|Mendon=2|Mexican Hat=i|Midvale=h|Midway=p|Milford=0|Millville=2|Minersville=0|Moab=9|Modena=a|Mona=b|Monroe=k|Montezuma Creek=i|Monticello=i|Monument Valley=i|Morgan=e|Moroni=j|Mount Carmel=c|Mount Pleasant=j|Mountain Home=6|Myton=6|Neola=6|Nephi=b|New Harmony=q|Newcastle=a|Newton=2|North Salt Lake=5|Oak City=d|Oakley=l|Ogden=s|Orangeville=7|Orderville=c|Orem=o|Panguitch=8|Paradise=2|Paragonah=a|Park City=l|Park Valley=1|Parowan=a|Payson=o|Peoa=l|Pine Valley=q|Pleasant Grove=o|Plymouth=1|Portage=1|Price=3|Providence=2|Provo=o|Randlett=n|Randolph=g|Redmond=k|Richfield=k|Richmond=2|Riverside=1|Riverton=h|Rockville=q|Roosevelt=6|Roy=s|Rush Valley=m|Saint George=q|Salem=o|Salina=k|Salt Lake City=h|Sandy=h|Santa Clara=q|Santaquin=o|Saratoga Springs=o|Scipio=d|Sevier=k|Sigurd=k|Smithfield=2|Snowville=1|South Jordan=h|Spanish Fork=o|Spring City=j|Springdale=q|Springville=o|Sterling=j|Stockton=m|Summit=a|Sunnyside=3|Syracuse=5|Tabiona=6|Talmage=6|Teasdale=r|Thompson=9|Tooele=m|Toquerville=q|Torrey=r|Tremonton=1|Trenton=2|Tridell=n|Tropic=8|Vernal=n|Vernon=m|Veyo=q|Virgin=q|Wales=j|Wallsburg=p|Washington=q|Wellington=3|Wellsville=2|Wendover=m|West Jordan=h|West Valley City=h|Whiterocks=n|Willard=1|Woodruff=g|Woods Cross=5'
+  },
+  VA: {
+    counties: 'Accomack|Albemarle|Alexandria|Alleghany|Amelia|Amherst|Appomattox|Arlington|Augusta|Bath|Bedford|Bland|Botetourt|Bristol|Brunswick|Buchanan|Buckingham|Buena Vista|Campbell|Caroline|Carroll|Charles City|Charlotte|Charlottesville|Chesapeake|Chesterfield|Clarke|Colonial Heights|Covington|Craig|Culpeper|Cumberland|Danville|Dickenson|Dinwiddie|Emporia|Essex|Fairfax|Fairfax City|Falls Church|Fauquier|Floyd|Fluvanna|Franklin|Franklin City|Frederick|Fredericksburg|Galax|Giles|Gloucester|Goochland|Grayson|Greene|Greensville|Halifax|Hampton|Hanover|Harrisonburg|Henrico|Henry|Highland|Hopewell|Isle of Wight|James City|King George|King William|King and Queen|Lancaster|Lee|Lexington|Loudoun|Louisa|Lunenburg|Lynchburg|Madison|Manassas|Manassas Park|Martinsville|Mathews|Mecklenburg|Middlesex|Montgomery|Nelson|New Kent|Newport News|Norfolk|Northampton|Northumberland|Norton|Nottoway|Orange|Page|Patrick|Petersburg|Pittsylvania|Poquoson|Portsmouth|Powhatan|Prince Edward|Prince George|Prince William|Pulaski|Radford|Rappahannock|Richmond|Richmond City|Roanoke|Roanoke City|Rockbridge|Rockingham|Russell|Salem|Scott|Shenandoah|Smyth|Southampton|Spotsylvania|Stafford|Staunton|Suffolk|Surry|Sussex|Tazewell|Virginia Beach|Warren|Washington|Waynesboro|Westmoreland|Williamsburg|Winchester|Wise|Wythe|York',
+    zips: 'fid:1y,1,1,1,1,1:2v,2:23,1,1,1:24,1,1,2:14,1,1:1y,1,1:14,1:11,1,1,2,4:14,1:1y,1:14,1:1y,1,2,1,1:2s,1:14,1,1,1,1:1y,1,1:2s,1:14,2:1y,1,1,1,2:11,1:1y,1:11,2:2s,1,2:1y,1,1,3,1,1,1,1,1:2s,1,1:11,1,1,3:1y,1,1,1,2,1:2s,1,2:14,1,1,1,1,1:1y,1:11,1,1,2,1,1,1:1y,1:14,b4:1y,131:11,6,6,a:2s,1,1:11,3:12,1,1:11,1,1,1,1,1,1:12,1:11,1:13,1:11,1,1,1,2:13,e:11,6,1,c,2,1,d,1,5,1,1,3,1,1,1,7,2,1,2,1,2,1:2s,9,1,f:11,1,1,1,3,2,1,1,1,b:2s,8:11,1,1,1,2,6:2s,1,1,1,1,4:11,2:7,1,1,1,1,1,1,2,1,1,1,1,1,1,1,1,2,6,1,1,3,a,1,1,1,1,1,1,1j:2,1,1:11,1:2,1,1:11,1,1,1,1,1:2,1:11,1:2,1,1:11,5:2,b,1,1,1,g,1f:1a,1,1:39,1:1a,1:39,1,1:38,1,4,f:j,1,2:39,2:2f,1:2i,2:2f,1:10,1,1,4:3j,1,3:j,2:1s,3,3:10,2:2f,4:2w,3:39,6:3j,2:39,1:2w,1:2f,3:10,4:1v,1:1s,1:1v,3:1s,3:3j,d:j,2:1v,1:10,3:1v,1:2i,1:10,2:2f,2:1v,1:j,3:1v,3:3j,3:1v,1:3j,2:1s,2:1v,1:3j,1:2f,4:38,1:j,3,1:2f,3:2i,2:1s,1:39,1:j,1:1s,1:2w,3:38,1:j,1:38,1:39,1,1,2:3j,2:10,5:38,2:2i,3:2w,2,4:1v,1:3j,1:1v,1:2f,1:j,1:3j,k:3l,1:19,1,1:3l,6:3g,1:q,9,2:19,1:2v,1:19,1,1:35,1:2v,3:3g,7:19,2:14,1:2v,1:35,1:3g,1:14,1:35,1:19,1:q,3:3g,1:2j,2:35,2:19,1,1,1:35,3,3:q,1:35,11:u,8:22,2,1:14,1:u,1,1:22,1:2v,2:u,1:22,1:14,2:22,1,1:u,1:22,1:u,1:22,1:14,1:u,1:22,1,1,1:u,1:14,1:u,1,1,1:22,1:14,1:2v,1:u,1:14,1:22,3:2v,1,1:22,1:2v,1g:1l,1:31,1:1l,4,3:35,1:31,1,3,5,1,3:35,3:31,3,1,1,1,1,1:2j,5:31,1,1:35,1:8,1:35,1,1:31,1:35,1:31,1:2j,1:31,1:2j,2:31,1c:1,1:n,1,1,1,1,1,1,1:1,1:n,1:1,9:2a,2,1:2i,1:1,7,1,3:1g,1:1,1,1:2a,1:8,1:1,2:2i,1:1,2,1,1,1:22,1:2a,3:8,5:2i,1:2a,1:1,1:2i,3:16,1:2a,1:1g,2:2a,1:1g,1:2a,2,1:2i,1:1g,1:16,2:2a,4:3i,7:1,2:22,c:1d,1:4,1:1d,1:g,1:1k,4:1t,2:2b,3:1e,1:1k,3:1d,3:26,1:16,1:1u,1:1z,1:26,2:v,3:l,1:28,1,3:26,3:1e,1,1:v,3:28,2:26,2:1k,3:1d,5:16,1:26,2:1m,1:1k,1:1m,1:1d,1,1:1e,1:26,1:1e,1:26,1:1e,1:26,1:1k,1:28,1,1:1d,3:1m,1:26,3:28,2:1r,2:4,1:16,1:1u,1:1t,3:2b,1:3o,1:1u,1:28,1:1z,9:1e,1,2:4,1:1t,1:1d,1:1u,1:26,1:1u,1:1k,1:p,1,1,1:10,1:1k,1:1z,2:26,1:p,3:g,1:2b,1:26,1:1u,1:1r,1:26,1:1e,1:26,1:1d,7:26,1:2p,1:2b,1,5:1k,1:l,1:1u,1:28,1:1m,3:1e,1:1d,1,1:1u,4:1e,1:1u,1:1k,1:26,5:1r,1:28,1:1z,3:2x,2:28,1,1:1u,1:1d,2:28,1:1t,2:1d,1,1:1r,1:3k,1,1:1r,2:1d,2:1k,q:2x,1,1,1,1,1,1,1,1:1m,1,1,1,1,1,1:2x,1:1m,1:p,1,1,1,1:1m,3:2x,1:1m,7:2x,1:1m,5,5:2x,1,8,4,1,2,2,1,3,2,1,1,2:1m,1,1:2x,1,1,1,1:1m,1:2x,2:p,1:2x,3:0,1,1,1:1q,2:0,1:2e,1:0,2:2e,3,1:1q,1,1:2e,4:o,1,1,1,1,1,1,1,1,8:0,1,4,4,2:2e,3,4,2:0,1,1,1,u,6,1,1:1q,1:2e,1:0,2,3,1:2e,2:0,1:2e,1:0,1,2,1:2e,1:0,1,1,1,1,1:2e,1:0,1,1,1,1:1q,2:0,1,2:2e,1:1q,1,1:3b,1,1,1,1,1,1,1,1:0,1,1,1:2e,7:3f,1,1,1:3b,1:3f,1,1,1,1,1,1,1,1,1,1,1,1,1,4,8,1:0,2:2e,1:0,3:2e,1:1q,1:0,d:2d,1,1,1,1,1,1,1,1,1,1,2,1,1,2,1,1,4,6,c,a,1e:2c,1,1,1,1,1,1,1,1,3,g,2:1j,l,a,1:2n,1:1j,1,1,1,1,1,1,1,b,9:3o,1,1,1,1,2,5:2o,1,1,1,1,2,1,1,2k:2r,2:2l,1,1,1,f:e,1:y,2:2h,3:37,1,1,1:y,1:p,1,1:y,1:r,2:p,1:37,1:p,1:3c,1:y,1,1:2r,1:e,1:37,1:e,1:3c,1:z,3:y,1:18,5:e,1,3:1p,6:37,1:3d,1:e,2:1h,2:y,1:e,1:37,1:2r,1:e,2:37,1:1h,2:3c,1:3d,1:3c,1:3d,1:y,2:e,1:3d,1:e,1:3d,1,2:e,1:y,3:3d,1:1q,1:3c,2:2q,8,6:27,2,2,1:e,1:g,1:2h,1:m,1:27,3,3:2h,4:m,2:g,1:m,1:20,1:6,2:20,1:2q,1,1:20,3:m,3:27,2:20,2:2q,1:2h,3:6,1:m,1:2q,2:m,1,1,2:2q,1:m,1:27,2,4:20,2:m,p:2z,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1:2y,1:c,1:2y,2:2z,1:29,1:2z,1,1,1,1,1,1,1,1,1,1,1,1,1,1,2,2,1,7:c,3:2k,1:1n,1,3:2t,1:2y,1:29,1,1,1,1:c,1:17,1:c,1:17,1:29,1:2m,1:2y,2:15,1:29,3:2k,1:c,1:1n,1:15,3:2k,1:c,1:2t,1:c,1:1c,1:2y,1:17,1:1n,1:c,1:15,1:17,1:1c,2:a,6,1:17,2:a,1:15,6:29,1:25,1,1,1,5:2k,1:a,1,2:1c,2:2t,1:t,1:1c,1:2t,1:c,1:t,1:2t,1:2k,1:1c,2,1:17,1:29,1:2m,2:2u,1,1,3:17,1:1c,1:1n,1:29,1:1c,1:17,2:33,2,2,4:2m,1:29,3:1n,2:1c,1:1n,3:2k,3:a,1:c,1:17,1:2k,1:a,1:2y,5:17,1:2k,g:d,1,1,2,4,1:3h,1,1,3:3m,1,1:x,1:1w,1:3m,1:x,1:1w,3:32,1,1:x,2,2:3m,6:3h,1:32,2:f,4:1w,1:34,1,1:3m,2:1w,2:34,1,5:x,2:34,2:32,3:1w,2,1:32,3:x,1:3h,1:34,1:x,1:2g,4:1w,2:3m,1:32,1:1w,1,1:3m,7:34,2:1f,1:3m,8:2t,a:36,1:3n,1,1:b,1,1:36,1:k,1:b,1:36,3:3n,1,1:2t,1:k,1:1f,1:3h,1:k,2:1f,3:1b,7:3h,3:k,4:2t,1:1f,2:3n,1:k,1,2:36,6:3n,1:3h,2:1f,3:b,2:3n,2:36,4:3n,1:36,2:3e,1:1f,2:15,1:k,1:3n,j:3a,1,9:8,1:9,1:1o,2:30,1:h,5:8,1:3,4:s,4:8,1,1,1:1o,2:30,2:8,1:c,1:30,1:8,1:31,1:1o,3:9,3:3,2:1x,7:3,1:1o,1:8,1:9,3:8,1:2a,1:1o,2:8,1:1o,1:8,2:31,1:30,1,1:3,2:8,1,2,3,1:30,1:9,1:8,1,1:9,e:21,1,1,1,1,1,7:i,1:21,1,2:i,3:1i,1:5,1:6,1:a,3,1:2m,1:i,1:27,1:2m,1,2:5,1:1i,1,1:a,2:i,1:1i,1:w,1,2,6:2m,1:i,1:a,2:2a,1:i,1:30,1:a,1:2m,1:1i,4:1,1:2m,2,1,3:i,1:a,1:i,1:5,2,2:i,1:1i,1:30,1,1:27,1:2a,5:2m,2:i,1:1i,1:1,2:1i,1:6,1:2m,1:5,2:1i,1,1:2a,2:3e,1,1:f,1:3e,1,1,1:x,1:3e,1,3,1,1:f,5:3e,1:f,2:3e,2:f,3,1,2:3e,1:f,3,1:3e,2,2:f,1:3e,1,5:f,1,2:32,2:3e,5:f,1,1',
+    cities: 'Abingdon=3h|Accomac=0|Achilles=1d|Afton=2a|Alberta=e|Aldie=1y|Alexandria=2|Altavista=i|Alton=1i|Amelia Court House=4|Amherst=5|Amissville=2v|Ammon=y|Amonate=3e|Andover=3m|Annandale=11|Appalachia=3m|Appomattox=6|Ararat=2k|Ark=1d|Arlington=7|Aroda=22|Arrington=2a|Arvonia=g|Ashburn=1y|Ashland=1k|Assawoman=0|Atkins=36|Atlantic=0|Augusta Springs=8|Austinville=3n|Axton=1n|Aylett=1t|Bacova=9|Banco=22|Bandy=3e|Barboursville=2i|Barhamsville=2b|Barren Springs=3n|Baskerville=27|Bassett=1n|Bastian=b|Basye=35|Batesville=1|Battery Park=1q|Bealeton=14|Beaumont=1e|Beaverdam=1k|Bedford=a|Bee=x|Belle Haven=0|Belspring=2t|Ben Hur=1w|Bena=1d|Bent Mountain=2y|Bentonville=3g|Bergton=31|Berryville=q|Big Island=a|Big Rock=f|Big Stone Gap=3m|Birchleaf=x|Birdsnest=2e|Bishop=3e|Blacksburg=29|Blackstone=2h|Blackwater=1w|Blairs=2m|Bland=b|Bloxom=0|Blue Grass=1o|Blue Ridge=c|Bluefield=3e|Bluemont=1y|Bohannon=26|Boissevain=3e|Boones Mill=17|Boston=u|Bowling Green=j|Boyce=q|Boydton=27|Boykins=37|Bracey=27|Branchville=37|Brandy Station=u|Breaks=x|Bremo Bluff=16|Bridgewater=31|Brightwood=22|Bristol=d|Bristow=2s|Broad Run=14|Broadford=36|Broadway=31|Brodnax=e|Brooke=39|Brookneal=i|Brownsburg=30|Brucetown=19|Bruington=1u|Buchanan=c|Buckingham=g|Buena Vista=h|Buffalo Junction=27|Bumpass=1z|Burgess=2f|Burke=11|Burkes Garden=3e|Burkeville=2h|Burr Hill=2i|Callands=2m|Callao=2f|Callaway=17|Calverton=14|Cana=k|Cape Charles=2e|Capeville=2e|Capron=37|Cardinal=26|Caret=10|Carrollton=1q|Carrsville=1q|Carson=y|Cartersville=v|Casanova=14|Cascade=2m|Castleton=2v|Castlewood=32|Catawba=2y|Catharpin=2s|Catlett=14|Cedar Bluff=3e|Center Cross=10|Centreville=11|Ceres=b|Champlain=10|Chantilly=11|Charles City=l|Charlotte Court House=m|Charlottesville=n|Chase City=27|Chatham=2m|Check=15|Cheriton=2e|Chesapeake=o|Chester=p|Chester Gap=2v|Chesterfield=p|Chilhowie=36|Chincoteague Island=0|Christchurch=28|Christiansburg=29|Church Road=y|Church View=28|Churchville=8|Claremont=3c|Clarksville=27|Claudville=2k|Clear Brook=19|Cleveland=32|Clifford=5|Clifton=11|Clifton Forge=3|Clinchco=x|Clintwood=x|Clover=1i|Cloverdale=c|Cluster Springs=1i|Cobbs Creek=26|Coeburn=3m|Coleman Falls=a|Coles Point=3j|Collinsville=1n|Colonial Beach=3j|Colonial Heights=r|Columbia=1e|Concord=i|Copper Hill=15|Corbin=j|Courtland=37|Covesville=1|Covington=s|Craddockville=0|Craigsville=8|Crewe=2h|Criders=31|Crimora=8|Cripple Creek=3n|Critz=2k|Crockett=3n|Cross Junction=19|Crozet=1|Crozier=1e|Crystal Hill=1i|Cullen=m|Culpeper=u|Cumberland=v|Dahlgren=1s|Daleville=c|Damascus=3h|Dante=32|Danville=w|Davenport=f|Davis Wharf=0|Dayton=31|Deerfield=8|Delaplane=14|Deltaville=28|Dendron=3c|Dewitt=y|Dhs=1y|Diggs=26|Dillwyn=g|Dinwiddie=y|Disputanta=2r|Doe Hill=1o|Dogue=1s|Dolphin=e|Doran=3e|Doswell=1k|Drakes Branch=m|Draper=2t|Drewryville=37|Dry Fork=2m|Dryden=1w|Dublin=2t|Duffield=34|Dugspur=k|Dulles=1y|Dumfries=2s|Dundas=20|Dungannon=34|Dunn Loring=11|Dunnsville=10|Dutton=1d|Dyke=1g|Eagle Rock=c|Earlysville=1|East Stone Gap=3m|Eastville=2e|Ebony=e|Edinburg=35|Edwardsville=2f|Eggleston=1c|Elberon=3c|Elk Creek=1f|Elkton=31|Elkwood=u|Elliston=2y|Emory=3h|Emporia=z|Esmont=1|Etlan=22|Evergreen=6|Evington=i|Ewing=1w|Exmore=2e|Faber=2a|Fairfax=11|Fairfax Station=11|Fairfield=30|Falls Church=11|Falls Mills=3e|Fancy Gap=k|Farmville=2q|Farnham=2w|Ferrum=17|Fieldale=1n|Fincastle=c|Fishers Hill=35|Fishersville=8|Flint Hill=2v|Floyd=15|Ford=y|Forest=a|Fork Union=16|Fort Belvoir=11|Fort Blackmore=34|Fort Defiance=8|Fort Eustis=2c|Fort Lee=2r|Fort Mitchell=20|Fort Monroe=1j|Fort Myer=7|Fort Valley=35|Foster=26|Franklin=18|Franktown=2e|Fredericksburg=1a|Free Union=1|Freeman=e|Fries=1f|Front Royal=3g|Fulks Run=31|Gainesville=2s|Galax=1b|Garrisonville=39|Gasburg=e|Gate City=34|Glade Hill=17|Glade Spring=3h|Gladstone=2a|Gladys=i|Glasgow=30|Glen Allen=1m|Glen Lyn=1c|Glen Wilton=c|Gloucester=1d|Gloucester Point=1d|Goldvein=14|Goochland=1e|Goode=a|Goodview=a|Gordonsville=2i|Gore=19|Goshen=30|Great Falls=11|Green Bay=2q|Greenbackville=0|Greenbush=0|Greenville=8|Greenway=11|Greenwood=1|Gretna=2m|Grimstead=26|Grottoes=31|Grundy=f|Gum Spring=1e|Gwynn=26|Hacksneck=0|Hadensville=1e|Hague=3j|Halifax=1i|Hallieford=26|Hallwood=0|Hamilton=1y|Hampden Sydney=2q|Hampton=1j|Hanover=1k|Harborton=0|Hardy=a|Hardyville=28|Harrisonburg=1l|Hartfield=28|Hartwood=39|Hayes=1d|Haymarket=2s|Haynesville=2w|Haysi=x|Haywood=22|Head Waters=1o|Heathsville=2f|Henrico=1m|Henry=17|Herndon=11|Hillsville=k|Hiltons=34|Hinton=31|Hiwassee=2t|Honaker=32|Hood=22|Hopewell=1p|Horntown=0|Horsepen=3e|Hot Springs=9|Howardsville=1|Huddleston=a|Hudgins=26|Hume=14|Huntly=2v|Hurley=f|Hurt=2m|Hustle=10|Independence=1f|Indian Valley=15|Iron Gate=3|Irvington=1v|Isle Of Wight=1q|Ivanhoe=3n|Ivor=37|Ivy=1|Jamaica=28|Jamestown=1r|Jamesville=2e|Jarratt=3d|Java=2m|Jeffersonton=u|Jenkins Bridge=0|Jersey=1s|Jetersville=4|Jewell Ridge=3e|Jonesville=1w|Keeling=2m|Keen Mountain=f|Keene=1|Keezletown=31|Keller=0|Kenbridge=20|Kents Store=16|Keokee=1w|Keswick=1|Keysville=m|Kilmarnock=1v|King And Queen Court House=1u|King George=1s|King William=1t|Kinsale=3j|La Crosse=27|Lacey Spring=31|Lackey=3o|Ladysmith=j|Lambsburg=k|Lancaster=1v|Laneview=10|Lanexa=2b|Laurel Fork=k|Lawrenceville=e|Lebanon=32|Leesburg=1y|Leon=22|Lexington=1x|Lightfoot=3o|Lignum=u|Lincoln=1y|Linden=3g|Linville=31|Little Plymouth=1u|Lively=1v|Locust Dale=22|Locust Grove=2i|Locust Hill=28|Locustville=0|Long Island=i|Loretto=10|Lorton=11|Lottsburg=2f|Louisa=1z|Lovettsville=1y|Lovingston=2a|Low Moor=3|Lowry=a|Lunenburg=20|Luray=2j|Lynch Station=i|Lynchburg=21|Lyndhurst=8|Machipongo=2e|Madison=22|Madison Heights=5|Maidens=1e|Manakin Sabot=1e|Manassas=23|Mannboro=4|Manquin=1t|Mappsville=0|Marion=36|Marionville=2e|Markham=14|Marshall=14|Martinsville=25|Maryus=1d|Mascot=1u|Mathews=26|Mattaponi=1u|Maurertown=35|Mavisdale=f|Max Meadows=3n|Maxie=f|Mc Clure=x|Mc Coy=29|Mc Dowell=1o|Mc Gaheysville=31|Mc Kenney=y|Mc Lean=11|Meadows Of Dan=2k|Meadowview=3h|Mears=0|Mechanicsville=1k|Meherrin=2q|Melfa=0|Mendota=3h|Meredithville=e|Merrifield=11|Merry Point=1v|Middlebrook=8|Middleburg=1y|Middletown=19|Midland=14|Midlothian=p|Milford=j|Millboro=9|Millers Tavern=10|Millwood=q|Mineral=1z|Mint Spring=8|Mitchells=u|Modest Town=0|Mollusk=1v|Moneta=a|Monroe=5|Montebello=2a|Monterey=1o|Montpelier=1k|Montpelier Station=2i|Montross=3j|Montvale=a|Moon=26|Morattico=1v|Moseley=p|Mount Crawford=31|Mount Holly=3j|Mount Jackson=35|Mount Sidney=8|Mount Solon=8|Mount Vernon=11|Mouth Of Wilson=1f|Mustoe=1o|Narrows=1c|Naruna=i|Nassawadox=2e|Nathalie=1i|Natural Bridge=30|Natural Bridge Station=30|Nellysford=2a|Nelson=27|Nelsonia=0|New Canton=g|New Castle=t|New Church=0|New Hope=8|New Kent=2b|New Market=35|New Point=26|New River=2t|Newbern=2t|Newington=11|Newport=1c|Newport News=2c|Newsoms=37|Newtown=1u|Nickelsville=34|Ninde=1s|Nokesville=2s|Nora=x|Norfolk=2d|Norge=1r|North=26|North Garden=1|North Tazewell=3e|Norton=2g|Norwood=2a|Nottoway=2h|Nuttsville=1v|Oak Hall=0|Oakpark=22|Oakton=11|Oakwood=f|Occoquan=2s|Oilville=1e|Oldhams=3j|Onancock=0|Onemo=26|Onley=0|Ophelia=2f|Orange=2i|Ordinary=1d|Oriskany=c|Orkney Springs=35|Orlean=14|Oyster=2e|Paeonian Springs=1y|Paint Bank=t|Painter=0|Palmyra=16|Pamplin=6|Paris=14|Parksley=0|Parrott=2t|Partlow=38|Patrick Springs=2k|Pearisburg=1c|Pembroke=1c|Penhook=17|Penn Laird=31|Pennington Gap=1w|Petersburg=2l|Phenix=m|Philomont=1y|Pilgrims Knob=f|Pilot=29|Piney River=2a|Pittsville=2m|Pleasant Valley=31|Pocahontas=3e|Poquoson=2n|Port Haywood=26|Port Republic=31|Port Royal=j|Portsmouth=2o|Pound=3m|Pounding Mill=3e|Powhatan=2p|Pratts=22|Prince George=2r|Prospect=2q|Providence Forge=2b|Pulaski=2t|Pungoteague=0|Purcellville=1y|Quantico=2s|Quicksburg=35|Quinby=0|Quinque=1g|Quinton=2b|Radford=2u|Radiant=22|Randolph=m|Raphine=30|Rapidan=u|Rappahannock Academy=j|Raven=f|Rawlings=e|Rectortown=14|Red Ash=3e|Red House=m|Red Oak=m|Redwood=17|Reedville=2f|Remington=14|Rescue=1q|Reston=11|Reva=u|Rhoadesville=2i|Rice=2q|Rich Creek=1c|Richardsville=u|Richlands=3e|Richmond=2x|Ridgeway=1n|Rileyville=2j|Riner=29|Ringgold=2m|Ripplemead=1c|Rixeyville=u|Roanoke=2z|Rochelle=22|Rockbridge Baths=30|Rockville=1k|Rocky Gap=b|Rocky Mount=17|Rollins Fork=1s|Rose Hill=1w|Rosedale=32|Roseland=2a|Round Hill=1y|Rowe=f|Ruby=39|Ruckersville=1g|Rural Retreat=3n|Rustburg=i|Ruther Glen=j|Ruthville=l|Saint Charles=1w|Saint Paul=3m|Saint Stephens Church=1u|Salem=33|Saltville=36|Saluda=28|Sandston=1m|Sandy Hook=1e|Sandy Level=2m|Sandy Point=3j|Sanford=0|Saxe=m|Saxis=0|Schley=1d|Schuyler=2a|Scottsburg=1i|Scottsville=1|Seaford=3o|Sealston=1s|Seaview=2e|Sedley=37|Selma=3|Severn=1d|Shacklefords=1u|Sharps=2w|Shawsville=29|Shenandoah=2j|Shipman=2a|Shortt Gap=f|Singers Glen=31|Skippers=1h|Skipwith=27|Smithfield=1q|Somerset=2i|Somerville=14|South Boston=1i|South Hill=27|Sparta=j|Speedwell=3n|Spencer=1n|Sperryville=2v|Spotsylvania=38|Spout Spring=6|Spring Grove=3c|Springfield=11|Stafford=39|Staffordsville=1c|Stanardsville=1g|Stanley=2j|Stanleytown=1n|Star Tannery=19|State Farm=1e|Staunton=3a|Steeles Tavern=8|Stephens City=19|Stephenson=19|Sterling=1y|Stevensburg=u|Stevensville=1u|Stony Creek=3d|Strasburg=35|Stratford=3j|Stuart=2k|Stuarts Draft=8|Studley=1k|Suffolk=3b|Sugar Grove=36|Sumerduck=14|Surry=3c|Susan=26|Sussex=3d|Sutherland=y|Sutherlin=2m|Sweet Briar=5|Swoope=8|Swords Creek=32|Syria=22|Tangier=0|Tannersville=3e|Tappahannock=10|Tasley=0|Tazewell=3e|Temperanceville=0|Thaxton=a|The Plains=14|Thornburg=38|Timberville=31|Toano=1r|Toms Brook=35|Topping=28|Townsend=2e|Trevilians=1z|Triangle=2s|Troutdale=1f|Troutville=c|Troy=16|Tyro=2a|Union Hall=17|Unionville=2i|Upperville=14|Urbanna=28|Valentines=e|Vansant=f|Vernon Hill=1i|Verona=8|Vesta=2k|Vesuvius=30|Victoria=20|Vienna=11|Viewtown=2v|Village=2w|Villamont=a|Vinton=2y|Virgilina=1i|Virginia Beach=3f|Virginia State University=2l|Wachapreague=0|Wake=28|Wakefield=3d|Walkerton=1u|Wallops Island=0|Wardtown=2e|Ware Neck=1d|Warfield=e|Warm Springs=9|Warrenton=14|Warsaw=2w|Washington=2v|Water View=28|Waterford=1y|Wattsville=0|Waverly=3d|Waynesboro=3i|Weber City=34|Weems=1v|West Augusta=8|West Mclean=11|West Point=1t|Weyers Cave=8|White Hall=1|White Marsh=1d|White Plains=e|White Post=q|White Stone=1v|Whitetop=1f|Whitewood=f|Wicomico=1d|Wicomico Church=2f|Williamsburg=1r|Williamsville=9|Willis=15|Willis Wharf=2e|Wilsons=y|Winchester=3l|Windsor=1q|Wingina=2a|Wirtz=17|Wise=3m|Withams=0|Wolford=f|Wolftown=22|Woodberry Forest=22|Woodbridge=2s|Woodford=j|Woodlawn=k|Woods Cross Roads=1d|Woodstock=35|Woodville=2v|Woolwine=2k|Wylliesburg=m|Wytheville=3n|Yale=3d|Yorktown=3o|Zacata=3j|Zuni=1q'
+  },
+  VT: {
+    counties: 'Addison|Bennington|Caledonia|Chittenden|Essex|Franklin|Grand Isle|Lamoille|Orange|Orleans|Rutland|Washington|Windham|Windsor',
+    zips: '3ux:d,8,l,1,1,1:8,1:d,1,1:8,1:d,1:8,1,1,1,1:2,1:8,2,1:2,1:d,1,1,1:2,1:8,1:d,1,1:8,1:d,1,2:8,1:d,1:8,1,1:d,3,2,1,1:2,1:8,1:d,1:8,1:d,1:8,1,1,1,2,2,2,1:d,1:8,1,2:d,1,2,a:c,14,1:d,1,3:c,2,1:d,1,1,1:1,1:d,1:c,1,1:d,2:c,1,2:d,14:1,1d,1,1,1,1,1,2,3,1,1,13:c,1,1,1,10:1,1:c,1,1,1,1,1,4:1,1:c,1:1,1:c,1,1,1,1,1,1,1,1,1,1,12:3,1,1,1,1,1,1,1,v,1:6,1:5,1:7,1:0,1:7,1:3,1,1:5,1,1:3,1:5,1:3,1,1,1:5,1,1:0,1:5,1:6,1:5,1,1:3,1,1:6,1:7,1:3,1,2,1:0,1:5,1,1:0,1,1:6,2:5,1:3,1:5,1,2,1:3,1:5,2,1:6,1:0,1:5,1:3,1,1:0,1:7,2:3,1,2y:b,1,1,1,5,b,d,7,1,6,1,1,1,1,1:7,1,1:b,1:7,1,1,1:b,2,1:7,1,1:b,1,1:7,1:b,1,2:0,1:b,1,1:7,1:b,1,1:8,1:b,1,1,1:8,1:7,1:b,1,j:a,1,s,1,1,1,1:0,1:a,1,1,1,1,1:0,1:a,1,1,1,1,1:d,1:0,1,2:a,1,2:0,4:a,1,1,1:0,1:a,1,1,1,1,1:0,1:d,1:1,1:0,1,2:d,1:a,1,1,1:1,1:a,1:0,15:2,1:9,1:2,1:9,1,1:4,1:9,1,1,1:2,1:9,1,2:2,1:9,3:2,1:4,1:2,1:9,1:4,1:9,1,1:2,2:9,1:4,1:9,1:2,1,1,1,2:9,2,2,1:4,1:9,1,1:2,1,1,3,1,1:9,3:2,1:9,1:2,1:9,1,q:4,1,1,1,1,1,1',
+    cities: 'Adamant=b|Albany=9|Alburgh=6|Arlington=1|Ascutney=d|Averill=4|Bakersfield=5|Barnard=d|Barnet=2|Barre=b|Barton=9|Beebe Plain=9|Beecher Falls=4|Bellows Falls=c|Belmont=a|Belvidere Center=7|Bennington=1|Benson=a|Bethel=d|Bomoseen=a|Bondville=1|Bradford=8|Brandon=a|Brattleboro=c|Bridgewater=d|Bridgewater Corners=d|Bridport=0|Bristol=0|Brookfield=8|Brownsville=d|Burlington=3|Cabot=b|Calais=b|Cambridge=7|Cambridgeport=c|Canaan=4|Castleton=a|Cavendish=d|Center Rutland=a|Charlotte=3|Chelsea=8|Chester=d|Chittenden=a|Colchester=3|Concord=4|Corinth=8|Coventry=9|Craftsbury=9|Craftsbury Common=9|Cuttingsville=a|Danby=a|Danville=2|Derby=9|Derby Line=9|Dorset=1|East Arlington=1|East Barre=b|East Berkshire=5|East Burke=2|East Calais=b|East Charleston=9|East Corinth=8|East Dorset=1|East Dover=c|East Fairfield=5|East Hardwick=2|East Haven=4|East Middlebury=0|East Montpelier=b|East Poultney=a|East Randolph=8|East Ryegate=2|East Saint Johnsbury=2|East Thetford=8|East Wallingford=a|Eden=7|Eden Mills=7|Enosburg Falls=5|Essex=3|Essex Junction=3|Fair Haven=a|Fairfax=5|Fairfield=5|Fairlee=8|Ferrisburgh=0|Florence=a|Forest Dale=a|Franklin=5|Gaysville=d|Gilman=4|Glover=9|Grafton=c|Granby=4|Grand Isle=6|Graniteville=b|Granville=0|Greensboro=9|Greensboro Bend=9|Groton=2|Guildhall=4|Hancock=0|Hardwick=2|Hartford=d|Hartland=d|Hartland Four Corners=d|Highgate Center=5|Highgate Springs=5|Hinesburg=3|Huntington=3|Hyde Park=7|Hydeville=a|Irasburg=9|Island Pond=4|Isle La Motte=6|Jacksonville=c|Jamaica=c|Jeffersonville=7|Jericho=3|Johnson=7|Jonesville=3|Killington=a|Lake Elmore=7|Londonderry=c|Lowell=9|Lower Waterford=2|Ludlow=d|Lunenburg=4|Lyndon=2|Lyndon Center=2|Lyndonville=2|Manchester=1|Manchester Center=1|Marlboro=c|Marshfield=b|Mc Indoe Falls=2|Middlebury=0|Middletown Springs=a|Milton=3|Monkton=0|Montgomery=5|Montgomery Center=5|Montpelier=b|Moretown=b|Morgan=9|Morrisville=7|Moscow=7|Mount Holly=a|New Haven=0|Newbury=8|Newfane=c|Newport=9|Newport Center=9|North Bennington=1|North Clarendon=a|North Concord=4|North Ferrisburgh=0|North Hartland=d|North Hero=6|North Hyde Park=7|North Montpelier=b|North Pomfret=d|North Pownal=1|North Springfield=d|North Thetford=8|North Troy=9|Northfield=b|Northfield Falls=b|Norton=4|Norwich=d|Orleans=9|Orwell=0|Passumpsic=2|Pawlet=a|Peacham=2|Perkinsville=d|Peru=1|Pittsfield=a|Pittsford=a|Plainfield=b|Plymouth=d|Post Mills=8|Poultney=a|Pownal=1|Proctor=a|Proctorsville=d|Putney=c|Quechee=d|Randolph=8|Randolph Center=8|Reading=d|Readsboro=1|Richford=5|Richmond=3|Ripton=0|Rochester=d|Roxbury=0|Rupert=1|Rutland=a|Saint Albans=5|Saint Albans Bay=5|Saint Johnsbury=2|Saint Johnsbury Center=2|Salisbury=0|Saxtons River=c|Shaftsbury=1|Sharon=d|Sheffield=2|Shelburne=3|Sheldon=5|Sheldon Springs=5|Shoreham=0|South Barre=b|South Burlington=3|South Hero=6|South Londonderry=c|South Newfane=c|South Pomfret=d|South Royalton=d|South Ryegate=2|South Strafford=8|South Woodstock=d|Springfield=d|Stamford=1|Starksboro=0|Stockbridge=d|Stowe=7|Strafford=8|Sutton=2|Swanton=5|Taftsville=d|Thetford=8|Thetford Center=8|Topsham=8|Townshend=c|Troy=9|Tunbridge=8|Underhill=3|Underhill Center=3|Vergennes=0|Vernon=c|Vershire=8|Waitsfield=b|Wallingford=a|Wardsboro=c|Warren=b|Washington=8|Waterbury=b|Waterbury Center=b|Waterville=7|Websterville=b|Wells=a|Wells River=8|West Burke=2|West Charleston=9|West Danville=2|West Dover=c|West Dummerston=c|West Fairlee=8|West Halifax=c|West Hartford=d|West Newbury=8|West Pawlet=a|West Rupert=1|West Rutland=a|West Topsham=8|West Townshend=c|West Wardsboro=c|Westfield=9|Westford=3|Westminster=c|Westminster Station=c|Weston=d|White River Junction=d|Whiting=0|Whitingham=c|Wilder=d|Williamstown=8|Williamsville=c|Williston=3|Wilmington=c|Windsor=d|Winooski=3|Wolcott=7|Woodbury=b|Woodstock=d|Worcester=b'
+  },
+  WA: {
+    counties: 'Adams|Asotin|Benton|Chelan|Clallam|Clark|Columbia|Cowlitz|Douglas|Ferry|Franklin|Garfield|Grant|Grays Harbor|Island|Jefferson|King|Kitsap|Kittitas|Klickitat|Lewis|Lincoln|Mason|Okanogan|Pacific|Pend Oreille|Pierce|San Juan|Skagit|Skamania|Snohomish|Spokane|Stevens|Thurston|Wahkiakum|Walla Walla|Whatcom|Whitman|Yakima',
+    zips: '23m9:g,1,1,1,1,1,1,1,1,1,1,1:u,1:g,1,1,4,1:u,1,1:g,1,1,1,1:u,1:g,1,1,1,1,1,1,1,1,1:u,1,1:g,1,1,1,1,1:u,2:g,1:u,1:g,3,1,1,1,2,1,1,1,1,2:h,1:g,1,1,1,3,2,1,1,1,1,1,2:u,5,1:g,4:u,2:g,3,1,8,1,1,1,1,1,1,1,1,1:h,1:g,1,1,1,1,1,1,1,1,2,1,2,1,1,1,2,2,2,1,2,2,1,2,3,1,1,2,6,1,3,2,1,3,1,1,2,2,4,1,2,1,3,4,3,2,1,3,1,3,1,2:u,2,1,2,1,1,5,7:10,1:s,1:r,1:u,1:g,1:10,1,1,1,1,1,1,1:s,1,2,1:e,1:s,1,1:e,1:10,1:u,2:r,1:10,1:r,2:10,1,1:e,1:r,1:u,1,1:e,2:s,1:u,1:s,1:u,1,1:e,1:r,1:10,1:s,1:10,2,1:s,3:u,1,1,1:s,1,1:u,1:10,1:e,1,1:r,1,1:10,1:u,1:s,1,2:r,1:u,1:g,2:u,1,1,1,1,1:10,1:u,1:r,6:q,1,1:4,5:h,1,1,2,1,5:f,1:q,1:h,1:q,1:4,1:f,1:4,1:q,1,1,1,1:4,1:q,1,2,1:k,1:h,1:q,1:f,1:h,2,1:4,1:q,1:h,1,2:q,1,1:4,1:q,1,1:h,1:q,1:k,1,1:4,1:f,1:h,1:q,1:k,1:4,1,1:h,1:f,1:h,1,1:f,2:h,1:q,1,1,1,1,1:f,1:k,1:h,2,1:4,1,1:h,1,1:q,1:h,1:q,1,2,1,1:h,1,1:q,1,1,1,1,3,1,1,1,1,1,1,1,1,2,1,1,2,1,1,1,1,2,1,2,6,1,2,5,1,4,1,1,1,1,1,g,1,1,1,4,a,9,3,3,1,1,1,2:x,1,1,1,1,1,1,1,1,2,1,1,3,4:d,2:k,2:m,2:d,1:o,1:m,2:x,1:k,1,1,2:d,1,1,1:k,1,1:x,1:d,1:k,2,2:m,1:d,1:m,2:d,2,2:o,1:m,1:x,1:d,1:q,1:d,1:m,1:o,1:d,1,1:k,1,1:d,2,1,1:k,1:d,1:k,3:d,1:x,1:o,2:x,1:q,1:7,1:k,1:d,1:m,1:k,1:o,1:d,1:m,1:x,1:o,1:k,1:m,1:k,2:d,1:k,1:x,2,2:5,1:j,1:7,1:5,1:j,1:5,1,2:7,1:t,1:7,1:y,1:j,1:o,2:7,1:j,2,1,1:y,1:5,1:j,1:o,1:7,1,2:j,1:5,2:o,1:7,3:j,2:o,1,1:t,1:o,1,1:5,1:y,1:o,1:7,2:y,1:t,1:7,1:j,1:t,9:5,1,1,1,1,1,1,2,2:j,1:5,1:j,1,1:7,1:5,7,1,1,1,1,1,36:3,1:8,5:3,4,1:n,1:8,1:n,1:3,1,1,2:n,2:3,1,1:c,1,2:3,1:n,1:3,1:n,1:8,1:3,1:c,1:n,1,2:3,1:c,3:n,1,2:8,1:n,1:8,1:n,1:3,1:c,1:n,1:8,1:c,1:3,1:c,2:n,1,1:c,1:8,1:n,1:c,2:n,13:12,1,1,1,3,1,1,b,1,1:i,1:12,2:i,1,4:12,2,1,1:i,1:12,1,1,1,1,1:i,1,1:12,1:i,1:12,2:i,1:12,1,2:i,1:12,1,1,1c:v,2,1,1,1,2:l,1:v,2,1,1:w,1:v,2,1:11,1:v,1,1,1,1,1,2,1,1,2,1,1,1:l,1:11,1:w,2:v,1,2,1:w,1p,1:11,1:l,1:11,1:0,2:9,2:w,1,1:11,2,1:w,1:c,1:n,1:l,1:9,1:p,2:9,1:l,1:c,1:n,1:11,1:w,2:11,1:w,1:11,1:w,2:c,1:l,1:c,1:11,1:w,1:9,1:p,1:9,1:w,2:11,1:l,2:9,1:l,1:w,1:11,1:9,1:w,1:p,1,1:l,1:n,1:p,1:w,1:11,1:l,1:9,1:11,2,1,2:9,1:w,2:0,1:11,1,2:w,1:11,2,3,1:p,1:w,4:l,g:v,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,3,1,4,n,1,4,2,2,15:a,1,i:2,1:c,1:j,1:z,1,2:a,2:6,1:z,1:a,3:11,2:a,1:2,1,1,3:0,2:a,1:0,1:2,1,1:b,1:z,1:c,1:2,2,1,1,2:j,1:c,2:6,1:z,1,1,1,8:0,u:1,1,1',
+    cities: 'Aberdeen=d|Acme=10|Addy=w|Adna=k|Airway Heights=v|Albion=11|Allyn=m|Almira=l|Amanda Park=d|Amboy=5|Anacortes=s|Anatone=1|Anderson Island=q|Appleton=j|Ardenvoir=3|Ariel=7|Arlington=u|Ashford=q|Asotin=1|Auburn=g|Bainbridge Island=h|Baring=g|Battle Ground=5|Bay Center=o|Beaver=4|Belfair=m|Bellevue=g|Bellingham=10|Belmont=11|Benge=0|Benton City=2|Beverly=c|Bickleton=j|Bingen=j|Black Diamond=g|Blaine=10|Blakely Island=r|Bonney Lake=q|Bothell=g|Bow=s|Boyds=9|Bremerton=h|Brewster=n|Bridgeport=8|Brinnon=f|Brownstown=12|Brush Prairie=5|Buckley=q|Bucoda=x|Buena=12|Burbank=z|Burley=h|Burlington=s|Burton=g|Camano Island=u|Camas=5|Camp Murray=q|Carbonado=q|Carlsborg=4|Carlton=n|Carnation=g|Carrolls=7|Carson=t|Cashmere=3|Castle Rock=7|Cathlamet=y|Centerville=j|Centralia=k|Chattaroy=v|Chehalis=k|Chelan=3|Chelan Falls=3|Cheney=v|Chewelah=w|Chimacum=f|Chinook=o|Cinebar=k|Clallam Bay=4|Clarkston=1|Clayton=w|Cle Elum=i|Clearlake=s|Clinton=e|Colbert=v|Colfax=11|College Place=z|Colton=11|Colville=w|Conconully=n|Concrete=s|Connell=a|Conway=s|Copalis Beach=d|Copalis Crossing=d|Cosmopolis=d|Cougar=7|Coulee City=c|Coulee Dam=n|Coupeville=e|Cowiche=12|Creston=l|Curlew=9|Curtis=k|Cusick=p|Custer=10|Dallesport=j|Danville=9|Darrington=u|Davenport=l|Dayton=6|Deer Harbor=r|Deer Park=v|Deming=10|Dixie=z|Doty=k|Dryden=3|Dupont=q|Duvall=g|East Olympia=x|East Wenatchee=8|Easton=i|Eastsound=r|Eatonville=q|Edmonds=u|Edwall=l|Elbe=q|Electric City=c|Elk=v|Ellensburg=i|Elma=d|Elmer City=n|Eltopia=a|Endicott=11|Entiat=3|Enumclaw=g|Ephrata=c|Ethel=k|Evans=w|Everett=u|Everson=10|Fairchild Air Force Base=v|Fairfield=v|Fall City=g|Farmington=11|Federal Way=g|Ferndale=10|Ford=w|Forks=4|Four Lakes=v|Fox Island=q|Freeland=e|Friday Harbor=r|Fruitland=w|Galvin=k|Garfield=11|George=c|Gifford=w|Gig Harbor=q|Glenoma=k|Glenwood=j|Gold Bar=u|Goldendale=j|Graham=q|Grand Coulee=c|Grandview=12|Granger=12|Granite Falls=u|Grapeview=m|Grayland=d|Grays River=y|Greenacres=v|Greenbank=e|Hamilton=s|Hansville=h|Harrah=12|Harrington=l|Hartline=c|Hay=11|Heisson=5|Hobart=g|Hoodsport=m|Hooper=11|Hoquiam=d|Humptulips=d|Hunters=w|Husum=j|Ilwaco=o|Inchelium=9|Index=u|Indianola=h|Ione=p|Issaquah=g|Joyce=4|Kahlotus=a|Kalama=7|Kapowsin=q|Keller=9|Kelso=7|Kenmore=g|Kennewick=2|Kent=g|Kettle Falls=w|Keyport=h|Kingston=h|Kirkland=g|Kittitas=i|Klickitat=j|La Center=5|La Conner=s|La Grande=q|La Push=4|Lacey=x|Lacrosse=11|Lake Stevens=u|Lakebay=q|Lakewood=q|Lamona=l|Lamont=11|Langley=e|Latah=v|Laurier=9|Leavenworth=3|Lebam=o|Liberty Lake=v|Lilliwaup=m|Lincoln=l|Lind=0|Littlerock=x|Long Beach=o|Longbranch=q|Longmire=q|Longview=7|Loomis=n|Loon Lake=w|Lopez Island=r|Lummi Island=10|Lyle=j|Lyman=s|Lynden=10|Lynnwood=u|Mabton=12|Malaga=3|Malden=11|Malo=9|Malone=d|Malott=n|Manchester=h|Mansfield=8|Manson=3|Maple Falls=10|Maple Valley=g|Marblemount=s|Marcus=w|Marlin=c|Marshall=v|Marysville=u|Matlock=m|Mattawa=c|Mazama=n|Mcchord Afb=q|Mccleary=d|Mckenna=q|Mead=v|Medical Lake=v|Medina=g|Menlo=o|Mercer Island=g|Mesa=a|Metaline=p|Metaline Falls=p|Methow=n|Mica=v|Mill Creek=u|Milton=q|Mineral=k|Moclips=d|Mohler=l|Monitor=3|Monroe=u|Montesano=d|Morton=k|Moses Lake=c|Mossyrock=k|Mount Vernon=s|Mountlake Terrace=u|Moxee=12|Mukilteo=u|Naches=12|Nahcotta=o|Napavine=k|Naselle=o|Neah Bay=4|Neilton=d|Nespelem=n|Newman Lake=v|Newport=p|Nine Mile Falls=v|Nooksack=10|Nordland=f|North Bend=g|North Bonneville=t|North Lakewood=u|Northport=w|Oak Harbor=e|Oakesdale=11|Oakville=d|Ocean Park=o|Ocean Shores=d|Odessa=l|Okanogan=n|Olalla=h|Olga=r|Olympia=x|Omak=n|Onalaska=k|Orcas=r|Orient=9|Orondo=8|Oroville=n|Orting=q|Othello=0|Otis Orchards=v|Outlook=12|Oysterville=o|Pacific=g|Pacific Beach=d|Packwood=k|Palisades=8|Palouse=11|Paradise Inn=q|Parker=12|Pasco=a|Pateros=n|Paterson=2|Pe Ell=k|Peshastin=3|Plymouth=2|Point Roberts=10|Pomeroy=b|Port Angeles=4|Port Gamble=h|Port Hadlock=f|Port Ludlow=f|Port Orchard=h|Port Townsend=f|Poulsbo=h|Prescott=z|Preston=g|Prosser=2|Pullman=11|Puyallup=q|Quilcene=f|Quinault=d|Quincy=c|Rainier=x|Randle=k|Ravensdale=g|Raymond=o|Reardan=v|Redmond=g|Renton=g|Republic=9|Retsil=h|Rice=w|Richland=2|Ridgefield=5|Ritzville=0|Riverside=n|Rochester=x|Rock Island=8|Rockford=v|Rockport=s|Rollingbay=h|Ronald=i|Roosevelt=j|Rosalia=11|Rosburg=y|Roslyn=i|Roy=q|Royal City=c|Ryderwood=7|Saint John=11|Salkum=k|Sammamish=g|Satsop=d|Seabeck=h|Seahurst=g|Seattle=g|Seaview=o|Sedro Woolley=s|Sekiu=4|Selah=12|Sequim=4|Shaw Island=r|Shelton=m|Silvana=u|Silver Creek=k|Silverdale=h|Silverlake=7|Skamokawa=y|Skykomish=g|Snohomish=u|Snoqualmie=g|Snoqualmie Pass=g|Soap Lake=c|South Bend=o|South Cle Elum=i|South Colby=h|South Prairie=q|Southworth=h|Spanaway=q|Spangle=v|Spokane=v|Sprague=l|Springdale=w|Stanwood=u|Starbuck=6|Startup=u|Stehekin=3|Steilacoom=q|Steptoe=11|Stevenson=t|Stratford=c|Sultan=u|Sumas=10|Sumner=q|Sunnyside=12|Suquamish=h|Tacoma=q|Taholah=d|Tahuya=m|Tekoa=11|Tenino=x|Thornton=11|Thorp=i|Tieton=12|Tokeland=o|Toledo=k|Tonasket=n|Toppenish=12|Touchet=z|Toutle=7|Tracyton=h|Trout Lake=j|Tumtum=w|Tumwater=x|Twisp=n|Underwood=t|Union=m|Uniontown=11|University Place=q|Usk=p|Vader=k|Valley=w|Valleyford=v|Vancouver=5|Vantage=i|Vashon=g|Vaughn=q|Veradale=v|Wahkiacus=j|Waitsburg=z|Waldron=r|Walla Walla=z|Wallula=z|Wapato=12|Warden=c|Washougal=5|Washtucna=0|Waterville=8|Wauconda=n|Wauna=q|Waverly=v|Wellpinit=w|Wenatchee=3|West Richland=2|Westport=d|White Salmon=j|White Swan=12|Wilbur=l|Wilkeson=q|Wilson Creek=c|Winlock=k|Winthrop=n|Wishram=j|Woodinville=g|Woodland=7|Yacolt=5|Yakima=12|Yelm=x|Zillah=12'
+  },
+  WI: {
+    counties: 'Adams|Ashland|Barron|Bayfield|Brown|Buffalo|Burnett|Calumet|Chippewa|Clark|Columbia|Crawford|Dane|Dodge|Door|Douglas|Dunn|Eau Claire|Florence|Fond du Lac|Forest|Grant|Green|Green Lake|Iowa|Iron|Jackson|Jefferson|Juneau|Kenosha|Kewaunee|La Crosse|Lafayette|Langlade|Lincoln|Manitowoc|Marathon|Marinette|Marquette|Menominee|Milwaukee|Monroe|Oconto|Oneida|Outagamie|Ozaukee|Pepin|Pierce|Polk|Portage|Price|Racine|Richland|Rock|Rusk|Sauk|Sawyer|Shawano|Sheboygan|St. Croix|Taylor|Trempealeau|Vernon|Vilas|Walworth|Washburn|Washington|Waukesha|Waupaca|Waushara|Winnebago|Wood',
+    zips: '14w9:1m,1:1u,1:d,1:19,1:1v,1:d,1:1v,1,2:j,1:1m,1:19,1:1m,1:7,1:z,1:d,1:1u,1:1v,1:j,1:1m,1:19,1:1u,1:1m,1:19,2:1m,1:1u,2:1v,2:1m,1:d,1:1u,1:d,1,1:r,1:1u,1:r,1:d,1:1u,2:z,2:1m,1:1v,1,1:d,1,1:j,1:d,1:1v,1,4,1:j,1:1v,1:d,1:1u,1:7,1,1:z,1:1v,1:j,1:1v,3,1:1m,2:1v,1:1m,1:19,1:1m,1:1u,2:d,1:j,1:19,1:1m,1,1,2,1:1u,2:7,1:1v,1:1u,1:d,1:19,1:1m,1:r,1:1u,2:19,1:d,1,2:t,1,1:1v,1:t,1:1f,3,1:t,1:14,4:1s,1,3:1v,1,1:1s,1,1:1v,3:1s,1:1f,1:1v,1:1s,1:14,1,2,5:r,1:1s,1:1f,1:t,1,1,1,1,2:1v,1:1s,1,1:1v,1,1,1:t,1:1v,1:14,2:r,1:1s,1:t,1,8:1f,1:t,2,1,1:14,4:1s,1:1f,1:r,1:t,2,1:1f,1:1v,1:1s,1:1f,1:1v,1,1,1,1:1s,1,1:t,2,1:1s,6:14,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,5,1,1,2,m,4,4,1,6,4,a,2,3,2,2y:1f,1,1,1,1,1,1,1,2l:1h,1:m,1:o,1:w,1:1h,1:o,1,1:c,2:w,1:1h,1,3:c,1:w,1:c,1:l,2:m,1,1,1:c,2:1h,1:o,1:c,1,1,1:w,1:c,1,1:o,1:1h,1:o,1:1h,1,1:r,2:1g,1:w,1:1h,1:o,1,1:1h,1,1,1,1:r,1:m,1:r,2:o,1:l,1:a,1:1g,1:d,1:c,1,1,1:1j,1:c,1:1h,2:o,1:m,3:l,1:m,1:c,1,1:l,1:m,1:c,1:1h,1:1j,1,1:d,1:o,1:1g,1:o,1:1j,1:1g,1:1s,1:w,1,1:1j,1:c,1,3,1:r,1:o,1:c,1,1,1:w,2u:c,1,1,1,1,1,1,1,3,2,1,1,1,1,1,1,6,1,i,u,3,1,1,3,1,1,1,1,2,1,1,1,1,1,1,7:l,1,1:w,1:l,1,1,1,1,1,1,1,1,1,3,1,1,2,1:b,3:l,1,1:b,1:l,22:a,9:0,1:a,2:1j,3:d,3:j,1:12,2:d,1:a,1:1g,1:a,1:n,1:0,1:a,1:s,1:12,1:j,1:a,1:d,1:0,1:a,1:0,1:1j,2:n,1:1j,1,1,1,1:s,2:n,1,1:s,1:12,1:s,1:1j,1:12,1,1:a,1,1:d,1:a,1:1j,1,1:a,1:1j,1:s,1:d,1:12,1:a,3:s,1:a,w:1c,1:1n,1:1b,1:1c,1,1,1:1n,2:1c,1:1b,1,2:1n,1:1b,1:1n,1,1,3:1c,1:1b,1,1:1n,1:1c,1:1n,1:1c,1:1n,1,1i,j:16,1:11,1:k,1:11,2:18,1:1l,3:7,1:1l,1:11,1:18,1:11,1:4,4:11,1:i,1,2:7,1:16,1:11,1:4,1:1l,1,1:7,1:18,1,4:13,1:18,1:1l,1:16,1,1:18,1:16,2:11,6:16,1:13,1:11,1:18,1:16,1,1:18,1:11,1,2,1:7,1:11,1:4,3:18,1:1l,3:7,1:18,1:16,2:4,1:16,1,2:11,3:4,2:1l,j:u,1:e,2,1:u,2:z,1:4,1:e,1,1,1,1,1:z,1,1:u,1,3:z,1,5:e,1:z,1,1:4,1:z,2,2:e,1,5:z,1,4,1:e,1:z,1i:4,1,1,1,1,1,1,1,3,2,b,k,1l:10,1,1,1:1z,1:9,1:1d,1,1:10,1:x,1:1z,1:10,1:1z,1,1:1l,1:1z,1:1l,1:10,1:x,2:9,1,1,1:1d,1:x,1:9,1:10,1,1:x,1:10,1:x,2:10,1:1o,1,1:y,1:9,1,2:1o,1:10,1:1z,1:y,1:1d,3:9,1:1o,1:10,1:1z,1:1l,1:1o,1:y,2:1z,1:10,1:9,1:1z,1:1d,1:1e,1:9,2:x,1:17,1:x,1,1:1z,1:1d,2:1z,1:1o,1:10,1:1z,1:1d,1:10,1:1z,1:10,3,1:1o,1:1d,1,2:10,1:x,1:1l,1:y,1:10,1:1z,1:1o,1:x,1:1d,1:9,1:1z,1,3:9,1:1l,2:17,a:k,1:1r,1:1e,1:1,1:1e,2:1,2:1r,1:k,1:1r,3:1e,1:p,1:1i,1:1,2:17,1:1i,1:17,1:y,2:p,2,1:1e,1:1r,1:17,1:1r,1:k,1:i,1:17,2:1r,1:1,1:p,1:17,2:p,2:1e,2:1r,1:1e,1,1:1r,1,1:p,1:1r,1,1:17,1:1i,1:17,1:p,1:k,2:17,x:v,1,1,7:5,1:q,1:1p,1:0,1:v,1:q,1:1p,2:s,1:15,1,1:1q,1:5,1:1q,1,1:1p,1:b,1:1p,1:b,1:5,1:1p,1:b,1:1q,2,1:q,1:v,1:s,1:15,1:1q,1:b,1:s,1:q,1,1:v,1:b,1:s,2:15,1,1:v,1:1q,1,1:v,1:b,1,1:15,1:b,1:1q,1:q,1:15,1:1p,1:15,2:1q,1,1:15,1:1q,2:v,1:15,v:h,1,1,h,1:1a,1:h,1:1b,1:8,1:g,1:8,1,1:2,1:8,1:g,1:1i,1:8,1:2,1:g,1,1:1a,1:g,1:1p,1:g,1:1b,1:h,1,1:5,2:8,1:9,1:1p,1:8,1:g,1:1b,1:g,3:q,1:5,1,1:8,1:1p,1:1a,1:1p,1:1b,1:2,1:g,1,1,1:1i,1:1b,1:8,1:1a,1:1p,1:9,1:g,1:1p,1:8,r:1t,4:2,1:1,4:1c,2:2,1,1:3,2,1:1t,1:2,1:1i,1:f,1:3,1:2,2:1c,2:2,1:3,1:1k,1:2,1:6,2:3,2:1k,1,1:f,1:1c,1:f,1:3,1:6,1:2,1:f,1:1k,1:3,1:6,1:1,1:3,1:1i,1:f,1:1,3:1c,1:f,1:1,1:3,1:2,1:1c,1:1t,2:1,1:1k,2:f,1:3,2:1k,1:2,2:1t,1,1:6,1:f,1,1:1t,1:1k,4:f,8:1t,1:2,1:f,1:3,2:6,2:1i,1:1k,5:1y,1,1,1,2,3:1d,2:18,1,1,1,1,4,2:1d,1:18,1:n,3:1w,1:1y,1:1l,1:1w,1:1x,1:18,1:j,1:1w,1:1y,1:j,1,1,3:1w,1:n,1:18,1:1x,1:18,1:1w,1,1:1y,1:1l,1:1w,1,2:1y,4,1,3:12,1:1w,1,1:1y,1,1:1x,1,1,1:n,1:1w,1:1x,1:j,3,2:1x,1:1w,1:1l,1:j,1:1y,1:1w,1:1x,1:1w,1:1x,1:1y,1,4:1w',
+    cities: 'Abbotsford=9|Abrams=16|Adams=0|Adell=1m|Afton=1h|Albany=m|Algoma=u|Allenton=1u|Alma=5|Alma Center=q|Almena=2|Almond=1d|Altoona=h|Amberg=11|Amery=1c|Amherst=1d|Amherst Junction=1d|Aniwa=10|Antigo=x|Appleton=18|Arcadia=1p|Arena=o|Argonne=k|Argyle=w|Arkansaw=1a|Arkdale=0|Arlington=a|Armstrong Creek=k|Arpin=1z|Ashippun=d|Ashland=1|Athelstane=11|Athens=10|Auburndale=1z|Augusta=h|Avalon=1h|Avoca=o|Babcock=1z|Bagley=l|Baileys Harbor=e|Baldwin=1n|Balsam Lake=1c|Bancroft=1d|Bangor=v|Baraboo=1j|Barneveld=o|Barron=2|Barronett=2|Bassett=t|Bay City=1b|Bayfield=3|Bear Creek=18|Beaver Dam=d|Beetown=l|Beldenville=1b|Belgium=19|Belleville=c|Belmont=w|Beloit=1h|Benet Lake=t|Benoit=3|Benton=w|Berlin=n|Big Bend=1v|Big Falls=1w|Birchwood=1t|Birnamwood=1l|Black Creek=18|Black Earth=c|Black River Falls=q|Blair=1p|Blanchardville=w|Blenker=1z|Bloomer=8|Bloomington=l|Blue Mounds=c|Blue River=l|Bonduel=1l|Boscobel=l|Boulder Junction=1r|Bowler=1l|Boyceville=g|Boyd=8|Brandon=j|Brantwood=1e|Briggsville=12|Brill=2|Brillion=7|Bristol=t|Brodhead=m|Brokaw=10|Brookfield=1v|Brooklyn=m|Brownsville=d|Browntown=m|Bruce=1i|Brule=f|Brussels=e|Bryant=x|Burlington=1f|Burnett=d|Butler=1v|Butte Des Morts=1y|Butternut=1|Cable=3|Cadott=8|Caledonia=1f|Cambria=a|Cambridge=c|Cameron=2|Camp Douglas=s|Camp Lake=t|Campbellsport=j|Caroline=1l|Cascade=1m|Casco=u|Cashton=15|Cassville=l|Cataract=15|Catawba=1e|Cazenovia=1g|Cecil=1l|Cedar Grove=1m|Cedarburg=19|Centuria=1c|Chaseburg=1q|Chetek=2|Chili=9|Chilton=7|Chippewa Falls=8|Clam Lake=1|Clayton=1c|Clear Lake=1c|Cleveland=z|Clinton=1h|Clintonville=1w|Clyman=d|Cobb=o|Cochrane=5|Colby=9|Coleman=11|Colfax=g|Colgate=1u|Collins=z|Coloma=1x|Columbus=a|Combined Locks=18|Comstock=2|Conover=1r|Conrath=1i|Coon Valley=1q|Cornell=8|Cornucopia=3|Cottage Grove=c|Couderay=1k|Crandon=k|Crivitz=11|Cross Plains=c|Cuba City=l|Cudahy=14|Cumberland=2|Curtiss=9|Cushing=1c|Custer=1d|Dale=18|Dallas=2|Dalton=n|Danbury=6|Dane=c|Darien=1s|Darlington=w|De Pere=4|De Soto=1q|Deer Park=1n|Deerbrook=x|Deerfield=c|Deforest=c|Delafield=1v|Delavan=1s|Dellwood=0|Denmark=4|Dickeyville=l|Dodge=1p|Dodgeville=o|Dorchester=9|Dousman=1v|Downing=g|Downsville=g|Doylestown=a|Dresser=1c|Drummond=3|Dunbar=11|Durand=1a|Eagle=1v|Eagle River=1r|East Ellsworth=1b|East Troy=1s|Eastman=b|Eau Claire=h|Eau Galle=g|Eden=j|Edgar=10|Edgerton=1h|Edgewater=1k|Edmund=o|Egg Harbor=e|Eland=10|Elcho=x|Elderon=10|Eldorado=j|Eleva=1p|Elk Mound=g|Elkhart Lake=1m|Elkhorn=1s|Ellison Bay=e|Ellsworth=1b|Elm Grove=1v|Elmwood=1b|Elroy=s|Elton=x|Embarrass=1w|Endeavor=12|Ephraim=e|Ettrick=1p|Eureka=1y|Evansville=1h|Exeland=1k|Fairchild=h|Fairwater=j|Fall Creek=h|Fall River=a|Fence=i|Fennimore=l|Ferryville=b|Fifield=1e|Fish Creek=e|Florence=i|Fond Du Lac=j|Fontana=1s|Footville=1h|Forest Junction=7|Forestville=e|Fort Atkinson=r|Fountain City=5|Fox Lake=d|Foxboro=f|Francis Creek=z|Franklin=14|Franksville=1f|Frederic=1c|Fredonia=19|Freedom=18|Fremont=1w|Friendship=0|Friesland=a|Galesville=1p|Galloway=10|Gays Mills=b|Genesee Depot=1v|Genoa=1q|Genoa City=1s|Germantown=1u|Gile=p|Gillett=16|Gilman=1o|Gilmanton=5|Gleason=y|Glen Flora=1i|Glen Haven=l|Glenbeulah=1m|Glenwood City=1n|Glidden=1|Goodman=11|Gordon=f|Gotham=1g|Grafton=19|Grand Marsh=0|Grand View=3|Granton=9|Grantsburg=6|Gratiot=w|Green Bay=4|Green Lake=n|Green Valley=1l|Greenbush=1m|Greendale=14|Greenleaf=4|Greenville=18|Greenwood=9|Gresham=1l|Hager City=1b|Hales Corners=14|Hammond=1n|Hancock=1x|Hannibal=1o|Hanover=1h|Harshaw=17|Hartford=1u|Hartland=1v|Hatley=10|Haugen=2|Hawkins=1i|Hawthorne=f|Hayward=1k|Hazel Green=l|Hazelhurst=17|Heafford Junction=y|Helenville=r|Herbster=3|Hertel=6|Hewitt=1z|High Bridge=1|Highland=o|Hilbert=7|Hillpoint=1j|Hillsboro=1q|Hingham=1m|Hixton=q|Holcombe=8|Hollandale=o|Holmen=v|Honey Creek=1s|Horicon=d|Hortonville=18|Houlton=1n|Hubertus=1u|Hudson=1n|Humbird=9|Hurley=p|Hustisford=d|Hustler=s|Independence=1p|Iola=1w|Irma=y|Iron Belt=p|Iron Ridge=d|Iron River=3|Ixonia=r|Jackson=1u|Janesville=1h|Jefferson=r|Jim Falls=8|Johnson Creek=r|Juda=m|Jump River=1o|Junction City=1d|Juneau=d|Kansasville=1f|Kaukauna=18|Kellnersville=z|Kendall=15|Kennan=1e|Kenosha=t|Keshena=13|Kewaskum=1u|Kewaunee=u|Kiel=z|Kieler=l|Kimberly=18|King=1w|Kingston=n|Knapp=g|Kohler=1m|Krakow=1l|La Crosse=v|La Farge=1q|La Pointe=1|La Valle=1j|Lac Du Flambeau=1r|Ladysmith=1i|Lake Delton=1j|Lake Geneva=1s|Lake Mills=r|Lake Nebagamon=f|Lake Tomahawk=17|Lakewood=16|Lancaster=l|Land O Lakes=1r|Lannon=1v|Laona=k|Larsen=1y|Lebanon=d|Lena=16|Leopolis=1l|Lime Ridge=1j|Linden=o|Little Chute=18|Little Suamico=16|Livingston=l|Lodi=a|Loganville=1j|Lomira=d|Lone Rock=1g|Long Lake=i|Lowell=d|Loyal=9|Lublin=1o|Luck=1c|Luxemburg=u|Lyndon Station=s|Lynxville=b|Lyons=1s|Madison=c|Maiden Rock=1b|Malone=j|Manawa=1w|Manitowish Waters=1r|Manitowoc=z|Maple=f|Maplewood=e|Marathon=10|Marengo=1|Maribel=z|Marinette=11|Marion=1w|Markesan=n|Marquette=n|Marshall=c|Marshfield=1z|Mason=3|Mather=s|Mattoon=1l|Mauston=s|Mayville=d|Mazomanie=c|Mc Farland=c|Mc Naughton=17|Medford=1o|Mellen=1|Melrose=q|Menasha=1y|Menomonee Falls=1v|Menomonie=g|Mequon=19|Mercer=p|Merrill=y|Merrillan=q|Merrimac=1j|Merton=1v|Middleton=c|Mikana=2|Milladore=1z|Millston=q|Milltown=1c|Milton=1h|Milwaukee=14|Mindoro=v|Mineral Point=o|Minocqua=17|Minong=1t|Mishicot=z|Mondovi=5|Monroe=m|Montello=12|Montfort=l|Monticello=m|Montreal=p|Morrisonville=c|Mosinee=10|Mount Calvary=j|Mount Hope=l|Mount Horeb=c|Mount Sterling=b|Mountain=16|Mukwonago=1v|Muscoda=l|Muskego=1v|Nashotah=1v|Necedah=s|Neenah=1y|Neillsville=9|Nekoosa=1z|Nelson=5|Nelsonville=1d|Neopit=13|Neosho=d|Neshkoro=12|New Auburn=8|New Berlin=1v|New Franken=4|New Glarus=m|New Holstein=7|New Lisbon=s|New London=1w|New Munster=t|New Richmond=1n|Newburg=1u|Newton=z|Niagara=11|Nichols=18|North Freedom=1j|North Lake=1v|North Prairie=1v|Norwalk=15|Oak Creek=14|Oakdale=15|Oakfield=j|Oconomowoc=1v|Oconto=16|Oconto Falls=16|Odanah=1|Ogdensburg=1w|Ogema=1e|Ojibwa=1k|Okauchee=1v|Omro=1y|Onalaska=v|Oneida=18|Ontario=1q|Oostburg=1m|Oregon=c|Orfordville=1h|Osceola=1c|Oshkosh=1y|Osseo=1p|Owen=9|Oxford=12|Packwaukee=12|Palmyra=r|Pardeeville=a|Park Falls=1e|Patch Grove=l|Pearson=x|Pelican Lake=17|Pell Lake=1s|Pembine=11|Pepin=1a|Peshtigo=11|Pewaukee=1v|Phelps=1r|Phillips=1e|Phlox=x|Pickerel=x|Pickett=1y|Pigeon Falls=1p|Pine River=1x|Pittsville=1z|Plain=1j|Plainfield=1x|Platteville=l|Pleasant Prairie=t|Plover=1d|Plum City=1b|Plymouth=1m|Poplar=f|Port Edwards=1z|Port Washington=19|Port Wing=3|Portage=a|Porterfield=11|Potosi=l|Potter=7|Pound=11|Powers Lake=t|Poy Sippi=1x|Poynette=a|Prairie Du Chien=b|Prairie Du Sac=1j|Prairie Farm=2|Prentice=1e|Prescott=1b|Presque Isle=1r|Princeton=n|Pulaski=4|Racine=1f|Radisson=1k|Randolph=d|Random Lake=1m|Readfield=1w|Readstown=1q|Redgranite=1x|Reedsburg=1j|Reedsville=z|Reeseville=d|Rewey=o|Rhinelander=17|Rib Lake=1o|Rice Lake=2|Richfield=1u|Richland Center=1g|Ridgeland=g|Ridgeway=o|Ringle=10|Rio=a|Ripon=j|River Falls=1b|Roberts=1n|Rochester=1f|Rock Falls=g|Rock Springs=1j|Rockland=v|Rosendale=j|Rosholt=1d|Rothschild=10|Rubicon=d|Rudolph=1z|Saint Cloud=j|Saint Croix Falls=1c|Saint Francis=14|Saint Germain=1r|Saint Nazianz=z|Salem=t|Sand Creek=g|Sarona=1t|Sauk City=1j|Saukville=19|Saxeville=1x|Saxon=p|Sayner=1r|Scandinavia=1w|Schofield=10|Seneca=b|Sextonville=1g|Seymour=18|Sharon=1s|Shawano=1l|Sheboygan=1m|Sheboygan Falls=1m|Sheldon=1i|Shell Lake=1t|Sherwood=7|Shiocton=18|Shullsburg=w|Silver Lake=t|Sinsinawa=l|Siren=6|Sister Bay=e|Slinger=1u|Sobieski=16|Soldiers Grove=b|Solon Springs=f|Somers=t|Somerset=1n|South Milwaukee=14|South Range=f|South Wayne=w|Sparta=15|Spencer=10|Spooner=1t|Spring Green=1j|Spring Valley=1b|Springbrook=1t|Springfield=1s|Stanley=8|Star Lake=1r|Star Prairie=1c|Stetsonville=1o|Steuben=b|Stevens Point=1d|Stitzer=l|Stockbridge=7|Stockholm=1a|Stoddard=1q|Stone Lake=1k|Stoughton=c|Stratford=10|Strum=1p|Sturgeon Bay=e|Sturtevant=1f|Suamico=4|Sullivan=r|Summit Lake=x|Sun Prairie=c|Superior=f|Suring=16|Sussex=1v|Taylor=q|Theresa=d|Thorp=9|Three Lakes=17|Tigerton=1l|Tilleda=1l|Tisch Mills=z|Tomah=15|Tomahawk=y|Tony=1i|Townsend=16|Trego=1t|Trempealeau=1p|Trevor=t|Tripoli=17|Tunnel City=15|Turtle Lake=2|Twin Lakes=t|Two Rivers=z|Union Center=s|Union Grove=1f|Unity=10|Upson=p|Valders=z|Van Dyne=j|Verona=c|Vesper=1z|Viola=1q|Viroqua=1q|Wabeno=k|Waldo=1m|Wales=1v|Walworth=1s|Warrens=15|Wascott=f|Washburn=3|Washington Island=e|Waterford=1f|Waterloo=r|Watertown=r|Waukau=1y|Waukesha=1v|Waunakee=c|Waupaca=1w|Waupun=d|Wausau=10|Wausaukee=11|Wautoma=1x|Wauzeka=b|Webster=6|West Bend=1u|West Salem=v|Westboro=1o|Westby=1q|Westfield=12|Weyauwega=1w|Weyerhaeuser=1i|Wheeler=g|White Lake=x|Whitehall=1p|Whitelaw=z|Whitewater=1s|Wild Rose=1x|Willard=9|Williams Bay=1s|Wilmot=t|Wilson=1n|Wilton=15|Windsor=c|Winnebago=1y|Winneconne=1y|Winter=1k|Wisconsin Dells=a|Wisconsin Rapids=1z|Withee=9|Wittenberg=1l|Wonewoc=s|Woodford=w|Woodland=d|Woodman=l|Woodruff=17|Woodville=1n|Woodworth=t|Wrightstown=4|Wyocena=a|Zachow=1l|Zenda=1s'
+  },
+  WV: {
+    counties: 'Barbour|Berkeley|Boone|Braxton|Brooke|Cabell|Calhoun|Clay|Doddridge|Fayette|Gilmer|Grant|Greenbrier|Hampshire|Hancock|Hardy|Harrison|Jackson|Jefferson|Kanawha|Lewis|Lincoln|Logan|Marion|Marshall|Mason|McDowell|Mercer|Mineral|Mingo|Monongalia|Monroe|Morgan|Nicholas|Ohio|Pendleton|Pleasants|Pocahontas|Preston|Putnam|Raleigh|Randolph|Ritchie|Roane|Summers|Taylor|Tucker|Tyler|Upshur|Wayne|Webster|Wetzel|Wirt|Wood|Wyoming',
+    zips: 'j25:r,b,2,1,1:1i,3,5:r,2:1i,3:r,2,1,1,3,1,1,1,1,7,4,1e:q,7,3,2,2,1,1,1:1i,4,1,3:q,1:1i,1:q,1,1,1,3:1i,2:q,3:1i,4:q,1,1:1i,1:q,1:1i,1:q,1:1i,1:q,1:t,2:q,1:1i,1:q,2:1i,2,1,1:q,1,4,1:1i,1:q,1:1i,1,1:q,1,1,1:1i,4:q,1,1:1i,1:q,1:1i,2:q,3,1,4,2,1,3:1i,3:c,1,8,5:11,1:c,2:v,2:11,4,1:c,2:11,4:c,3:11,1:18,3:c,3:v,2:c,1:11,1:v,1:11,5:v,3:11,3:c,5:18,1:v,3:c,4,4:v,2,1:c,4:18,2:v,1,1,1:c,5,2:v,9:9,1:j,2:17,2:14,1,1:2,2:13,4:j,4:7,2:2,1:m,2:2,1:j,1,2:2,2:7,1:9,2:13,2:j,1:9,3:j,1:9,3:7,1:14,1:j,2:m,1:14,1:2,2,2,1:j,3:9,2:x,1:14,1:j,1:14,1:7,1:j,3,3:13,1:j,4,1:m,3:j,2:2,1:13,1:j,2:9,1:j,2:7,2:9,3:2,9:j,1,3:p,1:j,1:2,1:13,1:j,1:7,1:j,1:7,1:2,1:9,3,1,2:m,2:p,1:13,1:7,1:j,4:2,2:j,1:7,1:j,2:9,3,1:14,1:7,1:2,1:j,5:2,1,3:9,2:2,2:j,3:13,1:j,1:9,1:j,2:7,1:2,3:13,1:2,4:9,1:14,3:j,3:14,1:2,2:m,2:9,1,1:p,6:2,8:j,1,1:2,1,1,1,2,1,2:7,2:13,1:j,h:h,3:6,1,4:h,2,2:17,1:h,1,2:p,1:h,3:17,1:h,1:p,6:17,1:p,1:6,1:h,2,1:p,1:17,1:a,1:6,2:17,1:h,4,1:17,9:7,1:17,1:p,e:j,1,1,1,1,1,3,2,1,1,1,1,2,3,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,b,6,1,1,2,1,1,2,1,a,c,2,3,4,5:1,1,1,1,1,5:i,1:w,2:1,1:i,5:1,1,1,1:w,1:i,2,2:1,1,2:i,1:d,1:i,2:w,3:d,1:i,2:1,1:i,1,1,1:d,2:i,1j:l,1:p,1,1:5,1:m,1:l,1:1d,1:m,2:5,1:1d,1,2,1:p,2:1d,3:p,1:l,2,1,2:13,3:2,1:1d,4,1,2:5,3:l,1:5,3:l,1:5,2:m,3:p,5:1d,2:l,2:5,1:13,2:1d,2:l,1,2,2:13,1:1d,1:l,1,1,s:m,5,1,1:t,3:m,1,2,3,4:t,3:m,1,3,2,2,2,1,2,1,1,5,2,1,2,1:t,1,1:m,1,1,7:t,4,1,1,2:1d,1:t,1,1,2,2,2,7,1,2,2,1,1,4,3:1d,2:5,1,1,1,1,1,1,1,1:1d,1:5,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,q,f,1,1,1,1,1,1,1,1,1,m:14,1,8:1i,1,1:9,1:14,4,1,2:r,3:14,2,1:1i,1:14,4:9,1:14,1:9,3:14,1:9,2:14,1:9,1:r,2:14,1,1:1i,1:9,2:1i,1:14,2,2,1:9,1,2:14,3,2:9,2,1:14,1:9,2,2:1i,1:14,2,2:1i,1,2:14,1:9,1,2:1i,6:9,d,1:14,2:9,2:14,1:9,1:14,1,2,2:1i,2:14,1:1i,1:9,1:14,1,1,1,1:r,5:14,1:1i,4:14,4:9,2,4,1:1i,8:18,7:c,4,4:18,3,2:r,1:c,4:9,1:18,1,1,2:c,3,1:18,1:9,3:14,e:y,r:4,1:o,1:4,1:o,1:e,1:4,1:o,1:4,1:o,1,1,1,6:e,3,5:o,1:e,2:4,1:y,1,2:e,8:4,4:y,1:4,q:1h,1,1,1,1,1,e,1,c,1:10,2:6,1,1:1g,3,1:1h,1:1g,3:1b,1:6,1:16,1:1b,1:1h,1:6,1:1g,3:1f,4,1:1g,1:16,1:1f,2:h,3:1f,2:1h,1:10,5:1b,3:16,2:1h,1,3,3,e:1c,1:x,1:1e,2:x,1:1e,2,1:11,1:1c,5,2:1e,1:1c,1,3:1e,2:15,4:1c,1,1:15,4:1c,2,1,1:0,3:15,9:0,3:15,1,3,2,1:1a,1:x,2:15,1:11,2:1e,1:15,1,1:1a,1:15,1:1a,2:15,2:0,1:15,2,2,2,1,2,2:1a,1:1e,1:1a,2:11,1:1a,1:15,1,2,2:1e,3:g,1,4,e:1b,1:k,2:g,2:16,2,3:g,5:3,2:16,1:k,1:8,3:a,1:k,3:16,1:19,1:1f,1:0,2:a,3:19,7:g,1:16,4:g,3,3:k,2:12,2:k,1:1f,1:k,6:a,1:g,1,i,1:0,3:g,2:12,1:8,1:k,3:16,1:0,3:1f,2:16,1:g,2:19,1:12,1:g,4:a,1:g,3:1b,1:19,1:8,1:1f,1:g,2:19,3:a,1:12,3:k,1:g,3,1:k,4:8,7:g,12:u,1,2,1,1,1,1,b:12,1,1:u,3:12,1,2:u,4,3,3:12,4:u,1:12,1:u,1,2,1:12,7:n,1,4,1,1:1f,1,1:n,3,2:g,2:n,1,1,2,1:1f,1:n,2,3:1f,1:n,3,1,1,1,2:u,1:n,a:3,9:x,1:a,4:3,2:7,2:3,2,2,1,3,2,2,5:a,2,d:x,5,4,2,5,4,4,1,2,1,1:9,1:x,3,6,1,d:d,1:12,2:b,3:s,1:d,3,2:12,1:s,2,1:b,2:d,4:s,5:b,8,4:s,7,3,2:d,2,4,2,1:12,3:s,y:f,1:z,2,3,1:d,2:f,2,2:z,1,2:d,1:f,5:d,a:b,3:f,2,7,2:b,4:f,1:d,3:b,a:d,1:z,i,2',
+    cities: 'Accoville=m|Adrian=1c|Advent=h|Albright=12|Alderson=c|Alkol=l|Allen Junction=1i|Alloy=9|Alma=1b|Alum Bridge=k|Alum Creek=j|Amherstdale=m|Amigo=1i|Amma=17|Anawalt=q|Anmoore=g|Ansted=9|Apple Grove=p|Arbovale=11|Arnett=14|Arnoldsburg=6|Arthurdale=12|Artie=14|Asbury=c|Ashford=2|Ashton=p|Athens=r|Auburn=16|Augusta=d|Aurora=12|Avondale=q|Baisden=t|Baker=f|Bakerton=i|Ballard=v|Bancroft=13|Barboursville=5|Barrackville=n|Bartley=q|Bartow=11|Baxter=n|Bayard=b|Beaver=14|Beckley=14|Beech Bottom=4|Beeson=r|Belington=0|Belle=j|Belleville=1h|Belmont=10|Belva=x|Benwood=o|Berea=16|Bergoo=1e|Berkeley Springs=w|Berwind=q|Bethany=4|Beverly=15|Bickmore=7|Big Bend=6|Big Creek=m|Big Run=1f|Big Sandy=q|Big Springs=6|Bim=2|Birch River=x|Blacksville=u|Blair=m|Bloomery=d|Bloomingrose=2|Blount=j|Blue Creek=j|Bluefield=r|Bob White=2|Bolt=14|Bomont=7|Boomer=9|Borderland=t|Bowden=15|Bradley=14|Bradshaw=q|Bramwell=r|Branchland=l|Brandywine=z|Breeden=t|Brenton=1i|Bretz=12|Bridgeport=g|Brohard=1g|Bruceton Mills=12|Bruno=m|Buckeye=11|Buckhannon=1c|Bud=1i|Buffalo=13|Bunker Hill=1|Burlington=s|Burnsville=3|Burton=1f|Cabin Creek=j|Cabins=b|Cairo=16|Caldwell=c|Calvin=x|Camden=k|Camden On Gauley=1e|Cameron=o|Camp Creek=r|Cannelton=9|Canvas=x|Capon Bridge=d|Capon Springs=d|Carolina=n|Cass=11|Cassville=u|Cedar Grove=j|Cedarville=a|Center Point=8|Ceredo=1d|Chapmanville=m|Charles Town=i|Charleston=j|Charlton Heights=9|Charmco=c|Chattaroy=t|Chauncey=m|Chester=e|Chloe=6|Circleville=z|Clarksburg=g|Clay=7|Clear Creek=14|Clear Fork=1i|Clendenin=j|Cleveland=1c|Clothier=m|Coal City=14|Coal Mountain=1i|Coalton=15|Colcord=14|Colfax=n|Colliers=4|Comfort=2|Cool Ridge=14|Copen=3|Cora=m|Corinne=1i|Costa=2|Cottageville=h|Covel=1i|Cowen=1e|Coxs Mills=a|Crab Orchard=14|Craigsville=x|Crawford=k|Crawley=c|Creston=1g|Crum=1d|Cucumber=q|Culloden=5|Cyclone=1i|Dailey=15|Dallas=o|Danese=9|Daniels=14|Danville=2|Davin=m|Davis=1a|Davisville=1h|Davy=q|Dawes=j|Deep Water=9|Delbarton=t|Dellslow=u|Delray=d|Diana=1e|Dille=7|Dingess=t|Dixie=x|Dorothy=14|Dothan=9|Drennen=x|Dry Creek=14|Drybranch=j|Dryfork=15|Duck=7|Dunbar=j|Dunlow=1d|Dunmore=11|Durbin=11|East Bank=j|East Lynn=1d|Eccles=14|Eckman=q|Edgarton=t|Edmond=9|Eglon=12|Elbert=q|Eleanor=13|Elizabeth=1g|Elk Garden=s|Elkhorn=q|Elkins=15|Elkview=j|Ellamore=15|Ellenboro=16|Enterprise=g|Erbacon=1e|Eskdale=j|Ethel=m|Evans=h|Exchange=3|Fairdale=14|Fairlea=c|Fairmont=n|Fairview=n|Falling Rock=j|Falling Waters=1|Fanrock=1i|Farmington=n|Fayetteville=9|Fenwick=x|Fisher=f|Flat Top=r|Flatwoods=3|Flemington=19|Follansbee=4|Folsom=1f|Forest Hill=18|Fort Ashby=s|Fort Gay=1d|Foster=2|Four States=n|Frametown=3|Frankford=c|Franklin=z|Fraziers Bottom=13|Freeman=r|French Creek=1c|Frenchton=1c|Friendly=1b|Gallagher=j|Gallipolis Ferry=p|Galloway=0|Gandeeville=17|Gap Mills=v|Gary=q|Gassaway=3|Gauley Bridge=9|Gay=h|Genoa=1d|Gerrardstown=1|Ghent=14|Gilbert=t|Gilboa=x|Given=h|Glady=15|Glasgow=j|Glen=7|Glen Dale=o|Glen Daniel=14|Glen Easton=o|Glen Ferris=9|Glen Fork=1i|Glen Jean=9|Glen Rogers=1i|Glen White=14|Glengary=1|Glenville=a|Glenwood=p|Gordon=2|Gormania=b|Grafton=19|Grant Town=n|Grantsville=6|Granville=u|Grassy Meadows=c|Great Cacapon=w|Green Bank=11|Green Spring=d|Green Sulphur Springs=18|Greenville=v|Griffithsville=l|Gypsy=g|Hacker Valley=1e|Halltown=i|Hambleton=1a|Hamlin=l|Handley=j|Hanover=1i|Hansford=j|Harman=15|Harper=14|Harpers Ferry=i|Harrisville=16|Hartford=p|Harts=l|Haywood=g|Heaters=3|Hedgesville=1|Helen=14|Helvetia=15|Henderson=p|Hendricks=1a|Henlawson=m|Hensley=q|Hepzibah=g|Herndon=1i|Hernshaw=j|Hewett=2|Hiawatha=r|Hico=9|High View=d|Hillsboro=11|Hilltop=9|Hinton=18|Holden=m|Hometown=13|Horner=k|Hugheston=j|Hundred=1f|Huntington=5|Hurricane=13|Huttonsville=15|Iaeger=q|Idamay=n|Ikes Fork=1i|Independence=12|Indore=7|Institute=j|Inwood=1|Ireland=k|Isaban=q|Itmann=1i|Ivydale=7|Jacksonburg=1f|Jane Lew=k|Jeffrey=2|Jenkinjones=q|Jesse=1i|Jolo=q|Josephine=14|Julian=2|Jumping Branch=18|Junior=0|Justice=t|Kanawha Falls=9|Kanawha Head=1c|Kearneysville=i|Kegley=r|Kellysville=r|Kenna=h|Kenova=1d|Kerens=15|Kermit=t|Keslers Cross Lanes=x|Keyser=s|Kiahsville=1d|Kimball=q|Kimberly=9|Kincaid=9|Kingmont=n|Kingwood=12|Kistler=m|Kopperston=1i|Kyle=q|Lahmansville=b|Lake=m|Lanark=14|Lansing=9|Lashmeet=r|Lavalette=1d|Layland=9|Le Roy=h|Left Hand=17|Leivasy=x|Lenore=t|Leon=p|Lerona=r|Lesage=5|Leslie=c|Lester=14|Letart=p|Levels=d|Lewisburg=c|Liberty=13|Lindside=v|Linn=a|Little Birch=3|Littleton=1f|Lizemores=7|Lochgelly=9|Logan=m|London=j|Lookout=9|Looneyville=17|Lorado=m|Lorentz=1c|Lost City=f|Lost Creek=g|Lumberport=g|Lyburn=m|Lynco=1i|Maben=1i|Mabie=15|Mabscott=14|Mac Arthur=14|Macfarlan=16|Madison=2|Maidsville=u|Mallory=m|Mammoth=j|Man=m|Mannington=n|Marianna=1i|Marlinton=11|Martinsburg=1|Mason=p|Masontown=12|Matewan=t|Matheny=1i|Mathias=f|Matoaka=r|Maxwelton=c|Maybeury=q|Maysel=7|Maysville=b|Mc Graws=1i|Mcmechen=o|Meadow Bridge=9|Meadow Creek=18|Meadowbrook=g|Metz=n|Miami=j|Middlebourne=1b|Midkiff=l|Midway=14|Milam=f|Mill Creek=15|Millstone=6|Millville=i|Millwood=h|Milton=5|Minden=9|Mineral Wells=1h|Moatsville=0|Mohawk=q|Montana Mines=n|Montcalm=r|Monterville=15|Montgomery=9|Montrose=15|Moorefield=f|Morgantown=u|Moundsville=o|Mount Alto=h|Mount Carbon=9|Mount Clare=g|Mount Gay=m|Mount Hope=9|Mount Lookout=x|Mount Nebo=x|Mount Olive=9|Mount Storm=b|Mount Zion=6|Mullens=1i|Munday=1g|Myra=l|Nallen=9|Naoma=14|Napier=3|Naugatuck=t|Nebo=7|Nellis=2|Nemours=r|Nettie=x|New Creek=s|New Cumberland=e|New Haven=p|New Manchester=e|New Martinsville=1f|New Milton=8|New Richmond=1i|Newburg=12|Newell=e|Newhall=q|Newton=17|Newtown=t|Nimitz=18|Nitro=j|Normantown=a|North Matewan=t|North Spring=1i|Northfork=q|Norton=15|Oak Hill=9|Oceana=1i|Odd=14|Old Fields=f|Omar=m|Ona=5|Onego=z|Orgas=2|Orlando=k|Orma=6|Osage=u|Ottawa=2|Paden City=1f|Page=9|Pageton=q|Palestine=1g|Panther=q|Parkersburg=1h|Parsons=1a|Paw Paw=w|Pax=9|Paynesville=q|Peach Creek=m|Pecks Mill=m|Pence Springs=18|Pennsboro=16|Pentress=u|Petersburg=b|Peterstown=v|Petroleum=16|Peytona=2|Philippi=0|Pickens=15|Piedmont=s|Pinch=j|Pine Grove=1f|Pineville=1i|Piney View=14|Pipestem=18|Poca=13|Point Pleasant=p|Points=d|Pond Gap=j|Pool=x|Porters Falls=1f|Powellton=9|Pratt=j|Premier=q|Prichard=1d|Prince=9|Princeton=r|Princewick=14|Procious=7|Proctor=o|Prosperity=14|Pullman=16|Purgitsville=d|Pursglove=u|Quinwood=c|Rachel=n|Racine=2|Ragland=t|Rainelle=c|Raleigh=14|Ranger=l|Ranson=i|Ravencliff=1i|Ravenswood=h|Rawl=t|Raysal=q|Reader=1f|Red Creek=1a|Red House=13|Red Jacket=t|Reedsville=12|Reedy=17|Renick=c|Reynoldsville=g|Rhodell=14|Richwood=x|Ridgeley=s|Ridgeview=2|Ridgeway=1|Rio=d|Ripley=h|Rippon=i|Riverton=z|Rivesville=n|Robson=9|Rock=r|Rock Cave=1c|Rock Creek=14|Rock View=1i|Rockport=1h|Roderfield=q|Romney=d|Ronceverte=c|Rosedale=a|Rosemont=19|Rowlesburg=12|Rupert=c|Sabine=1i|Saint Albans=j|Saint Marys=10|Salem=g|Salt Rock=5|Sand Fork=a|Sandstone=18|Sandyville=h|Sarah Ann=m|Saulsville=1i|Saxon=14|Scarbro=9|Scott Depot=13|Secondcreek=v|Selbyville=1c|Seneca Rocks=z|Seth=2|Shady Spring=14|Shanks=d|Sharples=m|Shenandoah Junction=i|Shepherdstown=i|Shinnston=g|Shirley=1b|Shoals=1d|Shock=a|Short Creek=4|Simon=1i|Simpson=19|Sinks Grove=v|Sistersville=1b|Skelton=14|Slab Fork=14|Slanesville=d|Slatyfork=11|Smithburg=8|Smithers=9|Smithfield=1f|Smithville=16|Smoot=c|Snowshoe=11|Sod=l|Sophia=14|South Charleston=j|Southside=p|Spanishburg=r|Spelter=g|Spencer=17|Spring Dale=9|Springfield=d|Spurlockville=l|Squire=q|Stanaford=14|Stephenson=1i|Stollings=m|Sugar Grove=z|Sumerco=l|Summersville=x|Summit Point=i|Surveyor=14|Sutton=3|Swiss=x|Switchback=q|Switzer=m|Sylvester=2|Tad=j|Talcott=18|Tallmansville=1c|Teays=13|Terra Alta=12|Thomas=1a|Thornton=19|Thorpe=q|Thurmond=9|Tioga=x|Tornado=j|Triadelphia=y|Troy=a|Tunnelton=12|Turtle Creek=2|Twilight=2|Uneeda=2|Union=v|Upper Tract=z|Upperglade=1e|Valley Bend=15|Valley Grove=y|Valley Head=15|Van=2|Varney=t|Verdunville=m|Verner=t|Victor=9|Vienna=1h|Volga=0|Waiteville=v|Walker=1h|Walkersville=k|Wallace=g|Wallback=7|Walton=17|Wana=u|War=q|Wardensville=f|Warriormine=q|Washington=1h|Waverly=1h|Wayne=1d|Wayside=v|Webster Springs=1e|Weirton=e|Welch=q|Wellsburg=4|West Columbia=p|West Hamlin=l|West Liberty=y|West Milford=g|West Union=8|Weston=k|Wharncliffe=t|Wharton=2|Wheeling=y|White Oak=14|White Sulphur Springs=c|Whitesville=2|Whitman=m|Whitmer=15|Widen=7|Wilcoe=q|Wiley Ford=s|Wilkinson=m|Williamsburg=c|Williamson=t|Williamstown=1h|Wilsondale=1d|Windsor Heights=4|Winfield=13|Winifrede=j|Winona=9|Wolfcreek=v|Wolfe=r|Woodville=l|Worthington=n|Wyatt=g|Wyco=1i|Wyoming=1i|Yawkey=l|Yellow Spring=d|Yolyn=m'
+  },
+  WY: {
+    counties: 'Albany|Big Horn|Campbell|Carbon|Converse|Crook|Fremont|Goshen|Hot Springs|Johnson|Laramie|Lincoln|Natrona|Niobrara|Park|Platte|Sheridan|Sublette|Sweetwater|Teton|Uinta|Washakie|Weston',
+    zips: '1r9t:a,1,1,2,1,1,1,1,1,14,1:0,1,1:a,1,1:0,3,1:a,1,1,2:0,7,1,1,1,8:a,1,1:0,1,2y:e,b:f,9,2:7,1:f,1,1,2:7,1,1,2,1:d,1:7,1:4,1:d,2,2:4,b:7,2:d,1:7,1,1l:3,9:6,b:3,1:i,1:3,1,1,2,2,2,1,2,1,1:i,1t:l,9:1,1,1,2:e,6:1,1,1,1:e,3:1,2,2:8,1:1,1,1:e,1:1,1:e,5,1:1,1:l,1:8,7:e,1f:6,9,2,1,1,1,1,4,3,1,25:c,1,2,1,4,6:3,5:c,a,3:4,2:c,1,1:4,1:c,1:9,1,2:6,1:c,1,2,2,1:6,1g:m,9:5,1,1,2,1:m,1:2,1,1,2:5,1,2:m,2:2,2,2:5,1:m,1:2,1,1x:g,u,1,1,1:9,1:g,1,1,1,1,1:9,2:g,2,1,1k:i,1,k:h,1,2,4:i,1:k,1,1:i,1:k,1:i,1,1:k,1,1:i,1:k,2:h,1:i,1,1:k,1:i,1k:j,1,9,1,1,1,b,24:b,9,1,1,1:h,1:b,1:h,1:b,2,1,1,1,1,1,1,2,1,1,7y:j',
+    cities: 'Afton=b|Aladdin=5|Albin=a|Alcova=c|Alpine=b|Alta=j|Alva=5|Arapahoe=6|Arminto=c|Arvada=g|Auburn=b|Baggs=3|Bairoil=i|Banner=g|Basin=1|Bedford=b|Beulah=5|Big Horn=g|Big Piney=h|Bondurant=h|Bosler=0|Boulder=h|Buffalo=9|Buford=0|Burlington=1|Burns=a|Byron=1|Carpenter=a|Casper=c|Centennial=0|Cheyenne=a|Chugwater=f|Clearmont=g|Cody=e|Cokeville=b|Cora=h|Cowley=1|Crowheart=6|Daniel=h|Dayton=g|Deaver=1|Devils Tower=5|Diamondville=b|Dixon=3|Douglas=4|Dubois=6|Edgerton=c|Elk Mountain=3|Emblem=1|Encampment=3|Etna=b|Evanston=k|Evansville=c|Fairview=b|Farson=i|Fe Warren Afb=a|Fort Bridger=k|Fort Laramie=7|Fort Washakie=6|Four Corners=m|Frannie=e|Freedom=b|Frontier=b|Garrett=0|Gillette=2|Glendo=f|Glenrock=4|Granger=i|Granite Canon=a|Green River=i|Greybull=1|Grover=b|Guernsey=f|Hanna=3|Hartville=f|Hawk Springs=7|Hiland=c|Hillsdale=a|Horse Creek=a|Hudson=6|Hulett=5|Huntley=7|Hyattville=1|Jackson=j|Jay Em=7|Jeffrey City=6|Jelm=0|Kaycee=9|Kelly=j|Kemmerer=b|Kinnear=6|Kirby=8|La Barge=b|Lagrange=7|Lance Creek=d|Lander=6|Laramie=0|Leiter=g|Linch=9|Lingle=7|Little America=i|Lonetree=k|Lost Springs=4|Lovell=1|Lusk=d|Lyman=k|Lysite=6|Manderson=1|Manville=d|Mc Kinnon=i|Medicine Bow=3|Meeteetse=e|Meriden=a|Midwest=c|Mills=c|Moorcroft=5|Moose=j|Moran=j|Mountain View=k|Natrona=c|Newcastle=m|Opal=b|Osage=m|Otto=1|Parkman=g|Pavillion=6|Pine Bluffs=a|Pinedale=h|Point Of Rocks=i|Powder River=c|Powell=e|Ralston=e|Ranchester=g|Rawlins=3|Recluse=2|Reliance=i|Riverton=6|Robertson=k|Rock River=0|Rock Springs=i|Rozet=2|Saddlestring=9|Saint Stephens=6|Saratoga=3|Savery=3|Shawnee=4|Shell=1|Sheridan=g|Shirley Basin=3|Shoshoni=6|Sinclair=3|Smoot=b|Story=g|Sundance=5|Superior=i|Ten Sleep=l|Teton Village=j|Thayne=b|Thermopolis=8|Tie Siding=0|Torrington=7|Upton=m|Van Tassell=d|Veteran=7|Walcott=3|Wamsutter=i|Wapiti=e|Weston=2|Wheatland=f|Wilson=j|Wolf=g|Worland=l|Wright=2|Wyarno=g|Yellowstone National Park=e|Yoder=7'
+  }
+};
+
+/**
+ * County-equivalents that are independent cities, not counties, by state.
+ */
+export const INDEPENDENT_CITIES: Readonly<Record<string, readonly string[]>> = {
+  MD: ['Baltimore City'],
+  MO: ['St. Louis City'],
+  NV: ['Carson City'],
+  VA: ['Alexandria', 'Bristol', 'Buena Vista', 'Charlottesville', 'Chesapeake', 'Colonial Heights', 'Covington', 'Danville', 'Emporia', 'Fairfax City', 'Falls Church', 'Franklin City', 'Fredericksburg', 'Galax', 'Hampton', 'Harrisonburg', 'Hopewell', 'Lexington', 'Lynchburg', 'Manassas', 'Manassas Park', 'Martinsville', 'Newport News', 'Norfolk', 'Norton', 'Petersburg', 'Poquoson', 'Portsmouth', 'Radford', 'Richmond City', 'Roanoke City', 'Salem', 'Staunton', 'Suffolk', 'Virginia Beach', 'Waynesboro', 'Williamsburg', 'Winchester']
+};
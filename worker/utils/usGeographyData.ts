@@ -0,0 +1,201 @@
+// Offline US geography dataset used by usGeography.ts
+// ZIP and city county coverage for the 50 states and DC comes from the generated
+// usGeographyCounties.ts. Territories and ZIPs newer than the generated table resolve
+// to a state without a county, so county and city jurisdiction checks fail open there
+// and the miss is logged.
+
+/**
+ * [first ZIP3 prefix, last ZIP3 prefix, state]. Military (AA/AE/AP) prefixes are omitted.
+ */
+export const ZIP_PREFIX_STATES: ReadonlyArray<readonly [number, number, string]> = [
+  [5, 5, 'NY'],
+  [6, 7, 'PR'],
+  [8, 8, 'VI'],
+  [9, 9, 'PR'],
+  [10, 27, 'MA'],
+  [28, 29, 'RI'],
+  [30, 38, 'NH'],
+  [39, 49, 'ME'],
+  [50, 54, 'VT'],
+  [55, 55, 'MA'],
+  [56, 59, 'VT'],
+  [60, 69, 'CT'],
+  [70, 89, 'NJ'],
+  [100, 149, 'NY'],
+  [150, 196, 'PA'],
+  [197, 199, 'DE'],
+  [200, 200, 'DC'],
+  [201, 201, 'VA'],
+  [202, 205, 'DC'],
+  [206, 219, 'MD'],
+  [220, 246, 'VA'],
+  [247, 268, 'WV'],
+  [270, 289, 'NC'],
+  [290, 299, 'SC'],
+  [300, 319, 'GA'],
+  [320, 339, 'FL'],
+  [341, 349, 'FL'],
+  [350, 369, 'AL'],
+  [370, 385, 'TN'],
+  [386, 397, 'MS'],
+  [398, 399, 'GA'],
+  [400, 427, 'KY'],
+  [430, 459, 'OH'],
+  [460, 479, 'IN'],
+  [480, 499, 'MI'],
+  [500, 528, 'IA'],
+  [530, 549, 'WI'],
+  [550, 567, 'MN'],
+  [569, 569, 'DC'],
+  [570, 577, 'SD'],
+  [580, 588, 'ND'],
+  [590, 599, 'MT'],
+  [600, 629, 'IL'],
+  [630, 658, 'MO'],
+  [660, 679, 'KS'],
+  [680, 693, 'NE'],
+  [700, 714, 'LA'],
+  [716, 729, 'AR'],
+  [730, 732, 'OK'],
+  [733, 733, 'TX'],
+  [734, 749, 'OK'],
+  [750, 799, 'TX'],
+  [800, 816, 'CO'],
+  [820, 831, 'WY'],
+  [832, 838, 'ID'],
+  [840, 847, 'UT'],
+  [850, 865, 'AZ'],
+  [870, 884, 'NM'],
+  [885, 885, 'TX'],
+  [889, 898, 'NV'],
+  [900, 961, 'CA'],
+  [967, 968, 'HI'],
+  [969, 969, 'GU'],
+  [970, 979, 'OR'],
+  [980, 994, 'WA'],
+  [995, 999, 'AK']
+];
+
+/**
+ * City -> county by state, curated. These win over the generated table, which files
+ * a city under the county holding most of its ZIPs rather than most of its people,
+ * and they are the only cities recognized without a state (Charlotte is unambiguous
+ * here, Portland is not). Independent cities are their own county-equivalent.
+ */
+export const CITY_COUNTIES: Readonly<Record<string, Readonly<Record<string, string>>>> = {
+  AL: { Birmingham: 'Jefferson', Montgomery: 'Montgomery', Huntsville: 'Madison', Mobile: 'Mobile', Tuscaloosa: 'Tuscaloosa' },
+  AK: { Anchorage: 'Anchorage', Fairbanks: 'Fairbanks North Star', Juneau: 'Juneau' },
+  AZ: {
+    Phoenix: 'Maricopa', Tucson: 'Pima', Mesa: 'Maricopa', Chandler: 'Maricopa', Scottsdale: 'Maricopa',
+    Glendale: 'Maricopa', Tempe: 'Maricopa', Flagstaff: 'Coconino'
+  },
+  AR: { 'Little Rock': 'Pulaski', Fayetteville: 'Washington', 'Fort Smith': 'Sebastian', Jonesboro: 'Craighead' },
+  CA: {
+    'Los Angeles': 'Los Angeles', 'San Diego': 'San Diego', 'San Jose': 'Santa Clara', 'San Francisco': 'San Francisco',
+    Fresno: 'Fresno', Sacramento: 'Sacramento', 'Long Beach': 'Los Angeles', Oakland: 'Alameda', Bakersfield: 'Kern',
+    Anaheim: 'Orange', 'Santa Ana': 'Orange', Irvine: 'Orange', Riverside: 'Riverside', 'San Bernardino': 'San Bernardino',
+    Stockton: 'San Joaquin', Berkeley: 'Alameda', Pasadena: 'Los Angeles'
+  },
+  CO: {
+    Denver: 'Denver', 'Colorado Springs': 'El Paso', Aurora: 'Arapahoe', 'Fort Collins': 'Larimer', Boulder: 'Boulder',
+    Lakewood: 'Jefferson'
+  },
+  CT: { Bridgeport: 'Fairfield', 'New Haven': 'New Haven', Hartford: 'Hartford', Stamford: 'Fairfield' },
+  DC: { Washington: 'District of Columbia' },
+  DE: { Wilmington: 'New Castle', Dover: 'Kent', Newark: 'New Castle' },
+  FL: {
+    Jacksonville: 'Duval', Miami: 'Miami-Dade', Tampa: 'Hillsborough', Orlando: 'Orange', 'St. Petersburg': 'Pinellas',
+    Tallahassee: 'Leon', 'Fort Lauderdale': 'Broward', Hialeah: 'Miami-Dade', Gainesville: 'Alachua', Pensacola: 'Escambia'
+  },
+  GA: { Atlanta: 'Fulton', Augusta: 'Richmond', Columbus: 'Muscogee', Savannah: 'Chatham', Athens: 'Clarke', Macon: 'Bibb' },
+  HI: { Honolulu: 'Honolulu', Hilo: 'Hawaii' },
+  ID: { Boise: 'Ada', Meridian: 'Ada', Nampa: 'Canyon', 'Idaho Falls': 'Bonneville' },
+  IL: {
+    Chicago: 'Cook', Aurora: 'Kane', Naperville: 'DuPage', Joliet: 'Will', Rockford: 'Winnebago', Springfield: 'Sangamon',
+    Peoria: 'Peoria'
+  },
+  IN: { Indianapolis: 'Marion', 'Fort Wayne': 'Allen', Evansville: 'Vanderburgh', 'South Bend': 'St. Joseph', Bloomington: 'Monroe' },
+  IA: { 'Des Moines': 'Polk', 'Cedar Rapids': 'Linn', Davenport: 'Scott', 'Iowa City': 'Johnson' },
+  KS: { Wichita: 'Sedgwick', 'Overland Park': 'Johnson', Olathe: 'Johnson', 'Kansas City': 'Wyandotte', Topeka: 'Shawnee' },
+  KY: { Louisville: 'Jefferson', Lexington: 'Fayette', 'Bowling Green': 'Warren', Frankfort: 'Franklin' },
+  LA: { 'New Orleans': 'Orleans', 'Baton Rouge': 'East Baton Rouge', Shreveport: 'Caddo', Lafayette: 'Lafayette' },
+  ME: { Portland: 'Cumberland', Augusta: 'Kennebec', Bangor: 'Penobscot', Lewiston: 'Androscoggin' },
+  MD: {
+    Baltimore: 'Baltimore City', Annapolis: 'Anne Arundel', Frederick: 'Frederick', Rockville: 'Montgomery',
+    'Silver Spring': 'Montgomery'
+  },
+  MA: { Boston: 'Suffolk', Worcester: 'Worcester', Springfield: 'Hampden', Cambridge: 'Middlesex', Lowell: 'Middlesex' },
+  MI: {
+    Detroit: 'Wayne', 'Grand Rapids': 'Kent', Lansing: 'Ingham', 'Ann Arbor': 'Washtenaw', Warren: 'Macomb', Flint: 'Genesee'
+  },
+  MN: { Minneapolis: 'Hennepin', 'St. Paul': 'Ramsey', Rochester: 'Olmsted', Duluth: 'St. Louis' },
+  MS: { Jackson: 'Hinds', Gulfport: 'Harrison', Biloxi: 'Harrison', Hattiesburg: 'Forrest' },
+  MO: {
+    'Kansas City': 'Jackson', 'St. Louis': 'St. Louis City', Springfield: 'Greene', Columbia: 'Boone',
+    'Jefferson City': 'Cole', Independence: 'Jackson'
+  },
+  MT: { Billings: 'Yellowstone', Missoula: 'Missoula', Helena: 'Lewis and Clark', Bozeman: 'Gallatin', 'Great Falls': 'Cascade' },
+  NE: { Omaha: 'Douglas', Lincoln: 'Lancaster' },
+  NV: { 'Las Vegas': 'Clark', Henderson: 'Clark', Reno: 'Washoe', 'Carson City': 'Carson City' },
+  NH: { Manchester: 'Hillsborough', Nashua: 'Hillsborough', Concord: 'Merrimack' },
+  NJ: { Newark: 'Essex', 'Jersey City': 'Hudson', Hoboken: 'Hudson', Paterson: 'Passaic', Trenton: 'Mercer', Camden: 'Camden' },
+  NM: { Albuquerque: 'Bernalillo', 'Las Cruces': 'Dona Ana', 'Santa Fe': 'Santa Fe' },
+  NY: {
+    Manhattan: 'New York', Brooklyn: 'Kings', Bronx: 'Bronx', Queens: 'Queens', 'Staten Island': 'Richmond',
+    Buffalo: 'Erie', Rochester: 'Monroe', Syracuse: 'Onondaga', Albany: 'Albany', Yonkers: 'Westchester',
+    'White Plains': 'Westchester'
+  },
+  NC: {
+    Charlotte: 'Mecklenburg', Huntersville: 'Mecklenburg', Matthews: 'Mecklenburg', 'Mint Hill': 'Mecklenburg',
+    Cornelius: 'Mecklenburg', Davidson: 'Mecklenburg', Pineville: 'Mecklenburg',
+    Raleigh: 'Wake', Cary: 'Wake', Apex: 'Wake', 'Wake Forest': 'Wake', Garner: 'Wake', 'Holly Springs': 'Wake',
+    Morrisville: 'Wake',
+    Durham: 'Durham', 'Chapel Hill': 'Orange', Carrboro: 'Orange', Hillsborough: 'Orange',
+    Greensboro: 'Guilford', 'High Point': 'Guilford', 'Winston-Salem': 'Forsyth', Kernersville: 'Forsyth',
+    Fayetteville: 'Cumberland', Wilmington: 'New Hanover', Concord: 'Cabarrus', Kannapolis: 'Cabarrus',
+    Asheville: 'Buncombe', Hendersonville: 'Henderson', Gastonia: 'Gaston', Greenville: 'Pitt', Jacksonville: 'Onslow',
+    Mooresville: 'Iredell', Statesville: 'Iredell', Monroe: 'Union', 'Indian Trail': 'Union', Waxhaw: 'Union',
+    'Rocky Mount': 'Nash', Burlington: 'Alamance', Hickory: 'Catawba', Goldsboro: 'Wayne', Salisbury: 'Rowan',
+    Boone: 'Watauga', 'New Bern': 'Craven', Wilson: 'Wilson', Sanford: 'Lee', Lumberton: 'Robeson'
+  },
+  ND: { Fargo: 'Cass', Bismarck: 'Burleigh', 'Grand Forks': 'Grand Forks' },
+  OH: {
+    Columbus: 'Franklin', Cleveland: 'Cuyahoga', Cincinnati: 'Hamilton', Toledo: 'Lucas', Akron: 'Summit', Dayton: 'Montgomery'
+  },
+  OK: { 'Oklahoma City': 'Oklahoma', Tulsa: 'Tulsa', Norman: 'Cleveland' },
+  OR: { Portland: 'Multnomah', Gresham: 'Multnomah', Salem: 'Marion', Eugene: 'Lane', Bend: 'Deschutes' },
+  PA: {
+    Philadelphia: 'Philadelphia', Pittsburgh: 'Allegheny', Allentown: 'Lehigh', Erie: 'Erie', Harrisburg: 'Dauphin',
+    Scranton: 'Lackawanna', Reading: 'Berks'
+  },
+  PR: { 'San Juan': 'San Juan' },
+  RI: { Providence: 'Providence', Cranston: 'Providence', Warwick: 'Kent' },
+  SC: {
+    Columbia: 'Richland', Charleston: 'Charleston', Greenville: 'Greenville', 'Rock Hill': 'York', 'Fort Mill': 'York',
+    'Myrtle Beach': 'Horry', Spartanburg: 'Spartanburg'
+  },
+  SD: { 'Sioux Falls': 'Minnehaha', 'Rapid City': 'Pennington', Pierre: 'Hughes' },
+  TN: {
+    Nashville: 'Davidson', Memphis: 'Shelby', Knoxville: 'Knox', Chattanooga: 'Hamilton', Clarksville: 'Montgomery',
+    Murfreesboro: 'Rutherford'
+  },
+  TX: {
+    Houston: 'Harris', 'San Antonio': 'Bexar', Dallas: 'Dallas', Irving: 'Dallas', Austin: 'Travis', 'Fort Worth': 'Tarrant',
+    Arlington: 'Tarrant', 'El Paso': 'El Paso', 'Corpus Christi': 'Nueces', Plano: 'Collin', Frisco: 'Collin',
+    McKinney: 'Collin', Lubbock: 'Lubbock', Laredo: 'Webb', Amarillo: 'Potter', Waco: 'McLennan'
+  },
+  UT: { 'Salt Lake City': 'Salt Lake', 'West Valley City': 'Salt Lake', Provo: 'Utah', Ogden: 'Weber', 'St. George': 'Washington' },
+  VT: { Burlington: 'Chittenden', Montpelier: 'Washington', Rutland: 'Rutland' },
+  VA: {
+    'Virginia Beach': 'Virginia Beach', Norfolk: 'Norfolk', Chesapeake: 'Chesapeake', Richmond: 'Richmond City',
+    Arlington: 'Arlington', Alexandria: 'Alexandria', 'Newport News': 'Newport News', Roanoke: 'Roanoke City',
+    Charlottesville: 'Charlottesville'
+  },
+  WA: {
+    Seattle: 'King', Bellevue: 'King', Spokane: 'Spokane', Tacoma: 'Pierce', Vancouver: 'Clark', Olympia: 'Thurston',
+    Everett: 'Snohomish'
+  },
+  WV: { Charleston: 'Kanawha', Huntington: 'Cabell', Morgantown: 'Monongalia' },
+  WI: { Milwaukee: 'Milwaukee', Madison: 'Dane', 'Green Bay': 'Brown', Kenosha: 'Kenosha' },
+  WY: { Cheyenne: 'Laramie', Casper: 'Natrona', Laramie: 'Albany' }
+};